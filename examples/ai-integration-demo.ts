@@ -48,7 +48,7 @@ async function main() {
       console.log('✅ AI service is healthy\n');
     } else {
       console.log('❌ AI service health check failed');
-      console.log(`   Gemini: ${health.gemini ? '✅' : '❌'}\n`);
+      console.log(`   ${health.provider}: ${health.healthy ? '✅' : '❌'}\n`);
     }
 
     // Test content type detection
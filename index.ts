@@ -6,8 +6,11 @@ import {
   handleWebSocketUpgrade,
   websocketHandlers,
   responseCacheMiddleware,
-  compressionMiddleware
+  compressionMiddleware,
+  resumeInterruptedBatches,
+  failInterruptedJobs
 } from './src/web/server/index.js';
+import { getFeedPoller } from './src/core/feeds/index.js';
 import { createLogger } from './src/core/logging/index.js';
 import { getConfig, isProduction } from './src/core/config/index.js';
 import { readFileSync, existsSync } from 'fs';
@@ -239,4 +242,31 @@ if (import.meta.main) {
     version: config.version
   });
   console.log(`Listening on http://${host}:${server.port} ...`);
+
+  // Single-URL jobs a restart cut short cannot be resumed; record them as failed
+  failInterruptedJobs()
+    .then(count => {
+      if (count > 0) {
+        logger.info(`Marked ${count} interrupted jobs as failed`);
+      }
+    })
+    .catch(error => logger.error('Failed to mark interrupted jobs', error));
+
+  // Batches checkpoint every URL to the job store; the ones a restart cut short wait for a
+  // retry with the submitter's key unless the operator opts in to resuming them with the server's
+  const resumeKey = config.batch.resumeWithServerKey ? config.ai.apiKey : undefined;
+  resumeInterruptedBatches(resumeKey)
+    .then(count => {
+      if (count > 0) {
+        logger.info(`Found ${count} interrupted batch jobs`, { resumed: Boolean(resumeKey) });
+      }
+    })
+    .catch(error => logger.error('Failed to resume interrupted batch jobs', error));
+
+  // Feed entries are processed with the server's key, so the scheduler needs one
+  if (config.feeds.enabled && config.ai.apiKey) {
+    getFeedPoller().start();
+  } else if (config.feeds.enabled) {
+    logger.warn('Feed scheduler not started: AI_API_KEY is not set');
+  }
 }
\ No newline at end of file
@@ -0,0 +1,262 @@
+/**
+ * `obsidianize batch <file>`
+ * Process every URL listed in a text or JSON file
+ *
+ * Version: 1.0.0
+ */
+
+import { extname } from 'path';
+import chalk from 'chalk';
+import { StorageError, ValidationError, getErrorMessage } from '../../core/errors/index.js';
+import { ErrorCategory, ProcessingStatus } from '../../core/types/index.js';
+import { URLValidator } from '../../core/validators/index.js';
+import { getSummarizationSettings, isSummarizationLevel, type SummarizationLevel } from '../../core/summarization.js';
+import { parseIntFlag } from '../args.js';
+import { MAX_CONCURRENT } from '../config.js';
+import { EXIT_CODES, exitCodeForError, usageError, type ExitCode } from '../errors.js';
+import { generateBatchId, saveJobRecord, type CliJobItem, type CliJobRecord } from '../jobs.js';
+import { processUrl, resolveRunSettings, status, type RunSettings } from '../pipeline.js';
+import type { CliContext } from '../context.js';
+
+// ============================================================================
+// INPUT FILE
+// ============================================================================
+
+/** One URL to process, with optional per-URL overrides */
+export interface BatchEntry {
+  url: string;
+  summarization?: SummarizationLevel;
+}
+
+/** Parsed batch file */
+export interface BatchFile {
+  entries: BatchEntry[];
+  concurrent?: number;
+  timeout?: number;
+}
+
+/** JSON batch file shape (see docs/PHASE_4_CLI_ROADMAP.md) */
+interface BatchFileJson {
+  urls?: Array<string | { url?: string; summary?: string; summarization?: string }>;
+  batch?: { concurrent?: number; timeout?: number };
+}
+
+/**
+ * Parse a batch file: JSON (by extension) or plain text with one URL per line.
+ * Blank lines and lines starting with # are ignored in text files.
+ */
+export function parseBatchFile(text: string, filename: string): BatchFile {
+  if (extname(filename).toLowerCase() !== '.json') {
+    const entries = text
+      .split(/\r?\n/)
+      .map(line => line.trim())
+      .filter(line => line.length > 0 && !line.startsWith('#'))
+      .map(url => ({ url }));
+    return { entries };
+  }
+
+  let json: BatchFileJson;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    throw usageError(`Batch file is not valid JSON: ${filename}`);
+  }
+
+  if (!Array.isArray(json.urls)) {
+    throw usageError(`Batch file must contain a "urls" array: ${filename}`);
+  }
+
+  const entries = json.urls.map((item, index): BatchEntry => {
+    if (typeof item === 'string') {
+      return { url: item };
+    }
+
+    const summarization = item.summarization ?? item.summary;
+    if (!item.url || (summarization !== undefined && !isSummarizationLevel(summarization))) {
+      throw usageError(`Invalid entry #${index + 1} in ${filename}`);
+    }
+    return { url: item.url, summarization };
+  });
+
+  return {
+    entries,
+    concurrent: json.batch?.concurrent,
+    timeout: json.batch?.timeout
+  };
+}
+
+/**
+ * Read and parse a batch file from disk
+ */
+async function readBatchFile(path: string): Promise<BatchFile> {
+  const file = Bun.file(path);
+  if (!(await file.exists())) {
+    throw new StorageError({
+      message: `Batch file not found: ${path}`,
+      code: 'FILE_NOT_FOUND',
+      category: ErrorCategory.SYSTEM,
+      filePath: path,
+      operation: 'read',
+      recoverable: false
+    });
+  }
+  return parseBatchFile(await file.text(), path);
+}
+
+// ============================================================================
+// COMMAND
+// ============================================================================
+
+export async function batchCommand(ctx: CliContext, args: string[]): Promise<ExitCode> {
+  const [path, ...extra] = args;
+  if (!path || extra.length > 0) {
+    throw usageError('batch expects exactly one file', 'Usage: obsidianize batch <file> [options]');
+  }
+
+  const batch = await readBatchFile(path);
+  if (batch.entries.length === 0) {
+    throw usageError(`No URLs found in ${path}`);
+  }
+
+  // Validate every URL up front, like the web batch route
+  const invalid = batch.entries
+    .map(entry => ({ url: entry.url, validation: URLValidator.validateAndClassify(entry.url) }))
+    .filter(({ validation }) => !validation.valid);
+
+  if (ctx.flags['dry-run']) {
+    for (const entry of batch.entries) {
+      const bad = invalid.find(item => item.url === entry.url);
+      ctx.io.out(bad
+        ? `${chalk.red('✗')} ${entry.url} (${bad.validation.error ?? 'invalid'})`
+        : `${chalk.green('✓')} ${entry.url}`);
+    }
+    status(ctx, `${batch.entries.length - invalid.length}/${batch.entries.length} URLs valid`);
+    return invalid.length > 0 ? EXIT_CODES.VALIDATION_ERROR : EXIT_CODES.SUCCESS;
+  }
+
+  if (invalid.length > 0) {
+    throw new ValidationError({
+      message: `Some URLs are invalid:\n${invalid.map(({ url, validation }) => `  ${url}: ${validation.error ?? 'invalid'}`).join('\n')}`,
+      code: 'INVALID_URLS',
+      category: ErrorCategory.VALIDATION,
+      field: 'urls',
+      suggestion: 'Run with --dry-run to check the file without processing'
+    });
+  }
+
+  const settings = resolveRunSettings(ctx);
+  if (settings.output !== '-' && /\.(md|json|ya?ml)$/i.test(settings.output)) {
+    throw usageError('--output must be a directory for batch runs');
+  }
+  if (ctx.flags.timeout === undefined && batch.timeout !== undefined) {
+    settings.timeoutMs = batch.timeout * 1000;
+  }
+
+  const concurrent = parseIntFlag('concurrent', ctx.flags.concurrent, 1, MAX_CONCURRENT)
+    ?? Math.min(Math.max(batch.concurrent ?? ctx.config.defaults.concurrent, 1), MAX_CONCURRENT);
+
+  const record: CliJobRecord = {
+    id: generateBatchId(),
+    status: ProcessingStatus.PROCESSING,
+    source: path,
+    totalUrls: batch.entries.length,
+    completedUrls: 0,
+    failedUrls: 0,
+    progress: 0,
+    message: 'Processing URLs...',
+    createdAt: new Date().toISOString(),
+    updatedAt: new Date().toISOString(),
+    items: batch.entries.map(entry => ({ url: entry.url, status: ProcessingStatus.PENDING }))
+  };
+  await saveJobRecord(record, ctx.env);
+
+  status(ctx, `Batch ${record.id}: ${record.totalUrls} URLs, ${concurrent} at a time`);
+
+  let firstError: unknown;
+  let stopped = false;
+
+  for (let i = 0; i < batch.entries.length && !stopped; i += concurrent) {
+    const chunk = batch.entries.slice(i, i + concurrent);
+
+    await Promise.all(chunk.map(async (entry, offset) => {
+      const item = record.items[i + offset];
+      item.status = ProcessingStatus.PROCESSING;
+
+      const error = await runEntry(ctx, entry, settings, item);
+      if (error === undefined) {
+        record.completedUrls++;
+        status(ctx, `${chalk.green('✓')} ${entry.url}${item.outputPath ? ` → ${item.outputPath}` : ''}`);
+      } else {
+        record.failedUrls++;
+        firstError ??= error;
+        status(ctx, `${chalk.red('✗')} ${entry.url}: ${item.error}`);
+      }
+    }));
+
+    const done = record.completedUrls + record.failedUrls;
+    record.progress = Math.round((done / record.totalUrls) * 100);
+    record.message = `Processed ${done}/${record.totalUrls} URLs`;
+
+    if (ctx.flags['stop-on-error'] && record.failedUrls > 0) {
+      stopped = true;
+      record.message = `Stopped after error: ${done}/${record.totalUrls} URLs processed`;
+    }
+
+    await saveJobRecord(record, ctx.env);
+  }
+
+  record.status = record.failedUrls === record.totalUrls || stopped
+    ? ProcessingStatus.FAILED
+    : ProcessingStatus.COMPLETED;
+  if (!stopped) {
+    record.progress = 100;
+    record.message = `Completed: ${record.completedUrls} successful, ${record.failedUrls} failed`;
+  }
+  await saveJobRecord(record, ctx.env);
+
+  status(ctx, record.message);
+  // The batch ID is the command's result, so it goes to stdout for `obsidianize status`
+  ctx.io.out(record.id);
+
+  return firstError === undefined ? EXIT_CODES.SUCCESS : exitCodeForError(firstError);
+}
+
+/**
+ * Process one entry, recording the outcome on its job item.
+ * Returns the error (processing result error or thrown error) on failure.
+ */
+async function runEntry(
+  ctx: CliContext,
+  entry: BatchEntry,
+  settings: RunSettings,
+  item: CliJobItem
+): Promise<unknown> {
+  const entrySettings: RunSettings = entry.summarization
+    ? {
+        ...settings,
+        summarization: entry.summarization,
+        analysisMode: getSummarizationSettings(entry.summarization).analysisMode
+      }
+    : settings;
+
+  const startTime = Date.now();
+  try {
+    const outcome = await processUrl(ctx, entry.url, entrySettings);
+    item.duration = Date.now() - startTime;
+
+    if (!outcome.result.success) {
+      item.status = ProcessingStatus.FAILED;
+      item.error = outcome.result.error?.message ?? 'Processing failed';
+      return outcome.result.error ?? new Error(item.error);
+    }
+
+    item.status = ProcessingStatus.COMPLETED;
+    item.outputPath = outcome.outputPath;
+    return undefined;
+  } catch (error) {
+    item.duration = Date.now() - startTime;
+    item.status = ProcessingStatus.FAILED;
+    item.error = getErrorMessage(error);
+    return error;
+  }
+}
@@ -0,0 +1,116 @@
+/**
+ * `obsidianize config <list|get|set|delete|validate|reset|path>`
+ * Manage the CLI configuration file
+ *
+ * Version: 1.0.0
+ */
+
+import chalk from 'chalk';
+import {
+  DEFAULT_CLI_CONFIG,
+  deleteConfigValue,
+  getConfigFilePath,
+  getConfigValue,
+  listConfigKeys,
+  loadCliConfig,
+  maskApiKey,
+  normalizeConfigKey,
+  resolveApiKey,
+  saveCliConfig,
+  setConfigValue,
+  type CliConfig
+} from '../config.js';
+import { EXIT_CODES, usageError, type ExitCode } from '../errors.js';
+import type { CliContext } from '../context.js';
+
+const USAGE = 'Usage: obsidianize config <list|get <key>|set <key> <value>|delete <key>|validate|reset|path>';
+
+export async function configCommand(ctx: CliContext, args: string[]): Promise<ExitCode> {
+  const [action = 'list', ...rest] = args;
+
+  switch (action) {
+    case 'list': {
+      const masked = maskConfig(ctx.config);
+      if (ctx.flags.json) {
+        ctx.io.out(JSON.stringify(masked, null, 2));
+      } else {
+        for (const key of listConfigKeys()) {
+          const value = getConfigValue(masked, key);
+          ctx.io.out(`${key} = ${value === undefined ? chalk.dim('(not set)') : String(value)}`);
+        }
+        if (ctx.env.OBSIDIANIZE_API_KEY) {
+          ctx.io.out(chalk.dim('OBSIDIANIZE_API_KEY is set and overrides gemini.api-key'));
+        }
+      }
+      return EXIT_CODES.SUCCESS;
+    }
+
+    case 'get': {
+      const [key] = requireArgs(rest, 1);
+      const value = getConfigValue(ctx.config, key);
+      if (value === undefined) {
+        return EXIT_CODES.GENERAL_ERROR;
+      }
+      ctx.io.out(String(value));
+      return EXIT_CODES.SUCCESS;
+    }
+
+    case 'set': {
+      const [key, value] = requireArgs(rest, 2);
+      const next = setConfigValue(ctx.config, key, value);
+      await saveCliConfig(next, ctx.env);
+      ctx.io.err(`${chalk.green('✓')} ${normalizeConfigKey(key)} updated`);
+      return EXIT_CODES.SUCCESS;
+    }
+
+    case 'delete': {
+      const [key] = requireArgs(rest, 1);
+      await saveCliConfig(deleteConfigValue(ctx.config, key), ctx.env);
+      ctx.io.err(`${chalk.green('✓')} ${normalizeConfigKey(key)} reset to default`);
+      return EXIT_CODES.SUCCESS;
+    }
+
+    case 'validate': {
+      requireArgs(rest, 0);
+      // Loading re-runs schema validation and throws ConfigError on problems
+      await loadCliConfig(ctx.env);
+      if (!resolveApiKey(ctx.config, ctx.env)) {
+        ctx.io.err(`${chalk.yellow('!')} No API key configured (run \`obsidianize setup\`)`);
+        return EXIT_CODES.CONFIG_ERROR;
+      }
+      ctx.io.err(`${chalk.green('✓')} Configuration is valid`);
+      return EXIT_CODES.SUCCESS;
+    }
+
+    case 'reset': {
+      requireArgs(rest, 0);
+      await saveCliConfig(structuredClone(DEFAULT_CLI_CONFIG), ctx.env);
+      ctx.io.err(`${chalk.green('✓')} Configuration reset to defaults`);
+      return EXIT_CODES.SUCCESS;
+    }
+
+    case 'path':
+      requireArgs(rest, 0);
+      ctx.io.out(getConfigFilePath(ctx.env));
+      return EXIT_CODES.SUCCESS;
+
+    default:
+      throw usageError(`Unknown config action "${action}"`, USAGE);
+  }
+}
+
+function requireArgs(args: string[], count: number): string[] {
+  if (args.length !== count) {
+    throw usageError(`Expected ${count} argument${count === 1 ? '' : 's'}`, USAGE);
+  }
+  return args;
+}
+
+/** Copy of the config with the API key masked for display */
+function maskConfig(config: CliConfig): CliConfig {
+  const masked = structuredClone(config);
+  if (masked.gemini.apiKey) {
+    masked.gemini.apiKey = maskApiKey(masked.gemini.apiKey);
+  }
+  return masked;
+}
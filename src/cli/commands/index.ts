@@ -0,0 +1,11 @@
+/**
+ * CLI Command Exports
+ *
+ * Version: 1.0.0
+ */
+
+export { processCommand } from './process.js';
+export { batchCommand, parseBatchFile, type BatchEntry, type BatchFile } from './batch.js';
+export { configCommand } from './config.js';
+export { statusCommand, renderJob } from './status.js';
+export { setupCommand } from './setup.js';
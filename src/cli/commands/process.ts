@@ -0,0 +1,42 @@
+/**
+ * `obsidianize process <url>`
+ * Process a single URL and write the gem to a file or stdout
+ *
+ * Version: 1.0.0
+ */
+
+import chalk from 'chalk';
+import { fileUtils } from '../../core/storage/file-operations.js';
+import { EXIT_CODES, exitCodeForError, formatCliError, usageError, type ExitCode } from '../errors.js';
+import { assertProcessableUrl, processUrl, resolveRunSettings, status } from '../pipeline.js';
+import type { CliContext } from '../context.js';
+
+export async function processCommand(ctx: CliContext, args: string[]): Promise<ExitCode> {
+  const [url, ...extra] = args;
+  if (!url || extra.length > 0) {
+    throw usageError('process expects exactly one URL', 'Usage: obsidianize process <url> [options]');
+  }
+
+  assertProcessableUrl(url);
+  const settings = resolveRunSettings(ctx);
+
+  status(ctx, `Processing: ${url}`);
+  const outcome = await processUrl(ctx, url, settings);
+  const { result } = outcome;
+
+  if (!result.success) {
+    ctx.io.err(formatCliError(result.error ?? { message: 'Processing failed' }));
+    return result.error ? exitCodeForError(result.error) : EXIT_CODES.PROCESSING_ERROR;
+  }
+
+  const seconds = (result.metadata.duration / 1000).toFixed(2);
+  status(ctx, `${chalk.green('✓')} Complete! (${seconds}s)`);
+
+  if (outcome.outputPath) {
+    status(ctx, `  Size: ${fileUtils.formatBytes(Buffer.byteLength(outcome.content ?? ''))}`);
+    // The saved path is the command's result, so it goes to stdout for scripting
+    ctx.io.out(outcome.outputPath);
+  }
+
+  return EXIT_CODES.SUCCESS;
+}
@@ -0,0 +1,121 @@
+/**
+ * `obsidianize setup`
+ * Interactive first-run wizard: API key, default preferences and verification
+ *
+ * Version: 1.0.0
+ */
+
+import chalk from 'chalk';
+import { validateGeminiKey } from '../../core/validators/api-key-validator.js';
+import { EXPORT_FORMATS, isExportFormat } from '../../core/formatters/export.js';
+import { SUMMARIZATION_LEVELS, isSummarizationLevel } from '../../core/summarization.js';
+import { MAX_CONCURRENT, maskApiKey, saveCliConfig, type CliConfig } from '../config.js';
+import { EXIT_CODES, type ExitCode } from '../errors.js';
+import type { CliContext } from '../context.js';
+
+/** Attempts allowed per question before giving up */
+const MAX_ATTEMPTS = 3;
+
+/** Raised when input closes or a question keeps getting invalid answers */
+class SetupAborted extends Error {}
+
+export async function setupCommand(ctx: CliContext): Promise<ExitCode> {
+  const { io } = ctx;
+  const config: CliConfig = structuredClone(ctx.config);
+
+  io.err(chalk.bold('Welcome to Obsidianize CLI Setup!'));
+
+  try {
+    io.err('');
+    io.err(chalk.bold('Step 1: Gemini API Key Setup'));
+    const existing = config.gemini.apiKey;
+    const apiKey = ask(ctx, `Enter your API key${existing ? ` [${maskApiKey(existing)}]` : ''}:`, existing, (value) => {
+      const result = validateGeminiKey(value, 'cli-setup');
+      return result.valid ? null : result.error ?? 'Invalid API key';
+    });
+    if (apiKey !== existing) {
+      config.gemini.apiKey = apiKey;
+      config.gemini.apiKeyLastSet = new Date().toISOString();
+    }
+
+    io.err('');
+    io.err(chalk.bold('Step 2: Default Preferences'));
+    const format = ask(ctx, `Default output format? (${EXPORT_FORMATS.join('/')}) [${config.defaults.outputFormat}]:`,
+      config.defaults.outputFormat,
+      (value) => isExportFormat(value) ? null : `Choose one of ${EXPORT_FORMATS.join(', ')}`);
+    const summary = ask(ctx, `Default summary level? (${SUMMARIZATION_LEVELS.join('/')}) [${config.defaults.summaryLevel}]:`,
+      config.defaults.summaryLevel,
+      (value) => isSummarizationLevel(value) ? null : `Choose one of ${SUMMARIZATION_LEVELS.join(', ')}`);
+    const directory = ask(ctx, `Default output directory? [${config.defaults.outputDirectory}]:`,
+      config.defaults.outputDirectory,
+      () => null);
+    const concurrent = ask(ctx, `Concurrent batch jobs? (1-${MAX_CONCURRENT}) [${config.defaults.concurrent}]:`,
+      String(config.defaults.concurrent),
+      (value) => {
+        const parsed = Number(value);
+        return Number.isInteger(parsed) && parsed >= 1 && parsed <= MAX_CONCURRENT
+          ? null
+          : `Enter a whole number between 1 and ${MAX_CONCURRENT}`;
+      });
+
+    if (isExportFormat(format)) config.defaults.outputFormat = format;
+    if (isSummarizationLevel(summary)) config.defaults.summaryLevel = summary;
+    config.defaults.outputDirectory = directory;
+    config.defaults.concurrent = Number(concurrent);
+  } catch (error) {
+    if (error instanceof SetupAborted) {
+      io.err(`${chalk.red('✗')} Setup aborted: ${error.message}`);
+      return EXIT_CODES.CONFIG_ERROR;
+    }
+    throw error;
+  }
+
+  io.err('');
+  io.err(chalk.bold('Step 3: Verification'));
+  io.err('Testing API key...');
+  const verification = await ctx.verifyApiKey(config.gemini.apiKey!);
+  if (verification.valid) {
+    io.err(`${chalk.green('✓')} API key is valid!`);
+  } else {
+    io.err(`${chalk.yellow('!')} Could not verify API key: ${verification.error ?? 'unknown error'}`);
+    io.err(chalk.dim('  The key was saved anyway; check it with `obsidianize config validate` later.'));
+  }
+
+  const configPath = await saveCliConfig(config, ctx.env);
+  io.err('');
+  io.err(`${chalk.green('✓')} Setup complete!`);
+  io.err(`  Config saved to: ${configPath}`);
+
+  return EXIT_CODES.SUCCESS;
+}
+
+/**
+ * Ask until the answer validates; an empty answer keeps the default
+ */
+function ask(
+  ctx: CliContext,
+  question: string,
+  defaultValue: string | undefined,
+  validate: (value: string) => string | null
+): string {
+  for (let attempt = 0; attempt < MAX_ATTEMPTS; attempt++) {
+    const answer = ctx.io.prompt(question);
+    if (answer === null) {
+      throw new SetupAborted('input closed');
+    }
+
+    const value = answer.trim() || defaultValue;
+    if (value === undefined) {
+      ctx.io.err(chalk.yellow('  A value is required'));
+      continue;
+    }
+
+    const problem = validate(value);
+    if (problem === null) {
+      return value;
+    }
+    ctx.io.err(chalk.yellow(`  ${problem}`));
+  }
+
+  throw new SetupAborted('too many invalid answers');
+}
@@ -0,0 +1,98 @@
+/**
+ * `obsidianize status [job-id]`
+ * Report on a recorded batch run, or list recent runs when no ID is given
+ *
+ * Version: 1.0.0
+ */
+
+import chalk from 'chalk';
+import { ErrorCategory, ProcessingStatus } from '../../core/types/index.js';
+import { ValidationError } from '../../core/errors/index.js';
+import { EXIT_CODES, usageError, type ExitCode } from '../errors.js';
+import { listJobRecords, loadJobRecord, type CliJobRecord } from '../jobs.js';
+import type { CliContext } from '../context.js';
+
+/** Width of the progress bar in characters */
+const BAR_WIDTH = 20;
+
+export async function statusCommand(ctx: CliContext, args: string[]): Promise<ExitCode> {
+  const [jobId, ...extra] = args;
+  if (extra.length > 0) {
+    throw usageError('status expects at most one job ID', 'Usage: obsidianize status [job-id] [--json]');
+  }
+
+  if (!jobId) {
+    const records = await listJobRecords(ctx.env);
+    if (ctx.flags.json) {
+      ctx.io.out(JSON.stringify(records, null, 2));
+    } else if (records.length === 0) {
+      ctx.io.out('No batch jobs recorded yet');
+    } else {
+      for (const record of records) {
+        ctx.io.out(`${record.id}  ${formatStatus(record.status).padEnd(10)}  ${record.completedUrls}/${record.totalUrls}  ${record.source}`);
+      }
+    }
+    return EXIT_CODES.SUCCESS;
+  }
+
+  const record = await loadJobRecord(jobId, ctx.env);
+  if (!record) {
+    throw new ValidationError({
+      message: `Job not found: ${jobId}`,
+      code: 'JOB_NOT_FOUND',
+      category: ErrorCategory.VALIDATION,
+      field: 'jobId',
+      value: jobId,
+      suggestion: 'Run `obsidianize status` to list recorded jobs'
+    });
+  }
+
+  ctx.io.out(ctx.flags.json ? JSON.stringify(record, null, 2) : renderJob(record, ctx.flags.verbose === true));
+  return EXIT_CODES.SUCCESS;
+}
+
+/**
+ * Render a job record for the terminal
+ */
+export function renderJob(record: CliJobRecord, verbose: boolean = false): string {
+  const pending = record.totalUrls - record.completedUrls - record.failedUrls;
+  const filled = Math.round((record.progress / 100) * BAR_WIDTH);
+  const durationMs = new Date(record.updatedAt).getTime() - new Date(record.createdAt).getTime();
+
+  const lines = [
+    `Job ID: ${record.id}`,
+    `Status: ${formatStatus(record.status)}`,
+    `Source: ${record.source}`,
+    `Started: ${new Date(record.createdAt).toLocaleString()}`,
+    `Duration: ${formatDuration(durationMs)}`,
+    '',
+    `Progress: ${'█'.repeat(filled)}${'░'.repeat(BAR_WIDTH - filled)} ${record.progress}%`,
+    `- Completed: ${record.completedUrls}/${record.totalUrls}`,
+    `- Failed: ${record.failedUrls}`,
+    `- Pending: ${pending}`
+  ];
+
+  const shown = verbose ? record.items : record.items.filter(item => item.status === ProcessingStatus.FAILED);
+  if (shown.length > 0) {
+    lines.push('');
+    for (const item of shown) {
+      const mark = item.status === ProcessingStatus.COMPLETED ? chalk.green('✓')
+        : item.status === ProcessingStatus.FAILED ? chalk.red('✗')
+        : chalk.dim('·');
+      lines.push(`${mark} ${item.url}${item.error ? `: ${item.error}` : item.outputPath ? ` → ${item.outputPath}` : ''}`);
+    }
+  }
+
+  return lines.join('\n');
+}
+
+function formatStatus(status: ProcessingStatus): string {
+  return status.charAt(0).toUpperCase() + status.slice(1);
+}
+
+function formatDuration(ms: number): string {
+  const totalSeconds = Math.max(0, Math.round(ms / 1000));
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return minutes > 0 ? `${minutes}m ${seconds}s` : `${seconds}s`;
+}
@@ -0,0 +1,310 @@
+/**
+ * CLI Configuration File
+ * Loads, validates and persists ~/.obsidianize/config.json
+ *
+ * Version: 1.0.0
+ */
+
+import { promises as fs } from 'fs';
+import { homedir } from 'os';
+import { join } from 'path';
+import { z } from 'zod';
+import { ConfigError } from '../core/errors/index.js';
+import { ErrorCategory } from '../core/types/index.js';
+import { fileOps } from '../core/storage/file-operations.js';
+import { EXPORT_FORMATS, type ExportFormat } from '../core/formatters/export.js';
+import { SUMMARIZATION_LEVELS, type SummarizationLevel } from '../core/summarization.js';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/** Environment variables consulted by the CLI */
+export type CliEnv = Record<string, string | undefined>;
+
+/** Persisted CLI configuration */
+export interface CliConfig {
+  version: string;
+  gemini: {
+    apiKey?: string;
+    apiKeyLastSet?: string;
+  };
+  defaults: {
+    outputFormat: ExportFormat;
+    outputDirectory: string;
+    summaryLevel: SummarizationLevel;
+    concurrent: number;
+  };
+  display: {
+    verbose: boolean;
+  };
+  vault: {
+    /** Obsidian vault root; when set, gems are saved as notes inside it */
+    path?: string;
+    attachmentsFolder: string;
+    /** Create stub notes with backlinks for linked entities */
+    entityNotes: boolean;
+  };
+}
+
+// ============================================================================
+// SCHEMA & DEFAULTS
+// ============================================================================
+
+export const CONFIG_VERSION = '1.0.0';
+
+/** Maximum parallel workers for batch processing */
+export const MAX_CONCURRENT = 10;
+
+export const DEFAULT_CLI_CONFIG: CliConfig = {
+  version: CONFIG_VERSION,
+  gemini: {},
+  defaults: {
+    outputFormat: 'markdown',
+    outputDirectory: '.',
+    summaryLevel: 'standard',
+    concurrent: 3
+  },
+  display: {
+    verbose: false
+  },
+  vault: {
+    attachmentsFolder: 'attachments',
+    entityNotes: false
+  }
+};
+
+export const cliConfigSchema = z.object({
+  version: z.string(),
+  gemini: z.object({
+    apiKey: z.string().min(1).optional(),
+    apiKeyLastSet: z.string().optional()
+  }).strict(),
+  defaults: z.object({
+    outputFormat: z.enum(EXPORT_FORMATS as [ExportFormat, ...ExportFormat[]]),
+    outputDirectory: z.string().min(1),
+    summaryLevel: z.enum(SUMMARIZATION_LEVELS as [SummarizationLevel, ...SummarizationLevel[]]),
+    concurrent: z.number().int().min(1).max(MAX_CONCURRENT)
+  }).strict(),
+  display: z.object({
+    verbose: z.boolean()
+  }).strict(),
+  vault: z.object({
+    path: z.string().min(1).optional(),
+    attachmentsFolder: z.string().min(1),
+    entityNotes: z.boolean()
+  }).strict()
+}).strict();
+
+/** Settable keys, in the dotted kebab-case form users type */
+const CONFIG_KEYS: Record<string, { path: [keyof CliConfig, string]; type: 'string' | 'number' | 'boolean' }> = {
+  'gemini.api-key': { path: ['gemini', 'apiKey'], type: 'string' },
+  'defaults.output-format': { path: ['defaults', 'outputFormat'], type: 'string' },
+  'defaults.output-directory': { path: ['defaults', 'outputDirectory'], type: 'string' },
+  'defaults.summary-level': { path: ['defaults', 'summaryLevel'], type: 'string' },
+  'defaults.concurrent': { path: ['defaults', 'concurrent'], type: 'number' },
+  'display.verbose': { path: ['display', 'verbose'], type: 'boolean' },
+  'vault.path': { path: ['vault', 'path'], type: 'string' },
+  'vault.attachments-folder': { path: ['vault', 'attachmentsFolder'], type: 'string' },
+  'vault.entity-notes': { path: ['vault', 'entityNotes'], type: 'boolean' }
+};
+
+/** Short aliases accepted for convenience */
+const CONFIG_KEY_ALIASES: Record<string, string> = {
+  'defaults.summary': 'defaults.summary-level',
+  'defaults.summarization': 'defaults.summary-level',
+  'defaults.format': 'defaults.output-format',
+  'defaults.output': 'defaults.output-directory'
+};
+
+// ============================================================================
+// PATHS
+// ============================================================================
+
+/** Directory holding config.json and job records */
+export function getConfigDir(env: CliEnv = process.env): string {
+  return env.OBSIDIANIZE_CONFIG_PATH || join(homedir(), '.obsidianize');
+}
+
+export function getConfigFilePath(env: CliEnv = process.env): string {
+  return join(getConfigDir(env), 'config.json');
+}
+
+// ============================================================================
+// LOAD & SAVE
+// ============================================================================
+
+/**
+ * Validate a raw config object, throwing ConfigError on failure
+ */
+export function validateCliConfig(raw: unknown, configPath?: string): CliConfig {
+  const result = cliConfigSchema.safeParse(raw);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    const key = issue.path.join('.');
+    throw new ConfigError({
+      message: `Invalid configuration${key ? ` at "${key}"` : ''}: ${issue.message}`,
+      code: 'INVALID_CLI_CONFIG',
+      category: ErrorCategory.CONFIG,
+      configKey: key || undefined,
+      configPath,
+      suggestion: 'Fix the value with `obsidianize config set` or run `obsidianize config reset`'
+    });
+  }
+  return result.data as CliConfig;
+}
+
+/**
+ * Load the config file, filling in defaults for anything missing
+ */
+export async function loadCliConfig(env: CliEnv = process.env): Promise<CliConfig> {
+  const configPath = getConfigFilePath(env);
+  const file = Bun.file(configPath);
+
+  if (!(await file.exists())) {
+    return structuredClone(DEFAULT_CLI_CONFIG);
+  }
+
+  let raw: Partial<CliConfig>;
+  try {
+    raw = JSON.parse(await file.text());
+  } catch (error) {
+    throw new ConfigError({
+      message: `Config file is not valid JSON: ${configPath}`,
+      code: 'INVALID_CLI_CONFIG',
+      category: ErrorCategory.CONFIG,
+      configPath,
+      cause: error instanceof Error ? error : undefined,
+      suggestion: 'Fix the file by hand or run `obsidianize config reset`'
+    });
+  }
+
+  return validateCliConfig({
+    ...DEFAULT_CLI_CONFIG,
+    ...raw,
+    gemini: { ...DEFAULT_CLI_CONFIG.gemini, ...raw.gemini },
+    defaults: { ...DEFAULT_CLI_CONFIG.defaults, ...raw.defaults },
+    display: { ...DEFAULT_CLI_CONFIG.display, ...raw.display },
+    vault: { ...DEFAULT_CLI_CONFIG.vault, ...raw.vault }
+  }, configPath);
+}
+
+/**
+ * Persist the config file with owner-only permissions
+ */
+export async function saveCliConfig(config: CliConfig, env: CliEnv = process.env): Promise<string> {
+  const configPath = getConfigFilePath(env);
+  const validated = validateCliConfig(config, configPath);
+
+  await fileOps.writeFile(configPath, JSON.stringify(validated, null, 2) + '\n', { backup: false });
+  await fs.chmod(configPath, 0o600);
+
+  return configPath;
+}
+
+// ============================================================================
+// KEY ACCESS
+// ============================================================================
+
+/**
+ * Resolve a user-supplied key (kebab-case, camelCase or alias) to its canonical form
+ */
+export function normalizeConfigKey(key: string): string {
+  const kebab = key.trim().replace(/([a-z0-9])([A-Z])/g, '$1-$2').toLowerCase();
+  const canonical = CONFIG_KEY_ALIASES[kebab] ?? kebab;
+
+  if (!CONFIG_KEYS[canonical]) {
+    throw new ConfigError({
+      message: `Unknown configuration key: ${key}`,
+      code: 'UNKNOWN_CONFIG_KEY',
+      category: ErrorCategory.CONFIG,
+      configKey: key,
+      suggestion: `Valid keys: ${listConfigKeys().join(', ')}`
+    });
+  }
+
+  return canonical;
+}
+
+/** All settable configuration keys */
+export function listConfigKeys(): string[] {
+  return Object.keys(CONFIG_KEYS);
+}
+
+export function getConfigValue(config: CliConfig, key: string): unknown {
+  const [section, field] = CONFIG_KEYS[normalizeConfigKey(key)].path;
+  return (config[section] as Record<string, unknown>)[field];
+}
+
+/**
+ * Return a copy of the config with one key set (string input is coerced to the key's type)
+ */
+export function setConfigValue(config: CliConfig, key: string, value: string): CliConfig {
+  const canonical = normalizeConfigKey(key);
+  const { path: [section, field], type } = CONFIG_KEYS[canonical];
+
+  let parsed: string | number | boolean = value;
+  if (type === 'number') {
+    parsed = Number(value);
+  } else if (type === 'boolean') {
+    if (!['true', 'false'].includes(value.toLowerCase())) {
+      throw new ConfigError({
+        message: `${canonical} must be true or false`,
+        code: 'INVALID_CLI_CONFIG',
+        category: ErrorCategory.CONFIG,
+        configKey: canonical
+      });
+    }
+    parsed = value.toLowerCase() === 'true';
+  }
+
+  const next = structuredClone(config);
+  (next[section] as Record<string, unknown>)[field] = parsed;
+  if (canonical === 'gemini.api-key') {
+    next.gemini.apiKeyLastSet = new Date().toISOString();
+  }
+
+  return validateCliConfig(next);
+}
+
+/**
+ * Return a copy of the config with one key restored to its default
+ */
+export function deleteConfigValue(config: CliConfig, key: string): CliConfig {
+  const canonical = normalizeConfigKey(key);
+  const [section, field] = CONFIG_KEYS[canonical].path;
+
+  const next = structuredClone(config);
+  const defaults = DEFAULT_CLI_CONFIG[section] as Record<string, unknown>;
+  const target = next[section] as Record<string, unknown>;
+
+  if (field in defaults) {
+    target[field] = defaults[field];
+  } else {
+    delete target[field];
+  }
+  if (canonical === 'gemini.api-key') {
+    delete next.gemini.apiKeyLastSet;
+  }
+
+  return next;
+}
+
+// ============================================================================
+// API KEY
+// ============================================================================
+
+/**
+ * Resolve the API key: OBSIDIANIZE_API_KEY wins over the config file
+ */
+export function resolveApiKey(config: CliConfig, env: CliEnv = process.env): string | undefined {
+  return env.OBSIDIANIZE_API_KEY || config.gemini.apiKey;
+}
+
+/** Mask an API key for display */
+export function maskApiKey(apiKey: string): string {
+  if (apiKey.length <= 8) {
+    return '****';
+  }
+  return `${apiKey.slice(0, 4)}…${apiKey.slice(-4)}`;
+}
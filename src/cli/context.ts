@@ -0,0 +1,74 @@
+/**
+ * CLI Command Context
+ * Terminal I/O and service wiring handed to every command, so commands can be
+ * exercised in tests without a real terminal or network
+ *
+ * Version: 1.0.0
+ */
+
+import { join } from 'path';
+import { DataProcessor } from '../core/processor.js';
+import { getConfig, setConfig } from '../core/config/index.js';
+import { ApiKeyValidator } from '../core/validators/index.js';
+import type { ProcessingRequest, ProcessingResult } from '../core/types/index.js';
+import type { CliFlags } from './args.js';
+import { getConfigDir, type CliConfig, type CliEnv } from './config.js';
+
+/** Terminal I/O */
+export interface CliIO {
+  /** Write command output (stdout) */
+  out(text: string): void;
+  /** Write status, progress and errors (stderr) */
+  err(text: string): void;
+  /** Ask a question and read one line; null when input is closed */
+  prompt(question: string): string | null;
+}
+
+/** Anything that can run a processing request */
+export interface RequestProcessor {
+  processRequest(request: ProcessingRequest): Promise<ProcessingResult>;
+}
+
+/** Context passed to command handlers */
+export interface CliContext {
+  io: CliIO;
+  env: CliEnv;
+  config: CliConfig;
+  flags: CliFlags;
+  createProcessor(): RequestProcessor;
+  /** Check an API key against the live API */
+  verifyApiKey(apiKey: string): Promise<{ valid: boolean; error?: string }>;
+}
+
+/** Default I/O bound to the process streams */
+export const consoleIO: CliIO = {
+  out: (text) => process.stdout.write(text + '\n'),
+  err: (text) => process.stderr.write(text + '\n'),
+  prompt: (question) => globalThis.prompt(question)
+};
+
+/**
+ * Keep the processor's SQLite stores in the config directory rather than
+ * ./data under whatever directory the CLI runs from. Paths set through the
+ * environment are kept.
+ */
+function useConfigDirStorage(env: CliEnv): void {
+  const config = getConfig();
+  const dir = getConfigDir(env);
+  setConfig({
+    ...config,
+    cache: { ...config.cache, path: env.CACHE_PATH || join(dir, 'cache.sqlite') },
+    sourceCache: { ...config.sourceCache, storePath: env.SOURCE_CACHE_PATH || join(dir, 'sources.sqlite') }
+  });
+}
+
+/** Default processor factory */
+export function createDefaultProcessor(env: CliEnv = process.env): RequestProcessor {
+  useConfigDirStorage(env);
+  return new DataProcessor();
+}
+
+/** Default live API key check (consumes a minimal amount of quota) */
+export function verifyGeminiApiKey(apiKey: string): Promise<{ valid: boolean; error?: string }> {
+  return ApiKeyValidator.testGeminiKey(apiKey);
+}
@@ -0,0 +1,100 @@
+/**
+ * CLI Exit Codes and Error Mapping
+ * Maps core errors and failed processing results onto stable process exit codes
+ *
+ * Version: 1.0.0
+ */
+
+import chalk from 'chalk';
+import { ObsidianizeError, StorageError, ValidationError } from '../core/errors/index.js';
+import { ErrorCategory, type ProcessingError } from '../core/types/index.js';
+
+/** Process exit codes (see docs/PHASE_4_CLI_ROADMAP.md) */
+export const EXIT_CODES = {
+  SUCCESS: 0,
+  GENERAL_ERROR: 1,
+  USAGE_ERROR: 2,
+  CONFIG_ERROR: 3,
+  PROCESSING_ERROR: 4,
+  NETWORK_ERROR: 5,
+  FILE_ERROR: 6,
+  VALIDATION_ERROR: 7,
+  AUTH_ERROR: 8
+} as const;
+
+export type ExitCode = typeof EXIT_CODES[keyof typeof EXIT_CODES];
+
+/** Error code used for bad command-line usage */
+export const USAGE_ERROR_CODE = 'CLI_USAGE_ERROR';
+
+/**
+ * Create a usage error (unknown flag, missing argument, bad value)
+ */
+export function usageError(message: string, suggestion?: string): ValidationError {
+  return new ValidationError({
+    message,
+    code: USAGE_ERROR_CODE,
+    category: ErrorCategory.VALIDATION,
+    suggestion: suggestion ?? 'Run `obsidianize --help` for usage'
+  });
+}
+
+/**
+ * Map an error category to an exit code
+ */
+export function exitCodeForCategory(category: ErrorCategory): ExitCode {
+  switch (category) {
+    case ErrorCategory.VALIDATION:
+      return EXIT_CODES.VALIDATION_ERROR;
+    case ErrorCategory.NETWORK:
+      return EXIT_CODES.NETWORK_ERROR;
+    case ErrorCategory.AUTH:
+      return EXIT_CODES.AUTH_ERROR;
+    case ErrorCategory.CONFIG:
+      return EXIT_CODES.CONFIG_ERROR;
+    case ErrorCategory.AI_API:
+    case ErrorCategory.PROCESSING:
+    case ErrorCategory.RATE_LIMIT:
+      return EXIT_CODES.PROCESSING_ERROR;
+    default:
+      return EXIT_CODES.GENERAL_ERROR;
+  }
+}
+
+/**
+ * Map any thrown error (or failed processing result error) to an exit code
+ */
+export function exitCodeForError(error: unknown): ExitCode {
+  if (error instanceof StorageError) {
+    return EXIT_CODES.FILE_ERROR;
+  }
+
+  if (error instanceof ObsidianizeError && error.code === USAGE_ERROR_CODE) {
+    return EXIT_CODES.USAGE_ERROR;
+  }
+
+  if (error && typeof error === 'object' && 'category' in error) {
+    return exitCodeForCategory((error as ProcessingError).category);
+  }
+
+  return EXIT_CODES.GENERAL_ERROR;
+}
+
+/**
+ * Format an error for terminal display, including the recovery suggestion
+ */
+export function formatCliError(error: unknown): string {
+  const message = error && typeof error === 'object' && 'message' in error
+    ? String((error as { message: unknown }).message)
+    : String(error);
+  const lines = [`${chalk.red('✗')} ${message}`];
+
+  if (error && typeof error === 'object' && 'suggestion' in error) {
+    const suggestion = (error as { suggestion?: string }).suggestion;
+    if (suggestion) {
+      lines.push(`  ${chalk.dim(suggestion)}`);
+    }
+  }
+
+  return lines.join('\n');
+}
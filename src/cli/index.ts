@@ -0,0 +1,154 @@
+#!/usr/bin/env bun
+/**
+ * Obsidianize CLI
+ * Native terminal entry point: process, batch, config, status and setup
+ *
+ * Version: 1.0.0
+ */
+
+import { configureLogging, LogLevel } from '../core/logging/index.js';
+import { ConfigError } from '../core/errors/index.js';
+import { parseCliArgs } from './args.js';
+import { DEFAULT_CLI_CONFIG, loadCliConfig, type CliConfig, type CliEnv } from './config.js';
+import {
+  consoleIO,
+  createDefaultProcessor,
+  verifyGeminiApiKey,
+  type CliContext,
+  type CliIO
+} from './context.js';
+import { EXIT_CODES, exitCodeForError, formatCliError, usageError, type ExitCode } from './errors.js';
+import { batchCommand, configCommand, processCommand, setupCommand, statusCommand } from './commands/index.js';
+
+export const CLI_VERSION = '1.0.0';
+
+const HELP = `Obsidianize CLI v${CLI_VERSION}
+
+USAGE
+  obsidianize <command> [options]
+
+COMMANDS
+  process <url>     Process a single URL
+  batch <file>      Batch process URLs from a file (.txt or .json)
+  config [action]   Manage configuration (list, get, set, delete, validate, reset, path)
+  status [job-id]   Show a batch job, or list recent jobs
+  setup             Interactive setup wizard
+
+OPTIONS
+  -o, --output <path>          Output directory or file, or - for stdout
+      --vault <path>           Save Markdown notes into an Obsidian vault
+  -f, --format <format>        markdown, json or yaml
+  -s, --summarization <level>  brief, standard, detailed or comprehensive
+      --mode <mode>            Analysis mode override: standard, enhanced or academic
+      --timeout <seconds>      Timeout per URL
+      --stdout                 Print the result instead of writing a file
+      --overwrite              Replace existing output files
+  -c, --concurrent <n>         Parallel workers for batch (1-10)
+      --dry-run                Validate a batch file without processing
+      --stop-on-error          Halt a batch after the first failure
+      --ignore-robots          Fetch sources even where robots.txt disallows it
+      --json                   Machine-readable output for config and status
+  -v, --verbose                Show stage timings and debug logs
+  -q, --quiet                  Only print results
+  -h, --help                   Show help
+      --version                Show version
+
+ENVIRONMENT
+  OBSIDIANIZE_API_KEY          API key (overrides the config file)
+  OBSIDIANIZE_CONFIG_PATH      Config directory (default ~/.obsidianize)
+  OBSIDIANIZE_VERBOSE          Enable verbose output
+
+EXAMPLES
+  obsidianize process https://www.youtube.com/watch?v=... -o ~/notes
+  obsidianize batch urls.txt --concurrent 5
+  obsidianize batch urls.txt --vault ~/Obsidian/Research
+  obsidianize config set gemini.api-key "AIza..."`;
+
+/** Services that can be swapped out (tests) */
+export interface CliOptions {
+  io?: CliIO;
+  env?: CliEnv;
+  createProcessor?: CliContext['createProcessor'];
+  verifyApiKey?: CliContext['verifyApiKey'];
+}
+
+/**
+ * Run the CLI and return the exit code
+ */
+export async function runCli(argv: string[], options: CliOptions = {}): Promise<ExitCode> {
+  const io = options.io ?? consoleIO;
+  const env = options.env ?? process.env;
+
+  try {
+    const { command, positionals, flags } = parseCliArgs(argv);
+
+    if (flags.version) {
+      io.out(CLI_VERSION);
+      return EXIT_CODES.SUCCESS;
+    }
+    if (flags.help || !command || command === 'help') {
+      io.out(HELP);
+      return EXIT_CODES.SUCCESS;
+    }
+
+    if (env.OBSIDIANIZE_VERBOSE === 'true' || env.OBSIDIANIZE_VERBOSE === '1') {
+      flags.verbose ??= true;
+    }
+
+    // Core modules log freely; keep stdout clean for results
+    configureLogging({
+      level: flags.verbose ? LogLevel.DEBUG : LogLevel.SILENT,
+      stderr: true
+    });
+
+    const config = await loadConfigFor(command, env);
+    const ctx: CliContext = {
+      io,
+      env,
+      config,
+      flags,
+      createProcessor: options.createProcessor ?? (() => createDefaultProcessor(env)),
+      verifyApiKey: options.verifyApiKey ?? verifyGeminiApiKey
+    };
+
+    switch (command) {
+      case 'process':
+        return await processCommand(ctx, positionals);
+      case 'batch':
+        return await batchCommand(ctx, positionals);
+      case 'config':
+        return await configCommand(ctx, positionals);
+      case 'status':
+        return await statusCommand(ctx, positionals);
+      case 'setup':
+        return await setupCommand(ctx);
+      default:
+        throw usageError(`Unknown command "${command}"`);
+    }
+  } catch (error) {
+    io.err(formatCliError(error));
+    return exitCodeForError(error);
+  } finally {
+    configureLogging({});
+  }
+}
+
+/**
+ * Load the config file; `config` and `setup` fall back to defaults when the file
+ * is broken so that they can be used to repair it
+ */
+async function loadConfigFor(command: string, env: CliEnv): Promise<CliConfig> {
+  try {
+    return await loadCliConfig(env);
+  } catch (error) {
+    if (error instanceof ConfigError && (command === 'config' || command === 'setup')) {
+      return structuredClone(DEFAULT_CLI_CONFIG);
+    }
+    throw error;
+  }
+}
+
+if (import.meta.main) {
+  const code = await runCli(process.argv.slice(2));
+  process.exit(code);
+}
@@ -0,0 +1,98 @@
+/**
+ * CLI Job Records
+ * Batch runs are recorded as JSON files under <config dir>/jobs so that
+ * `obsidianize status <job-id>` can report on them from another shell
+ *
+ * Version: 1.0.0
+ */
+
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { ValidationError } from '../core/errors/index.js';
+import { fileOps } from '../core/storage/file-operations.js';
+import { ErrorCategory, type ProcessingStatus } from '../core/types/index.js';
+import { getConfigDir, type CliEnv } from './config.js';
+
+/** One URL within a batch run */
+export interface CliJobItem {
+  url: string;
+  status: ProcessingStatus;
+  outputPath?: string;
+  error?: string;
+  duration?: number;
+}
+
+/** Persisted batch run */
+export interface CliJobRecord {
+  id: string;
+  status: ProcessingStatus;
+  source: string;
+  totalUrls: number;
+  completedUrls: number;
+  failedUrls: number;
+  progress: number;
+  message: string;
+  createdAt: string;
+  updatedAt: string;
+  items: CliJobItem[];
+}
+
+/** Generate a batch ID in the same shape as the web batch route */
+export function generateBatchId(): string {
+  return `batch_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
+}
+
+export function getJobsDir(env: CliEnv = process.env): string {
+  return join(getConfigDir(env), 'jobs');
+}
+
+function getJobPath(id: string, env: CliEnv): string {
+  // Job IDs are generated by us; refuse anything that could escape the jobs directory
+  if (!/^[a-zA-Z0-9_-]+$/.test(id)) {
+    throw new ValidationError({
+      message: `Invalid job ID: ${id}`,
+      code: 'INVALID_JOB_ID',
+      category: ErrorCategory.VALIDATION,
+      field: 'jobId',
+      value: id
+    });
+  }
+  return join(getJobsDir(env), `${id}.json`);
+}
+
+export async function saveJobRecord(record: CliJobRecord, env: CliEnv = process.env): Promise<void> {
+  record.updatedAt = new Date().toISOString();
+  await fileOps.writeFile(getJobPath(record.id, env), JSON.stringify(record, null, 2), { backup: false });
+}
+
+export async function loadJobRecord(id: string, env: CliEnv = process.env): Promise<CliJobRecord | null> {
+  const file = Bun.file(getJobPath(id, env));
+  if (!(await file.exists())) {
+    return null;
+  }
+  return JSON.parse(await file.text()) as CliJobRecord;
+}
+
+/**
+ * List job records, newest first
+ */
+export async function listJobRecords(env: CliEnv = process.env, limit: number = 20): Promise<CliJobRecord[]> {
+  let entries: string[];
+  try {
+    entries = await fs.readdir(getJobsDir(env));
+  } catch {
+    return [];
+  }
+
+  const records: CliJobRecord[] = [];
+  for (const entry of entries.filter(name => name.endsWith('.json'))) {
+    const record = await loadJobRecord(entry.slice(0, -'.json'.length), env).catch(() => null);
+    if (record) {
+      records.push(record);
+    }
+  }
+
+  return records
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+    .slice(0, limit);
+}
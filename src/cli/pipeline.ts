@@ -0,0 +1,278 @@
+/**
+ * CLI Processing Pipeline
+ * Shared by `process` and `batch`: builds the request, runs DataProcessor and
+ * writes the rendered gem through AtomicFileOperations
+ *
+ * Version: 1.0.0
+ */
+
+import { extname, join, resolve } from 'path';
+import { homedir } from 'os';
+import chalk from 'chalk';
+import { ConfigError, StorageError, ValidationError } from '../core/errors/index.js';
+import { ErrorCategory, OutputFormat, type AnalysisMode, type GeminiGem, type ProcessingRequest, type ProcessingResult } from '../core/types/index.js';
+import { AnalysisMode as AnalysisModeEnum } from '../core/types/index.js';
+import { URLValidator } from '../core/validators/index.js';
+import { fileOps } from '../core/storage/file-operations.js';
+import { VaultWriter } from '../core/storage/vault-writer.js';
+import { ContentStructureUtils } from '../core/formatters/index.js';
+import { getFormatInfo, isExportFormat, renderGem, type ExportFormat } from '../core/formatters/export.js';
+import { getSummarizationSettings, isSummarizationLevel, SUMMARIZATION_LEVELS, type SummarizationLevel } from '../core/summarization.js';
+import { TIME } from '../core/constants/index.js';
+import { parseIntFlag } from './args.js';
+import { resolveApiKey } from './config.js';
+import { usageError } from './errors.js';
+import type { CliContext } from './context.js';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/** Per-run settings resolved from flags and config defaults */
+export interface RunSettings {
+  apiKey: string;
+  format: ExportFormat;
+  summarization: SummarizationLevel;
+  analysisMode: AnalysisMode;
+  timeoutMs: number;
+  /** Output directory or file; '-' means stdout */
+  output: string;
+  /** Obsidian vault to save notes into (takes the place of `output`) */
+  vault?: {
+    root: string;
+    attachmentsFolder: string;
+    entityNotes: boolean;
+  };
+  overwrite: boolean;
+  /** False to skip robots.txt checks; unset leaves it to the application config */
+  respectRobots?: boolean;
+}
+
+/** Outcome of processing one URL */
+export interface UrlOutcome {
+  url: string;
+  result: ProcessingResult;
+  /** Where the gem was written (undefined when printed to stdout or failed) */
+  outputPath?: string;
+  /** Rendered gem (only on success) */
+  content?: string;
+}
+
+/** Per-URL timeout default, matching the web routes */
+const DEFAULT_TIMEOUT_MS = 2 * TIME.MINUTE;
+
+// ============================================================================
+// SETTINGS
+// ============================================================================
+
+/**
+ * Resolve run settings from flags, falling back to config defaults
+ */
+export function resolveRunSettings(ctx: CliContext): RunSettings {
+  const { flags, config } = ctx;
+
+  const format = flags.format ?? config.defaults.outputFormat;
+  if (!isExportFormat(format)) {
+    throw usageError(`Unknown format "${format}" (expected markdown, json or yaml)`);
+  }
+
+  const summarization = flags.summarization ?? config.defaults.summaryLevel;
+  if (!isSummarizationLevel(summarization)) {
+    throw usageError(`Unknown summarization level "${summarization}" (expected ${SUMMARIZATION_LEVELS.join(', ')})`);
+  }
+
+  let analysisMode = getSummarizationSettings(summarization).analysisMode;
+  if (flags.mode !== undefined) {
+    const modes = Object.values(AnalysisModeEnum) as string[];
+    if (!modes.includes(flags.mode)) {
+      throw usageError(`Unknown analysis mode "${flags.mode}" (expected ${modes.join(', ')})`);
+    }
+    analysisMode = flags.mode as AnalysisMode;
+  }
+
+  const timeoutSeconds = parseIntFlag('timeout', flags.timeout, 1, 3600);
+
+  const apiKey = resolveApiKey(config, ctx.env);
+  if (!apiKey) {
+    throw new ConfigError({
+      message: 'No Gemini API key configured',
+      code: 'MISSING_API_KEY',
+      category: ErrorCategory.CONFIG,
+      configKey: 'gemini.api-key',
+      suggestion: 'Run `obsidianize setup`, `obsidianize config set gemini.api-key <key>` or set OBSIDIANIZE_API_KEY'
+    });
+  }
+
+  // An explicit --output or --stdout wins over a configured vault
+  const vaultRoot = flags.vault ?? (flags.output === undefined && !flags.stdout ? config.vault.path : undefined);
+  if (vaultRoot !== undefined) {
+    if (flags.stdout || flags.output !== undefined) {
+      throw usageError('--vault cannot be combined with --output or --stdout');
+    }
+    if (flags.format !== undefined && format !== 'markdown') {
+      throw usageError('Vault notes are always Markdown; drop --format or use --output instead');
+    }
+  }
+
+  return {
+    apiKey,
+    format,
+    summarization,
+    analysisMode,
+    timeoutMs: timeoutSeconds !== undefined ? timeoutSeconds * TIME.SECOND : DEFAULT_TIMEOUT_MS,
+    output: flags.stdout ? '-' : (flags.output ?? config.defaults.outputDirectory),
+    vault: vaultRoot !== undefined
+      ? { root: expandHome(vaultRoot), attachmentsFolder: config.vault.attachmentsFolder, entityNotes: config.vault.entityNotes }
+      : undefined,
+    overwrite: flags.overwrite === true,
+    respectRobots: flags['ignore-robots'] ? false : undefined
+  };
+}
+
+/**
+ * Validate a URL up front, throwing ValidationError when it cannot be processed
+ */
+export function assertProcessableUrl(url: string): void {
+  const validation = URLValidator.validateAndClassify(url);
+  if (!validation.valid) {
+    throw new ValidationError({
+      message: `Invalid URL: ${url}${validation.error ? ` (${validation.error})` : ''}`,
+      code: 'INVALID_URL',
+      category: ErrorCategory.VALIDATION,
+      field: 'url',
+      value: url
+    });
+  }
+}
+
+/**
+ * Build the processing request the same way the web batch route does
+ */
+export function buildProcessingRequest(url: string, settings: RunSettings): ProcessingRequest {
+  return {
+    input: url,
+    options: {
+      analysisMode: settings.analysisMode,
+      includeTimestamps: true,
+      includeTranscript: true,
+      outputFormat: settings.format as OutputFormat,
+      extractEntities: true,
+      timeoutMs: settings.timeoutMs,
+      language: 'en',
+      respectRobots: settings.respectRobots
+    },
+    auth: {
+      apiKey: settings.apiKey,
+      encrypted: false,
+      source: 'user'
+    }
+  };
+}
+
+// ============================================================================
+// OUTPUT
+// ============================================================================
+
+/** Expand a leading ~ to the home directory */
+export function expandHome(path: string): string {
+  return path === '~' || path.startsWith('~/') ? join(homedir(), path.slice(1)) : path;
+}
+
+/**
+ * Resolve the output file for a gem: an explicit file path is used as-is,
+ * anything else is treated as a directory
+ */
+export function resolveOutputPath(gem: GeminiGem, output: string, format: ExportFormat): string {
+  const target = resolve(expandHome(output));
+  const { extension } = getFormatInfo(format);
+
+  if (['.md', '.json', '.yaml', '.yml'].includes(extname(target).toLowerCase())) {
+    return target;
+  }
+
+  return join(target, ContentStructureUtils.createFilename(gem, `{date}-{title}${extension}`));
+}
+
+/**
+ * Write rendered content atomically, refusing to clobber unless asked
+ */
+export async function writeOutput(path: string, content: string, overwrite: boolean): Promise<void> {
+  if (!overwrite && await Bun.file(path).exists()) {
+    throw new StorageError({
+      message: `Output file already exists: ${path}`,
+      code: 'FILE_EXISTS',
+      category: ErrorCategory.SYSTEM,
+      filePath: path,
+      operation: 'write',
+      recoverable: false,
+      suggestion: 'Pass --overwrite to replace it or choose another --output'
+    });
+  }
+
+  try {
+    await fileOps.writeFile(path, content, { backup: overwrite, createDirs: true });
+  } catch (error) {
+    throw new StorageError({
+      message: `Failed to write ${path}: ${error instanceof Error ? error.message : String(error)}`,
+      code: 'FILE_WRITE_FAILED',
+      category: ErrorCategory.SYSTEM,
+      filePath: path,
+      operation: 'write',
+      cause: error instanceof Error ? error : undefined
+    });
+  }
+}
+
+// ============================================================================
+// PROCESSING
+// ============================================================================
+
+/**
+ * Process one URL and write (or print) the result
+ */
+export async function processUrl(ctx: CliContext, url: string, settings: RunSettings): Promise<UrlOutcome> {
+  const processor = ctx.createProcessor();
+  const result = await processor.processRequest(buildProcessingRequest(url, settings));
+
+  if (isVerbose(ctx)) {
+    for (const stage of result.metadata.stages) {
+      ctx.io.err(chalk.dim(`  ${stage.status === 'completed' ? '✓' : '✗'} ${stage.name} (${stage.duration ?? 0}ms)`));
+    }
+  }
+
+  if (!result.success || !result.data) {
+    return { url, result };
+  }
+
+  if (settings.vault) {
+    const note = await new VaultWriter({ ...settings.vault, overwrite: settings.overwrite }).write(result.data);
+    return { url, result, outputPath: note.path, content: note.content };
+  }
+
+  const content = await renderGem(result.data, { format: settings.format });
+
+  if (settings.output === '-') {
+    ctx.io.out(content);
+    return { url, result, content };
+  }
+
+  const outputPath = resolveOutputPath(result.data, settings.output, settings.format);
+  await writeOutput(outputPath, content, settings.overwrite);
+
+  return { url, result, outputPath, content };
+}
+
+// ============================================================================
+// DISPLAY HELPERS
+// ============================================================================
+
+export function isVerbose(ctx: CliContext): boolean {
+  return ctx.flags.verbose === true || (ctx.config.display.verbose && ctx.flags.quiet !== true);
+}
+
+/** Print a status line to stderr unless --quiet */
+export function status(ctx: CliContext, message: string): void {
+  if (!ctx.flags.quiet) {
+    ctx.io.err(message);
+  }
+}
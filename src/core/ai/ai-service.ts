@@ -1,4 +1,4 @@
-import { GeminiClient, GenerationRequest } from './gemini-client';
+import type { AIProvider, GenerationRequest } from './providers/provider';
 import { ContentAnalyzer, ExtractedContent, ContentType } from './content-analyzer';
 import { PromptFactory } from './prompts/prompt-factory';
 import { ResponseProcessor, ProcessedGeminiGem } from './response-processor';
@@ -33,10 +33,10 @@ export interface AnalysisResult {
 export type { ProcessedGeminiGem } from './response-processor';
 
 export class AIService {
-  private geminiClient: GeminiClient;
+  private provider: AIProvider;
 
-  constructor(geminiClient: GeminiClient) {
-    this.geminiClient = geminiClient;
+  constructor(provider: AIProvider) {
+    this.provider = provider;
   }
 
   /**
@@ -215,7 +215,7 @@ export class AIService {
       maxOutputTokens: options.maxOutputTokens || 2048
     };
 
-    const response = await this.geminiClient.generateContent(generationRequest);
+    const response = await this.provider.generate(generationRequest);
 
     // Step 4: Process and validate response
     const processedGeminiGem = ResponseProcessor.processResponse(
@@ -256,23 +256,28 @@ Processing Time: ${result.processingTime}ms`;
    */
   getSupportedContentTypes(): ContentType[] {
     return ContentAnalyzer.detectContentType('') === 'unknown'
-      ? ['youtube', 'article', 'paper', 'podcast']
+      ? ['youtube', 'article', 'paper', 'podcast', 'twitter']
       : PromptFactory.getSupportedContentTypes();
   }
 
   /**
    * Health check for the AI service
    */
-  async healthCheck(): Promise<{ gemini: boolean; overall: boolean }> {
+  async healthCheck(): Promise<{ provider: string; healthy: boolean; gemini: boolean; overall: boolean }> {
+    // `gemini` predates pluggable providers and mirrors `healthy`
     try {
-      const geminiHealthy = await this.geminiClient.healthCheck();
+      const healthy = await this.provider.healthCheck();
       return {
-        gemini: geminiHealthy,
-        overall: geminiHealthy
+        provider: this.provider.name,
+        healthy,
+        gemini: healthy,
+        overall: healthy
       };
     } catch (error) {
       logger.error('AI service health check failed', error);
       return {
+        provider: this.provider.name,
+        healthy: false,
         gemini: false,
         overall: false
       };
@@ -288,7 +293,7 @@ Processing Time: ${result.processingTime}ms`;
     features: string[];
   } {
     return {
-      model: this.geminiClient.getModelInfo().model,
+      model: this.provider.getModelInfo().model,
       supportedTypes: this.getSupportedContentTypes(),
       features: [
         'Content analysis',
@@ -315,6 +320,6 @@ Processing Time: ${result.processingTime}ms`;
 }
 
 // Factory function for creating AI service
-export function createAIService(geminiClient: GeminiClient): AIService {
-  return new AIService(geminiClient);
+export function createAIService(provider: AIProvider): AIService {
+  return new AIService(provider);
 }
\ No newline at end of file
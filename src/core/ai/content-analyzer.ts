@@ -1,8 +1,14 @@
 import * as cheerio from 'cheerio';
-// import pdfParse from 'pdf-parse';
+import { PDFParse } from 'pdf-parse';
 import { URL } from 'url';
 import { YoutubeTranscript } from 'youtube-transcript';
 import { createLogger } from '../logging/index.js';
+import { ContentError, NetworkError, ObsidianizeError } from '../errors/index.js';
+import { ErrorCategory } from '../types/index.js';
+import { safeFetch } from '../network/index.js';
+import { extractPodcastEpisode, podcastContent } from '../podcast/index.js';
+import { extractArticle } from '../readability/index.js';
+import { detectThreadPlatform, threadContent, threadMetadata, unrollThread } from '../threads/index.js';
 
 /** Helper function for fetch with timeout - fetches and reads body within timeout window */
 async function fetchWithTimeout(
@@ -14,7 +20,7 @@ async function fetchWithTimeout(
   const timeoutId = setTimeout(() => controller.abort(), timeout);
 
   try {
-    const response = await fetch(url, {
+    const response = await safeFetch(url, {
       ...options,
       signal: controller.signal
     });
@@ -34,9 +40,44 @@ async function fetchWithTimeout(
   }
 }
 
+/** Helper function for fetching binary content (PDFs) with timeout and size limit, enforced while streaming */
+async function fetchBufferWithTimeout(
+  url: string,
+  options: RequestInit = {},
+  timeout: number = 30000,
+  maxBytes: number = Infinity
+): Promise<{ data: Uint8Array; contentType: string }> {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), timeout);
+
+  try {
+    const response = await safeFetch(url, {
+      ...options,
+      signal: controller.signal,
+      maxBytes
+    });
+
+    if (!response.ok) {
+      throw new NetworkError({
+        message: `HTTP ${response.status}: ${response.statusText}`,
+        code: 'HTTP_ERROR',
+        category: ErrorCategory.NETWORK,
+        statusCode: response.status,
+        url
+      });
+    }
+
+    const data = new Uint8Array(await response.arrayBuffer());
+
+    return { data, contentType: response.headers.get('content-type') || '' };
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
+
 const logger = createLogger('content-analyzer');
 
-export type ContentType = 'youtube' | 'article' | 'paper' | 'podcast' | 'unknown';
+export type ContentType = 'youtube' | 'article' | 'paper' | 'podcast' | 'twitter' | 'unknown';
 
 export interface ContentMetadata {
   title?: string;
@@ -47,6 +88,18 @@ export interface ContentMetadata {
   thumbnail?: string;
   tags?: string[];
   language?: string;
+  /** Individual authors, when the source lists them (e.g. PDF document info) */
+  authors?: string[];
+  /** Number of pages (PDFs) */
+  pageCount?: number;
+  /** Show an episode belongs to (podcasts) */
+  show?: string;
+  episodeNumber?: number;
+  seasonNumber?: number;
+  /** Author handle of a thread, e.g. @name@instance */
+  authorHandle?: string;
+  /** Posts in a thread */
+  postCount?: number;
 }
 
 export interface ExtractedContent {
@@ -66,7 +119,7 @@ export interface ContentValidationError {
 
 export class ContentAnalyzer {
   private static readonly CONTENT_LIMITS = {
-    maxWordCount: 50000,
+    maxWordCount: 500000, // Long content is chunked before analysis
     minWordCount: 100,
     maxFileSize: 50 * 1024 * 1024, // 50MB
     maxUrlLength: 2048
@@ -84,13 +137,17 @@ export class ContentAnalyzer {
   ];
 
   private static readonly PDF_PATTERNS = [
-    /\.pdf(\?.*)?$/i
+    /\.pdf(\?.*)?$/i,
+    /arxiv\.org\/pdf\//i
   ];
 
+  /** PDFs averaging fewer extractable characters per page are treated as scanned */
+  private static readonly MIN_PDF_CHARS_PER_PAGE = 25;
+
   private static readonly PODCAST_PATTERNS = [
     /anchor\.fm\/([^\/]+)/,
     /spotify\.com\/episode\//,
-    /podcasts\.apple\.com\/podcast\//,
+    /podcasts\.apple\.com\/(?:[a-z]{2}\/)?podcast\//,
     /stitcher\.com\/podcast\//,
     /soundcloud\.com\/([^\/]+)\/([^\/]+)/
   ];
@@ -113,6 +170,8 @@ export class ContentAnalyzer {
         return await this.extractPdfContent(url);
       case 'podcast':
         return await this.extractPodcastContent(url);
+      case 'twitter':
+        return await this.extractThreadContent(url);
       default:
         throw new Error(`Unsupported content type: ${contentType}`);
     }
@@ -128,6 +187,11 @@ export class ContentAnalyzer {
       }
     }
 
+    // Mastodon and X posts
+    if (detectThreadPlatform(url)) {
+      return 'twitter';
+    }
+
     // Check PDF patterns
     for (const pattern of this.PDF_PATTERNS) {
       if (pattern.test(normalizedUrl)) {
@@ -327,72 +391,11 @@ export class ContentAnalyzer {
         throw new Error(`HTTP ${response.status}: ${response.statusText}`);
       }
 
-      const htmlText = response.text;
-      const $ = cheerio.load(htmlText);
-
-      // Extract metadata
-      const title =
-        $('title').text() ||
-        $('h1').first().text() ||
-        $('[property="og:title"]').attr('content') ||
-        'Article';
-
-      const description =
-        $('[name="description"]').attr('content') ||
-        $('[property="og:description"]').attr('content') ||
-        '';
-
-      const author =
-        $('[name="author"]').attr('content') ||
-        $('.author').text() ||
-        $('.byline').text() ||
-        '';
-
-      // Extract publish date
-      let publishDate: Date | undefined;
-      const dateStr =
-        $('[name="date"]').attr('content') ||
-        $('[property="article:published_time"]').attr('content') ||
-        $('.date').text() ||
-        $('.published').text();
-
-      if (dateStr) {
-        publishDate = new Date(dateStr);
-      }
-
-      // Extract main content
-      let content = '';
-
-      // Try different content selectors in order of preference
-      const contentSelectors = [
-        'article',
-        '.content',
-        '.post-content',
-        '.entry-content',
-        '.article-content',
-        'main',
-        '.main-content',
-        '#content'
-      ];
-
-      for (const selector of contentSelectors) {
-        const element = $(selector);
-        if (element.length > 0) {
-          content = element.text().trim();
-          if (content.length > 500) {
-            break;
-          }
-        }
-      }
-
-      // If no content found, extract from body but filter out scripts and styles
-      if (!content) {
-        $('script, style, nav, header, footer, aside').remove();
-        content = $('body').text().trim();
-      }
-
-      // Clean up content
-      content = this.cleanTextContent(content);
+      const article = extractArticle(response.text, { url });
+      const title = article.title ?? 'Article';
+      const description = article.excerpt ?? '';
+      const publishDate = article.publishedTime ? new Date(article.publishedTime) : undefined;
+      const content = `# ${title}\n\n${article.markdown}`;
 
       return {
         type: 'article',
@@ -400,8 +403,9 @@ export class ContentAnalyzer {
         metadata: {
           title: title.trim(),
           description: description.substring(0, 500) + (description.length > 500 ? '...' : ''),
-          author: author.trim(),
-          publishDate,
+          author: article.byline,
+          publishDate: publishDate && !isNaN(publishDate.getTime()) ? publishDate : undefined,
+          language: article.language,
           tags: this.extractTagsFromContent(title + ' ' + description)
         },
         content,
@@ -415,92 +419,180 @@ export class ContentAnalyzer {
   }
 
   private static async extractPdfContent(url: string): Promise<ExtractedContent> {
-    // PDF processing temporarily disabled - requires additional setup
-    const urlPath = new URL(url).pathname;
-    const filename = urlPath.split('/').pop() || 'PDF Document';
-    const title = filename.replace('.pdf', '').replace(/[-_]/g, ' ') || 'PDF Document';
+    try {
+      logger.info('Extracting PDF content', { url });
 
-    return {
-      type: 'paper',
-      url,
-      metadata: {
-        title,
-        tags: ['pdf', 'document']
-      },
-        content: `# PDF Document Analysis
-
-**Note**: Full PDF text extraction requires additional library setup.
-
-**File**: ${title}
-**Source**: ${url}
-
-## Available Information
-- Document title extracted from filename
-- PDF format detected
-- Content analysis pending library setup
-
-## Recommendations
-1. Set up PDF processing library
-2. Configure OCR for scanned documents
-3. Implement text extraction pipeline
-
-To enable full PDF analysis, install and configure pdf-parse library with proper Node.js compatibility.`,
-      wordCount: 50,
-      extractedAt: new Date()
-    };
+      const { data } = await fetchBufferWithTimeout(
+        url,
+        { headers: { 'User-Agent': 'Obsidianize/1.0 (Content Processor)' } },
+        30000,
+        this.CONTENT_LIMITS.maxFileSize
+      );
+
+      return await this.extractPdfFromBuffer(data, url);
+    } catch (error: any) {
+      if (error instanceof ObsidianizeError) {
+        throw error;
+      }
+      throw new Error(`Failed to extract PDF content: ${error.message}`);
+    }
   }
 
-  private static async extractPodcastContent(url: string): Promise<ExtractedContent> {
+  /**
+   * Extract page-aware text and document info from PDF bytes.
+   * Each page is prefixed with a "[Page N]" marker so summaries can cite pages.
+   */
+  static async extractPdfFromBuffer(data: Uint8Array, url: string): Promise<ExtractedContent> {
+    const parser = new PDFParse({ data });
+
     try {
-      const response = await fetchWithTimeout(url, {
-        headers: {
-          'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36'
-        }
-      });
+      let textResult;
+      let infoResult;
+      try {
+        textResult = await parser.getText();
+        infoResult = await parser.getInfo();
+      } catch (error: any) {
+        const encrypted = error?.name === 'PasswordException';
+        throw new ContentError({
+          message: encrypted
+            ? 'PDF is password-protected'
+            : `PDF could not be parsed: ${error?.message ?? 'unknown error'}`,
+          code: encrypted ? 'PDF_ENCRYPTED' : 'PDF_INVALID',
+          category: ErrorCategory.PROCESSING,
+          contentType: 'paper',
+          contentUrl: url,
+          stage: 'pdf_extraction',
+          recoverable: false,
+          cause: error instanceof Error ? error : undefined
+        });
+      }
 
-      if (!response.ok) {
-        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+      const pageCount = textResult.total;
+      const pages = textResult.pages
+        .map(page => ({ num: page.num, text: this.cleanPdfText(page.text) }))
+        .filter(page => page.text.length > 0);
+
+      const textChars = pages.reduce((sum, page) => sum + page.text.replace(/\s/g, '').length, 0);
+      if (pageCount === 0 || textChars / pageCount < this.MIN_PDF_CHARS_PER_PAGE) {
+        throw new ContentError({
+          message: `PDF has no extractable text (${pageCount} page${pageCount === 1 ? '' : 's'}); it is probably scanned or image-only`,
+          code: 'PDF_NO_TEXT',
+          category: ErrorCategory.PROCESSING,
+          contentType: 'paper',
+          contentUrl: url,
+          stage: 'pdf_extraction',
+          recoverable: false,
+          details: { pageCount, textChars },
+          suggestion: 'Run OCR on the document (for example with ocrmypdf) and submit the searchable PDF'
+        });
       }
 
-      const htmlText = response.text;
-      const $ = cheerio.load(htmlText);
+      const info = infoResult.info ?? {};
+      const xmp = infoResult.metadata;
+      // `url` may also be a local file path, so split on either separator
+      const filename = url.split(/[?#]/)[0].split(/[\\/]/).pop() || '';
+
+      const title = this.firstString(info.Title, xmp?.get('dc:title'))
+        || filename.replace(/\.pdf$/i, '').replace(/[-_]/g, ' ').trim()
+        || 'PDF Document';
+      const authors = this.parsePdfAuthors(xmp?.get('dc:creator') ?? info.Author);
+      const description = this.firstString(info.Subject, xmp?.get('dc:description')) || '';
+      const dates = infoResult.getDateNode();
+      const publishDate = dates.CreationDate ?? dates.XmpCreateDate ?? undefined;
+      const keywords = typeof info.Keywords === 'string'
+        ? info.Keywords.split(/[,;]/).map((keyword: string) => keyword.trim().toLowerCase()).filter(Boolean)
+        : [];
+
+      const content = pages.map(page => `[Page ${page.num}]\n${page.text}`).join('\n\n');
+
+      logger.info('Extracted PDF content', { url, pageCount, pagesWithText: pages.length });
+
+      return {
+        type: 'paper',
+        url,
+        metadata: {
+          title,
+          description: description.substring(0, 500) + (description.length > 500 ? '...' : ''),
+          author: authors.length > 0 ? authors.join(', ') : undefined,
+          authors: authors.length > 0 ? authors : undefined,
+          publishDate,
+          pageCount,
+          tags: keywords.length > 0
+            ? keywords.slice(0, 10)
+            : this.extractTagsFromContent(title + ' ' + description + ' ' + content.substring(0, 2000))
+        },
+        content,
+        wordCount: this.countWords(content),
+        extractedAt: new Date()
+      };
+    } finally {
+      await parser.destroy();
+    }
+  }
+
+  /** Tidy text extracted from a PDF page while keeping paragraph breaks */
+  private static cleanPdfText(text: string): string {
+    return text
+      .replace(/\r\n?/g, '\n')
+      .replace(/(\w)-\n(\w)/g, '$1$2') // Re-join words hyphenated across lines
+      .replace(/[ \t\f\v]+/g, ' ')
+      .replace(/ *\n */g, '\n')
+      .replace(/\n{3,}/g, '\n\n')
+      .trim();
+  }
 
-      // Extract podcast metadata
-      const title =
-        $('title').text() ||
-        $('h1').first().text() ||
-        $('[property="og:title"]').attr('content') ||
-        'Podcast Episode';
-
-      const description =
-        $('[name="description"]').attr('content') ||
-        $('[property="og:description"]').attr('content') ||
-        $('.description').text() ||
-        '';
-
-      // Extract episode number if available
-      const episodeMatch = title.match(/episode\s*(\d+)/i);
-      const episodeNumber = episodeMatch ? episodeMatch[1] : '';
-
-      // Extract content
-      let content = description;
-
-      // Try to find transcript or show notes
-      const transcriptElement = $('.transcript, .show-notes, .episode-notes').text();
-      if (transcriptElement) {
-        content += '\n\n' + transcriptElement;
+  /** Normalize a PDF/XMP author field (string or list) into individual names */
+  private static parsePdfAuthors(value: unknown): string[] {
+    const raw = Array.isArray(value) ? value.map(String) : typeof value === 'string' ? [value] : [];
+
+    return raw
+      .flatMap(entry => entry.split(/\s*(?:;|&|\band\b)\s*/i))
+      .flatMap(entry => {
+        // "Ada Lovelace, Alan Turing" lists names; "Lovelace, A." is a single name
+        const parts = entry.split(',').map(part => part.trim());
+        return parts.length > 1 && parts.every(part => part.split(/\s+/).length > 1) ? parts : [entry];
+      })
+      .map(entry => entry.trim())
+      .filter(entry => entry.length > 0);
+  }
+
+  /** First non-empty string among candidates (XMP values may be arrays) */
+  private static firstString(...values: unknown[]): string | undefined {
+    for (const value of values) {
+      const candidate = Array.isArray(value) ? value[0] : value;
+      if (typeof candidate === 'string' && candidate.trim()) {
+        return candidate.trim();
       }
+    }
+    return undefined;
+  }
 
-      // Add note about audio transcription
-      content += '\n\n[Note: Audio transcription requires speech-to-text service integration]';
+  /**
+   * Podcast episodes are resolved to their feed item; the transcript the feed
+   * publishes is the content, with the show notes as fallback
+   */
+  private static async extractPodcastContent(url: string): Promise<ExtractedContent> {
+    try {
+      const extraction = await extractPodcastEpisode(url);
+      const { metadata } = extraction;
+      const description = extraction.description ?? '';
+      const content = podcastContent(extraction);
 
       return {
         type: 'podcast',
         url,
         metadata: {
-          title: title.trim(),
+          title: extraction.title.trim(),
           description: description.substring(0, 500) + (description.length > 500 ? '...' : ''),
-          tags: this.extractTagsFromContent(title + ' ' + description)
+          author: metadata.author as string | undefined,
+          publishDate: metadata.publishDate ? new Date(metadata.publishDate as string) : undefined,
+          duration: metadata.duration as string | undefined,
+          thumbnail: metadata.thumbnail as string | undefined,
+          language: extraction.transcript?.language,
+          show: metadata.show as string | undefined,
+          episodeNumber: metadata.episodeNumber as number | undefined,
+          seasonNumber: metadata.seasonNumber as number | undefined,
+          tags: this.extractTagsFromContent(extraction.title + ' ' + description)
         },
         content: content.trim(),
         wordCount: this.countWords(content),
@@ -512,12 +604,31 @@ To enable full PDF analysis, install and configure pdf-parse library with proper
     }
   }
 
-  private static cleanTextContent(text: string): string {
-    return text
-      .replace(/\s+/g, ' ') // Replace multiple whitespace with single space
-      .replace(/\n{3,}/g, '\n\n') // Replace multiple newlines with double newline
-      .replace(/(\r\n|\r|\n)/g, '\n') // Normalize line endings
-      .trim();
+  /** Mastodon and X threads, unrolled into the author's posts */
+  private static async extractThreadContent(url: string): Promise<ExtractedContent> {
+    try {
+      const thread = await unrollThread(url);
+      const metadata = threadMetadata(thread);
+      const content = threadContent(thread);
+
+      return {
+        type: 'twitter',
+        url,
+        metadata: {
+          title: metadata.title as string,
+          author: metadata.author as string,
+          authorHandle: thread.author.handle,
+          postCount: thread.posts.length,
+          publishDate: thread.posts[0]?.createdAt,
+          tags: this.extractTagsFromContent(thread.posts.map(post => post.text).join(' '))
+        },
+        content,
+        wordCount: this.countWords(content),
+        extractedAt: new Date()
+      };
+    } catch (error: any) {
+      throw new Error(`Failed to extract thread content: ${error.message}`);
+    }
   }
 
   private static countWords(text: string): number {
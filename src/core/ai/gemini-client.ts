@@ -1,5 +1,9 @@
-import { GoogleGenerativeAI, GenerativeModel } from '@google/generative-ai';
+import { GoogleGenerativeAI, GenerativeModel, type GenerateContentRequest } from '@google/generative-ai';
 import { createLogger } from '../logging/index.js';
+import { estimateTokens } from '../chunking.js';
+import type { AIProvider, GenerationRequest, GenerationResponse, ProviderModelInfo } from './providers/provider';
+
+export type { GenerationRequest, GenerationResponse } from './providers/provider';
 
 const logger = createLogger('gemini-client');
 
@@ -18,24 +22,6 @@ export interface RetryConfig {
   backoffFactor: number;
 }
 
-export interface GenerationRequest {
-  prompt: string;
-  systemInstruction?: string;
-  temperature?: number;
-  maxOutputTokens?: number;
-}
-
-export interface GenerationResponse {
-  text: string;
-  usage: {
-    promptTokens: number;
-    completionTokens: number;
-    totalTokens: number;
-  };
-  model: string;
-  timestamp: Date;
-}
-
 export interface GeminiError {
   code: string;
   message: string;
@@ -43,7 +29,8 @@ export interface GeminiError {
   details?: any;
 }
 
-export class GeminiClient {
+export class GeminiClient implements AIProvider {
+  readonly name = 'gemini' as const;
   private genAI: GoogleGenerativeAI;
   private model: GenerativeModel;
   private config: GeminiConfig;
@@ -51,11 +38,11 @@ export class GeminiClient {
 
   constructor(config: GeminiConfig) {
     this.config = {
-      model: 'gemini-1.5-flash',
-      temperature: 0.7,
-      maxOutputTokens: 2048,
-      timeout: 30000,
-      ...config
+      ...config,
+      model: config.model ?? 'gemini-1.5-flash',
+      temperature: config.temperature ?? 0.7,
+      maxOutputTokens: config.maxOutputTokens ?? 2048,
+      timeout: config.timeout ?? 30000
     };
 
     this.retryConfig = {
@@ -79,11 +66,16 @@ export class GeminiClient {
     });
   }
 
+  /** Generate with retries; aborting `request.signal` stops the attempt in flight and any still to come */
   async generateContent(request: GenerationRequest): Promise<GenerationResponse> {
     const startTime = Date.now();
     let lastError: any;
 
     for (let attempt = 0; attempt <= this.retryConfig.maxRetries; attempt++) {
+      if (request.signal?.aborted) {
+        throw this.cancelledError();
+      }
+
       try {
         logger.debug('Gemini API attempt', { attempt: attempt + 1, maxAttempts: this.retryConfig.maxRetries + 1 });
 
@@ -92,7 +84,7 @@ export class GeminiClient {
           setTimeout(() => reject(new Error('Request timeout')), this.config.timeout);
         });
 
-        const generationPromise = this.model.generateContent(request.prompt);
+        const generationPromise = this.model.generateContent(this.toContentRequest(request), { signal: request.signal });
 
         const result = await Promise.race([generationPromise, timeoutPromise]) as any;
         const response = result.response;
@@ -117,6 +109,9 @@ export class GeminiClient {
         };
 
       } catch (error: any) {
+        if (request.signal?.aborted) {
+          throw this.cancelledError();
+        }
         lastError = this.processError(error);
 
         if (attempt === this.retryConfig.maxRetries) {
@@ -132,16 +127,47 @@ export class GeminiClient {
 
         const delay = this.calculateDelay(attempt);
         logger.warn('Gemini API attempt failed, retrying', { attempt: attempt + 1, delay, error: lastError.message });
-        await this.sleep(delay);
+        await this.sleep(delay, request.signal);
       }
     }
 
     throw lastError;
   }
 
+  /** Per-request settings replace the model defaults, so the defaults are repeated here */
+  private toContentRequest(request: GenerationRequest): GenerateContentRequest {
+    return {
+      contents: [{ role: 'user', parts: [{ text: request.prompt }] }],
+      ...(request.systemInstruction ? { systemInstruction: request.systemInstruction } : {}),
+      generationConfig: {
+        temperature: request.temperature ?? this.config.temperature,
+        maxOutputTokens: request.maxOutputTokens ?? this.config.maxOutputTokens,
+        ...(request.responseFormat === 'json' ? { responseMimeType: 'application/json' } : {})
+      }
+    };
+  }
+
+  generate(request: GenerationRequest): Promise<GenerationResponse> {
+    return this.generateContent(request);
+  }
+
+  async *stream(request: GenerationRequest): AsyncIterable<string> {
+    yield* await this.generateContentStream(request);
+  }
+
+  async countTokens(text: string): Promise<number> {
+    try {
+      const { totalTokens } = await this.model.countTokens(text);
+      return totalTokens;
+    } catch (error) {
+      logger.debug('Gemini token count failed, estimating', { error: error instanceof Error ? error.message : String(error) });
+      return estimateTokens(text);
+    }
+  }
+
   async generateContentStream(request: GenerationRequest): Promise<AsyncIterable<string>> {
     try {
-      const result = await this.model.generateContentStream(request.prompt);
+      const result = await this.model.generateContentStream(this.toContentRequest(request), { signal: request.signal });
 
       return this.streamToAsyncIterable(result.stream);
     } catch (error: any) {
@@ -236,8 +262,27 @@ export class GeminiClient {
     return Math.min(delay + jitter, this.retryConfig.maxDelay);
   }
 
-  private sleep(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
+  /** Wait between retries, ending early with a cancellation error if `signal` aborts */
+  private sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const onAbort = () => {
+        clearTimeout(timer);
+        reject(this.cancelledError());
+      };
+      const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      }, ms);
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+  }
+
+  private cancelledError(): GeminiError {
+    return {
+      code: 'CANCELLED',
+      message: 'Request cancelled',
+      status: 499
+    };
   }
 
   // Health check method
@@ -253,7 +298,7 @@ export class GeminiClient {
   }
 
   // Get model info
-  getModelInfo(): { model: string; temperature: number; maxOutputTokens: number } {
+  getModelInfo(): ProviderModelInfo {
     return {
       model: this.config.model!,
       temperature: this.config.temperature!,
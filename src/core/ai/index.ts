@@ -13,6 +13,23 @@ export {
   type GeminiError
 } from './gemini-client';
 
+// AI Providers
+export {
+  createAIProvider,
+  providerConfigFromSettings,
+  MockProvider,
+  OpenAICompatibleProvider,
+  AI_PROVIDERS,
+  DEFAULT_OPENAI_COMPATIBLE_URL,
+  type AIProvider,
+  type AIProviderName,
+  type AIProviderConfig,
+  type ProviderModelInfo,
+  type MockFixture,
+  type MockProviderOptions,
+  type OpenAICompatibleConfig
+} from './providers';
+
 // Content Analyzer
 export {
   ContentAnalyzer,
@@ -44,6 +61,15 @@ export { ArticlePromptTemplate } from './prompts/article-prompt';
 export { PaperPromptTemplate } from './prompts/paper-prompt';
 export { PodcastPromptTemplate } from './prompts/podcast-prompt';
 
+// Template Responses
+export {
+  parseTemplateResponse,
+  parseMarkdownSections,
+  sectionTypeForHeading,
+  toContentSections,
+  type TemplateAnalysis
+} from './template-response';
+
 // Re-export commonly used types
 export type {
   ContentType as SupportedContentType,
@@ -0,0 +1,141 @@
+/**
+ * Partial Output Rendering
+ * Reads the JSON analysis a model is still writing and renders what is
+ * there so far as the note's Markdown body, for streaming previews
+ *
+ * Version: 1.0.0
+ */
+
+import type { AISectionOutput } from '../validators/index.js';
+
+/** A position the unfinished JSON can be cut at, with the brackets open there */
+interface CutPoint {
+  end: number;
+  open: string[];
+}
+
+/**
+ * Parse the longest complete prefix of unfinished JSON: an open string is
+ * closed where it stops, and an unfinished key or value is dropped.
+ * Returns undefined when no object has started yet.
+ */
+export function parsePartialJson(text: string): unknown {
+  const source = text.replace(/^\s*```(?:json)?\s*/, '');
+  const start = source.indexOf('{');
+  if (start < 0) {
+    return undefined;
+  }
+
+  const open: string[] = [];
+  const cuts: CutPoint[] = [];
+  let inString = false;
+  let escaped = false;
+
+  for (let i = start; i < source.length; i++) {
+    const char = source[i];
+    if (inString) {
+      if (escaped) {
+        escaped = false;
+      } else if (char === '\\') {
+        escaped = true;
+      } else if (char === '"') {
+        inString = false;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inString = true;
+    } else if (char === '{' || char === '[') {
+      open.push(char === '{' ? '}' : ']');
+      cuts.push({ end: i + 1, open: [...open] });
+    } else if (char === '}' || char === ']') {
+      open.pop();
+      if (open.length === 0) {
+        return tryParse(source.slice(start, i + 1));
+      }
+    } else if (char === ',') {
+      cuts.push({ end: i, open: [...open] });
+    }
+  }
+
+  // Close an open string where it stops; the value may be usable as it is
+  let body = source.slice(start);
+  if (inString) {
+    body = (escaped ? body.slice(0, -1) : body) + '"';
+  }
+  const whole = tryParse(body.replace(/[\s,]*$/, '') + close(open));
+  if (whole !== undefined) {
+    return whole;
+  }
+
+  // Otherwise fall back to the last point where everything before is complete
+  for (const cut of cuts.reverse()) {
+    const value = tryParse(source.slice(start, cut.end) + close(cut.open));
+    if (value !== undefined) {
+      return value;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Render a (partial) analysis in the note's body layout. Fields the model
+ * has not reached yet are left out.
+ */
+export function renderPartialAnalysis(value: unknown): string {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return '';
+  }
+  const analysis = value as Record<string, unknown>;
+  const blocks: string[] = [];
+
+  if (typeof analysis.summary === 'string' && analysis.summary) {
+    blocks.push(`## Summary\n${analysis.summary}`);
+  }
+
+  const keyPoints = strings(analysis.keyPoints);
+  if (keyPoints.length > 0) {
+    blocks.push(`## Key Points\n${keyPoints.map(point => `- ${point}`).join('\n')}`);
+  }
+
+  const sections = Array.isArray(analysis.sections) ? analysis.sections.filter(isSection) : [];
+  if (sections.length > 0) {
+    blocks.push(`## Content Sections\n${sections.map(section => renderSection(section, 3)).join('\n\n')}`);
+  }
+
+  if (typeof analysis.analysis === 'string' && analysis.analysis) {
+    blocks.push(`## Analysis\n${analysis.analysis}`);
+  }
+
+  return blocks.join('\n\n');
+}
+
+function renderSection(section: AISectionOutput, level: number): string {
+  const subsections = (section.subsections ?? []).filter(isSection);
+  return [
+    `${'#'.repeat(Math.min(level, 6))} ${section.heading}`,
+    section.content ?? '',
+    ...subsections.map(sub => renderSection(sub, level + 1))
+  ].filter(Boolean).join('\n');
+}
+
+function isSection(value: unknown): value is AISectionOutput {
+  return !!value && typeof value === 'object' && typeof (value as AISectionOutput).heading === 'string';
+}
+
+function strings(value: unknown): string[] {
+  return Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string' && item.length > 0) : [];
+}
+
+function close(open: string[]): string {
+  return [...open].reverse().join('');
+}
+
+function tryParse(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return undefined;
+  }
+}
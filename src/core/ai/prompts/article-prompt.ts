@@ -112,17 +112,12 @@ insights: [3-4 key insights]
         title: context.metadata.title || 'Article',
         url: context.metadata.url || '',
         author: context.metadata.author || 'Unknown Author',
-        publishDate: context.metadata.publishDate?.toLocaleDateString() || 'Unknown Date',
-        source: new URL(context.metadata.url || '').hostname,
-        content: this.truncateContent(context.content, 10000),
+        publishDate: this.formatDate(context.metadata.publishDate) || 'Unknown Date',
+        source: this.hostname(context.metadata.url),
+        content: this.truncateContent(context, 10000),
         customInstructions: context.customInstructions || ''
       }),
       expectedFormat
     };
   }
-
-  private truncateContent(content: string, maxLength: number): string {
-    if (content.length <= maxLength) return content;
-    return content.substring(0, maxLength) + '...[content truncated for analysis]';
-  }
 }
\ No newline at end of file
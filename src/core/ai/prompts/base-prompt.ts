@@ -11,6 +11,9 @@ export interface PromptContext {
   content: string;
   metadata: any;
   customInstructions?: string;
+
+  /** Characters of content to include; defaults to a per-template limit */
+  maxContentLength?: number;
 }
 
 export abstract class BasePromptTemplate {
@@ -58,6 +61,25 @@ CONTENT:
 Please provide your analysis in the exact format specified in the system instructions.`;
   }
 
+  protected truncateContent(context: PromptContext, defaultLength: number): string {
+    const maxLength = context.maxContentLength ?? defaultLength;
+    if (context.content.length <= maxLength) return context.content;
+    return context.content.substring(0, maxLength) + '...[content truncated for analysis]';
+  }
+
+  protected formatDate(value: unknown): string | undefined {
+    const date = value instanceof Date ? value : typeof value === 'string' ? new Date(value) : undefined;
+    return date && !isNaN(date.getTime()) ? date.toLocaleDateString() : undefined;
+  }
+
+  protected hostname(url: unknown): string {
+    try {
+      return new URL(String(url)).hostname;
+    } catch {
+      return '';
+    }
+  }
+
   protected formatTemplate(template: string, variables: Record<string, string>): string {
     let formatted = template;
     for (const [key, value] of Object.entries(variables)) {
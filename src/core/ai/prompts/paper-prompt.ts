@@ -128,16 +128,11 @@ insights: [key findings and methodological contributions]
         title: context.metadata.title || 'Research Paper',
         url: context.metadata.url || '',
         authors: context.metadata.author || 'Unknown Authors',
-        publishDate: context.metadata.publishDate?.toLocaleDateString() || 'Unknown Date',
-        content: this.truncateContent(context.content, 12000),
+        publishDate: this.formatDate(context.metadata.publishDate) || 'Unknown Date',
+        content: this.truncateContent(context, 12000),
         customInstructions: context.customInstructions || ''
       }),
       expectedFormat
     };
   }
-
-  private truncateContent(content: string, maxLength: number): string {
-    if (content.length <= maxLength) return content;
-    return content.substring(0, maxLength) + '...[content truncated for analysis]';
-  }
 }
\ No newline at end of file
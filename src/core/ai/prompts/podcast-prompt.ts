@@ -126,15 +126,10 @@ insights: [3-4 key insights]
         url: context.metadata.url || '',
         episode: context.metadata.episodeNumber || 'Unknown Episode',
         duration: context.metadata.duration || 'Unknown Duration',
-        content: this.truncateContent(context.content, 8000),
+        content: this.truncateContent(context, 8000),
         customInstructions: context.customInstructions || ''
       }),
       expectedFormat
     };
   }
-
-  private truncateContent(content: string, maxLength: number): string {
-    if (content.length <= maxLength) return content;
-    return content.substring(0, maxLength) + '...[content truncated for analysis]';
-  }
 }
\ No newline at end of file
@@ -4,12 +4,14 @@ import { YouTubePromptTemplate } from './youtube-prompt';
 import { ArticlePromptTemplate } from './article-prompt';
 import { PaperPromptTemplate } from './paper-prompt';
 import { PodcastPromptTemplate } from './podcast-prompt';
+import { ThreadPromptTemplate } from './thread-prompt';
 
 export class PromptFactory {
   private static youtubeTemplate = new YouTubePromptTemplate();
   private static articleTemplate = new ArticlePromptTemplate();
   private static paperTemplate = new PaperPromptTemplate();
   private static podcastTemplate = new PodcastPromptTemplate();
+  private static threadTemplate = new ThreadPromptTemplate();
 
   static getPrompt(contentType: ContentType, context: PromptContext): PromptTemplate {
     switch (contentType) {
@@ -21,13 +23,15 @@ export class PromptFactory {
         return this.paperTemplate.getPrompt(context);
       case 'podcast':
         return this.podcastTemplate.getPrompt(context);
+      case 'twitter':
+        return this.threadTemplate.getPrompt(context);
       default:
         throw new Error(`Unsupported content type: ${contentType}`);
     }
   }
 
   static getSupportedContentTypes(): ContentType[] {
-    return ['youtube', 'article', 'paper', 'podcast'];
+    return ['youtube', 'article', 'paper', 'podcast', 'twitter'];
   }
 
   static validatePromptTemplate(template: PromptTemplate): boolean {
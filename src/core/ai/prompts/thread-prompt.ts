@@ -0,0 +1,113 @@
+import { BasePromptTemplate, PromptTemplate, PromptContext } from './base-prompt';
+
+export class ThreadPromptTemplate extends BasePromptTemplate {
+  getPrompt(context: PromptContext): PromptTemplate {
+    const systemInstruction = `${this.getBaseSystemInstruction()}
+
+THREAD-SPECIFIC ANALYSIS FOCUS:
+1. **Core Argument**: Identify the claim or story the thread builds up post by post
+2. **Progression**: Follow how the argument develops across the numbered posts
+3. **Evidence**: Extract data, links, screenshots (from their descriptions) and examples offered
+4. **Quoted Posts**: Note which posts are quoted and whether the author agrees, rebuts or adds to them
+5. **Author's Stance**: Capture the author's perspective, expertise and tone
+6. **Caveats**: Note corrections, content warnings or follow-ups the author adds
+
+THREAD FRONTMATTER FIELDS:
+- title: Descriptive title that captures the thread's point
+- source: Original post URL
+- type: "twitter"
+- author: Author display name
+- authorHandle: Author handle, e.g. @name@instance or @name
+- postCount: Number of posts in the thread
+- publishDate: Date of the first post (if available)
+- processed: Timestamp of analysis
+- tags: Topic-specific tags
+- entities: People, organizations and accounts mentioned
+- insights: Key claims and perspectives
+
+THREAD ANALYSIS STRUCTURE:
+# Summary
+[1-2 paragraph overview of what the thread argues or reports]
+
+## Main Points
+- [Point made in the thread, in order]
+- [Supporting claim or example]
+
+## Evidence & Media
+[Data, links and images (by their descriptions) the thread relies on]
+
+## Quoted Posts
+[Posts the thread quotes and how the author responds to them]
+
+## Author's Perspective
+[The author's stance, expertise and tone]
+
+## Takeaways
+[What a reader should remember from the thread]`;
+
+    const userPrompt = `${this.getBaseUserPrompt()}
+
+ADDITIONAL THREAD-SPECIFIC CONTEXT:
+- Author: {{author}} ({{authorHandle}})
+- Posts: {{postCount}}
+- Platform: {{platform}}
+- Posted: {{publishDate}}
+- Format: Posts are numbered n/total; quoted posts appear as blockquotes and images as [Image: description]
+
+Focus particularly on:
+1. What is the thread's central argument or story?
+2. How does it develop from the first post to the last?
+3. What evidence or examples support it?
+4. How do quoted posts relate to the author's point?`;
+
+    const expectedFormat = `---
+title: [Descriptive title capturing the thread's point]
+source: [Post URL]
+type: twitter
+author: [Author display name]
+authorHandle: [Author handle]
+postCount: [Number of posts]
+publishDate: [Date of the first post if available]
+processed: [YYYY-MM-DD HH:MM:SS]
+tags: [3-5 relevant tags]
+entities: [people, organizations, accounts mentioned]
+insights: [2-3 key insights]
+---
+
+# Summary
+[1-2 paragraph overview of the thread]
+
+## Main Points
+- [Point made in the thread]
+- [Supporting claim or example]
+
+## Evidence & Media
+[Data, links and images the thread relies on]
+
+## Quoted Posts
+[Quoted posts and the author's response]
+
+## Author's Perspective
+[The author's stance and tone]
+
+## Takeaways
+[What to remember]`;
+
+    return {
+      systemInstruction,
+      userPrompt: this.formatTemplate(userPrompt, {
+        contentType: context.contentType,
+        title: context.metadata.title || 'Thread',
+        url: context.metadata.url || '',
+        author: context.metadata.author || 'Unknown Author',
+        authorHandle: context.metadata.authorHandle || 'unknown handle',
+        postCount: String(context.metadata.postCount ?? 'Unknown'),
+        platform: context.metadata.platform === 'mastodon' ? 'Mastodon' : 'X (Twitter)',
+        publishDate: this.formatDate(context.metadata.publishDate) || 'Unknown Date',
+        content: this.truncateContent(context, 10000),
+        customInstructions: context.customInstructions || ''
+      }),
+      expectedFormat
+    };
+  }
+}
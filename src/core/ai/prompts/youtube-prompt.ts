@@ -106,15 +106,10 @@ insights: [3-4 key insights]
         channel: context.metadata.channel || 'Unknown Channel',
         duration: context.metadata.duration || 'Unknown Duration',
         description: context.metadata.description || '',
-        content: this.truncateContent(context.content, 8000),
+        content: this.truncateContent(context, 8000),
         customInstructions: context.customInstructions || ''
       }),
       expectedFormat
     };
   }
-
-  private truncateContent(content: string, maxLength: number): string {
-    if (content.length <= maxLength) return content;
-    return content.substring(0, maxLength) + '...[content truncated for analysis]';
-  }
 }
\ No newline at end of file
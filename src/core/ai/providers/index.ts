@@ -0,0 +1,94 @@
+/**
+ * AI Providers
+ * Selects and builds the configured AI provider
+ *
+ * Version: 1.0.0
+ */
+
+import { ConfigError } from '../../errors/index.js';
+import { ErrorCategory } from '../../types/index.js';
+import type { AIConfiguration } from '../../config/index.js';
+import { GeminiClient } from '../gemini-client';
+import { MockProvider, type MockProviderOptions } from './mock-provider';
+import { OpenAICompatibleProvider } from './openai-compatible';
+import { AI_PROVIDERS, type AIProvider, type AIProviderName } from './provider';
+
+export * from './provider';
+export { MockProvider, type MockFixture, type MockProviderOptions } from './mock-provider';
+export {
+  OpenAICompatibleProvider,
+  DEFAULT_OPENAI_COMPATIBLE_URL,
+  type OpenAICompatibleConfig
+} from './openai-compatible';
+
+/** Settings needed to build a provider */
+export interface AIProviderConfig {
+  provider: AIProviderName;
+  model?: string;
+  apiKey?: string;
+  baseUrl?: string;
+  temperature?: number;
+  maxOutputTokens?: number;
+  timeout?: number;
+
+  /** Fixtures and options for the mock provider */
+  mock?: MockProviderOptions;
+}
+
+/** Build the provider selected by `config.provider` */
+export function createAIProvider(config: AIProviderConfig): AIProvider {
+  switch (config.provider) {
+    case 'gemini':
+      return new GeminiClient({
+        apiKey: config.apiKey ?? '',
+        model: config.model,
+        temperature: config.temperature,
+        maxOutputTokens: config.maxOutputTokens,
+        timeout: config.timeout
+      });
+
+    case 'openai-compatible':
+      if (!config.model) {
+        throw new ConfigError({
+          message: 'The openai-compatible provider needs a model name',
+          code: 'MISSING_AI_MODEL',
+          category: ErrorCategory.CONFIG,
+          configKey: 'ai.model',
+          suggestion: 'Set AI_MODEL to a model served by your server, e.g. "llama3"'
+        });
+      }
+      return new OpenAICompatibleProvider({
+        baseUrl: config.baseUrl,
+        model: config.model,
+        apiKey: config.apiKey,
+        temperature: config.temperature,
+        maxOutputTokens: config.maxOutputTokens,
+        timeout: config.timeout
+      });
+
+    case 'mock':
+      return new MockProvider({ model: config.model, ...config.mock });
+
+    default:
+      throw new ConfigError({
+        message: `Unknown AI provider: ${String(config.provider)}`,
+        code: 'UNKNOWN_AI_PROVIDER',
+        category: ErrorCategory.CONFIG,
+        configKey: 'ai.provider',
+        suggestion: `Use one of: ${AI_PROVIDERS.join(', ')}`
+      });
+  }
+}
+
+/** Provider settings from the application's AI configuration */
+export function providerConfigFromSettings(ai: AIConfiguration): AIProviderConfig {
+  return {
+    provider: ai.provider,
+    model: ai.model,
+    apiKey: ai.apiKey,
+    baseUrl: ai.baseUrl,
+    temperature: ai.temperature,
+    maxOutputTokens: ai.maxTokens,
+    timeout: ai.timeout
+  };
+}
@@ -0,0 +1,209 @@
+/**
+ * OpenAI-Compatible AI Provider
+ * Talks to any server exposing the OpenAI chat completions API, such as
+ * llama.cpp's server, Ollama or vLLM running locally
+ *
+ * Version: 1.0.0
+ */
+
+import { createLogger } from '../../logging/index.js';
+import { AIProcessingError } from '../../errors/index.js';
+import { ErrorCategory } from '../../types/index.js';
+import { estimateTokens } from '../../chunking.js';
+import type { AIProvider, GenerationRequest, GenerationResponse, ProviderModelInfo } from './provider';
+
+const logger = createLogger('openai-compatible');
+
+/** Ollama's OpenAI-compatible endpoint */
+export const DEFAULT_OPENAI_COMPATIBLE_URL = 'http://localhost:11434/v1';
+
+export interface OpenAICompatibleConfig {
+  /** API root, e.g. http://localhost:8080/v1 (default DEFAULT_OPENAI_COMPATIBLE_URL) */
+  baseUrl?: string;
+
+  /** Model name as the server knows it */
+  model: string;
+
+  /** Bearer token, for servers that require one */
+  apiKey?: string;
+
+  temperature?: number;
+  maxOutputTokens?: number;
+
+  /** Request timeout in milliseconds */
+  timeout?: number;
+
+  /** Fetch implementation (for tests) */
+  fetch?: typeof fetch;
+}
+
+interface ChatCompletion {
+  model?: string;
+  choices?: Array<{ message?: { content?: string }; delta?: { content?: string } }>;
+  usage?: { prompt_tokens?: number; completion_tokens?: number; total_tokens?: number };
+}
+
+export class OpenAICompatibleProvider implements AIProvider {
+  readonly name = 'openai-compatible' as const;
+
+  private readonly config: Required<Omit<OpenAICompatibleConfig, 'apiKey' | 'fetch'>> & Pick<OpenAICompatibleConfig, 'apiKey'>;
+  private readonly fetchImpl: typeof fetch;
+
+  constructor(config: OpenAICompatibleConfig) {
+    this.config = {
+      baseUrl: (config.baseUrl ?? DEFAULT_OPENAI_COMPATIBLE_URL).replace(/\/+$/, ''),
+      model: config.model,
+      apiKey: config.apiKey,
+      temperature: config.temperature ?? 0.7,
+      maxOutputTokens: config.maxOutputTokens ?? 2048,
+      timeout: config.timeout ?? 120000
+    };
+    this.fetchImpl = config.fetch ?? fetch;
+  }
+
+  async generate(request: GenerationRequest): Promise<GenerationResponse> {
+    const response = await this.post(request, false);
+    const body = await response.json() as ChatCompletion;
+    const text = body.choices?.[0]?.message?.content ?? '';
+
+    if (!text) {
+      throw this.error('AI_EMPTY_RESPONSE', 'Empty response from model server', { recoverable: true });
+    }
+
+    const promptTokens = body.usage?.prompt_tokens ?? estimateTokens(request.prompt);
+    const completionTokens = body.usage?.completion_tokens ?? estimateTokens(text);
+
+    return {
+      text,
+      usage: {
+        promptTokens,
+        completionTokens,
+        totalTokens: body.usage?.total_tokens ?? promptTokens + completionTokens
+      },
+      model: body.model ?? this.config.model,
+      timestamp: new Date()
+    };
+  }
+
+  async *stream(request: GenerationRequest): AsyncIterable<string> {
+    const response = await this.post(request, true);
+    if (!response.body) {
+      throw this.error('AI_EMPTY_RESPONSE', 'Model server returned no stream', { recoverable: true });
+    }
+
+    // Server-sent events: "data: {json}" lines, terminated by "data: [DONE]"
+    const decoder = new TextDecoder();
+    let buffer = '';
+    for await (const bytes of response.body) {
+      buffer += decoder.decode(bytes, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop() ?? '';
+
+      for (const line of lines) {
+        const data = line.trim().replace(/^data:\s*/, '');
+        if (!line.trim().startsWith('data:') || !data) {
+          continue;
+        }
+        if (data === '[DONE]') {
+          return;
+        }
+        const text = (JSON.parse(data) as ChatCompletion).choices?.[0]?.delta?.content;
+        if (text) {
+          yield text;
+        }
+      }
+    }
+  }
+
+  /** The chat completions API has no token counting endpoint, so this estimates */
+  async countTokens(text: string): Promise<number> {
+    return estimateTokens(text);
+  }
+
+  async healthCheck(): Promise<boolean> {
+    try {
+      const response = await this.fetchImpl(`${this.config.baseUrl}/models`, {
+        headers: this.headers(),
+        signal: AbortSignal.timeout(Math.min(this.config.timeout, 10000))
+      });
+      return response.ok;
+    } catch (error) {
+      logger.error('Model server health check failed', error);
+      return false;
+    }
+  }
+
+  getModelInfo(): ProviderModelInfo {
+    return {
+      model: this.config.model,
+      temperature: this.config.temperature,
+      maxOutputTokens: this.config.maxOutputTokens
+    };
+  }
+
+  private async post(request: GenerationRequest, stream: boolean): Promise<Response> {
+    const messages = [
+      ...(request.systemInstruction ? [{ role: 'system', content: request.systemInstruction }] : []),
+      { role: 'user', content: request.prompt }
+    ];
+
+    let response: Response;
+    try {
+      response = await this.fetchImpl(`${this.config.baseUrl}/chat/completions`, {
+        method: 'POST',
+        headers: { ...this.headers(), 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          model: this.config.model,
+          messages,
+          temperature: request.temperature ?? this.config.temperature,
+          max_tokens: request.maxOutputTokens ?? this.config.maxOutputTokens,
+          ...(request.responseFormat === 'json' ? { response_format: { type: 'json_object' } } : {}),
+          stream
+        }),
+        signal: request.signal
+          ? AbortSignal.any([request.signal, AbortSignal.timeout(this.config.timeout)])
+          : AbortSignal.timeout(this.config.timeout)
+      });
+    } catch (error) {
+      if (request.signal?.aborted) {
+        throw this.error('AI_CANCELLED', 'Model server request was cancelled', { recoverable: false });
+      }
+      const timedOut = error instanceof Error && error.name === 'TimeoutError';
+      throw this.error(
+        timedOut ? 'AI_TIMEOUT' : 'AI_PROVIDER_UNREACHABLE',
+        timedOut ? 'Model server request timed out' : `Model server unreachable: ${error instanceof Error ? error.message : String(error)}`,
+        { recoverable: true, cause: error instanceof Error ? error : undefined }
+      );
+    }
+
+    if (!response.ok) {
+      const detail = await response.text().catch(() => '');
+      throw this.error('AI_PROVIDER_ERROR', `Model server returned HTTP ${response.status}`, {
+        recoverable: response.status === 429 || response.status >= 500,
+        apiErrorCode: `HTTP_${response.status}`,
+        details: { status: response.status, body: detail.slice(0, 500) }
+      });
+    }
+
+    return response;
+  }
+
+  private headers(): Record<string, string> {
+    return this.config.apiKey ? { Authorization: `Bearer ${this.config.apiKey}` } : {};
+  }
+
+  private error(
+    code: string,
+    message: string,
+    options: { recoverable: boolean; apiErrorCode?: string; details?: Record<string, unknown>; cause?: Error }
+  ): AIProcessingError {
+    return new AIProcessingError({
+      code,
+      message,
+      category: ErrorCategory.AI_API,
+      model: this.config.model,
+      suggestion: `Check that the server at ${this.config.baseUrl} is running and serves model "${this.config.model}"`,
+      ...options
+    });
+  }
+}
@@ -0,0 +1,65 @@
+/**
+ * AI Provider Interface
+ * Common surface for text-generation backends (Gemini, OpenAI-compatible
+ * servers, the offline mock) so the pipeline is not tied to one vendor
+ *
+ * Version: 1.0.0
+ */
+
+import type { AIProviderName } from '../../types/index.js';
+
+export type { AIProviderName } from '../../types/index.js';
+
+/** Supported provider names */
+export const AI_PROVIDERS: readonly AIProviderName[] = ['gemini', 'openai-compatible', 'mock'];
+
+export interface GenerationRequest {
+  prompt: string;
+  systemInstruction?: string;
+  temperature?: number;
+  maxOutputTokens?: number;
+
+  /** 'json' asks the backend to return a single JSON value (default 'text') */
+  responseFormat?: 'text' | 'json';
+
+  /** Aborts the request, including any retries still to come */
+  signal?: AbortSignal;
+}
+
+export interface GenerationResponse {
+  text: string;
+  usage: {
+    promptTokens: number;
+    completionTokens: number;
+    totalTokens: number;
+  };
+  model: string;
+  timestamp: Date;
+}
+
+export interface ProviderModelInfo {
+  model: string;
+  temperature: number;
+  maxOutputTokens: number;
+}
+
+/** A text-generation backend */
+export interface AIProvider {
+  /** Provider name, as selected in configuration */
+  readonly name: AIProviderName;
+
+  /** Generate a complete response */
+  generate(request: GenerationRequest): Promise<GenerationResponse>;
+
+  /** Generate a response as text fragments, in order */
+  stream(request: GenerationRequest): AsyncIterable<string>;
+
+  /** Count (or estimate) the tokens `text` uses with this provider's model */
+  countTokens(text: string): Promise<number>;
+
+  /** Whether the backend is reachable and answering */
+  healthCheck(): Promise<boolean>;
+
+  /** Model and default generation settings */
+  getModelInfo(): ProviderModelInfo;
+}
@@ -22,6 +22,8 @@ export interface GeminiGemFrontmatter {
   episode?: string;
   duration?: string;
   publishDate?: string;
+  authorHandle?: string;
+  postCount?: number;
   processed: string;
   tags: string[];
   entities: string[];
@@ -227,6 +229,11 @@ export class ResponseProcessor {
     } else if (contentType === 'podcast') {
       validated.episode = frontmatter.episode;
       validated.duration = frontmatter.duration;
+    } else if (contentType === 'twitter') {
+      validated.author = frontmatter.author;
+      validated.authorHandle = frontmatter.authorHandle;
+      validated.postCount = frontmatter.postCount;
+      validated.publishDate = frontmatter.publishDate;
     }
 
     return validated;
@@ -0,0 +1,259 @@
+/**
+ * Template Response Parsing
+ * Turns a model response written in a PromptFactory template's format
+ * (frontmatter plus Markdown headings) into gem content with typed sections
+ *
+ * Version: 1.0.0
+ */
+
+import { EntityType, SectionType, type ContentSection } from '../types/index.js';
+import { ContentStructureUtils } from '../formatters/index.js';
+import type { AISectionOutput } from '../validators/index.js';
+
+/** Gem content recovered from a template response */
+export interface TemplateAnalysis {
+  title?: string;
+  summary: string;
+  keyPoints: string[];
+  analysis: string;
+  sections: ContentSection[];
+  entities: Array<{ text: string; type: string; confidence: number }>;
+  insights: string[];
+  tags: string[];
+}
+
+/** Heading patterns per section type, checked in order */
+const SECTION_TYPE_PATTERNS: ReadonlyArray<[RegExp, SectionType]> = [
+  [/\b(summary|overview|introduction|abstract|research question|hypothes[ie]s)\b/i, SectionType.INTRODUCTION],
+  [/\bkey (points?|arguments?|topics?|findings?)\b/i, SectionType.KEY_POINTS],
+  [/\b(methodology|methods?|technical details|demonstrations?|theoretical framework|how it works)\b/i, SectionType.METHODOLOGY],
+  [/\b(findings|results|evidence)\b/i, SectionType.FINDINGS],
+  [/\b(quotes?|speaker insights)\b/i, SectionType.QUOTES],
+  [/\b(resources?|references|further reading|links)\b/i, SectionType.REFERENCES],
+  [/\b(takeaways?|conclusions?|future research|next steps)\b/i, SectionType.CONCLUSION],
+  [/\b(analysis|assessment|perspective|context|insights?|implications|limitations|counterarguments|contributions|trends|critique)\b/i, SectionType.ANALYSIS]
+];
+
+/** Frontmatter entity written as "Name (type)" */
+const TYPED_ENTITY = /^(.+?)\s*\((\w+)\)$/;
+
+interface Heading {
+  level: number;
+  text: string;
+  body: string[];
+}
+
+/** Classify a section heading; unknown headings are CUSTOM */
+export function sectionTypeForHeading(heading: string): SectionType {
+  return SECTION_TYPE_PATTERNS.find(([pattern]) => pattern.test(heading))?.[1] ?? SectionType.CUSTOM;
+}
+
+/**
+ * Parse Markdown into sections. The shallowest heading level used more than
+ * once is the top level, so a lone "# Summary" above "## ..." headings sits
+ * beside them rather than containing them; deeper headings become subsections.
+ */
+export function parseMarkdownSections(markdown: string): ContentSection[] {
+  const headings: Heading[] = [];
+  let fence = false;
+
+  for (const line of markdown.split('\n')) {
+    fence = /^\s*(```|~~~)/.test(line) ? !fence : fence;
+    const match = fence ? null : line.match(/^(#{1,6})\s+(.+?)\s*#*\s*$/);
+    if (match) {
+      headings.push({ level: match[1].length, text: match[2].trim(), body: [] });
+    } else if (headings.length > 0) {
+      headings[headings.length - 1].body.push(line);
+    }
+  }
+
+  if (headings.length === 0) {
+    return [];
+  }
+
+  const levels = headings.map(h => h.level);
+  const repeated = levels.filter((level, i) => levels.indexOf(level) !== i);
+  const topLevel = repeated.length > 0 ? Math.min(...repeated) : Math.min(...levels);
+
+  // Group each heading with the deeper headings that follow it
+  const nest = (list: Heading[], top: boolean): AISectionOutput[] => {
+    const sections: AISectionOutput[] = [];
+    for (let i = 0; i < list.length;) {
+      const level = Math.max(list[i].level, top ? topLevel : 0);
+      let end = i + 1;
+      while (end < list.length && list[end].level > level) {
+        end++;
+      }
+      const subsections = nest(list.slice(i + 1, end), false);
+      sections.push({
+        heading: list[i].text,
+        content: list[i].body.join('\n').trim(),
+        ...(subsections.length > 0 ? { subsections } : {})
+      });
+      i = end;
+    }
+    return sections;
+  };
+
+  return toContentSections(nest(headings, true));
+}
+
+/**
+ * Give sections written by the model their ids, types and order. Ids are
+ * heading slugs, prefixed with the parent's id for subsections.
+ */
+export function toContentSections(sections: AISectionOutput[]): ContentSection[] {
+  const ids = new Set<string>();
+  let order = 0;
+
+  const build = (section: AISectionOutput, parentId?: string): ContentSection => {
+    const slug = ContentStructureUtils.slugify(section.heading) || 'section';
+    const prefix = parentId ? `${parentId}/` : '';
+    let id = `${prefix}${slug}`;
+    for (let n = 2; ids.has(id); n++) {
+      id = `${prefix}${slug}-${n}`;
+    }
+    ids.add(id);
+
+    const built: ContentSection = {
+      id,
+      heading: section.heading,
+      content: section.content.trim(),
+      type: sectionTypeForHeading(section.heading),
+      order: order++
+    };
+    const subsections = (section.subsections ?? []).map(sub => build(sub, id));
+    return subsections.length > 0 ? { ...built, subsections } : built;
+  };
+
+  return sections.map(section => build(section));
+}
+
+/**
+ * Extract gem content from a template response. The summary and key points
+ * come from their sections, the analysis from analysis-type sections; those
+ * are removed from `sections` so the note does not repeat them.
+ */
+export function parseTemplateResponse(text: string): TemplateAnalysis {
+  const { fields, body } = splitFrontmatter(text);
+  const all = parseMarkdownSections(body);
+
+  const summarySection = all.find(s => /\b(summary|overview|abstract)\b/i.test(s.heading));
+  const keyPointsSection = all.find(s => s !== summarySection && s.type === SectionType.KEY_POINTS);
+  const analysisSections = all.filter(s => s.type === SectionType.ANALYSIS);
+
+  const used = new Set<ContentSection>([summarySection, keyPointsSection, ...analysisSections].filter(Boolean) as ContentSection[]);
+  const sections = all.filter(s => !used.has(s)).flatMap(dropEmpty);
+
+  const summary = summarySection ? flattenText(summarySection) : (body.split(/\n#{1,6}\s/, 1)[0] ?? '').trim();
+  const keyPoints = keyPointsSection ? listItems(flattenText(keyPointsSection)) : [];
+  const analysis = analysisSections.length > 0
+    ? analysisSections.map(s => `${s.heading}\n${flattenText(s)}`).join('\n\n')
+    : summary;
+
+  return {
+    title: fields.title?.[0],
+    summary,
+    keyPoints,
+    analysis,
+    sections,
+    entities: (fields.entities ?? []).map(parseEntity),
+    insights: fields.insights ?? [],
+    tags: fields.tags ?? []
+  };
+}
+
+/** Frontmatter fields as string lists; only the fields the pipeline reads */
+function splitFrontmatter(text: string): { fields: Record<string, string[]>; body: string } {
+  const trimmed = text.trim().replace(/^```(?:markdown|md)?\n([\s\S]*?)\n```$/, '$1');
+  const match = trimmed.match(/^---\s*\n([\s\S]*?)\n---\s*(?:\n|$)([\s\S]*)$/);
+  if (!match) {
+    return { fields: {}, body: trimmed };
+  }
+
+  const fields: Record<string, string[]> = {};
+  let listKey: string | null = null;
+
+  for (const line of match[1].split('\n')) {
+    const item = line.match(/^\s+-\s+(.+)$/);
+    if (item && listKey) {
+      fields[listKey].push(unquote(item[1]));
+      continue;
+    }
+
+    const entry = line.match(/^([A-Za-z][\w-]*):\s*(.*)$/);
+    if (!entry) {
+      continue;
+    }
+    const [, key, value] = entry;
+    listKey = null;
+    if (!value) {
+      listKey = key;
+      fields[key] = [];
+    } else if (value.startsWith('[') && value.endsWith(']')) {
+      fields[key] = splitList(value.slice(1, -1));
+    } else {
+      fields[key] = [unquote(value)];
+    }
+  }
+
+  return { fields, body: match[2].trim() };
+}
+
+/** Split "a, b (c, d), e" on top-level commas */
+function splitList(value: string): string[] {
+  const items: string[] = [];
+  let depth = 0;
+  let current = '';
+  for (const char of value) {
+    if (char === '(') depth++;
+    if (char === ')') depth = Math.max(0, depth - 1);
+    if (char === ',' && depth === 0) {
+      items.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  items.push(current);
+  return items.map(unquote).filter(Boolean);
+}
+
+function unquote(value: string): string {
+  return value.trim().replace(/^(["'])(.*)\1$/, '$2').trim();
+}
+
+function parseEntity(value: string): { text: string; type: string; confidence: number } {
+  const match = value.match(TYPED_ENTITY);
+  const type = match?.[2].toLowerCase();
+  if (match && Object.values(EntityType).includes(type as EntityType)) {
+    return { text: match[1], type: type!, confidence: 0.8 };
+  }
+  // Untyped entities are kept as custom entities, which are never linked
+  return { text: value, type: EntityType.CUSTOM, confidence: 0.5 };
+}
+
+/** Bullet or numbered list items */
+function listItems(text: string): string[] {
+  return text.split('\n')
+    .map(line => line.match(/^\s*(?:[-*•]|\d+[.)])\s+(.+)$/)?.[1]?.trim())
+    .filter((item): item is string => Boolean(item));
+}
+
+/** Section text including its subsections */
+function flattenText(section: ContentSection): string {
+  return [section.content, ...(section.subsections ?? []).map(sub => `${sub.heading}\n${flattenText(sub)}`)]
+    .filter(Boolean)
+    .join('\n\n')
+    .trim();
+}
+
+/** Drop sections with no real content; a bare heading over subsections gives way to them */
+function dropEmpty(section: ContentSection): ContentSection[] {
+  const subsections = (section.subsections ?? []).flatMap(dropEmpty);
+  if (section.content.length < 10) {
+    return subsections;
+  }
+  const { subsections: _, ...rest } = section;
+  return [subsections.length > 0 ? { ...rest, subsections } : rest];
+}
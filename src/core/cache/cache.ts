@@ -1,11 +1,16 @@
 /**
  * High-performance caching system using Bun's native SQLite
- * Features intelligent cache key generation, TTL management, and compression
+ * Features intelligent cache key generation, TTL management, and compression,
+ * an in-process LRU tier in front of SQLite (in memory or on disk),
+ * stale-while-revalidate and tag-based invalidation
  */
 
 import { Database } from "bun:sqlite";
+import { mkdirSync } from "fs";
+import { dirname } from "path";
 import { performanceMonitor } from "../performance.ts";
 import { createLogger } from '../logging/index.js';
+import { getConfig } from '../config/index.js';
 
 const logger = createLogger('cache');
 
@@ -21,6 +26,10 @@ export interface CacheEntry<T = any> {
 }
 
 export interface CacheConfig {
+  path: string; // SQLite file path, or ':memory:'
+  hotEntries: number; // Entries kept in the in-process LRU tier (0 disables it)
+  hotMaxEntrySize: number; // Larger values skip the in-process tier (bytes)
+  staleWhileRevalidate: number; // How long past expiry `remember` may serve a value while refreshing it (milliseconds)
   defaultTTL: number; // Default time-to-live in milliseconds
   maxSize: number; // Maximum cache size in bytes
   maxEntries: number; // Maximum number of entries
@@ -30,11 +39,24 @@ export interface CacheConfig {
   enableStatistics: boolean;
 }
 
+/** Per-entry options for `set` and `remember` */
+export interface CacheSetOptions {
+  /** Time the value is fresh (milliseconds; default `defaultTTL`) */
+  ttl?: number;
+  /** Time past `ttl` that `remember` may serve the value while refreshing it */
+  staleWhileRevalidate?: number;
+  /** Labels to invalidate the entry by, e.g. the source URL it came from */
+  tags?: string[];
+  params?: Record<string, any>;
+}
+
 export interface CacheStats {
   totalEntries: number;
   totalSize: number;
   hitRate: number;
   totalHits: number;
+  /** Hits served by the in-process tier */
+  hotHits: number;
   totalMisses: number;
   evictions: number;
   compressions: number;
@@ -43,15 +65,30 @@ export interface CacheStats {
   newestEntry?: number;
 }
 
+/** A value in the in-process tier, kept serialized so callers never share it */
+interface HotEntry {
+  json: string;
+  expiresAt: number;
+  staleUntil: number;
+}
+
 export class HighPerformanceCache {
   private db: Database;
   private config: CacheConfig;
   private cleanupTimer?: NodeJS.Timeout;
   private stats: CacheStats;
   private compressionEnabled: boolean;
+  /** In-process tier; Map order is recency order, least recently used first */
+  private hot = new Map<string, HotEntry>();
+  /** Loads in flight in `remember`, so concurrent misses and refreshes share one */
+  private pending = new Map<string, Promise<any>>();
 
   constructor(config: Partial<CacheConfig> = {}) {
     this.config = {
+      path: ":memory:",
+      hotEntries: 500,
+      hotMaxEntrySize: 1024 * 1024, // 1MB
+      staleWhileRevalidate: 0,
       defaultTTL: 3600000, // 1 hour
       maxSize: 50 * 1024 * 1024, // 50MB
       maxEntries: 10000,
@@ -63,7 +100,10 @@ export class HighPerformanceCache {
     };
 
     // Initialize SQLite database
-    this.db = new Database(":memory:");
+    if (this.config.path !== ":memory:") {
+      mkdirSync(dirname(this.config.path), { recursive: true });
+    }
+    this.db = new Database(this.config.path, { create: true });
     this.setupDatabase();
     this.stats = this.initializeStats();
     this.compressionEnabled = this.config.enableCompression && typeof Bun.gunzipSync === 'function';
@@ -73,12 +113,19 @@ export class HighPerformanceCache {
   }
 
   private setupDatabase(): void {
-    // Create cache table with optimized indexes
+    if (this.config.path !== ":memory:") {
+      this.db.run("PRAGMA journal_mode = WAL");
+    }
+    // Wait for another process's write lock instead of failing with SQLITE_BUSY
+    this.db.run("PRAGMA busy_timeout = 5000");
+
+    // Create cache table with optimized indexes; stale_until ends the stale-while-revalidate window
     this.db.run(`
       CREATE TABLE IF NOT EXISTS cache (
         key TEXT PRIMARY KEY,
         value BLOB NOT NULL,
         expires_at INTEGER,
+        stale_until INTEGER,
         created_at INTEGER NOT NULL,
         access_count INTEGER DEFAULT 1,
         last_accessed INTEGER NOT NULL,
@@ -87,10 +134,20 @@ export class HighPerformanceCache {
       )
     `);
 
+    this.db.run(`
+      CREATE TABLE IF NOT EXISTS cache_tags (
+        tag TEXT NOT NULL,
+        key TEXT NOT NULL,
+        PRIMARY KEY (tag, key)
+      )
+    `);
+
     // Create indexes for performance
     this.db.run("CREATE INDEX IF NOT EXISTS idx_expires_at ON cache(expires_at)");
+    this.db.run("CREATE INDEX IF NOT EXISTS idx_stale_until ON cache(stale_until)");
     this.db.run("CREATE INDEX IF NOT EXISTS idx_last_accessed ON cache(last_accessed)");
     this.db.run("CREATE INDEX IF NOT EXISTS idx_access_count ON cache(access_count)");
+    this.db.run("CREATE INDEX IF NOT EXISTS idx_cache_tags_key ON cache_tags(key)");
   }
 
   private initializeStats(): CacheStats {
@@ -99,6 +156,7 @@ export class HighPerformanceCache {
       totalSize: 0,
       hitRate: 0,
       totalHits: 0,
+      hotHits: 0,
       totalMisses: 0,
       evictions: 0,
       compressions: 0,
@@ -165,39 +223,83 @@ export class HighPerformanceCache {
   }
 
   /**
-   * Get value from cache
+   * Read an entry that is fresh or still within its stale window, from the
+   * in-process tier first and then SQLite (promoting what SQLite returns)
+   */
+  private async lookup(key: string, now: number): Promise<{ json: string; fresh: boolean } | null> {
+    const hot = this.hot.get(key);
+    if (hot) {
+      if (hot.staleUntil > now) {
+        // Move to the most recently used end
+        this.hot.delete(key);
+        this.hot.set(key, hot);
+        this.stats.hotHits++;
+        return { json: hot.json, fresh: hot.expiresAt > now };
+      }
+      this.hot.delete(key);
+    }
+
+    const query = this.db.query("SELECT * FROM cache WHERE key = ? AND (COALESCE(stale_until, expires_at) IS NULL OR COALESCE(stale_until, expires_at) > ?)");
+    const result = query.get(key, now) as any;
+    if (!result) {
+      return null;
+    }
+
+    // Update access statistics
+    this.db.run(
+      "UPDATE cache SET access_count = access_count + 1, last_accessed = ? WHERE key = ?",
+      [now, key]
+    );
+
+    // Decompress data if needed
+    const decompressedData = await this.decompressData(new Uint8Array(result.value), Boolean(result.compressed));
+    const json = new TextDecoder().decode(decompressedData);
+    const expiresAt = result.expires_at ?? Infinity;
+    this.promote(key, { json, expiresAt, staleUntil: result.stale_until ?? expiresAt });
+
+    return { json, fresh: expiresAt > now };
+  }
+
+  /**
+   * Keep an entry in the in-process tier, evicting the least recently used
+   */
+  private promote(key: string, entry: HotEntry): void {
+    if (this.config.hotEntries <= 0 || entry.json.length > this.config.hotMaxEntrySize) {
+      this.hot.delete(key);
+      return;
+    }
+
+    this.hot.delete(key);
+    this.hot.set(key, entry);
+    while (this.hot.size > this.config.hotEntries) {
+      const oldest = this.hot.keys().next().value;
+      if (oldest === undefined) break;
+      this.hot.delete(oldest);
+    }
+  }
+
+  /**
+   * Get value from cache (fresh values only)
    */
   async get<T>(namespace: string, identifier: string, params?: Record<string, any>): Promise<T | null> {
     const startTime = performance.now();
     const key = this.generateKey(namespace, identifier, params);
 
     try {
-      const query = this.db.query("SELECT * FROM cache WHERE key = ? AND (expires_at IS NULL OR expires_at > ?)");
-      const now = Date.now();
-      const result = query.get(key, now) as any;
+      const entry = await this.lookup(key, Date.now());
 
-      if (!result) {
+      if (!entry?.fresh) {
         this.stats.totalMisses++;
         this.updateHitRate();
         performanceMonitor.recordCacheAccess(false, performance.now() - startTime);
         return null;
       }
 
-      // Update access statistics
-      this.db.run(
-        "UPDATE cache SET access_count = access_count + 1, last_accessed = ? WHERE key = ?",
-        [now, key]
-      );
-
-      // Decompress data if needed
-      const decompressedData = await this.decompressData(new Uint8Array(result.value), Boolean(result.compressed));
-      const value = JSON.parse(new TextDecoder().decode(decompressedData));
-
       this.stats.totalHits++;
       this.updateHitRate();
       performanceMonitor.recordCacheAccess(true, performance.now() - startTime);
 
-      return value;
+      return JSON.parse(entry.json);
     } catch (error) {
       logger.error('Cache get error', error);
       this.stats.totalMisses++;
@@ -208,22 +310,25 @@ export class HighPerformanceCache {
   }
 
   /**
-   * Set value in cache
+   * Set value in cache; the fourth argument is the TTL or the entry's options
    */
   async set<T>(
     namespace: string,
     identifier: string,
     value: T,
-    ttl?: number,
+    ttl?: number | CacheSetOptions,
     params?: Record<string, any>
   ): Promise<void> {
-    const key = this.generateKey(namespace, identifier, params);
+    const options: CacheSetOptions = typeof ttl === 'object' ? ttl : { ttl, params };
+    const key = this.generateKey(namespace, identifier, options.params);
     const now = Date.now();
-    const expiresAt = ttl ? now + ttl : now + this.config.defaultTTL;
+    const expiresAt = options.ttl ? now + options.ttl : now + this.config.defaultTTL;
+    const staleUntil = expiresAt + (options.staleWhileRevalidate ?? this.config.staleWhileRevalidate);
 
     try {
       // Serialize value
-      const serialized = new TextEncoder().encode(JSON.stringify(value));
+      const json = JSON.stringify(value);
+      const serialized = new TextEncoder().encode(json);
 
       // Compress if beneficial
       const { data: compressedData, compressed } = await this.compressData(serialized);
@@ -231,22 +336,32 @@ export class HighPerformanceCache {
       // Check if we need to make space
       await this.ensureSpace(compressedData.length);
 
-      // Insert or replace entry
+      // Insert or replace entry, replacing its tags
       const insert = this.db.prepare(`
         INSERT OR REPLACE INTO cache
-        (key, value, expires_at, created_at, access_count, last_accessed, size, compressed)
-        VALUES (?, ?, ?, ?, 1, ?, ?, ?)
+        (key, value, expires_at, stale_until, created_at, access_count, last_accessed, size, compressed)
+        VALUES (?, ?, ?, ?, ?, 1, ?, ?, ?)
       `);
-
-      insert.run(
-        key,
-        compressedData,
-        expiresAt,
-        now,
-        now,
-        compressedData.length,
-        compressed ? 1 : 0
-      );
+      const insertTag = this.db.prepare("INSERT OR IGNORE INTO cache_tags (tag, key) VALUES (?, ?)");
+
+      this.db.transaction(() => {
+        insert.run(
+          key,
+          compressedData,
+          expiresAt,
+          staleUntil,
+          now,
+          now,
+          compressedData.length,
+          compressed ? 1 : 0
+        );
+        this.db.run("DELETE FROM cache_tags WHERE key = ?", [key]);
+        for (const tag of options.tags ?? []) {
+          insertTag.run(tag, key);
+        }
+      })();
+
+      this.promote(key, { json, expiresAt, staleUntil });
 
       if (compressed) {
         this.stats.compressions++;
@@ -259,6 +374,69 @@ export class HighPerformanceCache {
     }
   }
 
+  /**
+   * Get a value, loading and caching it on a miss. A value past its TTL but
+   * within its stale window is returned at once while `load` refreshes it in
+   * the background; concurrent callers share one load.
+   */
+  async remember<T>(
+    namespace: string,
+    identifier: string,
+    load: () => Promise<T>,
+    options: CacheSetOptions = {}
+  ): Promise<T> {
+    const key = this.generateKey(namespace, identifier, options.params);
+
+    let entry: { json: string; fresh: boolean } | null = null;
+    try {
+      entry = await this.lookup(key, Date.now());
+    } catch (error) {
+      logger.error('Cache get error', error);
+    }
+
+    if (entry) {
+      this.stats.totalHits++;
+      this.updateHitRate();
+      if (!entry.fresh) {
+        this.refresh(key, namespace, identifier, load, options).catch(error => {
+          logger.warn('Background cache refresh failed', { key, error: error instanceof Error ? error.message : String(error) });
+        });
+      }
+      return JSON.parse(entry.json);
+    }
+
+    this.stats.totalMisses++;
+    this.updateHitRate();
+    return this.refresh(key, namespace, identifier, load, options);
+  }
+
+  /**
+   * Run `load` for a key, unless a load for it is already in flight, and cache the result
+   */
+  private refresh<T>(
+    key: string,
+    namespace: string,
+    identifier: string,
+    load: () => Promise<T>,
+    options: CacheSetOptions
+  ): Promise<T> {
+    let loading = this.pending.get(key) as Promise<T> | undefined;
+    if (!loading) {
+      loading = (async () => {
+        const value = await load();
+        try {
+          await this.set(namespace, identifier, value, options);
+        } catch (error) {
+          // The value is still good; only caching it failed
+          logger.warn('Cache set error', { key, error: error instanceof Error ? error.message : String(error) });
+        }
+        return value;
+      })().finally(() => this.pending.delete(key));
+      this.pending.set(key, loading);
+    }
+    return loading;
+  }
+
   /**
    * Delete entry from cache
    */
@@ -266,6 +444,8 @@ export class HighPerformanceCache {
     const key = this.generateKey(namespace, identifier, params);
 
     try {
+      this.hot.delete(key);
+      this.db.run("DELETE FROM cache_tags WHERE key = ?", [key]);
       const query = this.db.query("DELETE FROM cache WHERE key = ?");
       const result = query.run(key);
 
@@ -277,16 +457,55 @@ export class HighPerformanceCache {
     }
   }
 
+  /**
+   * Delete every entry carrying a tag, in any namespace
+   */
+  async invalidateTag(tag: string): Promise<number> {
+    try {
+      const keys = (this.db.query("SELECT key FROM cache_tags WHERE tag = ?").all(tag) as Array<{ key: string }>)
+        .map(row => row.key);
+      if (keys.length === 0) {
+        return 0;
+      }
+
+      const removed = this.db.transaction(() => {
+        let changes = 0;
+        for (const key of keys) {
+          this.db.run("DELETE FROM cache_tags WHERE key = ?", [key]);
+          changes += this.db.query("DELETE FROM cache WHERE key = ?").run(key).changes;
+        }
+        return changes;
+      })();
+      for (const key of keys) {
+        this.hot.delete(key);
+      }
+
+      this.updateStats();
+      return removed;
+    } catch (error) {
+      logger.error('Cache tag invalidation error', error);
+      return 0;
+    }
+  }
+
   /**
    * Clear all entries or entries in a namespace
    */
   async clear(namespace?: string): Promise<void> {
     try {
       if (namespace) {
+        this.db.query("DELETE FROM cache_tags WHERE key LIKE ?").run(`${namespace}:%`);
         const query = this.db.query("DELETE FROM cache WHERE key LIKE ?");
         query.run(`${namespace}:%`);
+        for (const key of this.hot.keys()) {
+          if (key.startsWith(`${namespace}:`)) {
+            this.hot.delete(key);
+          }
+        }
       } else {
+        this.db.run("DELETE FROM cache_tags");
         this.db.run("DELETE FROM cache");
+        this.hot.clear();
       }
 
       this.updateStats();
@@ -308,7 +527,7 @@ export class HighPerformanceCache {
 
     // Check entry count limit
     if (stats.totalEntries >= this.config.maxEntries) {
-      await this.evictByLRU(this.config.maxEntries * 0.1); // Evict 10% of entries
+      await this.evictByLRU(0.1); // Evict 10% of entries
     }
   }
 
@@ -326,7 +545,7 @@ export class HighPerformanceCache {
     let freedSpace = 0;
 
     for (const entry of entries) {
-      this.db.run("DELETE FROM cache WHERE key = ?", [entry.key]);
+      this.removeKey(entry.key);
       freedSpace += entry.size;
       this.stats.evictions++;
 
@@ -340,30 +559,48 @@ export class HighPerformanceCache {
    * Evict entries by LRU policy
    */
   private async evictByLRU(percentage: number): Promise<void> {
-    const countToEvict = Math.floor(this.config.maxEntries * percentage);
+    const countToEvict = Math.max(1, Math.floor(this.config.maxEntries * percentage));
     const query = this.db.query(`
-      DELETE FROM cache
-      WHERE key IN (
-        SELECT key FROM cache
-        ORDER BY last_accessed ASC
-        LIMIT ?
-      )
+      SELECT key FROM cache
+      ORDER BY last_accessed ASC
+      LIMIT ?
     `);
 
-    query.run(countToEvict);
-    this.stats.evictions += countToEvict;
+    const entries = query.all(countToEvict) as Array<{ key: string }>;
+    this.db.transaction(() => {
+      for (const entry of entries) {
+        this.removeKey(entry.key);
+      }
+    })();
+    this.stats.evictions += entries.length;
+  }
+
+  /**
+   * Remove an entry from both tiers, with its tags
+   */
+  private removeKey(key: string): void {
+    this.db.run("DELETE FROM cache_tags WHERE key = ?", [key]);
+    this.db.run("DELETE FROM cache WHERE key = ?", [key]);
+    this.hot.delete(key);
   }
 
   /**
-   * Cleanup expired entries
+   * Cleanup entries past their stale window (or expiry, when they have none)
    */
   private async cleanup(): Promise<void> {
     try {
       const now = Date.now();
-      const query = this.db.query("DELETE FROM cache WHERE expires_at IS NOT NULL AND expires_at <= ?");
+      const query = this.db.query("DELETE FROM cache WHERE COALESCE(stale_until, expires_at) IS NOT NULL AND COALESCE(stale_until, expires_at) <= ?");
       const result = query.run(now);
 
+      for (const [key, entry] of this.hot) {
+        if (entry.staleUntil <= now) {
+          this.hot.delete(key);
+        }
+      }
+
       if (result.changes > 0) {
+        this.db.run("DELETE FROM cache_tags WHERE key NOT IN (SELECT key FROM cache)");
         this.updateStats();
       }
     } catch (error) {
@@ -378,6 +615,9 @@ export class HighPerformanceCache {
     this.cleanupTimer = setInterval(() => {
       this.cleanup();
     }, this.config.cleanupInterval);
+
+    // Expiry cleanup should never keep the process alive on its own
+    this.cleanupTimer.unref?.();
   }
 
   /**
@@ -419,6 +659,21 @@ export class HighPerformanceCache {
     return { ...this.stats };
   }
 
+  /**
+   * Count the entries in one namespace and the bytes they take in SQLite
+   */
+  namespaceStats(namespace: string): { entries: number; size: number } {
+    try {
+      const row = this.db
+        .query("SELECT COUNT(*) as count, SUM(size) as total_size FROM cache WHERE key LIKE ?")
+        .get(`${namespace}:%`) as any;
+      return { entries: row.count, size: row.total_size || 0 };
+    } catch (error) {
+      logger.error('Stats update error', error);
+      return { entries: 0, size: 0 };
+    }
+  }
+
   /**
    * Get cache configuration
    */
@@ -433,6 +688,11 @@ export class HighPerformanceCache {
     const key = this.generateKey(namespace, identifier, params);
     const now = Date.now();
 
+    const hot = this.hot.get(key);
+    if (hot) {
+      return hot.expiresAt > now;
+    }
+
     try {
       const query = this.db.query("SELECT 1 FROM cache WHERE key = ? AND (expires_at IS NULL OR expires_at > ?)");
       const result = query.get(key, now);
@@ -474,6 +734,7 @@ export class HighPerformanceCache {
     if (this.cleanupTimer) {
       clearInterval(this.cleanupTimer);
     }
+    this.hot.clear();
     this.db.close();
   }
 }
@@ -481,6 +742,41 @@ export class HighPerformanceCache {
 // Global cache instance
 export const cache = new HighPerformanceCache();
 
+// ============================================================================
+// SHARED INSTANCE
+// ============================================================================
+
+let sharedCache: HighPerformanceCache | null = null;
+
+/**
+ * Get the shared application cache, creating it from application config on
+ * first use; the processor, source fetching and API response caching all use it
+ */
+export function getSharedCache(): HighPerformanceCache {
+  if (!sharedCache) {
+    const config = getConfig().cache;
+    sharedCache = new HighPerformanceCache({
+      path: config.path,
+      hotEntries: config.hotEntries,
+      staleWhileRevalidate: config.staleWhileRevalidate,
+      defaultTTL: config.ttl,
+      maxSize: config.maxSize,
+      maxEntries: config.maxEntries,
+      enableCompression: config.compressionEnabled,
+      compressionThreshold: config.compressionThreshold,
+      cleanupInterval: config.cleanupInterval,
+    });
+  }
+  return sharedCache;
+}
+
+/**
+ * Replace the shared application cache (tests, alternative backends)
+ */
+export function setSharedCache(cache: HighPerformanceCache | null): void {
+  sharedCache = cache;
+}
+
 // Export cache utilities
 export const cacheUtils = {
   // Common cache namespaces
@@ -493,6 +789,9 @@ export const cacheUtils = {
     TEMPLATE: 'template',
   },
 
+  /** Tag for everything derived from a source URL, for `invalidateTag` */
+  sourceTag: (url: string): string => `source:${url}`,
+
   // Common TTL values
   TTL: {
     MINUTE: 60 * 1000,
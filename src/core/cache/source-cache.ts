@@ -0,0 +1,349 @@
+/**
+ * Source cache using Bun's native SQLite
+ * Remembers what each source returned, with its validators (ETag,
+ * Last-Modified) and a content hash, so the next fetch can be conditional;
+ * and the gems made from it, so an unchanged source skips the AI step.
+ * Kept apart from the shared result cache, which expires entries and is keyed on options.
+ */
+
+import { Database } from "bun:sqlite";
+import { mkdirSync } from "fs";
+import { dirname } from "path";
+import { getConfig } from '../config/index.js';
+import { cacheUtils, getSharedCache } from './cache.js';
+import { createLogger } from '../logging/index.js';
+import type { GeminiGem } from '../types/index.js';
+
+const logger = createLogger('source-cache');
+
+/** A fetched source */
+export interface CachedSource {
+  url: string;
+  /** Validators from the last response, sent back for conditional requests */
+  etag?: string;
+  lastModified?: string;
+  contentType?: string;
+  /** Raw response body; absent for sources read in several requests (videos, podcasts, threads) */
+  body?: Uint8Array;
+  /** Hash of the body, or of the extracted content when no body is kept */
+  contentHash: string;
+  /** When the content was last downloaded */
+  fetchedAt: Date;
+  /** When the content was last confirmed current (downloaded or answered 304) */
+  checkedAt: Date;
+}
+
+/** Fields accepted when saving a source; both timestamps become now */
+export type NewCachedSource = Omit<CachedSource, 'fetchedAt' | 'checkedAt'>;
+
+export interface SourceCacheConfig {
+  /** SQLite file path, or ':memory:' */
+  path: string;
+  /** Sources not checked for this long are removed with their gems (milliseconds, 0 disables) */
+  retentionMs: number;
+  /** Total size of kept bodies; past it the least recently checked sources are removed (bytes, 0 disables) */
+  maxBodyBytes: number;
+  /** How often to run retention cleanup (milliseconds, 0 disables the timer) */
+  cleanupInterval: number;
+}
+
+/**
+ * Source cache abstraction
+ */
+export interface SourceCache {
+  get(url: string): Promise<CachedSource | null>;
+  /** Save a downloaded source, replacing what was kept for its URL */
+  save(source: NewCachedSource): Promise<void>;
+  /** Record that a source was revalidated without downloading it */
+  touch(url: string): Promise<void>;
+  /** The gem made from a source with these options, if the source still has this hash */
+  getGem(url: string, optionsKey: string, contentHash: string): Promise<GeminiGem | null>;
+  saveGem(url: string, optionsKey: string, contentHash: string, gem: GeminiGem): Promise<void>;
+  /** Forget a source and its gems */
+  delete(url: string): Promise<boolean>;
+  cleanup(): Promise<number>;
+  close(): void;
+}
+
+interface SourceRow {
+  url: string;
+  etag: string | null;
+  last_modified: string | null;
+  content_type: string | null;
+  body: Uint8Array | null;
+  content_hash: string;
+  fetched_at: number;
+  checked_at: number;
+}
+
+export class SqliteSourceCache implements SourceCache {
+  private db: Database;
+  private config: SourceCacheConfig;
+  private cleanupTimer?: NodeJS.Timeout;
+
+  constructor(config: Partial<SourceCacheConfig> = {}) {
+    this.config = {
+      path: ":memory:",
+      retentionMs: 30 * 24 * 60 * 60 * 1000, // 30 days
+      maxBodyBytes: 512 * 1024 * 1024, // 512 MB
+      cleanupInterval: 60 * 60 * 1000, // 1 hour
+      ...config,
+    };
+
+    if (this.config.path !== ":memory:") {
+      mkdirSync(dirname(this.config.path), { recursive: true });
+    }
+
+    this.db = new Database(this.config.path, { create: true });
+    this.setupDatabase();
+    this.startCleanupTimer();
+  }
+
+  private setupDatabase(): void {
+    this.db.run("PRAGMA journal_mode = WAL");
+    this.db.run("PRAGMA busy_timeout = 5000");
+
+    this.db.run(`
+      CREATE TABLE IF NOT EXISTS sources (
+        url TEXT PRIMARY KEY,
+        etag TEXT,
+        last_modified TEXT,
+        content_type TEXT,
+        body BLOB,
+        content_hash TEXT NOT NULL,
+        fetched_at INTEGER NOT NULL,
+        checked_at INTEGER NOT NULL
+      )
+    `);
+
+    this.db.run(`
+      CREATE TABLE IF NOT EXISTS source_gems (
+        url TEXT NOT NULL,
+        options_key TEXT NOT NULL,
+        content_hash TEXT NOT NULL,
+        gem TEXT NOT NULL,
+        created_at INTEGER NOT NULL,
+        PRIMARY KEY (url, options_key)
+      )
+    `);
+
+    this.db.run("CREATE INDEX IF NOT EXISTS idx_sources_checked_at ON sources(checked_at)");
+  }
+
+  private rowToSource(row: SourceRow): CachedSource {
+    return {
+      url: row.url,
+      etag: row.etag ?? undefined,
+      lastModified: row.last_modified ?? undefined,
+      contentType: row.content_type ?? undefined,
+      body: row.body ?? undefined,
+      contentHash: row.content_hash,
+      fetchedAt: new Date(row.fetched_at),
+      checkedAt: new Date(row.checked_at),
+    };
+  }
+
+  /**
+   * Get the source kept for a URL
+   */
+  async get(url: string): Promise<CachedSource | null> {
+    const row = this.db.query("SELECT * FROM sources WHERE url = ?").get(url) as SourceRow | null;
+    return row ? this.rowToSource(row) : null;
+  }
+
+  /**
+   * Save a downloaded source; gems of its previous content stay until they are replaced,
+   * and are only served while the hash matches
+   */
+  async save(source: NewCachedSource): Promise<void> {
+    const now = Date.now();
+
+    this.db.query(`
+      INSERT OR REPLACE INTO sources (url, etag, last_modified, content_type, body, content_hash, fetched_at, checked_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      source.url,
+      source.etag ?? null,
+      source.lastModified ?? null,
+      source.contentType ?? null,
+      source.body ?? null,
+      source.contentHash,
+      now,
+      now
+    );
+
+    if (source.body && this.config.maxBodyBytes > 0) {
+      this.evictOverCap(source.url);
+    }
+  }
+
+  /**
+   * Remove the least recently checked sources, with their gems, until the
+   * kept bodies fit `maxBodyBytes` again. The source just saved is kept.
+   */
+  private evictOverCap(keep: string): void {
+    // LENGTH() of a blob is read from its header, not its content
+    const { total } = this.db.query("SELECT COALESCE(SUM(LENGTH(body)), 0) AS total FROM sources").get() as { total: number };
+    let excess = total - this.config.maxBodyBytes;
+    if (excess <= 0) {
+      return;
+    }
+
+    const evicted = this.db.transaction(() => {
+      const candidates = this.db
+        .query("SELECT url, LENGTH(body) AS size FROM sources WHERE body IS NOT NULL AND url != ? ORDER BY checked_at ASC")
+        .all(keep) as Array<{ url: string; size: number }>;
+      let count = 0;
+      for (const { url, size } of candidates) {
+        if (excess <= 0) {
+          break;
+        }
+        this.db.query("DELETE FROM source_gems WHERE url = ?").run(url);
+        this.db.query("DELETE FROM sources WHERE url = ?").run(url);
+        excess -= size;
+        count++;
+      }
+      return count;
+    })();
+
+    logger.debug(`Evicted ${evicted} sources over the body size cap`);
+  }
+
+  /**
+   * Record a revalidation (304) of a source
+   */
+  async touch(url: string): Promise<void> {
+    this.db.query("UPDATE sources SET checked_at = ? WHERE url = ?").run(Date.now(), url);
+  }
+
+  /**
+   * Get the gem made from a source with the given options, unless the source has changed since
+   */
+  async getGem(url: string, optionsKey: string, contentHash: string): Promise<GeminiGem | null> {
+    const row = this.db
+      .query("SELECT gem FROM source_gems WHERE url = ? AND options_key = ? AND content_hash = ?")
+      .get(url, optionsKey, contentHash) as { gem: string } | null;
+    if (!row) {
+      return null;
+    }
+
+    const gem = JSON.parse(row.gem) as GeminiGem;
+    gem.frontmatter.processed = new Date(gem.frontmatter.processed);
+    return gem;
+  }
+
+  /**
+   * Keep the gem made from a source with the given options
+   */
+  async saveGem(url: string, optionsKey: string, contentHash: string, gem: GeminiGem): Promise<void> {
+    this.db.query(`
+      INSERT OR REPLACE INTO source_gems (url, options_key, content_hash, gem, created_at)
+      VALUES (?, ?, ?, ?, ?)
+    `).run(url, optionsKey, contentHash, JSON.stringify(gem), Date.now());
+  }
+
+  /**
+   * Forget a source and its gems
+   */
+  async delete(url: string): Promise<boolean> {
+    this.db.query("DELETE FROM source_gems WHERE url = ?").run(url);
+    const result = this.db.query("DELETE FROM sources WHERE url = ?").run(url);
+    return result.changes > 0;
+  }
+
+  /**
+   * Remove sources not checked within the retention period, and their gems
+   */
+  async cleanup(): Promise<number> {
+    if (this.config.retentionMs <= 0) {
+      return 0;
+    }
+
+    try {
+      const cutoff = Date.now() - this.config.retentionMs;
+      const removed = this.db.transaction(() => {
+        this.db.query("DELETE FROM source_gems WHERE url IN (SELECT url FROM sources WHERE checked_at < ?)").run(cutoff);
+        return this.db.query("DELETE FROM sources WHERE checked_at < ?").run(cutoff).changes;
+      })();
+
+      if (removed > 0) {
+        logger.debug(`Cleaned up ${removed} expired sources`);
+      }
+      return removed;
+    } catch (error) {
+      logger.error('Source cache cleanup error', error);
+      return 0;
+    }
+  }
+
+  /**
+   * Start cleanup timer
+   */
+  private startCleanupTimer(): void {
+    if (this.config.cleanupInterval <= 0) {
+      return;
+    }
+
+    this.cleanupTimer = setInterval(() => {
+      this.cleanup();
+    }, this.config.cleanupInterval);
+
+    // Retention cleanup should never keep the process alive on its own
+    this.cleanupTimer.unref?.();
+  }
+
+  /**
+   * Close the store
+   */
+  close(): void {
+    if (this.cleanupTimer) {
+      clearInterval(this.cleanupTimer);
+    }
+    this.db.close();
+  }
+}
+
+// ============================================================================
+// SHARED INSTANCE
+// ============================================================================
+
+let sharedCache: SourceCache | null = null;
+
+/**
+ * Get the shared source cache, creating it from application config on first use
+ */
+export function getSourceCache(): SourceCache {
+  if (!sharedCache) {
+    const { sourceCache } = getConfig();
+    sharedCache = new SqliteSourceCache({
+      path: sourceCache.storePath,
+      retentionMs: sourceCache.retentionMs,
+      maxBodyBytes: sourceCache.maxBodyBytes,
+      cleanupInterval: sourceCache.cleanupInterval,
+    });
+  }
+  return sharedCache;
+}
+
+/**
+ * Replace the shared source cache (tests, alternative backends)
+ */
+export function setSourceCache(cache: SourceCache | null): void {
+  sharedCache = cache;
+}
+
+/**
+ * Forget everything kept for a source: its results, fetched content and
+ * responses in the shared cache, and its copy and gems in the source cache.
+ * Returns how many entries were removed.
+ */
+export async function purgeSource(url: string): Promise<number> {
+  let removed = 0;
+  if (getConfig().cache.enabled) {
+    removed += await getSharedCache().invalidateTag(cacheUtils.sourceTag(url));
+  }
+  if (getConfig().sourceCache.enabled && await getSourceCache().delete(url)) {
+    removed++;
+  }
+  return removed;
+}
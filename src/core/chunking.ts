@@ -0,0 +1,188 @@
+/**
+ * Content Chunking
+ * Splits long content into model-sized chunks, preferring section, then
+ * paragraph (transcript paragraph), then line and sentence boundaries
+ *
+ * Version: 1.0.0
+ */
+
+/** Chunking options */
+export interface ChunkOptions {
+  /** Token budget per chunk (default DEFAULT_CHUNK_TOKENS) */
+  maxTokens?: number;
+}
+
+/** A piece of content small enough for one model call */
+export interface ContentChunk {
+  /** Position of the chunk, from 0 */
+  index: number;
+
+  /** Chunk text */
+  text: string;
+
+  /** Estimated tokens in `text` */
+  tokens: number;
+
+  /** Heading of the section the chunk starts in */
+  heading?: string;
+}
+
+/** Default token budget per chunk, leaving room for the prompt and the response */
+export const DEFAULT_CHUNK_TOKENS = 6000;
+
+/** Markdown heading line, e.g. "## Methods" or a transcript chapter "### Intro" */
+const HEADING_LINE = /^#{1,6}\s+\S/;
+
+/** Boundaries tried, in order, when a block is over budget */
+const SPLITTERS: ReadonlyArray<{ pattern: RegExp; joiner: string }> = [
+  { pattern: /\n\s*\n/, joiner: '\n\n' },
+  { pattern: /\n/, joiner: '\n' },
+  { pattern: /(?<=[.!?])\s+/, joiner: ' ' },
+  { pattern: /\s+/, joiner: ' ' }
+];
+
+interface Section {
+  heading?: string;
+  text: string;
+}
+
+/**
+ * Rough token estimate: about four characters or three quarters of a word per
+ * token, whichever is larger. Good enough for budgeting, not for billing.
+ */
+export function estimateTokens(text: string): number {
+  const words = text.split(/\s+/).filter(Boolean).length;
+  return Math.ceil(Math.max(text.length / 4, words * 4 / 3));
+}
+
+/**
+ * Split content into chunks of at most `maxTokens` (estimated).
+ * Content within budget comes back as a single chunk. Sections that fit are
+ * never split; an oversized section continues in the next chunk under its
+ * heading so each chunk keeps its context.
+ */
+export function chunkContent(content: string, options: ChunkOptions = {}): ContentChunk[] {
+  const maxTokens = Math.max(100, options.maxTokens ?? DEFAULT_CHUNK_TOKENS);
+  const text = content.trim();
+
+  if (estimateTokens(text) <= maxTokens) {
+    return text ? [{ index: 0, text, tokens: estimateTokens(text) }] : [];
+  }
+
+  const chunks: Array<{ heading?: string; parts: string[] }> = [];
+  let current: { heading?: string; parts: string[] } | null = null;
+  let currentTokens = 0;
+
+  const startChunk = (heading: string | undefined, part: string): void => {
+    current = { heading, parts: [part] };
+    chunks.push(current);
+    currentTokens = estimateTokens(part);
+  };
+
+  const append = (part: string): boolean => {
+    const tokens = estimateTokens(part);
+    if (current && currentTokens + tokens <= maxTokens) {
+      current.parts.push(part);
+      currentTokens += tokens;
+      return true;
+    }
+    return false;
+  };
+
+  for (const section of splitSections(text)) {
+    // Keep whole sections together where possible
+    if (append(section.text)) {
+      continue;
+    }
+    if (estimateTokens(section.text) <= maxTokens) {
+      startChunk(section.heading, section.text);
+      continue;
+    }
+
+    // Oversized section: pack its blocks, repeating the heading on continuations
+    const headingLine = section.heading ? section.text.split('\n', 1)[0] : undefined;
+    const body = headingLine ? section.text.slice(headingLine.length).trim() : section.text;
+    const budget = maxTokens - (headingLine ? estimateTokens(headingLine) : 0);
+    let first = true;
+
+    for (const block of splitToFit(body, budget)) {
+      if (!first && append(block)) {
+        continue;
+      }
+      startChunk(section.heading, headingLine ? `${headingLine}\n\n${block}` : block);
+      first = false;
+    }
+  }
+
+  return chunks.map((chunk, index) => {
+    const chunkText = chunk.parts.join('\n\n');
+    return { index, text: chunkText, tokens: estimateTokens(chunkText), heading: chunk.heading };
+  });
+}
+
+/** Split at Markdown heading lines; text before the first heading is its own section */
+function splitSections(text: string): Section[] {
+  const sections: Section[] = [];
+  let lines: string[] = [];
+  let heading: string | undefined;
+
+  const flush = (): void => {
+    const body = lines.join('\n').trim();
+    if (body) {
+      sections.push({ heading, text: body });
+    }
+  };
+
+  for (const line of text.split('\n')) {
+    if (HEADING_LINE.test(line)) {
+      flush();
+      lines = [];
+      heading = line.replace(/^#+\s+/, '').trim();
+    }
+    lines.push(line);
+  }
+  flush();
+
+  return sections;
+}
+
+/** Break text into blocks within budget, trying coarser boundaries first */
+function splitToFit(text: string, maxTokens: number, level = 0): string[] {
+  if (estimateTokens(text) <= maxTokens) {
+    return [text];
+  }
+
+  const splitter = SPLITTERS[level];
+  if (!splitter) {
+    // A single "word" longer than the budget: cut it by characters
+    const size = maxTokens * 4;
+    const pieces: string[] = [];
+    for (let i = 0; i < text.length; i += size) {
+      pieces.push(text.slice(i, i + size));
+    }
+    return pieces;
+  }
+
+  const pieces = text.split(splitter.pattern).map(piece => piece.trim()).filter(Boolean);
+  if (pieces.length <= 1) {
+    return splitToFit(text, maxTokens, level + 1);
+  }
+
+  // Re-pack the finer pieces so blocks stay as large as the budget allows
+  const blocks: string[] = [];
+  let block = '';
+  for (const piece of pieces.flatMap(p => splitToFit(p, maxTokens, level + 1))) {
+    const candidate = block ? `${block}${splitter.joiner}${piece}` : piece;
+    if (block && estimateTokens(candidate) > maxTokens) {
+      blocks.push(block);
+      block = piece;
+    } else {
+      block = candidate;
+    }
+  }
+  if (block) {
+    blocks.push(block);
+  }
+
+  return blocks;
+}
@@ -8,6 +8,8 @@
 
 import { createLogger } from '../logging/index.js';
 import { TIME, SIZE, RATE_LIMIT, PERFORMANCE, AI } from '../constants/index.js';
+import { AI_PROVIDERS } from '../ai/providers/provider.js';
+import type { AIProviderName } from '../types/index.js';
 
 const logger = createLogger('config');
 
@@ -27,6 +29,12 @@ export interface ServerConfig {
 
 export interface CacheConfiguration {
   enabled: boolean;
+  /** SQLite file behind the shared cache, or ':memory:' */
+  path: string;
+  /** Entries kept in the in-process tier in front of SQLite (0 disables it) */
+  hotEntries: number;
+  /** How long past its TTL an entry may be served while it is refreshed (milliseconds) */
+  staleWhileRevalidate: number;
   ttl: number;
   maxSize: number;
   maxEntries: number;
@@ -44,7 +52,16 @@ export interface RateLimitConfiguration {
 }
 
 export interface AIConfiguration {
+  provider: AIProviderName;
   model: string;
+  /** API root for the openai-compatible provider */
+  baseUrl?: string;
+  /**
+   * The server's own provider key, for work it starts itself (feed entries,
+   * batches resumed with `batch.resumeWithServerKey`); requests always carry
+   * their own key
+   */
+  apiKey?: string;
   temperature: number;
   maxTokens: number;
   topP: number;
@@ -68,6 +85,8 @@ export interface SecurityConfiguration {
   maxAPIKeyLength: number;
   rateLimitPerIP: number;
   encryptionEnabled: boolean;
+  /** Bearer token for operator endpoints such as the job listing; unset disables them */
+  adminToken?: string;
 }
 
 export interface PerformanceConfiguration {
@@ -84,6 +103,63 @@ export interface BatchConfiguration {
   maxUrls: number;
   maxConcurrent: number;
   timeout: number;
+  /**
+   * Resume batches interrupted by a restart with the server's AI key. Off by
+   * default: batch keys are never stored, so resuming bills the operator for
+   * work users submitted with their own keys
+   */
+  resumeWithServerKey: boolean;
+}
+
+export interface JobsConfiguration {
+  storePath: string;
+  retentionMs: number;
+  cleanupInterval: number;
+}
+
+export interface FeedsConfiguration {
+  /** Poll subscriptions on a schedule (needs the server's AI API key) */
+  enabled: boolean;
+  storePath: string;
+  /** Default time between polls of one feed */
+  pollInterval: number;
+  /** How often the scheduler looks for feeds that are due */
+  schedulerInterval: number;
+  /** New entries queued per poll; the rest wait for the next poll */
+  maxEntriesPerPoll: number;
+  fetchTimeout: number;
+  /** Allow feeds on private hosts and file: URLs (development and tests) */
+  allowLocalFeeds: boolean;
+  /** Vault the feeds' notes are saved into; unset keeps them as job results only */
+  vaultPath?: string;
+}
+
+export interface FetchingConfiguration {
+  /** Check robots.txt before fetching a source; requests can opt out */
+  respectRobots: boolean;
+  /** How long a fetched robots.txt is trusted */
+  robotsTtl: number;
+  /** Minimum time between requests to one host */
+  minHostInterval: number;
+  /** Minimum intervals for particular domains (and their subdomains), overriding `minHostInterval` */
+  domainIntervals: Record<string, number>;
+  /** Requests in flight to one host at a time */
+  maxConcurrentPerHost: number;
+  /** Retries of a request answered with 429 or 503 */
+  maxRetries: number;
+  /** Longest wait for a retry; a longer Retry-After fails the request instead */
+  maxRetryDelay: number;
+}
+
+export interface SourceCacheConfiguration {
+  /** Keep fetched sources so later fetches are conditional and unchanged sources reuse their gems */
+  enabled: boolean;
+  storePath: string;
+  /** Sources not fetched or revalidated for this long are removed, with their gems */
+  retentionMs: number;
+  /** Total size of kept bodies before the least recently checked sources are removed (bytes, 0 disables) */
+  maxBodyBytes: number;
+  cleanupInterval: number;
 }
 
 export interface PWAConfiguration {
@@ -107,6 +183,10 @@ export interface ApplicationConfig {
   security: SecurityConfiguration;
   performance: PerformanceConfiguration;
   batch: BatchConfiguration;
+  jobs: JobsConfiguration;
+  feeds: FeedsConfiguration;
+  fetching: FetchingConfiguration;
+  sourceCache: SourceCacheConfiguration;
   pwa: PWAConfiguration;
 }
 
@@ -151,6 +231,9 @@ const baseConfig: Omit<ApplicationConfig, 'environment'> = {
   },
   cache: {
     enabled: true,
+    path: './data/cache.sqlite',
+    hotEntries: 500,
+    staleWhileRevalidate: TIME.DEFAULT_CACHE_TTL,
     ttl: TIME.DEFAULT_CACHE_TTL,
     maxSize: SIZE.DEFAULT_CACHE_MAX_SIZE,
     maxEntries: SIZE.MAX_CACHE_ENTRIES,
@@ -166,6 +249,7 @@ const baseConfig: Omit<ApplicationConfig, 'environment'> = {
     burstLimit: RATE_LIMIT.USER_MAX_BURST
   },
   ai: {
+    provider: 'gemini',
     model: AI.DEFAULT_MODEL,
     temperature: AI.DEFAULT_TEMPERATURE,
     maxTokens: AI.DEFAULT_MAX_TOKENS,
@@ -201,7 +285,38 @@ const baseConfig: Omit<ApplicationConfig, 'environment'> = {
     enabled: true,
     maxUrls: 10,
     maxConcurrent: 3,
-    timeout: TIME.MAX_PROCESSING_TIME
+    timeout: TIME.MAX_PROCESSING_TIME,
+    resumeWithServerKey: false
+  },
+  jobs: {
+    storePath: './data/jobs.sqlite',
+    retentionMs: TIME.WEEK,
+    cleanupInterval: 10 * TIME.MINUTE
+  },
+  feeds: {
+    enabled: true,
+    storePath: './data/feeds.sqlite',
+    pollInterval: 30 * TIME.MINUTE,
+    schedulerInterval: TIME.MINUTE,
+    maxEntriesPerPoll: 10,
+    fetchTimeout: 30 * TIME.SECOND,
+    allowLocalFeeds: false
+  },
+  fetching: {
+    respectRobots: true,
+    robotsTtl: TIME.DAY,
+    minHostInterval: 500,
+    domainIntervals: {},
+    maxConcurrentPerHost: 2,
+    maxRetries: 2,
+    maxRetryDelay: TIME.MINUTE
+  },
+  sourceCache: {
+    enabled: true,
+    storePath: './data/sources.sqlite',
+    retentionMs: TIME.MONTH,
+    maxBodyBytes: 512 * SIZE.MB,
+    cleanupInterval: TIME.HOUR
   },
   pwa: {
     enabled: false,
@@ -286,7 +401,8 @@ const testOverrides: Partial<ApplicationConfig> = {
   },
   cache: {
     ...baseConfig.cache,
-    enabled: false
+    enabled: false,
+    path: ':memory:'
   },
   rateLimit: {
     ...baseConfig.rateLimit,
@@ -296,6 +412,23 @@ const testOverrides: Partial<ApplicationConfig> = {
     ...baseConfig.performance,
     enableProfiling: false,
     enableMetrics: false
+  },
+  jobs: {
+    ...baseConfig.jobs,
+    storePath: ':memory:'
+  },
+  feeds: {
+    ...baseConfig.feeds,
+    storePath: ':memory:'
+  },
+  fetching: {
+    ...baseConfig.fetching,
+    minHostInterval: 0
+  },
+  sourceCache: {
+    ...baseConfig.sourceCache,
+    enabled: false,
+    storePath: ':memory:'
   }
 };
 
@@ -304,9 +437,11 @@ const testOverrides: Partial<ApplicationConfig> = {
 // ============================================================================
 
 /**
- * Parse environment variable as integer
+ * Parse environment variable as integer; without a default, unset is undefined
  */
-function parseIntEnv(name: string, defaultValue: number): number {
+function parseIntEnv(name: string, defaultValue: number): number;
+function parseIntEnv(name: string, defaultValue?: number): number | undefined;
+function parseIntEnv(name: string, defaultValue?: number): number | undefined {
   const value = process.env[name];
   if (value === undefined) return defaultValue;
   const parsed = parseInt(value, 10);
@@ -324,9 +459,11 @@ function parseFloatEnv(name: string, defaultValue: number): number {
 }
 
 /**
- * Parse environment variable as boolean
+ * Parse environment variable as boolean; without a default, unset is undefined
  */
-function parseBoolEnv(name: string, defaultValue: boolean): boolean {
+function parseBoolEnv(name: string, defaultValue: boolean): boolean;
+function parseBoolEnv(name: string, defaultValue?: boolean): boolean | undefined;
+function parseBoolEnv(name: string, defaultValue?: boolean): boolean | undefined {
   const value = process.env[name];
   if (value === undefined) return defaultValue;
   return value.toLowerCase() === 'true' || value === '1';
@@ -341,10 +478,31 @@ function parseArrayEnv(name: string, defaultValue: string[]): string[] {
   return value.split(',').map(s => s.trim()).filter(s => s.length > 0);
 }
 
+/**
+ * Parse environment variable as a map of domain to milliseconds
+ * (e.g. "example.com=2000,news.example.org=5000")
+ */
+function parseIntervalsEnv(name: string, defaultValue: Record<string, number>): Record<string, number> {
+  const value = process.env[name];
+  if (!value) return defaultValue;
+  const intervals: Record<string, number> = {};
+  for (const entry of value.split(',')) {
+    const [domain, ms] = entry.split('=').map(s => s.trim());
+    const parsed = parseInt(ms, 10);
+    if (domain && !isNaN(parsed)) {
+      intervals[domain.toLowerCase()] = parsed;
+    }
+  }
+  return intervals;
+}
+
+/** Settings read from the environment; unset ones stay undefined so the merge keeps the default */
+type EnvironmentOverrides = { [K in keyof ApplicationConfig]?: Partial<ApplicationConfig[K]> };
+
 /**
  * Load configuration from environment variables
  */
-function loadFromEnvironment(): Partial<ApplicationConfig> {
+function loadFromEnvironment(): EnvironmentOverrides {
   return {
     server: {
       port: parseIntEnv('PORT', baseConfig.server.port),
@@ -354,7 +512,11 @@ function loadFromEnvironment(): Partial<ApplicationConfig> {
       maxRequestSize: parseIntEnv('MAX_REQUEST_SIZE', baseConfig.server.maxRequestSize)
     },
     cache: {
-      enabled: parseBoolEnv('CACHE_ENABLED', baseConfig.cache.enabled),
+      // Both left undefined when unset, like the source cache (tests run without the cache)
+      enabled: parseBoolEnv('CACHE_ENABLED'),
+      path: process.env.CACHE_PATH || undefined,
+      hotEntries: parseIntEnv('CACHE_HOT_ENTRIES', baseConfig.cache.hotEntries),
+      staleWhileRevalidate: parseIntEnv('CACHE_STALE_WHILE_REVALIDATE', baseConfig.cache.staleWhileRevalidate),
       ttl: parseIntEnv('CACHE_TTL', baseConfig.cache.ttl),
       maxSize: parseIntEnv('CACHE_MAX_SIZE', baseConfig.cache.maxSize),
       maxEntries: parseIntEnv('CACHE_MAX_ENTRIES', baseConfig.cache.maxEntries),
@@ -370,7 +532,10 @@ function loadFromEnvironment(): Partial<ApplicationConfig> {
       burstLimit: parseIntEnv('RATE_LIMIT_BURST', baseConfig.rateLimit.burstLimit)
     },
     ai: {
+      provider: (process.env.AI_PROVIDER as AIProviderName) || baseConfig.ai.provider,
       model: process.env.AI_MODEL || baseConfig.ai.model,
+      baseUrl: process.env.AI_BASE_URL || baseConfig.ai.baseUrl,
+      apiKey: process.env.AI_API_KEY || baseConfig.ai.apiKey,
       temperature: parseFloatEnv('AI_TEMPERATURE', baseConfig.ai.temperature),
       maxTokens: parseIntEnv('AI_MAX_TOKENS', baseConfig.ai.maxTokens),
       topP: parseFloatEnv('AI_TOP_P', baseConfig.ai.topP),
@@ -391,7 +556,8 @@ function loadFromEnvironment(): Partial<ApplicationConfig> {
       maxURLLength: parseIntEnv('SECURITY_MAX_URL_LENGTH', baseConfig.security.maxURLLength),
       maxAPIKeyLength: parseIntEnv('SECURITY_MAX_API_KEY_LENGTH', baseConfig.security.maxAPIKeyLength),
       rateLimitPerIP: parseIntEnv('SECURITY_RATE_LIMIT_PER_IP', baseConfig.security.rateLimitPerIP),
-      encryptionEnabled: parseBoolEnv('SECURITY_ENCRYPTION_ENABLED', baseConfig.security.encryptionEnabled)
+      encryptionEnabled: parseBoolEnv('SECURITY_ENCRYPTION_ENABLED', baseConfig.security.encryptionEnabled),
+      adminToken: process.env.ADMIN_TOKEN || undefined
     },
     performance: {
       startupTimeout: parseIntEnv('PERF_STARTUP_TIMEOUT', baseConfig.performance.startupTimeout),
@@ -405,7 +571,43 @@ function loadFromEnvironment(): Partial<ApplicationConfig> {
       enabled: parseBoolEnv('BATCH_ENABLED', baseConfig.batch.enabled),
       maxUrls: parseIntEnv('BATCH_MAX_URLS', baseConfig.batch.maxUrls),
       maxConcurrent: parseIntEnv('BATCH_MAX_CONCURRENT', baseConfig.batch.maxConcurrent),
-      timeout: parseIntEnv('BATCH_TIMEOUT', baseConfig.batch.timeout)
+      timeout: parseIntEnv('BATCH_TIMEOUT', baseConfig.batch.timeout),
+      resumeWithServerKey: parseBoolEnv('BATCH_RESUME_WITH_SERVER_KEY', baseConfig.batch.resumeWithServerKey)
+    },
+    jobs: {
+      // Left undefined when unset so the per-environment default (':memory:' under test) survives the merge
+      storePath: process.env.JOBS_STORE_PATH || undefined,
+      retentionMs: parseIntEnv('JOBS_RETENTION', baseConfig.jobs.retentionMs),
+      cleanupInterval: parseIntEnv('JOBS_CLEANUP_INTERVAL', baseConfig.jobs.cleanupInterval)
+    },
+    feeds: {
+      enabled: parseBoolEnv('FEEDS_ENABLED', baseConfig.feeds.enabled),
+      // Left undefined when unset, like the job store path
+      storePath: process.env.FEEDS_STORE_PATH || undefined,
+      pollInterval: parseIntEnv('FEEDS_POLL_INTERVAL', baseConfig.feeds.pollInterval),
+      schedulerInterval: parseIntEnv('FEEDS_SCHEDULER_INTERVAL', baseConfig.feeds.schedulerInterval),
+      maxEntriesPerPoll: parseIntEnv('FEEDS_MAX_ENTRIES_PER_POLL', baseConfig.feeds.maxEntriesPerPoll),
+      fetchTimeout: parseIntEnv('FEEDS_FETCH_TIMEOUT', baseConfig.feeds.fetchTimeout),
+      allowLocalFeeds: parseBoolEnv('FEEDS_ALLOW_LOCAL', baseConfig.feeds.allowLocalFeeds),
+      vaultPath: process.env.FEEDS_VAULT_PATH || undefined
+    },
+    fetching: {
+      respectRobots: parseBoolEnv('FETCH_RESPECT_ROBOTS', baseConfig.fetching.respectRobots),
+      robotsTtl: parseIntEnv('FETCH_ROBOTS_TTL', baseConfig.fetching.robotsTtl),
+      // Left undefined when unset so the per-environment default (none under test) survives the merge
+      minHostInterval: parseIntEnv('FETCH_MIN_HOST_INTERVAL'),
+      domainIntervals: parseIntervalsEnv('FETCH_DOMAIN_INTERVALS', baseConfig.fetching.domainIntervals),
+      maxConcurrentPerHost: parseIntEnv('FETCH_MAX_CONCURRENT_PER_HOST', baseConfig.fetching.maxConcurrentPerHost),
+      maxRetries: parseIntEnv('FETCH_MAX_RETRIES', baseConfig.fetching.maxRetries),
+      maxRetryDelay: parseIntEnv('FETCH_MAX_RETRY_DELAY', baseConfig.fetching.maxRetryDelay)
+    },
+    sourceCache: {
+      // Both left undefined when unset, like the job store path (tests run without the cache)
+      enabled: parseBoolEnv('SOURCE_CACHE_ENABLED'),
+      storePath: process.env.SOURCE_CACHE_PATH || undefined,
+      retentionMs: parseIntEnv('SOURCE_CACHE_RETENTION', baseConfig.sourceCache.retentionMs),
+      maxBodyBytes: parseIntEnv('SOURCE_CACHE_MAX_BYTES', baseConfig.sourceCache.maxBodyBytes),
+      cleanupInterval: parseIntEnv('SOURCE_CACHE_CLEANUP_INTERVAL', baseConfig.sourceCache.cleanupInterval)
     },
     pwa: {
       enabled: parseBoolEnv('PWA_ENABLED', baseConfig.pwa.enabled),
@@ -421,7 +623,7 @@ function loadFromEnvironment(): Partial<ApplicationConfig> {
 /**
  * Deep merge objects
  */
-function deepMerge<T extends Record<string, any>>(target: T, ...sources: Partial<T>[]): T {
+function deepMerge<T extends Record<string, any>>(target: T, ...sources: Array<{ [K in keyof T]?: Partial<T[K]> }>): T {
   const result = { ...target };
 
   for (const source of sources) {
@@ -505,7 +707,7 @@ export function resetConfig(): void {
 }
 
 /**
- * Override configuration (for testing)
+ * Override configuration (tests, and entry points such as the CLI)
  */
 export function setConfig(config: ApplicationConfig): void {
   configInstance = config;
@@ -537,6 +739,14 @@ export function validateConfig(config: ApplicationConfig): { valid: boolean; err
   }
 
   // AI validation
+  if (!AI_PROVIDERS.includes(config.ai.provider)) {
+    errors.push(`Invalid AI provider: ${config.ai.provider}`);
+  }
+
+  if (config.ai.baseUrl !== undefined && !URL.canParse(config.ai.baseUrl)) {
+    errors.push(`Invalid AI base URL: ${config.ai.baseUrl}`);
+  }
+
   if (config.ai.temperature < 0 || config.ai.temperature > 2) {
     errors.push(`Invalid AI temperature: ${config.ai.temperature}`);
   }
@@ -554,6 +764,29 @@ export function validateConfig(config: ApplicationConfig): { valid: boolean; err
     errors.push(`Invalid batch max concurrent: ${config.batch.maxConcurrent}`);
   }
 
+  // Job store validation
+  if (config.jobs.retentionMs < 0) {
+    errors.push(`Invalid job retention: ${config.jobs.retentionMs}`);
+  }
+
+  // Feed validation
+  if (config.feeds.pollInterval < TIME.MINUTE) {
+    errors.push(`Invalid feed poll interval: ${config.feeds.pollInterval}`);
+  }
+
+  if (config.feeds.maxEntriesPerPoll < 1) {
+    errors.push(`Invalid feed max entries per poll: ${config.feeds.maxEntriesPerPoll}`);
+  }
+
+  // Source fetching validation
+  if (config.fetching.minHostInterval < 0) {
+    errors.push(`Invalid minimum host interval: ${config.fetching.minHostInterval}`);
+  }
+
+  if (config.fetching.maxConcurrentPerHost < 1) {
+    errors.push(`Invalid max concurrent requests per host: ${config.fetching.maxConcurrentPerHost}`);
+  }
+
   return {
     valid: errors.length === 0,
     errors
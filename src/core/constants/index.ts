@@ -254,8 +254,10 @@ export const HTTP_STATUS = {
   UNAUTHORIZED: 401,
   FORBIDDEN: 403,
   NOT_FOUND: 404,
+  CONFLICT: 409,
   TOO_MANY_REQUESTS: 429,
   INTERNAL_SERVER_ERROR: 500,
+  BAD_GATEWAY: 502,
   SERVICE_UNAVAILABLE: 503,
 } as const;
 
@@ -266,7 +268,9 @@ export const URL_PATTERNS = {
   YOUTUBE: /^https?:\/\/(?:www\.)?(?:youtube\.com\/watch\?v=|youtu\.be\/|youtube\.com\/embed\/)([a-zA-Z0-9_-]{11})/,
   ARTICLE: /^https?:\/\/(?:www\.)?[a-zA-Z0-9-]+\.[a-zA-Z]{2,}\/(?:article|post|blog|news)\/.+/,
   PAPER: /^https?:\/\/(?:www\.)?(?:arxiv\.org|researchgate\.net|acm\.org|ieee\.org)\/.+/,
-  PODCAST: /^https?:\/\/(?:www\.)?(?:spotify\.com|apple\.com|soundcloud\.com)\/(?:podcast|episode)\/.+/,
+  PODCAST: /^https?:\/\/(?:[a-z0-9-]+\.)?(?:spotify\.com|apple\.com|soundcloud\.com)\/(?:[a-z]{2}\/)?(?:podcast|episode)\/.+/,
+  /** X posts, and Mastodon posts on any instance */
+  TWITTER: /^https?:\/\/(?:(?:www\.|mobile\.)?(?:twitter\.com|x\.com)\/(?:\w+|i\/web)\/status(?:es)?\/\d+|[a-z0-9.-]+\/(?:@[\w.-]+(?:@[\w.-]+)?|users\/[\w.-]+\/statuses)\/\d+\/?(?:[?#]|$))/i,
 } as const;
 
 /**
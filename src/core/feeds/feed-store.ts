@@ -0,0 +1,400 @@
+/**
+ * Feed subscription store using Bun's native SQLite
+ * Keeps the subscriptions and, per feed, the GUIDs already seen, so a
+ * restart never queues an entry twice
+ */
+
+import { Database } from "bun:sqlite";
+import { mkdirSync } from "fs";
+import { dirname } from "path";
+import { getConfig } from '../config/index.js';
+import type { AnalysisMode } from '../types/index.js';
+
+/** How a feed's entries are processed */
+export interface FeedOptions {
+  analysisMode?: AnalysisMode;
+  /** Tags every note from the feed carries (passed as `tagOverrides`) */
+  tags?: string[];
+  /** Vault folder for the feed's notes, relative to the feeds vault */
+  folder?: string;
+  includeTranscript?: boolean;
+}
+
+export interface FeedSubscription {
+  id: string;
+  url: string;
+  title?: string;
+  enabled: boolean;
+  options: FeedOptions;
+  /** Time between polls (milliseconds) */
+  pollInterval: number;
+  /** Entries already in the feed to process on the first poll; older ones are only marked seen */
+  backfill: number;
+  /** Validators from the last fetch, sent back for conditional requests */
+  etag?: string;
+  lastModified?: string;
+  /** Last successful poll */
+  lastPolledAt?: Date;
+  /** Why the last poll failed, and when (cleared by a successful poll) */
+  lastError?: string;
+  lastErrorAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/** Fields accepted when creating a subscription */
+export type NewFeedSubscription = Omit<FeedSubscription, 'createdAt' | 'updatedAt'>;
+
+/** Fields that can be changed after creation */
+export type FeedSubscriptionPatch = Partial<Omit<FeedSubscription, 'id' | 'createdAt' | 'updatedAt'>>;
+
+/** An entry a feed has already delivered */
+export interface SeenFeedEntry {
+  feedId: string;
+  guid: string;
+  url: string;
+  title?: string;
+  publishedAt?: Date;
+  /** Job that processed the entry; unset for entries skipped on the first poll */
+  jobId?: string;
+  seenAt: Date;
+}
+
+export interface FeedStoreConfig {
+  /** SQLite file path, or ':memory:' */
+  path: string;
+}
+
+/**
+ * Feed storage abstraction
+ */
+export interface FeedStore {
+  create(feed: NewFeedSubscription): Promise<FeedSubscription>;
+  get(id: string): Promise<FeedSubscription | null>;
+  getByUrl(url: string): Promise<FeedSubscription | null>;
+  update(id: string, patch: FeedSubscriptionPatch): Promise<FeedSubscription | null>;
+  /** Delete a subscription and its seen entries */
+  delete(id: string): Promise<boolean>;
+  list(query?: { enabled?: boolean }): Promise<FeedSubscription[]>;
+  /** The subset of `guids` already seen for a feed */
+  seenGuids(feedId: string, guids: string[]): Promise<Set<string>>;
+  markSeen(entries: Array<Omit<SeenFeedEntry, 'seenAt'>>): Promise<void>;
+  /** Seen entries, newest first */
+  listEntries(feedId: string, limit?: number): Promise<SeenFeedEntry[]>;
+  countEntries(feedId: string): Promise<number>;
+  close(): void;
+}
+
+interface FeedRow {
+  id: string;
+  url: string;
+  title: string | null;
+  enabled: number;
+  options: string;
+  poll_interval: number;
+  backfill: number;
+  etag: string | null;
+  last_modified: string | null;
+  last_polled_at: number | null;
+  last_error: string | null;
+  last_error_at: number | null;
+  created_at: number;
+  updated_at: number;
+}
+
+interface FeedEntryRow {
+  feed_id: string;
+  guid: string;
+  url: string;
+  title: string | null;
+  published_at: number | null;
+  job_id: string | null;
+  seen_at: number;
+}
+
+export class SqliteFeedStore implements FeedStore {
+  private db: Database;
+
+  constructor(config: Partial<FeedStoreConfig> = {}) {
+    const path = config.path ?? ":memory:";
+    if (path !== ":memory:") {
+      mkdirSync(dirname(path), { recursive: true });
+    }
+
+    this.db = new Database(path, { create: true });
+    this.setupDatabase();
+  }
+
+  private setupDatabase(): void {
+    this.db.run("PRAGMA journal_mode = WAL");
+    this.db.run("PRAGMA busy_timeout = 5000");
+
+    this.db.run(`
+      CREATE TABLE IF NOT EXISTS feeds (
+        id TEXT PRIMARY KEY,
+        url TEXT NOT NULL UNIQUE,
+        title TEXT,
+        enabled INTEGER NOT NULL DEFAULT 1,
+        options TEXT NOT NULL DEFAULT '{}',
+        poll_interval INTEGER NOT NULL,
+        backfill INTEGER NOT NULL DEFAULT 0,
+        etag TEXT,
+        last_modified TEXT,
+        last_polled_at INTEGER,
+        last_error TEXT,
+        last_error_at INTEGER,
+        created_at INTEGER NOT NULL,
+        updated_at INTEGER NOT NULL
+      )
+    `);
+
+    this.db.run(`
+      CREATE TABLE IF NOT EXISTS feed_entries (
+        feed_id TEXT NOT NULL,
+        guid TEXT NOT NULL,
+        url TEXT NOT NULL,
+        title TEXT,
+        published_at INTEGER,
+        job_id TEXT,
+        seen_at INTEGER NOT NULL,
+        PRIMARY KEY (feed_id, guid)
+      )
+    `);
+  }
+
+  private rowToFeed(row: FeedRow): FeedSubscription {
+    return {
+      id: row.id,
+      url: row.url,
+      title: row.title ?? undefined,
+      enabled: row.enabled === 1,
+      options: JSON.parse(row.options),
+      pollInterval: row.poll_interval,
+      backfill: row.backfill,
+      etag: row.etag ?? undefined,
+      lastModified: row.last_modified ?? undefined,
+      lastPolledAt: row.last_polled_at === null ? undefined : new Date(row.last_polled_at),
+      lastError: row.last_error ?? undefined,
+      lastErrorAt: row.last_error_at === null ? undefined : new Date(row.last_error_at),
+      createdAt: new Date(row.created_at),
+      updatedAt: new Date(row.updated_at),
+    };
+  }
+
+  private rowToEntry(row: FeedEntryRow): SeenFeedEntry {
+    return {
+      feedId: row.feed_id,
+      guid: row.guid,
+      url: row.url,
+      title: row.title ?? undefined,
+      publishedAt: row.published_at === null ? undefined : new Date(row.published_at),
+      jobId: row.job_id ?? undefined,
+      seenAt: new Date(row.seen_at),
+    };
+  }
+
+  /**
+   * Create a subscription
+   */
+  async create(feed: NewFeedSubscription): Promise<FeedSubscription> {
+    const now = Date.now();
+
+    this.db.query(`
+      INSERT INTO feeds (
+        id, url, title, enabled, options, poll_interval, backfill,
+        etag, last_modified, last_polled_at, last_error, last_error_at, created_at, updated_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      feed.id,
+      feed.url,
+      feed.title ?? null,
+      feed.enabled ? 1 : 0,
+      JSON.stringify(feed.options),
+      feed.pollInterval,
+      feed.backfill,
+      feed.etag ?? null,
+      feed.lastModified ?? null,
+      feed.lastPolledAt?.getTime() ?? null,
+      feed.lastError ?? null,
+      feed.lastErrorAt?.getTime() ?? null,
+      now,
+      now
+    );
+
+    return { ...feed, createdAt: new Date(now), updatedAt: new Date(now) };
+  }
+
+  /**
+   * Get a subscription by ID
+   */
+  async get(id: string): Promise<FeedSubscription | null> {
+    const row = this.db.query("SELECT * FROM feeds WHERE id = ?").get(id) as FeedRow | null;
+    return row ? this.rowToFeed(row) : null;
+  }
+
+  /**
+   * Get the subscription to a feed URL
+   */
+  async getByUrl(url: string): Promise<FeedSubscription | null> {
+    const row = this.db.query("SELECT * FROM feeds WHERE url = ?").get(url) as FeedRow | null;
+    return row ? this.rowToFeed(row) : null;
+  }
+
+  /**
+   * Apply a partial update; returns the updated subscription, or null if it does not exist
+   */
+  async update(id: string, patch: FeedSubscriptionPatch): Promise<FeedSubscription | null> {
+    const columns: Record<keyof FeedSubscriptionPatch, string> = {
+      url: "url",
+      title: "title",
+      enabled: "enabled",
+      options: "options",
+      pollInterval: "poll_interval",
+      backfill: "backfill",
+      etag: "etag",
+      lastModified: "last_modified",
+      lastPolledAt: "last_polled_at",
+      lastError: "last_error",
+      lastErrorAt: "last_error_at",
+    };
+
+    const sets: string[] = ["updated_at = ?"];
+    const params: Array<string | number | null> = [Date.now()];
+
+    for (const [field, value] of Object.entries(patch) as Array<[keyof FeedSubscriptionPatch, unknown]>) {
+      const column = columns[field];
+      if (!column) continue;
+
+      sets.push(`${column} = ?`);
+      if (value === undefined || value === null) {
+        params.push(null);
+      } else if (field === "options") {
+        params.push(JSON.stringify(value));
+      } else if (value instanceof Date) {
+        params.push(value.getTime());
+      } else if (typeof value === "boolean") {
+        params.push(value ? 1 : 0);
+      } else {
+        params.push(value as string | number);
+      }
+    }
+
+    params.push(id);
+    const result = this.db.query(`UPDATE feeds SET ${sets.join(", ")} WHERE id = ?`).run(...params);
+
+    return result.changes > 0 ? this.get(id) : null;
+  }
+
+  /**
+   * Delete a subscription and its seen entries
+   */
+  async delete(id: string): Promise<boolean> {
+    this.db.query("DELETE FROM feed_entries WHERE feed_id = ?").run(id);
+    const result = this.db.query("DELETE FROM feeds WHERE id = ?").run(id);
+    return result.changes > 0;
+  }
+
+  /**
+   * List subscriptions, oldest first
+   */
+  async list(query: { enabled?: boolean } = {}): Promise<FeedSubscription[]> {
+    const rows = query.enabled === undefined
+      ? this.db.query("SELECT * FROM feeds ORDER BY created_at, rowid").all() as FeedRow[]
+      : this.db.query("SELECT * FROM feeds WHERE enabled = ? ORDER BY created_at, rowid").all(query.enabled ? 1 : 0) as FeedRow[];
+
+    return rows.map(row => this.rowToFeed(row));
+  }
+
+  /**
+   * The subset of `guids` already seen for a feed
+   */
+  async seenGuids(feedId: string, guids: string[]): Promise<Set<string>> {
+    if (guids.length === 0) {
+      return new Set();
+    }
+    const rows = this.db
+      .query(`SELECT guid FROM feed_entries WHERE feed_id = ? AND guid IN (${guids.map(() => "?").join(", ")})`)
+      .all(feedId, ...guids) as Array<{ guid: string }>;
+
+    return new Set(rows.map(row => row.guid));
+  }
+
+  /**
+   * Record entries as seen (already seen entries are left as they are)
+   */
+  async markSeen(entries: Array<Omit<SeenFeedEntry, 'seenAt'>>): Promise<void> {
+    const now = Date.now();
+    const insert = this.db.query(`
+      INSERT OR IGNORE INTO feed_entries (feed_id, guid, url, title, published_at, job_id, seen_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+    `);
+
+    this.db.transaction(() => {
+      for (const entry of entries) {
+        insert.run(
+          entry.feedId,
+          entry.guid,
+          entry.url,
+          entry.title ?? null,
+          entry.publishedAt?.getTime() ?? null,
+          entry.jobId ?? null,
+          now
+        );
+      }
+    })();
+  }
+
+  /**
+   * Seen entries, newest first
+   */
+  async listEntries(feedId: string, limit = -1): Promise<SeenFeedEntry[]> {
+    const rows = this.db
+      .query("SELECT * FROM feed_entries WHERE feed_id = ? ORDER BY seen_at DESC, rowid DESC LIMIT ?")
+      .all(feedId, limit) as FeedEntryRow[];
+
+    return rows.map(row => this.rowToEntry(row));
+  }
+
+  /**
+   * Count the entries seen for a feed
+   */
+  async countEntries(feedId: string): Promise<number> {
+    const row = this.db.query("SELECT COUNT(*) as count FROM feed_entries WHERE feed_id = ?").get(feedId) as { count: number };
+    return row.count;
+  }
+
+  /**
+   * Close the store
+   */
+  close(): void {
+    this.db.close();
+  }
+}
+
+// ============================================================================
+// SHARED INSTANCE
+// ============================================================================
+
+let sharedStore: FeedStore | null = null;
+
+/**
+ * Get the shared feed store, creating it from application config on first use
+ */
+export function getFeedStore(): FeedStore {
+  if (!sharedStore) {
+    sharedStore = new SqliteFeedStore({ path: getConfig().feeds.storePath });
+  }
+  return sharedStore;
+}
+
+/**
+ * Replace the shared feed store (tests, alternative backends)
+ */
+export function setFeedStore(store: FeedStore | null): void {
+  sharedStore = store;
+}
+
+/** Generate unique feed subscription ID */
+export function generateFeedId(): string {
+  return `feed_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
+}
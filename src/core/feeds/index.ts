@@ -0,0 +1,32 @@
+/**
+ * Feed Subscriptions
+ * RSS/Atom subscriptions whose new entries are turned into gems
+ * automatically: a store for subscriptions and seen GUIDs, a feed parser
+ * and a scheduled poller
+ *
+ * Version: 1.0.0
+ */
+
+export { parseFeed, type FeedEntry, type ParsedFeed } from './parser.js';
+export {
+  SqliteFeedStore,
+  getFeedStore,
+  setFeedStore,
+  generateFeedId,
+  type FeedStore,
+  type FeedStoreConfig,
+  type FeedOptions,
+  type FeedSubscription,
+  type NewFeedSubscription,
+  type FeedSubscriptionPatch,
+  type SeenFeedEntry
+} from './feed-store.js';
+export {
+  FeedPoller,
+  getFeedPoller,
+  setFeedPoller,
+  validateFeedUrl,
+  nextPollAt,
+  type FeedPollerConfig,
+  type FeedPollResult
+} from './poller.js';
@@ -0,0 +1,110 @@
+/**
+ * Feed Parser
+ * Reads RSS 2.0, RSS 1.0 (RDF) and Atom documents, including YouTube
+ * channel feeds, into a flat list of entries keyed by GUID
+ */
+
+import * as cheerio from 'cheerio';
+
+/** One item of a feed */
+export interface FeedEntry {
+  /** Stable identity: the item's guid/id, or its link when it has none */
+  guid: string;
+  url: string;
+  title?: string;
+  publishedAt?: Date;
+}
+
+export interface ParsedFeed {
+  format: 'rss' | 'rdf' | 'atom';
+  title?: string;
+  /** Entries in document order (usually newest first) */
+  entries: FeedEntry[];
+}
+
+/** A selection of XML elements */
+type Node = ReturnType<ReturnType<cheerio.CheerioAPI['root']>['children']>;
+
+/** Child elements by tag name (namespace prefix included, as in `dc:date`) */
+function children(node: Node, name: string): Node {
+  return node.children(name.replace(':', '\\:'));
+}
+
+function childText(node: Node, ...names: string[]): string | undefined {
+  for (const name of names) {
+    const text = children(node, name).first().text().trim();
+    if (text) {
+      return text;
+    }
+  }
+  return undefined;
+}
+
+function parseDate(value: string | undefined): Date | undefined {
+  if (!value) {
+    return undefined;
+  }
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? undefined : date;
+}
+
+/** The entry's page: the `alternate` link, or the first link without a `rel` */
+function atomLink(entry: Node): string | undefined {
+  const links = children(entry, 'link');
+  const link = links.filter('[rel="alternate"]').first().attr('href') ?? links.not('[rel]').first().attr('href');
+  return link?.trim() || undefined;
+}
+
+/**
+ * Parse a feed document; returns null if it is not RSS or Atom
+ */
+export function parseFeed(xml: string): ParsedFeed | null {
+  const $ = cheerio.load(xml, { xml: true });
+  const root = $.root().children().first();
+  // tagName is upper-cased even for XML; name keeps the case and the namespace prefix
+  const rootName = root.prop('name');
+
+  if (rootName === 'feed') {
+    const entries = root.children('entry').toArray().flatMap((element): FeedEntry[] => {
+      const entry = $(element);
+      const url = atomLink(entry);
+      if (!url) {
+        return [];
+      }
+      return [{
+        guid: childText(entry, 'id') ?? url,
+        url,
+        title: childText(entry, 'title'),
+        publishedAt: parseDate(childText(entry, 'published', 'updated'))
+      }];
+    });
+    return { format: 'atom', title: childText(root, 'title'), entries };
+  }
+
+  if (rootName === 'rss' || rootName === 'rdf:RDF') {
+    const channel = root.children('channel').first();
+    // RSS 2.0 nests items in the channel; RSS 1.0 puts them beside it
+    const items = rootName === 'rss' ? channel.children('item') : root.children('item');
+    const entries = items.toArray().flatMap((element): FeedEntry[] => {
+      const item = $(element);
+      const about = item.attr('rdf:about');
+      const url = childText(item, 'link') ?? about;
+      if (!url) {
+        return [];
+      }
+      return [{
+        guid: childText(item, 'guid') ?? about ?? url,
+        url: url.trim(),
+        title: childText(item, 'title'),
+        publishedAt: parseDate(childText(item, 'pubDate', 'dc:date'))
+      }];
+    });
+    return {
+      format: rootName === 'rss' ? 'rss' : 'rdf',
+      title: channel.length > 0 ? childText(channel, 'title') : undefined,
+      entries
+    };
+  }
+
+  return null;
+}
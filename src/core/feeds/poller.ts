@@ -0,0 +1,503 @@
+/**
+ * Feed Poller
+ * Fetches subscribed RSS/Atom feeds on a schedule and queues every entry it
+ * has not seen before as a `feed_item` job, processed one at a time through
+ * the DataProcessor with the feed's options
+ */
+
+import { promises as fs } from 'fs';
+import { fileURLToPath } from 'url';
+import { DataProcessor } from '../processor.js';
+import { createLogger } from '../logging/index.js';
+import { getConfig, type FeedsConfiguration } from '../config/index.js';
+import { ContentError, NetworkError, ValidationError, getErrorMessage, isObsidianizeError } from '../errors/index.js';
+import { USER_AGENT } from '../constants/index.js';
+import { LocalNetworkPolicy, ssrfProtection } from '../validators/ssrf-protection.js';
+import { SafeFetcher, getSafeFetcher, safeFetch, type Fetcher, type SafeFetchInit } from '../network/index.js';
+import { VaultWriter } from '../storage/vault-writer.js';
+import { getJobStore, generateJobId } from '../jobs/job-store.js';
+import { releaseJob, trackJob } from '../jobs/cancellation.js';
+import {
+  AnalysisMode,
+  ContentType,
+  ErrorCategory,
+  OutputFormat,
+  ProcessingStatus,
+  type ProcessingRequest
+} from '../types/index.js';
+import { parseFeed, type FeedEntry } from './parser.js';
+import { getFeedStore, type FeedOptions, type FeedSubscription } from './feed-store.js';
+
+const logger = createLogger('feed-poller');
+
+/** Feeds larger than this are refused */
+const MAX_FEED_BYTES = 5 * 1024 * 1024;
+
+export type FeedPollerConfig = Omit<FeedsConfiguration, 'enabled' | 'storePath'> & {
+  /** AI API key entries are processed with (the server's configured key) */
+  apiKey?: string;
+};
+
+export interface FeedPollResult {
+  feedId: string;
+  /** `not_modified` when the server answered a conditional request with 304 */
+  status: 'updated' | 'not_modified';
+  /** Entries in the feed document */
+  entries: number;
+  /** Jobs queued for new entries, oldest entry first */
+  jobIds: string[];
+  /** New entries over `maxEntriesPerPoll`, left for the next poll */
+  deferred: number;
+  /** Entries already in the feed on its first poll, marked seen without processing */
+  skipped: number;
+}
+
+/**
+ * Check a feed URL before subscribing. Returns why it is refused, or
+ * undefined. Feeds go through the SSRF policy unless local feeds (private
+ * hosts and file: URLs) are allowed.
+ */
+export function validateFeedUrl(url: string, allowLocal = false): string | undefined {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return 'Invalid feed URL';
+  }
+
+  if (allowLocal) {
+    return ['http:', 'https:', 'file:'].includes(parsed.protocol)
+      ? undefined
+      : `Unsupported protocol: ${parsed.protocol}`;
+  }
+  const result = ssrfProtection.validateURL(url);
+  return result.safe ? undefined : result.error ?? 'URL blocked by security policy';
+}
+
+/** When a feed is next due: its interval after the last attempt, or now if never polled */
+export function nextPollAt(feed: FeedSubscription): Date {
+  const lastAttempt = Math.max(feed.lastPolledAt?.getTime() ?? 0, feed.lastErrorAt?.getTime() ?? 0);
+  return new Date(lastAttempt === 0 ? feed.createdAt.getTime() : lastAttempt + feed.pollInterval);
+}
+
+/** Oldest entries first; the document lists newest first, so undated entries are reversed */
+function oldestFirst(entries: FeedEntry[]): FeedEntry[] {
+  return [...entries]
+    .reverse()
+    .sort((a, b) => (a.publishedAt?.getTime() ?? 0) - (b.publishedAt?.getTime() ?? 0));
+}
+
+function tooLarge(url: string): ContentError {
+  return new ContentError({
+    message: `Feed is larger than ${MAX_FEED_BYTES} bytes`,
+    code: 'FEED_TOO_LARGE',
+    category: ErrorCategory.PROCESSING,
+    contentUrl: url
+  });
+}
+
+/** Read a `file:` feed (local feeds only), refusing files over the feed size cap */
+async function readFeedFile(input: string | URL): Promise<Response> {
+  const path = fileURLToPath(input);
+  if ((await fs.stat(path)).size > MAX_FEED_BYTES) {
+    throw tooLarge(String(input));
+  }
+  return new Response(await fs.readFile(path));
+}
+
+export class FeedPoller {
+  private readonly config: FeedPollerConfig;
+  /** Injected fetch used for every feed, in place of the safe fetchers */
+  private readonly fetcher?: Fetcher;
+  /** Fetcher for feeds on private hosts, when local feeds are allowed */
+  private readonly localFetcher?: SafeFetcher;
+  /** Entry processing runs one job at a time, in queue order */
+  private queue: Promise<void> = Promise.resolve();
+  private readonly polling = new Set<string>();
+  private timer?: ReturnType<typeof setInterval>;
+
+  constructor(config: Partial<FeedPollerConfig> = {}, dependencies: { fetch?: Fetcher } = {}) {
+    const { enabled: _enabled, storePath: _storePath, ...defaults } = getConfig().feeds;
+    // Unset options fall back to the application config rather than clobbering it
+    const defined = Object.fromEntries(Object.entries(config).filter(([, value]) => value !== undefined));
+    this.config = { ...defaults, ...defined };
+    this.fetcher = dependencies.fetch;
+    // Feeds on private hosts keep redirect vetting and the body cap, with a policy that admits
+    // the operator's own network; robots.txt is not consulted there
+    if (this.config.allowLocalFeeds && !this.fetcher) {
+      this.localFetcher = new SafeFetcher({ respectRobots: false }, { ssrf: new LocalNetworkPolicy() });
+    }
+  }
+
+  /** Whether entries can be processed without a key from the caller */
+  get hasApiKey(): boolean {
+    return Boolean(this.config.apiKey);
+  }
+
+  /** Whether the scheduler is polling due feeds */
+  get running(): boolean {
+    return this.timer !== undefined;
+  }
+
+  /**
+   * Poll due feeds now and then every `schedulerInterval`
+   */
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+    const tick = () => {
+      this.pollDue().catch(error => logger.error('Feed scheduler error', error));
+    };
+    this.timer = setInterval(tick, this.config.schedulerInterval);
+    this.timer.unref?.();
+    this.resumeQueued()
+      .then(count => {
+        if (count > 0) {
+          logger.info(`Re-queued ${count} interrupted feed entries`);
+        }
+      })
+      .catch(error => logger.error('Failed to re-queue feed entries', error));
+    tick();
+    logger.info('Feed scheduler started', { interval: this.config.schedulerInterval });
+  }
+
+  /** Stop scheduling polls; queued entries still finish */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  /** Resolves once every queued entry has been processed */
+  whenIdle(): Promise<void> {
+    return this.queue;
+  }
+
+  /**
+   * Queue again the entries a restart left pending or processing, oldest
+   * first, with the poller's key. Without a key they are marked failed, since
+   * the key they were queued with is gone.
+   */
+  async resumeQueued(): Promise<number> {
+    const store = getJobStore();
+    const jobs = await store.list({
+      kind: 'feed_item',
+      status: [ProcessingStatus.PENDING, ProcessingStatus.PROCESSING],
+      order: 'asc'
+    });
+
+    for (const job of jobs) {
+      if (!this.config.apiKey) {
+        await store.update(job.id, {
+          status: ProcessingStatus.FAILED,
+          error: 'Interrupted by a server restart',
+          message: 'Processing failed'
+        });
+        continue;
+      }
+      await store.update(job.id, { status: ProcessingStatus.PENDING, progress: 0, message: 'Queued' });
+      this.enqueue(job.id, this.config.apiKey);
+    }
+    return jobs.length;
+  }
+
+  /**
+   * Poll every enabled feed that is due. A feed that fails is recorded on
+   * the subscription (`lastError`) and does not stop the others.
+   */
+  async pollDue(now = new Date()): Promise<FeedPollResult[]> {
+    const due = (await getFeedStore().list({ enabled: true }))
+      .filter(feed => nextPollAt(feed) <= now && !this.polling.has(feed.id));
+
+    const results: FeedPollResult[] = [];
+    for (const feed of due) {
+      try {
+        results.push(await this.poll(feed));
+      } catch (error) {
+        logger.warn(`Feed poll failed: ${feed.id}`, { url: feed.url, error: getErrorMessage(error) });
+      }
+    }
+    return results;
+  }
+
+  /**
+   * Fetch a feed and queue its new entries. On a feed's first poll only the
+   * newest `backfill` entries are queued; the rest are marked seen.
+   *
+   * @throws ValidationError without an API key or while the feed is being polled
+   * @throws NetworkError / ContentError when the feed cannot be fetched or parsed
+   */
+  async poll(feed: FeedSubscription, options: { apiKey?: string } = {}): Promise<FeedPollResult> {
+    const apiKey = options.apiKey ?? this.config.apiKey;
+    if (!apiKey) {
+      throw new ValidationError({
+        message: 'An AI API key is required to process feed entries',
+        code: 'INVALID_API_KEY',
+        category: ErrorCategory.VALIDATION,
+        field: 'apiKey',
+        suggestion: 'Configure AI_API_KEY on the server or pass apiKey'
+      });
+    }
+    if (this.polling.has(feed.id)) {
+      throw new ValidationError({
+        message: 'Feed is already being polled',
+        code: 'FEED_POLL_IN_PROGRESS',
+        category: ErrorCategory.VALIDATION
+      });
+    }
+
+    const store = getFeedStore();
+    this.polling.add(feed.id);
+    try {
+      const response = await this.fetchFeed(feed);
+      if (response.status === 304) {
+        await store.update(feed.id, { lastPolledAt: new Date(), lastError: undefined, lastErrorAt: undefined });
+        return { feedId: feed.id, status: 'not_modified', entries: 0, jobIds: [], deferred: 0, skipped: 0 };
+      }
+
+      const text = await response.text().catch(error => {
+        throw isObsidianizeError(error) && error.code === 'RESPONSE_TOO_LARGE' ? tooLarge(feed.url) : error;
+      });
+      if (text.length > MAX_FEED_BYTES) {
+        throw tooLarge(feed.url);
+      }
+      const parsed = parseFeed(text);
+      if (!parsed) {
+        throw new ContentError({
+          message: 'Response is not an RSS or Atom feed',
+          code: 'FEED_INVALID',
+          category: ErrorCategory.PROCESSING,
+          contentUrl: feed.url,
+          recoverable: false
+        });
+      }
+
+      // A feed may repeat an entry; keep its first occurrence
+      const guids = new Set<string>();
+      const unique = parsed.entries.filter(entry => !guids.has(entry.guid) && guids.add(entry.guid));
+      const seen = await store.seenGuids(feed.id, unique.map(entry => entry.guid));
+      let fresh = oldestFirst(unique.filter(entry => !seen.has(entry.guid)));
+
+      let skipped: FeedEntry[] = [];
+      if (!feed.lastPolledAt) {
+        skipped = fresh.slice(0, Math.max(0, fresh.length - feed.backfill));
+        fresh = fresh.slice(skipped.length);
+      }
+      const queued = fresh.slice(0, this.config.maxEntriesPerPoll);
+      const deferred = fresh.length - queued.length;
+
+      await store.markSeen(skipped.map(entry => ({ feedId: feed.id, ...entry })));
+      const jobIds: string[] = [];
+      for (const entry of queued) {
+        jobIds.push(await this.queueEntry(feed, entry, apiKey));
+      }
+
+      await store.update(feed.id, {
+        title: feed.title ?? parsed.title,
+        // Deferred entries are still unseen; fetch the full feed next time so they are found
+        etag: deferred > 0 ? undefined : response.headers.get('etag') ?? undefined,
+        lastModified: deferred > 0 ? undefined : response.headers.get('last-modified') ?? undefined,
+        lastPolledAt: new Date(),
+        lastError: undefined,
+        lastErrorAt: undefined
+      });
+
+      logger.info(`Polled feed: ${feed.id}`, { entries: parsed.entries.length, queued: jobIds.length, deferred, skipped: skipped.length });
+      return { feedId: feed.id, status: 'updated', entries: parsed.entries.length, jobIds, deferred, skipped: skipped.length };
+    } catch (error) {
+      await store.update(feed.id, { lastError: getErrorMessage(error), lastErrorAt: new Date() });
+      throw error;
+    } finally {
+      this.polling.delete(feed.id);
+    }
+  }
+
+  /**
+   * How to fetch a feed URL: `file:` URLs are read from disk and private
+   * hosts use the local fetcher (both only when local feeds are allowed);
+   * everything else goes through the shared safe fetcher
+   */
+  private async fetcherFor(url: string): Promise<Fetcher> {
+    if (this.fetcher) {
+      return this.fetcher;
+    }
+    if (!this.localFetcher) {
+      return safeFetch;
+    }
+    if (new URL(url).protocol === 'file:') {
+      return readFeedFile;
+    }
+
+    try {
+      await getSafeFetcher().resolve(new URL(url));
+      return safeFetch;
+    } catch (error) {
+      // Blocked by the public policy: a private host. Other failures surface from the fetch itself
+      const local = isObsidianizeError(error) && error.code === 'URL_BLOCKED';
+      return local ? (input, init) => this.localFetcher!.fetch(input, init) : safeFetch;
+    }
+  }
+
+  /** Fetch a feed, conditionally when the last fetch left validators */
+  private async fetchFeed(feed: FeedSubscription): Promise<Response> {
+    const headers: Record<string, string> = {
+      'User-Agent': USER_AGENT.DEFAULT,
+      'Accept': 'application/rss+xml, application/atom+xml, application/xml;q=0.9, text/xml;q=0.8, */*;q=0.5'
+    };
+    if (feed.etag) {
+      headers['If-None-Match'] = feed.etag;
+    }
+    if (feed.lastModified) {
+      headers['If-Modified-Since'] = feed.lastModified;
+    }
+
+    let response: Response;
+    try {
+      const init: SafeFetchInit = { headers, signal: AbortSignal.timeout(this.config.fetchTimeout), maxBytes: MAX_FEED_BYTES };
+      response = await (await this.fetcherFor(feed.url))(feed.url, init);
+    } catch (error) {
+      if (isObsidianizeError(error) && ['RESPONSE_TOO_LARGE', 'FEED_TOO_LARGE'].includes(error.code)) {
+        throw tooLarge(feed.url);
+      }
+      throw new NetworkError({
+        message: `Failed to fetch feed: ${getErrorMessage(error)}`,
+        code: 'FEED_FETCH_FAILED',
+        category: ErrorCategory.NETWORK,
+        url: feed.url,
+        cause: error instanceof Error ? error : undefined
+      });
+    }
+
+    if (!response.ok && response.status !== 304) {
+      throw new NetworkError({
+        message: `Failed to fetch feed: HTTP ${response.status}`,
+        code: 'FEED_FETCH_FAILED',
+        category: ErrorCategory.NETWORK,
+        url: feed.url,
+        statusCode: response.status,
+        recoverable: response.status >= 500 || response.status === 429
+      });
+    }
+    return response;
+  }
+
+  /** Record an entry as seen with a pending job, and queue the job */
+  private async queueEntry(feed: FeedSubscription, entry: FeedEntry, apiKey: string): Promise<string> {
+    const jobId = generateJobId();
+    await getJobStore().create({
+      id: jobId,
+      kind: 'feed_item',
+      status: ProcessingStatus.PENDING,
+      progress: 0,
+      message: 'Queued',
+      url: entry.url,
+      // The options are copied so later edits to the subscription do not change queued work
+      metadata: { feedId: feed.id, guid: entry.guid, title: entry.title, options: feed.options }
+    });
+    await getFeedStore().markSeen([{ feedId: feed.id, ...entry, jobId }]);
+
+    this.enqueue(jobId, apiKey);
+    return jobId;
+  }
+
+  /** Add a job to the processing queue; a failure never stops the jobs behind it */
+  private enqueue(jobId: string, apiKey: string): void {
+    this.queue = this.queue
+      .then(() => this.processEntry(jobId, apiKey))
+      .catch(error => logger.error(`Feed entry processing failed: ${jobId}`, error));
+  }
+
+  /** Process one queued entry and, with a vault configured, save its note */
+  private async processEntry(jobId: string, apiKey: string): Promise<void> {
+    const store = getJobStore();
+    const job = await store.get(jobId);
+    if (!job || job.status === ProcessingStatus.CANCELLED) {
+      return;
+    }
+    const options = (job.metadata?.options ?? {}) as FeedOptions;
+
+    const signal = trackJob(jobId);
+    try {
+      await store.update(jobId, { status: ProcessingStatus.PROCESSING, message: 'Processing...' });
+
+      const request: ProcessingRequest = {
+        input: job.url!,
+        options: {
+          analysisMode: options.analysisMode ?? AnalysisMode.STANDARD,
+          includeTimestamps: true,
+          includeTranscript: options.includeTranscript !== false,
+          outputFormat: OutputFormat.MARKDOWN,
+          tagOverrides: options.tags,
+          extractEntities: true,
+          timeoutMs: 120000,
+          language: 'en'
+        },
+        auth: { apiKey, encrypted: false, source: 'environment' }
+      };
+
+      const result = await new DataProcessor().processRequest(request, {
+        onProgress: async (event) => {
+          await store.update(jobId, { progress: event.progress, message: event.message });
+        },
+        signal
+      });
+
+      if (signal.aborted) {
+        await store.update(jobId, { result, status: ProcessingStatus.CANCELLED, message: 'Processing cancelled' });
+        return;
+      }
+
+      let notePath: string | undefined;
+      if (result.success && result.data && this.config.vaultPath) {
+        const folders = options.folder
+          ? Object.fromEntries(Object.values(ContentType).map(type => [type, options.folder!]))
+          : undefined;
+        notePath = (await new VaultWriter({ root: this.config.vaultPath, folders }).write(result.data)).relativePath;
+      }
+
+      await store.update(jobId, {
+        result,
+        status: result.success ? ProcessingStatus.COMPLETED : ProcessingStatus.FAILED,
+        progress: 100,
+        message: result.success ? 'Processing completed' : 'Processing failed',
+        error: result.error?.message,
+        metadata: notePath ? { ...job.metadata, notePath } : job.metadata
+      });
+    } catch (error) {
+      logger.error(`Feed entry processing failed: ${jobId}`, error);
+      await store.update(jobId, {
+        status: ProcessingStatus.FAILED,
+        error: getErrorMessage(error),
+        message: 'Processing failed'
+      });
+    } finally {
+      releaseJob(jobId);
+    }
+  }
+}
+
+// ============================================================================
+// SHARED INSTANCE
+// ============================================================================
+
+let sharedPoller: FeedPoller | null = null;
+
+/**
+ * Get the shared feed poller, using the server's configured AI key
+ */
+export function getFeedPoller(): FeedPoller {
+  if (!sharedPoller) {
+    sharedPoller = new FeedPoller({ apiKey: getConfig().ai.apiKey || undefined });
+  }
+  return sharedPoller;
+}
+
+/**
+ * Replace the shared feed poller (tests)
+ */
+export function setFeedPoller(poller: FeedPoller | null): void {
+  sharedPoller?.stop();
+  sharedPoller = poller;
+}
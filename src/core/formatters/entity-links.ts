@@ -0,0 +1,147 @@
+/**
+ * Entity Linking
+ * Turns the first mention of each extracted entity into an Obsidian [[wikilink]]
+ * so gems connect to each other in the graph view
+ *
+ * Version: 1.0.0
+ */
+
+import { EntityType, type ContentSection, type ExtractedEntity, type GeminiGem } from '../types/index.js';
+
+/** Entity types that get their own note */
+export const LINKABLE_ENTITY_TYPES: readonly EntityType[] = [
+  EntityType.PERSON,
+  EntityType.ORGANIZATION,
+  EntityType.CONCEPT,
+  EntityType.TECHNOLOGY
+];
+
+/** Entity linking options */
+export interface EntityLinkOptions {
+  /** Entity types to link (default LINKABLE_ENTITY_TYPES) */
+  types?: readonly EntityType[];
+
+  /** Skip entities below this confidence (default 0.5) */
+  minConfidence?: number;
+}
+
+/** Result of an entity-linking pass */
+export interface EntityLinkResult {
+  /** Copy of the gem with wikilinks in its summary, key points and sections */
+  gem: GeminiGem;
+
+  /** Entities that were linked, in order of first mention */
+  linked: ExtractedEntity[];
+}
+
+/** Spans that must not be rewritten: existing wikilinks, Markdown links, inline code and bare URLs */
+const PROTECTED_SPAN = /\[\[[^\]]*\]\]|\[[^\]]*\]\([^)]*\)|`[^`]*`|https?:\/\/\S+/g;
+
+/** Characters Obsidian does not allow in note names or link targets */
+const INVALID_NOTE_CHARS = /[[\]#^|\\/:*?"<>]/g;
+
+/**
+ * Note name for an entity, stripped of characters Obsidian rejects
+ */
+export function entityNoteName(text: string): string {
+  return text.replace(INVALID_NOTE_CHARS, ' ').replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Link the first mention of each linkable entity across the summary, key
+ * points and sections (in that order). Longer names are linked first so
+ * "Geoffrey Hinton" wins over a separate "Hinton" entity.
+ */
+export function linkEntities(gem: GeminiGem, options: EntityLinkOptions = {}): EntityLinkResult {
+  const types = options.types ?? LINKABLE_ENTITY_TYPES;
+  const minConfidence = options.minConfidence ?? 0.5;
+
+  // One candidate per note name, keeping the most confident extraction
+  const candidates = new Map<string, ExtractedEntity>();
+  for (const entity of gem.frontmatter.entities) {
+    const name = entityNoteName(entity.text);
+    if (!types.includes(entity.type) || entity.confidence < minConfidence || name.length < 2) {
+      continue;
+    }
+    const existing = candidates.get(name.toLowerCase());
+    if (!existing || entity.confidence > existing.confidence) {
+      candidates.set(name.toLowerCase(), entity);
+    }
+  }
+
+  const segments = [
+    gem.content.summary,
+    ...gem.content.keyPoints,
+    ...flattenSections(gem.content.sections)
+  ];
+
+  const linked: ExtractedEntity[] = [];
+  const byLength = [...candidates.values()].sort((a, b) => b.text.length - a.text.length);
+
+  for (const entity of byLength) {
+    const name = entityNoteName(entity.text);
+    for (let i = 0; i < segments.length; i++) {
+      const replaced = linkFirstMention(segments[i], entity.text.trim(), name);
+      if (replaced !== null) {
+        segments[i] = replaced;
+        linked.push(entity);
+        break;
+      }
+    }
+  }
+
+  // Report entities in reading order rather than by length
+  const document = segments.join('\n');
+  linked.sort((a, b) =>
+    document.indexOf(`[[${entityNoteName(a.text)}`) - document.indexOf(`[[${entityNoteName(b.text)}`)
+  );
+
+  let next = 0;
+  const take = (): string => segments[next++];
+  const summary = take();
+  const keyPoints = gem.content.keyPoints.map(() => take());
+  const sections = rebuildSections(gem.content.sections, take);
+
+  return {
+    gem: {
+      ...gem,
+      content: { ...gem.content, summary, keyPoints, sections }
+    },
+    linked
+  };
+}
+
+/** Replace the first unprotected, whole-word mention of `text`; null when there is none */
+function linkFirstMention(segment: string, text: string, name: string): string | null {
+  const protectedSpans = [...segment.matchAll(PROTECTED_SPAN)]
+    .map(match => [match.index!, match.index! + match[0].length] as const);
+
+  const escaped = text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  const mention = new RegExp(`(?<![\\p{L}\\p{N}_])${escaped}(?![\\p{L}\\p{N}_])`, 'giu');
+
+  for (const match of segment.matchAll(mention)) {
+    const start = match.index!;
+    const end = start + match[0].length;
+    if (protectedSpans.some(([from, to]) => start < to && end > from)) {
+      continue;
+    }
+
+    const link = match[0] === name ? `[[${name}]]` : `[[${name}|${match[0]}]]`;
+    return segment.slice(0, start) + link + segment.slice(end);
+  }
+
+  return null;
+}
+
+function flattenSections(sections: ContentSection[]): string[] {
+  return sections.flatMap(section => [section.content, ...flattenSections(section.subsections ?? [])]);
+}
+
+function rebuildSections(sections: ContentSection[], take: () => string): ContentSection[] {
+  return sections.map(section => {
+    const content = take();
+    return section.subsections
+      ? { ...section, content, subsections: rebuildSections(section.subsections, take) }
+      : { ...section, content };
+  });
+}
@@ -0,0 +1,98 @@
+/**
+ * Export Format Converters
+ * Renders a Gemini Gem as Markdown, JSON or YAML for downloads and CLI output
+ *
+ * Version: 1.0.0
+ */
+
+import YAML from 'yaml';
+import type { GeminiGem } from '../types/index.js';
+import { MarkdownFormatter } from './index.js';
+
+/** Supported export formats */
+export type ExportFormat = 'markdown' | 'json' | 'yaml';
+
+/** All supported export formats */
+export const EXPORT_FORMATS: readonly ExportFormat[] = ['markdown', 'json', 'yaml'];
+
+/** Export options */
+export interface ExportOptions {
+  format: ExportFormat;
+  includeMetadata?: boolean;
+  prettify?: boolean;
+}
+
+/** Check whether a value is a known export format */
+export function isExportFormat(value: unknown): value is ExportFormat {
+  return typeof value === 'string' && (EXPORT_FORMATS as readonly string[]).includes(value);
+}
+
+/**
+ * Convert GeminiGem to JSON format
+ */
+export function convertToJson(gem: GeminiGem, options: ExportOptions): string {
+  const data: Record<string, unknown> = {
+    frontmatter: {
+      ...gem.frontmatter,
+      processed: gem.frontmatter.processed.toISOString()
+    },
+    content: gem.content
+  };
+
+  if (options.includeMetadata !== false) {
+    data.exportedAt = new Date().toISOString();
+    data.format = 'json';
+    data.version = '1.0.0';
+  }
+
+  return options.prettify !== false ? JSON.stringify(data, null, 2) : JSON.stringify(data);
+}
+
+/**
+ * Convert GeminiGem to YAML format
+ */
+export function convertToYaml(gem: GeminiGem, options: ExportOptions): string {
+  const data: Record<string, unknown> = {
+    frontmatter: {
+      ...gem.frontmatter,
+      processed: gem.frontmatter.processed.toISOString()
+    },
+    content: gem.content
+  };
+
+  if (options.includeMetadata !== false) {
+    data.exportedAt = new Date().toISOString();
+    data.format = 'yaml';
+    data.version = '1.0.0';
+  }
+
+  return YAML.stringify(data);
+}
+
+/**
+ * Get content type and filename extension for format
+ */
+export function getFormatInfo(format: string): { contentType: string; extension: string } {
+  switch (format) {
+    case 'json':
+      return { contentType: 'application/json; charset=utf-8', extension: '.json' };
+    case 'yaml':
+      return { contentType: 'text/yaml; charset=utf-8', extension: '.yaml' };
+    default:
+      return { contentType: 'text/markdown; charset=utf-8', extension: '.md' };
+  }
+}
+
+/**
+ * Render a gem in the requested export format
+ */
+export async function renderGem(gem: GeminiGem, options: ExportOptions): Promise<string> {
+  switch (options.format) {
+    case 'json':
+      return convertToJson(gem, options);
+    case 'yaml':
+      return convertToYaml(gem, options);
+    default:
+      return new MarkdownFormatter().format(gem);
+  }
+}
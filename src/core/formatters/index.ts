@@ -6,9 +6,11 @@
  * Last Updated: October 11, 2024
  */
 
-import { type GeminiGem, OutputFormat, type ProcessingOptions, type ContentSection } from '../types/index.js';
+import { type GeminiGem, OutputFormat, type ProcessingOptions, type ContentSection, type Transcript } from '../types/index.js';
 import * as YAML from 'yaml';
 import matter from 'gray-matter';
+import { linkEntities, type EntityLinkOptions } from './entity-links.js';
+import { formatTimestamp, groupTranscript, linkTimestamps, youtubeDeepLink } from '../transcript.js';
 
 // ============================================================================
 // FORMATTER INTERFACES
@@ -40,6 +42,9 @@ export interface MarkdownFormatterOptions {
   /** Code block language for analysis */
   analysisCodeLanguage: string;
 
+  /** Turn the first mention of each entity into a [[wikilink]] */
+  linkEntities: boolean | EntityLinkOptions;
+
   /** Custom CSS classes */
   cssClasses?: {
     container?: string;
@@ -134,6 +139,7 @@ export class MarkdownFormatter implements IFormatter {
       includeTimestamps: true,
       baseHeadingLevel: 2,
       analysisCodeLanguage: 'text',
+      linkEntities: true,
       cssClasses: {
         container: 'obsidianize-container',
         summary: 'obsidianize-summary',
@@ -149,6 +155,19 @@ export class MarkdownFormatter implements IFormatter {
   async format(gem: GeminiGem): Promise<string> {
     const sections: string[] = [];
 
+    if (this.options.linkEntities) {
+      gem = linkEntities(gem, this.options.linkEntities === true ? {} : this.options.linkEntities).gem;
+    }
+
+    // Key points cite moments as [mm:ss]; link those into the video
+    const videoId = this.getVideoId(gem);
+    if (this.options.includeTimestamps && videoId) {
+      gem = {
+        ...gem,
+        content: { ...gem.content, keyPoints: gem.content.keyPoints.map(point => linkTimestamps(point, videoId)) }
+      };
+    }
+
     // Generate frontmatter
     sections.push(await this.frontmatterFormatter.generate(gem));
     sections.push('');
@@ -174,7 +193,7 @@ export class MarkdownFormatter implements IFormatter {
     // Add transcript if available
     if (gem.content.transcript) {
       sections.push('');
-      sections.push(this.formatTranscript(gem.content.transcript));
+      sections.push(this.formatTranscript(gem.content.transcript, videoId));
     }
 
     // Add related resources if available
@@ -319,13 +338,43 @@ export class MarkdownFormatter implements IFormatter {
   }
 
   /** Format transcript section */
-  private formatTranscript(transcript: string): string {
+  private formatTranscript(transcript: string | Transcript, videoId?: string): string {
     const heading = this.generateHeading('Transcript', this.options.baseHeadingLevel);
 
-    return [
-      heading,
-      '\`\`\`transcript\n' + transcript + '\n\`\`\`'
-    ].join('\n');
+    if (typeof transcript === 'string') {
+      return [
+        heading,
+        '\`\`\`transcript\n' + transcript + '\n\`\`\`'
+      ].join('\n');
+    }
+
+    // Timed transcript: paragraphs (under chapter headings) led by their start time and speaker
+    const stamp = (seconds: number): string => {
+      if (!this.options.includeTimestamps || transcript.untimed) return '';
+      const label = formatTimestamp(seconds);
+      return videoId ? `[${label}](${youtubeDeepLink(videoId, seconds)}) ` : `**${label}** `;
+    };
+
+    const blocks = groupTranscript(transcript).map(group => {
+      const paragraphs = group.paragraphs.map(paragraph =>
+        `${stamp(paragraph.start)}${paragraph.speaker ? `**${paragraph.speaker}:** ` : ''}${paragraph.text}`
+      );
+      return group.chapter
+        ? [`${this.generateHeading(group.chapter.title, this.options.baseHeadingLevel + 1)} ${stamp(group.chapter.start)}`.trimEnd(), ...paragraphs].join('\n\n')
+        : paragraphs.join('\n\n');
+    });
+
+    return [heading, '', blocks.join('\n\n')].join('\n');
+  }
+
+  /** Video ID for timestamp links, from the transcript or YouTube metadata */
+  private getVideoId(gem: GeminiGem): string | undefined {
+    const transcript = gem.content.transcript;
+    if (typeof transcript === 'object' && transcript.videoId) {
+      return transcript.videoId;
+    }
+    const videoId = gem.frontmatter.metadata.videoId;
+    return gem.frontmatter.type === 'youtube' && typeof videoId === 'string' ? videoId : undefined;
   }
 
   /** Format related resources */
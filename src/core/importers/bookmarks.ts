@@ -0,0 +1,48 @@
+/**
+ * Bookmark Export Parser
+ * Reads the Netscape bookmark file format that browsers export, and Pocket's
+ * HTML export (a list of links with a `tags` attribute). Folders are the
+ * `<H3>` headings in front of each nested `<DL>`
+ */
+
+import * as cheerio from 'cheerio';
+import type { ImportedLink } from './types.js';
+
+/**
+ * Browser root folders ("Bookmarks bar", "Other bookmarks") that say where a
+ * bookmark sits in the browser, not what it is about
+ */
+const ROOT_FOLDER_ATTRIBUTES = ['personal_toolbar_folder', 'unfiled_bookmarks_folder'];
+
+/** Parse a bookmark export into links */
+export function parseBookmarksHtml(text: string): ImportedLink[] {
+  const $ = cheerio.load(text);
+  const links: ImportedLink[] = [];
+
+  $('a[href]').each((_, element) => {
+    const anchor = $(element);
+
+    const folders = anchor
+      .parents('dl')
+      .toArray()
+      .reverse()
+      .map(list => $(list).prev('h3'))
+      .filter(heading => heading.length > 0 && !ROOT_FOLDER_ATTRIBUTES.some(attr => heading.attr(attr) !== undefined))
+      .map(heading => heading.text().trim())
+      .filter(Boolean);
+
+    const tags = (anchor.attr('tags') ?? '')
+      .split(',')
+      .map(tag => tag.trim())
+      .filter(Boolean);
+
+    links.push({
+      url: anchor.attr('href')!.trim(),
+      title: anchor.text().trim() || undefined,
+      folders,
+      tags
+    });
+  });
+
+  return links;
+}
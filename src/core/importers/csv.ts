@@ -0,0 +1,122 @@
+/**
+ * CSV Export Parser
+ * Reads reading-list CSV exports with a header row, such as Pocket's
+ * (`title,url,time_added,tags,status`, tags separated by `|`) and
+ * Instapaper's (`URL,Title,Selection,Folder,Timestamp,Tags`, tags as a JSON
+ * array)
+ */
+
+import type { ImportedLink } from './types.js';
+
+/** Header names, lowercased, accepted for each column */
+const COLUMNS = {
+  url: ['url', 'href', 'link', 'address'],
+  title: ['title', 'name'],
+  folder: ['folder', 'folders', 'collection'],
+  tags: ['tags', 'tag', 'labels']
+};
+
+/** Instapaper's built-in folders, which hold every article rather than a topic */
+const BUILT_IN_FOLDERS = ['unread', 'archive', 'starred'];
+
+/** Split CSV text into rows of fields (RFC 4180 quoting) */
+export function parseCsvRows(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') {
+        i++;
+      }
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  // Blank lines are not records
+  return rows.filter(fields => fields.some(value => value.trim()));
+}
+
+/** Whether a CSV header row names a URL column */
+export function hasUrlColumn(headerLine: string): boolean {
+  const header = parseCsvRows(headerLine)[0] ?? [];
+  return header.some(name => COLUMNS.url.includes(name.trim().toLowerCase()));
+}
+
+/** Split a tags cell: a JSON array, or names separated by `|`, `,` or `;` */
+function splitTags(cell: string): string[] {
+  const value = cell.trim();
+  if (value.startsWith('[')) {
+    try {
+      const parsed = JSON.parse(value);
+      if (Array.isArray(parsed)) {
+        return parsed
+          .map(tag => typeof tag === 'string' ? tag : tag?.name)
+          .filter((tag): tag is string => typeof tag === 'string' && tag.trim().length > 0)
+          .map(tag => tag.trim());
+      }
+    } catch {
+      // Not JSON after all; fall through to plain separators
+    }
+  }
+  return value.split(/[|,;]/).map(tag => tag.trim()).filter(Boolean);
+}
+
+/** Parse a CSV export into links; returns null if no header names a URL column */
+export function parseCsvExport(text: string): ImportedLink[] | null {
+  const [header, ...records] = parseCsvRows(text.replace(/^\uFEFF/, ''));
+  if (!header) {
+    return null;
+  }
+
+  const names = header.map(name => name.trim().toLowerCase());
+  const column = (key: keyof typeof COLUMNS) => names.findIndex(name => COLUMNS[key].includes(name));
+  const urlColumn = column('url');
+  if (urlColumn === -1) {
+    return null;
+  }
+  const titleColumn = column('title');
+  const folderColumn = column('folder');
+  const tagsColumn = column('tags');
+  const cell = (record: string[], index: number) => index === -1 ? '' : (record[index] ?? '').trim();
+
+  return records.map(record => {
+    const folder = cell(record, folderColumn);
+    const url = cell(record, urlColumn);
+    return {
+      url,
+      title: cell(record, titleColumn) || undefined,
+      folders: BUILT_IN_FOLDERS.includes(folder.toLowerCase())
+        ? []
+        : folder.split('/').map(name => name.trim()).filter(Boolean),
+      tags: splitTags(cell(record, tagsColumn)),
+      problem: url ? undefined : 'Missing URL'
+    };
+  });
+}
@@ -0,0 +1,224 @@
+/**
+ * Reading List Importers
+ * Turns bookmark exports, Pocket/Instapaper CSV dumps, OPML files and plain
+ * URL lists into batch entries: every link is validated up front, repeats
+ * are merged, and folders and tags become Obsidian tags (`tagOverrides`)
+ *
+ * Version: 1.0.0
+ */
+
+import { extname } from 'path';
+import { ValidationError } from '../errors/index.js';
+import { ErrorCategory } from '../types/index.js';
+import { URLValidator } from '../validators/index.js';
+import { parseBookmarksHtml } from './bookmarks.js';
+import { hasUrlColumn, parseCsvExport } from './csv.js';
+import { parseOpml } from './opml.js';
+import type {
+  ImportEntry,
+  ImportFormat,
+  ImportOptions,
+  ImportResult,
+  ImportedLink,
+  RejectedEntry
+} from './types.js';
+
+export type {
+  ImportEntry,
+  ImportFormat,
+  ImportOptions,
+  ImportResult,
+  ImportedLink,
+  RejectedEntry
+} from './types.js';
+export { parseBookmarksHtml } from './bookmarks.js';
+export { parseCsvExport, parseCsvRows } from './csv.js';
+export { parseOpml } from './opml.js';
+
+export const IMPORT_FORMATS: ImportFormat[] = ['opml', 'bookmarks', 'csv', 'text'];
+
+/** Limits of the processing options schema's `tagOverrides` */
+const MAX_TAG_LENGTH = 50;
+const MAX_TAGS = 50;
+
+const FORMATS_BY_EXTENSION: Record<string, ImportFormat> = {
+  '.opml': 'opml',
+  '.html': 'bookmarks',
+  '.htm': 'bookmarks',
+  '.csv': 'csv',
+  '.txt': 'text'
+};
+
+// ============================================================================
+// FORMAT DETECTION
+// ============================================================================
+
+/** Work out a reading list's format from its file name, then its content */
+export function detectImportFormat(content: string, filename?: string): ImportFormat {
+  const byExtension = filename ? FORMATS_BY_EXTENSION[extname(filename).toLowerCase()] : undefined;
+  if (byExtension) {
+    return byExtension;
+  }
+
+  const head = content.slice(0, 2000);
+  if (/<opml[\s>]/i.test(head)) {
+    return 'opml';
+  }
+  if (/<!DOCTYPE NETSCAPE-Bookmark-file|<(dl|ul|a)[\s>]/i.test(head)) {
+    return 'bookmarks';
+  }
+  const firstLine = content.trimStart().split(/\r?\n/, 1)[0] ?? '';
+  return hasUrlColumn(firstLine) ? 'csv' : 'text';
+}
+
+/** One URL per line; blank lines and `#` comments are skipped (as in CLI batch files) */
+function parseUrlList(text: string): ImportedLink[] {
+  return text
+    .split(/\r?\n/)
+    .map(line => line.trim())
+    .filter(line => line.length > 0 && !line.startsWith('#'))
+    .map(url => ({ url, folders: [], tags: [] }));
+}
+
+function unreadable(format: ImportFormat, message: string): ValidationError {
+  return new ValidationError({
+    message,
+    code: 'IMPORT_UNREADABLE',
+    category: ErrorCategory.VALIDATION,
+    field: 'content',
+    details: { format },
+    suggestion: `Check that the file is a ${format} export, or pass its format explicitly`
+  });
+}
+
+function parseLinks(content: string, format: ImportFormat): ImportedLink[] {
+  switch (format) {
+    case 'opml': {
+      const links = parseOpml(content);
+      if (!links) {
+        throw unreadable(format, 'OPML file has no <body> of outlines');
+      }
+      return links;
+    }
+    case 'bookmarks':
+      return parseBookmarksHtml(content);
+    case 'csv': {
+      const links = parseCsvExport(content);
+      if (!links) {
+        throw unreadable(format, 'CSV file has no URL column in its header row');
+      }
+      return links;
+    }
+    case 'text':
+      return parseUrlList(content);
+  }
+}
+
+// ============================================================================
+// TAGS
+// ============================================================================
+
+/** Make one level of a tag: lowercase, dashes for spaces, no characters Obsidian rejects */
+function tagSegment(name: string): string {
+  return name
+    .normalize('NFKC')
+    .toLowerCase()
+    .replace(/\s+/g, '-')
+    .replace(/[^\p{L}\p{N}_-]/gu, '')
+    .replace(/-{2,}/g, '-')
+    .replace(/^-+|-+$/g, '');
+}
+
+/** Join tag levels into a nested tag such as `reading/machine-learning` */
+function nestedTag(levels: string[]): string | undefined {
+  const tag = levels.map(tagSegment).filter(Boolean).join('/');
+  if (!tag || /^[\d/]+$/.test(tag)) {
+    // Obsidian tags need at least one non-numeric character
+    return undefined;
+  }
+  return tag.length > MAX_TAG_LENGTH
+    ? tag.slice(0, MAX_TAG_LENGTH).replace(/[/-]+$/, '')
+    : tag;
+}
+
+/** Tags for a link: its folder path as one nested tag, then its own tags */
+function linkTags(link: ImportedLink): string[] {
+  return [
+    link.folders.length > 0 ? nestedTag(link.folders) : undefined,
+    ...link.tags.map(tag => nestedTag(tag.split('/')))
+  ].filter((tag): tag is string => tag !== undefined);
+}
+
+// ============================================================================
+// IMPORT
+// ============================================================================
+
+/**
+ * Key under which two URLs count as the same link: the fragment, `utm_*`
+ * parameters, a `www.` prefix and a trailing slash are ignored
+ */
+function dedupeKey(url: string): string {
+  try {
+    const parsed = new URL(url);
+    parsed.hash = '';
+    parsed.hostname = parsed.hostname.replace(/^www\./, '');
+    for (const name of [...parsed.searchParams.keys()]) {
+      if (/^utm_/i.test(name)) {
+        parsed.searchParams.delete(name);
+      }
+    }
+    parsed.pathname = parsed.pathname.replace(/\/+$/, '') || '/';
+    return parsed.toString();
+  } catch {
+    return url;
+  }
+}
+
+/**
+ * Import a reading list. Links keep the order of the file; a link found
+ * again (in another folder, say) is merged into the first, adding its tags.
+ * Invalid URLs are returned in `rejected` rather than failing the import.
+ *
+ * @throws ValidationError (IMPORT_UNREADABLE) when the content is not in the format
+ */
+export function importReadingList(content: string, options: ImportOptions = {}): ImportResult {
+  const format = options.format ?? detectImportFormat(content, options.filename);
+  const links = parseLinks(content, format);
+
+  const entries: ImportEntry[] = [];
+  const rejected: RejectedEntry[] = [];
+  const duplicates: string[] = [];
+  const seen = new Map<string, ImportEntry | RejectedEntry>();
+
+  for (const link of links) {
+    const key = dedupeKey(link.url);
+    const earlier = seen.get(key);
+    if (earlier) {
+      duplicates.push(link.url);
+      if ('tagOverrides' in earlier) {
+        const merged = new Set([...earlier.tagOverrides, ...linkTags(link)]);
+        earlier.tagOverrides = [...merged].slice(0, MAX_TAGS);
+      }
+      continue;
+    }
+
+    const validation = link.problem ? undefined : URLValidator.validateAndClassify(link.url);
+    if (!validation?.valid) {
+      const reason = link.problem ?? validation?.error ?? 'Invalid URL';
+      const entry: RejectedEntry = { url: link.url, title: link.title, reason };
+      rejected.push(entry);
+      seen.set(key, entry);
+      continue;
+    }
+
+    const entry: ImportEntry = {
+      url: link.url,
+      title: link.title,
+      tagOverrides: [...new Set(linkTags(link))].slice(0, MAX_TAGS)
+    };
+    entries.push(entry);
+    seen.set(key, entry);
+  }
+
+  return { format, entries, rejected, duplicates };
+}
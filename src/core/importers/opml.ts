@@ -0,0 +1,50 @@
+/**
+ * OPML Reading List Parser
+ * Reads link outlines (`type="link"` with a `url`) from OPML files. Parent
+ * outlines without a URL are folders; the `category` attribute holds tags,
+ * with `/` separating the levels of a tag hierarchy
+ */
+
+import * as cheerio from 'cheerio';
+import type { ImportedLink } from './types.js';
+
+/** Parse an OPML document into links; returns null if it has no outline body */
+export function parseOpml(text: string): ImportedLink[] | null {
+  const $ = cheerio.load(text, { xml: true });
+  const body = $('opml > body');
+  if (body.length === 0) {
+    return null;
+  }
+
+  const links: ImportedLink[] = [];
+  body.find('outline').each((_, element) => {
+    const outline = $(element);
+    const url = outline.attr('url');
+    const title = outline.attr('title') ?? outline.attr('text');
+
+    if (!url) {
+      // Outlines without a URL are folders, or feed subscriptions rather than articles
+      const feed = outline.attr('xmlUrl');
+      if (feed) {
+        links.push({ url: feed.trim(), title, folders: [], tags: [], problem: 'Feed subscription, not an article link' });
+      }
+      return;
+    }
+
+    const folders = outline
+      .parents('outline')
+      .toArray()
+      .reverse()
+      .map(parent => $(parent).attr('text') ?? $(parent).attr('title') ?? '')
+      .filter(Boolean);
+
+    const tags = (outline.attr('category') ?? '')
+      .split(',')
+      .map(category => category.trim().replace(/^\/+/, ''))
+      .filter(Boolean);
+
+    links.push({ url: url.trim(), title: title?.trim() || undefined, folders, tags });
+  });
+
+  return links;
+}
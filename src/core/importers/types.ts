@@ -0,0 +1,50 @@
+/**
+ * Reading List Import Types
+ */
+
+/** Reading list formats the importer understands */
+export type ImportFormat = 'opml' | 'bookmarks' | 'csv' | 'text';
+
+/** A link as a format parser found it, before validation and deduplication */
+export interface ImportedLink {
+  url: string;
+  title?: string;
+  /** Folder path from the outermost folder in */
+  folders: string[];
+  /** Tags as written in the export; `/` separates levels of a hierarchy */
+  tags: string[];
+  /** Why the parser already knows the link cannot be imported */
+  problem?: string;
+}
+
+/** A link that passed validation, ready for a batch */
+export interface ImportEntry {
+  url: string;
+  title?: string;
+  /** Obsidian tags built from the link's folders and tags */
+  tagOverrides: string[];
+}
+
+/** A link left out of the import, and why */
+export interface RejectedEntry {
+  url: string;
+  title?: string;
+  reason: string;
+}
+
+/** Outcome of importing a reading list */
+export interface ImportResult {
+  format: ImportFormat;
+  entries: ImportEntry[];
+  rejected: RejectedEntry[];
+  /** URLs dropped as repeats of an earlier entry (whose tags they were merged into) */
+  duplicates: string[];
+}
+
+/** Options for importReadingList */
+export interface ImportOptions {
+  /** Format of the content; detected from `filename` and the content when omitted */
+  format?: ImportFormat;
+  /** Name of the uploaded file, used to detect the format */
+  filename?: string;
+}
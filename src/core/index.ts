@@ -18,6 +18,9 @@ export type {
   ContentSection,
   ExtractedEntity,
   RelatedResource,
+  Transcript,
+  TranscriptSegment,
+  TranscriptChapter,
 
   // Processing types
   ProcessingRequest,
@@ -29,6 +32,7 @@ export type {
   ProcessingResult,
   ProcessingMetadata,
   ProcessingStage,
+  ChunkTokenUsage,
 
   // Error types
   ProcessingError,
@@ -45,6 +49,7 @@ export type {
   // Configuration types
   UserConfig,
   APIConfig,
+  AIProviderName,
   RetryConfig,
   UserPreferences,
   TagPreferences,
@@ -54,6 +59,9 @@ export type {
   ContentTypeGuard,
   CacheEntry,
   ProgressInfo,
+  ProgressEvent,
+  ProgressCallback,
+  PartialOutputCallback,
   FilenameConfig,
   ProcessorConfig
 } from './types/index.js';
@@ -88,6 +96,14 @@ export {
   ContentStructureUtils
 } from './formatters/index.js';
 
+export {
+  linkEntities,
+  entityNoteName,
+  LINKABLE_ENTITY_TYPES,
+  type EntityLinkOptions,
+  type EntityLinkResult
+} from './formatters/entity-links.js';
+
 // ============================================================================
 // VALIDATOR EXPORTS
 // ============================================================================
@@ -112,6 +128,20 @@ export {
   InputSanitizer
 } from './validators/index.js';
 
+// ============================================================================
+// NETWORK EXPORTS
+// ============================================================================
+
+export {
+  SafeFetcher,
+  getSafeFetcher,
+  setSafeFetcher,
+  safeFetch,
+  type Fetcher,
+  type SafeFetchInit,
+  type SafeFetcherConfig
+} from './network/index.js';
+
 // ============================================================================
 // PROCESSOR EXPORTS
 // ============================================================================
@@ -150,9 +180,212 @@ export {
   type SecurityConfiguration,
   type PerformanceConfiguration,
   type BatchConfiguration,
+  type JobsConfiguration,
+  type FeedsConfiguration,
+  type FetchingConfiguration,
+  type SourceCacheConfiguration,
   type PWAConfiguration
 } from './config/index.js';
 
+// ============================================================================
+// JOB STORE EXPORTS
+// ============================================================================
+
+export {
+  SqliteJobStore,
+  getJobStore,
+  setJobStore,
+  generateJobId,
+  type JobStore,
+  type JobRecord,
+  type NewJobRecord,
+  type JobRecordPatch,
+  type JobQuery,
+  type JobKind,
+  type JobStoreConfig
+} from './jobs/job-store.js';
+
+export {
+  trackJob,
+  releaseJob,
+  isJobRunning,
+  cancelJob,
+  type CancelJobResult
+} from './jobs/cancellation.js';
+
+// ============================================================================
+// SHARED CACHE EXPORTS
+// ============================================================================
+
+export {
+  HighPerformanceCache,
+  cacheUtils,
+  getSharedCache,
+  setSharedCache,
+  type CacheConfig,
+  type CacheSetOptions,
+  type CacheStats
+} from './cache/cache.js';
+
+// ============================================================================
+// SOURCE CACHE EXPORTS
+// ============================================================================
+
+export {
+  SqliteSourceCache,
+  getSourceCache,
+  setSourceCache,
+  purgeSource,
+  type SourceCache,
+  type CachedSource,
+  type NewCachedSource,
+  type SourceCacheConfig
+} from './cache/source-cache.js';
+
+// ============================================================================
+// READING LIST IMPORT EXPORTS
+// ============================================================================
+
+export {
+  importReadingList,
+  detectImportFormat,
+  IMPORT_FORMATS,
+  type ImportFormat,
+  type ImportOptions,
+  type ImportResult,
+  type ImportEntry,
+  type RejectedEntry
+} from './importers/index.js';
+
+// ============================================================================
+// FEED SUBSCRIPTION EXPORTS
+// ============================================================================
+
+export {
+  parseFeed,
+  SqliteFeedStore,
+  getFeedStore,
+  setFeedStore,
+  generateFeedId,
+  FeedPoller,
+  getFeedPoller,
+  setFeedPoller,
+  validateFeedUrl,
+  type FeedEntry,
+  type ParsedFeed,
+  type FeedStore,
+  type FeedOptions,
+  type FeedSubscription,
+  type SeenFeedEntry,
+  type FeedPollResult
+} from './feeds/index.js';
+
+// ============================================================================
+// YOUTUBE COLLECTION EXPORTS
+// ============================================================================
+
+export {
+  expandYouTubeCollection,
+  buildCollectionIndexNote,
+  type YouTubeCollection,
+  type YouTubeCollectionVideo,
+  type CollectionIndexNote
+} from './youtube/index.js';
+
+// ============================================================================
+// PODCAST EXPORTS
+// ============================================================================
+
+export {
+  extractPodcastEpisode,
+  resolvePodcastEpisode,
+  parsePodcastFeed,
+  parseTranscript,
+  type PodcastExtraction,
+  type PodcastEpisodeSource,
+  type PodcastFeed,
+  type PodcastEpisode
+} from './podcast/index.js';
+
+// ============================================================================
+// THREAD EXPORTS
+// ============================================================================
+
+export {
+  unrollThread,
+  detectThreadPlatform,
+  threadContent,
+  threadMetadata,
+  type Thread,
+  type ThreadPost,
+  type ThreadPlatform
+} from './threads/index.js';
+
+// ============================================================================
+// VAULT EXPORTS
+// ============================================================================
+
+export {
+  VaultWriter,
+  DEFAULT_VAULT_FOLDERS,
+  type VaultConfig,
+  type VaultWriteResult
+} from './storage/vault-writer.js';
+
+// ============================================================================
+// SUMMARIZATION & EXPORT FORMAT EXPORTS
+// ============================================================================
+
+export {
+  summarizationMapping,
+  getSummarizationSettings,
+  isSummarizationLevel,
+  SUMMARIZATION_LEVELS,
+  type SummarizationLevel,
+  type SummarizationSettings
+} from './summarization.js';
+
+export {
+  renderGem,
+  convertToJson,
+  convertToYaml,
+  getFormatInfo,
+  isExportFormat,
+  EXPORT_FORMATS,
+  type ExportFormat,
+  type ExportOptions
+} from './formatters/export.js';
+
+// ============================================================================
+// TRANSCRIPT EXPORTS
+// ============================================================================
+
+export {
+  normalizeTranscriptItems,
+  parseChapters,
+  groupTranscript,
+  transcriptToText,
+  linkTimestamps,
+  formatTimestamp,
+  parseTimestamp,
+  youtubeDeepLink,
+  type RawTranscriptItem,
+  type TranscriptParagraph,
+  type TranscriptGroup
+} from './transcript.js';
+
+// ============================================================================
+// CHUNKING EXPORTS
+// ============================================================================
+
+export {
+  chunkContent,
+  estimateTokens,
+  DEFAULT_CHUNK_TOKENS,
+  type ChunkOptions,
+  type ContentChunk
+} from './chunking.js';
+
 // ============================================================================
 // REQUEST CONTEXT EXPORTS (Phase 3)
 // ============================================================================
@@ -0,0 +1,85 @@
+/**
+ * Job cancellation
+ * Keeps an AbortController for every job running in this process, so the
+ * HTTP routes and the WebSocket handler can stop a job and its processing
+ * pipeline by id
+ */
+
+import { createLogger } from '../logging/index.js';
+import { ProcessingStatus } from '../types/index.js';
+import { getJobStore, type JobRecord } from './job-store.js';
+
+const logger = createLogger('job-cancellation');
+
+/** Statuses a job can still be cancelled in */
+const ACTIVE_STATUSES: ProcessingStatus[] = [
+  ProcessingStatus.PENDING,
+  ProcessingStatus.PROCESSING,
+  ProcessingStatus.RETRYING
+];
+
+export interface CancelJobResult {
+  /** The job after the request, or null if there is no such job */
+  job: JobRecord | null;
+  /** False when the job had already finished */
+  cancelled: boolean;
+}
+
+const controllers = new Map<string, AbortController>();
+
+/**
+ * Register a job that is starting to run. The returned signal aborts when
+ * the job is cancelled, or when `parent` (a batch's signal) aborts.
+ */
+export function trackJob(jobId: string, parent?: AbortSignal): AbortSignal {
+  const controller = new AbortController();
+  if (parent) {
+    if (parent.aborted) {
+      controller.abort(parent.reason);
+    } else {
+      parent.addEventListener('abort', () => controller.abort(parent.reason), { once: true });
+    }
+  }
+  controllers.set(jobId, controller);
+  return controller.signal;
+}
+
+/** Forget a job that has stopped running */
+export function releaseJob(jobId: string): void {
+  controllers.delete(jobId);
+}
+
+/** Whether a job is running in this process */
+export function isJobRunning(jobId: string): boolean {
+  return controllers.has(jobId);
+}
+
+/**
+ * Cancel a job: abort it if it runs here and mark it cancelled in the job
+ * store. Batch items still pending or processing are cancelled with their
+ * batch; finished items and their results are kept.
+ */
+export async function cancelJob(jobId: string): Promise<CancelJobResult> {
+  const store = getJobStore();
+  const job = await store.get(jobId);
+  if (!job) {
+    return { job: null, cancelled: false };
+  }
+  if (!ACTIVE_STATUSES.includes(job.status)) {
+    return { job, cancelled: false };
+  }
+
+  controllers.get(jobId)?.abort();
+
+  // The running job records how it ended; this also covers jobs left over from a restart
+  if (job.kind === 'batch') {
+    for (const item of await store.list({ batchId: jobId, status: ACTIVE_STATUSES })) {
+      controllers.get(item.id)?.abort();
+      await store.update(item.id, { status: ProcessingStatus.CANCELLED, message: 'Cancelled' });
+    }
+  }
+  const updated = await store.update(jobId, { status: ProcessingStatus.CANCELLED, message: 'Cancelled' });
+
+  logger.info(`Job cancelled: ${jobId}`, { kind: job.kind, running: controllers.has(jobId) });
+  return { job: updated, cancelled: true };
+}
@@ -0,0 +1,463 @@
+/**
+ * Persistent job store using Bun's native SQLite
+ * Shared by the web server's single-URL, batch and feed jobs so that job
+ * state survives restarts and is visible to every status endpoint. The CLI
+ * keeps its own JSON job records (see src/cli/jobs.ts).
+ */
+
+import { Database } from "bun:sqlite";
+import { randomBytes } from "crypto";
+import { mkdirSync } from "fs";
+import { dirname } from "path";
+import { createLogger } from '../logging/index.js';
+import { getConfig } from '../config/index.js';
+import type { ProcessingResult, ProcessingStatus } from '../types/index.js';
+
+const logger = createLogger('job-store');
+
+/** What a job represents */
+export type JobKind = 'process' | 'batch' | 'batch_item' | 'feed_item';
+
+export interface JobRecord {
+  id: string;
+  kind: JobKind;
+  status: ProcessingStatus;
+  progress: number;
+  message: string;
+  url?: string;
+  /** Parent batch for batch items */
+  batchId?: string;
+  result?: ProcessingResult;
+  error?: string;
+  /** Batch counters (kind === 'batch') */
+  totalUrls?: number;
+  completedUrls?: number;
+  failedUrls?: number;
+  /** Free-form data such as request options (never secrets) */
+  metadata?: Record<string, unknown>;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/** Fields accepted when creating a job */
+export type NewJobRecord = Omit<JobRecord, 'createdAt' | 'updatedAt'> & {
+  createdAt?: Date;
+};
+
+/** Fields that can be changed after creation */
+export type JobRecordPatch = Partial<Omit<JobRecord, 'id' | 'kind' | 'createdAt' | 'updatedAt'>>;
+
+export interface JobQuery {
+  kind?: JobKind | JobKind[];
+  status?: ProcessingStatus | ProcessingStatus[];
+  batchId?: string;
+  createdAfter?: Date;
+  createdBefore?: Date;
+  limit?: number;
+  offset?: number;
+  /** Sort by creation time (default: newest first) */
+  order?: 'asc' | 'desc';
+}
+
+export interface JobStoreConfig {
+  /** SQLite file path, or ':memory:' */
+  path: string;
+  /** Jobs not updated for this long are removed (milliseconds, 0 disables) */
+  retentionMs: number;
+  /** How often to run retention cleanup (milliseconds, 0 disables the timer) */
+  cleanupInterval: number;
+}
+
+/**
+ * Job storage abstraction
+ */
+export interface JobStore {
+  create(job: NewJobRecord): Promise<JobRecord>;
+  get(id: string): Promise<JobRecord | null>;
+  update(id: string, patch: JobRecordPatch): Promise<JobRecord | null>;
+  delete(id: string): Promise<boolean>;
+  list(query?: JobQuery): Promise<JobRecord[]>;
+  count(query?: JobQuery): Promise<number>;
+  countByStatus(query?: JobQuery): Promise<Record<string, number>>;
+  cleanup(): Promise<number>;
+  close(): void;
+}
+
+interface JobRow {
+  id: string;
+  kind: JobKind;
+  status: ProcessingStatus;
+  progress: number;
+  message: string;
+  url: string | null;
+  batch_id: string | null;
+  result: string | null;
+  error: string | null;
+  total_urls: number | null;
+  completed_urls: number | null;
+  failed_urls: number | null;
+  metadata: string | null;
+  created_at: number;
+  updated_at: number;
+}
+
+/**
+ * Revive the Date fields of a processing result after a JSON round trip
+ */
+function reviveResult(result: unknown): ProcessingResult {
+  const isObject = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null;
+  const revive = (target: unknown, ...fields: string[]) => {
+    if (!isObject(target)) {
+      return;
+    }
+    for (const field of fields) {
+      if (typeof target[field] === 'string') {
+        target[field] = new Date(target[field]);
+      }
+    }
+  };
+
+  if (isObject(result)) {
+    if (isObject(result.data)) {
+      revive(result.data.frontmatter, 'processed');
+    }
+    if (isObject(result.metadata)) {
+      revive(result.metadata, 'startTime', 'endTime');
+      if (Array.isArray(result.metadata.stages)) {
+        for (const stage of result.metadata.stages) {
+          revive(stage, 'startTime', 'endTime');
+        }
+      }
+    }
+    revive(result.error, 'timestamp');
+  }
+
+  return result as ProcessingResult;
+}
+
+export class SqliteJobStore implements JobStore {
+  private db: Database;
+  private config: JobStoreConfig;
+  private cleanupTimer?: NodeJS.Timeout;
+
+  constructor(config: Partial<JobStoreConfig> = {}) {
+    this.config = {
+      path: ":memory:",
+      retentionMs: 7 * 24 * 60 * 60 * 1000, // 7 days
+      cleanupInterval: 10 * 60 * 1000, // 10 minutes
+      ...config,
+    };
+
+    if (this.config.path !== ":memory:") {
+      mkdirSync(dirname(this.config.path), { recursive: true });
+    }
+
+    this.db = new Database(this.config.path, { create: true });
+    this.setupDatabase();
+    this.startCleanupTimer();
+  }
+
+  private setupDatabase(): void {
+    // WAL keeps readers (status endpoints) from blocking the batch writer
+    this.db.run("PRAGMA journal_mode = WAL");
+    this.db.run("PRAGMA busy_timeout = 5000");
+
+    this.db.run(`
+      CREATE TABLE IF NOT EXISTS jobs (
+        id TEXT PRIMARY KEY,
+        kind TEXT NOT NULL,
+        status TEXT NOT NULL,
+        progress INTEGER NOT NULL DEFAULT 0,
+        message TEXT NOT NULL DEFAULT '',
+        url TEXT,
+        batch_id TEXT,
+        result TEXT,
+        error TEXT,
+        total_urls INTEGER,
+        completed_urls INTEGER,
+        failed_urls INTEGER,
+        metadata TEXT,
+        created_at INTEGER NOT NULL,
+        updated_at INTEGER NOT NULL
+      )
+    `);
+
+    // Create indexes for performance
+    this.db.run("CREATE INDEX IF NOT EXISTS idx_jobs_status ON jobs(status)");
+    this.db.run("CREATE INDEX IF NOT EXISTS idx_jobs_batch_id ON jobs(batch_id)");
+    this.db.run("CREATE INDEX IF NOT EXISTS idx_jobs_created_at ON jobs(created_at)");
+    this.db.run("CREATE INDEX IF NOT EXISTS idx_jobs_updated_at ON jobs(updated_at)");
+  }
+
+  private rowToRecord(row: JobRow): JobRecord {
+    return {
+      id: row.id,
+      kind: row.kind,
+      status: row.status,
+      progress: row.progress,
+      message: row.message,
+      url: row.url ?? undefined,
+      batchId: row.batch_id ?? undefined,
+      result: row.result ? reviveResult(JSON.parse(row.result)) : undefined,
+      error: row.error ?? undefined,
+      totalUrls: row.total_urls ?? undefined,
+      completedUrls: row.completed_urls ?? undefined,
+      failedUrls: row.failed_urls ?? undefined,
+      metadata: row.metadata ? JSON.parse(row.metadata) : undefined,
+      createdAt: new Date(row.created_at),
+      updatedAt: new Date(row.updated_at),
+    };
+  }
+
+  private buildWhere(query: JobQuery): { sql: string; params: Array<string | number> } {
+    const clauses: string[] = [];
+    const params: Array<string | number> = [];
+
+    if (query.kind) {
+      const kinds = Array.isArray(query.kind) ? query.kind : [query.kind];
+      clauses.push(`kind IN (${kinds.map(() => "?").join(", ")})`);
+      params.push(...kinds);
+    }
+    if (query.status) {
+      const statuses = Array.isArray(query.status) ? query.status : [query.status];
+      clauses.push(`status IN (${statuses.map(() => "?").join(", ")})`);
+      params.push(...statuses);
+    }
+    if (query.batchId) {
+      clauses.push("batch_id = ?");
+      params.push(query.batchId);
+    }
+    if (query.createdAfter) {
+      clauses.push("created_at >= ?");
+      params.push(query.createdAfter.getTime());
+    }
+    if (query.createdBefore) {
+      clauses.push("created_at < ?");
+      params.push(query.createdBefore.getTime());
+    }
+
+    return {
+      sql: clauses.length > 0 ? `WHERE ${clauses.join(" AND ")}` : "",
+      params,
+    };
+  }
+
+  /**
+   * Create a job
+   */
+  async create(job: NewJobRecord): Promise<JobRecord> {
+    const now = Date.now();
+    const createdAt = job.createdAt?.getTime() ?? now;
+
+    this.db.query(`
+      INSERT INTO jobs (
+        id, kind, status, progress, message, url, batch_id, result, error,
+        total_urls, completed_urls, failed_urls, metadata, created_at, updated_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      job.id,
+      job.kind,
+      job.status,
+      job.progress,
+      job.message,
+      job.url ?? null,
+      job.batchId ?? null,
+      job.result ? JSON.stringify(job.result) : null,
+      job.error ?? null,
+      job.totalUrls ?? null,
+      job.completedUrls ?? null,
+      job.failedUrls ?? null,
+      job.metadata ? JSON.stringify(job.metadata) : null,
+      createdAt,
+      now
+    );
+
+    return { ...job, createdAt: new Date(createdAt), updatedAt: new Date(now) };
+  }
+
+  /**
+   * Get a job by ID
+   */
+  async get(id: string): Promise<JobRecord | null> {
+    const row = this.db.query("SELECT * FROM jobs WHERE id = ?").get(id) as JobRow | null;
+    return row ? this.rowToRecord(row) : null;
+  }
+
+  /**
+   * Apply a partial update; returns the updated job, or null if it does not exist
+   */
+  async update(id: string, patch: JobRecordPatch): Promise<JobRecord | null> {
+    const columns: Record<keyof JobRecordPatch, string> = {
+      status: "status",
+      progress: "progress",
+      message: "message",
+      url: "url",
+      batchId: "batch_id",
+      result: "result",
+      error: "error",
+      totalUrls: "total_urls",
+      completedUrls: "completed_urls",
+      failedUrls: "failed_urls",
+      metadata: "metadata",
+    };
+
+    const sets: string[] = ["updated_at = ?"];
+    const params: Array<string | number | null> = [Date.now()];
+
+    for (const [field, value] of Object.entries(patch) as Array<[keyof JobRecordPatch, unknown]>) {
+      const column = columns[field];
+      if (!column) continue;
+
+      sets.push(`${column} = ?`);
+      if (value === undefined || value === null) {
+        params.push(null);
+      } else if (field === "result" || field === "metadata") {
+        params.push(JSON.stringify(value));
+      } else {
+        params.push(value as string | number);
+      }
+    }
+
+    params.push(id);
+    const result = this.db.query(`UPDATE jobs SET ${sets.join(", ")} WHERE id = ?`).run(...params);
+
+    return result.changes > 0 ? this.get(id) : null;
+  }
+
+  /**
+   * Delete a job (and, for batches, its items)
+   */
+  async delete(id: string): Promise<boolean> {
+    this.db.query("DELETE FROM jobs WHERE batch_id = ?").run(id);
+    const result = this.db.query("DELETE FROM jobs WHERE id = ?").run(id);
+    return result.changes > 0;
+  }
+
+  /**
+   * List jobs matching a query
+   */
+  async list(query: JobQuery = {}): Promise<JobRecord[]> {
+    const { sql, params } = this.buildWhere(query);
+    const order = query.order === "asc" ? "ASC" : "DESC";
+    const limit = query.limit ?? -1;
+    const offset = query.offset ?? 0;
+
+    const rows = this.db
+      .query(`SELECT * FROM jobs ${sql} ORDER BY created_at ${order}, rowid ${order} LIMIT ? OFFSET ?`)
+      .all(...params, limit, offset) as JobRow[];
+
+    return rows.map(row => this.rowToRecord(row));
+  }
+
+  /**
+   * Count jobs matching a query
+   */
+  async count(query: JobQuery = {}): Promise<number> {
+    const { sql, params } = this.buildWhere(query);
+    const row = this.db.query(`SELECT COUNT(*) as count FROM jobs ${sql}`).get(...params) as { count: number };
+    return row.count;
+  }
+
+  /**
+   * Count jobs per status
+   */
+  async countByStatus(query: JobQuery = {}): Promise<Record<string, number>> {
+    const { sql, params } = this.buildWhere(query);
+    const rows = this.db
+      .query(`SELECT status, COUNT(*) as count FROM jobs ${sql} GROUP BY status`)
+      .all(...params) as Array<{ status: string; count: number }>;
+
+    return Object.fromEntries(rows.map(row => [row.status, row.count]));
+  }
+
+  /**
+   * Remove jobs older than the retention period. Batch items go with their
+   * batch, by the batch's timestamp, so a batch is never left partial.
+   */
+  async cleanup(): Promise<number> {
+    if (this.config.retentionMs <= 0) {
+      return 0;
+    }
+
+    try {
+      const cutoff = Date.now() - this.config.retentionMs;
+      const changes = this.db.transaction(() => {
+        const items = this.db
+          .query("DELETE FROM jobs WHERE batch_id IN (SELECT id FROM jobs WHERE batch_id IS NULL AND updated_at < ?)")
+          .run(cutoff);
+        const jobs = this.db.query("DELETE FROM jobs WHERE batch_id IS NULL AND updated_at < ?").run(cutoff);
+        return items.changes + jobs.changes;
+      })();
+
+      if (changes > 0) {
+        logger.debug(`Cleaned up ${changes} expired jobs`);
+      }
+      return changes;
+    } catch (error) {
+      logger.error('Job cleanup error', error);
+      return 0;
+    }
+  }
+
+  /**
+   * Start cleanup timer
+   */
+  private startCleanupTimer(): void {
+    if (this.config.cleanupInterval <= 0) {
+      return;
+    }
+
+    this.cleanupTimer = setInterval(() => {
+      this.cleanup();
+    }, this.config.cleanupInterval);
+
+    // Retention cleanup should never keep the process alive on its own
+    this.cleanupTimer.unref?.();
+  }
+
+  /**
+   * Close the store
+   */
+  close(): void {
+    if (this.cleanupTimer) {
+      clearInterval(this.cleanupTimer);
+    }
+    this.db.close();
+  }
+}
+
+// ============================================================================
+// SHARED INSTANCE
+// ============================================================================
+
+let sharedStore: JobStore | null = null;
+
+/**
+ * Get the shared job store, creating it from application config on first use
+ */
+export function getJobStore(): JobStore {
+  if (!sharedStore) {
+    const { jobs } = getConfig();
+    sharedStore = new SqliteJobStore({
+      path: jobs.storePath,
+      retentionMs: jobs.retentionMs,
+      cleanupInterval: jobs.cleanupInterval,
+    });
+  }
+  return sharedStore;
+}
+
+/**
+ * Replace the shared job store (tests, alternative backends)
+ */
+export function setJobStore(store: JobStore | null): void {
+  sharedStore = store;
+}
+
+/**
+ * Generate unique job ID. Anyone holding an ID can read and cancel the job,
+ * so the random part is long enough not to be guessed
+ */
+export function generateJobId(prefix: 'job' | 'batch' = 'job'): string {
+  return `${prefix}_${Date.now()}_${randomBytes(12).toString('hex')}`;
+}
@@ -11,6 +11,7 @@ export {
   logger,
   parseLogLevel,
   configureFromEnv,
+  configureLogging,
   type LogEntry,
   type LoggerConfig
 } from './logger.js';
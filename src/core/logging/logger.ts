@@ -51,8 +51,15 @@ export interface LoggerConfig {
   json: boolean;
   /** Custom log handler */
   handler?: (entry: LogEntry) => void;
+  /** Write every level to stderr (keeps stdout free for CLI output) */
+  stderr?: boolean;
 }
 
+/**
+ * Process-wide overrides applied on top of every logger's own configuration
+ */
+let globalOverrides: Partial<LoggerConfig> = {};
+
 /**
  * Default configuration based on environment
  */
@@ -204,8 +211,10 @@ export class Logger {
     data?: Record<string, unknown>,
     error?: LogEntry['error']
   ): void {
+    const config = { ...this.config, ...globalOverrides };
+
     // Skip if below configured level
-    if (level < this.config.level) {
+    if (level < config.level) {
       return;
     }
 
@@ -220,15 +229,15 @@ export class Logger {
     };
 
     // Use custom handler if provided
-    if (this.config.handler) {
-      this.config.handler(entry);
+    if (config.handler) {
+      config.handler(entry);
       return;
     }
 
     // Output the log entry
-    const output = this.format(entry);
+    const output = this.format(entry, config);
 
-    if (level >= LogLevel.ERROR) {
+    if (level >= LogLevel.ERROR || config.stderr) {
       console.error(output);
     } else if (level === LogLevel.WARN) {
       console.warn(output);
@@ -240,11 +249,11 @@ export class Logger {
   /**
    * Format a log entry for output
    */
-  private format(entry: LogEntry): string {
-    if (this.config.json) {
+  private format(entry: LogEntry, config: LoggerConfig): string {
+    if (config.json) {
       return this.formatJSON(entry);
     }
-    return this.formatPretty(entry);
+    return this.formatPretty(entry, config);
   }
 
   /**
@@ -262,13 +271,13 @@ export class Logger {
   /**
    * Format for human readability (for development)
    */
-  private formatPretty(entry: LogEntry): string {
+  private formatPretty(entry: LogEntry, config: LoggerConfig): string {
     const parts: string[] = [];
 
     // Timestamp
-    if (this.config.timestamps) {
+    if (config.timestamps) {
       const time = new Date(entry.timestamp).toLocaleTimeString();
-      if (this.config.colors) {
+      if (config.colors) {
         parts.push(`${COLORS.gray}${time}${COLORS.reset}`);
       } else {
         parts.push(time);
@@ -276,12 +285,12 @@ export class Logger {
     }
 
     // Level
-    const levelColor = this.config.colors ? LEVEL_COLORS[entry.level] : '';
-    const levelReset = this.config.colors ? COLORS.reset : '';
+    const levelColor = config.colors ? LEVEL_COLORS[entry.level] : '';
+    const levelReset = config.colors ? COLORS.reset : '';
     parts.push(`${levelColor}[${entry.levelName}]${levelReset}`);
 
     // Module
-    if (this.config.colors) {
+    if (config.colors) {
       parts.push(`${COLORS.magenta}[${entry.module}]${COLORS.reset}`);
     } else {
       parts.push(`[${entry.module}]`);
@@ -293,7 +302,7 @@ export class Logger {
     // Data
     if (entry.data && Object.keys(entry.data).length > 0) {
       const dataStr = JSON.stringify(entry.data, null, 2);
-      if (this.config.colors) {
+      if (config.colors) {
         parts.push(`${COLORS.dim}${dataStr}${COLORS.reset}`);
       } else {
         parts.push(dataStr);
@@ -348,6 +357,13 @@ export function createLogger(module: string, config?: Partial<LoggerConfig>): Lo
  */
 export const logger = createLogger('app');
 
+/**
+ * Apply overrides to every logger in the process (pass {} to reset)
+ */
+export function configureLogging(overrides: Partial<LoggerConfig>): void {
+  globalOverrides = { ...overrides };
+}
+
 /**
  * Log level from string
  */
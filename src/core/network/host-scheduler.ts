@@ -0,0 +1,200 @@
+/**
+ * Host Scheduler
+ * Keeps source fetches polite per host: a cap on requests in flight, a
+ * minimum interval between request starts (the configured interval or the
+ * site's Crawl-delay, whichever is longer), and backoff after 429 and 503
+ * responses that honours Retry-After
+ */
+
+import { RETRY } from '../constants/index.js';
+import { getConfig, type FetchingConfiguration } from '../config/index.js';
+
+export type HostSchedulerConfig = Omit<FetchingConfiguration, 'respectRobots' | 'robotsTtl'>;
+
+export interface ScheduleOptions {
+  signal?: AbortSignal;
+  /** The host's Crawl-delay, in milliseconds */
+  crawlDelay?: number;
+  /** Whether a 429 or 503 may be retried (idempotent requests only) */
+  retry?: boolean;
+}
+
+const BACKOFF_STATUSES = new Set([429, 503]);
+
+/** Idle host entries are dropped once there are more than this many */
+const MAX_IDLE_HOSTS = 1000;
+
+interface HostState {
+  active: number;
+  waiting: Array<() => void>;
+  /** Earliest start of the next request */
+  nextStart: number;
+  /** No request starts before this, after a 429 or 503 */
+  blockedUntil: number;
+  /** Consecutive 429/503 responses */
+  failures: number;
+}
+
+/** Wait `ms`, failing early with the signal's reason if it aborts */
+function delay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Milliseconds a Retry-After header asks for: delta-seconds or an HTTP
+ * date. Undefined when absent or unreadable.
+ */
+export function parseRetryAfter(header: string | null, now: number = Date.now()): number | undefined {
+  if (!header) {
+    return undefined;
+  }
+  const trimmed = header.trim();
+  if (/^\d+$/.test(trimmed)) {
+    return Number(trimmed) * 1000;
+  }
+  const date = Date.parse(trimmed);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+export class HostScheduler {
+  private readonly config: HostSchedulerConfig;
+  private readonly hosts = new Map<string, HostState>();
+
+  constructor(config: Partial<HostSchedulerConfig> = {}) {
+    const { respectRobots: _respectRobots, robotsTtl: _robotsTtl, ...defaults } = getConfig().fetching;
+    // Unset options fall back to the application config rather than clobbering it
+    const defined = Object.fromEntries(Object.entries(config).filter(([, value]) => value !== undefined));
+    this.config = { ...defaults, ...defined };
+  }
+
+  /**
+   * Send a request to a URL's host when it is the host's turn. Responses
+   * of 429 or 503 back the host off; the request is sent again while the
+   * wait is within `maxRetryDelay` and retries remain, otherwise the
+   * response is returned as is.
+   */
+  async run(url: URL, send: () => Promise<Response>, options: ScheduleOptions = {}): Promise<Response> {
+    const host = url.hostname.toLowerCase();
+    const state = this.state(host);
+    const interval = Math.max(this.intervalFor(host), options.crawlDelay ?? 0);
+
+    for (let attempt = 0; ; attempt++) {
+      await this.acquire(state, interval, options.signal);
+      let response: Response;
+      try {
+        response = await send();
+      } finally {
+        this.release(state);
+      }
+
+      if (!BACKOFF_STATUSES.has(response.status)) {
+        state.failures = 0;
+        return response;
+      }
+
+      const wait = parseRetryAfter(response.headers.get('retry-after'))
+        ?? Math.min(RETRY.MAX_DELAY, Math.max(interval, RETRY.BASE_DELAY) * RETRY.BACKOFF_FACTOR ** state.failures);
+      state.failures++;
+      state.blockedUntil = Math.max(state.blockedUntil, Date.now() + wait);
+
+      if (!options.retry || attempt >= this.config.maxRetries || wait > this.config.maxRetryDelay) {
+        return response;
+      }
+      await response.body?.cancel();
+    }
+  }
+
+  /** Minimum interval for a host: the most specific configured domain, or the default */
+  intervalFor(host: string): number {
+    let match: { domain: string; interval: number } | undefined;
+    for (const [domain, interval] of Object.entries(this.config.domainIntervals)) {
+      const normalized = domain.toLowerCase();
+      if ((host === normalized || host.endsWith(`.${normalized}`)) && (!match || normalized.length > match.domain.length)) {
+        match = { domain: normalized, interval };
+      }
+    }
+    return match?.interval ?? this.config.minHostInterval;
+  }
+
+  /** Take a slot for the host, then wait for its turn */
+  private async acquire(state: HostState, interval: number, signal?: AbortSignal): Promise<void> {
+    while (state.active >= this.config.maxConcurrentPerHost) {
+      await new Promise<void>((resolve, reject) => {
+        const wake = () => {
+          signal?.removeEventListener('abort', onAbort);
+          resolve();
+        };
+        const onAbort = () => {
+          state.waiting.splice(state.waiting.indexOf(wake), 1);
+          reject(signal!.reason);
+        };
+        if (signal?.aborted) {
+          reject(signal.reason);
+          return;
+        }
+        state.waiting.push(wake);
+        signal?.addEventListener('abort', onAbort, { once: true });
+      });
+    }
+    state.active++;
+
+    try {
+      // Reserve a start time before sleeping so concurrent requests are spaced out;
+      // a backoff that begins while waiting means reserving again after it
+      for (;;) {
+        const now = Date.now();
+        const start = Math.max(now, state.nextStart, state.blockedUntil);
+        state.nextStart = start + interval;
+        if (start > now) {
+          await delay(start - now, signal);
+        }
+        if (state.blockedUntil <= Date.now()) {
+          return;
+        }
+      }
+    } catch (error) {
+      this.release(state);
+      throw error;
+    }
+  }
+
+  private release(state: HostState): void {
+    state.active--;
+    state.waiting.shift()?.();
+  }
+
+  private state(host: string): HostState {
+    let state = this.hosts.get(host);
+    if (!state) {
+      if (this.hosts.size >= MAX_IDLE_HOSTS) {
+        this.pruneIdle();
+      }
+      state = { active: 0, waiting: [], nextStart: 0, blockedUntil: 0, failures: 0 };
+      this.hosts.set(host, state);
+    }
+    return state;
+  }
+
+  private pruneIdle(): void {
+    const now = Date.now();
+    for (const [host, state] of this.hosts) {
+      if (state.active === 0 && state.waiting.length === 0 && state.nextStart <= now && state.blockedUntil <= now) {
+        this.hosts.delete(host);
+      }
+    }
+  }
+}
@@ -0,0 +1,38 @@
+/**
+ * Network
+ * The hardened HTTP client source fetchers use: SSRF checks on every
+ * redirect hop and resolved address, connections pinned to vetted addresses,
+ * capped response bodies, and per-host politeness (robots.txt, crawl delays,
+ * concurrency caps and backoff)
+ *
+ * Version: 1.0.0
+ */
+
+export {
+  SafeFetcher,
+  getSafeFetcher,
+  setSafeFetcher,
+  safeFetch,
+  DEFAULT_SAFE_FETCHER_CONFIG,
+  type Fetcher,
+  type SafeFetchInit,
+  type SafeFetcherConfig,
+  type SafeFetcherDependencies
+} from './safe-fetcher.js';
+
+export {
+  HostScheduler,
+  parseRetryAfter,
+  type HostSchedulerConfig,
+  type ScheduleOptions
+} from './host-scheduler.js';
+
+export {
+  RobotsCache,
+  parseRobotsTxt,
+  isPathAllowed,
+  ROBOTS_USER_AGENT,
+  type RobotsPolicy,
+  type RobotsRule,
+  type RobotsCacheConfig
+} from './robots.js';
@@ -0,0 +1,246 @@
+/**
+ * robots.txt
+ * Parses robots.txt (RFC 9309) into the rules and crawl delay that apply to
+ * our user agent, and caches each origin's policy
+ */
+
+import { createLogger } from '../logging/index.js';
+import { getErrorMessage } from '../errors/index.js';
+import { TIME, USER_AGENT } from '../constants/index.js';
+
+const logger = createLogger('robots');
+
+/** Product token matched against `User-agent` lines */
+export const ROBOTS_USER_AGENT = USER_AGENT.SHORT.split('/')[0];
+
+/** Crawlers only have to read this much of a robots.txt; the rest is ignored */
+export const MAX_ROBOTS_BYTES = 500 * 1024;
+
+/** Cached origins kept before expired policies are pruned */
+const MAX_CACHED_ORIGINS = 1000;
+
+export interface RobotsRule {
+  allow: boolean;
+  /** Path pattern; `*` matches any run of characters and a trailing `$` anchors the end */
+  pattern: string;
+}
+
+/** What robots.txt asks of our user agent */
+export interface RobotsPolicy {
+  rules: RobotsRule[];
+  /** Crawl-delay, in milliseconds */
+  crawlDelay?: number;
+}
+
+interface RobotsGroup {
+  agents: string[];
+  rules: RobotsRule[];
+  crawlDelay?: number;
+}
+
+/**
+ * The policy for `userAgent`: the rules of every group naming its product
+ * token, or of the `*` groups when none does
+ */
+export function parseRobotsTxt(text: string, userAgent: string = ROBOTS_USER_AGENT): RobotsPolicy {
+  const groups: RobotsGroup[] = [];
+  let group: RobotsGroup | undefined;
+  let inAgentLines = false;
+
+  for (const rawLine of text.split(/\r\n|\r|\n/)) {
+    const line = rawLine.replace(/#.*$/, '').trim();
+    const separator = line.indexOf(':');
+    if (separator < 0) {
+      continue;
+    }
+    const key = line.slice(0, separator).trim().toLowerCase();
+    const value = line.slice(separator + 1).trim();
+
+    if (key === 'user-agent') {
+      // Consecutive User-agent lines share one group
+      if (!group || !inAgentLines) {
+        group = { agents: [], rules: [] };
+        groups.push(group);
+      }
+      group.agents.push(value.split('/')[0].trim().toLowerCase());
+      inAgentLines = true;
+      continue;
+    }
+    inAgentLines = false;
+    if (!group) {
+      continue;
+    }
+
+    if ((key === 'allow' || key === 'disallow') && value) {
+      group.rules.push({ allow: key === 'allow', pattern: value });
+    } else if (key === 'crawl-delay') {
+      const seconds = Number(value);
+      if (Number.isFinite(seconds) && seconds >= 0) {
+        group.crawlDelay = seconds * TIME.SECOND;
+      }
+    }
+  }
+
+  const token = userAgent.split('/')[0].trim().toLowerCase();
+  const named = groups.filter(candidate => candidate.agents.includes(token));
+  const matching = named.length > 0 ? named : groups.filter(candidate => candidate.agents.includes('*'));
+  const delays = matching.map(candidate => candidate.crawlDelay).filter((delay): delay is number => delay !== undefined);
+
+  return {
+    rules: matching.flatMap(candidate => candidate.rules),
+    crawlDelay: delays.length > 0 ? Math.max(...delays) : undefined
+  };
+}
+
+function patternMatches(pattern: string, path: string): boolean {
+  const anchored = pattern.endsWith('$');
+  const body = anchored ? pattern.slice(0, -1) : pattern;
+  const source = body.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*');
+  return new RegExp(`^${source}${anchored ? '$' : ''}`).test(path);
+}
+
+/**
+ * Whether a path (with its query) may be fetched: the longest matching rule
+ * decides, and Allow wins a tie
+ */
+export function isPathAllowed(policy: RobotsPolicy, path: string): boolean {
+  if (path === '/robots.txt') {
+    return true;
+  }
+
+  let best: RobotsRule | undefined;
+  for (const rule of policy.rules) {
+    if (!patternMatches(rule.pattern, path)) {
+      continue;
+    }
+    if (!best || rule.pattern.length > best.pattern.length || (rule.pattern.length === best.pattern.length && rule.allow)) {
+      best = rule;
+    }
+  }
+  return best?.allow ?? true;
+}
+
+export interface RobotsCacheConfig {
+  /** How long a fetched robots.txt is trusted */
+  ttl: number;
+  /** How long to wait before asking again when robots.txt could not be read */
+  retryTtl: number;
+  userAgent: string;
+}
+
+interface CachedPolicy {
+  policy: RobotsPolicy;
+  expiresAt: number;
+}
+
+/**
+ * The first `maxBytes` of a body as text, without reading the rest. A line
+ * cut off at the limit is dropped rather than parsed as a shorter rule.
+ */
+async function readPrefix(response: Response, maxBytes: number): Promise<string> {
+  if (!response.body) {
+    return '';
+  }
+
+  const reader = response.body.getReader();
+  const bytes = new Uint8Array(maxBytes);
+  let length = 0;
+  let truncated = false;
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) {
+      break;
+    }
+    if (length + value.byteLength > maxBytes) {
+      bytes.set(value.subarray(0, maxBytes - length), length);
+      length = maxBytes;
+      truncated = true;
+      await reader.cancel();
+      break;
+    }
+    bytes.set(value, length);
+    length += value.byteLength;
+  }
+
+  const text = new TextDecoder().decode(bytes.subarray(0, length));
+  return truncated ? text.slice(0, text.lastIndexOf('\n') + 1) : text;
+}
+
+/** Fetches robots.txt at most once per origin per TTL */
+export class RobotsCache {
+  private readonly config: RobotsCacheConfig;
+  private readonly policies = new Map<string, CachedPolicy>();
+  private readonly pending = new Map<string, Promise<RobotsPolicy>>();
+
+  constructor(
+    private readonly fetchRobots: (url: string) => Promise<Response>,
+    config: Partial<RobotsCacheConfig> = {}
+  ) {
+    this.config = { ttl: TIME.DAY, retryTtl: 5 * TIME.MINUTE, userAgent: ROBOTS_USER_AGENT, ...config };
+  }
+
+  /** The policy of a URL's origin, fetched when not cached */
+  async policyFor(url: URL): Promise<RobotsPolicy> {
+    const origin = url.origin;
+    const cached = this.policies.get(origin);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.policy;
+    }
+
+    let loading = this.pending.get(origin);
+    if (!loading) {
+      loading = this.load(origin).finally(() => this.pending.delete(origin));
+      this.pending.set(origin, loading);
+    }
+    return loading;
+  }
+
+  async isAllowed(url: URL): Promise<boolean> {
+    return isPathAllowed(await this.policyFor(url), url.pathname + url.search);
+  }
+
+  clear(): void {
+    this.policies.clear();
+  }
+
+  /**
+   * A missing robots.txt (4xx) allows everything. One that cannot be read
+   * (5xx, network failure) also allows everything, but is asked for again
+   * after `retryTtl` rather than the full TTL.
+   */
+  private async load(origin: string): Promise<RobotsPolicy> {
+    const url = `${origin}/robots.txt`;
+    let policy: RobotsPolicy = { rules: [] };
+    let ttl = this.config.ttl;
+
+    try {
+      const response = await this.fetchRobots(url);
+      if (response.ok) {
+        policy = parseRobotsTxt(await readPrefix(response, MAX_ROBOTS_BYTES), this.config.userAgent);
+      } else {
+        await response.body?.cancel();
+        if (response.status >= 500 || response.status === 429) {
+          ttl = this.config.retryTtl;
+        }
+      }
+    } catch (error) {
+      logger.warn('Failed to read robots.txt', { url, error: getErrorMessage(error) });
+      ttl = this.config.retryTtl;
+    }
+
+    if (this.policies.size >= MAX_CACHED_ORIGINS) {
+      this.pruneExpired();
+    }
+    this.policies.set(origin, { policy, expiresAt: Date.now() + ttl });
+    return policy;
+  }
+
+  private pruneExpired(): void {
+    const now = Date.now();
+    for (const [origin, cached] of this.policies) {
+      if (cached.expiresAt <= now) {
+        this.policies.delete(origin);
+      }
+    }
+  }
+}
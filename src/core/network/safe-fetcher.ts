@@ -0,0 +1,335 @@
+/**
+ * Safe Fetcher
+ * The HTTP client every source fetch goes through. Redirects are followed by
+ * hand so each hop is checked against the SSRF policy, hostnames are
+ * resolved and every address they resolve to is vetted, the connection is
+ * pinned to the vetted address so a second lookup cannot rebind it, and
+ * response bodies are capped while they stream. Each request also waits its
+ * turn with the host scheduler and, unless opted out, checks robots.txt.
+ */
+
+import { promises as dns } from 'dns';
+import { isIP } from 'net';
+import { checkServerIdentity, type PeerCertificate } from 'tls';
+import { ContentError, NetworkError, ValidationError, getErrorMessage } from '../errors/index.js';
+import { SIZE, TIME, USER_AGENT } from '../constants/index.js';
+import { getConfig } from '../config/index.js';
+import { ErrorCategory } from '../types/index.js';
+import { ssrfProtection, type SSRFProtection } from '../validators/ssrf-protection.js';
+import { HostScheduler } from './host-scheduler.js';
+import { RobotsCache, isPathAllowed } from './robots.js';
+
+/** A fetch-compatible function */
+export type Fetcher = (input: string | URL, init?: RequestInit) => Promise<Response>;
+
+export interface SafeFetcherConfig {
+  /** Redirects followed before giving up */
+  maxRedirects: number;
+  /** Largest response body read, in bytes */
+  maxBytes: number;
+  /** Time allowed for the whole request, redirects and body included */
+  timeoutMs: number;
+  /** Check robots.txt (and honour its Crawl-delay) before each request */
+  respectRobots: boolean;
+  /** How long a fetched robots.txt is trusted */
+  robotsTtl: number;
+}
+
+/** Request options, with per-request overrides of the fetcher's limits */
+export interface SafeFetchInit extends RequestInit, Partial<Omit<SafeFetcherConfig, 'robotsTtl'>> {}
+
+export interface SafeFetcherDependencies {
+  /** SSRF policy URLs and resolved addresses are checked against */
+  ssrf?: SSRFProtection;
+  /** Resolve a hostname to every address it points at */
+  lookup?: (hostname: string) => Promise<string[]>;
+  /** Send one request to an already vetted address */
+  transport?: (url: URL, address: string, init: RequestInit) => Promise<Response>;
+  /** Per-host politeness; defaults to one built from the application config */
+  scheduler?: HostScheduler;
+}
+
+export const DEFAULT_SAFE_FETCHER_CONFIG: Omit<SafeFetcherConfig, 'respectRobots' | 'robotsTtl'> = {
+  maxRedirects: 5,
+  maxBytes: SIZE.MAX_CONTENT_LENGTH,
+  timeoutMs: 30 * TIME.SECOND
+};
+
+/** robots.txt gets less time than a page */
+const ROBOTS_TIMEOUT_MS = 10 * TIME.SECOND;
+
+const REDIRECT_STATUSES = new Set([301, 302, 303, 307, 308]);
+const NULL_BODY_STATUSES = new Set([101, 204, 205, 304]);
+
+/** Every address a hostname resolves to, in resolver order */
+async function lookupAll(hostname: string): Promise<string[]> {
+  const addresses = await dns.lookup(hostname, { all: true, verbatim: true });
+  return addresses.map(entry => entry.address);
+}
+
+/**
+ * Connect to the vetted address rather than resolving the hostname again.
+ * The request keeps its Host header, TLS server name and certificate check
+ * for the original hostname.
+ */
+async function pinnedFetch(url: URL, address: string, init: RequestInit): Promise<Response> {
+  const hostname = url.hostname.replace(/^\[(.*)\]$/, '$1');
+  if (hostname === address) {
+    return fetch(url, init);
+  }
+
+  const target = new URL(url);
+  target.hostname = address.includes(':') ? `[${address}]` : address;
+  const headers = new Headers(init.headers);
+  headers.set('Host', url.host);
+
+  return fetch(target, {
+    ...init,
+    headers,
+    tls: {
+      serverName: hostname,
+      checkServerIdentity: (_host: string, certificate: PeerCertificate) => checkServerIdentity(hostname, certificate)
+    }
+  });
+}
+
+function blocked(url: string, reason: string | undefined): ValidationError {
+  return new ValidationError({
+    message: `Request to ${url} blocked: ${reason ?? 'URL blocked by security policy'}`,
+    code: 'URL_BLOCKED',
+    category: ErrorCategory.VALIDATION,
+    field: 'url',
+    value: url
+  });
+}
+
+function disallowed(url: string): ValidationError {
+  return new ValidationError({
+    message: `Request to ${url} disallowed by robots.txt`,
+    code: 'ROBOTS_DISALLOWED',
+    category: ErrorCategory.VALIDATION,
+    field: 'url',
+    value: url,
+    suggestion: 'Set respectRobots to false to fetch it anyway'
+  });
+}
+
+function tooLarge(url: string, maxBytes: number): ContentError {
+  return new ContentError({
+    message: `Response from ${url} is larger than ${maxBytes} bytes`,
+    code: 'RESPONSE_TOO_LARGE',
+    category: ErrorCategory.PROCESSING,
+    contentUrl: url,
+    recoverable: false
+  });
+}
+
+export class SafeFetcher {
+  private readonly config: SafeFetcherConfig;
+  private readonly ssrf: SSRFProtection;
+  private readonly lookup: (hostname: string) => Promise<string[]>;
+  private readonly transport: (url: URL, address: string, init: RequestInit) => Promise<Response>;
+  private readonly scheduler: HostScheduler;
+  private readonly robots: RobotsCache;
+
+  constructor(config: Partial<SafeFetcherConfig> = {}, dependencies: SafeFetcherDependencies = {}) {
+    const { respectRobots, robotsTtl } = getConfig().fetching;
+    this.config = { ...DEFAULT_SAFE_FETCHER_CONFIG, respectRobots, robotsTtl, ...config };
+    this.ssrf = dependencies.ssrf ?? ssrfProtection;
+    this.lookup = dependencies.lookup ?? lookupAll;
+    this.transport = dependencies.transport ?? pinnedFetch;
+    this.scheduler = dependencies.scheduler ?? new HostScheduler();
+    // robots.txt is fetched through this fetcher too, without checking itself; the cache reads
+    // only the first MAX_ROBOTS_BYTES of it
+    this.robots = new RobotsCache(url => this.fetch(url, {
+      respectRobots: false,
+      timeoutMs: ROBOTS_TIMEOUT_MS,
+      headers: { 'User-Agent': USER_AGENT.DEFAULT }
+    }), { ttl: this.config.robotsTtl });
+  }
+
+  /**
+   * Fetch a URL, following up to `maxRedirects` redirects. The response's
+   * `url` is the final URL; its body errors once it passes `maxBytes`.
+   */
+  async fetch(input: string | URL, init: SafeFetchInit = {}): Promise<Response> {
+    const {
+      maxRedirects = this.config.maxRedirects,
+      maxBytes = this.config.maxBytes,
+      timeoutMs = this.config.timeoutMs,
+      respectRobots = this.config.respectRobots,
+      ...requestInit
+    } = init;
+    const timeout = AbortSignal.timeout(timeoutMs);
+    const signal = requestInit.signal ? AbortSignal.any([requestInit.signal, timeout]) : timeout;
+    const headers = new Headers(requestInit.headers);
+    let method = (requestInit.method ?? 'GET').toUpperCase();
+    let body = requestInit.body;
+
+    let url: URL;
+    try {
+      url = new URL(String(input));
+    } catch {
+      throw blocked(String(input), 'Invalid URL');
+    }
+
+    for (let redirects = 0; ; redirects++) {
+      const address = await this.resolve(url);
+      const policy = respectRobots ? await this.robots.policyFor(url) : undefined;
+      if (policy && !isPathAllowed(policy, url.pathname + url.search)) {
+        throw disallowed(url.href);
+      }
+
+      const hop = url;
+      const hopInit: RequestInit = { ...requestInit, method, headers, body, signal, redirect: 'manual' };
+      const response = await this.scheduler.run(url, () => this.transport(hop, address, hopInit), {
+        signal,
+        crawlDelay: policy?.crawlDelay,
+        retry: method === 'GET' || method === 'HEAD'
+      });
+
+      const location = response.headers.get('location');
+      if (!REDIRECT_STATUSES.has(response.status) || !location) {
+        return this.capBody(response, url, maxBytes, redirects > 0);
+      }
+      await response.body?.cancel();
+
+      if (redirects >= maxRedirects) {
+        throw new NetworkError({
+          message: `Too many redirects fetching ${String(input)} (max: ${maxRedirects})`,
+          code: 'TOO_MANY_REDIRECTS',
+          category: ErrorCategory.NETWORK,
+          url: String(input),
+          statusCode: response.status,
+          recoverable: false
+        });
+      }
+
+      let next: URL;
+      try {
+        next = new URL(location, url);
+      } catch {
+        throw blocked(location, 'Invalid redirect location');
+      }
+      // As browsers do: 303, and 301/302 after a POST, continue as a GET without the body
+      if (response.status === 303 || (method === 'POST' && (response.status === 301 || response.status === 302))) {
+        method = 'GET';
+        body = undefined;
+        headers.delete('content-type');
+        headers.delete('content-length');
+      }
+      // Credentials are never sent on to another origin
+      if (next.origin !== url.origin) {
+        headers.delete('authorization');
+        headers.delete('cookie');
+      }
+      url = next;
+    }
+  }
+
+  /**
+   * Check a URL against the SSRF policy and return the address to connect
+   * to. Hostnames are resolved, and refused if any address is blocked.
+   */
+  async resolve(url: URL): Promise<string> {
+    const check = this.ssrf.validateURL(url.href);
+    if (!check.safe) {
+      throw blocked(url.href, check.error);
+    }
+
+    const hostname = url.hostname.replace(/^\[(.*)\]$/, '$1');
+    if (isIP(hostname)) {
+      return hostname;
+    }
+
+    let addresses: string[];
+    try {
+      addresses = await this.lookup(hostname);
+    } catch (error) {
+      throw new NetworkError({
+        message: `Failed to resolve ${hostname}: ${getErrorMessage(error)}`,
+        code: 'DNS_LOOKUP_FAILED',
+        category: ErrorCategory.NETWORK,
+        url: url.href,
+        cause: error instanceof Error ? error : undefined
+      });
+    }
+    if (addresses.length === 0) {
+      throw new NetworkError({
+        message: `Failed to resolve ${hostname}: no addresses`,
+        code: 'DNS_LOOKUP_FAILED',
+        category: ErrorCategory.NETWORK,
+        url: url.href
+      });
+    }
+
+    for (const address of addresses) {
+      const result = this.ssrf.validateIP(address);
+      if (!result.safe) {
+        throw blocked(url.href, `${hostname} resolves to ${address}. ${result.error ?? ''}`.trim());
+      }
+    }
+    return addresses[0];
+  }
+
+  /** The response with its body limited to `maxBytes` as it streams */
+  private capBody(response: Response, url: URL, maxBytes: number, redirected: boolean): Response {
+    const declared = Number(response.headers.get('content-length') ?? 0);
+    if (declared > maxBytes) {
+      void response.body?.cancel();
+      throw tooLarge(url.href, maxBytes);
+    }
+
+    let received = 0;
+    const body = response.body && !NULL_BODY_STATUSES.has(response.status)
+      ? response.body.pipeThrough(new TransformStream<Uint8Array, Uint8Array>({
+        transform(chunk, controller) {
+          received += chunk.byteLength;
+          if (received > maxBytes) {
+            controller.error(tooLarge(url.href, maxBytes));
+            return;
+          }
+          controller.enqueue(chunk);
+        }
+      }))
+      : null;
+
+    const capped = new Response(body, {
+      status: response.status,
+      statusText: response.statusText,
+      headers: response.headers
+    });
+    Object.defineProperties(capped, {
+      url: { value: url.href },
+      redirected: { value: redirected }
+    });
+    return capped;
+  }
+}
+
+let sharedFetcher: SafeFetcher | null = null;
+
+/**
+ * Get the shared safe fetcher
+ */
+export function getSafeFetcher(): SafeFetcher {
+  if (!sharedFetcher) {
+    sharedFetcher = new SafeFetcher();
+  }
+  return sharedFetcher;
+}
+
+/**
+ * Replace the shared safe fetcher (tests)
+ */
+export function setSafeFetcher(fetcher: SafeFetcher | null): void {
+  sharedFetcher = fetcher;
+}
+
+/**
+ * Fetch through the shared safe fetcher; a drop-in for `fetch` in source
+ * fetchers
+ */
+export function safeFetch(input: string | URL, init?: SafeFetchInit): Promise<Response> {
+  return getSafeFetcher().fetch(input, init);
+}
@@ -0,0 +1,338 @@
+/**
+ * Podcast Episodes
+ * Resolves an episode URL to its item in the show's RSS feed, through the
+ * iTunes lookup API for Apple Podcasts links or the feed a web page
+ * advertises, and downloads the transcript the item publishes
+ */
+
+import * as cheerio from 'cheerio';
+import { createLogger } from '../logging/index.js';
+import { ContentError, NetworkError, getErrorMessage, isObsidianizeError } from '../errors/index.js';
+import { TIME } from '../constants/index.js';
+import { safeFetch, type Fetcher } from '../network/index.js';
+import { formatTimestamp, transcriptToText } from '../transcript.js';
+import { ErrorCategory, type Transcript } from '../types/index.js';
+import { parsePodcastFeed, type PodcastEpisode, type PodcastFeed } from './feed.js';
+import {
+  TRANSCRIPT_FORMAT_PREFERENCE,
+  detectTranscriptFormat,
+  parseTranscript,
+  type TranscriptFormat
+} from './transcript-formats.js';
+
+const logger = createLogger('podcast');
+
+const MAX_PAGE_BYTES = 5 * 1024 * 1024;
+/** Long-running shows publish feeds of several megabytes */
+const MAX_FEED_BYTES = 20 * 1024 * 1024;
+const MAX_TRANSCRIPT_BYTES = 10 * 1024 * 1024;
+
+const USER_AGENT = 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36';
+
+export interface PodcastFetchOptions {
+  timeoutMs?: number;
+  signal?: AbortSignal;
+  fetch?: Fetcher;
+  /** Check robots.txt before fetching; the application config decides when unset */
+  respectRobots?: boolean;
+}
+
+/** An episode URL resolved to its feed item */
+export interface PodcastEpisodeSource {
+  feedUrl: string;
+  feed: PodcastFeed;
+  episode: PodcastEpisode;
+}
+
+export interface PodcastExtraction {
+  title: string;
+  /** Show notes as plain text */
+  description?: string;
+  /** Show and episode details for the gem's frontmatter */
+  metadata: Record<string, unknown>;
+  transcript?: Transcript;
+}
+
+/** What is known about the episode before its feed item is found */
+interface EpisodeHints {
+  feedUrl?: string;
+  guid?: string;
+  title?: string;
+  enclosureUrl?: string;
+  description?: string;
+}
+
+async function fetchText(url: string, options: PodcastFetchOptions, maxBytes: number): Promise<string> {
+  const timeout = AbortSignal.timeout(options.timeoutMs ?? 30 * TIME.SECOND);
+  let response: Response;
+  try {
+    response = await (options.fetch ?? safeFetch)(url, {
+      headers: { 'User-Agent': USER_AGENT },
+      signal: options.signal ? AbortSignal.any([timeout, options.signal]) : timeout,
+      respectRobots: options.respectRobots,
+      maxBytes
+    });
+  } catch (error) {
+    if (isTooLarge(error)) {
+      throw tooLarge(url, maxBytes);
+    }
+    throw new NetworkError({
+      message: `Failed to fetch ${url}: ${getErrorMessage(error)}`,
+      code: 'PODCAST_FETCH_FAILED',
+      category: ErrorCategory.NETWORK,
+      url,
+      recoverable: !isObsidianizeError(error) || error.recoverable,
+      cause: error instanceof Error ? error : undefined
+    });
+  }
+  if (!response.ok) {
+    throw new NetworkError({
+      message: `Failed to fetch ${url}: HTTP ${response.status}`,
+      code: 'PODCAST_FETCH_FAILED',
+      category: ErrorCategory.NETWORK,
+      url,
+      statusCode: response.status,
+      recoverable: response.status >= 500 || response.status === 429
+    });
+  }
+
+  // The safe fetcher stops reading at maxBytes
+  return response.text().catch(error => {
+    throw isTooLarge(error) ? tooLarge(url, maxBytes) : error;
+  });
+}
+
+function isTooLarge(error: unknown): boolean {
+  return isObsidianizeError(error) && error.code === 'RESPONSE_TOO_LARGE';
+}
+
+function tooLarge(url: string, maxBytes: number): ContentError {
+  return new ContentError({
+    message: `Response is larger than ${maxBytes} bytes`,
+    code: 'PODCAST_TOO_LARGE',
+    category: ErrorCategory.PROCESSING,
+    contentUrl: url,
+    recoverable: false
+  });
+}
+
+/** Compare URLs without scheme, www., fragment or trailing slash */
+function sameUrl(a: string | undefined, b: string | undefined): boolean {
+  const normalize = (url: string) => url.trim().replace(/^https?:\/\/(?:www\.)?/i, '').replace(/#.*$/, '').replace(/\/+$/, '').toLowerCase();
+  return Boolean(a && b) && normalize(a!) === normalize(b!);
+}
+
+function normalizeTitle(title: string): string {
+  return title.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+}
+
+/**
+ * The feed item the hints describe: by GUID, audio file or page link, then
+ * by title (a page title often adds the show name around the episode's)
+ */
+function findEpisode(feed: PodcastFeed, url: string, hints: EpisodeHints): PodcastEpisode | undefined {
+  const byIdentity = feed.episodes.find(episode =>
+    (hints.guid && episode.guid === hints.guid) ||
+    sameUrl(episode.enclosureUrl?.split('?')[0], hints.enclosureUrl?.split('?')[0]) ||
+    sameUrl(episode.link, url) ||
+    sameUrl(episode.guid, url)
+  );
+  if (byIdentity || !hints.title) {
+    return byIdentity;
+  }
+
+  const title = normalizeTitle(hints.title);
+  const titled = feed.episodes.filter(episode => episode.title);
+  return titled.find(episode => normalizeTitle(episode.title!) === title)
+    ?? titled
+      .filter(episode => normalizeTitle(episode.title!).length >= 8 && title.includes(normalizeTitle(episode.title!)))
+      .sort((a, b) => b.title!.length - a.title!.length)[0];
+}
+
+/** Feed URL and episode identity from the iTunes lookup API */
+async function appleHints(url: string, options: PodcastFetchOptions): Promise<EpisodeHints | null> {
+  const parsed = new URL(url);
+  const showId = parsed.pathname.match(/\/id(\d+)/)?.[1];
+  if (!/(^|\.)apple\.com$/.test(parsed.hostname) || !showId) {
+    return null;
+  }
+  const episodeId = parsed.searchParams.get('i');
+
+  const lookup = JSON.parse(await fetchText(
+    `https://itunes.apple.com/lookup?id=${showId}&entity=podcastEpisode&limit=200`,
+    options,
+    MAX_PAGE_BYTES
+  )) as { results?: Array<Record<string, any>> };
+  const results = lookup.results ?? [];
+  const show = results.find(result => typeof result.feedUrl === 'string');
+  const episode = episodeId ? results.find(result => String(result.trackId) === episodeId && result.wrapperType === 'podcastEpisode') : undefined;
+
+  return {
+    feedUrl: show?.feedUrl,
+    guid: episode?.episodeGuid,
+    title: episode?.trackName,
+    enclosureUrl: episode?.episodeUrl,
+    description: episode?.description
+  };
+}
+
+/** Feed URL advertised by an episode page, and the page's own title and description */
+async function pageHints(url: string, options: PodcastFetchOptions): Promise<EpisodeHints> {
+  const $ = cheerio.load(await fetchText(url, options, MAX_PAGE_BYTES));
+  const feedHref = $('link[rel="alternate"][type="application/rss+xml"]').first().attr('href');
+  let feedUrl: string | undefined;
+  try {
+    feedUrl = feedHref ? new URL(feedHref, url).href : undefined;
+  } catch {
+    feedUrl = undefined;
+  }
+  return {
+    feedUrl,
+    title: ($('meta[property="og:title"]').attr('content') || $('title').text() || $('h1').first().text()).trim() || undefined,
+    description: ($('meta[property="og:description"]').attr('content') || $('meta[name="description"]').attr('content') || '').trim() || undefined
+  };
+}
+
+/** Episode hints, with the page's title and description filled in if the lookup lacked them */
+async function episodeHints(url: string, options: PodcastFetchOptions): Promise<EpisodeHints> {
+  let hints: EpisodeHints | null = null;
+  try {
+    hints = await appleHints(url, options);
+  } catch (error) {
+    logger.warn('iTunes lookup failed, reading the episode page', { url, error: getErrorMessage(error) });
+  }
+  if (hints?.feedUrl && hints.title) {
+    return hints;
+  }
+  const page = await pageHints(url, options);
+  return { ...page, ...Object.fromEntries(Object.entries(hints ?? {}).filter(([, value]) => value !== undefined)) };
+}
+
+async function resolveWithHints(url: string, hints: EpisodeHints, options: PodcastFetchOptions): Promise<PodcastEpisodeSource | null> {
+  if (!hints.feedUrl) {
+    return null;
+  }
+  const feed = parsePodcastFeed(await fetchText(hints.feedUrl, options, MAX_FEED_BYTES));
+  const episode = feed ? findEpisode(feed, url, hints) : undefined;
+  if (!feed || !episode) {
+    logger.warn('Episode not found in its feed', { url, feedUrl: hints.feedUrl });
+    return null;
+  }
+  return { feedUrl: hints.feedUrl, feed, episode };
+}
+
+/**
+ * Find the feed item of an episode URL. Returns null when the page names no
+ * feed (e.g. Spotify) or the feed has no matching item.
+ */
+export async function resolvePodcastEpisode(url: string, options: PodcastFetchOptions = {}): Promise<PodcastEpisodeSource | null> {
+  return resolveWithHints(url, await episodeHints(url, options), options);
+}
+
+/**
+ * Download and parse the episode's best transcript: formats with timings
+ * and speakers first, in the show's language when it offers several
+ */
+export async function fetchEpisodeTranscript(
+  source: PodcastEpisodeSource,
+  options: PodcastFetchOptions = {}
+): Promise<{ transcript: Transcript; url: string; format: TranscriptFormat } | null> {
+  const language = source.feed.language?.toLowerCase().split('-')[0];
+  const candidates = source.episode.transcripts
+    .map(link => ({ link, format: detectTranscriptFormat(link.type, link.url) }))
+    .filter((candidate): candidate is { link: typeof candidate.link; format: TranscriptFormat } => candidate.format !== undefined)
+    .sort((a, b) => {
+      const inLanguage = (link: { language?: string }) => !language || !link.language || link.language.toLowerCase().startsWith(language) ? 0 : 1;
+      return inLanguage(a.link) - inLanguage(b.link) ||
+        TRANSCRIPT_FORMAT_PREFERENCE.indexOf(a.format) - TRANSCRIPT_FORMAT_PREFERENCE.indexOf(b.format);
+    });
+
+  for (const { link, format } of candidates) {
+    try {
+      const url = new URL(link.url, source.feedUrl).href;
+      const transcript = parseTranscript(await fetchText(url, options, MAX_TRANSCRIPT_BYTES), format, link.language ?? source.feed.language);
+      if (transcript) {
+        return { transcript, url, format };
+      }
+    } catch (error) {
+      options.signal?.throwIfAborted();
+      logger.warn('Failed to read podcast transcript', { url: link.url, format, error: getErrorMessage(error) });
+    }
+  }
+  return null;
+}
+
+/**
+ * Episode details and transcript for an episode URL. When no feed item can
+ * be found, only the page's title and description are returned.
+ */
+export async function extractPodcastEpisode(url: string, options: PodcastFetchOptions = {}): Promise<PodcastExtraction> {
+  const hints = await episodeHints(url, options);
+  const source = await resolveWithHints(url, hints, options);
+  if (!source) {
+    return {
+      title: hints.title ?? 'Podcast Episode',
+      description: hints.description,
+      metadata: { platform: 'podcast', url, transcriptAvailable: false, ...(hints.feedUrl ? { feedUrl: hints.feedUrl } : {}) }
+    };
+  }
+
+  const { feed, episode } = source;
+  const found = await fetchEpisodeTranscript(source, options);
+  const metadata: Record<string, unknown> = {
+    platform: 'podcast',
+    url,
+    show: feed.title,
+    author: feed.author,
+    showUrl: feed.link,
+    thumbnail: feed.image,
+    episodeNumber: episode.episode,
+    seasonNumber: episode.season,
+    duration: episode.duration !== undefined ? formatTimestamp(episode.duration) : undefined,
+    durationSeconds: episode.duration,
+    publishDate: episode.publishedAt?.toISOString(),
+    feedUrl: source.feedUrl,
+    audioUrl: episode.enclosureUrl,
+    transcriptAvailable: Boolean(found),
+    transcriptUrl: found?.url,
+    transcriptFormat: found?.format,
+    transcriptSegments: found?.transcript.segments.length
+  };
+
+  logger.info('Resolved podcast episode', { url, feedUrl: source.feedUrl, transcript: found?.format ?? 'none' });
+  return {
+    title: episode.title ?? hints.title ?? 'Podcast Episode',
+    description: episode.description ?? hints.description,
+    metadata: Object.fromEntries(Object.entries(metadata).filter(([, value]) => value !== undefined)),
+    transcript: found?.transcript
+  };
+}
+
+/**
+ * Text for analysis: a header with the show details, the transcript (with
+ * [mm:ss] markers when `timestamps`) and the show notes
+ */
+export function podcastContent(extraction: PodcastExtraction, options: { timestamps?: boolean } = {}): string {
+  const { title, description, metadata, transcript } = extraction;
+  const details = [
+    metadata.show ? `**Show:** ${metadata.show}` : undefined,
+    metadata.seasonNumber !== undefined ? `**Season:** ${metadata.seasonNumber}` : undefined,
+    metadata.episodeNumber !== undefined ? `**Episode:** ${metadata.episodeNumber}` : undefined,
+    metadata.duration ? `**Duration:** ${metadata.duration}` : undefined
+  ].filter(Boolean);
+
+  let content = `# ${title}\n\n`;
+  if (details.length > 0) {
+    content += `${details.join(' · ')}\n\n`;
+  }
+  if (transcript) {
+    content += `## Transcript\n\n${transcriptToText(transcript, options)}`;
+    if (description) {
+      content += `\n\n## Show Notes\n\n${description}`;
+    }
+  } else {
+    content += description ? `${description}\n\n` : '';
+    content += '[Note: The feed publishes no transcript for this episode. Analysis based on the show notes.]';
+  }
+  return content;
+}
@@ -0,0 +1,128 @@
+/**
+ * Podcast Feeds
+ * Reads a podcast's RSS feed: show details from the channel and, per item,
+ * the episode's enclosure, iTunes duration and numbering and its
+ * Podcasting 2.0 <podcast:transcript> links
+ */
+
+import * as cheerio from 'cheerio';
+
+/** A <podcast:transcript> link */
+export interface PodcastTranscriptLink {
+  url: string;
+  /** Declared MIME type, e.g. text/vtt */
+  type?: string;
+  language?: string;
+  /** 'captions' for caption files */
+  rel?: string;
+}
+
+export interface PodcastEpisode {
+  guid?: string;
+  title?: string;
+  /** The episode's web page */
+  link?: string;
+  description?: string;
+  publishedAt?: Date;
+  /** Length in seconds */
+  duration?: number;
+  episode?: number;
+  season?: number;
+  /** Audio file */
+  enclosureUrl?: string;
+  transcripts: PodcastTranscriptLink[];
+}
+
+export interface PodcastFeed {
+  title?: string;
+  author?: string;
+  description?: string;
+  link?: string;
+  image?: string;
+  language?: string;
+  episodes: PodcastEpisode[];
+}
+
+/** A selection of XML elements */
+type Node = ReturnType<ReturnType<cheerio.CheerioAPI['root']>['children']>;
+
+/** Text of the first child element among `names` (namespace prefix included) */
+function childText(node: Node, ...names: string[]): string | undefined {
+  for (const name of names) {
+    const text = node.children(name.replace(':', '\\:')).first().text().trim();
+    if (text) {
+      return text;
+    }
+  }
+  return undefined;
+}
+
+function childNumber(node: Node, name: string): number | undefined {
+  const value = Number.parseInt(childText(node, name) ?? '', 10);
+  return Number.isFinite(value) ? value : undefined;
+}
+
+/**
+ * Parse an <itunes:duration>: seconds, mm:ss or hh:mm:ss
+ */
+export function parseItunesDuration(value: string | undefined): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+  const parts = value.trim().split(':');
+  if (parts.length > 3 || parts.some(part => !/^\d+(?:\.\d+)?$/.test(part))) {
+    return undefined;
+  }
+  return Math.round(parts.reduce((total, part) => total * 60 + Number(part), 0));
+}
+
+/** Strip markup from an HTML description */
+function plainText(html: string | undefined): string | undefined {
+  if (!html) {
+    return undefined;
+  }
+  const text = cheerio.load(html).root().text().replace(/\s+/g, ' ').trim();
+  return text || undefined;
+}
+
+/**
+ * Parse a podcast RSS feed; returns null if the document is not RSS
+ */
+export function parsePodcastFeed(xml: string): PodcastFeed | null {
+  const $ = cheerio.load(xml, { xml: true });
+  const channel = $('rss > channel').first();
+  if (channel.length === 0) {
+    return null;
+  }
+
+  const episodes = channel.children('item').toArray().map((element): PodcastEpisode => {
+    const item = $(element);
+    const published = childText(item, 'pubDate');
+    const publishedAt = published ? new Date(published) : undefined;
+    return {
+      guid: childText(item, 'guid'),
+      title: childText(item, 'title', 'itunes:title'),
+      link: childText(item, 'link'),
+      description: plainText(childText(item, 'content:encoded', 'description', 'itunes:summary')),
+      publishedAt: publishedAt && !isNaN(publishedAt.getTime()) ? publishedAt : undefined,
+      duration: parseItunesDuration(childText(item, 'itunes:duration')),
+      episode: childNumber(item, 'itunes:episode') ?? childNumber(item, 'podcast:episode'),
+      season: childNumber(item, 'itunes:season') ?? childNumber(item, 'podcast:season'),
+      enclosureUrl: item.children('enclosure').first().attr('url')?.trim() || undefined,
+      transcripts: item.children('podcast\\:transcript').toArray().flatMap((link): PodcastTranscriptLink[] => {
+        const url = $(link).attr('url')?.trim();
+        return url ? [{ url, type: $(link).attr('type'), language: $(link).attr('language'), rel: $(link).attr('rel') }] : [];
+      })
+    };
+  });
+
+  return {
+    title: childText(channel, 'title'),
+    author: childText(channel, 'itunes:author', 'managingEditor'),
+    description: plainText(childText(channel, 'description', 'itunes:summary')),
+    link: childText(channel, 'link'),
+    image: channel.children('itunes\\:image').first().attr('href') ?? childText(channel.children('image').first(), 'url'),
+    language: childText(channel, 'language'),
+    episodes
+  };
+}
@@ -0,0 +1,30 @@
+/**
+ * Podcasts
+ * Episode URLs resolved to their RSS feed item, with show details and the
+ * transcript the feed publishes
+ *
+ * Version: 1.0.0
+ */
+
+export {
+  parsePodcastFeed,
+  parseItunesDuration,
+  type PodcastFeed,
+  type PodcastEpisode,
+  type PodcastTranscriptLink
+} from './feed.js';
+export {
+  parseTranscript,
+  detectTranscriptFormat,
+  TRANSCRIPT_FORMAT_PREFERENCE,
+  type TranscriptFormat
+} from './transcript-formats.js';
+export {
+  resolvePodcastEpisode,
+  fetchEpisodeTranscript,
+  extractPodcastEpisode,
+  podcastContent,
+  type PodcastFetchOptions,
+  type PodcastEpisodeSource,
+  type PodcastExtraction
+} from './episode.js';
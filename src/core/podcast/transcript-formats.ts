@@ -0,0 +1,203 @@
+/**
+ * Podcast Transcript Formats
+ * Parses the transcript files Podcasting 2.0 feeds publish through
+ * <podcast:transcript>: WebVTT, SRT, the JSON transcript format, HTML and
+ * plain text, keeping speaker labels and cue timings
+ */
+
+import * as cheerio from 'cheerio';
+import type { Transcript, TranscriptSegment } from '../types/index.js';
+
+export type TranscriptFormat = 'vtt' | 'srt' | 'json' | 'html' | 'text';
+
+/** Formats in order of preference: timed and speaker-labelled first */
+export const TRANSCRIPT_FORMAT_PREFERENCE: TranscriptFormat[] = ['json', 'vtt', 'srt', 'html', 'text'];
+
+/** "Name: text" at the start of a cue; up to four capitalized words */
+const SPEAKER_LABEL = /^([A-Z][\w.'’-]*(?: [A-Z][\w.'’-]*){0,3}):\s+(.+)$/s;
+
+/** hh:mm:ss.mmm, mm:ss.mmm, or SRT's hh:mm:ss,mmm */
+const CUE_TIME = /(?:(\d+):)?(\d{1,2}):(\d{2})[.,](\d{1,3})/;
+const CUE_TIMING = new RegExp(`${CUE_TIME.source}\\s*-->\\s*${CUE_TIME.source}`);
+
+/**
+ * Format of a transcript from its declared MIME type, falling back to the
+ * file extension
+ */
+export function detectTranscriptFormat(type: string | undefined, url?: string): TranscriptFormat | undefined {
+  const mime = type?.split(';')[0].trim().toLowerCase();
+  switch (mime) {
+    case 'text/vtt':
+      return 'vtt';
+    case 'application/srt':
+    case 'application/x-subrip':
+    case 'text/srt':
+      return 'srt';
+    case 'application/json':
+      return 'json';
+    case 'text/html':
+      return 'html';
+    case 'text/plain':
+      return 'text';
+  }
+  const extension = url?.split(/[?#]/)[0].match(/\.([a-z]+)$/i)?.[1].toLowerCase();
+  switch (extension) {
+    case 'vtt':
+      return 'vtt';
+    case 'srt':
+      return 'srt';
+    case 'json':
+      return 'json';
+    case 'html':
+    case 'htm':
+      return 'html';
+    case 'txt':
+      return 'text';
+  }
+  return undefined;
+}
+
+function cueSeconds(hours: string | undefined, minutes: string, seconds: string, fraction: string): number {
+  return Number(hours ?? 0) * 3600 + Number(minutes) * 60 + Number(seconds) + Number(fraction.padEnd(3, '0')) / 1000;
+}
+
+/** Split "Name: text" into its speaker and text */
+function splitSpeaker(text: string): { speaker?: string; text: string } {
+  const match = text.match(SPEAKER_LABEL);
+  return match ? { speaker: match[1], text: match[2] } : { text };
+}
+
+function decodeEntities(text: string): string {
+  return text
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+/**
+ * Read VTT or SRT cues. A WebVTT voice tag (`<v Name>`) or a leading
+ * "Name:" labels the speaker; other markup is dropped.
+ */
+function parseCues(body: string): TranscriptSegment[] {
+  const segments: TranscriptSegment[] = [];
+  for (const block of body.replace(/\r\n?/g, '\n').split(/\n{2,}/)) {
+    const lines = block.split('\n');
+    const timingIndex = lines.findIndex(line => CUE_TIMING.test(line));
+    if (timingIndex === -1) {
+      continue;
+    }
+    const timing = lines[timingIndex].match(CUE_TIMING)!;
+    const start = cueSeconds(timing[1], timing[2], timing[3], timing[4]);
+    const end = cueSeconds(timing[5], timing[6], timing[7], timing[8]);
+
+    const raw = lines.slice(timingIndex + 1).join(' ');
+    const voice = raw.match(/<v(?:\.[\w.-]+)?\s+([^>]+)>/)?.[1]?.trim();
+    const text = decodeEntities(raw.replace(/<[^>]+>/g, '')).replace(/\s+/g, ' ').trim();
+    if (!text) {
+      continue;
+    }
+    const labelled = voice ? { speaker: voice, text } : splitSpeaker(text);
+    segments.push({ start, duration: Math.max(0, end - start), ...labelled });
+  }
+  return segments;
+}
+
+/** The Podcasting 2.0 JSON transcript: `{ segments: [{ speaker, startTime, endTime, body }] }` */
+function parseJsonTranscript(body: string): TranscriptSegment[] {
+  let data: { segments?: Array<{ speaker?: unknown; startTime?: unknown; endTime?: unknown; body?: unknown }> };
+  try {
+    data = JSON.parse(body);
+  } catch {
+    return [];
+  }
+  return (Array.isArray(data?.segments) ? data.segments : []).flatMap((segment): TranscriptSegment[] => {
+    const text = typeof segment.body === 'string' ? segment.body.replace(/\s+/g, ' ').trim() : '';
+    const start = Number(segment.startTime);
+    if (!text || !Number.isFinite(start)) {
+      return [];
+    }
+    const end = Number(segment.endTime);
+    const speaker = typeof segment.speaker === 'string' && segment.speaker.trim() ? segment.speaker.trim() : undefined;
+    return [{ text, start, duration: Number.isFinite(end) ? Math.max(0, end - start) : 0, ...(speaker ? { speaker } : {}) }];
+  });
+}
+
+/**
+ * The HTML format: `<cite>` names the speaker and `<time>` the moment for the
+ * paragraphs that follow
+ */
+function parseHtmlTranscript(body: string): { segments: TranscriptSegment[]; timed: boolean } {
+  const $ = cheerio.load(body);
+  const segments: TranscriptSegment[] = [];
+  let speaker: string | undefined;
+  let start = 0;
+  let timed = false;
+
+  $('cite, time, p').each((_, element) => {
+    const node = $(element);
+    const text = node.text().replace(/\s+/g, ' ').trim();
+    switch (element.tagName.toLowerCase()) {
+      case 'cite':
+        speaker = text.replace(/:$/, '').trim() || undefined;
+        break;
+      case 'time': {
+        const match = text.match(/^(?:(\d+):)?(\d{1,2}):(\d{2})(?:[.,](\d{1,3}))?$/);
+        if (match) {
+          start = cueSeconds(match[1], match[2], match[3], match[4] ?? '0');
+          timed = true;
+        }
+        break;
+      }
+      default:
+        // Paragraphs holding a cite or time are handled through their children
+        if (text && node.find('cite, time').length === 0) {
+          const labelled = speaker ? { speaker, text } : splitSpeaker(text);
+          segments.push({ start, duration: 0, ...labelled });
+        }
+    }
+  });
+  return { segments, timed };
+}
+
+function parsePlainTranscript(body: string): TranscriptSegment[] {
+  return body
+    .split(/\r?\n/)
+    .map(line => line.trim())
+    .filter(line => line.length > 0)
+    .map(line => ({ start: 0, duration: 0, ...splitSpeaker(line) }));
+}
+
+/**
+ * Parse a transcript file. Returns null when it holds no text.
+ */
+export function parseTranscript(body: string, format: TranscriptFormat, language?: string): Transcript | null {
+  let segments: TranscriptSegment[];
+  let timed = true;
+  switch (format) {
+    case 'vtt':
+    case 'srt':
+      segments = parseCues(body);
+      break;
+    case 'json':
+      segments = parseJsonTranscript(body);
+      break;
+    case 'html':
+      ({ segments, timed } = parseHtmlTranscript(body));
+      break;
+    case 'text':
+      segments = parsePlainTranscript(body);
+      timed = false;
+      break;
+  }
+  if (segments.length === 0) {
+    return null;
+  }
+  return {
+    ...(language ? { language } : {}),
+    segments: timed ? segments.sort((a, b) => a.start - b.start) : segments,
+    ...(timed ? {} : { untimed: true })
+  };
+}
@@ -6,15 +6,38 @@
  * Last Updated: October 11, 2024
  */
 
-import { GoogleGenerativeAI } from '@google/generative-ai';
 import { YoutubeTranscript } from 'youtube-transcript';
 import { createLogger } from './logging/index.js';
 
 const logger = createLogger('processor');
 import * as cheerio from 'cheerio';
-import { PDFParse } from 'pdf-parse';
+import { createHash } from 'crypto';
+import { stat } from 'fs/promises';
+import { basename, extname, resolve } from 'path';
+import { ContentAnalyzer, type ContentType as TemplateContentType } from './ai/content-analyzer.js';
+import { PromptFactory } from './ai/prompts/prompt-factory.js';
+import { toContentSections } from './ai/template-response.js';
+import { parsePartialJson, renderPartialAnalysis } from './ai/partial-output.js';
+import { ContentError, isObsidianizeError } from './errors/index.js';
+import { getConfig } from './config/index.js';
+import {
+  createAIProvider,
+  providerConfigFromSettings,
+  type AIProvider,
+  type AIProviderConfig
+} from './ai/providers/index.js';
+import { normalizeTranscriptItems, parseChapters, transcriptToText } from './transcript.js';
+import { extractPodcastEpisode, podcastContent } from './podcast/index.js';
+import { threadContent, threadMetadata, unrollThread } from './threads/index.js';
+import { extractArticle } from './readability/index.js';
+import { safeFetch } from './network/index.js';
+import { getSourceCache, type CachedSource, type SourceCache } from './cache/source-cache.js';
+import { cacheUtils, getSharedCache, type HighPerformanceCache } from './cache/cache.js';
+import { chunkContent, estimateTokens, DEFAULT_CHUNK_TOKENS, type ContentChunk } from './chunking.js';
 import type {
   GeminiGem,
+  ContentInput,
+  Transcript,
   ProcessingRequest,
   ProcessingResult,
   ProcessingOptions,
@@ -26,13 +49,19 @@ import type {
   ProcessingError,
   ErrorCategory,
   ValidationResult,
-  ProgressInfo
+  ProgressInfo,
+  ProgressEvent,
+  ProgressCallback,
+  PartialOutputCallback,
+  ChunkTokenUsage,
+  ContentSection
 } from './types/index.js';
 import {
   ContentType as ContentTypeEnum,
   ProcessingStatus as ProcessingStatusEnum,
   AnalysisMode as AnalysisModeEnum,
-  ErrorCategory as ErrorCategoryEnum
+  ErrorCategory as ErrorCategoryEnum,
+  EntityType as EntityTypeEnum
 } from './types/index.js';
 import {
   FormatterFactory,
@@ -44,8 +73,11 @@ import {
   ProcessingRequestValidator,
   URLValidator,
   ApiKeyValidator,
-  InputSanitizer
+  InputSanitizer,
+  aiAnalysisSchema,
+  aiPartAnalysisSchema
 } from './validators/index.js';
+import type { z } from 'zod';
 
 // ============================================================================
 // PROCESSOR CONFIGURATION
@@ -84,6 +116,32 @@ interface ProcessorConfig {
     maxUrlLength: number;
     maxApiKeyLength: number;
   };
+
+  /** Long-content chunking */
+  chunking: {
+    maxChunkTokens: number; // Estimated token budget per model call
+    maxChunks: number; // Refuse content that needs more chunks
+  };
+
+  /** Validation of the model's JSON output */
+  structuredOutput: {
+    maxRepairAttempts: number; // Re-prompts with the validation errors before giving up
+  };
+
+  /** AI provider; defaults to the application's `ai` configuration */
+  provider?: AIProviderConfig;
+
+  /**
+   * Keep fetched sources to revalidate them and reuse the gems of unchanged
+   * ones; defaults to the application's `sourceCache.enabled`
+   */
+  useSourceCache?: boolean;
+
+  /**
+   * Keep results and fetched content in the shared application cache;
+   * defaults to the application's `cache.enabled`
+   */
+  useSharedCache?: boolean;
 }
 
 /** Default processor configuration */
@@ -109,26 +167,133 @@ const DEFAULT_CONFIG: ProcessorConfig = {
     maxContentLength: 10 * 1024 * 1024, // 10MB
     maxUrlLength: 2000,
     maxApiKeyLength: 500
+  },
+  chunking: {
+    maxChunkTokens: DEFAULT_CHUNK_TOKENS,
+    maxChunks: 50
+  },
+  structuredOutput: {
+    maxRepairAttempts: 2
   }
 };
 
+// ============================================================================
+// LOCAL INPUT
+// ============================================================================
+
+/** Formats accepted for local files, pasted text and buffers */
+type LocalFormat = 'pdf' | 'html' | 'markdown' | 'text';
+
+const LOCAL_FORMATS_BY_EXTENSION: Record<string, LocalFormat> = {
+  '.pdf': 'pdf',
+  '.html': 'html',
+  '.htm': 'html',
+  '.md': 'markdown',
+  '.markdown': 'markdown',
+  '.txt': 'text'
+};
+
+const LOCAL_FORMATS_BY_MIME: Record<string, LocalFormat> = {
+  'application/pdf': 'pdf',
+  'text/html': 'html',
+  'application/xhtml+xml': 'html',
+  'text/markdown': 'markdown',
+  'text/x-markdown': 'markdown',
+  'text/plain': 'text'
+};
+
+/** sha256 hash used as the source of pasted text and buffers */
+function hashContent(data: string | Uint8Array): string {
+  return `sha256:${createHash('sha256').update(data).digest('hex')}`;
+}
+
+/**
+ * Key of what shapes a gem: the provider, the model and the options. How
+ * long to wait and whether to check robots.txt do not change what is made
+ * from a source.
+ */
+function gemOptionsKey(options: ProcessingOptions, provider: AIProviderConfig): string {
+  const { timeoutMs: _timeoutMs, respectRobots: _respectRobots, ...shaping } = options;
+  return JSON.stringify({ provider: provider.provider, model: provider.model ?? null, ...shaping });
+}
+
+/**
+ * Describe where a request's content comes from: the URL, the absolute file
+ * path, or a hash of the supplied text/buffer
+ */
+function describeSource(input: string | ContentInput): string {
+  if (typeof input === 'string') {
+    return input;
+  }
+  if (input.filePath !== undefined) {
+    return resolve(input.filePath);
+  }
+  return hashContent(input.text ?? input.buffer ?? '');
+}
+
+/** Guess the format of in-memory content from its leading bytes */
+function sniffFormat(data: string | Uint8Array): LocalFormat {
+  const head = (typeof data === 'string' ? data.slice(0, 512) : new TextDecoder().decode(data.subarray(0, 512)))
+    .trimStart()
+    .toLowerCase();
+
+  if (head.startsWith('%pdf-')) {
+    return 'pdf';
+  }
+  if (head.startsWith('<!doctype html') || head.startsWith('<html')) {
+    return 'html';
+  }
+  return 'text';
+}
+
 // ============================================================================
 // CONTENT FETCHER
 // ============================================================================
 
+/** Per-request settings for fetching a source */
+interface SourceFetchOptions {
+  signal?: AbortSignal;
+  /** Check robots.txt before fetching; the application config decides when unset */
+  respectRobots?: boolean;
+}
+
+/** What a single-response download leaves in the source cache */
+type SourceDownload = Pick<CachedSource, 'etag' | 'lastModified' | 'contentType' | 'body'>;
+
 /** Content fetching functionality */
 class ContentFetcher {
   private config: ProcessorConfig;
-
-  constructor(config: ProcessorConfig) {
+  private sourceCache: SourceCache | null;
+  private sharedCache: HighPerformanceCache | null;
+
+  constructor(
+    config: ProcessorConfig = DEFAULT_CONFIG,
+    sourceCache: SourceCache | null = null,
+    sharedCache: HighPerformanceCache | null = null
+  ) {
     this.config = config;
+    this.sourceCache = sourceCache;
+    this.sharedCache = sharedCache;
   }
 
-  /** Fetch content from URL */
-  async fetchContent(url: string, timeout: number = this.config.timeouts.fetchContent): Promise<{
+  /**
+   * Fetch content from URL; `includeTimestamps` marks transcript paragraphs with [mm:ss].
+   * Aborting `signal` stops the download and fails with a cancellation error;
+   * a download shared through the shared cache carries on for its other callers.
+   * With a source cache, pages are fetched conditionally and `contentHash`
+   * tells whether the content changed since it was last fetched. With the
+   * shared cache, recently fetched content is reused, and content past its
+   * TTL is served while it is fetched again in the background.
+   */
+  async fetchContent(url: string, options: SourceFetchOptions & { includeTimestamps?: boolean } = {}): Promise<{
     content: string;
     type: ContentType;
     metadata: Record<string, unknown>;
+    transcript?: Transcript;
+    /** Hash of the extracted content */
+    contentHash?: string;
+    /** The page answered 304 and its cached copy was used */
+    notModified?: boolean;
   }> {
     const startTime = Date.now();
 
@@ -136,41 +301,58 @@ class ContentFetcher {
       // Validate and classify URL
       const urlValidation = URLValidator.validateAndClassify(url);
       if (!urlValidation.valid) {
-        throw new Error(`Invalid URL: ${urlValidation.error}`);
-      }
-
-      let content: string;
-      let metadata: Record<string, unknown> = {};
-
-      switch (urlValidation.type) {
-        case ContentTypeEnum.YOUTUBE:
-          ({ content, metadata } = await this.fetchYouTubeContent(url));
-          break;
-
-        case ContentTypeEnum.ARTICLE:
-        case ContentTypeEnum.PAPER:
-          ({ content, metadata } = await this.fetchWebContent(url));
-          break;
-
-        default:
-          throw new Error(`Unsupported content type: ${urlValidation.type}`);
+        throw new CoreProcessingError({
+          category: ErrorCategoryEnum.VALIDATION,
+          code: 'INVALID_URL',
+          message: `Invalid URL: ${urlValidation.error}`,
+          recoverable: false,
+          timestamp: new Date()
+        });
       }
 
-      // Validate content size
-      if (content.length > this.config.limits.maxContentLength) {
-        throw new Error(`Content too large: ${content.length} bytes (max: ${this.config.limits.maxContentLength})`);
-      }
+      // A shared load may serve other requests, so it runs without this caller's signal,
+      // which only stops this caller waiting for it
+      const fetched = this.sharedCache
+        ? await untilCancelled(this.sharedCache.remember(
+          cacheUtils.NAMESPACES.WEB_CONTENT,
+          url,
+          () => this.fetchRemoteContent(url, urlValidation.type, { ...options, signal: undefined }),
+          {
+            ttl: this.config.cacheConfig.ttl * 1000,
+            tags: [cacheUtils.sourceTag(url)],
+            params: {
+              includeTimestamps: options.includeTimestamps === true,
+              respectRobots: options.respectRobots ?? getConfig().fetching.respectRobots
+            }
+          }
+        ), options.signal)
+        : await this.fetchRemoteContent(url, urlValidation.type, options);
+      throwIfCancelled(options.signal);
 
       return {
-        content: InputSanitizer.sanitizeText(content),
-        type: urlValidation.type,
+        ...fetched,
         metadata: {
-          ...metadata,
-          fetchTime: Date.now() - startTime,
-          contentLength: content.length
+          ...fetched.metadata,
+          fetchTime: Date.now() - startTime
         }
       };
     } catch (error) {
+      throwIfCancelled(options.signal);
+      if (error instanceof CoreProcessingError) {
+        throw error;
+      }
+      // Keep the code and recoverability of known failures (blocked, too large, not found) so they are not retried
+      if (isObsidianizeError(error)) {
+        throw new CoreProcessingError({
+          category: error.category,
+          code: error.code,
+          message: `Failed to fetch content: ${error.message}`,
+          details: error.details,
+          suggestion: error.suggestion,
+          recoverable: error.recoverable,
+          timestamp: new Date()
+        });
+      }
       throw new CoreProcessingError({
         category: ErrorCategoryEnum.NETWORK,
         code: 'CONTENT_FETCH_FAILED',
@@ -181,11 +363,119 @@ class ContentFetcher {
     }
   }
 
+  /** Download and extract a URL's content, recording it in the source cache */
+  private async fetchRemoteContent(
+    url: string,
+    type: ContentType,
+    options: SourceFetchOptions & { includeTimestamps?: boolean }
+  ): Promise<{
+    content: string;
+    type: ContentType;
+    metadata: Record<string, unknown>;
+    transcript?: Transcript;
+    contentHash: string;
+    notModified: boolean;
+  }> {
+    let content: string;
+    let metadata: Record<string, unknown> = {};
+    let transcript: Transcript | undefined;
+    let download: SourceDownload | undefined;
+    let notModified = false;
+    const source: SourceFetchOptions = { signal: options.signal, respectRobots: options.respectRobots };
+
+    switch (type) {
+      case ContentTypeEnum.YOUTUBE:
+        ({ content, metadata, transcript } = await this.fetchYouTubeContent(url, options.includeTimestamps === true, source));
+        break;
+
+      case ContentTypeEnum.PODCAST:
+        ({ content, metadata, transcript } = await this.fetchPodcastContent(url, options.includeTimestamps === true, source));
+        break;
+
+      case ContentTypeEnum.TWITTER:
+        ({ content, metadata } = await this.fetchThreadContent(url, source));
+        break;
+
+      case ContentTypeEnum.ARTICLE:
+      case ContentTypeEnum.PAPER:
+        ({ content, metadata, download, notModified } = await this.fetchWebContent(url, source, await this.cachedSource(url)));
+        break;
+
+      default:
+        throw new CoreProcessingError({
+          category: ErrorCategoryEnum.VALIDATION,
+          code: 'UNSUPPORTED_CONTENT_TYPE',
+          message: `Unsupported content type: ${type}`,
+          recoverable: false,
+          timestamp: new Date()
+        });
+    }
+    throwIfCancelled(options.signal);
+
+    // Validate content size
+    if (content.length > this.config.limits.maxContentLength) {
+      throw new Error(`Content too large: ${content.length} bytes (max: ${this.config.limits.maxContentLength})`);
+    }
+
+    const sanitized = InputSanitizer.sanitizeText(content);
+    const contentHash = hashContent(sanitized);
+    await this.rememberSource(url, contentHash, download, notModified);
+
+    return {
+      content: sanitized,
+      type,
+      metadata: {
+        ...metadata,
+        contentLength: content.length
+      },
+      ...(transcript ? { transcript } : {}),
+      contentHash,
+      notModified
+    };
+  }
+
+  /** The cached copy of a source; a cache that cannot be read is treated as empty */
+  private async cachedSource(url: string): Promise<CachedSource | null> {
+    try {
+      return await this.sourceCache?.get(url) ?? null;
+    } catch (error) {
+      logger.warn('Failed to read source cache', { url, error: error instanceof Error ? error.message : String(error) });
+      return null;
+    }
+  }
+
+  /** Record a fetch in the source cache; failing to is logged, not fatal */
+  private async rememberSource(
+    url: string,
+    contentHash: string,
+    download: SourceDownload | undefined,
+    notModified: boolean
+  ): Promise<void> {
+    if (!this.sourceCache) {
+      return;
+    }
+    try {
+      if (notModified) {
+        await this.sourceCache.touch(url);
+      } else {
+        await this.sourceCache.save({ url, ...download, contentHash });
+      }
+    } catch (error) {
+      logger.warn('Failed to update source cache', { url, error: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
   /** Fetch YouTube video information with real transcript extraction */
-  private async fetchYouTubeContent(url: string): Promise<{ content: string; metadata: Record<string, unknown> }> {
+  private async fetchYouTubeContent(url: string, includeTimestamps: boolean, source: SourceFetchOptions = {}): Promise<{
+    content: string;
+    metadata: Record<string, unknown>;
+    transcript?: Transcript;
+  }> {
     const videoId = URLValidator.extractYouTubeId(url);
     if (!videoId) {
-      throw new Error('Invalid YouTube URL');
+      throw new Error(URLValidator.extractYouTubeCollection(url)
+        ? 'Playlist and channel URLs are processed as a batch of their videos'
+        : 'Invalid YouTube URL');
     }
 
     logger.info('Fetching YouTube content', { videoId, url });
@@ -201,32 +491,38 @@ class ContentFetcher {
     // Fetch page metadata first
     let pageMetadata: { title?: string; description?: string; duration?: string; author?: string; thumbnail?: string } = {};
     try {
-      pageMetadata = await this.fetchYouTubePageMetadata(url);
+      pageMetadata = await this.fetchYouTubePageMetadata(url, source);
       Object.assign(metadata, pageMetadata);
     } catch (metadataError: any) {
       logger.warn('Failed to fetch YouTube page metadata', { videoId, error: metadataError.message });
     }
+    throwIfCancelled(source.signal);
 
-    // Attempt to fetch transcript
+    // Attempt to fetch transcript, keeping segment timings
     let transcript = '';
+    let timedTranscript: Transcript | undefined;
     try {
       const transcriptItems = await YoutubeTranscript.fetchTranscript(videoId);
+      const segments = normalizeTranscriptItems(transcriptItems ?? []);
 
-      if (transcriptItems && transcriptItems.length > 0) {
-        // Combine all transcript segments into full text
-        transcript = transcriptItems
-          .map(item => item.text)
-          .join(' ')
-          .replace(/\s+/g, ' ')
-          .trim();
+      if (segments.length > 0) {
+        const lastSegment = segments[segments.length - 1];
+        timedTranscript = {
+          videoId,
+          language: transcriptItems[0]?.lang,
+          segments,
+          chapters: parseChapters(pageMetadata.description)
+        };
+        transcript = transcriptToText(timedTranscript, { timestamps: includeTimestamps });
 
         metadata.transcriptAvailable = true;
-        metadata.transcriptSegments = transcriptItems.length;
-        metadata.transcriptDuration = transcriptItems[transcriptItems.length - 1]?.offset || 0;
+        metadata.transcriptSegments = segments.length;
+        metadata.transcriptDuration = Math.round(lastSegment.start + lastSegment.duration);
 
         logger.info('Successfully extracted YouTube transcript', {
           videoId,
-          segments: transcriptItems.length,
+          segments: segments.length,
+          chapters: timedTranscript.chapters?.length ?? 0,
           wordCount: transcript.split(/\s+/).length
         });
       }
@@ -256,11 +552,33 @@ class ContentFetcher {
       content += `[Note: Transcript not available for this video. Analysis based on available metadata.]`;
     }
 
-    return { content, metadata };
+    return { content, metadata, transcript: timedTranscript };
+  }
+
+  /** Fetch a podcast episode with the transcript its feed publishes, if any */
+  private async fetchPodcastContent(url: string, includeTimestamps: boolean, source: SourceFetchOptions = {}): Promise<{
+    content: string;
+    metadata: Record<string, unknown>;
+    transcript?: Transcript;
+  }> {
+    logger.info('Fetching podcast episode', { url });
+    const extraction = await extractPodcastEpisode(url, { ...source, timeoutMs: this.config.timeouts.fetchContent });
+    return {
+      content: podcastContent(extraction, { timestamps: includeTimestamps }),
+      metadata: { ...extraction.metadata, title: extraction.title, description: extraction.description },
+      transcript: extraction.transcript
+    };
+  }
+
+  /** Unroll a Mastodon or X thread into its author's posts */
+  private async fetchThreadContent(url: string, source: SourceFetchOptions = {}): Promise<{ content: string; metadata: Record<string, unknown> }> {
+    logger.info('Unrolling thread', { url });
+    const thread = await unrollThread(url, { ...source, timeoutMs: this.config.timeouts.fetchContent });
+    return { content: threadContent(thread), metadata: threadMetadata(thread) };
   }
 
   /** Fetch basic metadata from YouTube page HTML */
-  private async fetchYouTubePageMetadata(url: string): Promise<{
+  private async fetchYouTubePageMetadata(url: string, { signal, respectRobots }: SourceFetchOptions = {}): Promise<{
     title?: string;
     description?: string;
     duration?: string;
@@ -271,8 +589,9 @@ class ContentFetcher {
     const timeoutId = setTimeout(() => controller.abort(), this.config.timeouts.fetchContent);
 
     try {
-      const response = await fetch(url, {
-        signal: controller.signal,
+      const response = await safeFetch(url, {
+        signal: signal ? AbortSignal.any([controller.signal, signal]) : controller.signal,
+        respectRobots,
         headers: {
           'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36'
         }
@@ -309,28 +628,66 @@ class ContentFetcher {
     }
   }
 
-  /** Fetch web content (articles, papers) */
-  private async fetchWebContent(url: string): Promise<{ content: string; metadata: Record<string, unknown> }> {
-    // Use native fetch with AbortController for timeout
+  /**
+   * Fetch web content (articles, papers). With a cached copy the request is
+   * conditional, and a 304 answer is served from the copy.
+   */
+  private async fetchWebContent(
+    url: string,
+    { signal, respectRobots }: SourceFetchOptions = {},
+    cached: CachedSource | null = null
+  ): Promise<{ content: string; metadata: Record<string, unknown>; download: SourceDownload; notModified: boolean }> {
+    // Redirects, resolved addresses and body size are checked by the safe fetcher
     const controller = new AbortController();
     const timeoutId = setTimeout(() => controller.abort(), this.config.timeouts.fetchContent);
 
+    // Only a copy with its body can stand in for the page
+    const validators: Record<string, string> = {};
+    if (cached?.body) {
+      if (cached.etag) {
+        validators['If-None-Match'] = cached.etag;
+      }
+      if (cached.lastModified) {
+        validators['If-Modified-Since'] = cached.lastModified;
+      }
+    }
+
     try {
-      const response = await fetch(url, {
-        signal: controller.signal,
+      const response = await safeFetch(url, {
+        signal: signal ? AbortSignal.any([controller.signal, signal]) : controller.signal,
+        respectRobots,
         headers: {
-          'User-Agent': 'Obsidianize/1.0 (Content Processor)'
-        }
+          'User-Agent': 'Obsidianize/1.0 (Content Processor)',
+          ...validators
+        },
+        maxBytes: this.config.limits.maxContentLength
       });
 
       // Note: Don't clear timeout here - keep it active during body download
       // The timeout is cleared in the finally block after all reads complete
 
-      if (!response.ok) {
-        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+      const notModified = response.status === 304 && cached?.body !== undefined;
+      if (!response.ok && !notModified) {
+        throw new CoreProcessingError({
+          category: ErrorCategoryEnum.NETWORK,
+          code: 'CONTENT_FETCH_FAILED',
+          message: `Failed to fetch content: HTTP ${response.status}: ${response.statusText}`,
+          details: { url, statusCode: response.status },
+          recoverable: response.status >= 500 || response.status === 429,
+          timestamp: new Date()
+        });
       }
 
-      const contentType = response.headers.get('content-type') || '';
+      const download: SourceDownload = notModified
+        ? { etag: cached!.etag, lastModified: cached!.lastModified, contentType: cached!.contentType, body: cached!.body }
+        : {
+          etag: response.headers.get('etag') ?? undefined,
+          lastModified: response.headers.get('last-modified') ?? undefined,
+          contentType: response.headers.get('content-type') ?? undefined,
+          body: new Uint8Array(await response.arrayBuffer())
+        };
+
+      const contentType = download.contentType || '';
       let content: string;
       let metadata: Record<string, unknown> = {
         url,
@@ -340,119 +697,653 @@ class ContentFetcher {
       };
 
       if (contentType.includes('application/pdf')) {
-        // Handle PDF content using pdf-parse v2 API
-        const arrayBuffer = await response.arrayBuffer();
-        const buffer = Buffer.from(arrayBuffer);
-        const pdfParser = new PDFParse({ data: new Uint8Array(buffer) });
-        const textResult = await pdfParser.getText();
-        const infoResult = await pdfParser.getInfo();
-        content = textResult.text;
-        metadata = {
-          ...metadata,
-          pages: infoResult.total,
-          info: infoResult.info,
-          metadata: infoResult.metadata
-        };
-        await pdfParser.destroy();
+        // Handle PDF content (page-aware text and document info)
+        const pdf = await ContentAnalyzer.extractPdfFromBuffer(download.body!, url);
+        content = pdf.content;
+        metadata = { ...metadata, ...pdf.metadata };
       } else {
-        // Handle HTML content
-        const htmlText = await response.text();
-        const $ = cheerio.load(htmlText);
-
-        // Remove unwanted elements
-        $('script, style, nav, header, footer, aside, .ads, .advertisement').remove();
-
-        // Extract main content
-        const mainContent = $('main, article, .content, .post-body, .entry-content')
-          .first()
-          .text()
-          .trim();
-
-        const title = $('title').first().text().trim() ||
-                     $('h1').first().text().trim();
-
-        content = mainContent || $('body').text().trim();
-        metadata = {
-          ...metadata,
-          title,
-          wordCount: content.split(/\s+/).length,
-          extractedMain: !!mainContent
-        };
+        // Handle HTML content; relative links resolve against the page after any redirects
+        const html = this.parseHtml(new TextDecoder().decode(download.body), response.url || url);
+        content = html.content;
+        metadata = { ...metadata, ...html.metadata };
       }
 
       if (!content || content.length < 100) {
         throw new Error('Extracted content is too short or empty');
       }
 
-      return { content, metadata };
+      return { content, metadata, download, notModified };
     } finally {
       clearTimeout(timeoutId);
     }
   }
+
+  /** Extract title and main content of an HTML document as Markdown */
+  private parseHtml(htmlText: string, url?: string): { content: string; metadata: Record<string, unknown> } {
+    const article = extractArticle(htmlText, { url });
+    const content = article.title ? `# ${article.title}\n\n${article.markdown}` : article.markdown;
+
+    return {
+      content,
+      metadata: {
+        title: article.title ?? '',
+        ...(article.byline ? { author: article.byline } : {}),
+        ...(article.excerpt ? { description: article.excerpt } : {}),
+        ...(article.siteName ? { siteName: article.siteName } : {}),
+        ...(article.publishedTime ? { publishDate: article.publishedTime } : {}),
+        ...(article.language ? { language: article.language } : {}),
+        wordCount: article.markdown.split(/\s+/).filter(Boolean).length,
+        extractedMain: article.extractedMain
+      }
+    };
+  }
+
+  /** Load content supplied directly: pasted text, a local file or a buffer */
+  async loadLocalContent(input: ContentInput): Promise<{
+    content: string;
+    type: ContentType;
+    metadata: Record<string, unknown>;
+  }> {
+    const startTime = Date.now();
+    const source = describeSource(input);
+
+    try {
+      const { data, format, filename } = await this.readLocalInput(input, source);
+
+      let content: string;
+      let metadata: Record<string, unknown>;
+
+      switch (format) {
+        case 'pdf': {
+          const bytes = typeof data === 'string' ? new TextEncoder().encode(data) : data;
+          const pdf = await ContentAnalyzer.extractPdfFromBuffer(bytes, filename ?? 'document.pdf');
+          content = pdf.content;
+          metadata = { ...pdf.metadata };
+          break;
+        }
+
+        case 'html': {
+          const html = this.parseHtml(typeof data === 'string' ? data : new TextDecoder().decode(data));
+          content = html.content;
+          metadata = html.metadata;
+          break;
+        }
+
+        default: {
+          content = (typeof data === 'string' ? data : new TextDecoder().decode(data)).trim();
+          // First Markdown heading, then the file name, then the opening line
+          const heading = content.match(/^#\s+(.+)$/m)?.[1];
+          const firstLine = content.split('\n', 1)[0].trim();
+          metadata = {
+            title: heading?.trim()
+              || (filename ? basename(filename, extname(filename)).replace(/[-_]+/g, ' ') : undefined)
+              || (firstLine.length > 80 ? `${firstLine.slice(0, 77)}...` : firstLine),
+            wordCount: content.split(/\s+/).filter(Boolean).length
+          };
+        }
+      }
+
+      if (!content) {
+        throw new CoreProcessingError({
+          category: ErrorCategoryEnum.VALIDATION,
+          code: 'EMPTY_CONTENT',
+          message: 'Input contains no text to process',
+          recoverable: false,
+          timestamp: new Date()
+        });
+      }
+
+      if (content.length > this.config.limits.maxContentLength) {
+        throw new Error(`Content too large: ${content.length} bytes (max: ${this.config.limits.maxContentLength})`);
+      }
+
+      return {
+        content: InputSanitizer.sanitizeText(content),
+        type: input.type ?? (format === 'pdf' ? ContentTypeEnum.PAPER : ContentTypeEnum.ARTICLE),
+        metadata: {
+          ...metadata,
+          source,
+          format,
+          ...(filename ? { filename: basename(filename) } : {}),
+          fetchTime: Date.now() - startTime,
+          contentLength: content.length
+        }
+      };
+    } catch (error) {
+      if (error instanceof CoreProcessingError) {
+        throw error;
+      }
+      if (error instanceof ContentError) {
+        throw new CoreProcessingError({
+          category: error.category,
+          code: error.code,
+          message: error.message,
+          details: error.details,
+          suggestion: error.suggestion,
+          recoverable: error.recoverable,
+          timestamp: new Date()
+        });
+      }
+      throw new CoreProcessingError({
+        category: ErrorCategoryEnum.PROCESSING,
+        code: 'LOCAL_CONTENT_FAILED',
+        message: `Failed to read content: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        recoverable: false,
+        timestamp: new Date()
+      });
+    }
+  }
+
+  /** Read raw local input and work out its format (explicit MIME type, extension, then sniffing) */
+  private async readLocalInput(input: ContentInput, source: string): Promise<{
+    data: string | Uint8Array;
+    format: LocalFormat;
+    filename?: string;
+  }> {
+    const mimeFormat = input.mimeType
+      ? LOCAL_FORMATS_BY_MIME[input.mimeType.split(';')[0].trim().toLowerCase()]
+      : undefined;
+
+    if (input.text !== undefined) {
+      return { data: input.text, format: mimeFormat ?? sniffFormat(input.text) };
+    }
+
+    if (input.buffer !== undefined) {
+      const data = new Uint8Array(input.buffer);
+      return { data, format: mimeFormat ?? sniffFormat(data) };
+    }
+
+    const format = mimeFormat ?? LOCAL_FORMATS_BY_EXTENSION[extname(source).toLowerCase()];
+    if (!format) {
+      throw new CoreProcessingError({
+        category: ErrorCategoryEnum.VALIDATION,
+        code: 'UNSUPPORTED_FILE_TYPE',
+        message: `Unsupported file type: ${extname(source) || basename(source)}`,
+        suggestion: `Supported extensions: ${Object.keys(LOCAL_FORMATS_BY_EXTENSION).join(', ')}`,
+        recoverable: false,
+        timestamp: new Date()
+      });
+    }
+
+    const file = Bun.file(source);
+    if (!(await file.exists())) {
+      throw new CoreProcessingError({
+        category: ErrorCategoryEnum.VALIDATION,
+        code: 'FILE_NOT_FOUND',
+        message: `File not found: ${source}`,
+        recoverable: false,
+        timestamp: new Date()
+      });
+    }
+
+    if (file.size > this.config.limits.maxContentLength) {
+      throw new CoreProcessingError({
+        category: ErrorCategoryEnum.VALIDATION,
+        code: 'FILE_TOO_LARGE',
+        message: `File too large: ${file.size} bytes (max: ${this.config.limits.maxContentLength})`,
+        recoverable: false,
+        timestamp: new Date()
+      });
+    }
+
+    return { data: new Uint8Array(await file.arrayBuffer()), format, filename: source };
+  }
 }
 
 // ============================================================================
 // AI PROCESSOR
 // ============================================================================
 
-/** AI processing with Gemini API */
+/** Structured result of an AI analysis */
+interface AIAnalysis {
+  summary: string;
+  keyPoints: string[];
+  analysis: string;
+  entities: Array<{ text: string; type: string; confidence: number }>;
+  insights: string[];
+
+  /** Sections other than summary, key points and analysis, typed by heading */
+  sections?: ContentSection[];
+
+  /** Title and tags suggested by the model */
+  title?: string;
+  tags?: string[];
+
+  /** Tokens used across all model calls */
+  tokensUsed: number;
+
+  /** Per-call usage when the content was analyzed in chunks */
+  chunks?: ChunkTokenUsage[];
+}
+
+type PartialAnalysis = Omit<AIAnalysis, 'tokensUsed' | 'chunks'>;
+
+/** Observers of an analysis in progress */
+interface AnalysisListeners {
+  /** Receives a stage record for every model call attempt */
+  onAttempt?: (stage: ProcessingStage) => void;
+
+  /** Receives the note body rendered from the analysis the model is writing */
+  onPartialOutput?: (markdown: string) => void;
+}
+
+/** Which call an attempt belongs to: the single or final analysis, a chunk, or a merge round */
+interface CallLabel {
+  pass: 'analysis' | 'map' | 'reduce';
+  index: number;
+}
+
+/** Example of the whole-content JSON output */
+const ANALYSIS_JSON_FORMAT = `{
+  "title": "Compelling, descriptive title",
+  "summary": "2-3 paragraph overview (at least 50 characters)",
+  "keyPoints": ["Key point of at least 10 characters", "Key point 2", "Key point 3"],
+  "analysis": "Detailed analysis and insights (at least 100 characters)",
+  "sections": [
+    {
+      "heading": "Heading from the structure below",
+      "content": "Section text in Markdown (at least 10 characters)",
+      "subsections": [{"heading": "Subheading", "content": "Subsection text"}]
+    }
+  ],
+  "entities": [{"text": "Entity name", "type": "${Object.values(EntityTypeEnum).join('|')}", "confidence": 0.9}],
+  "insights": ["Insight of 10 to 500 characters"],
+  "tags": ["tag of at most 50 characters"]
+}`;
+
+/** AI processing through the configured provider */
 class AIProcessor {
-  private genAI: GoogleGenerativeAI;
+  private provider: AIProvider;
   private config: ProcessorConfig;
 
-  constructor(apiKey: string, config: ProcessorConfig) {
-    this.genAI = new GoogleGenerativeAI(apiKey);
+  constructor(provider: AIProvider, config: ProcessorConfig) {
+    this.provider = provider;
     this.config = config;
   }
 
-  /** Process content with AI */
+  /**
+   * Process content with AI using the content type's prompt template.
+   * Content over the chunk budget is analyzed chunk by chunk (map), and the
+   * chunk results are merged (reduce) before a final pass in the template format.
+   * Every call is a JSON-mode call validated against its schema. The analysis
+   * that becomes the note is streamed to `onPartialOutput` when it is given.
+   * Aborting `signal` cancels the call in flight and skips the rest.
+   */
   async processContent(
     content: string,
     contentType: ContentType,
-    options: ProcessingOptions
-  ): Promise<{
-    summary: string;
-    keyPoints: string[];
-    analysis: string;
-    entities: Array<{ text: string; type: string; confidence: number }>;
-    insights: string[];
-  }> {
-    const model = this.genAI.getGenerativeModel({
-      model: 'gemini-pro',
-      generationConfig: {
-        temperature: 0.7,
-        maxOutputTokens: 4096,
-        topP: 0.8,
-        topK: 40
+    options: ProcessingOptions,
+    metadata: Record<string, unknown> = {},
+    listeners: AnalysisListeners = {},
+    signal?: AbortSignal
+  ): Promise<AIAnalysis> {
+    const { maxChunkTokens, maxChunks } = this.config.chunking;
+    const chunks = chunkContent(content, { maxTokens: maxChunkTokens });
+
+    if (chunks.length <= 1) {
+      const prompt = this.generateTemplatePrompt(content, contentType, options, metadata);
+      const { value, tokensUsed } = await this.generateValidated(prompt, aiAnalysisSchema, { pass: 'analysis', index: 0 }, listeners, signal);
+      return { ...this.fromAnalysisOutput(value), tokensUsed };
+    }
+
+    if (chunks.length > maxChunks) {
+      throw new CoreProcessingError({
+        category: ErrorCategoryEnum.VALIDATION,
+        code: 'CONTENT_TOO_LONG',
+        message: `Content needs ${chunks.length} chunks (maximum ${maxChunks})`,
+        details: { chunks: chunks.length, estimatedTokens: estimateTokens(content) },
+        suggestion: 'Split the content into smaller parts or raise chunking.maxChunks',
+        recoverable: false,
+        timestamp: new Date()
+      });
+    }
+
+    logger.info('Analyzing long content in chunks', { chunks: chunks.length, contentType });
+    const usage: ChunkTokenUsage[] = [];
+
+    // Map: analyze each chunk in order
+    const partials: PartialAnalysis[] = [];
+    for (const chunk of chunks) {
+      const prompt = this.generatePrompt(chunk.text, contentType, options, chunk, chunks.length);
+      const { value, tokensUsed } = await this.generateValidated(prompt, aiPartAnalysisSchema, { pass: 'map', index: chunk.index }, listeners, signal);
+      partials.push(value);
+      usage.push({ pass: 'map', index: chunk.index, estimatedTokens: estimateTokens(prompt), tokensUsed });
+    }
+
+    // Reduce: merge batches of chunk results until they fit one final pass
+    let results = partials;
+    let batches = this.batchForReduce(results, maxChunkTokens);
+    let round = 0;
+    while (batches.length > 1) {
+      const merged: PartialAnalysis[] = [];
+      for (const batch of batches) {
+        if (batch.length === 1) {
+          merged.push(batch[0]);
+          continue;
+        }
+        const prompt = this.generateReducePrompt(batch, contentType, options);
+        const { value, tokensUsed } = await this.generateValidated(prompt, aiPartAnalysisSchema, { pass: 'reduce', index: round }, listeners, signal);
+        merged.push({ ...value, entities: batch.flatMap(result => result.entities) });
+        usage.push({ pass: 'reduce', index: round, estimatedTokens: estimateTokens(prompt), tokensUsed });
       }
-    });
+      results = merged;
+      batches = this.batchForReduce(results, maxChunkTokens);
+      round++;
+    }
 
-    const prompt = this.generatePrompt(content, contentType, options);
+    // Final pass: write the whole analysis in the template format from the part analyses
+    const prompt = this.generateTemplatePrompt(
+      this.renderPartAnalyses(results),
+      contentType,
+      options,
+      metadata,
+      `The content above holds analyses of ${results.length} consecutive parts of one ${contentType}, in order, not the content itself. Write the analysis of the whole content from them.`
+    );
+    const { value, tokensUsed } = await this.generateValidated(prompt, aiAnalysisSchema, { pass: 'analysis', index: 0 }, listeners, signal);
+    const final = this.fromAnalysisOutput(value);
+    usage.push({ pass: 'reduce', index: round, estimatedTokens: estimateTokens(prompt), tokensUsed });
 
+    return {
+      ...final,
+      entities: this.mergeEntities([...partials.flatMap(result => result.entities), ...final.entities]),
+      tokensUsed: usage.reduce((total, call) => total + call.tokensUsed, 0),
+      chunks: usage
+    };
+  }
+
+  /**
+   * Run one model call, reporting tokens used (estimated if the API omits
+   * usage). With `onText` the reply is streamed and `onText` receives the
+   * text so far after every fragment; streams report no usage, so it is estimated.
+   */
+  private async generate(
+    prompt: string,
+    onText?: (text: string) => void,
+    signal?: AbortSignal
+  ): Promise<{ text: string; tokensUsed: number }> {
+    throwIfCancelled(signal);
+    const request = { prompt, temperature: 0.7, maxOutputTokens: 4096, responseFormat: 'json' as const, signal };
     try {
-      const result = await model.generateContent(prompt);
-      const response = await result.response;
-      const text = response.text();
+      if (onText) {
+        let text = '';
+        for await (const fragment of this.provider.stream(request)) {
+          text += fragment;
+          onText(text);
+        }
+        return { text, tokensUsed: estimateTokens(prompt) + estimateTokens(text) };
+      }
 
-      // Parse AI response into structured data
-      return this.parseAIResponse(text);
+      const response = await this.provider.generate(request);
+      return {
+        text: response.text,
+        tokensUsed: response.usage.totalTokens || estimateTokens(prompt) + estimateTokens(response.text)
+      };
     } catch (error) {
+      throwIfCancelled(signal);
+      // Providers throw Error subclasses or, for Gemini, plain { code, message } objects
+      const message = (error as { message?: unknown })?.message;
       throw new CoreProcessingError({
         category: ErrorCategoryEnum.AI_API,
         code: 'AI_PROCESSING_FAILED',
-        message: `AI processing failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        message: `AI processing failed: ${typeof message === 'string' ? message : 'Unknown error'}`,
         recoverable: true,
         timestamp: new Date()
       });
     }
   }
 
-  /** Generate prompt based on content type and options */
-  private generatePrompt(content: string, contentType: ContentType, options: ProcessingOptions): string {
-    const basePrompt = `Analyze the following ${contentType} content and provide a structured analysis in JSON format:
+  /**
+   * Run a JSON-mode call and validate the reply against `schema`. An invalid
+   * reply is sent back with its validation errors, up to
+   * `structuredOutput.maxRepairAttempts` times before the call fails.
+   */
+  private async generateValidated<T>(
+    prompt: string,
+    schema: z.ZodType<T>,
+    call: CallLabel,
+    listeners: AnalysisListeners,
+    signal?: AbortSignal
+  ): Promise<{ value: T; tokensUsed: number }> {
+    const { maxRepairAttempts } = this.config.structuredOutput;
+    const { onAttempt, onPartialOutput } = listeners;
+    // Only the analysis that becomes the note is previewed, not chunk or merge results
+    const preview = call.pass === 'analysis' && onPartialOutput ? this.previewer(onPartialOutput) : undefined;
+    let attemptPrompt = prompt;
+    let tokensUsed = 0;
+    let issues: string[] = [];
+
+    for (let attempt = 1; attempt <= maxRepairAttempts + 1; attempt++) {
+      const stage: ProcessingStage = {
+        name: attempt === 1 ? 'ai_generation' : 'ai_repair',
+        status: ProcessingStatusEnum.PROCESSING,
+        startTime: new Date(),
+        data: { ...call, attempt }
+      };
+
+      let text: string;
+      try {
+        const response = await this.generate(attemptPrompt, preview, signal);
+        text = response.text;
+        tokensUsed += response.tokensUsed;
+        stage.data = { ...stage.data, tokensUsed: response.tokensUsed };
+      } catch (error) {
+        const status = signal?.aborted ? ProcessingStatusEnum.CANCELLED : ProcessingStatusEnum.FAILED;
+        onAttempt?.(this.endAttempt(stage, status, error as ProcessingError));
+        throw error;
+      }
+
+      const result = this.validateOutput(text, schema);
+      if (result.success) {
+        onAttempt?.(this.endAttempt(stage, ProcessingStatusEnum.COMPLETED));
+        return { value: result.data, tokensUsed };
+      }
+
+      issues = result.issues;
+      logger.warn('Model output failed validation', { ...call, attempt, issues: issues.slice(0, 5) });
+      onAttempt?.(this.endAttempt(stage, ProcessingStatusEnum.FAILED, {
+        category: ErrorCategoryEnum.VALIDATION,
+        code: 'AI_OUTPUT_INVALID',
+        message: `Model output failed validation: ${issues.slice(0, 3).join('; ')}`.slice(0, 500),
+        details: { issues },
+        recoverable: attempt <= maxRepairAttempts,
+        timestamp: new Date()
+      }));
+      attemptPrompt = this.generateRepairPrompt(prompt, text, issues);
+    }
+
+    throw new CoreProcessingError({
+      category: ErrorCategoryEnum.AI_API,
+      code: 'AI_OUTPUT_INVALID',
+      message: `Model output failed validation after ${maxRepairAttempts + 1} attempts: ${issues.slice(0, 3).join('; ')}`.slice(0, 500),
+      details: { ...call, attempts: maxRepairAttempts + 1, issues },
+      suggestion: 'Try again, or use a model that supports JSON output',
+      recoverable: true,
+      timestamp: new Date()
+    });
+  }
+
+  /** Render streamed text as the note body, reporting only when the rendering changes */
+  private previewer(onPartialOutput: (markdown: string) => void): (text: string) => void {
+    let last = '';
+    return text => {
+      const markdown = renderPartialAnalysis(parsePartialJson(text));
+      if (markdown && markdown !== last) {
+        last = markdown;
+        onPartialOutput(markdown);
+      }
+    };
+  }
+
+  /** Parse a reply as JSON (a Markdown code fence is tolerated) and check it against `schema` */
+  private validateOutput<T>(text: string, schema: z.ZodType<T>): { success: true; data: T } | { success: false; issues: string[] } {
+    let json: unknown;
+    try {
+      json = JSON.parse(text.trim().replace(/^```(?:json)?\s*\n?([\s\S]*?)\n?```$/, '$1'));
+    } catch (error) {
+      return { success: false, issues: [`Response is not valid JSON: ${error instanceof Error ? error.message : String(error)}`] };
+    }
+
+    const parsed = schema.safeParse(json);
+    if (parsed.success) {
+      return { success: true, data: parsed.data };
+    }
+    return {
+      success: false,
+      issues: parsed.error.issues.slice(0, 20).map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+    };
+  }
+
+  private endAttempt(stage: ProcessingStage, status: ProcessingStatus, error?: ProcessingError): ProcessingStage {
+    stage.status = status;
+    stage.endTime = new Date();
+    stage.duration = stage.endTime.getTime() - stage.startTime.getTime();
+    if (error) {
+      stage.errors = [error];
+    }
+    return stage;
+  }
+
+  /** The original prompt again, with the rejected reply and what was wrong with it */
+  private generateRepairPrompt(prompt: string, response: string, issues: string[]): string {
+    return `${prompt}
+
+Your previous response was rejected:
+${response.slice(0, 20000)}
+
+It has these problems:
+${issues.map(issue => `- ${issue}`).join('\n')}
+
+Respond again with the complete, corrected JSON object only.`;
+  }
+
+  /** Pipeline fields from a validated whole-content analysis */
+  private fromAnalysisOutput(output: z.infer<typeof aiAnalysisSchema>): PartialAnalysis {
+    return {
+      summary: output.summary,
+      keyPoints: output.keyPoints,
+      analysis: output.analysis,
+      entities: output.entities,
+      insights: output.insights,
+      sections: toContentSections(output.sections),
+      ...(output.title ? { title: output.title } : {}),
+      tags: output.tags
+    };
+  }
+
+  /** Group results into reduce batches within the token budget; always merges at least two */
+  private batchForReduce(results: PartialAnalysis[], maxTokens: number): PartialAnalysis[][] {
+    const batches: PartialAnalysis[][] = [];
+    let batch: PartialAnalysis[] = [];
+    let tokens = 0;
+
+    for (const result of results) {
+      const size = estimateTokens(JSON.stringify(this.reduceInput(result)));
+      if (batch.length >= 2 && tokens + size > maxTokens) {
+        batches.push(batch);
+        batch = [];
+        tokens = 0;
+      }
+      batch.push(result);
+      tokens += size;
+    }
+    batches.push(batch);
+
+    return batches;
+  }
+
+  /** Fields of a chunk result passed to the reduce prompt */
+  private reduceInput(result: PartialAnalysis): Omit<PartialAnalysis, 'entities'> {
+    return {
+      summary: result.summary,
+      keyPoints: result.keyPoints,
+      analysis: result.analysis,
+      insights: result.insights
+    };
+  }
+
+  /** Part analyses as plain text, the content of the final template pass */
+  private renderPartAnalyses(results: PartialAnalysis[]): string {
+    return results.map((result, i) => [
+      `PART ${i + 1} SUMMARY: ${result.summary}`,
+      'KEY POINTS:',
+      ...result.keyPoints.map(point => `- ${point}`),
+      `ANALYSIS: ${result.analysis}`,
+      ...(result.insights.length > 0 ? [`INSIGHTS: ${result.insights.join('; ')}`] : [])
+    ].join('\n')).join('\n\n');
+  }
+
+  /** Deduplicate entities by name, keeping the highest confidence */
+  private mergeEntities(entities: PartialAnalysis['entities']): PartialAnalysis['entities'] {
+    const byName = new Map<string, PartialAnalysis['entities'][number]>();
+    for (const entity of entities) {
+      const key = entity.text.trim().toLowerCase();
+      const existing = byName.get(key);
+      if (!existing || entity.confidence > existing.confidence) {
+        byName.set(key, entity);
+      }
+    }
+    return [...byName.values()];
+  }
+
+  /**
+   * Prompt from the content type's template (types without one use the
+   * article template); `note` is added to the template's instructions
+   */
+  private generateTemplatePrompt(
+    content: string,
+    contentType: ContentType,
+    options: ProcessingOptions,
+    metadata: Record<string, unknown>,
+    note?: string
+  ): string {
+    const templateType: TemplateContentType = PromptFactory.getSupportedContentTypes().includes(contentType as TemplateContentType)
+      ? contentType as TemplateContentType
+      : 'article';
+    const template = PromptFactory.getPrompt(templateType, {
+      contentType: templateType,
+      content,
+      metadata,
+      customInstructions: note,
+      // Content arrives pre-chunked to fit the model, so templates must not truncate it
+      maxContentLength: Infinity
+    });
+
+    // The template's Markdown layout defines the sections; the reply itself is JSON
+    const structure = template.expectedFormat.replace(/^---\n[\s\S]*?\n---\n*/, '');
+
+    const basePrompt = `${template.systemInstruction}
+
+${template.userPrompt}
+
+Respond with a single JSON object, not YAML frontmatter or Markdown, in this structure:
+${ANALYSIS_JSON_FORMAT}
+
+Put the summary, key points and analysis in their own fields. Add one "sections" entry for every other heading of the structure below, with its subheadings as "subsections":
+${structure}
+
+Analysis mode: ${options.analysisMode}
+Include entities: ${options.extractEntities}
+Language: ${options.language || 'English'}${options.includeTimestamps && /\[(?:\d{1,2}:)?\d{1,2}:\d{2}\]/.test(content)
+  ? '\nTimestamps: the content is marked with [mm:ss] times. End each key point with the marker of the moment it refers to, e.g. "Main argument introduced [12:34]".'
+  : ''}`;
+
+    return this.withSystemPrompt(basePrompt, options);
+  }
+
+  /** JSON prompt for one part of longer content; the parts are merged afterwards */
+  private generatePrompt(
+    content: string,
+    contentType: ContentType,
+    options: ProcessingOptions,
+    chunk: ContentChunk,
+    totalChunks: number
+  ): string {
+    const intro = `The following is part ${chunk.index + 1} of ${totalChunks} of a longer ${contentType}. Analyze only this part; the parts will be merged afterwards. Provide a structured analysis in JSON format:`;
+
+    const basePrompt = `${intro}
 
 CONTENT:
-${content.substring(0, 8000)} ${content.length > 8000 ? '...(content truncated for processing)' : ''}
+${content}
 
 Please provide a JSON response with the following structure:
 {
@@ -467,82 +1358,141 @@ Please provide a JSON response with the following structure:
 
 Analysis mode: ${options.analysisMode}
 Include entities: ${options.extractEntities}
-Language: ${options.language || 'English'}`;
+Language: ${options.language || 'English'}${options.includeTimestamps && /\[(?:\d{1,2}:)?\d{1,2}:\d{2}\]/.test(content)
+  ? '\nTimestamps: the content is marked with [mm:ss] times. End each key point with the marker of the moment it refers to, e.g. "Main argument introduced [12:34]".'
+  : ''}`;
 
-    if (options.customPrompts?.system) {
-      return `${options.customPrompts.system}\n\n${basePrompt}`;
-    }
+    return this.withSystemPrompt(basePrompt, options);
+  }
+
+  /** Prompt merging the analyses of consecutive parts into one */
+  private generateReducePrompt(results: PartialAnalysis[], contentType: ContentType, options: ProcessingOptions): string {
+    const parts = results.map(result => this.reduceInput(result));
 
-    return basePrompt;
+    const basePrompt = `The following JSON array holds analyses of ${results.length} consecutive parts of one ${contentType}, in order. Merge them into a single analysis of the whole content: remove repetition, keep the most important key points and insights, and write the summary and analysis as one coherent text.
+
+PART ANALYSES:
+${JSON.stringify(parts, null, 2)}
+
+Please provide a JSON response with the following structure:
+{
+  "summary": "A comprehensive summary of the whole content",
+  "keyPoints": ["Key point 1", "Key point 2", "Key point 3"],
+  "analysis": "Detailed analysis and insights",
+  "insights": ["Insight 1", "Insight 2", "Insight 3"]
+}
+
+Analysis mode: ${options.analysisMode}
+Language: ${options.language || 'English'}${options.includeTimestamps
+  ? '\nTimestamps: keep any [mm:ss] markers at the end of key points unchanged.'
+  : ''}`;
+
+    return this.withSystemPrompt(basePrompt, options);
   }
 
-  /** Parse AI response into structured data */
-  private parseAIResponse(response: string): {
-    summary: string;
-    keyPoints: string[];
-    analysis: string;
-    entities: Array<{ text: string; type: string; confidence: number }>;
-    insights: string[];
-  } {
-    try {
-      // Try to extract JSON from response
-      const jsonMatch = response.match(/\{[\s\S]*\}/);
-      if (jsonMatch) {
-        const parsed = JSON.parse(jsonMatch[0]);
-
-        return {
-          summary: parsed.summary || 'Summary not available',
-          keyPoints: Array.isArray(parsed.keyPoints) ? parsed.keyPoints : [],
-          analysis: parsed.analysis || 'Analysis not available',
-          entities: Array.isArray(parsed.entities) ? parsed.entities : [],
-          insights: Array.isArray(parsed.insights) ? parsed.insights : []
-        };
-      }
-    } catch (error) {
-      logger.warn('Failed to parse AI response as JSON, falling back to text extraction');
+  private withSystemPrompt(prompt: string, options: ProcessingOptions): string {
+    if (options.customPrompts?.system) {
+      return `${options.customPrompts.system}\n\n${prompt}`;
     }
 
-    // Fallback: extract from plain text
-    return {
-      summary: this.extractSection(response, 'summary') || response.substring(0, 500),
-      keyPoints: this.extractListItems(response, 'key points') || [],
-      analysis: this.extractSection(response, 'analysis') || response.substring(500),
-      entities: [],
-      insights: this.extractListItems(response, 'insights') || []
-    };
+    return prompt;
   }
+}
 
-  /** Extract a section from text response */
-  private extractSection(text: string, sectionName: string): string | null {
-    const patterns = [
-      new RegExp(`${sectionName}:?\s*([^\n]+(?:\n[^{]*?)*?)(?=\n\n|\n[A-Z]|\n\{|$)`, 'i'),
-      new RegExp(`##? ${sectionName}\s*\n([\s\S]*?)(?=\n##|\n$|$)`, 'i')
-    ];
+// ============================================================================
+// PROGRESS TRACKING
+// ============================================================================
 
-    for (const pattern of patterns) {
-      const match = text.match(pattern);
-      if (match && match[1]) {
-        return match[1].trim();
-      }
-    }
+/** Pipeline stages, in order, with their share of overall progress */
+const PROCESSING_STAGES: ReadonlyArray<{ name: string; weight: number; message: string }> = [
+  { name: 'validation', weight: 5, message: 'Validating request...' },
+  { name: 'content_fetch', weight: 25, message: 'Fetching content...' },
+  { name: 'ai_processing', weight: 55, message: 'Analyzing content with AI...' },
+  { name: 'gem_creation', weight: 10, message: 'Creating Gemini Gem...' },
+  { name: 'final_validation', weight: 5, message: 'Validating output...' }
+];
+
+/** Per-request options for processRequest */
+interface ProcessRequestOptions {
+  /** Called on every stage transition */
+  onProgress?: ProgressCallback;
+
+  /** Called with the note body as the model writes it; the final gem follows in the result */
+  onPartialOutput?: PartialOutputCallback;
+
+  /** Cancels the request: the running stage stops and the result fails with code CANCELLED */
+  signal?: AbortSignal;
+}
 
-    return null;
+/** Tracks progress of a single request and reports stage transitions */
+class ProgressTracker {
+  private readonly startTime = Date.now();
+  private current: ProgressInfo;
+
+  constructor(
+    private readonly stages: ProcessingStage[],
+    private readonly onProgress?: ProgressCallback
+  ) {
+    this.current = {
+      stage: 'pending',
+      progress: 0,
+      message: 'Starting...',
+      timeElapsed: 0
+    };
   }
 
-  /** Extract list items from text response */
-  private extractListItems(text: string, context: string): string[] | null {
-    const listPattern = new RegExp(`${context}:?\s*\n((?:[-*•]\s.*\n?)*)`, 'i');
-    const match = text.match(listPattern);
+  /** Latest progress snapshot */
+  get info(): ProgressInfo {
+    return { ...this.current, timeElapsed: Date.now() - this.startTime };
+  }
+
+  /** Report that a stage started or ended */
+  async report(stage: ProcessingStage): Promise<void> {
+    const index = PROCESSING_STAGES.findIndex(s => s.name === stage.name);
+    const definition = PROCESSING_STAGES[index];
+    const ended = stage.status !== ProcessingStatusEnum.PROCESSING;
+    const stopped = stage.status === ProcessingStatusEnum.FAILED || stage.status === ProcessingStatusEnum.CANCELLED;
+
+    // Progress counts finished stages only; a failed or cancelled stage reports where it stopped
+    const finished = PROCESSING_STAGES.slice(0, index + (stage.status === ProcessingStatusEnum.COMPLETED ? 1 : 0));
+    const progress = index < 0 ? 100 : finished.reduce((sum, s) => sum + s.weight, 0);
+    const timeElapsed = Date.now() - this.startTime;
+
+    const event: ProgressEvent = {
+      stage: stage.name,
+      stageStatus: stage.status,
+      stageIndex: index < 0 ? PROCESSING_STAGES.length : index,
+      totalStages: PROCESSING_STAGES.length,
+      stageDuration: ended ? stage.duration : undefined,
+      progress,
+      message: stage.status === ProcessingStatusEnum.FAILED
+        ? `Failed during ${stage.name.replace(/_/g, ' ')}`
+        : stage.status === ProcessingStatusEnum.CANCELLED
+        ? `Cancelled during ${stage.name.replace(/_/g, ' ')}`
+        : ended ? `Finished ${stage.name.replace(/_/g, ' ')}` : (definition?.message ?? 'Processing...'),
+      timeElapsed,
+      estimatedTimeRemaining: progress > 0 && progress < 100 && !stopped
+        ? Math.round((timeElapsed / progress) * (100 - progress))
+        : undefined,
+      currentOperation: definition?.message,
+      stages: this.stages.map(s => ({ ...s }))
+    };
+
+    this.current = event;
 
-    if (match && match[1]) {
-      return match[1]
-        .split('\n')
-        .filter(line => /^[-*•]\s/.test(line))
-        .map(line => line.replace(/^[-*•]\s/, '').trim())
-        .filter(line => line.length > 0);
+    if (!this.onProgress) {
+      return;
     }
 
-    return null;
+    // A failing listener must never fail the request
+    try {
+      await this.onProgress(event);
+    } catch (error) {
+      logger.warn('Progress callback failed', {
+        stage: stage.name,
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
   }
 }
 
@@ -558,22 +1508,36 @@ export class DataProcessor {
   private requestValidator: ProcessingRequestValidator;
   private gemValidator: GeminiGemValidator;
 
-  // In-memory cache (simplified)
-  private cache = new Map<string, { data: any; timestamp: number; ttl: number }>();
+  /** Shared application cache of results and fetched content */
+  private resultCache: HighPerformanceCache | null;
+
+  /** Persistent cache of fetched sources and the gems made from them */
+  private sourceCache: SourceCache | null;
+
+  /** Progress of the request in flight */
+  private activeTracker: ProgressTracker | null = null;
 
   constructor(config: Partial<ProcessorConfig> = {}) {
     this.config = { ...DEFAULT_CONFIG, ...config };
-    this.contentFetcher = new ContentFetcher(this.config);
+    this.sourceCache = (this.config.useSourceCache ?? getConfig().sourceCache.enabled) ? getSourceCache() : null;
+    this.resultCache = this.config.cacheConfig.enabled && (this.config.useSharedCache ?? getConfig().cache.enabled)
+      ? getSharedCache()
+      : null;
+    this.contentFetcher = new ContentFetcher(this.config, this.sourceCache, this.resultCache);
     this.requestValidator = new ProcessingRequestValidator();
     this.gemValidator = new GeminiGemValidator();
   }
 
   /** Process content request */
-  async processRequest(request: ProcessingRequest): Promise<ProcessingResult> {
+  async processRequest(request: ProcessingRequest, options: ProcessRequestOptions = {}): Promise<ProcessingResult> {
     const startTime = new Date();
     const stages: ProcessingStage[] = [];
+    const tracker = new ProgressTracker(stages, options.onProgress);
+    this.activeTracker = tracker;
 
     try {
+      const providerConfig = this.config.provider ?? providerConfigFromSettings(getConfig().ai);
+
       // Validation stage
       const validationStage = await this.executeStage(
         'validation',
@@ -590,66 +1554,70 @@ export class DataProcessor {
             });
           }
 
-          // Validate API key
-          const apiKeyValidator = new ApiKeyValidator();
-          const keyValidation = await ApiKeyValidator.testGeminiKey(request.auth.apiKey);
-          if (!keyValidation.valid) {
-            throw new CoreProcessingError({
-              category: ErrorCategoryEnum.AUTH,
-              code: 'INVALID_API_KEY',
-              message: keyValidation.error || 'Invalid API key',
-              recoverable: false,
-              timestamp: new Date()
-            });
+          // Only Gemini keys can be checked against the live API
+          if (providerConfig.provider === 'gemini') {
+            const keyValidation = await ApiKeyValidator.testGeminiKey(request.auth.apiKey);
+            if (!keyValidation.valid) {
+              throw new CoreProcessingError({
+                category: ErrorCategoryEnum.AUTH,
+                code: 'INVALID_API_KEY',
+                message: keyValidation.error || 'Invalid API key',
+                recoverable: false,
+                timestamp: new Date()
+              });
+            }
           }
 
           return validation;
         },
-        stages
+        stages,
+        tracker,
+        options.signal
       );
 
-      // Initialize AI processor
-      this.aiProcessor = new AIProcessor(request.auth.apiKey, this.config);
+      // Initialize AI processor; every provider runs on the key sent with the request, so a
+      // caller's work is never billed to the server's key
+      this.aiProcessor = new AIProcessor(createAIProvider({
+        ...providerConfig,
+        apiKey: request.auth.apiKey
+      }), this.config);
 
       // Check cache
-      const cacheKey = this.generateCacheKey(request);
-      const cachedResult = this.getFromCache(cacheKey);
+      const source = describeSource(request.input);
+      const cacheKey = await this.generateCacheKey(request, source, providerConfig);
+      const cachedResult = await this.getFromCache(cacheKey);
       if (cachedResult) {
-        const endTime = new Date();
-        return {
-          success: true,
-          data: cachedResult,
-          metadata: {
-            startTime,
-            endTime,
-            duration: endTime.getTime() - startTime.getTime(),
-            sourceUrl: typeof request.input === 'string' ? request.input : 'direct_input',
-            contentType: cachedResult.frontmatter.type,
-            analysisMode: request.options.analysisMode,
-            tokensUsed: 0,
-            stages: [...stages, {
-              name: 'cache_hit',
-              status: ProcessingStatusEnum.COMPLETED,
-              startTime: new Date(),
-              endTime: new Date(),
-              duration: 0
-            }],
-            cacheHit: true,
-            retryAttempts: 0
-          }
-        };
+        return await this.cachedResult(cachedResult, 'cache_hit', request, source, startTime, stages, tracker);
       }
 
-      // Content fetching stage
-      const url = typeof request.input === 'string' ? request.input : 'direct_input';
+      // Content fetching stage (remote URL, or text/file/buffer supplied directly)
+      const input = request.input;
       const fetchedContent = await this.executeStage(
         'content_fetch',
         async () => {
-          return await this.contentFetcher.fetchContent(url);
+          return typeof input === 'string'
+            ? await this.contentFetcher.fetchContent(input, {
+              includeTimestamps: request.options.includeTimestamps,
+              respectRobots: request.options.respectRobots,
+              signal: options.signal
+            })
+            : await this.contentFetcher.loadLocalContent(input);
         },
-        stages
+        stages,
+        tracker,
+        options.signal
       );
 
+      // A source unchanged since it was last processed with these options reuses that gem
+      // (local content has no hash: its result cache key already tracks changes)
+      const { contentHash } = fetchedContent as { contentHash?: string };
+      const gemKey = gemOptionsKey(request.options, providerConfig);
+      const sourceGem = contentHash ? await this.getSourceGem(source, gemKey, contentHash) : null;
+      if (sourceGem) {
+        await this.setCache(cacheKey, source, sourceGem);
+        return await this.cachedResult(sourceGem, 'source_unchanged', request, source, startTime, stages, tracker);
+      }
+
       // AI processing stage
       const aiResult = await this.executeStage(
         'ai_processing',
@@ -660,10 +1628,18 @@ export class DataProcessor {
           return await this.aiProcessor.processContent(
             fetchedContent.content,
             fetchedContent.type,
-            request.options
+            request.options,
+            { ...fetchedContent.metadata, url: source },
+            {
+              onAttempt: attempt => stages.push(attempt),
+              onPartialOutput: options.onPartialOutput && (markdown => this.reportPartialOutput(options.onPartialOutput!, markdown))
+            },
+            options.signal
           );
         },
-        stages
+        stages,
+        tracker,
+        options.signal
       );
 
       // Gemini Gem creation stage
@@ -672,12 +1648,14 @@ export class DataProcessor {
         async () => {
           return await this.createGeminiGem(
             request,
-            url,
+            source,
             fetchedContent,
             aiResult
           );
         },
-        stages
+        stages,
+        tracker,
+        options.signal
       );
 
       // Validation stage
@@ -697,11 +1675,16 @@ export class DataProcessor {
           }
           return validation;
         },
-        stages
+        stages,
+        tracker,
+        options.signal
       );
 
       // Cache result
-      this.setCache(cacheKey, geminiGem);
+      await this.setCache(cacheKey, source, geminiGem);
+      if (contentHash) {
+        await this.setSourceGem(source, gemKey, contentHash, geminiGem);
+      }
 
       const endTime = new Date();
 
@@ -712,18 +1695,21 @@ export class DataProcessor {
           startTime,
           endTime,
           duration: endTime.getTime() - startTime.getTime(),
-          sourceUrl: url,
+          sourceUrl: source,
           contentType: geminiGem.frontmatter.type,
           analysisMode: request.options.analysisMode,
-          tokensUsed: 0, // Would be calculated from AI response
+          tokensUsed: aiResult.tokensUsed,
+          ...(aiResult.chunks ? { chunks: aiResult.chunks } : {}),
           stages,
           cacheHit: false,
           retryAttempts: 0
         }
       };
 
-    } catch (error) {
+    } catch (caught) {
       const endTime = new Date();
+      // Whatever a cancelled request failed with, it ended because it was cancelled
+      const error = options.signal?.aborted ? cancelledError() : caught;
 
       return {
         success: false,
@@ -738,7 +1724,7 @@ export class DataProcessor {
           startTime,
           endTime,
           duration: endTime.getTime() - startTime.getTime(),
-          sourceUrl: typeof request.input === 'string' ? request.input : 'direct_input',
+          sourceUrl: describeSource(request.input),
           contentType: ContentTypeEnum.UNKNOWN,
           analysisMode: request.options.analysisMode,
           tokensUsed: 0,
@@ -747,21 +1733,30 @@ export class DataProcessor {
           retryAttempts: 0
         }
       };
+    } finally {
+      if (this.activeTracker === tracker) {
+        this.activeTracker = null;
+      }
     }
   }
 
-  /** Execute a processing stage with error handling */
+  /** Execute a processing stage with error handling; a cancelled request starts no further stages */
   private async executeStage<T>(
     stageName: string,
     stageFunction: () => Promise<T>,
-    stages: ProcessingStage[]
+    stages: ProcessingStage[],
+    tracker: ProgressTracker,
+    signal?: AbortSignal
   ): Promise<T> {
+    throwIfCancelled(signal);
+
     const stage: ProcessingStage = {
       name: stageName,
       status: ProcessingStatusEnum.PROCESSING,
       startTime: new Date()
     };
     stages.push(stage);
+    await tracker.report(stage);
 
     try {
       const result = await stageFunction();
@@ -769,35 +1764,45 @@ export class DataProcessor {
       stage.status = ProcessingStatusEnum.COMPLETED;
       stage.endTime = new Date();
       stage.duration = stage.endTime.getTime() - stage.startTime.getTime();
+      await tracker.report(stage);
 
       return result;
     } catch (error) {
-      stage.status = ProcessingStatusEnum.FAILED;
+      stage.status = signal?.aborted ? ProcessingStatusEnum.CANCELLED : ProcessingStatusEnum.FAILED;
       stage.endTime = new Date();
       stage.duration = stage.endTime.getTime() - stage.startTime.getTime();
       stage.errors = [error as ProcessingError];
+      await tracker.report(stage);
 
       throw error;
     }
   }
 
+  /** Pass a preview on without letting a failing listener fail the request */
+  private reportPartialOutput(onPartialOutput: PartialOutputCallback, markdown: string): void {
+    const warn = (error: unknown) => logger.warn('Partial output callback failed', {
+      error: error instanceof Error ? error.message : String(error)
+    });
+    try {
+      Promise.resolve(onPartialOutput(markdown)).catch(warn);
+    } catch (error) {
+      warn(error);
+    }
+  }
+
   /** Create GeminiGem from processed data */
   private async createGeminiGem(
     request: ProcessingRequest,
-    url: string,
-    fetchedContent: { content: string; type: ContentType; metadata: Record<string, unknown> },
-    aiResult: {
-      summary: string;
-      keyPoints: string[];
-      analysis: string;
-      entities: Array<{ text: string; type: string; confidence: number }>;
-      insights: string[];
-    }
+    source: string,
+    fetchedContent: { content: string; type: ContentType; metadata: Record<string, unknown>; transcript?: Transcript },
+    aiResult: Omit<AIAnalysis, 'tokensUsed' | 'chunks'>
   ): Promise<GeminiGem> {
     const processed = new Date();
 
-    // Generate tags from content and metadata
+    // Generate tags from content and metadata; tag overrides lead so they survive the cap
     const tags = ContentStructureUtils.normalizeTags([
+      ...(request.options.tagOverrides ?? []),
+      ...(aiResult.tags ?? []),
       ...aiResult.insights.slice(0, 5), // Use insights as tags
       ...Object.keys(fetchedContent.metadata).filter(key =>
         typeof fetchedContent.metadata[key] === 'string'
@@ -809,8 +1814,8 @@ export class DataProcessor {
 
     const geminiGem: GeminiGem = {
       frontmatter: {
-        title: (fetchedContent.metadata.title as string) || `Content from ${url}`,
-        source: url,
+        title: (fetchedContent.metadata.title as string) || aiResult.title || `Content from ${source}`,
+        source,
         type: fetchedContent.type,
         processed,
         tags,
@@ -831,19 +1836,41 @@ export class DataProcessor {
       content: {
         summary: aiResult.summary,
         keyPoints: aiResult.keyPoints,
-        sections: [], // Would be enhanced in production
+        sections: aiResult.sections ?? [],
         analysis: aiResult.analysis,
-        transcript: request.options.includeTranscript ? fetchedContent.content : undefined
+        transcript: request.options.includeTranscript ? this.selectTranscript(request, fetchedContent) : undefined
       }
     };
 
     return geminiGem;
   }
 
-  /** Generate cache key for request */
-  private generateCacheKey(request: ProcessingRequest): string {
+  /** Timed transcript when timestamps are wanted, plain text otherwise */
+  private selectTranscript(
+    request: ProcessingRequest,
+    fetchedContent: { content: string; transcript?: Transcript }
+  ): string | Transcript {
+    if (!fetchedContent.transcript) {
+      return fetchedContent.content;
+    }
+    return request.options.includeTimestamps
+      ? fetchedContent.transcript
+      : transcriptToText(fetchedContent.transcript);
+  }
+
+  /** Generate cache key for a request and provider; local files also key on size and modification time */
+  private async generateCacheKey(request: ProcessingRequest, source: string, provider: AIProviderConfig): Promise<string> {
+    let version: string | undefined;
+    if (typeof request.input !== 'string' && request.input.filePath !== undefined) {
+      const fileStat = await stat(source).catch(() => null);
+      version = fileStat ? `${fileStat.size}:${fileStat.mtimeMs}` : undefined;
+    }
+
     const keyData = {
-      url: typeof request.input === 'string' ? request.input : 'direct',
+      url: source,
+      version,
+      provider: provider.provider,
+      model: provider.model ?? null,
       options: request.options,
       type: request.options.analysisMode
     };
@@ -851,50 +1878,98 @@ export class DataProcessor {
     return Buffer.from(JSON.stringify(keyData)).toString('base64');
   }
 
-  /** Get data from cache */
-  private getFromCache(key: string): GeminiGem | null {
-    if (!this.config.cacheConfig.enabled) {
+  /** Get data from cache; a cache that cannot be read is treated as empty */
+  private async getFromCache(key: string): Promise<GeminiGem | null> {
+    if (!this.resultCache) {
       return null;
     }
 
-    const cached = this.cache.get(key);
-    if (!cached) {
-      return null;
+    const gem = await this.resultCache.get<GeminiGem>(cacheUtils.NAMESPACES.PROCESSED_DATA, key);
+    if (gem) {
+      gem.frontmatter.processed = new Date(gem.frontmatter.processed);
     }
+    return gem;
+  }
 
-    const now = Date.now();
-    if (now - cached.timestamp > cached.ttl * 1000) {
-      this.cache.delete(key);
-      return null;
+  /** Set data in cache, tagged with its source so purging the source drops it; failing to is logged, not fatal */
+  private async setCache(key: string, source: string, data: GeminiGem): Promise<void> {
+    if (!this.resultCache) {
+      return;
     }
 
-    return cached.data;
+    try {
+      await this.resultCache.set(cacheUtils.NAMESPACES.PROCESSED_DATA, key, data, {
+        ttl: this.config.cacheConfig.ttl * 1000,
+        tags: [cacheUtils.sourceTag(source)]
+      });
+    } catch (error) {
+      logger.warn('Failed to update result cache', { source, error: error instanceof Error ? error.message : String(error) });
+    }
   }
 
-  /** Set data in cache */
-  private setCache(key: string, data: GeminiGem): void {
-    if (!this.config.cacheConfig.enabled) {
-      return;
+  /** Gem made from a source with this content, if the source cache has one */
+  private async getSourceGem(source: string, gemKey: string, contentHash: string): Promise<GeminiGem | null> {
+    try {
+      return await this.sourceCache?.getGem(source, gemKey, contentHash) ?? null;
+    } catch (error) {
+      logger.warn('Failed to read source cache', { source, error: error instanceof Error ? error.message : String(error) });
+      return null;
     }
+  }
 
-    // Simple cache size management
-    if (this.cache.size > 100) {
-      const oldestKey = this.cache.keys().next().value;
-      if (oldestKey) {
-        this.cache.delete(oldestKey);
-      }
+  /** Keep a gem in the source cache; failing to is logged, not fatal */
+  private async setSourceGem(source: string, gemKey: string, contentHash: string, gem: GeminiGem): Promise<void> {
+    try {
+      await this.sourceCache?.saveGem(source, gemKey, contentHash, gem);
+    } catch (error) {
+      logger.warn('Failed to update source cache', { source, error: error instanceof Error ? error.message : String(error) });
     }
+  }
 
-    this.cache.set(key, {
-      data,
-      timestamp: Date.now(),
-      ttl: this.config.cacheConfig.ttl
-    });
+  /** Successful result for a gem served from a cache, reported as one finished stage */
+  private async cachedResult(
+    gem: GeminiGem,
+    stageName: 'cache_hit' | 'source_unchanged',
+    request: ProcessingRequest,
+    source: string,
+    startTime: Date,
+    stages: ProcessingStage[],
+    tracker: ProgressTracker
+  ): Promise<ProcessingResult> {
+    const endTime = new Date();
+    const cacheStage: ProcessingStage = {
+      name: stageName,
+      status: ProcessingStatusEnum.COMPLETED,
+      startTime: new Date(),
+      endTime: new Date(),
+      duration: 0
+    };
+    await tracker.report(cacheStage);
+
+    return {
+      success: true,
+      data: gem,
+      metadata: {
+        startTime,
+        endTime,
+        duration: endTime.getTime() - startTime.getTime(),
+        sourceUrl: source,
+        contentType: gem.frontmatter.type,
+        analysisMode: request.options.analysisMode,
+        tokensUsed: 0,
+        stages: [...stages, cacheStage],
+        cacheHit: true,
+        retryAttempts: 0
+      }
+    };
   }
 
-  /** Get processing progress */
+  /** Get progress of the request in flight (idle when none is running) */
   getProgress(): ProgressInfo {
-    // In a real implementation, this would track active processing
+    if (this.activeTracker) {
+      return this.activeTracker.info;
+    }
+
     return {
       stage: 'idle',
       progress: 0,
@@ -903,17 +1978,14 @@ export class DataProcessor {
     };
   }
 
-  /** Clear cache */
-  clearCache(): void {
-    this.cache.clear();
+  /** Clear cached results */
+  async clearCache(): Promise<void> {
+    await this.resultCache?.clear(cacheUtils.NAMESPACES.PROCESSED_DATA);
   }
 
-  /** Get cache statistics */
-  getCacheStats(): { size: number; keys: string[] } {
-    return {
-      size: this.cache.size,
-      keys: Array.from(this.cache.keys())
-    };
+  /** Get cache statistics: cached results and the bytes they take */
+  getCacheStats(): { entries: number; size: number } {
+    return this.resultCache?.namespaceStats(cacheUtils.NAMESPACES.PROCESSED_DATA) ?? { entries: 0, size: 0 };
   }
 }
 
@@ -967,13 +2039,56 @@ class CoreProcessingError extends Error {
   }
 }
 
+/** Error for a request stopped through its AbortSignal */
+function cancelledError(): CoreProcessingError {
+  return new CoreProcessingError({
+    category: ErrorCategoryEnum.PROCESSING,
+    code: 'CANCELLED',
+    message: 'Processing was cancelled',
+    recoverable: false,
+    timestamp: new Date()
+  });
+}
+
+function throwIfCancelled(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw cancelledError();
+  }
+}
+
+/** Wait for `promise`, failing with a cancellation error as soon as `signal` aborts */
+function untilCancelled<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) {
+    return promise;
+  }
+  return new Promise((resolve, reject) => {
+    const onAbort = () => reject(cancelledError());
+    if (signal.aborted) {
+      onAbort();
+    }
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(
+      value => {
+        signal.removeEventListener('abort', onAbort);
+        resolve(value);
+      },
+      error => {
+        signal.removeEventListener('abort', onAbort);
+        reject(error);
+      }
+    );
+  });
+}
+
 // ============================================================================
 // EXPORTS
 // ============================================================================
 
 export {
   ProcessorConfig,
+  ProcessRequestOptions,
   DEFAULT_CONFIG,
+  PROCESSING_STAGES,
   ContentFetcher,
   AIProcessor,
   CoreProcessingError as ProcessingError
@@ -0,0 +1,366 @@
+/**
+ * Article Extraction
+ * Finds the main content of a web page by scoring its paragraphs, in the
+ * manner of Mozilla's Readability, and returns it as Markdown with the
+ * page's title, byline and dates
+ */
+
+import * as cheerio from 'cheerio';
+import type { CheerioAPI } from 'cheerio';
+import { elementsToMarkdown, type AnyNode, type Element } from './markdown.js';
+
+export interface ArticleExtraction {
+  title?: string;
+  byline?: string;
+  /** Short description, from the page's meta tags */
+  excerpt?: string;
+  siteName?: string;
+  /** Publication date as the page states it (ISO 8601 for most sites) */
+  publishedTime?: string;
+  language?: string;
+  /** Main content as Markdown, without the title */
+  markdown: string;
+  /** Characters of text in the main content */
+  textLength: number;
+  /** False when no content block stood out and the whole body was used */
+  extractedMain: boolean;
+}
+
+export interface ExtractArticleOptions {
+  /** Page URL, for resolving relative links and images */
+  url?: string;
+  /** Content shorter than this is retried with less aggressive cleaning */
+  minTextLength?: number;
+}
+
+/** Class or ID of page furniture */
+const UNLIKELY_CANDIDATES = /-ad-|ai2html|banner|breadcrumbs|combx|comment|community|cover-wrap|disqus|extra|footer|gdpr|header|legends|menu|related|remark|replies|rss|shoutbox|sidebar|skyscraper|social|sponsor|supplemental|ad-break|agegate|pagination|pager|popup|yom-remote|newsletter|cookie|share/i;
+/** Rescues an unlikely candidate that is probably content */
+const MAYBE_CANDIDATE = /and|article|body|column|content|main|shadow|mathjax/i;
+const POSITIVE_CLASS = /article|body|content|entry|hentry|h-entry|main|page|post|text|blog|story/i;
+const NEGATIVE_CLASS = /-ad-|hidden|^hid$| hid$| hid |^hid |banner|combx|comment|com-|contact|foot|footer|footnote|gdpr|masthead|media|meta|outbrain|promo|related|scroll|share|shoutbox|sidebar|skyscraper|sponsor|shopping|tags|tool|widget/i;
+const UNLIKELY_ROLES = new Set(['menu', 'menubar', 'complementary', 'navigation', 'alert', 'alertdialog', 'dialog']);
+
+/** Removed before scoring: never article text */
+const NON_CONTENT = 'script, style, noscript, template, iframe, form, button, input, select, textarea, svg, canvas, object, embed, link, meta, nav, aside, footer, [hidden], [aria-hidden="true"]';
+
+/** Containers whose children decide whether they are paragraphs */
+const BLOCK_CHILDREN = 'a, blockquote, dl, div, img, ol, p, pre, table, ul, section, article, h1, h2, h3, h4, h5, h6';
+
+const TAGS_TO_SCORE = 'p, pre, td, section, h2, h3, h4, h5, h6';
+
+const DEFAULT_MIN_TEXT_LENGTH = 500;
+
+/** Cleaning passes, from strictest to most lenient */
+const PASSES = [
+  { stripUnlikely: true, weighClasses: true, cleanConditionally: true },
+  { stripUnlikely: false, weighClasses: true, cleanConditionally: true },
+  { stripUnlikely: false, weighClasses: false, cleanConditionally: true },
+  { stripUnlikely: false, weighClasses: false, cleanConditionally: false }
+];
+
+type Pass = typeof PASSES[number];
+
+function normalizeSpace(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+function textLength($: CheerioAPI, element: Element | AnyNode): number {
+  return normalizeSpace($(element).text()).length;
+}
+
+/** Share of an element's text that sits inside links; in-page anchors count less */
+function linkDensity($: CheerioAPI, element: Element): number {
+  const total = textLength($, element);
+  if (total === 0) {
+    return 0;
+  }
+  let linked = 0;
+  $(element).find('a').each((_, link) => {
+    const href = $(link).attr('href') ?? '';
+    linked += textLength($, link) * (href.startsWith('#') ? 0.3 : 1);
+  });
+  return linked / total;
+}
+
+/** +/-25 for class and ID names that usually mark content or furniture */
+function classWeight(element: Element, pass: Pass): number {
+  if (!pass.weighClasses) {
+    return 0;
+  }
+  let weight = 0;
+  for (const name of [element.attribs.class, element.attribs.id]) {
+    if (name) {
+      weight += NEGATIVE_CLASS.test(name) ? -25 : 0;
+      weight += POSITIVE_CLASS.test(name) ? 25 : 0;
+    }
+  }
+  return weight;
+}
+
+function initialScore(element: Element, pass: Pass): number {
+  const base: Record<string, number> = {
+    div: 5, pre: 3, td: 3, blockquote: 3,
+    address: -3, ol: -3, ul: -3, dl: -3, dd: -3, dt: -3, li: -3, form: -3,
+    h1: -5, h2: -5, h3: -5, h4: -5, h5: -5, h6: -5, th: -5
+  };
+  return (base[element.name] ?? 0) + classWeight(element, pass);
+}
+
+/** Page details from Open Graph, article and JSON-LD metadata */
+function readMetadata($: CheerioAPI): Omit<ArticleExtraction, 'markdown' | 'textLength' | 'extractedMain'> {
+  const meta = (...names: string[]) => {
+    for (const name of names) {
+      const content = $(`meta[property="${name}"], meta[name="${name}"]`).first().attr('content');
+      if (content?.trim()) {
+        return normalizeSpace(content);
+      }
+    }
+    return undefined;
+  };
+
+  let jsonLd: { headline?: string; author?: unknown; datePublished?: string; publisher?: { name?: string } } = {};
+  $('script[type="application/ld+json"]').each((_, script) => {
+    try {
+      const data = JSON.parse($(script).text());
+      const items: any[] = Array.isArray(data) ? data : data?.['@graph'] ?? [data];
+      const article = items.find(item => /Article|BlogPosting|Report/.test(String(item?.['@type'] ?? '')));
+      if (article && !jsonLd.headline) {
+        jsonLd = article;
+      }
+    } catch {
+      // Malformed JSON-LD is common; the meta tags still apply
+    }
+  });
+  const ldAuthors = [jsonLd.author].flat().map(author => (typeof author === 'string' ? author : (author as { name?: string })?.name)).filter(Boolean);
+
+  const documentTitle = normalizeSpace($('title').first().text());
+  const heading = normalizeSpace($('h1').first().text());
+
+  return {
+    title: meta('og:title', 'twitter:title') ?? (jsonLd.headline ? normalizeSpace(jsonLd.headline) : undefined) ?? cleanDocumentTitle(documentTitle, heading) ?? (heading || undefined),
+    byline: meta('author', 'article:author', 'parsely-author', 'dc.creator')
+      ?? (ldAuthors.length > 0 ? ldAuthors.join(', ') : undefined)
+      ?? (normalizeSpace($('[rel="author"], .byline, .author').first().text()) || undefined),
+    excerpt: meta('og:description', 'description', 'twitter:description'),
+    siteName: meta('og:site_name') ?? jsonLd.publisher?.name,
+    publishedTime: meta('article:published_time', 'date', 'dc.date', 'parsely-pub-date')
+      ?? jsonLd.datePublished
+      ?? $('time[datetime]').first().attr('datetime'),
+    language: $('html').attr('lang')?.trim() || undefined
+  };
+}
+
+/** The document title without a trailing " | Site Name" */
+function cleanDocumentTitle(title: string, heading: string): string | undefined {
+  if (!title) {
+    return undefined;
+  }
+  if (heading && title.includes(heading)) {
+    return heading;
+  }
+  const parts = title.split(/\s+[|\-–—:»]\s+/);
+  return parts.length > 1 && parts[0].split(' ').length >= 3 ? parts[0] : title;
+}
+
+/** Remove page furniture and hidden elements */
+function prepare($: CheerioAPI, pass: Pass): void {
+  $(NON_CONTENT).remove();
+  $('[style]').filter((_, element) => /display\s*:\s*none|visibility\s*:\s*hidden/i.test(element.attribs.style)).remove();
+  $('*').contents().filter((_, node) => node.type === 'comment').remove();
+
+  if (pass.stripUnlikely) {
+    $('body *').each((_, element) => {
+      const match = `${element.attribs.class ?? ''} ${element.attribs.id ?? ''}`;
+      const role = element.attribs.role;
+      if (['body', 'article', 'main', 'a', 'table', 'tbody', 'tr', 'td', 'th', 'code', 'pre'].includes(element.name)) {
+        return;
+      }
+      if ((UNLIKELY_CANDIDATES.test(match) && !MAYBE_CANDIDATE.test(match)) || (role && UNLIKELY_ROLES.has(role))) {
+        $(element).remove();
+      }
+    });
+  }
+}
+
+/**
+ * Score paragraphs and credit their ancestors: the parent in full, the
+ * grandparent by half and further ancestors by less. Returns the best
+ * candidate and all scores.
+ */
+function scoreCandidates($: CheerioAPI, pass: Pass): { top?: Element; scores: Map<Element, number> } {
+  const scores = new Map<Element, number>();
+  const scorable = $(TAGS_TO_SCORE).toArray();
+  // Divs holding only text and inline markup are paragraphs in all but name
+  $('div').each((_, div) => {
+    if ($(div).children(BLOCK_CHILDREN).length === 0) {
+      scorable.push(div);
+    }
+  });
+
+  for (const element of scorable) {
+    const text = normalizeSpace($(element).text());
+    if (text.length < 25) {
+      continue;
+    }
+    const score = 1 + text.split(/[,，、]/).length - 1 + Math.min(Math.floor(text.length / 100), 3);
+    $(element).parents().slice(0, 5).each((level, ancestor) => {
+      if (!ancestor.name || ancestor.name === 'html') {
+        return;
+      }
+      if (!scores.has(ancestor)) {
+        scores.set(ancestor, initialScore(ancestor, pass));
+      }
+      const divider = level === 0 ? 1 : level === 1 ? 2 : level * 3;
+      scores.set(ancestor, scores.get(ancestor)! + score / divider);
+    });
+  }
+
+  let top: Element | undefined;
+  let topScore = -Infinity;
+  for (const [candidate, score] of scores) {
+    const adjusted = score * (1 - linkDensity($, candidate));
+    scores.set(candidate, adjusted);
+    if (adjusted > topScore) {
+      top = candidate;
+      topScore = adjusted;
+    }
+  }
+  if (top && top.name === 'body') {
+    return { scores };
+  }
+  return { top, scores };
+}
+
+/** The top candidate and the siblings that look like they continue it */
+function articleElements($: CheerioAPI, top: Element, scores: Map<Element, number>): Element[] {
+  const topScore = scores.get(top) ?? 0;
+  const threshold = Math.max(10, topScore * 0.2);
+  const parent = top.parent;
+  if (!parent || parent.type !== 'tag') {
+    return [top];
+  }
+
+  return $(parent).children().toArray().filter(sibling => {
+    if (sibling === top) {
+      return true;
+    }
+    const bonus = top.attribs.class && sibling.attribs.class === top.attribs.class ? topScore * 0.2 : 0;
+    if ((scores.get(sibling) ?? -Infinity) + bonus >= threshold) {
+      return true;
+    }
+    if (sibling.name === 'p' || sibling.name === 'pre' || sibling.name === 'blockquote') {
+      const length = textLength($, sibling);
+      const density = linkDensity($, sibling);
+      return (length > 80 && density < 0.25) || (length > 0 && density === 0 && /\.( |$)/.test($(sibling).text()));
+    }
+    return false;
+  });
+}
+
+/**
+ * Drop blocks inside the article that look like furniture: link lists,
+ * image galleries without text, forms and short fragments
+ */
+function cleanConditionally($: CheerioAPI, root: Element, pass: Pass): void {
+  if (!pass.cleanConditionally) {
+    return;
+  }
+  // Innermost first, so a container is judged on what is left inside it
+  const blocks = $(root).find('div, section, ul, ol, table, figure').toArray().reverse();
+  for (const element of blocks) {
+    const $element = $(element);
+    if (!element.parent || $element.closest('pre, code').length > 0 || $element.find('pre, code').length > 0) {
+      continue;
+    }
+    if (element.name === 'table' && isDataTable($, element)) {
+      continue;
+    }
+    const weight = classWeight(element, pass);
+    const text = normalizeSpace($element.text());
+    const commas = text.split(',').length - 1;
+    if (weight + commas >= 10) {
+      continue;
+    }
+
+    const paragraphs = $element.find('p').length;
+    const images = $element.find('img').length;
+    // As in Readability, only very long lists outweigh the paragraphs of a non-list block
+    const items = $element.find('li').length - 100;
+    const inputs = $element.find('input').length;
+    const density = linkDensity($, element);
+    const isList = element.name === 'ul' || element.name === 'ol';
+    const isFigure = element.name === 'figure' || $element.closest('figure').length > 0;
+
+    const remove =
+      (weight < 0) ||
+      (images > 1 && paragraphs / images < 0.5 && !isFigure) ||
+      (!isList && items > paragraphs) ||
+      (inputs > Math.floor(paragraphs / 3)) ||
+      (!isList && !isFigure && text.length < 25 && (images === 0 || images > 2) && $element.find('h1, h2, h3, h4, h5, h6').length === 0) ||
+      (weight < 25 && density > 0.2 && !isList) ||
+      (isList && density > 0.5 && text.length < 500) ||
+      (weight >= 25 && density > 0.5);
+    if (remove) {
+      $element.remove();
+    }
+  }
+}
+
+/** A table of data, as opposed to one used for layout */
+function isDataTable($: CheerioAPI, table: Element): boolean {
+  const $table = $(table);
+  if (table.attribs.role === 'presentation') {
+    return false;
+  }
+  if ($table.find('th, thead, caption').length > 0) {
+    return true;
+  }
+  const rows = $table.find('tr').length;
+  const columns = Math.max(0, ...$table.find('tr').toArray().map(row => $(row).children('td, th').length));
+  return rows >= 3 && columns >= 2 && $table.find('table').length === 0;
+}
+
+function extractOnce(html: string, pass: Pass, options: ExtractArticleOptions, title?: string) {
+  const $ = cheerio.load(html);
+  prepare($, pass);
+
+  const { top, scores } = scoreCandidates($, pass);
+  const elements = top ? articleElements($, top, scores) : $('body').toArray();
+  for (const element of elements) {
+    cleanConditionally($, element, pass);
+  }
+
+  // The title is rendered by the caller; drop the heading that repeats it
+  if (title) {
+    const normalizedTitle = normalizeSpace(title).toLowerCase();
+    const repeated = $(elements).find('h1, h2').add($(elements).filter('h1, h2')).filter((_, heading) => normalizeSpace($(heading).text()).toLowerCase() === normalizedTitle);
+    repeated.first().remove();
+  }
+
+  const markdown = elementsToMarkdown($, elements, { baseUrl: options.url, titleLevel: 1 });
+  return { markdown, textLength: normalizeSpace($(elements).text()).length, extractedMain: Boolean(top) };
+}
+
+/**
+ * Extract the main content of an HTML page as Markdown. Pages whose scored
+ * content is too short are retried with less aggressive cleaning; the
+ * longest result wins.
+ */
+export function extractArticle(html: string, options: ExtractArticleOptions = {}): ArticleExtraction {
+  const metadata = readMetadata(cheerio.load(html));
+  const minTextLength = options.minTextLength ?? DEFAULT_MIN_TEXT_LENGTH;
+
+  let best: ReturnType<typeof extractOnce> | undefined;
+  for (const pass of PASSES) {
+    const attempt = extractOnce(html, pass, options, metadata.title);
+    if (!best || attempt.textLength > best.textLength) {
+      best = attempt;
+    }
+    if (attempt.textLength >= minTextLength) {
+      break;
+    }
+  }
+
+  return { ...metadata, ...best! };
+}
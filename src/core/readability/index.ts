@@ -0,0 +1,9 @@
+/**
+ * Readability
+ * Main-content extraction for web pages, converted to Markdown
+ *
+ * Version: 1.0.0
+ */
+
+export { extractArticle, type ArticleExtraction, type ExtractArticleOptions } from './extractor.js';
+export { elementsToMarkdown, type MarkdownOptions } from './markdown.js';
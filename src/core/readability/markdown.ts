@@ -0,0 +1,302 @@
+/**
+ * HTML to Markdown
+ * Converts an extracted article subtree to Markdown, keeping headings,
+ * lists, fenced code with its language, tables, quotes, emphasis and links
+ */
+
+import type { Cheerio, CheerioAPI } from 'cheerio';
+
+/** A parsed node: element, text or comment */
+export type AnyNode = Parameters<CheerioAPI['contains']>[0];
+/** A parsed element */
+export type Element = ReturnType<ReturnType<CheerioAPI['root']>['children']> extends Cheerio<infer T> ? T : never;
+
+export interface MarkdownOptions {
+  /** Resolves relative links and image sources */
+  baseUrl?: string;
+  /**
+   * Heading level of the document's own title; content headings at or above
+   * it are shifted below it
+   */
+  titleLevel?: number;
+}
+
+const BLOCK_TAGS = new Set([
+  'address', 'article', 'aside', 'blockquote', 'center', 'details', 'dialog', 'dd', 'div', 'dl', 'dt',
+  'fieldset', 'figcaption', 'figure', 'footer', 'form', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'header',
+  'hgroup', 'hr', 'li', 'main', 'nav', 'ol', 'p', 'pre', 'section', 'summary', 'table', 'ul',
+  // Cells of layout tables, which are read as blocks
+  'caption', 'tbody', 'thead', 'tfoot', 'tr', 'td', 'th'
+]);
+
+/** Elements with no readable content */
+const SKIPPED_TAGS = new Set(['script', 'style', 'noscript', 'template', 'svg', 'canvas', 'button', 'input', 'select', 'textarea']);
+
+/** Class or attribute naming the language of a code block */
+const LANGUAGE_PATTERNS = [
+  /(?:^|\s)lang(?:uage)?-([\w+#-]+)/i,
+  /(?:^|\s)highlight-(?:source-)?([\w+#-]+)/i,
+  /brush:\s*([\w+#-]+)/i
+];
+
+/** Languages that mean "no highlighting" */
+const PLAIN_LANGUAGES = new Set(['none', 'plain', 'plaintext', 'nohighlight', 'text']);
+
+class MarkdownConverter {
+  constructor(private readonly $: CheerioAPI, private readonly options: MarkdownOptions) {}
+
+  /** Markdown of a list of nodes treated as a sequence of blocks */
+  blocks(nodes: AnyNode[]): string[] {
+    const result: string[] = [];
+    let inline = '';
+    const flush = () => {
+      const paragraph = tidyInline(inline);
+      if (paragraph) {
+        result.push(paragraph);
+      }
+      inline = '';
+    };
+
+    for (const node of nodes) {
+      if (node.type === 'tag' && BLOCK_TAGS.has(tagName(node))) {
+        flush();
+        result.push(...this.block(node as Element));
+      } else {
+        inline += this.inline(node);
+      }
+    }
+    flush();
+    return result;
+  }
+
+  private block(element: Element): string[] {
+    const tag = tagName(element);
+    const children = element.children;
+    switch (tag) {
+      case 'h1':
+      case 'h2':
+      case 'h3':
+      case 'h4':
+      case 'h5':
+      case 'h6': {
+        const text = tidyInline(this.inlineChildren(children)).replace(/\n+/g, ' ');
+        return text ? [`${'#'.repeat(this.headingLevel(Number(tag[1])))} ${text}`] : [];
+      }
+      case 'p':
+      case 'summary': {
+        const text = tidyInline(this.inlineChildren(children));
+        return text ? [text] : [];
+      }
+      case 'pre':
+        return [this.codeBlock(element)];
+      case 'blockquote': {
+        const quoted = this.blocks(children).join('\n\n');
+        return quoted ? [quoted.split('\n').map(line => (line ? `> ${line}` : '>')).join('\n')] : [];
+      }
+      case 'ul':
+      case 'ol':
+        return this.list(element);
+      case 'table':
+        return this.table(element);
+      case 'hr':
+        return ['---'];
+      case 'figcaption': {
+        const caption = tidyInline(this.inlineChildren(children)).replace(/\n+/g, ' ');
+        return caption ? [`*${caption}*`] : [];
+      }
+      case 'dt': {
+        const term = tidyInline(this.inlineChildren(children));
+        return term ? [`**${term}**`] : [];
+      }
+      default:
+        return this.blocks(children);
+    }
+  }
+
+  /** Content headings are kept below the document title */
+  private headingLevel(level: number): number {
+    const floor = this.options.titleLevel;
+    return floor !== undefined && level <= floor ? Math.min(6, floor + 1) : level;
+  }
+
+  private inlineChildren(nodes: AnyNode[]): string {
+    return nodes.map(node => this.inline(node)).join('');
+  }
+
+  private inline(node: AnyNode): string {
+    if (node.type === 'text') {
+      return (node as unknown as { data: string }).data.replace(/\s+/g, ' ');
+    }
+    if (node.type !== 'tag') {
+      return '';
+    }
+    const element = node as Element;
+    const tag = tagName(element);
+    if (SKIPPED_TAGS.has(tag)) {
+      return '';
+    }
+    switch (tag) {
+      case 'br':
+        return '\n';
+      case 'strong':
+      case 'b':
+        return wrap(this.inlineChildren(element.children), '**');
+      case 'em':
+      case 'i':
+      case 'cite':
+        return wrap(this.inlineChildren(element.children), '*');
+      case 'del':
+      case 's':
+      case 'strike':
+        return wrap(this.inlineChildren(element.children), '~~');
+      case 'code':
+      case 'kbd':
+      case 'samp':
+      case 'tt':
+        return inlineCode(this.$(element).text());
+      case 'a':
+        return this.link(element);
+      case 'img':
+        return this.image(element);
+      default:
+        // Block elements nested in inline context (e.g. a <div> inside <a>) read as text
+        return BLOCK_TAGS.has(tag)
+          ? ` ${this.blocks(element.children).join(' ')} `
+          : this.inlineChildren(element.children);
+    }
+  }
+
+  private link(element: Element): string {
+    const text = tidyInline(this.inlineChildren(element.children)).replace(/\n+/g, ' ');
+    const href = this.resolve(element.attribs.href);
+    if (!href || /^(?:javascript|data):/i.test(href) || href.startsWith('#')) {
+      return text;
+    }
+    return text ? `[${text.replace(/([[\]])/g, '\\$1')}](${escapeUrl(href)})` : '';
+  }
+
+  private image(element: Element): string {
+    const srcset = element.attribs.srcset?.split(',')[0]?.trim().split(/\s+/)[0];
+    const src = this.resolve(element.attribs.src || element.attribs['data-src'] || srcset);
+    if (!src || src.startsWith('data:')) {
+      return '';
+    }
+    const alt = (element.attribs.alt ?? '').replace(/\s+/g, ' ').replace(/([[\]])/g, '\\$1').trim();
+    return `![${alt}](${escapeUrl(src)})`;
+  }
+
+  private resolve(url: string | undefined): string | undefined {
+    const trimmed = url?.trim();
+    if (!trimmed) {
+      return undefined;
+    }
+    try {
+      return this.options.baseUrl ? new URL(trimmed, this.options.baseUrl).href : trimmed;
+    } catch {
+      return trimmed;
+    }
+  }
+
+  private codeBlock(pre: Element): string {
+    const $pre = this.$(pre);
+    // Line-number gutters from syntax highlighters are not code
+    $pre.find('.gutter, .lineno, .line-numbers-rows, .linenos').remove();
+    const code = $pre.find('code').first();
+    const text = (code.length > 0 ? code : $pre).text().replace(/\r\n?/g, '\n').replace(/^\n+|\s+$/g, '');
+    const language = codeLanguage(code.length > 0 ? [code, $pre, $pre.parent()] : [$pre, $pre.parent()]);
+    const longestRun = Math.max(0, ...(text.match(/`+/g) ?? []).map(run => run.length));
+    const fence = '`'.repeat(Math.max(3, longestRun + 1));
+    return `${fence}${language ?? ''}\n${text}\n${fence}`;
+  }
+
+  private list(element: Element): string[] {
+    const ordered = tagName(element) === 'ol';
+    const start = Number.parseInt(element.attribs.start ?? '1', 10) || 1;
+    const items = element.children.filter((child): child is Element => child.type === 'tag' && tagName(child) === 'li');
+
+    const lines = items.map((item, index) => {
+      const marker = ordered ? `${start + index}.` : '-';
+      const body = this.blocks(item.children).join('\n');
+      const indent = ' '.repeat(marker.length + 1);
+      return `${marker} ${body.split('\n').map((line, i) => (i === 0 || !line ? line : indent + line)).join('\n')}`;
+    });
+    return lines.length > 0 ? [lines.join('\n')] : [];
+  }
+
+  /** A GFM table; single-column or single-row layout tables are read as blocks */
+  private table(element: Element): string[] {
+    const $table = this.$(element);
+    const rows = $table.children('thead, tbody, tfoot').children('tr').add($table.children('tr')).toArray();
+    const cells = rows.map(row => this.$(row).children('th, td').toArray());
+    const columns = Math.max(0, ...cells.map(row => row.length));
+    if (columns < 2 || rows.length < 2 || $table.find('table').length > 0) {
+      return this.blocks(element.children);
+    }
+
+    const cellText = (cell: Element | undefined) => (cell
+      ? tidyInline(this.inlineChildren(cell.children)).replace(/\n+/g, ' ').replace(/\|/g, '\\|')
+      : '');
+    const row = (cellsOfRow: Element[]) => `| ${Array.from({ length: columns }, (_, i) => cellText(cellsOfRow[i])).join(' | ')} |`;
+
+    return [[
+      row(cells[0]),
+      `| ${Array.from({ length: columns }, () => '---').join(' | ')} |`,
+      ...cells.slice(1).map(row)
+    ].join('\n')];
+  }
+}
+
+function tagName(node: AnyNode): string {
+  return (node as Element).name?.toLowerCase() ?? '';
+}
+
+/** Trim a paragraph's inline Markdown and the spaces around its line breaks */
+function tidyInline(text: string): string {
+  return text.split('\n').map(line => line.replace(/\s+/g, ' ').trim()).join('\n').replace(/\n{2,}/g, '\n').trim();
+}
+
+/** Wrap text in an emphasis marker, keeping surrounding spaces outside it */
+function wrap(text: string, marker: string): string {
+  const core = text.trim();
+  if (!core) {
+    return text;
+  }
+  const lead = text.match(/^\s*/)![0] ? ' ' : '';
+  const trail = text.match(/\s*$/)![0] ? ' ' : '';
+  return `${lead}${marker}${core}${marker}${trail}`;
+}
+
+function inlineCode(text: string): string {
+  const code = text.replace(/\s+/g, ' ');
+  if (!code.trim()) {
+    return code;
+  }
+  const longestRun = Math.max(0, ...(code.match(/`+/g) ?? []).map(run => run.length));
+  const fence = '`'.repeat(longestRun + 1);
+  const pad = code.startsWith('`') || code.endsWith('`') ? ' ' : '';
+  return `${fence}${pad}${code}${pad}${fence}`;
+}
+
+function escapeUrl(url: string): string {
+  return url.replace(/[\s()]/g, character => `%${character.charCodeAt(0).toString(16).toUpperCase().padStart(2, '0')}`);
+}
+
+/** Language hint of a code block from data-lang or the classes highlighters add */
+function codeLanguage(elements: Cheerio<AnyNode>[]): string | undefined {
+  for (const element of elements) {
+    const declared = element.attr('data-lang') ?? element.attr('data-language');
+    const language = declared ?? LANGUAGE_PATTERNS.map(pattern => element.attr('class')?.match(pattern)?.[1]).find(Boolean);
+    if (language && !PLAIN_LANGUAGES.has(language.toLowerCase())) {
+      return language.toLowerCase();
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Convert elements (and their descendants) to Markdown, one block per
+ * paragraph, separated by blank lines
+ */
+export function elementsToMarkdown($: CheerioAPI, elements: AnyNode[], options: MarkdownOptions = {}): string {
+  return new MarkdownConverter($, options).blocks(elements).join('\n\n');
+}
@@ -0,0 +1,397 @@
+/**
+ * Obsidian vault writer
+ * Saves rendered gems into a vault, one subfolder per content type, with
+ * deterministic filename collision handling and downloaded image attachments
+ */
+
+import { promises as fs } from "fs";
+import { basename, dirname, extname, isAbsolute, join, relative, resolve } from "path";
+import matter from 'gray-matter';
+import YAML from 'yaml';
+import { createLogger } from '../logging/index.js';
+import { StorageError } from '../errors/index.js';
+import { ContentStructureUtils, MarkdownFormatter } from '../formatters/index.js';
+import { entityNoteName, linkEntities } from '../formatters/entity-links.js';
+import { isURLSafe } from '../validators/ssrf-protection.js';
+import { safeFetch, type Fetcher } from '../network/index.js';
+import { ContentType, ErrorCategory, type ExtractedEntity, type GeminiGem, type OutputConfig } from '../types/index.js';
+import { fileOps, type AtomicFileOperations } from './file-operations.js';
+
+const logger = createLogger('vault-writer');
+
+export interface VaultConfig {
+  /** Vault root directory */
+  root: string;
+  /** Subfolder per content type, relative to the root (merged over DEFAULT_VAULT_FOLDERS) */
+  folders?: Partial<Record<ContentType, string>>;
+  /** Attachments folder, relative to the root */
+  attachmentsFolder?: string;
+  /** Filename pattern without extension (see ContentStructureUtils.createFilename) */
+  filenamePattern?: string;
+  /** Replace an existing note with the same name instead of adding a numeric suffix */
+  overwrite?: boolean;
+  /** Create missing folders */
+  createDirectories?: boolean;
+  /** Keep a backup when a note is replaced */
+  backup?: boolean;
+  /** Download images referenced in gem metadata into the attachments folder */
+  downloadAttachments?: boolean;
+  /** Per-attachment download timeout in ms */
+  attachmentTimeout?: number;
+  /** Maximum attachment size in bytes */
+  maxAttachmentBytes?: number;
+  /** Create (or append a backlink to) a stub note for every linked entity */
+  entityNotes?: boolean;
+  /** Folder for entity stub notes, relative to the root */
+  entitiesFolder?: string;
+}
+
+export interface VaultWriteResult {
+  /** Absolute path of the note */
+  path: string;
+  /** Note path relative to the vault root */
+  relativePath: string;
+  /** Whether a new note was created or an existing one replaced */
+  status: 'created' | 'updated';
+  /** Attachment paths relative to the vault root */
+  attachments: string[];
+  /** Entity stub notes created or updated, relative to the vault root */
+  entityNotes: string[];
+  /** Rendered note */
+  content: string;
+}
+
+export const DEFAULT_VAULT_FOLDERS: Record<ContentType, string> = {
+  [ContentType.YOUTUBE]: 'Videos',
+  [ContentType.ARTICLE]: 'Articles',
+  [ContentType.PAPER]: 'Papers',
+  [ContentType.PODCAST]: 'Podcasts',
+  [ContentType.TWITTER]: 'Threads',
+  [ContentType.UNKNOWN]: 'Inbox'
+};
+
+const DEFAULTS = {
+  attachmentsFolder: 'attachments',
+  filenamePattern: '{date}-{title}',
+  overwrite: false,
+  createDirectories: true,
+  backup: true,
+  downloadAttachments: true,
+  attachmentTimeout: 15000,
+  maxAttachmentBytes: 10 * 1024 * 1024,
+  entityNotes: false,
+  entitiesFolder: 'Entities'
+};
+
+/** Metadata keys that may hold an image URL worth attaching */
+const ATTACHMENT_METADATA_KEYS = ['thumbnail', 'image'];
+
+/** Image types saved as attachments, by MIME type */
+const IMAGE_EXTENSIONS: Record<string, string> = {
+  'image/jpeg': '.jpg',
+  'image/png': '.png',
+  'image/webp': '.webp',
+  'image/gif': '.gif',
+  'image/avif': '.avif'
+};
+
+/** Give up on suffixes after this many same-named notes */
+const MAX_COLLISION_SUFFIX = 1000;
+
+export class VaultWriter {
+  private readonly root: string;
+  private readonly config: Required<Omit<VaultConfig, 'folders'>> & { folders: Record<ContentType, string> };
+  private readonly fetcher: Fetcher;
+  private readonly files: AtomicFileOperations;
+
+  constructor(
+    config: VaultConfig,
+    dependencies: { fetch?: Fetcher; fileOps?: AtomicFileOperations } = {}
+  ) {
+    this.root = resolve(config.root);
+    // Unset options fall back to the defaults rather than clobbering them
+    const defined = Object.fromEntries(Object.entries(config).filter(([, value]) => value !== undefined));
+    this.config = {
+      ...DEFAULTS,
+      ...defined,
+      root: this.root,
+      folders: { ...DEFAULT_VAULT_FOLDERS, ...config.folders }
+    };
+    this.fetcher = dependencies.fetch ?? safeFetch;
+    this.files = dependencies.fileOps ?? fileOps;
+  }
+
+  /**
+   * Build a writer from a request's OutputConfig, treating the output directory as the vault root
+   */
+  static fromOutputConfig(output: OutputConfig, overrides: Partial<VaultConfig> = {}): VaultWriter {
+    return new VaultWriter({
+      root: output.directory,
+      filenamePattern: output.filenamePattern?.replace(/\.md$/i, ''),
+      createDirectories: output.createDirectories,
+      overwrite: output.overwrite,
+      ...overrides
+    });
+  }
+
+  /** Absolute folder a gem of this type is written to */
+  getFolder(type: ContentType): string {
+    return this.resolveInVault(this.config.folders[type] ?? this.config.folders[ContentType.UNKNOWN]);
+  }
+
+  /**
+   * Write a gem into the vault as a Markdown note
+   *
+   * A note whose frontmatter `source` matches the gem is replaced in place
+   * (backed up first); a different note with the same name gets a numeric
+   * suffix, so the same vault state always yields the same path.
+   */
+  async write(gem: GeminiGem): Promise<VaultWriteResult> {
+    const folder = this.getFolder(gem.frontmatter.type);
+    await this.ensureDirectory(folder);
+
+    const { path, exists } = await this.resolveNotePath(folder, gem);
+
+    const attachments = this.config.downloadAttachments
+      ? await this.saveAttachments(gem, path)
+      : [];
+
+    // Link entities once so the note and the stub notes agree on what was linked
+    const { gem: linkedGem, linked } = linkEntities(gem);
+    let content = await new MarkdownFormatter({ linkEntities: false }).format(linkedGem);
+    if (attachments.length > 0) {
+      content = this.embedAttachments(content, attachments);
+    }
+
+    try {
+      await this.files.writeFile(path, content, {
+        backup: this.config.backup,
+        createDirs: this.config.createDirectories
+      });
+    } catch (error) {
+      throw new StorageError({
+        message: `Failed to write note ${path}: ${error instanceof Error ? error.message : String(error)}`,
+        code: 'VAULT_WRITE_FAILED',
+        category: ErrorCategory.SYSTEM,
+        filePath: path,
+        operation: 'write',
+        cause: error instanceof Error ? error : undefined
+      });
+    }
+
+    const entityNotes = this.config.entityNotes
+      ? await this.saveEntityNotes(linked, path, gem.frontmatter.title)
+      : [];
+
+    logger.info('Saved note to vault', { path, attachments: attachments.length, entityNotes: entityNotes.length, updated: exists });
+
+    return {
+      path,
+      relativePath: this.toVaultPath(path),
+      status: exists ? 'updated' : 'created',
+      attachments,
+      entityNotes,
+      content
+    };
+  }
+
+  /** Pick the note path: the first free name, or an existing note for the same source */
+  private async resolveNotePath(folder: string, gem: GeminiGem): Promise<{ path: string; exists: boolean }> {
+    const stem = ContentStructureUtils.createFilename(gem, this.config.filenamePattern)
+      .replace(/\.md$/i, '')
+      .replace(/^-+|-+$/g, '') || 'untitled';
+
+    for (let n = 1; n <= MAX_COLLISION_SUFFIX; n++) {
+      const path = join(folder, n === 1 ? `${stem}.md` : `${stem}-${n}.md`);
+      const existingSource = await this.readNoteSource(path);
+
+      if (existingSource === undefined) {
+        return { path, exists: false };
+      }
+      if (this.config.overwrite || existingSource === gem.frontmatter.source) {
+        return { path, exists: true };
+      }
+    }
+
+    throw new StorageError({
+      message: `Too many notes named "${stem}" in ${folder}`,
+      code: 'VAULT_NAME_EXHAUSTED',
+      category: ErrorCategory.SYSTEM,
+      filePath: join(folder, `${stem}.md`),
+      operation: 'write',
+      recoverable: false,
+      suggestion: 'Use a filename pattern that includes {date} or {type}'
+    });
+  }
+
+  /** Frontmatter `source` of an existing note; null if it has none, undefined if there is no note */
+  private async readNoteSource(path: string): Promise<string | null | undefined> {
+    let text: string;
+    try {
+      text = await fs.readFile(path, 'utf8');
+    } catch {
+      return undefined;
+    }
+
+    try {
+      const source = matter(text).data.source;
+      return typeof source === 'string' ? source : null;
+    } catch {
+      // Unparseable frontmatter is never "the same note"
+      return null;
+    }
+  }
+
+  /**
+   * Download images referenced in metadata; failures are logged and skipped.
+   * Attachments mirror the note's folder inside the attachments folder, so
+   * same-named notes of different types never share a file.
+   */
+  private async saveAttachments(gem: GeminiGem, notePath: string): Promise<string[]> {
+    const noteName = basename(notePath, '.md');
+    const urls = ATTACHMENT_METADATA_KEYS
+      .map(key => gem.frontmatter.metadata[key])
+      .filter((value, index, all): value is string =>
+        typeof value === 'string' && /^https?:\/\//i.test(value) && all.indexOf(value) === index
+      );
+
+    const saved: string[] = [];
+    for (const [index, url] of urls.entries()) {
+      try {
+        const image = await this.downloadImage(url);
+        if (!image) {
+          continue;
+        }
+
+        const folder = this.resolveInVault(join(this.config.attachmentsFolder, relative(this.root, dirname(notePath))));
+        await this.ensureDirectory(folder);
+
+        const path = join(folder, `${noteName}${index === 0 ? '' : `-${index + 1}`}${image.extension}`);
+        await this.files.writeFile(path, image.data, { backup: false, createDirs: this.config.createDirectories });
+        saved.push(this.toVaultPath(path));
+      } catch (error) {
+        logger.warn('Failed to save attachment', { url, error: error instanceof Error ? error.message : String(error) });
+      }
+    }
+
+    return saved;
+  }
+
+  private async downloadImage(url: string): Promise<{ data: Uint8Array; extension: string } | null> {
+    if (!isURLSafe(url)) {
+      logger.warn('Skipping unsafe attachment URL', { url });
+      return null;
+    }
+
+    const response = await this.fetcher(url, { signal: AbortSignal.timeout(this.config.attachmentTimeout) });
+    if (!response.ok) {
+      logger.warn('Attachment download failed', { url, status: response.status });
+      return null;
+    }
+
+    const mimeType = (response.headers.get('content-type') ?? '').split(';')[0].trim().toLowerCase();
+    const extension = IMAGE_EXTENSIONS[mimeType]
+      ?? Object.values(IMAGE_EXTENSIONS).find(ext => extname(new URL(url).pathname).toLowerCase() === ext);
+    if (!extension) {
+      logger.warn('Skipping attachment that is not a supported image', { url, mimeType });
+      return null;
+    }
+
+    const data = new Uint8Array(await response.arrayBuffer());
+    if (data.length === 0 || data.length > this.config.maxAttachmentBytes) {
+      logger.warn('Skipping attachment with unexpected size', { url, size: data.length });
+      return null;
+    }
+
+    return { data, extension };
+  }
+
+  /**
+   * Create a stub note per entity, or append a backlink to an existing one.
+   * Failures are logged and skipped so one bad entity never loses the gem.
+   */
+  private async saveEntityNotes(entities: ExtractedEntity[], notePath: string, title: string): Promise<string[]> {
+    const target = this.toVaultPath(notePath).replace(/\.md$/i, '');
+    const backlink = `- [[${target}|${title.replace(/[[\]|]/g, ' ').trim()}]]`;
+    const saved: string[] = [];
+
+    for (const entity of entities) {
+      const name = entityNoteName(entity.text);
+      const path = join(this.resolveInVault(this.config.entitiesFolder), `${name}.md`);
+
+      try {
+        const existing = await fs.readFile(path, 'utf8').catch(() => null);
+
+        if (existing === null) {
+          const frontmatter = YAML.stringify({ type: entity.type, tags: [`entity/${entity.type}`] }).trim();
+          const stub = `---\n${frontmatter}\n---\n\n# ${name}\n\n## Mentioned in\n\n${backlink}\n`;
+          await this.files.writeFile(path, stub, { backup: false, createDirs: true });
+        } else if (!existing.includes(`[[${target}|`) && !existing.includes(`[[${target}]]`)) {
+          await this.files.appendFile(path, `${existing.endsWith('\n') ? '' : '\n'}${backlink}\n`);
+        } else {
+          continue;
+        }
+
+        saved.push(this.toVaultPath(path));
+      } catch (error) {
+        logger.warn('Failed to save entity note', { entity: name, error: error instanceof Error ? error.message : String(error) });
+      }
+    }
+
+    return saved;
+  }
+
+  /** Insert image embeds right after the frontmatter block */
+  private embedAttachments(markdown: string, attachments: string[]): string {
+    const embeds = attachments.map(path => `![[${path}]]`).join('\n');
+    const match = markdown.match(/^---\n[\s\S]*?\n---\n/);
+
+    return match
+      ? `${match[0]}\n${embeds}\n${markdown.slice(match[0].length)}`
+      : `${embeds}\n\n${markdown}`;
+  }
+
+  /** Resolve a vault-relative folder, refusing anything that escapes the root */
+  private resolveInVault(folder: string): string {
+    const path = resolve(this.root, folder);
+    const rel = relative(this.root, path);
+
+    if (isAbsolute(folder) || rel.startsWith('..') || isAbsolute(rel)) {
+      throw new StorageError({
+        message: `Vault folder must stay inside the vault: ${folder}`,
+        code: 'INVALID_VAULT_PATH',
+        category: ErrorCategory.SYSTEM,
+        filePath: path,
+        operation: 'write',
+        recoverable: false
+      });
+    }
+
+    return path;
+  }
+
+  private async ensureDirectory(path: string): Promise<void> {
+    if (this.config.createDirectories) {
+      await fs.mkdir(path, { recursive: true });
+      return;
+    }
+
+    const stats = await fs.stat(path).catch(() => null);
+    if (!stats?.isDirectory()) {
+      throw new StorageError({
+        message: `Vault folder does not exist: ${path}`,
+        code: 'VAULT_FOLDER_MISSING',
+        category: ErrorCategory.SYSTEM,
+        filePath: path,
+        operation: 'write',
+        recoverable: false,
+        suggestion: 'Create the folder or enable createDirectories'
+      });
+    }
+  }
+
+  /** Vault-relative path with forward slashes, as Obsidian links expect */
+  private toVaultPath(path: string): string {
+    return relative(this.root, path).split(/[\\/]/).join('/');
+  }
+}
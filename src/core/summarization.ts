@@ -0,0 +1,60 @@
+/**
+ * Summarization Levels
+ * Shared mapping from user-facing summarization levels to processing settings,
+ * used by both the web routes and the CLI
+ *
+ * Version: 1.0.0
+ */
+
+import { AnalysisMode } from './types/index.js';
+
+/** Summarization level */
+export type SummarizationLevel = 'brief' | 'standard' | 'detailed' | 'comprehensive';
+
+/** Processing settings for a summarization level */
+export interface SummarizationSettings {
+  analysisMode: AnalysisMode;
+  maxKeyPoints: number;
+  summaryLength: 'short' | 'medium' | 'long';
+}
+
+/** All supported summarization levels, from shortest to longest */
+export const SUMMARIZATION_LEVELS: readonly SummarizationLevel[] = [
+  'brief',
+  'standard',
+  'detailed',
+  'comprehensive'
+];
+
+export const summarizationMapping: Record<SummarizationLevel, SummarizationSettings> = {
+  brief: {
+    analysisMode: AnalysisMode.STANDARD,
+    maxKeyPoints: 3,
+    summaryLength: 'short'
+  },
+  standard: {
+    analysisMode: AnalysisMode.STANDARD,
+    maxKeyPoints: 5,
+    summaryLength: 'medium'
+  },
+  detailed: {
+    analysisMode: AnalysisMode.ENHANCED,
+    maxKeyPoints: 10,
+    summaryLength: 'long'
+  },
+  comprehensive: {
+    analysisMode: AnalysisMode.ACADEMIC,
+    maxKeyPoints: 20,
+    summaryLength: 'long'
+  }
+};
+
+/** Check whether a value is a known summarization level */
+export function isSummarizationLevel(value: unknown): value is SummarizationLevel {
+  return typeof value === 'string' && (SUMMARIZATION_LEVELS as readonly string[]).includes(value);
+}
+
+/** Resolve settings for a level, falling back to standard */
+export function getSummarizationSettings(level?: SummarizationLevel): SummarizationSettings {
+  return level ? summarizationMapping[level] : summarizationMapping.standard;
+}
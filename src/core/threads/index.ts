@@ -0,0 +1,23 @@
+/**
+ * Threads
+ * Mastodon and X threads unrolled into their author's posts, with quoted
+ * posts and media descriptions
+ *
+ * Version: 1.0.0
+ */
+
+export {
+  threadContent,
+  threadMetadata,
+  threadTitle,
+  DEFAULT_MAX_THREAD_POSTS,
+  type Thread,
+  type ThreadPost,
+  type ThreadAuthor,
+  type ThreadMedia,
+  type ThreadPlatform,
+  type ThreadFetchOptions
+} from './thread.js';
+export { unrollMastodonThread, parseMastodonUrl, type MastodonStatus } from './mastodon.js';
+export { unrollXThread, parseXUrl, type XSyndicationPost } from './x.js';
+export { unrollThread, detectThreadPlatform } from './unroll.js';
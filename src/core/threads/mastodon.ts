@@ -0,0 +1,164 @@
+/**
+ * Mastodon Threads
+ * Unrolls a Mastodon post through the instance's public REST API: the post,
+ * then its context, keeping the chain of self-replies around it
+ */
+
+import * as cheerio from 'cheerio';
+import { createLogger } from '../logging/index.js';
+import { getErrorMessage } from '../errors/index.js';
+import {
+  DEFAULT_MAX_THREAD_POSTS,
+  fetchThreadJson,
+  threadNotFound,
+  type Thread,
+  type ThreadAuthor,
+  type ThreadFetchOptions,
+  type ThreadMedia,
+  type ThreadPost
+} from './thread.js';
+
+const logger = createLogger('threads');
+
+/** /@user/123, /@user@remote.host/123 or /users/user/statuses/123 */
+const MASTODON_PATH = /^\/(?:@[\w.-]+(?:@[\w.-]+)?|users\/[\w.-]+\/statuses)\/(\d+)\/?$/;
+
+/** The parts of a status the unroller reads (GET /api/v1/statuses/:id) */
+export interface MastodonStatus {
+  id: string;
+  url?: string | null;
+  uri: string;
+  created_at: string;
+  in_reply_to_id?: string | null;
+  spoiler_text?: string;
+  content: string;
+  account: { id: string; acct: string; username: string; display_name?: string; url?: string };
+  media_attachments?: Array<{ type: string; url?: string | null; remote_url?: string | null; description?: string | null }>;
+  /** Mastodon 4.4 quote posts; some forks put the quoted status here directly */
+  quote?: { state?: string; quoted_status?: MastodonStatus | null } | MastodonStatus | null;
+}
+
+interface MastodonContext {
+  ancestors: MastodonStatus[];
+  descendants: MastodonStatus[];
+}
+
+/** Instance origin and status ID of a Mastodon post URL, or null */
+export function parseMastodonUrl(url: string): { origin: string; id: string } | null {
+  try {
+    const parsed = new URL(url);
+    const id = parsed.pathname.match(MASTODON_PATH)?.[1];
+    return id ? { origin: parsed.origin, id } : null;
+  } catch {
+    return null;
+  }
+}
+
+/** Status HTML to text: paragraphs and line breaks kept, links expanded */
+function statusText(html: string): string {
+  const $ = cheerio.load(html);
+  $('.quote-inline').remove();
+  $('br').replaceWith('\n');
+  $('a').each((_, element) => {
+    const link = $(element);
+    // Mentions and hashtags read as written; other links show their full target
+    if (!link.is('.mention, .hashtag, .u-url') && link.attr('href')) {
+      link.replaceWith(link.attr('href')!);
+    }
+  });
+  const paragraphs = $('p').toArray().map(element => $(element).text().trim()).filter(Boolean);
+  return (paragraphs.length > 0 ? paragraphs.join('\n\n') : $.root().text()).trim();
+}
+
+function mediaType(type: string): ThreadMedia['type'] {
+  switch (type) {
+    case 'image':
+      return 'image';
+    case 'gifv':
+      return 'gif';
+    case 'video':
+    case 'audio':
+      return type;
+    default:
+      return 'other';
+  }
+}
+
+function toAuthor(account: MastodonStatus['account'], origin: string): ThreadAuthor {
+  // Local accounts have no domain in their acct
+  const handle = account.acct.includes('@') ? account.acct : `${account.acct}@${new URL(origin).hostname}`;
+  return { name: account.display_name?.trim() || undefined, handle: `@${handle}`, url: account.url };
+}
+
+function quotedStatus(status: MastodonStatus): MastodonStatus | undefined {
+  const quote = status.quote;
+  if (!quote) {
+    return undefined;
+  }
+  if ('content' in quote) {
+    return quote;
+  }
+  return quote.state === undefined || quote.state === 'accepted' ? quote.quoted_status ?? undefined : undefined;
+}
+
+function toPost(status: MastodonStatus, origin: string, withQuote = true): ThreadPost {
+  const quoted = withQuote ? quotedStatus(status) : undefined;
+  const createdAt = new Date(status.created_at);
+  return {
+    id: status.id,
+    url: status.url ?? status.uri,
+    author: toAuthor(status.account, origin),
+    createdAt: isNaN(createdAt.getTime()) ? undefined : createdAt,
+    text: statusText(status.content),
+    ...(status.spoiler_text ? { contentWarning: status.spoiler_text } : {}),
+    media: (status.media_attachments ?? []).flatMap((attachment): ThreadMedia[] => {
+      const url = attachment.url ?? attachment.remote_url;
+      return url ? [{ type: mediaType(attachment.type), url, ...(attachment.description ? { altText: attachment.description } : {}) }] : [];
+    }),
+    ...(quoted ? { quoted: toPost(quoted, origin, false) } : {})
+  };
+}
+
+/**
+ * Unroll the thread a Mastodon post belongs to: the author's self-replies
+ * leading up to it and following it. Replies by others are left out.
+ */
+export async function unrollMastodonThread(url: string, options: ThreadFetchOptions = {}): Promise<Thread> {
+  const target = parseMastodonUrl(url);
+  if (!target) {
+    throw threadNotFound(url, 'not a Mastodon post URL');
+  }
+  const api = `${target.origin}/api/v1/statuses/${target.id}`;
+  const status = await fetchThreadJson<MastodonStatus>(api, url, options);
+  if (!status?.account || typeof status.content !== 'string') {
+    throw threadNotFound(url, 'the response is not a status');
+  }
+
+  let context: MastodonContext = { ancestors: [], descendants: [] };
+  try {
+    context = await fetchThreadJson<MastodonContext>(`${api}/context`, url, options);
+  } catch (error) {
+    // Instances may hide context from anonymous readers; the post alone is still useful
+    options.signal?.throwIfAborted();
+    logger.warn('Failed to fetch Mastodon thread context', { url, error: getErrorMessage(error) });
+  }
+
+  const authorId = status.account.id;
+  const ancestors = new Map((context.ancestors ?? []).map(ancestor => [ancestor.id, ancestor]));
+  const chain = [status];
+  for (let parent = ancestors.get(status.in_reply_to_id ?? ''); parent?.account.id === authorId; parent = ancestors.get(parent.in_reply_to_id ?? '')) {
+    chain.unshift(parent);
+  }
+
+  // Descendants arrive depth first, so a self-reply follows the post it answers
+  const inThread = new Set(chain.map(post => post.id));
+  for (const reply of context.descendants ?? []) {
+    if (reply.account.id === authorId && inThread.has(reply.in_reply_to_id ?? '')) {
+      chain.push(reply);
+      inThread.add(reply.id);
+    }
+  }
+
+  const posts = chain.slice(0, options.maxPosts ?? DEFAULT_MAX_THREAD_POSTS).map(post => toPost(post, target.origin));
+  return { platform: 'mastodon', url, author: posts[0].author, posts };
+}
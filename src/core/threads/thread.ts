@@ -0,0 +1,188 @@
+/**
+ * Threads
+ * The platform-neutral shape of an unrolled Mastodon or X thread, and its
+ * text for analysis
+ */
+
+import { ContentError, NetworkError, getErrorMessage, isObsidianizeError } from '../errors/index.js';
+import { TIME } from '../constants/index.js';
+import { safeFetch, type Fetcher } from '../network/index.js';
+import { ErrorCategory } from '../types/index.js';
+
+export type ThreadPlatform = 'mastodon' | 'x';
+
+export interface ThreadAuthor {
+  /** Display name */
+  name?: string;
+  /** Handle with its leading @, e.g. @ada@example.social or @ada */
+  handle: string;
+  /** Profile page */
+  url?: string;
+}
+
+export interface ThreadMedia {
+  type: 'image' | 'video' | 'gif' | 'audio' | 'other';
+  url: string;
+  /** Description the author wrote for screen readers */
+  altText?: string;
+}
+
+export interface ThreadPost {
+  id: string;
+  url: string;
+  author: ThreadAuthor;
+  createdAt?: Date;
+  /** Plain text, links expanded */
+  text: string;
+  /** Mastodon content warning shown before the text */
+  contentWarning?: string;
+  media: ThreadMedia[];
+  /** The post this one quotes */
+  quoted?: ThreadPost;
+}
+
+export interface Thread {
+  platform: ThreadPlatform;
+  /** The URL the thread was requested by */
+  url: string;
+  author: ThreadAuthor;
+  /** The author's posts, oldest first */
+  posts: ThreadPost[];
+}
+
+/** Options shared by the platform fetchers */
+export interface ThreadFetchOptions {
+  timeoutMs?: number;
+  signal?: AbortSignal;
+  fetch?: Fetcher;
+  /** Check robots.txt before fetching; the application config decides when unset */
+  respectRobots?: boolean;
+  /** Most posts to unroll */
+  maxPosts?: number;
+}
+
+export const DEFAULT_MAX_THREAD_POSTS = 100;
+
+const TITLE_LENGTH = 80;
+
+/** Error for a thread that cannot be read: deleted, private or not a post */
+export function threadNotFound(url: string, reason: string): ContentError {
+  return new ContentError({
+    message: `Thread not available: ${reason}`,
+    code: 'THREAD_NOT_FOUND',
+    category: ErrorCategory.PROCESSING,
+    contentUrl: url,
+    recoverable: false
+  });
+}
+
+/**
+ * GET a JSON document; a 404 or 410 means the post was deleted or is not
+ * public
+ */
+export async function fetchThreadJson<T>(url: string, postUrl: string, options: ThreadFetchOptions): Promise<T> {
+  const timeout = AbortSignal.timeout(options.timeoutMs ?? 30 * TIME.SECOND);
+  let response: Response;
+  try {
+    response = await (options.fetch ?? safeFetch)(url, {
+      headers: { Accept: 'application/json' },
+      signal: options.signal ? AbortSignal.any([timeout, options.signal]) : timeout,
+      respectRobots: options.respectRobots
+    });
+  } catch (error) {
+    // Over the safe fetcher's default size cap, as when reading the body below
+    if (isObsidianizeError(error) && error.code === 'RESPONSE_TOO_LARGE') {
+      throw error;
+    }
+    throw new NetworkError({
+      message: `Failed to fetch ${url}: ${getErrorMessage(error)}`,
+      code: 'THREAD_FETCH_FAILED',
+      category: ErrorCategory.NETWORK,
+      url,
+      recoverable: !isObsidianizeError(error) || error.recoverable,
+      cause: error instanceof Error ? error : undefined
+    });
+  }
+  if (response.status === 404 || response.status === 410) {
+    throw threadNotFound(postUrl, 'the post was deleted or is not public');
+  }
+  if (!response.ok) {
+    throw new NetworkError({
+      message: `Failed to fetch ${url}: HTTP ${response.status}`,
+      code: 'THREAD_FETCH_FAILED',
+      category: ErrorCategory.NETWORK,
+      url,
+      statusCode: response.status,
+      recoverable: response.status >= 500 || response.status === 429
+    });
+  }
+
+  const body = await response.text();
+  try {
+    return JSON.parse(body) as T;
+  } catch {
+    // X answers unknown posts with an empty 200
+    throw threadNotFound(postUrl, 'the response is not a post');
+  }
+}
+
+/** "Name (@handle)", or just the handle */
+export function authorLabel(author: ThreadAuthor): string {
+  return author.name && author.name !== author.handle ? `${author.name} (${author.handle})` : author.handle;
+}
+
+/** Title of a thread: the opening line of its first post */
+export function threadTitle(thread: Thread): string {
+  const firstLine = thread.posts[0]?.text.split('\n').find(line => line.trim())?.trim() ?? '';
+  if (!firstLine) {
+    return `Thread by ${authorLabel(thread.author)}`;
+  }
+  return firstLine.length > TITLE_LENGTH ? `${firstLine.slice(0, TITLE_LENGTH - 1).trimEnd()}…` : firstLine;
+}
+
+function mediaLines(media: ThreadMedia[]): string[] {
+  const labels: Record<ThreadMedia['type'], string> = { image: 'Image', video: 'Video', gif: 'GIF', audio: 'Audio', other: 'Attachment' };
+  return media.map(item => `[${labels[item.type]}${item.altText ? `: ${item.altText.replace(/\s+/g, ' ').trim()}` : ''}]`);
+}
+
+function postBody(post: ThreadPost): string[] {
+  return [
+    ...(post.contentWarning ? [`CW: ${post.contentWarning}`] : []),
+    ...(post.text ? [post.text] : []),
+    ...mediaLines(post.media)
+  ];
+}
+
+/**
+ * Text for analysis: numbered posts with their media descriptions, quoted
+ * posts as blockquotes
+ */
+export function threadContent(thread: Thread): string {
+  const total = thread.posts.length;
+  const posts = thread.posts.map((post, index) => {
+    const date = post.createdAt ? ` · ${post.createdAt.toISOString().split('T')[0]}` : '';
+    const lines = [`**${index + 1}/${total}**${date}`, '', ...postBody(post)];
+    if (post.quoted) {
+      lines.push('', `> Quoting ${authorLabel(post.quoted.author)}:`, ...postBody(post.quoted).flatMap(text => text.split('\n')).map(line => `> ${line}`.trimEnd()));
+    }
+    return lines.join('\n');
+  });
+  return `# Thread by ${authorLabel(thread.author)}\n\n${posts.join('\n\n---\n\n')}`;
+}
+
+/** Frontmatter details of a thread */
+export function threadMetadata(thread: Thread): Record<string, unknown> {
+  const first = thread.posts[0];
+  return {
+    platform: thread.platform,
+    url: thread.url,
+    title: threadTitle(thread),
+    author: thread.author.name ?? thread.author.handle,
+    authorHandle: thread.author.handle,
+    ...(thread.author.url ? { authorUrl: thread.author.url } : {}),
+    postCount: thread.posts.length,
+    ...(first?.createdAt ? { publishDate: first.createdAt.toISOString() } : {}),
+    quotedPosts: thread.posts.filter(post => post.quoted).length,
+    mediaCount: thread.posts.reduce((count, post) => count + post.media.length, 0)
+  };
+}
@@ -0,0 +1,28 @@
+/**
+ * Thread Unrolling
+ * Picks the platform of a post URL and unrolls its thread
+ */
+
+import { parseMastodonUrl, unrollMastodonThread } from './mastodon.js';
+import { parseXUrl, unrollXThread } from './x.js';
+import { threadNotFound, type Thread, type ThreadFetchOptions, type ThreadPlatform } from './thread.js';
+
+/** Platform of a post URL, or null for other URLs */
+export function detectThreadPlatform(url: string): ThreadPlatform | null {
+  if (parseXUrl(url)) {
+    return 'x';
+  }
+  return parseMastodonUrl(url) ? 'mastodon' : null;
+}
+
+/** Unroll the thread of a Mastodon or X post URL */
+export async function unrollThread(url: string, options: ThreadFetchOptions = {}): Promise<Thread> {
+  switch (detectThreadPlatform(url)) {
+    case 'x':
+      return unrollXThread(url, options);
+    case 'mastodon':
+      return unrollMastodonThread(url, options);
+    default:
+      throw threadNotFound(url, 'not a Mastodon or X post URL');
+  }
+}
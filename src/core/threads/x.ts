@@ -0,0 +1,145 @@
+/**
+ * X Threads
+ * Unrolls an X (Twitter) post through the public syndication endpoint that
+ * powers embedded posts. The endpoint names a post's parent but not its
+ * replies, so a thread is followed upwards: link its last post to unroll
+ * all of it.
+ */
+
+import { ContentError } from '../errors/index.js';
+import {
+  DEFAULT_MAX_THREAD_POSTS,
+  fetchThreadJson,
+  threadNotFound,
+  type Thread,
+  type ThreadFetchOptions,
+  type ThreadMedia,
+  type ThreadPost
+} from './thread.js';
+
+const X_POST_URL = /^https?:\/\/(?:www\.|mobile\.)?(?:twitter\.com|x\.com)\/(?:[\w]+|i\/web)\/status(?:es)?\/(\d+)/;
+
+const SYNDICATION_URL = 'https://cdn.syndication.twimg.com/tweet-result';
+
+/** The parts of a syndication post the unroller reads */
+export interface XSyndicationPost {
+  __typename?: string;
+  id_str: string;
+  text: string;
+  created_at?: string;
+  /** Code point range of `text` without leading @replies and trailing media links */
+  display_text_range?: [number, number];
+  entities?: {
+    urls?: Array<{ url: string; expanded_url: string }>;
+    media?: Array<{ url: string }>;
+  };
+  user: { name?: string; screen_name: string };
+  in_reply_to_status_id_str?: string;
+  in_reply_to_screen_name?: string;
+  mediaDetails?: Array<{ type: string; media_url_https: string; ext_alt_text?: string }>;
+  quoted_tweet?: XSyndicationPost;
+}
+
+/** Status ID of an X or Twitter post URL, or null */
+export function parseXUrl(url: string): string | null {
+  return url.match(X_POST_URL)?.[1] ?? null;
+}
+
+/** The token the syndication endpoint expects, derived from the post ID */
+function syndicationToken(id: string): string {
+  return ((Number(id) / 1e15) * Math.PI).toString(36).replace(/(0+|\.)/g, '');
+}
+
+function decodeEntities(text: string): string {
+  return text.replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&amp;/g, '&');
+}
+
+/** Displayed text with t.co links expanded and media links dropped */
+function postText(post: XSyndicationPost): string {
+  const codePoints = Array.from(post.text);
+  const [start, end] = post.display_text_range ?? [0, codePoints.length];
+  let text = codePoints.slice(start, end).join('');
+  for (const link of post.entities?.urls ?? []) {
+    text = text.split(link.url).join(link.expanded_url);
+  }
+  for (const media of post.entities?.media ?? []) {
+    text = text.split(media.url).join('');
+  }
+  return decodeEntities(text).trim();
+}
+
+function mediaType(type: string): ThreadMedia['type'] {
+  switch (type) {
+    case 'photo':
+      return 'image';
+    case 'animated_gif':
+      return 'gif';
+    case 'video':
+      return 'video';
+    default:
+      return 'other';
+  }
+}
+
+function toPost(post: XSyndicationPost, withQuote = true): ThreadPost {
+  const createdAt = post.created_at ? new Date(post.created_at) : undefined;
+  const screenName = post.user.screen_name;
+  return {
+    id: post.id_str,
+    url: `https://x.com/${screenName}/status/${post.id_str}`,
+    author: { name: post.user.name?.trim() || undefined, handle: `@${screenName}`, url: `https://x.com/${screenName}` },
+    createdAt: createdAt && !isNaN(createdAt.getTime()) ? createdAt : undefined,
+    text: postText(post),
+    media: (post.mediaDetails ?? []).map(media => ({
+      type: mediaType(media.type),
+      url: media.media_url_https,
+      ...(media.ext_alt_text ? { altText: media.ext_alt_text } : {})
+    })),
+    ...(withQuote && post.quoted_tweet?.user ? { quoted: toPost(post.quoted_tweet, false) } : {})
+  };
+}
+
+async function fetchPost(id: string, url: string, options: ThreadFetchOptions): Promise<XSyndicationPost> {
+  const post = await fetchThreadJson<XSyndicationPost>(
+    `${SYNDICATION_URL}?id=${id}&lang=en&token=${syndicationToken(id)}`,
+    url,
+    options
+  );
+  if (post?.__typename === 'TweetTombstone' || !post?.user || typeof post.text !== 'string') {
+    throw threadNotFound(url, 'the post was deleted, is age-restricted or its account is protected');
+  }
+  return post;
+}
+
+/**
+ * Unroll an X thread from the linked post back to its start, following
+ * replies while the author answers themselves
+ */
+export async function unrollXThread(url: string, options: ThreadFetchOptions = {}): Promise<Thread> {
+  const id = parseXUrl(url);
+  if (!id) {
+    throw threadNotFound(url, 'not an X post URL');
+  }
+  const maxPosts = options.maxPosts ?? DEFAULT_MAX_THREAD_POSTS;
+
+  const chain = [await fetchPost(id, url, options)];
+  const author = chain[0].user.screen_name.toLowerCase();
+  while (chain.length < maxPosts) {
+    const parentId = chain[0].in_reply_to_status_id_str;
+    if (!parentId || chain[0].in_reply_to_screen_name?.toLowerCase() !== author) {
+      break;
+    }
+    try {
+      chain.unshift(await fetchPost(parentId, url, options));
+    } catch (error) {
+      // A deleted post ends the thread where it was
+      if (error instanceof ContentError) {
+        break;
+      }
+      throw error;
+    }
+  }
+
+  const posts = chain.map(post => toPost(post));
+  return { platform: 'x', url, author: posts[0].author, posts };
+}
@@ -0,0 +1,174 @@
+/**
+ * Timed Transcripts
+ * Normalizes YouTube transcript items into timed segments, groups them into
+ * paragraphs (one per speaker turn when speakers are labelled) or chapters
+ * and builds timestamp deep links
+ *
+ * Version: 1.0.0
+ */
+
+import type { Transcript, TranscriptChapter, TranscriptSegment } from './types/index.js';
+
+/** Raw item as returned by youtube-transcript */
+export interface RawTranscriptItem {
+  text: string;
+  offset: number;
+  duration: number;
+}
+
+/** A rendered block of transcript text */
+export interface TranscriptParagraph {
+  /** Start offset in seconds */
+  start: number;
+  text: string;
+  speaker?: string;
+}
+
+/** Paragraphs under an optional chapter heading */
+export interface TranscriptGroup {
+  chapter?: TranscriptChapter;
+  paragraphs: TranscriptParagraph[];
+}
+
+/** Start a new paragraph after this many seconds of speech */
+const DEFAULT_PARAGRAPH_SECONDS = 60;
+
+/** Matches [mm:ss] or [h:mm:ss] markers that are not already links */
+const TIMESTAMP_MARKER = /\[((?:\d{1,2}:)?\d{1,2}:\d{2})\](?!\()/g;
+
+/**
+ * Convert transcript items to segments in seconds.
+ * youtube-transcript reports milliseconds for srv3 captions and seconds for
+ * the classic format, so the unit is inferred from the typical duration.
+ */
+export function normalizeTranscriptItems(items: RawTranscriptItem[]): TranscriptSegment[] {
+  const durations = items.map(item => item.duration).filter(Number.isFinite).sort((a, b) => a - b);
+  const median = durations[Math.floor(durations.length / 2)] ?? 0;
+  const scale = median > 60 ? 1000 : 1;
+
+  return items
+    .map(item => ({
+      text: item.text.replace(/\s+/g, ' ').trim(),
+      start: Math.max(0, item.offset / scale),
+      duration: Math.max(0, item.duration / scale)
+    }))
+    .filter(segment => segment.text.length > 0)
+    .sort((a, b) => a.start - b.start);
+}
+
+/**
+ * Parse "0:00 Intro" style chapter lines from a video description.
+ * Like YouTube, requires at least three chapters starting at 0:00.
+ */
+export function parseChapters(description: string | undefined): TranscriptChapter[] {
+  if (!description) {
+    return [];
+  }
+
+  const chapters: TranscriptChapter[] = [];
+  for (const line of description.split('\n')) {
+    const match = line.trim().match(/^[[(]?((?:\d{1,2}:)?\d{1,2}:\d{2})[\])]?\s*[-–—:]?\s+(.+)$/);
+    const start = match ? parseTimestamp(match[1]) : undefined;
+    if (match && start !== undefined && (chapters.length === 0 || start > chapters[chapters.length - 1].start)) {
+      chapters.push({ title: match[2].trim(), start });
+    }
+  }
+
+  return chapters.length >= 3 && chapters[0].start === 0 ? chapters : [];
+}
+
+/** Format seconds as m:ss or h:mm:ss */
+export function formatTimestamp(seconds: number): string {
+  const total = Math.max(0, Math.floor(seconds));
+  const hours = Math.floor(total / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+  const secs = String(total % 60).padStart(2, '0');
+
+  return hours > 0 ? `${hours}:${String(minutes).padStart(2, '0')}:${secs}` : `${String(minutes).padStart(2, '0')}:${secs}`;
+}
+
+/** Parse m:ss or h:mm:ss into seconds */
+export function parseTimestamp(value: string): number | undefined {
+  const parts = value.split(':').map(Number);
+  if (parts.length < 2 || parts.length > 3 || parts.some(part => !Number.isInteger(part) || part < 0)) {
+    return undefined;
+  }
+  return parts.reduce((total, part) => total * 60 + part, 0);
+}
+
+/** Link to a moment in a YouTube video */
+export function youtubeDeepLink(videoId: string, seconds: number): string {
+  return `https://youtu.be/${videoId}?t=${Math.max(0, Math.floor(seconds))}`;
+}
+
+/**
+ * Group segments into paragraphs of roughly `paragraphSeconds`, splitting at
+ * chapter boundaries when the transcript has chapters
+ */
+export function groupTranscript(
+  transcript: Transcript,
+  paragraphSeconds: number = DEFAULT_PARAGRAPH_SECONDS
+): TranscriptGroup[] {
+  const chapters = transcript.chapters ?? [];
+  const groups: TranscriptGroup[] = chapters.length > 0 ? [] : [{ paragraphs: [] }];
+  let chapterIndex = -1;
+  let paragraph: { start: number; texts: string[]; speaker?: string } | null = null;
+
+  const flush = (): void => {
+    if (paragraph && groups.length > 0) {
+      const { start, texts, speaker } = paragraph;
+      groups[groups.length - 1].paragraphs.push({ start, text: texts.join(' '), ...(speaker ? { speaker } : {}) });
+    }
+    paragraph = null;
+  };
+
+  for (const segment of transcript.segments) {
+    // Advance to the chapter containing this segment
+    while (chapterIndex + 1 < chapters.length && segment.start >= chapters[chapterIndex + 1].start) {
+      flush();
+      chapterIndex++;
+      groups.push({ chapter: chapters[chapterIndex], paragraphs: [] });
+    }
+    if (groups.length === 0) {
+      groups.push({ paragraphs: [] });
+    }
+
+    // A new speaker always starts a paragraph; a labelled segment without one continues the turn
+    const speakerChanged = segment.speaker !== undefined && segment.speaker !== paragraph?.speaker;
+    if (paragraph && (speakerChanged || segment.start - paragraph.start >= paragraphSeconds)) {
+      flush();
+    }
+    paragraph ??= { start: segment.start, texts: [], speaker: segment.speaker };
+    paragraph.texts.push(segment.text);
+  }
+  flush();
+
+  return groups.filter(group => group.paragraphs.length > 0 || group.chapter);
+}
+
+/**
+ * Plain text for analysis; with `timestamps`, each paragraph is prefixed with
+ * its [mm:ss] marker so the model can cite moments. Speaker turns are
+ * labelled "Name: …".
+ */
+export function transcriptToText(transcript: Transcript, options: { timestamps?: boolean } = {}): string {
+  const timestamps = options.timestamps && !transcript.untimed;
+  return groupTranscript(transcript).map(group => {
+    const heading = group.chapter ? `### ${group.chapter.title}\n\n` : '';
+    const body = group.paragraphs
+      .map(paragraph => {
+        const text = paragraph.speaker ? `${paragraph.speaker}: ${paragraph.text}` : paragraph.text;
+        return timestamps ? `[${formatTimestamp(paragraph.start)}] ${text}` : text;
+      })
+      .join('\n\n');
+    return heading + body;
+  }).join('\n\n');
+}
+
+/** Turn [mm:ss] markers into deep links to the video */
+export function linkTimestamps(text: string, videoId: string): string {
+  return text.replace(TIMESTAMP_MARKER, (marker, value: string) => {
+    const seconds = parseTimestamp(value);
+    return seconds === undefined ? marker : `[${value}](${youtubeDeepLink(videoId, seconds)})`;
+  });
+}
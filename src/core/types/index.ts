@@ -26,7 +26,8 @@ export enum ProcessingStatus {
   PROCESSING = 'processing',
   COMPLETED = 'completed',
   FAILED = 'failed',
-  RETRYING = 'retrying'
+  RETRYING = 'retrying',
+  CANCELLED = 'cancelled'
 }
 
 /** Analysis modes for content processing */
@@ -70,7 +71,7 @@ export interface GeminiGemFrontmatter {
   /** Content title (required) */
   title: string;
 
-  /** Original source URL */
+  /** Original source: URL, absolute file path, or sha256 hash of pasted content */
   source: string;
 
   /** Content type classification */
@@ -112,13 +113,55 @@ export interface GeminiGemContent {
   /** Deep analysis and insights */
   analysis: string;
 
-  /** Transcript (for video/audio) */
-  transcript?: string;
+  /** Transcript (for video/audio); structured when timings are known */
+  transcript?: string | Transcript;
 
   /** Related resources */
   relatedResources?: RelatedResource[];
 }
 
+/** Transcript with per-segment timings */
+export interface Transcript {
+  /** YouTube video ID, used for deep links */
+  videoId?: string;
+
+  /** Transcript language code */
+  language?: string;
+
+  /** Timed segments in playback order */
+  segments: TranscriptSegment[];
+
+  /** Chapters (e.g. from the video description) in playback order */
+  chapters?: TranscriptChapter[];
+
+  /** Segments carry no timings (HTML and plain text transcripts); their starts are all 0 */
+  untimed?: boolean;
+}
+
+/** One timed piece of a transcript */
+export interface TranscriptSegment {
+  /** Spoken text */
+  text: string;
+
+  /** Start offset in seconds */
+  start: number;
+
+  /** Duration in seconds */
+  duration: number;
+
+  /** Who is speaking, when the transcript labels speakers */
+  speaker?: string;
+}
+
+/** Named chapter starting at an offset */
+export interface TranscriptChapter {
+  /** Chapter title */
+  title: string;
+
+  /** Start offset in seconds */
+  start: number;
+}
+
 /** Individual content section */
 export interface ContentSection {
   /** Section identifier */
@@ -239,6 +282,9 @@ export interface ContentInput {
   /** Buffer content */
   buffer?: Buffer;
 
+  /** MIME type of text or buffer content (e.g. application/pdf, text/html) */
+  mimeType?: string;
+
   /** Content type override */
   type?: ContentType;
 }
@@ -271,6 +317,9 @@ export interface ProcessingOptions {
 
   /** Language preference */
   language?: string;
+
+  /** Check robots.txt before fetching the source (default: the application config) */
+  respectRobots?: boolean;
 }
 
 /** Authentication configuration */
@@ -363,6 +412,9 @@ export interface ProcessingMetadata {
   /** AI tokens used */
   tokensUsed: number;
 
+  /** Per-call token usage when long content was analyzed in chunks */
+  chunks?: ChunkTokenUsage[];
+
   /** Processing stages completed */
   stages: ProcessingStage[];
 
@@ -373,6 +425,21 @@ export interface ProcessingMetadata {
   retryAttempts: number;
 }
 
+/** Token usage of one model call in a chunked (map-reduce) analysis */
+export interface ChunkTokenUsage {
+  /** 'map' analyzes one chunk, 'reduce' merges chunk results */
+  pass: 'map' | 'reduce';
+
+  /** Chunk index for map calls, merge round for reduce calls */
+  index: number;
+
+  /** Estimated input tokens sent */
+  estimatedTokens: number;
+
+  /** Tokens reported by the model */
+  tokensUsed: number;
+}
+
 /** Individual processing stage */
 export interface ProcessingStage {
   /** Stage name */
@@ -586,10 +653,13 @@ export interface UserConfig {
   output: OutputConfig;
 }
 
+/** AI backend: Google Gemini, an OpenAI-compatible server (llama.cpp, Ollama, ...) or the offline mock */
+export type AIProviderName = 'gemini' | 'openai-compatible' | 'mock';
+
 /** API configuration */
 export interface APIConfig {
   /** API provider */
-  provider: 'gemini';
+  provider: AIProviderName;
 
   /** Base URL */
   baseUrl: string;
@@ -740,6 +810,33 @@ export interface ProgressInfo {
   currentOperation?: string;
 }
 
+/** Progress event emitted on each processing stage transition */
+export interface ProgressEvent extends ProgressInfo {
+  /** Stage name (validation, content_fetch, ai_processing, ...) */
+  stage: string;
+
+  /** Status of the stage: processing when it starts, completed or failed when it ends */
+  stageStatus: ProcessingStatus;
+
+  /** Zero-based position of the stage in the pipeline */
+  stageIndex: number;
+
+  /** Number of stages in the pipeline */
+  totalStages: number;
+
+  /** Stage duration in milliseconds (once the stage has ended) */
+  stageDuration?: number;
+
+  /** Timings of the stages run so far */
+  stages: ProcessingStage[];
+}
+
+/** Receives progress events; may return a promise to apply backpressure */
+export type ProgressCallback = (event: ProgressEvent) => void | Promise<void>;
+
+/** Receives the note body rendered from a model response still being written */
+export type PartialOutputCallback = (markdown: string) => void | Promise<void>;
+
 /** File naming convention */
 export interface FilenameConfig {
   /** Pattern template */
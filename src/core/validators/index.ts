@@ -24,7 +24,9 @@ import {
   validateGeminiKey,
   type ApiKeyValidationResult
 } from './api-key-validator.js';
+import { AI_PROVIDERS } from '../ai/providers/provider.js';
 import type {
+  AIProviderName,
   GeminiGem,
   ProcessingRequest,
   ProcessingOptions,
@@ -51,8 +53,11 @@ const SafetyThresholdEnum = SafetyThreshold;
 // BASE SCHEMAS
 // ============================================================================
 
-/** ISO date string validation */
-const dateSchema = z.string().datetime().transform((str) => new Date(str));
+/** Date validation (Date objects or ISO date strings) */
+const dateSchema = z.union([
+  z.date(),
+  z.string().datetime().transform((str) => new Date(str))
+]);
 
 /** Non-empty string validation */
 const nonEmptyString = z.string().min(1, 'String cannot be empty');
@@ -63,6 +68,13 @@ const httpsUrlSchema = z.string().url('Must be a valid URL').refine(
   { message: 'URL must use HTTPS protocol' }
 );
 
+/** Gem source: HTTPS URL, absolute local file path, or content hash for pasted text */
+const gemSourceSchema = z.union([
+  httpsUrlSchema,
+  z.string().regex(/^(\/|[A-Za-z]:[\\/])/, 'Must be an absolute file path'),
+  z.string().regex(/^sha256:[a-f0-9]{64}$/, 'Must be a sha256 content hash')
+]);
+
 /** Generic identifier schema */
 const idSchema = z.string().min(1).max(100);
 
@@ -122,16 +134,35 @@ const relatedResourceSchema = z.object({
   description: z.string().max(500, 'Description too long').optional()
 });
 
+/** Section heading and content limits, shared with the AI output schema */
+const sectionHeadingSchema = nonEmptyString.max(200, 'Section heading too long');
+const sectionContentSchema = z.string().min(10, 'Section content too short').max(10000, 'Section content too long');
+
 /** Content section schema */
 const contentSectionSchema: z.ZodType<any> = z.object({
   id: idSchema,
-  heading: nonEmptyString.max(200, 'Section heading too long'),
-  content: z.string().min(10, 'Section content too short').max(10000, 'Section content too long'),
+  heading: sectionHeadingSchema,
+  content: sectionContentSchema,
   type: z.string().min(1, 'Section type required'),
   order: z.number().int().min(0, 'Section order must be non-negative integer'),
   subsections: z.array(z.lazy(() => contentSectionSchema)).optional()
 });
 
+/** Timed transcript schema */
+const transcriptSchema = z.object({
+  videoId: z.string().max(50).optional(),
+  language: z.string().max(20).optional(),
+  segments: z.array(z.object({
+    text: z.string().max(5000, 'Transcript segment too long'),
+    start: z.number().min(0, 'Segment start must be non-negative'),
+    duration: z.number().min(0, 'Segment duration must be non-negative')
+  })).max(20000, 'Too many transcript segments'),
+  chapters: z.array(z.object({
+    title: nonEmptyString.max(200, 'Chapter title too long'),
+    start: z.number().min(0, 'Chapter start must be non-negative')
+  })).max(200, 'Too many chapters').optional()
+});
+
 /** Gemini Gem content schema */
 const geminiGemContentSchema = z.object({
   summary: z.string().min(50, 'Summary too short').max(5000, 'Summary too long'),
@@ -140,14 +171,14 @@ const geminiGemContentSchema = z.object({
   ).min(1, 'At least one key point required').max(20, 'Too many key points'),
   sections: z.array(contentSectionSchema).max(50, 'Too many sections'),
   analysis: z.string().min(100, 'Analysis too short').max(10000, 'Analysis too long'),
-  transcript: z.string().max(50000, 'Transcript too long').optional(),
+  transcript: z.union([z.string().max(50000, 'Transcript too long'), transcriptSchema]).optional(),
   relatedResources: z.array(relatedResourceSchema).max(20, 'Too many related resources').optional()
 });
 
 /** Gemini Gem frontmatter schema */
 const geminiGemFrontmatterSchema = z.object({
   title: nonEmptyString.max(200, 'Title too long'),
-  source: httpsUrlSchema,
+  source: gemSourceSchema,
   type: contentTypeSchema,
   processed: dateSchema,
   tags: z.array(
@@ -168,6 +199,49 @@ export const geminiGemSchema = z.object({
   content: geminiGemContentSchema
 }).strict();
 
+// ============================================================================
+// AI OUTPUT SCHEMAS
+// ============================================================================
+
+/** Section as the model writes it; ids, types and order are assigned afterwards */
+export interface AISectionOutput {
+  heading: string;
+  content: string;
+  subsections?: AISectionOutput[];
+}
+
+const aiSectionSchema: z.ZodType<AISectionOutput> = z.object({
+  heading: sectionHeadingSchema,
+  content: sectionContentSchema,
+  subsections: z.array(z.lazy(() => aiSectionSchema)).max(20, 'Too many subsections').optional()
+});
+
+const aiEntitySchema = extractedEntitySchema.pick({ text: true, type: true, confidence: true });
+
+/** JSON-mode analysis of a whole piece of content, held to the gem's own limits */
+export const aiAnalysisSchema = z.object({
+  title: geminiGemFrontmatterSchema.shape.title.optional(),
+  summary: geminiGemContentSchema.shape.summary,
+  keyPoints: geminiGemContentSchema.shape.keyPoints,
+  analysis: geminiGemContentSchema.shape.analysis,
+  sections: z.array(aiSectionSchema).max(50, 'Too many sections'),
+  entities: z.array(aiEntitySchema).max(100, 'Too many entities'),
+  insights: geminiGemFrontmatterSchema.shape.insights,
+  tags: geminiGemFrontmatterSchema.shape.tags
+});
+
+/** JSON-mode analysis of one part of longer content; parts are merged before the gem is built */
+export const aiPartAnalysisSchema = z.object({
+  summary: nonEmptyString.max(5000, 'Summary too long'),
+  keyPoints: z.array(nonEmptyString.max(500, 'Key point too long')).max(20, 'Too many key points'),
+  analysis: z.string().max(10000, 'Analysis too long'),
+  entities: z.array(aiEntitySchema).max(100, 'Too many entities').default([]),
+  insights: z.array(z.string().max(500, 'Insight too long')).max(20, 'Too many insights')
+});
+
+export type AIAnalysisOutput = z.infer<typeof aiAnalysisSchema>;
+export type AIPartAnalysisOutput = z.infer<typeof aiPartAnalysisSchema>;
+
 // ============================================================================
 // PROCESSING SCHEMAS
 // ============================================================================
@@ -177,10 +251,11 @@ const contentInputSchema = z.object({
   text: z.string().max(1000000, 'Text content too large').optional(),
   filePath: z.string().max(500, 'File path too long').optional(),
   buffer: z.instanceof(Buffer).refine((buffer) => buffer.length <= 10 * 1024 * 1024, { message: 'Buffer too large (max 10MB)' }).optional(),
+  mimeType: z.string().max(100).optional(),
   type: contentTypeSchema.optional()
 }).refine(
-  (data) => Object.keys(data).filter(key => data[key as keyof typeof data] !== undefined).length === 1,
-  { message: 'Exactly one content input type must be provided' }
+  (data) => [data.text, data.filePath, data.buffer].filter(value => value !== undefined).length === 1,
+  { message: 'Exactly one of text, filePath or buffer must be provided' }
 );
 
 /** Rate limit config schema */
@@ -209,7 +284,8 @@ const processingOptionsSchema = z.object({
   tagOverrides: z.array(z.string().max(50)).max(50, 'Too many tag overrides').optional(),
   extractEntities: z.boolean(),
   timeoutMs: z.number().int().min(1000, 'Timeout must be at least 1 second').max(600000, 'Timeout too long').optional(),
-  language: z.string().length(2, 'Language must be 2-character code').optional()
+  language: z.string().length(2, 'Language must be 2-character code').optional(),
+  respectRobots: z.boolean().optional()
 });
 
 /** Output config schema */
@@ -249,6 +325,12 @@ const processingMetadataSchema = z.object({
   contentType: contentTypeSchema,
   analysisMode: analysisModeSchema,
   tokensUsed: z.number().int().min(0),
+  chunks: z.array(z.object({
+    pass: z.enum(['map', 'reduce']),
+    index: z.number().int().min(0),
+    estimatedTokens: z.number().int().min(0),
+    tokensUsed: z.number().int().min(0)
+  })).optional(),
   stages: z.array(processingStageSchema),
   cacheHit: z.boolean(),
   retryAttempts: z.number().int().min(0)
@@ -299,12 +381,16 @@ const retryConfigSchema = z.object({
 
 /** API config schema */
 const apiConfigSchema = z.object({
-  provider: z.literal('gemini'),
-  baseUrl: httpsUrlSchema,
+  provider: z.enum(AI_PROVIDERS as [AIProviderName, ...AIProviderName[]]),
+  baseUrl: z.string().url('Must be a valid URL'),
   defaultModel: z.string().min(1, 'Default model required'),
   timeout: z.number().int().min(5000, 'Timeout too short').max(120000, 'Timeout too long'),
   retry: retryConfigSchema
-});
+}).refine(
+  // Local model servers (llama.cpp, Ollama) usually listen on plain HTTP
+  (config) => config.provider === 'openai-compatible' || config.baseUrl.startsWith('https://'),
+  { message: 'URL must use HTTPS protocol', path: ['baseUrl'] }
+);
 
 /** Tag preferences schema */
 const tagPreferencesSchema = z.object({
@@ -389,6 +475,29 @@ export const geminiResponseSchema = z.object({
   })
 });
 
+/** Feed subscription options schema */
+const feedOptionsSchema = z.object({
+  analysisMode: analysisModeSchema.optional(),
+  tags: z.array(z.string().min(1).max(50)).max(50, 'Too many tags').optional(),
+  folder: z.string().min(1).max(200)
+    .refine(folder => !folder.split(/[\\/]/).includes('..'), 'Folder must stay inside the vault')
+    .optional(),
+  includeTranscript: z.boolean().optional()
+}).strict();
+
+/** Feed subscription schema (POST /api/feeds; updates accept any subset) */
+export const feedSubscriptionSchema = z.object({
+  url: z.string().min(1, 'Feed URL required').max(2048, 'Feed URL too long'),
+  title: z.string().max(200).optional(),
+  enabled: z.boolean().optional(),
+  options: feedOptionsSchema.optional(),
+  pollInterval: z.number().int()
+    .min(60 * 1000, 'Poll interval must be at least a minute')
+    .max(7 * 24 * 60 * 60 * 1000, 'Poll interval must be at most a week')
+    .optional(),
+  backfill: z.number().int().min(0).max(50, 'Backfill at most 50 entries').optional()
+}).strict();
+
 // ============================================================================
 // VALIDATOR CLASSES
 // ============================================================================
@@ -532,13 +641,27 @@ export class UserConfigValidator extends BaseValidator<UserConfig> {
   }
 }
 
+/** A YouTube playlist or channel, identified by the part of its URL that names it */
+export interface YouTubeCollectionRef {
+  kind: 'playlist' | 'channel';
+  /** Playlist ID, or the channel path: `channel/UC…`, `@handle`, `c/name` or `user/name` */
+  id: string;
+}
+
 /** URL validator with content type detection and SSRF protection */
 export class URLValidator {
   private static URL_PATTERNS = {
     youtube: /^https?:\/\/(?:www\.)?(?:youtube\.com\/watch\?v=|youtu\.be\/|youtube\.com\/embed\/)([a-zA-Z0-9_-]{11})/,
     article: /^https?:\/\/(?:www\.)?[a-zA-Z0-9-]+\.[a-zA-Z]{2,}\/(?:article|post|blog|news)\/.+/,
     paper: /^https?:\/\/(?:www\.)?(?:arxiv\.org|researchgate\.net|acm\.org|ieee\.org)\/.+/,
-    podcast: /^https?:\/\/(?:www\.)?(?:spotify\.com|apple\.com|soundcloud\.com)\/(?:podcast|episode)\/.+/
+    podcast: /^https?:\/\/(?:[a-z0-9-]+\.)?(?:spotify\.com|apple\.com|soundcloud\.com)\/(?:[a-z]{2}\/)?(?:podcast|episode)\/.+/,
+    twitter: /^https?:\/\/(?:(?:www\.|mobile\.)?(?:twitter\.com|x\.com)\/(?:\w+|i\/web)\/status(?:es)?\/\d+|[a-z0-9.-]+\/(?:@[\w.-]+(?:@[\w.-]+)?|users\/[\w.-]+\/statuses)\/\d+\/?(?:[?#]|$))/i
+  };
+
+  /** Pages that list videos; they are expanded into a batch rather than processed as one page */
+  private static YOUTUBE_COLLECTION_PATTERNS = {
+    playlist: /^https?:\/\/(?:www\.|m\.)?youtube\.com\/playlist\?(?:[^#]*&)?list=([a-zA-Z0-9_-]+)/,
+    channel: /^https?:\/\/(?:www\.|m\.)?youtube\.com\/(channel\/UC[a-zA-Z0-9_-]{22}|@[a-zA-Z0-9._-]+|c\/[^/?#]+|user\/[^/?#]+)(?:\/(?:videos|featured|streams)?)?\/?(?:[?#].*)?$/
   };
 
   /** Validate URL and detect content type with SSRF protection */
@@ -565,11 +688,18 @@ export class URLValidator {
       }
 
       // Content type detection
+      if (this.extractYouTubeCollection(url)) {
+        return {
+          valid: true,
+          type: ContentTypeEnum.YOUTUBE
+        };
+      }
+
       for (const [type, pattern] of Object.entries(this.URL_PATTERNS)) {
         if (pattern.test(url)) {
           return {
             valid: true,
-            type: ContentTypeEnum[type as keyof typeof ContentTypeEnum]
+            type: ContentTypeEnum[type.toUpperCase() as keyof typeof ContentTypeEnum]
           };
         }
       }
@@ -597,6 +727,16 @@ export class URLValidator {
     const match = url.match(this.URL_PATTERNS.youtube);
     return match ? match[1] : null;
   }
+
+  /** Extract the playlist or channel a YouTube URL lists videos of */
+  static extractYouTubeCollection(url: string): YouTubeCollectionRef | null {
+    const playlist = url.match(this.YOUTUBE_COLLECTION_PATTERNS.playlist);
+    if (playlist) {
+      return { kind: 'playlist', id: playlist[1] };
+    }
+    const channel = url.match(this.YOUTUBE_COLLECTION_PATTERNS.channel);
+    return channel ? { kind: 'channel', id: channel[1] } : null;
+  }
 }
 
 /** API key validator (DEPRECATED - Use ApiKeyValidator from api-key-validator.ts) */
@@ -6,6 +6,8 @@
  * Version: 1.0.0
  */
 
+import { isIP } from 'net';
+
 /**
  * IP Range configuration for SSRF protection
  */
@@ -49,9 +51,11 @@ const DEFAULT_BLOCKED_RANGES: IPRangeConfig[] = [
   // Link-local addresses (including AWS metadata service)
   { range: '169.254.0.0/16', description: 'Link-local/AWS metadata service', overridable: false },
   { range: 'fe80::/10', description: 'IPv6 link-local', overridable: false },
+  { range: 'fc00::/7', description: 'IPv6 unique local', overridable: true },
 
   // Other special ranges
   { range: '0.0.0.0/8', description: 'Current network', overridable: false },
+  { range: '::/128', description: 'IPv6 unspecified', overridable: false },
   { range: '100.64.0.0/10', description: 'Carrier-grade NAT', overridable: true },
   { range: '192.0.0.0/24', description: 'IETF protocol assignments', overridable: false },
   { range: '192.0.2.0/24', description: 'TEST-NET-1', overridable: false },
@@ -117,16 +121,64 @@ function parseCIDR(cidr: string): { ip: number; mask: number } | null {
   return { ip: ip >>> 0, mask };
 }
 
+/**
+ * Convert an IPv6 address (optionally with a dotted IPv4 tail) to a 128-bit number
+ */
+function ipv6ToBigInt(ip: string): bigint | null {
+  let address = ip.split('%')[0].toLowerCase();
+
+  // A dotted IPv4 tail (::ffff:127.0.0.1) becomes the last two groups
+  const tail = address.match(/(\d+\.\d+\.\d+\.\d+)$/);
+  if (tail) {
+    const v4 = ipv4ToNumber(tail[1]);
+    if (v4 === null) return null;
+    const value = v4 >>> 0;
+    address = address.slice(0, -tail[1].length) + `${(value >>> 16).toString(16)}:${(value & 0xffff).toString(16)}`;
+  }
+
+  const halves = address.split('::');
+  if (halves.length > 2) return null;
+  const head = halves[0] ? halves[0].split(':') : [];
+  const rest = halves.length === 2 && halves[1] ? halves[1].split(':') : [];
+  const missing = 8 - head.length - rest.length;
+  if (halves.length === 2 ? missing < 1 : missing !== 0) return null;
+
+  const groups = [...head, ...Array<string>(halves.length === 2 ? missing : 0).fill('0'), ...rest];
+  let value = 0n;
+  for (const group of groups) {
+    if (!/^[\da-f]{1,4}$/.test(group)) return null;
+    value = (value << 16n) | BigInt(parseInt(group, 16));
+  }
+  return value;
+}
+
+/**
+ * The IPv4 address inside an IPv4-mapped IPv6 address (::ffff:a.b.c.d), if any
+ */
+function mappedIPv4(ip: string): string | null {
+  if (!ip.includes(':')) return null;
+  const value = ipv6ToBigInt(ip);
+  if (value === null || value >> 32n !== 0xffffn) return null;
+
+  const v4 = Number(value & 0xffffffffn);
+  return [v4 >>> 24, (v4 >>> 16) & 0xff, (v4 >>> 8) & 0xff, v4 & 0xff].join('.');
+}
+
 /**
  * Check if an IP address falls within a CIDR range
  */
 function isIPInRange(ip: string, cidr: string): boolean {
-  // Handle IPv6 ranges (simplified - just check for exact match or known ranges)
   if (cidr.includes(':')) {
-    // For IPv6, we do a simplified check
-    const normalizedIP = ip.toLowerCase();
-    const normalizedRange = cidr.split('/')[0].toLowerCase();
-    return normalizedIP === normalizedRange || normalizedIP.startsWith(normalizedRange);
+    if (!ip.includes(':')) return false;
+
+    const [rangePart, maskPart] = cidr.split('/');
+    const ipValue = ipv6ToBigInt(ip);
+    const rangeValue = ipv6ToBigInt(rangePart);
+    const maskBits = maskPart === undefined ? 128 : parseInt(maskPart, 10);
+    if (ipValue === null || rangeValue === null || isNaN(maskBits) || maskBits < 0 || maskBits > 128) return false;
+
+    const shift = BigInt(128 - maskBits);
+    return (ipValue >> shift) === (rangeValue >> shift);
   }
 
   const ipNum = ipv4ToNumber(ip);
@@ -142,12 +194,7 @@ function isIPInRange(ip: string, cidr: string): boolean {
  * Check if hostname looks like an IP address
  */
 function isIPAddress(hostname: string): boolean {
-  // IPv4 pattern
-  const ipv4Pattern = /^(\d{1,3}\.){3}\d{1,3}$/;
-  // IPv6 pattern (simplified)
-  const ipv6Pattern = /^[\da-fA-F:]+$/;
-
-  return ipv4Pattern.test(hostname) || ipv6Pattern.test(hostname);
+  return isIP(hostname) !== 0;
 }
 
 /**
@@ -189,7 +236,8 @@ export class SSRFProtection {
   validateURL(url: string): SSRFValidationResult {
     try {
       const parsed = new URL(url);
-      const hostname = parsed.hostname.toLowerCase();
+      // IPv6 literals keep their brackets in URL hostnames
+      const hostname = parsed.hostname.toLowerCase().replace(/^\[(.*)\]$/, '$1');
 
       // Check protocol - only allow HTTP and HTTPS
       if (!['http:', 'https:'].includes(parsed.protocol)) {
@@ -260,6 +308,13 @@ export class SSRFProtection {
       return { safe: true, resolvedIP: ip };
     }
 
+    // IPv4-mapped IPv6 addresses reach the IPv4 host they embed
+    const mapped = mappedIPv4(ip);
+    if (mapped) {
+      const result = this.validateIP(mapped);
+      return result.safe ? { safe: true, resolvedIP: ip } : { ...result, resolvedIP: ip };
+    }
+
     // Check against each blocked range
     for (const range of this.blockedRanges) {
       if (isIPInRange(ip, range.range)) {
@@ -316,6 +371,35 @@ export class SSRFProtection {
   }
 }
 
+/**
+ * Policy for sources an operator has explicitly allowed on private networks
+ * (local feeds): any http(s) host and address is accepted. Use it only for
+ * those sources; everything else goes through `ssrfProtection`.
+ */
+export class LocalNetworkPolicy extends SSRFProtection {
+  validateURL(url: string): SSRFValidationResult {
+    try {
+      const parsed = new URL(url);
+      if (!['http:', 'https:'].includes(parsed.protocol)) {
+        return {
+          safe: false,
+          error: `Unsupported protocol: ${parsed.protocol}. Only HTTP and HTTPS are allowed.`
+        };
+      }
+      return { safe: true };
+    } catch (error) {
+      return {
+        safe: false,
+        error: `Invalid URL: ${error instanceof Error ? error.message : 'Unknown error'}`
+      };
+    }
+  }
+
+  validateIP(ip: string): SSRFValidationResult {
+    return { safe: true, resolvedIP: ip };
+  }
+}
+
 // Default SSRF protection instance
 export const ssrfProtection = new SSRFProtection();
 
@@ -0,0 +1,309 @@
+/**
+ * YouTube Collections
+ * Expands playlist and channel URLs into their videos, in playlist order.
+ * Reads the playlist page's initial data and its continuations, and falls
+ * back to the playlist's Atom feed (the latest 15 videos) when the page
+ * cannot be read.
+ */
+
+import * as cheerio from 'cheerio';
+import { createLogger } from '../logging/index.js';
+import { ContentError, NetworkError, getErrorMessage, isObsidianizeError } from '../errors/index.js';
+import { TIME } from '../constants/index.js';
+import { safeFetch, type Fetcher } from '../network/index.js';
+import { URLValidator, type YouTubeCollectionRef } from '../validators/index.js';
+import { parseFeed } from '../feeds/parser.js';
+import { ErrorCategory } from '../types/index.js';
+
+const logger = createLogger('youtube-collections');
+
+const YOUTUBE_ORIGIN = 'https://www.youtube.com';
+
+/** Continuation pages fetched at most; a page holds up to 100 videos */
+const MAX_PAGES = 50;
+
+const PAGE_HEADERS = {
+  'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
+  'Accept-Language': 'en-US,en;q=0.9',
+  // Skips the cookie consent interstitial served in some regions
+  'Cookie': 'CONSENT=YES+1'
+};
+
+export interface YouTubeCollectionVideo {
+  videoId: string;
+  /** Watch URL, as a single video is processed */
+  url: string;
+  title?: string;
+}
+
+export interface YouTubeCollection {
+  kind: YouTubeCollectionRef['kind'];
+  /** The playlist ID, or the channel path from the URL */
+  id: string;
+  /** Playlist the videos come from; a channel's uploads playlist for a channel */
+  playlistId: string;
+  title?: string;
+  url: string;
+  /** Videos in playlist order (newest first for a channel) */
+  videos: YouTubeCollectionVideo[];
+  /** Whether the collection has more videos than were returned */
+  truncated: boolean;
+}
+
+export interface ExpandCollectionOptions {
+  /** Stop after this many videos */
+  maxVideos?: number;
+  timeoutMs?: number;
+  signal?: AbortSignal;
+  fetch?: Fetcher;
+  /** Check robots.txt before fetching; the application config decides when unset */
+  respectRobots?: boolean;
+}
+
+/** Videos read from one page of a playlist */
+interface PlaylistPage {
+  videos: YouTubeCollectionVideo[];
+  continuation?: string;
+}
+
+function watchUrl(videoId: string): string {
+  return `${YOUTUBE_ORIGIN}/watch?v=${videoId}`;
+}
+
+function rendererText(value: unknown): string | undefined {
+  const text = value as { simpleText?: string; runs?: Array<{ text?: string }> } | undefined;
+  const joined = text?.simpleText ?? text?.runs?.map(run => run.text ?? '').join('');
+  return joined?.trim() || undefined;
+}
+
+/**
+ * Collect playlist video renderers, in document order, and the token for the
+ * next page. Unplayable (private or deleted) videos are left out.
+ */
+function readPlaylistData(data: unknown): PlaylistPage {
+  const page: PlaylistPage = { videos: [] };
+  const visit = (node: unknown): void => {
+    if (Array.isArray(node)) {
+      node.forEach(visit);
+      return;
+    }
+    if (!node || typeof node !== 'object') {
+      return;
+    }
+    for (const [key, value] of Object.entries(node)) {
+      if (key === 'playlistVideoRenderer') {
+        const renderer = value as { videoId?: string; title?: unknown; isPlayable?: boolean };
+        if (renderer.videoId && renderer.isPlayable !== false) {
+          page.videos.push({ videoId: renderer.videoId, url: watchUrl(renderer.videoId), title: rendererText(renderer.title) });
+        }
+      } else if (key === 'continuationCommand') {
+        page.continuation ??= (value as { token?: string }).token;
+      } else {
+        visit(value);
+      }
+    }
+  };
+  visit(data);
+  return page;
+}
+
+/** The JSON a YouTube page is rendered from */
+function initialData(html: string): Record<string, any> | undefined {
+  const match = html.match(/ytInitialData"?\]?\s*=\s*(\{.+?\})\s*;\s*<\/script>/s);
+  if (!match) {
+    return undefined;
+  }
+  try {
+    return JSON.parse(match[1]);
+  } catch {
+    return undefined;
+  }
+}
+
+function pageConfig(html: string, name: string): string | undefined {
+  return html.match(new RegExp(`"${name}"\\s*:\\s*"([^"]+)"`))?.[1];
+}
+
+class CollectionFetcher {
+  constructor(private readonly options: ExpandCollectionOptions & { timeoutMs: number }) {}
+
+  async get(url: string, init: { method?: string; headers?: Record<string, string>; body?: string } = {}): Promise<string> {
+    const timeout = AbortSignal.timeout(this.options.timeoutMs);
+    let response: Response;
+    try {
+      response = await (this.options.fetch ?? safeFetch)(url, {
+        ...init,
+        headers: { ...PAGE_HEADERS, ...init.headers },
+        signal: this.options.signal ? AbortSignal.any([timeout, this.options.signal]) : timeout,
+        respectRobots: this.options.respectRobots
+      });
+    } catch (error) {
+      // Over the safe fetcher's default size cap, as when reading the body below
+      if (isObsidianizeError(error) && error.code === 'RESPONSE_TOO_LARGE') {
+        throw error;
+      }
+      throw new NetworkError({
+        message: `Failed to fetch ${url}: ${getErrorMessage(error)}`,
+        code: 'YOUTUBE_FETCH_FAILED',
+        category: ErrorCategory.NETWORK,
+        url,
+        recoverable: !isObsidianizeError(error) || error.recoverable,
+        cause: error instanceof Error ? error : undefined
+      });
+    }
+    if (!response.ok) {
+      throw new NetworkError({
+        message: `Failed to fetch ${url}: HTTP ${response.status}`,
+        code: response.status === 404 ? 'YOUTUBE_COLLECTION_NOT_FOUND' : 'YOUTUBE_FETCH_FAILED',
+        category: ErrorCategory.NETWORK,
+        url,
+        statusCode: response.status,
+        recoverable: response.status >= 500 || response.status === 429
+      });
+    }
+    return response.text();
+  }
+}
+
+/**
+ * Read a playlist page by page until `maxVideos` are found. Returns null if
+ * the page carries no playlist data.
+ */
+async function readPlaylistPages(
+  fetcher: CollectionFetcher,
+  playlistId: string,
+  maxVideos: number
+): Promise<{ title?: string; videos: YouTubeCollectionVideo[]; more: boolean } | null> {
+  const html = await fetcher.get(`${YOUTUBE_ORIGIN}/playlist?list=${encodeURIComponent(playlistId)}`);
+  const data = initialData(html);
+  if (!data) {
+    return null;
+  }
+
+  const title: string | undefined = data.metadata?.playlistMetadataRenderer?.title
+    ?? cheerio.load(html)('meta[property="og:title"]').attr('content');
+  let page = readPlaylistData(data.contents);
+  const videos = new Map<string, YouTubeCollectionVideo>();
+  const apiKey = pageConfig(html, 'INNERTUBE_API_KEY');
+  const clientVersion = pageConfig(html, 'INNERTUBE_CLIENT_VERSION');
+
+  for (let pages = 1; ; pages++) {
+    for (const video of page.videos) {
+      if (!videos.has(video.videoId)) {
+        videos.set(video.videoId, video);
+      }
+    }
+    if (!page.continuation || videos.size >= maxVideos || pages >= MAX_PAGES || !apiKey || !clientVersion) {
+      break;
+    }
+    const body = await fetcher.get(`${YOUTUBE_ORIGIN}/youtubei/v1/browse?key=${apiKey}&prettyPrint=false`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ context: { client: { clientName: 'WEB', clientVersion } }, continuation: page.continuation })
+    });
+    try {
+      page = readPlaylistData(JSON.parse(body));
+    } catch {
+      logger.warn('Unreadable playlist continuation, keeping the videos found so far', { playlistId, videos: videos.size });
+      break;
+    }
+  }
+
+  const all = [...videos.values()];
+  return {
+    title: title?.trim() || undefined,
+    videos: all.slice(0, maxVideos),
+    more: all.length > maxVideos || Boolean(page.continuation)
+  };
+}
+
+/** The playlist's Atom feed, which lists its latest 15 videos */
+async function readPlaylistFeed(fetcher: CollectionFetcher, playlistId: string): Promise<{ title?: string; videos: YouTubeCollectionVideo[] }> {
+  const feed = parseFeed(await fetcher.get(`${YOUTUBE_ORIGIN}/feeds/videos.xml?playlist_id=${encodeURIComponent(playlistId)}`));
+  const videos = (feed?.entries ?? []).flatMap((entry): YouTubeCollectionVideo[] => {
+    const videoId = URLValidator.extractYouTubeId(entry.url);
+    return videoId ? [{ videoId, url: watchUrl(videoId), title: entry.title }] : [];
+  });
+  return { title: feed?.title, videos };
+}
+
+/**
+ * Find a channel's ID and name. `channel/UC…` paths carry the ID; handles
+ * and custom URLs are looked up on the channel page.
+ */
+async function resolveChannel(fetcher: CollectionFetcher, path: string): Promise<{ channelId: string; title?: string }> {
+  if (path.startsWith('channel/')) {
+    return { channelId: path.slice('channel/'.length) };
+  }
+
+  const url = `${YOUTUBE_ORIGIN}/${path}`;
+  const html = await fetcher.get(url);
+  const $ = cheerio.load(html);
+  const channelId = $('meta[itemprop="identifier"]').attr('content')
+    ?? $('link[rel="canonical"]').attr('href')?.match(/\/channel\/(UC[a-zA-Z0-9_-]{22})/)?.[1]
+    ?? html.match(/"externalId"\s*:\s*"(UC[a-zA-Z0-9_-]{22})"/)?.[1];
+  if (!channelId) {
+    throw new ContentError({
+      message: `Could not find the channel behind ${url}`,
+      code: 'YOUTUBE_CHANNEL_NOT_FOUND',
+      category: ErrorCategory.PROCESSING,
+      contentUrl: url,
+      recoverable: false
+    });
+  }
+  return { channelId, title: $('meta[property="og:title"]').attr('content')?.trim() || undefined };
+}
+
+/**
+ * Expand a playlist or channel URL into its videos. A channel is read
+ * through its uploads playlist, newest video first. Returns null for URLs
+ * that are not a playlist or channel.
+ *
+ * @throws NetworkError when YouTube cannot be reached
+ * @throws ContentError when the channel cannot be found or lists no videos
+ */
+export async function expandYouTubeCollection(url: string, options: ExpandCollectionOptions = {}): Promise<YouTubeCollection | null> {
+  const ref = URLValidator.extractYouTubeCollection(url);
+  if (!ref) {
+    return null;
+  }
+  const fetcher = new CollectionFetcher({ ...options, timeoutMs: options.timeoutMs ?? 30 * TIME.SECOND });
+  const maxVideos = options.maxVideos ?? Infinity;
+
+  let playlistId = ref.id;
+  let title: string | undefined;
+  if (ref.kind === 'channel') {
+    const channel = await resolveChannel(fetcher, ref.id);
+    // Every channel's uploads playlist is its ID with UC replaced by UU
+    playlistId = `UU${channel.channelId.slice(2)}`;
+    title = channel.title;
+  }
+
+  let listed = await readPlaylistPages(fetcher, playlistId, maxVideos);
+  if (!listed || listed.videos.length === 0) {
+    logger.warn('Playlist page had no videos, reading its feed', { playlistId });
+    const feed = await readPlaylistFeed(fetcher, playlistId);
+    listed = { title: listed?.title ?? feed.title, videos: feed.videos.slice(0, maxVideos), more: feed.videos.length > maxVideos };
+  }
+
+  if (listed.videos.length === 0) {
+    throw new ContentError({
+      message: `No videos found in ${url}`,
+      code: 'YOUTUBE_COLLECTION_EMPTY',
+      category: ErrorCategory.PROCESSING,
+      contentUrl: url,
+      recoverable: false
+    });
+  }
+
+  logger.info('Expanded YouTube collection', { kind: ref.kind, id: ref.id, videos: listed.videos.length, truncated: listed.more });
+  return {
+    kind: ref.kind,
+    id: ref.id,
+    playlistId,
+    title: title ?? listed.title,
+    url,
+    videos: listed.videos,
+    truncated: listed.more
+  };
+}
@@ -0,0 +1,91 @@
+/**
+ * Collection Index Notes
+ * An Obsidian note for an expanded playlist or channel that links the gem
+ * of every video, in playlist order
+ */
+
+import YAML from 'yaml';
+import { ContentStructureUtils } from '../formatters/index.js';
+import type { GeminiGem } from '../types/index.js';
+import type { YouTubeCollection, YouTubeCollectionVideo } from './collections.js';
+
+/** A collection video and what processing it produced */
+export interface CollectionIndexItem {
+  video: YouTubeCollectionVideo;
+  /** The video's gem, once it was processed */
+  gem?: GeminiGem;
+  /** Why the video has no gem, e.g. 'failed: …' or 'pending' */
+  note?: string;
+}
+
+export interface CollectionIndexNote {
+  title: string;
+  filename: string;
+  content: string;
+}
+
+export interface CollectionIndexOptions {
+  /** Pattern the gems are saved under, so the links resolve (see ContentStructureUtils.createFilename) */
+  filenamePattern?: string;
+  /** When the note is generated */
+  created?: Date;
+}
+
+/** Matches the vault writer's default filename pattern */
+const DEFAULT_FILENAME_PATTERN = '{date}-{title}';
+
+/** Characters that end a wikilink alias or target early */
+function escapeLinkText(text: string): string {
+  return text.replace(/[[\]|]/g, ' ').replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Build the index note of a collection. Processed videos are linked by the
+ * filename their gem is saved under; the others link to the video on
+ * YouTube, with the reason they have no note.
+ */
+export function buildCollectionIndexNote(
+  collection: Pick<YouTubeCollection, 'kind' | 'id' | 'title' | 'url' | 'truncated'>,
+  items: CollectionIndexItem[],
+  options: CollectionIndexOptions = {}
+): CollectionIndexNote {
+  const created = options.created ?? new Date();
+  const pattern = options.filenamePattern ?? DEFAULT_FILENAME_PATTERN;
+  const title = collection.title ?? (collection.kind === 'playlist' ? `Playlist ${collection.id}` : collection.id);
+
+  const frontmatter = {
+    title,
+    source: collection.url,
+    type: `youtube-${collection.kind}`,
+    created: created.toISOString(),
+    videos: items.length,
+    tags: [`youtube/${collection.kind}`]
+  };
+
+  const lines = items.map(({ video, gem, note }, index) => {
+    const label = escapeLinkText(gem?.frontmatter.title ?? video.title ?? video.videoId);
+    if (gem) {
+      const target = ContentStructureUtils.createFilename(gem, pattern).replace(/\.md$/i, '');
+      return `${index + 1}. [[${target}|${label}]]`;
+    }
+    return `${index + 1}. [${label}](${video.url})${note ? ` (${note})` : ''}`;
+  });
+
+  const description = collection.kind === 'playlist'
+    ? `Playlist of ${items.length} videos`
+    : `Latest ${items.length} uploads of the channel`;
+  const body = [
+    `# ${title}`,
+    '',
+    `${description} from [YouTube](${collection.url}).${collection.truncated ? ' Only part of the collection was processed.' : ''}`,
+    '',
+    ...lines,
+    ''
+  ].join('\n');
+
+  return {
+    title,
+    filename: `${ContentStructureUtils.slugify(title) || collection.kind}.md`,
+    content: `---\n${YAML.stringify(frontmatter)}---\n\n${body}`
+  };
+}
@@ -0,0 +1,20 @@
+/**
+ * YouTube Collections
+ * Playlist and channel expansion into batches of videos, and the index note
+ * that links the resulting gems
+ *
+ * Version: 1.0.0
+ */
+
+export {
+  expandYouTubeCollection,
+  type YouTubeCollection,
+  type YouTubeCollectionVideo,
+  type ExpandCollectionOptions
+} from './collections.js';
+export {
+  buildCollectionIndexNote,
+  type CollectionIndexItem,
+  type CollectionIndexNote,
+  type CollectionIndexOptions
+} from './index-note.js';
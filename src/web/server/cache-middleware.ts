@@ -1,14 +1,15 @@
 /**
  * Response Caching Middleware
- * Caches API responses for repeated URL requests
+ * Caches API responses for repeated URL requests, in the shared application cache
  *
  * Phase 3: Performance Optimization Feature
- * Version: 1.0.0
+ * Version: 1.1.0
  */
 
 import { createLogger } from '../../core/logging/index.js';
-import { TIME, SIZE, HTTP_STATUS } from '../../core/constants/index.js';
+import { TIME } from '../../core/constants/index.js';
 import { getConfig } from '../../core/config/index.js';
+import { cacheUtils, getSharedCache, type HighPerformanceCache } from '../../core/cache/cache.js';
 
 const logger = createLogger('cache-middleware');
 
@@ -22,7 +23,6 @@ interface CachedResponse {
   headers: Record<string, string>;
   timestamp: number;
   ttl: number;
-  hits: number;
   size: number;
 }
 
@@ -39,29 +39,20 @@ interface CacheStats {
 // ============================================================================
 
 /**
- * In-memory response cache for URL processing results
+ * Response cache for URL processing results, kept in its own namespace of
+ * the shared cache so it persists and is purged with the source it came from
  */
 class ResponseCache {
-  private cache = new Map<string, CachedResponse>();
+  private cache: HighPerformanceCache;
   private stats = { hits: 0, misses: 0 };
-  private maxSize: number;
-  private maxEntries: number;
   private defaultTTL: number;
-  private cleanupInterval: ReturnType<typeof setInterval> | null = null;
 
   constructor(options?: {
-    maxSize?: number;
-    maxEntries?: number;
+    cache?: HighPerformanceCache;
     defaultTTL?: number;
-    cleanupInterval?: number;
   }) {
-    this.maxSize = options?.maxSize || SIZE.DEFAULT_CACHE_MAX_SIZE;
-    this.maxEntries = options?.maxEntries || SIZE.MAX_CACHE_ENTRIES;
+    this.cache = options?.cache ?? getSharedCache();
     this.defaultTTL = options?.defaultTTL || TIME.DEFAULT_CACHE_TTL;
-
-    // Start cleanup interval
-    const interval = options?.cleanupInterval || TIME.CACHE_CLEANUP_INTERVAL;
-    this.cleanupInterval = setInterval(() => this.cleanup(), interval);
   }
 
   /**
@@ -76,83 +67,63 @@ class ResponseCache {
   /**
    * Get cached response
    */
-  get(key: string): CachedResponse | null {
-    const entry = this.cache.get(key);
+  async get(key: string): Promise<CachedResponse | null> {
+    const entry = await this.cache.get<CachedResponse>(cacheUtils.NAMESPACES.API_RESPONSE, key);
 
     if (!entry) {
       this.stats.misses++;
       return null;
     }
 
-    // Check if expired
-    if (Date.now() > entry.timestamp + entry.ttl) {
-      this.cache.delete(key);
-      this.stats.misses++;
-      return null;
-    }
-
-    // Update hit count
-    entry.hits++;
     this.stats.hits++;
 
-    logger.debug('Cache hit', { key, hits: entry.hits });
+    logger.debug('Cache hit', { key });
     return entry;
   }
 
   /**
-   * Set cached response
+   * Set cached response; `tags` (such as the source URL's tag) let it be purged with related entries
    */
-  set(
+  async set(
     key: string,
     body: string,
     status: number,
     headers: Record<string, string>,
-    ttl?: number
-  ): void {
-    const size = Buffer.byteLength(body, 'utf8');
-
-    // Evict if necessary
-    this.evictIfNeeded(size);
-
+    ttl?: number,
+    tags?: string[]
+  ): Promise<void> {
     const entry: CachedResponse = {
       body,
       status,
       headers,
       timestamp: Date.now(),
       ttl: ttl || this.defaultTTL,
-      hits: 0,
-      size
+      size: Buffer.byteLength(body, 'utf8')
     };
 
-    this.cache.set(key, entry);
-    logger.debug('Cache set', { key, size, ttl: entry.ttl });
+    await this.cache.set(cacheUtils.NAMESPACES.API_RESPONSE, key, entry, { ttl: entry.ttl, tags });
+    logger.debug('Cache set', { key, size: entry.size, ttl: entry.ttl });
   }
 
   /**
    * Check if key exists and is valid
    */
-  has(key: string): boolean {
-    const entry = this.cache.get(key);
-    if (!entry) return false;
-    if (Date.now() > entry.timestamp + entry.ttl) {
-      this.cache.delete(key);
-      return false;
-    }
-    return true;
+  has(key: string): Promise<boolean> {
+    return this.cache.has(cacheUtils.NAMESPACES.API_RESPONSE, key);
   }
 
   /**
    * Delete cached entry
    */
-  delete(key: string): boolean {
-    return this.cache.delete(key);
+  delete(key: string): Promise<boolean> {
+    return this.cache.delete(cacheUtils.NAMESPACES.API_RESPONSE, key);
   }
 
   /**
-   * Clear all cache entries
+   * Clear all cached responses
    */
-  clear(): void {
-    this.cache.clear();
+  async clear(): Promise<void> {
+    await this.cache.clear(cacheUtils.NAMESPACES.API_RESPONSE);
     this.stats = { hits: 0, misses: 0 };
     logger.info('Cache cleared');
   }
@@ -161,89 +132,22 @@ class ResponseCache {
    * Get cache statistics
    */
   getStats(): CacheStats {
-    let totalSize = 0;
-    for (const entry of this.cache.values()) {
-      totalSize += entry.size;
-    }
-
+    const { entries, size } = this.cache.namespaceStats(cacheUtils.NAMESPACES.API_RESPONSE);
     const total = this.stats.hits + this.stats.misses;
     return {
       hits: this.stats.hits,
       misses: this.stats.misses,
-      entries: this.cache.size,
-      size: totalSize,
+      entries,
+      size,
       hitRate: total > 0 ? this.stats.hits / total : 0
     };
   }
 
   /**
-   * Clean up expired entries
-   */
-  private cleanup(): void {
-    const now = Date.now();
-    let removed = 0;
-
-    for (const [key, entry] of this.cache.entries()) {
-      if (now > entry.timestamp + entry.ttl) {
-        this.cache.delete(key);
-        removed++;
-      }
-    }
-
-    if (removed > 0) {
-      logger.debug('Cache cleanup', { removed, remaining: this.cache.size });
-    }
-  }
-
-  /**
-   * Evict entries if cache is full
-   */
-  private evictIfNeeded(newSize: number): void {
-    let totalSize = 0;
-    for (const entry of this.cache.values()) {
-      totalSize += entry.size;
-    }
-
-    // Evict until we have room
-    while (
-      (this.cache.size >= this.maxEntries || totalSize + newSize > this.maxSize) &&
-      this.cache.size > 0
-    ) {
-      // Find LRU entry (oldest with fewest hits)
-      let lruKey: string | null = null;
-      let lruScore = Infinity;
-
-      for (const [key, entry] of this.cache.entries()) {
-        // Score = timestamp + (hits * 1000) - lower is more likely to evict
-        const score = entry.timestamp + entry.hits * 1000;
-        if (score < lruScore) {
-          lruScore = score;
-          lruKey = key;
-        }
-      }
-
-      if (lruKey) {
-        const entry = this.cache.get(lruKey);
-        if (entry) {
-          totalSize -= entry.size;
-        }
-        this.cache.delete(lruKey);
-        logger.debug('Cache eviction', { key: lruKey });
-      } else {
-        break;
-      }
-    }
-  }
-
-  /**
-   * Close the cache and cleanup
+   * Stop using the cache; the shared cache itself stays open for its other users
    */
   close(): void {
-    if (this.cleanupInterval) {
-      clearInterval(this.cleanupInterval);
-      this.cleanupInterval = null;
-    }
-    this.cache.clear();
+    this.stats = { hits: 0, misses: 0 };
   }
 }
 
@@ -260,10 +164,7 @@ export function getResponseCache(): ResponseCache {
   if (!responseCacheInstance) {
     const config = getConfig();
     responseCacheInstance = new ResponseCache({
-      maxSize: config.cache.maxSize,
-      maxEntries: config.cache.maxEntries,
-      defaultTTL: config.cache.ttl,
-      cleanupInterval: config.cache.cleanupInterval
+      defaultTTL: config.cache.ttl
     });
   }
   return responseCacheInstance;
@@ -329,7 +230,7 @@ export async function responseCacheMiddleware(
   const key = getCacheKey(req);
 
   // Check cache
-  const cached = cache.get(key);
+  const cached = await cache.get(key);
   if (cached) {
     logger.debug('Serving from cache', { path: new URL(req.url).pathname });
 
@@ -346,39 +247,40 @@ export async function responseCacheMiddleware(
   // Execute handler
   const response = await handler(req);
 
-  // Cache successful responses
-  if (response.ok) {
-    try {
-      const body = await response.text();
-      const headers: Record<string, string> = {};
-
-      response.headers.forEach((value, key) => {
-        headers[key] = value;
-      });
-
-      // Determine TTL based on response type
-      let ttl = TIME.DEFAULT_CACHE_TTL;
-      const contentType = response.headers.get('Content-Type') || '';
-      if (contentType.includes('application/json')) {
-        ttl = TIME.SHORT_CACHE_TTL; // 5 minutes for JSON
-      }
-
-      cache.set(key, body, response.status, headers, ttl);
-
-      // Return new response with cache headers
-      const newHeaders = new Headers(headers);
-      newHeaders.set('X-Cache', 'MISS');
-
-      return new Response(body, {
-        status: response.status,
-        headers: newHeaders
-      });
-    } catch (error) {
-      logger.warn('Failed to cache response', { error });
-    }
+  if (!response.ok) {
+    return response;
+  }
+
+  // Cache successful responses; the body is consumed here, so the client
+  // gets a response rebuilt from it whether or not the cache write succeeds
+  const body = await response.text();
+  const headers: Record<string, string> = {};
+
+  response.headers.forEach((value, key) => {
+    headers[key] = value;
+  });
+
+  // Determine TTL based on response type
+  let ttl = TIME.DEFAULT_CACHE_TTL;
+  const contentType = response.headers.get('Content-Type') || '';
+  if (contentType.includes('application/json')) {
+    ttl = TIME.SHORT_CACHE_TTL; // 5 minutes for JSON
+  }
+
+  try {
+    await cache.set(key, body, response.status, headers, ttl);
+  } catch (error) {
+    logger.warn('Failed to cache response', { error });
   }
 
-  return response;
+  // Return new response with cache headers
+  const newHeaders = new Headers(headers);
+  newHeaders.set('X-Cache', 'MISS');
+
+  return new Response(body, {
+    status: response.status,
+    headers: newHeaders
+  });
 }
 
 // ============================================================================
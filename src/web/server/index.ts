@@ -11,7 +11,8 @@ export {
   handleProcessRequest,
   handleStatusRequest,
   handleDownloadRequest,
-  handleHealthRequest
+  handleHealthRequest,
+  failInterruptedJobs
 } from './routes.js';
 
 // Enhanced route handlers (Phase 3)
@@ -20,16 +21,31 @@ export {
   handleBatchRequest,
   handleBatchStatusRequest,
   handleBatchResultsRequest,
+  handleBatchCancelRequest,
+  handleBatchRetryRequest,
+  handleBatchImportRequest,
+  resumeInterruptedBatches,
   handleDashboardRequest,
   handleExportRequest,
   handlePromptsGetRequest,
-  jobs,
-  batchJobs,
+  handleJobsListRequest,
+  handleJobCancelRequest,
   defaultPrompts,
   summarizationMapping,
   type SummarizationLevel
 } from './routes-enhanced.js';
 
+// Feed subscription handlers
+export {
+  handleFeedsApiRequest,
+  handleFeedsListRequest,
+  handleFeedCreateRequest,
+  handleFeedGetRequest,
+  handleFeedUpdateRequest,
+  handleFeedDeleteRequest,
+  handleFeedPollRequest
+} from './routes-feeds.js';
+
 // Middleware
 export {
   applyMiddleware,
@@ -65,6 +81,8 @@ export {
   websocketHandlers,
   handleWebSocketUpgrade,
   broadcastProgress,
+  broadcastStageProgress,
+  createPartialOutputRelay,
   broadcastGlobal,
   getConnectionStats,
   closeAllConnections,
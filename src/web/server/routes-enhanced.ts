@@ -8,7 +8,8 @@
 import { DataProcessor } from '../../core/processor.js';
 import { URLValidator, ApiKeyValidator } from '../../core/validators/index.js';
 import { createLogger } from '../../core/logging/index.js';
-import { getErrorMessage, getErrorCode } from '../../core/errors/index.js';
+import { getErrorMessage, getErrorCode, isObsidianizeError, isValidationError } from '../../core/errors/index.js';
+import { timingSafeEqual } from 'crypto';
 import { HTTP_STATUS, TIME, SIZE } from '../../core/constants/index.js';
 import { getConfig, isProduction } from '../../core/config/index.js';
 import {
@@ -18,16 +19,43 @@ import {
 } from '../../core/request-context/index.js';
 import type {
   ProcessingRequest,
-  ProcessingResult,
   ProcessingOptions,
   AuthConfig,
   GeminiGem,
   ProcessingStatus,
   OutputFormat
 } from '../../core/types/index.js';
-import { AnalysisMode as AnalysisModeEnum, OutputFormat as OutputFormatEnum } from '../../core/types/index.js';
-import { MarkdownFormatter } from '../../core/formatters/index.js';
-import YAML from 'yaml';
+import { OutputFormat as OutputFormatEnum } from '../../core/types/index.js';
+import {
+  convertToJson,
+  convertToYaml,
+  getFormatInfo,
+  renderGem,
+  type ExportFormat,
+  type ExportOptions
+} from '../../core/formatters/export.js';
+import { summarizationMapping, type SummarizationLevel } from '../../core/summarization.js';
+import {
+  getJobStore,
+  generateJobId,
+  type JobKind,
+  type JobRecord,
+  type JobRecordPatch
+} from '../../core/jobs/job-store.js';
+import { cancelJob, isJobRunning, trackJob, releaseJob } from '../../core/jobs/cancellation.js';
+import {
+  importReadingList,
+  IMPORT_FORMATS,
+  type ImportFormat,
+  type ImportResult
+} from '../../core/importers/index.js';
+import {
+  expandYouTubeCollection,
+  buildCollectionIndexNote,
+  type YouTubeCollection
+} from '../../core/youtube/index.js';
+import { handleFeedsApiRequest } from './routes-feeds.js';
+import { broadcastProgress, broadcastStageProgress } from './websocket.js';
 
 const logger = createLogger('routes-enhanced');
 
@@ -35,45 +63,6 @@ const logger = createLogger('routes-enhanced');
 // TYPES
 // ============================================================================
 
-/** Summarization level */
-export type SummarizationLevel = 'brief' | 'standard' | 'detailed' | 'comprehensive';
-
-/** Batch job status */
-interface BatchJobStatus {
-  id: string;
-  status: ProcessingStatus;
-  totalUrls: number;
-  completedUrls: number;
-  failedUrls: number;
-  progress: number;
-  message: string;
-  results: Map<string, JobStatus>;
-  createdAt: Date;
-  updatedAt: Date;
-  error?: string;
-}
-
-/** Job status tracking */
-interface JobStatus {
-  id: string;
-  status: ProcessingStatus;
-  progress: number;
-  message: string;
-  result?: ProcessingResult;
-  createdAt: Date;
-  updatedAt: Date;
-  error?: string;
-  url?: string;
-}
-
-/** Export request options */
-interface ExportOptions {
-  format: 'markdown' | 'json' | 'yaml';
-  summarizationLevel?: SummarizationLevel;
-  includeMetadata?: boolean;
-  prettify?: boolean;
-}
-
 /** Batch processing request */
 interface BatchRequest {
   urls: string[];
@@ -87,133 +76,22 @@ interface BatchRequest {
     extractEntities?: boolean;
     maxConcurrent?: number;
     customPrompts?: Record<string, string>;
+    /** Set to false to fetch sources their robots.txt disallows */
+    respectRobots?: boolean;
   };
 }
 
-// ============================================================================
-// JOB STORAGE
-// ============================================================================
-
-/** In-memory job storage */
-const jobs = new Map<string, JobStatus>();
-const batchJobs = new Map<string, BatchJobStatus>();
-
-/** Generate unique job ID */
-function generateJobId(): string {
-  return `job_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
-}
-
-/** Clean up old jobs (older than 1 hour) */
-function cleanupOldJobs(): void {
-  const oneHourAgo = Date.now() - TIME.HOUR;
-
-  for (const [id, job] of jobs.entries()) {
-    if (job.createdAt.getTime() < oneHourAgo) {
-      jobs.delete(id);
-      logger.debug(`Cleaned up old job: ${id}`);
-    }
-  }
-
-  for (const [id, batchJob] of batchJobs.entries()) {
-    if (batchJob.createdAt.getTime() < oneHourAgo) {
-      batchJobs.delete(id);
-      logger.debug(`Cleaned up old batch job: ${id}`);
-    }
-  }
-}
-
-// Clean up old jobs every 10 minutes
-setInterval(cleanupOldJobs, 10 * TIME.MINUTE);
-
-// ============================================================================
-// SUMMARIZATION MAPPING
-// ============================================================================
-
-const summarizationMapping: Record<SummarizationLevel, {
-  analysisMode: typeof AnalysisModeEnum[keyof typeof AnalysisModeEnum];
-  maxKeyPoints: number;
-  summaryLength: 'short' | 'medium' | 'long';
-}> = {
-  brief: {
-    analysisMode: AnalysisModeEnum.STANDARD,
-    maxKeyPoints: 3,
-    summaryLength: 'short'
-  },
-  standard: {
-    analysisMode: AnalysisModeEnum.STANDARD,
-    maxKeyPoints: 5,
-    summaryLength: 'medium'
-  },
-  detailed: {
-    analysisMode: AnalysisModeEnum.ENHANCED,
-    maxKeyPoints: 10,
-    summaryLength: 'long'
-  },
-  comprehensive: {
-    analysisMode: AnalysisModeEnum.ACADEMIC,
-    maxKeyPoints: 20,
-    summaryLength: 'long'
-  }
-};
-
-// ============================================================================
-// FORMAT CONVERTERS
-// ============================================================================
-
-/**
- * Convert GeminiGem to JSON format
- */
-function convertToJson(gem: GeminiGem, options: ExportOptions): string {
-  const data: Record<string, unknown> = {
-    frontmatter: {
-      ...gem.frontmatter,
-      processed: gem.frontmatter.processed.toISOString()
-    },
-    content: gem.content
-  };
-
-  if (options.includeMetadata !== false) {
-    data.exportedAt = new Date().toISOString();
-    data.format = 'json';
-    data.version = '1.0.0';
-  }
-
-  return options.prettify !== false ? JSON.stringify(data, null, 2) : JSON.stringify(data);
-}
-
-/**
- * Convert GeminiGem to YAML format
- */
-function convertToYaml(gem: GeminiGem, options: ExportOptions): string {
-  const data: Record<string, unknown> = {
-    frontmatter: {
-      ...gem.frontmatter,
-      processed: gem.frontmatter.processed.toISOString()
-    },
-    content: gem.content
-  };
-
-  if (options.includeMetadata !== false) {
-    data.exportedAt = new Date().toISOString();
-    data.format = 'yaml';
-    data.version = '1.0.0';
-  }
-
-  return YAML.stringify(data);
-}
-
-/**
- * Get content type and filename extension for format
- */
-function getFormatInfo(format: string): { contentType: string; extension: string } {
-  switch (format) {
-    case 'json':
-      return { contentType: 'application/json; charset=utf-8', extension: '.json' };
-    case 'yaml':
-      return { contentType: 'text/yaml; charset=utf-8', extension: '.yaml' };
-    default:
-      return { contentType: 'text/markdown; charset=utf-8', extension: '.md' };
-  }
+/** Reading list import request */
+interface BatchImportRequest {
+  /** The exported file's text */
+  content: string;
+  format?: ImportFormat;
+  /** Name of the exported file, used to detect its format */
+  filename?: string;
+  apiKey?: string;
+  options?: BatchRequest['options'];
+  /** Parse and validate only, without starting a batch */
+  dryRun?: boolean;
 }
 
 // ============================================================================
@@ -263,21 +141,6 @@ export async function handleBatchRequest(req: Request): Promise<Response> {
         );
       }
 
-      if (urls.length > config.batch.maxUrls) {
-        return new Response(
-          JSON.stringify({
-            error: `Maximum ${config.batch.maxUrls} URLs allowed per batch`,
-            code: 'BATCH_LIMIT_EXCEEDED',
-            maxUrls: config.batch.maxUrls,
-            provided: urls.length
-          }),
-          {
-            status: HTTP_STATUS.BAD_REQUEST,
-            headers: { 'Content-Type': 'application/json' }
-          }
-        );
-      }
-
       if (!apiKey || typeof apiKey !== 'string') {
         return new Response(
           JSON.stringify({
@@ -329,37 +192,48 @@ export async function handleBatchRequest(req: Request): Promise<Response> {
         );
       }
 
-      // Create batch job
-      const batchId = `batch_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
-      const batchJob: BatchJobStatus = {
-        id: batchId,
-        status: 'pending' as ProcessingStatus,
-        totalUrls: urls.length,
-        completedUrls: 0,
-        failedUrls: 0,
-        progress: 0,
-        message: 'Batch job created, starting processing...',
-        results: new Map(),
-        createdAt: new Date(),
-        updatedAt: new Date()
-      };
-      batchJobs.set(batchId, batchJob);
+      // Playlists and channels run as their videos, in playlist order
+      let expanded: { urls: string[]; collections: BatchCollection[] };
+      try {
+        expanded = await expandCollectionUrls(urls, config.batch.maxUrls, options.respectRobots);
+      } catch (error) {
+        if (!isObsidianizeError(error)) {
+          throw error;
+        }
+        return new Response(
+          JSON.stringify({
+            error: error.message,
+            code: error.code
+          }),
+          {
+            status: HTTP_STATUS.BAD_GATEWAY,
+            headers: { 'Content-Type': 'application/json' }
+          }
+        );
+      }
 
-      logger.info(`Created batch job: ${batchId}`, {
-        requestId: context.id,
-        totalUrls: urls.length,
-        maxConcurrent: options.maxConcurrent || config.batch.maxConcurrent
-      });
+      if (expanded.urls.length > config.batch.maxUrls) {
+        return new Response(
+          JSON.stringify({
+            error: `Maximum ${config.batch.maxUrls} URLs allowed per batch`,
+            code: 'BATCH_LIMIT_EXCEEDED',
+            maxUrls: config.batch.maxUrls,
+            provided: expanded.urls.length
+          }),
+          {
+            status: HTTP_STATUS.BAD_REQUEST,
+            headers: { 'Content-Type': 'application/json' }
+          }
+        );
+      }
 
-      // Start batch processing asynchronously
-      processBatch(batchId, urls, apiKey, options, config.batch.maxConcurrent).catch((error) => {
-        logger.error(`Batch processing failed for ${batchId}`, error);
-        const job = batchJobs.get(batchId);
-        if (job) {
-          job.status = 'failed' as ProcessingStatus;
-          job.error = getErrorMessage(error);
-          job.updatedAt = new Date();
-        }
+      const { collections } = expanded;
+      const batchId = await createBatch({
+        urls: expanded.urls,
+        apiKey,
+        options,
+        collections: collections.length > 0 ? collections : undefined,
+        requestId: context.id
       });
 
       // Return batch ID immediately
@@ -368,7 +242,10 @@ export async function handleBatchRequest(req: Request): Promise<Response> {
           batchId,
           status: 'pending',
           message: 'Batch processing started',
-          totalUrls: urls.length,
+          totalUrls: expanded.urls.length,
+          ...(collections.length > 0 ? {
+            collections: collections.map(({ kind, title, url, videos, truncated }) => ({ kind, title, url, videos: videos.length, truncated }))
+          } : {}),
           statusUrl: `/api/batch/${batchId}/status`,
           resultsUrl: `/api/batch/${batchId}/results`
         }),
@@ -394,66 +271,374 @@ export async function handleBatchRequest(req: Request): Promise<Response> {
 }
 
 /**
- * Background batch processing function
+ * POST /api/batch/import
+ * Start a batch from a reading list export: OPML, a browser or Pocket
+ * bookmark file, a Pocket/Instapaper CSV dump or a plain URL list. Folders
+ * and tags become each URL's `tagOverrides`. With `dryRun` the parsed
+ * entries are returned without starting a batch; otherwise the rejected
+ * entries and merged duplicates are reported as the batch starts.
+ */
+export async function handleBatchImportRequest(req: Request): Promise<Response> {
+  const context = createRequestContext(req);
+
+  return withRequestContext(context, async () => {
+    try {
+      const config = getConfig();
+
+      if (!config.batch.enabled) {
+        return new Response(
+          JSON.stringify({
+            error: 'Batch processing is disabled',
+            code: 'BATCH_DISABLED'
+          }),
+          {
+            status: HTTP_STATUS.FORBIDDEN,
+            headers: { 'Content-Type': 'application/json' }
+          }
+        );
+      }
+
+      const body = await req.json() as BatchImportRequest;
+      const { content, format, filename, apiKey, options = {}, dryRun = false } = body;
+
+      if (typeof content !== 'string' || content.trim().length === 0) {
+        return new Response(
+          JSON.stringify({
+            error: 'Reading list content is required',
+            code: 'INVALID_INPUT'
+          }),
+          {
+            status: HTTP_STATUS.BAD_REQUEST,
+            headers: { 'Content-Type': 'application/json' }
+          }
+        );
+      }
+
+      if (format !== undefined && !IMPORT_FORMATS.includes(format)) {
+        return new Response(
+          JSON.stringify({
+            error: `Unsupported import format: ${format}`,
+            code: 'INVALID_FORMAT',
+            supportedFormats: IMPORT_FORMATS
+          }),
+          {
+            status: HTTP_STATUS.BAD_REQUEST,
+            headers: { 'Content-Type': 'application/json' }
+          }
+        );
+      }
+
+      // A dry run only previews the import, so it needs no key
+      const apiKeyValidation = dryRun
+        ? { valid: true }
+        : typeof apiKey === 'string'
+          ? ApiKeyValidator.validateGeminiKey(apiKey)
+          : { valid: false, error: 'API key is required' };
+      if (!apiKeyValidation.valid) {
+        return new Response(
+          JSON.stringify({
+            error: apiKeyValidation.error || 'Invalid API key',
+            code: 'INVALID_API_KEY'
+          }),
+          {
+            status: HTTP_STATUS.BAD_REQUEST,
+            headers: { 'Content-Type': 'application/json' }
+          }
+        );
+      }
+
+      let imported: ImportResult;
+      try {
+        imported = importReadingList(content, { format, filename });
+      } catch (error) {
+        if (!isValidationError(error)) {
+          throw error;
+        }
+        return new Response(
+          JSON.stringify({
+            error: error.message,
+            code: error.code,
+            suggestion: error.suggestion
+          }),
+          {
+            status: HTTP_STATUS.BAD_REQUEST,
+            headers: { 'Content-Type': 'application/json' }
+          }
+        );
+      }
+      const { entries, rejected, duplicates } = imported;
+
+      if (dryRun) {
+        return new Response(
+          JSON.stringify({ ...imported, totalUrls: entries.length }),
+          {
+            status: HTTP_STATUS.OK,
+            headers: { 'Content-Type': 'application/json' }
+          }
+        );
+      }
+
+      if (entries.length === 0) {
+        return new Response(
+          JSON.stringify({
+            error: 'The reading list has no valid URLs',
+            code: 'NO_VALID_URLS',
+            format: imported.format,
+            rejected,
+            duplicates
+          }),
+          {
+            status: HTTP_STATUS.BAD_REQUEST,
+            headers: { 'Content-Type': 'application/json' }
+          }
+        );
+      }
+
+      if (entries.length > config.batch.maxUrls) {
+        return new Response(
+          JSON.stringify({
+            error: `Maximum ${config.batch.maxUrls} URLs allowed per batch`,
+            code: 'BATCH_LIMIT_EXCEEDED',
+            maxUrls: config.batch.maxUrls,
+            provided: entries.length
+          }),
+          {
+            status: HTTP_STATUS.BAD_REQUEST,
+            headers: { 'Content-Type': 'application/json' }
+          }
+        );
+      }
+
+      const urls = entries.map(entry => entry.url);
+      const tagOverrides = Object.fromEntries(
+        entries.filter(entry => entry.tagOverrides.length > 0).map(entry => [entry.url, entry.tagOverrides])
+      );
+      const batchId = await createBatch({ urls, apiKey: apiKey!, options, tagOverrides, requestId: context.id });
+
+      return new Response(
+        JSON.stringify({
+          batchId,
+          status: 'pending',
+          message: 'Batch processing started',
+          format: imported.format,
+          totalUrls: urls.length,
+          rejected,
+          duplicates,
+          statusUrl: `/api/batch/${batchId}/status`,
+          resultsUrl: `/api/batch/${batchId}/results`
+        }),
+        {
+          status: HTTP_STATUS.CREATED,
+          headers: { 'Content-Type': 'application/json' }
+        }
+      );
+    } catch (error) {
+      logger.error('Batch import request error', error);
+      return new Response(
+        JSON.stringify({
+          error: getErrorMessage(error),
+          code: getErrorCode(error)
+        }),
+        {
+          status: HTTP_STATUS.INTERNAL_SERVER_ERROR,
+          headers: { 'Content-Type': 'application/json' }
+        }
+      );
+    }
+  });
+}
+
+/** A playlist or channel expanded into a batch; its index note is built from the batch's items */
+type BatchCollection = Pick<YouTubeCollection, 'kind' | 'id' | 'title' | 'url' | 'videos' | 'truncated'>;
+
+/**
+ * Replace YouTube playlist and channel URLs with their videos, each
+ * collection capped at `maxVideos`. Videos listed twice are processed once.
  */
-async function processBatch(
-  batchId: string,
+async function expandCollectionUrls(
   urls: string[],
-  apiKey: string,
-  userOptions: BatchRequest['options'],
-  maxConcurrent: number
-): Promise<void> {
-  const batchJob = batchJobs.get(batchId);
+  maxVideos: number,
+  respectRobots?: boolean
+): Promise<{ urls: string[]; collections: BatchCollection[] }> {
+  const expanded: string[] = [];
+  const collections: BatchCollection[] = [];
+  for (const url of urls) {
+    const collection = await expandYouTubeCollection(url, { maxVideos, respectRobots });
+    if (!collection) {
+      expanded.push(url);
+      continue;
+    }
+    const { kind, id, title, videos, truncated } = collection;
+    collections.push({ kind, id, title, url, videos, truncated });
+    expanded.push(...videos.map(video => video.url));
+  }
+  return { urls: [...new Set(expanded)], collections };
+}
+
+/**
+ * Create a batch job for URLs that passed validation and start processing
+ * it in the background. `tagOverrides` maps a URL to tags its gem should
+ * carry (from an imported reading list); `collections` are the playlists
+ * and channels the URLs were expanded from.
+ */
+async function createBatch(batch: {
+  urls: string[];
+  apiKey: string;
+  options: NonNullable<BatchRequest['options']>;
+  tagOverrides?: Record<string, string[]>;
+  collections?: BatchCollection[];
+  requestId: string;
+}): Promise<string> {
+  const { urls, apiKey, options, tagOverrides, collections } = batch;
+  const batchId = generateJobId('batch');
+  await getJobStore().create({
+    id: batchId,
+    kind: 'batch',
+    status: 'pending' as ProcessingStatus,
+    totalUrls: urls.length,
+    completedUrls: 0,
+    failedUrls: 0,
+    progress: 0,
+    message: 'Batch job created, starting processing...',
+    // Keep the request for inspection and resume; the API key is never stored
+    metadata: { urls, options, ...(tagOverrides ? { tagOverrides } : {}), ...(collections ? { collections } : {}) }
+  });
+
+  logger.info(`Created batch job: ${batchId}`, {
+    requestId: batch.requestId,
+    totalUrls: urls.length,
+    maxConcurrent: options.maxConcurrent || getConfig().batch.maxConcurrent
+  });
+
+  startBatch(batchId, apiKey);
+  return batchId;
+}
+
+/**
+ * Run a batch in the background, recording a crash as the batch's failure
+ */
+function startBatch(batchId: string, apiKey: string): void {
+  processBatch(batchId, apiKey, getConfig().batch.maxConcurrent).catch(async (error) => {
+    logger.error(`Batch processing failed for ${batchId}`, error);
+    await getJobStore().update(batchId, {
+      status: 'failed' as ProcessingStatus,
+      error: getErrorMessage(error)
+    });
+  });
+}
+
+/** Item statuses a batch run still has to process ('processing' means a run was interrupted) */
+const UNFINISHED_ITEM_STATUSES = ['pending', 'processing'] as ProcessingStatus[];
+
+/**
+ * Create the item records a batch does not have yet, one per URL. The items
+ * are the batch's checkpoint: a run processes only the unfinished ones.
+ */
+async function ensureBatchItems(batch: JobRecord): Promise<JobRecord[]> {
+  const store = getJobStore();
+  const urls = (batch.metadata?.urls ?? []) as string[];
+  const existing = new Map((await store.list({ batchId: batch.id })).map(item => [item.id, item]));
+
+  const items: JobRecord[] = [];
+  for (const [index, url] of urls.entries()) {
+    const id = `${batch.id}_${index}`;
+    items.push(existing.get(id) ?? await store.create({
+      id,
+      kind: 'batch_item',
+      batchId: batch.id,
+      status: 'pending' as ProcessingStatus,
+      progress: 0,
+      message: 'Queued',
+      url
+    }));
+  }
+  return items;
+}
+
+/**
+ * Background batch processing function. Runs the batch's unfinished items
+ * in chunks of `maxConcurrent`, so a resumed or retried batch skips the
+ * items it already finished. Cancelling the batch aborts the items in
+ * flight and starts no more; finished items keep their results.
+ */
+async function processBatch(batchId: string, apiKey: string, maxConcurrent: number): Promise<void> {
+  const store = getJobStore();
+  const batchJob = await store.get(batchId);
   if (!batchJob) {
     logger.error(`Batch job not found: ${batchId}`);
     return;
   }
+  if (batchJob.status === 'cancelled') {
+    return;
+  }
+
+  const userOptions = (batchJob.metadata?.options ?? {}) as NonNullable<BatchRequest['options']>;
+  const tagOverrides = (batchJob.metadata?.tagOverrides ?? {}) as Record<string, string[]>;
+  const signal = trackJob(batchId);
+  let items: JobRecord[] = [];
+
+  // Counters cover the whole batch, including items finished by earlier runs
+  const countFinished = () => ({
+    completedUrls: items.filter(item => item.status === 'completed').length,
+    failedUrls: items.filter(item => item.status === 'failed').length
+  });
 
   try {
-    batchJob.status = 'processing' as ProcessingStatus;
-    batchJob.message = 'Processing URLs...';
-    batchJob.updatedAt = new Date();
+    items = await ensureBatchItems(batchJob);
+    const queue = items.filter(item => UNFINISHED_ITEM_STATUSES.includes(item.status));
+
+    await store.update(batchId, {
+      status: 'processing' as ProcessingStatus,
+      message: queue.length < items.length ? `Processing ${queue.length} remaining URLs...` : 'Processing URLs...'
+    });
 
     // Get summarization settings
-    const summarization = userOptions?.summarizationLevel
+    const summarization = userOptions.summarizationLevel
       ? summarizationMapping[userOptions.summarizationLevel]
       : summarizationMapping.standard;
 
     // Process URLs with concurrency limit
-    const concurrent = Math.min(maxConcurrent, userOptions?.maxConcurrent || maxConcurrent);
-    const chunks: string[][] = [];
+    const concurrent = Math.min(maxConcurrent, userOptions.maxConcurrent || maxConcurrent);
+    const chunks: JobRecord[][] = [];
 
-    for (let i = 0; i < urls.length; i += concurrent) {
-      chunks.push(urls.slice(i, i + concurrent));
+    for (let i = 0; i < queue.length; i += concurrent) {
+      chunks.push(queue.slice(i, i + concurrent));
     }
 
     for (const chunk of chunks) {
-      const promises = chunk.map(async (url, index) => {
-        const jobId = `${batchId}_${batchJob.results.size + index}`;
-        const job: JobStatus = {
-          id: jobId,
+      if (signal.aborted) {
+        break;
+      }
+
+      const promises = chunk.map(async (item) => {
+        const jobId = item.id;
+        const url = item.url!;
+        const index = items.indexOf(item);
+        const itemSignal = trackJob(jobId, signal);
+        // Keep `items` in step with the store so the counters see every outcome
+        const record = async (patch: JobRecordPatch) => {
+          items[index] = (await store.update(jobId, patch)) ?? items[index];
+        };
+        await record({
           status: 'processing' as ProcessingStatus,
           progress: 0,
-          message: 'Processing...',
-          url,
-          createdAt: new Date(),
-          updatedAt: new Date()
-        };
-        batchJob.results.set(url, job);
-        jobs.set(jobId, job);
+          message: 'Processing...'
+        });
 
         try {
           const processor = new DataProcessor();
 
           const processingOptions: ProcessingOptions = {
             analysisMode: summarization.analysisMode,
-            includeTimestamps: userOptions?.includeTimestamps !== false,
-            includeTranscript: userOptions?.includeTranscript !== false,
-            customPrompts: userOptions?.customPrompts || undefined,
-            outputFormat: (userOptions?.outputFormat as OutputFormat) || OutputFormatEnum.MARKDOWN,
-            extractEntities: userOptions?.extractEntities !== false,
+            includeTimestamps: userOptions.includeTimestamps !== false,
+            includeTranscript: userOptions.includeTranscript !== false,
+            customPrompts: userOptions.customPrompts || undefined,
+            outputFormat: (userOptions.outputFormat as OutputFormat) || OutputFormatEnum.MARKDOWN,
+            tagOverrides: tagOverrides[url],
+            extractEntities: userOptions.extractEntities !== false,
             timeoutMs: 120000,
-            language: 'en'
+            language: 'en',
+            respectRobots: userOptions.respectRobots
           };
 
           const authConfig: AuthConfig = {
@@ -468,58 +653,276 @@ async function processBatch(
             auth: authConfig
           };
 
-          const result = await processor.processRequest(request);
-
-          job.result = result;
-          job.status = result.success ? ('completed' as ProcessingStatus) : ('failed' as ProcessingStatus);
-          job.progress = 100;
-          job.message = result.success ? 'Completed' : 'Failed';
-          job.error = result.error?.message;
-          job.updatedAt = new Date();
-
-          if (result.success) {
-            batchJob.completedUrls++;
-          } else {
-            batchJob.failedUrls++;
+          const result = await processor.processRequest(request, {
+            onProgress: async (event) => {
+              await store.update(jobId, { progress: event.progress, message: event.message });
+              broadcastStageProgress(jobId, event);
+            },
+            signal: itemSignal
+          });
+
+          if (itemSignal.aborted) {
+            await record({ result, status: 'cancelled' as ProcessingStatus, message: 'Cancelled' });
+            return;
           }
+
+          await record({
+            result,
+            status: result.success ? ('completed' as ProcessingStatus) : ('failed' as ProcessingStatus),
+            progress: 100,
+            message: result.success ? 'Completed' : 'Failed',
+            error: result.error?.message
+          });
         } catch (error) {
-          job.status = 'failed' as ProcessingStatus;
-          job.error = getErrorMessage(error);
-          job.progress = 0;
-          job.message = 'Failed';
-          job.updatedAt = new Date();
-          batchJob.failedUrls++;
+          const cancelled = itemSignal.aborted;
+          await record({
+            status: (cancelled ? 'cancelled' : 'failed') as ProcessingStatus,
+            error: cancelled ? undefined : getErrorMessage(error),
+            progress: 0,
+            message: cancelled ? 'Cancelled' : 'Failed'
+          });
+        } finally {
+          releaseJob(jobId);
         }
       });
 
       await Promise.all(promises);
 
       // Update batch progress
-      const completed = batchJob.completedUrls + batchJob.failedUrls;
-      batchJob.progress = Math.round((completed / batchJob.totalUrls) * 100);
-      batchJob.message = `Processed ${completed}/${batchJob.totalUrls} URLs`;
-      batchJob.updatedAt = new Date();
+      const { completedUrls, failedUrls } = countFinished();
+      const completed = completedUrls + failedUrls;
+      const progress = Math.round((completed / items.length) * 100);
+      const message = `Processed ${completed}/${items.length} URLs`;
+      await store.update(batchId, { completedUrls, failedUrls, progress, message });
+      broadcastProgress(batchId, {
+        type: 'progress',
+        progress,
+        status: 'processing',
+        message,
+        data: { totalUrls: items.length, completedUrls, failedUrls }
+      });
+    }
+
+    const { completedUrls, failedUrls } = countFinished();
+
+    if (signal.aborted) {
+      const skipped = items.length - completedUrls - failedUrls;
+      const cancelMessage = `Cancelled: ${completedUrls} successful, ${failedUrls} failed, ${skipped} not processed`;
+      await store.update(batchId, {
+        status: 'cancelled' as ProcessingStatus,
+        completedUrls,
+        failedUrls,
+        message: cancelMessage
+      });
+      broadcastProgress(batchId, {
+        type: 'cancelled',
+        status: 'cancelled',
+        message: cancelMessage,
+        data: { totalUrls: items.length, completedUrls, failedUrls, resultsUrl: `/api/batch/${batchId}/results` }
+      });
+      logger.info(`Batch job cancelled: ${batchId}`, { total: items.length, completed: completedUrls, failed: failedUrls });
+      return;
     }
 
     // Mark batch as complete
-    batchJob.status = batchJob.failedUrls === batchJob.totalUrls
+    const finalStatus = failedUrls === items.length
       ? ('failed' as ProcessingStatus)
       : ('completed' as ProcessingStatus);
-    batchJob.progress = 100;
-    batchJob.message = `Completed: ${batchJob.completedUrls} successful, ${batchJob.failedUrls} failed`;
-    batchJob.updatedAt = new Date();
+    const finalMessage = `Completed: ${completedUrls} successful, ${failedUrls} failed`;
+    await store.update(batchId, {
+      status: finalStatus,
+      completedUrls,
+      failedUrls,
+      progress: 100,
+      message: finalMessage,
+      error: undefined
+    });
+    broadcastProgress(batchId, {
+      type: 'complete',
+      progress: 100,
+      status: finalStatus,
+      message: finalMessage,
+      data: { totalUrls: items.length, completedUrls, failedUrls, resultsUrl: `/api/batch/${batchId}/results` }
+    });
 
     logger.info(`Batch job completed: ${batchId}`, {
-      total: batchJob.totalUrls,
-      completed: batchJob.completedUrls,
-      failed: batchJob.failedUrls
+      total: items.length,
+      completed: completedUrls,
+      failed: failedUrls
     });
   } catch (error) {
     logger.error(`Batch processing error: ${batchId}`, error);
-    batchJob.status = 'failed' as ProcessingStatus;
-    batchJob.error = getErrorMessage(error);
-    batchJob.updatedAt = new Date();
+    await store.update(batchId, {
+      status: (signal.aborted ? 'cancelled' : 'failed') as ProcessingStatus,
+      error: getErrorMessage(error),
+      ...countFinished()
+    });
+  } finally {
+    releaseJob(batchId);
+  }
+}
+
+/** Whether a finished item is worth running again: cancelled, or failed with a recoverable error */
+function isRetryable(item: JobRecord): boolean {
+  if (item.status === 'cancelled') {
+    return true;
+  }
+  // Failures thrown outside the pipeline carry no result and are assumed transient
+  return item.status === 'failed' && item.result?.error?.recoverable !== false;
+}
+
+/**
+ * POST /api/batch/:id/retry
+ * Run a batch's failed and cancelled URLs again, plus any an interrupted
+ * run never finished. URLs that failed with an unrecoverable error (such as
+ * an invalid URL or unsupported content) are skipped, and completed URLs
+ * keep their results.
+ */
+export async function handleBatchRetryRequest(req: Request, batchId: string): Promise<Response> {
+  try {
+    const store = getJobStore();
+    const batchJob = await store.get(batchId);
+
+    if (!batchJob || batchJob.kind !== 'batch') {
+      return new Response(
+        JSON.stringify({
+          error: 'Batch job not found',
+          code: 'BATCH_NOT_FOUND'
+        }),
+        {
+          status: HTTP_STATUS.NOT_FOUND,
+          headers: { 'Content-Type': 'application/json' }
+        }
+      );
+    }
+
+    if (isJobRunning(batchId)) {
+      return new Response(
+        JSON.stringify({
+          error: 'Batch job is still running',
+          code: 'BATCH_RUNNING',
+          status: batchJob.status
+        }),
+        {
+          status: HTTP_STATUS.CONFLICT,
+          headers: { 'Content-Type': 'application/json' }
+        }
+      );
+    }
+
+    // The API key is never stored, so every retry brings its own
+    const body = await req.json().catch(() => ({})) as { apiKey?: unknown };
+    const apiKeyValidation = typeof body.apiKey === 'string'
+      ? ApiKeyValidator.validateGeminiKey(body.apiKey)
+      : { valid: false, error: 'API key is required' };
+    if (!apiKeyValidation.valid) {
+      return new Response(
+        JSON.stringify({
+          error: apiKeyValidation.error || 'Invalid API key',
+          code: 'INVALID_API_KEY'
+        }),
+        {
+          status: HTTP_STATUS.BAD_REQUEST,
+          headers: { 'Content-Type': 'application/json' }
+        }
+      );
+    }
+
+    const items = await ensureBatchItems(batchJob);
+    const retry = items.filter(item => UNFINISHED_ITEM_STATUSES.includes(item.status) || isRetryable(item));
+    const skipped = items
+      .filter(item => item.status === 'failed' && !isRetryable(item))
+      .map(item => ({ url: item.url, error: item.error, code: item.result?.error?.code }));
+
+    if (retry.length === 0) {
+      return new Response(
+        JSON.stringify({
+          error: 'No URLs in this batch can be retried',
+          code: 'NOTHING_TO_RETRY',
+          skipped
+        }),
+        {
+          status: HTTP_STATUS.CONFLICT,
+          headers: { 'Content-Type': 'application/json' }
+        }
+      );
+    }
+
+    for (const item of retry) {
+      await store.update(item.id, {
+        status: 'pending' as ProcessingStatus,
+        progress: 0,
+        message: 'Queued for retry',
+        result: undefined,
+        error: undefined,
+        metadata: { ...item.metadata, attempts: Number(item.metadata?.attempts ?? 1) + 1 }
+      });
+    }
+    await store.update(batchId, {
+      status: 'pending' as ProcessingStatus,
+      message: `Retrying ${retry.length} URLs...`,
+      error: undefined
+    });
+
+    logger.info(`Retrying batch job: ${batchId}`, { retrying: retry.length, skipped: skipped.length });
+    startBatch(batchId, body.apiKey as string);
+
+    return new Response(
+      JSON.stringify({
+        batchId,
+        status: 'pending',
+        message: `Retrying ${retry.length} URLs`,
+        retrying: retry.map(item => item.url),
+        skipped,
+        statusUrl: `/api/batch/${batchId}/status`,
+        resultsUrl: `/api/batch/${batchId}/results`
+      }),
+      {
+        status: HTTP_STATUS.OK,
+        headers: { 'Content-Type': 'application/json' }
+      }
+    );
+  } catch (error) {
+    logger.error('Batch retry request error', error);
+    return new Response(
+      JSON.stringify({
+        error: getErrorMessage(error),
+        code: getErrorCode(error)
+      }),
+      {
+        status: HTTP_STATUS.INTERNAL_SERVER_ERROR,
+        headers: { 'Content-Type': 'application/json' }
+      }
+    );
+  }
+}
+
+/**
+ * Pick up batches a previous server process left pending or processing.
+ * With `apiKey` (the server's key, passed only when `batch.resumeWithServerKey`
+ * opts in) they resume where their checkpoint stopped; without one they are
+ * marked failed and wait for POST /api/batch/:id/retry with the submitter's
+ * key, since request keys are never stored.
+ * Returns the number of interrupted batches found.
+ */
+export async function resumeInterruptedBatches(apiKey?: string): Promise<number> {
+  const store = getJobStore();
+  const interrupted = (await store.list({ kind: 'batch', status: UNFINISHED_ITEM_STATUSES, order: 'asc' }))
+    .filter(batch => !isJobRunning(batch.id));
+
+  for (const batch of interrupted) {
+    if (apiKey) {
+      logger.info(`Resuming interrupted batch job: ${batch.id}`);
+      startBatch(batch.id, apiKey);
+    } else {
+      await store.update(batch.id, {
+        status: 'failed' as ProcessingStatus,
+        error: 'Interrupted by a server restart',
+        message: `Interrupted: POST /api/batch/${batch.id}/retry to resume`
+      });
+    }
   }
+  return interrupted.length;
 }
 
 /**
@@ -528,9 +931,9 @@ async function processBatch(
  */
 export async function handleBatchStatusRequest(req: Request, batchId: string): Promise<Response> {
   try {
-    const batchJob = batchJobs.get(batchId);
+    const batchJob = await getJobStore().get(batchId);
 
-    if (!batchJob) {
+    if (!batchJob || batchJob.kind !== 'batch') {
       return new Response(
         JSON.stringify({
           error: 'Batch job not found',
@@ -584,9 +987,9 @@ export async function handleBatchResultsRequest(req: Request, batchId: string):
     const url = new URL(req.url);
     const format = url.searchParams.get('format') || 'json';
 
-    const batchJob = batchJobs.get(batchId);
+    const batchJob = await getJobStore().get(batchId);
 
-    if (!batchJob) {
+    if (!batchJob || batchJob.kind !== 'batch') {
       return new Response(
         JSON.stringify({
           error: 'Batch job not found',
@@ -599,7 +1002,8 @@ export async function handleBatchResultsRequest(req: Request, batchId: string):
       );
     }
 
-    if (batchJob.status !== 'completed' && batchJob.status !== 'failed') {
+    // A cancelled batch has results for the items it finished
+    if (batchJob.status !== 'completed' && batchJob.status !== 'failed' && batchJob.status !== 'cancelled') {
       return new Response(
         JSON.stringify({
           error: 'Batch job not completed yet',
@@ -619,38 +1023,53 @@ export async function handleBatchResultsRequest(req: Request, batchId: string):
       status: string;
       data?: unknown;
       error?: string;
+      retryable?: boolean;
     }> = {};
 
-    for (const [urlKey, job] of batchJob.results.entries()) {
+    const items = await getJobStore().list({ batchId, order: 'asc' });
+
+    for (const job of items) {
+      const urlKey = job.url ?? job.id;
       if (job.result?.success && job.result.data) {
         const exportOptions: ExportOptions = {
-          format: format as 'markdown' | 'json' | 'yaml',
+          format: format as ExportFormat,
           prettify: true,
           includeMetadata: true
         };
 
-        let formattedData: string;
-        if (format === 'yaml') {
-          formattedData = convertToYaml(job.result.data, exportOptions);
-        } else if (format === 'json') {
-          formattedData = convertToJson(job.result.data, exportOptions);
-        } else {
-          const formatter = new MarkdownFormatter();
-          formattedData = await formatter.format(job.result.data);
-        }
+        const formattedData = await renderGem(job.result.data, exportOptions);
 
         results[urlKey] = {
           status: 'success',
           data: format === 'json' ? JSON.parse(formattedData) : formattedData
         };
+      } else if (job.status === 'cancelled') {
+        results[urlKey] = { status: 'cancelled' };
+      } else if (UNFINISHED_ITEM_STATUSES.includes(job.status)) {
+        results[urlKey] = { status: 'pending' };
       } else {
         results[urlKey] = {
           status: 'failed',
-          error: job.error || 'Processing failed'
+          error: job.error || 'Processing failed',
+          retryable: isRetryable(job)
         };
       }
     }
 
+    // Each expanded playlist or channel gets a note linking its video gems in order
+    const collections = (batchJob.metadata?.collections ?? []) as BatchCollection[];
+    const itemsByUrl = new Map(items.map(item => [item.url, item]));
+    const indexNotes = collections.map(collection => buildCollectionIndexNote(collection, collection.videos.map(video => {
+      const item = itemsByUrl.get(video.url);
+      return {
+        video,
+        gem: item?.result?.success ? item.result.data : undefined,
+        note: !item || UNFINISHED_ITEM_STATUSES.includes(item.status)
+          ? 'not processed'
+          : item.status === 'cancelled' ? 'cancelled' : `failed: ${item.error || 'Processing failed'}`
+      };
+    }), { created: batchJob.updatedAt }));
+
     const response = {
       batchId: batchJob.id,
       status: batchJob.status,
@@ -659,7 +1078,8 @@ export async function handleBatchResultsRequest(req: Request, batchId: string):
         completed: batchJob.completedUrls,
         failed: batchJob.failedUrls
       },
-      results
+      results,
+      ...(indexNotes.length > 0 ? { indexNotes } : {})
     };
 
     return new Response(JSON.stringify(response, null, 2), {
@@ -681,6 +1101,44 @@ export async function handleBatchResultsRequest(req: Request, batchId: string):
   }
 }
 
+/**
+ * DELETE /api/batch/:id
+ * Cancel a batch: running items are aborted, the rest are never started,
+ * and finished items stay available from the results endpoint
+ */
+export async function handleBatchCancelRequest(req: Request, batchId: string): Promise<Response> {
+  try {
+    const batchJob = await getJobStore().get(batchId);
+
+    if (!batchJob || batchJob.kind !== 'batch') {
+      return new Response(
+        JSON.stringify({
+          error: 'Batch job not found',
+          code: 'BATCH_NOT_FOUND'
+        }),
+        {
+          status: HTTP_STATUS.NOT_FOUND,
+          headers: { 'Content-Type': 'application/json' }
+        }
+      );
+    }
+
+    return await cancelJobResponse(batchId);
+  } catch (error) {
+    logger.error('Batch cancel request error', error);
+    return new Response(
+      JSON.stringify({
+        error: getErrorMessage(error),
+        code: getErrorCode(error)
+      }),
+      {
+        status: HTTP_STATUS.INTERNAL_SERVER_ERROR,
+        headers: { 'Content-Type': 'application/json' }
+      }
+    );
+  }
+}
+
 // ============================================================================
 // ENHANCED HEALTH DASHBOARD
 // ============================================================================
@@ -692,9 +1150,33 @@ const metricsHistory: {
   jobs: { pending: number; processing: number; completed: number; failed: number };
 }[] = [];
 
+/** Jobs counted in dashboard job statistics (batches are reported separately) */
+const URL_JOB_KINDS: JobKind[] = ['process', 'batch_item', 'feed_item'];
+
+/**
+ * Summarize job counts per status from the job store
+ */
+async function getJobStats(kind: JobKind | JobKind[]): Promise<{
+  total: number;
+  pending: number;
+  processing: number;
+  completed: number;
+  failed: number;
+}> {
+  const counts = await getJobStore().countByStatus({ kind });
+  return {
+    total: Object.values(counts).reduce((sum, count) => sum + count, 0),
+    pending: counts.pending ?? 0,
+    processing: counts.processing ?? 0,
+    completed: counts.completed ?? 0,
+    failed: counts.failed ?? 0
+  };
+}
+
 // Collect metrics every 30 seconds
-setInterval(() => {
+setInterval(async () => {
   const memory = process.memoryUsage();
+  const jobStats = await getJobStats(URL_JOB_KINDS);
   metricsHistory.push({
     timestamp: Date.now(),
     memory: {
@@ -703,10 +1185,10 @@ setInterval(() => {
       rss: Math.round(memory.rss / SIZE.MB)
     },
     jobs: {
-      pending: Array.from(jobs.values()).filter((j) => j.status === 'pending').length,
-      processing: Array.from(jobs.values()).filter((j) => j.status === 'processing').length,
-      completed: Array.from(jobs.values()).filter((j) => j.status === 'completed').length,
-      failed: Array.from(jobs.values()).filter((j) => j.status === 'failed').length
+      pending: jobStats.pending,
+      processing: jobStats.processing,
+      completed: jobStats.completed,
+      failed: jobStats.failed
     }
   });
 
@@ -728,29 +1210,15 @@ export async function handleDashboardRequest(req: Request): Promise<Response> {
     const uptime = process.uptime();
 
     // Calculate job statistics
-    const allJobs = Array.from(jobs.values());
-    const jobStats = {
-      total: jobs.size,
-      pending: allJobs.filter((j) => j.status === 'pending').length,
-      processing: allJobs.filter((j) => j.status === 'processing').length,
-      completed: allJobs.filter((j) => j.status === 'completed').length,
-      failed: allJobs.filter((j) => j.status === 'failed').length
-    };
+    const jobStats = await getJobStats(URL_JOB_KINDS);
 
     // Calculate batch statistics
-    const allBatchJobs = Array.from(batchJobs.values());
-    const batchStats = {
-      total: batchJobs.size,
-      pending: allBatchJobs.filter((j) => j.status === 'pending').length,
-      processing: allBatchJobs.filter((j) => j.status === 'processing').length,
-      completed: allBatchJobs.filter((j) => j.status === 'completed').length,
-      failed: allBatchJobs.filter((j) => j.status === 'failed').length
-    };
+    const batchStats = await getJobStats('batch');
 
     // Calculate success rate
-    const completedJobs = allJobs.filter((j) => j.status === 'completed' || j.status === 'failed');
-    const successRate = completedJobs.length > 0
-      ? (allJobs.filter((j) => j.status === 'completed').length / completedJobs.length) * 100
+    const finishedJobs = jobStats.completed + jobStats.failed;
+    const successRate = finishedJobs > 0
+      ? (jobStats.completed / finishedJobs) * 100
       : 100;
 
     // Get recent metrics for sparkline data
@@ -824,6 +1292,10 @@ export async function handleDashboardRequest(req: Request): Promise<Response> {
         batch: '/api/batch',
         batchStatus: '/api/batch/:id/status',
         batchResults: '/api/batch/:id/results',
+        batchRetry: 'POST /api/batch/:id/retry',
+        batchCancel: 'DELETE /api/batch/:id',
+        jobs: '/api/jobs (admin token)',
+        jobCancel: 'DELETE /api/jobs/:id',
         prompts: '/api/prompts'
       }
     };
@@ -865,6 +1337,198 @@ function formatUptime(seconds: number): string {
   return parts.join(' ');
 }
 
+// ============================================================================
+// JOB QUERY ENDPOINT
+// ============================================================================
+
+const JOB_KINDS: JobKind[] = ['process', 'batch', 'batch_item', 'feed_item'];
+const JOB_STATUSES = ['pending', 'processing', 'completed', 'failed', 'cancelled'];
+
+/** Default and maximum page size for job listings */
+const DEFAULT_JOB_LIMIT = 50;
+const MAX_JOB_LIMIT = 500;
+
+/** Job summary as returned by the list endpoint (results are fetched per job) */
+function serializeJob(job: JobRecord): Record<string, unknown> {
+  return {
+    id: job.id,
+    kind: job.kind,
+    status: job.status,
+    progress: job.progress,
+    message: job.message,
+    url: job.url,
+    batchId: job.batchId,
+    totalUrls: job.totalUrls,
+    completedUrls: job.completedUrls,
+    failedUrls: job.failedUrls,
+    error: job.error,
+    createdAt: job.createdAt.toISOString(),
+    updatedAt: job.updatedAt.toISOString()
+  };
+}
+
+/** Whether the request carries the configured admin token as `Authorization: Bearer <token>` */
+function isAdminRequest(req: Request): boolean {
+  const adminToken = getConfig().security.adminToken;
+  const match = /^Bearer\s+(.+)$/i.exec(req.headers.get('Authorization') ?? '');
+  if (!adminToken || !match) {
+    return false;
+  }
+
+  const expected = Buffer.from(adminToken);
+  const given = Buffer.from(match[1].trim());
+  return given.length === expected.length && timingSafeEqual(given, expected);
+}
+
+/**
+ * GET /api/jobs?kind=&status=&batchId=&since=&limit=&offset=&order=
+ * List jobs from the job store. The listing exposes every job ID (and with
+ * it every result), so it needs the admin token and is off without one
+ */
+export async function handleJobsListRequest(req: Request): Promise<Response> {
+  try {
+    if (!isAdminRequest(req)) {
+      return new Response(
+        JSON.stringify({
+          error: getConfig().security.adminToken
+            ? 'Listing jobs requires the admin token'
+            : 'Listing jobs is disabled: ADMIN_TOKEN is not set',
+          code: 'FORBIDDEN'
+        }),
+        {
+          status: HTTP_STATUS.FORBIDDEN,
+          headers: { 'Content-Type': 'application/json' }
+        }
+      );
+    }
+
+    const params = new URL(req.url).searchParams;
+
+    const kind = params.get('kind') || undefined;
+    const statuses = params.get('status')?.split(',').filter(Boolean) ?? [];
+    const since = params.get('since');
+    const order = params.get('order') || 'desc';
+    const limit = Number(params.get('limit') ?? DEFAULT_JOB_LIMIT);
+    const offset = Number(params.get('offset') ?? 0);
+
+    const invalid =
+      (kind && !JOB_KINDS.includes(kind as JobKind)) ? 'kind' :
+      statuses.some(status => !JOB_STATUSES.includes(status)) ? 'status' :
+      (since && Number.isNaN(Date.parse(since))) ? 'since' :
+      (order !== 'asc' && order !== 'desc') ? 'order' :
+      (!Number.isInteger(limit) || limit < 1 || limit > MAX_JOB_LIMIT) ? 'limit' :
+      (!Number.isInteger(offset) || offset < 0) ? 'offset' :
+      null;
+
+    if (invalid) {
+      return new Response(
+        JSON.stringify({
+          error: `Invalid query parameter: ${invalid}`,
+          code: 'INVALID_INPUT'
+        }),
+        {
+          status: HTTP_STATUS.BAD_REQUEST,
+          headers: { 'Content-Type': 'application/json' }
+        }
+      );
+    }
+
+    const query = {
+      kind: kind as JobKind | undefined,
+      status: statuses.length > 0 ? (statuses as ProcessingStatus[]) : undefined,
+      batchId: params.get('batchId') || undefined,
+      createdAfter: since ? new Date(since) : undefined
+    };
+
+    const store = getJobStore();
+    const [jobList, total] = await Promise.all([
+      store.list({ ...query, limit, offset, order: order as 'asc' | 'desc' }),
+      store.count(query)
+    ]);
+
+    return new Response(JSON.stringify({
+      jobs: jobList.map(serializeJob),
+      total,
+      limit,
+      offset
+    }, null, 2), {
+      status: HTTP_STATUS.OK,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  } catch (error) {
+    logger.error('Jobs list request error', error);
+    return new Response(
+      JSON.stringify({
+        error: getErrorMessage(error),
+        code: getErrorCode(error)
+      }),
+      {
+        status: HTTP_STATUS.INTERNAL_SERVER_ERROR,
+        headers: { 'Content-Type': 'application/json' }
+      }
+    );
+  }
+}
+
+/**
+ * DELETE /api/jobs/:id
+ * Cancel a pending or running job of any kind
+ */
+export async function handleJobCancelRequest(req: Request, jobId: string): Promise<Response> {
+  try {
+    return await cancelJobResponse(jobId);
+  } catch (error) {
+    logger.error('Job cancel request error', error);
+    return new Response(
+      JSON.stringify({
+        error: getErrorMessage(error),
+        code: getErrorCode(error)
+      }),
+      {
+        status: HTTP_STATUS.INTERNAL_SERVER_ERROR,
+        headers: { 'Content-Type': 'application/json' }
+      }
+    );
+  }
+}
+
+/** Cancel a job and describe the outcome; finished jobs cannot be cancelled */
+async function cancelJobResponse(jobId: string): Promise<Response> {
+  const { job, cancelled } = await cancelJob(jobId);
+
+  if (!job) {
+    return new Response(
+      JSON.stringify({
+        error: 'Job not found',
+        code: 'JOB_NOT_FOUND'
+      }),
+      {
+        status: HTTP_STATUS.NOT_FOUND,
+        headers: { 'Content-Type': 'application/json' }
+      }
+    );
+  }
+
+  if (!cancelled) {
+    return new Response(
+      JSON.stringify({
+        error: `Job already ${job.status}`,
+        code: 'JOB_NOT_ACTIVE',
+        status: job.status
+      }),
+      {
+        status: HTTP_STATUS.CONFLICT,
+        headers: { 'Content-Type': 'application/json' }
+      }
+    );
+  }
+
+  return new Response(JSON.stringify(serializeJob(job), null, 2), {
+    status: HTTP_STATUS.OK,
+    headers: { 'Content-Type': 'application/json' }
+  });
+}
+
 // ============================================================================
 // EXPORT FORMAT ENDPOINT
 // ============================================================================
@@ -880,7 +1544,7 @@ export async function handleExportRequest(req: Request, jobId: string): Promise<
     const prettify = url.searchParams.get('prettify') !== 'false';
     const includeMetadata = url.searchParams.get('metadata') !== 'false';
 
-    const job = jobs.get(jobId);
+    const job = await getJobStore().get(jobId);
 
     if (!job) {
       return new Response(
@@ -924,26 +1588,14 @@ export async function handleExportRequest(req: Request, jobId: string): Promise<
     }
 
     const exportOptions: ExportOptions = {
-      format: format as 'markdown' | 'json' | 'yaml',
+      format: format as ExportFormat,
       prettify,
       includeMetadata
     };
 
-    let output: string;
+    const output = await renderGem(job.result.data, exportOptions);
     const formatInfo = getFormatInfo(format);
 
-    switch (format) {
-      case 'json':
-        output = convertToJson(job.result.data, exportOptions);
-        break;
-      case 'yaml':
-        output = convertToYaml(job.result.data, exportOptions);
-        break;
-      default:
-        const formatter = new MarkdownFormatter();
-        output = await formatter.format(job.result.data);
-    }
-
     // Generate filename
     const title = job.result.data.frontmatter.title
       .replace(/[^a-z0-9]/gi, '_')
@@ -1040,11 +1692,21 @@ export async function handleEnhancedApiRequest(req: Request): Promise<Response |
   const path = url.pathname;
   const method = req.method;
 
+  // /api/feeds and /api/feeds/:id[/poll]
+  if (path === '/api/feeds' || path.startsWith('/api/feeds/')) {
+    return handleFeedsApiRequest(req);
+  }
+
   // POST /api/batch
   if (method === 'POST' && path === '/api/batch') {
     return handleBatchRequest(req);
   }
 
+  // POST /api/batch/import
+  if (method === 'POST' && path === '/api/batch/import') {
+    return handleBatchImportRequest(req);
+  }
+
   // GET /api/batch/:id/status
   const batchStatusMatch = path.match(/^\/api\/batch\/([a-zA-Z0-9_]+)\/status$/);
   if (method === 'GET' && batchStatusMatch) {
@@ -1057,6 +1719,18 @@ export async function handleEnhancedApiRequest(req: Request): Promise<Response |
     return handleBatchResultsRequest(req, batchResultsMatch[1]);
   }
 
+  // POST /api/batch/:id/retry
+  const batchRetryMatch = path.match(/^\/api\/batch\/([a-zA-Z0-9_]+)\/retry$/);
+  if (method === 'POST' && batchRetryMatch) {
+    return handleBatchRetryRequest(req, batchRetryMatch[1]);
+  }
+
+  // DELETE /api/batch/:id
+  const batchMatch = path.match(/^\/api\/batch\/([a-zA-Z0-9_]+)$/);
+  if (method === 'DELETE' && batchMatch) {
+    return handleBatchCancelRequest(req, batchMatch[1]);
+  }
+
   // GET /api/dashboard
   if (method === 'GET' && path === '/api/dashboard') {
     return handleDashboardRequest(req);
@@ -1068,6 +1742,17 @@ export async function handleEnhancedApiRequest(req: Request): Promise<Response |
     return handleExportRequest(req, exportMatch[1]);
   }
 
+  // GET /api/jobs
+  if (method === 'GET' && path === '/api/jobs') {
+    return handleJobsListRequest(req);
+  }
+
+  // DELETE /api/jobs/:id
+  const jobMatch = path.match(/^\/api\/jobs\/([a-zA-Z0-9_]+)$/);
+  if (method === 'DELETE' && jobMatch) {
+    return handleJobCancelRequest(req, jobMatch[1]);
+  }
+
   // GET /api/prompts
   if (method === 'GET' && path === '/api/prompts') {
     return handlePromptsGetRequest(req);
@@ -1082,14 +1767,12 @@ export async function handleEnhancedApiRequest(req: Request): Promise<Response |
 // ============================================================================
 
 export {
-  jobs,
-  batchJobs,
   generateJobId,
-  cleanupOldJobs,
   convertToJson,
   convertToYaml,
   getFormatInfo,
   summarizationMapping,
   defaultPrompts,
-  metricsHistory
+  metricsHistory,
+  type SummarizationLevel
 };
@@ -0,0 +1,395 @@
+/**
+ * Feed Subscription API Routes
+ * CRUD for RSS/Atom subscriptions under /api/feeds, plus an on-demand poll
+ *
+ * Version: 1.0.0
+ */
+
+import { ApiKeyValidator, feedSubscriptionSchema } from '../../core/validators/index.js';
+import { createLogger } from '../../core/logging/index.js';
+import { getErrorMessage, getErrorCode, isObsidianizeError } from '../../core/errors/index.js';
+import { HTTP_STATUS } from '../../core/constants/index.js';
+import { getConfig } from '../../core/config/index.js';
+import {
+  getFeedStore,
+  getFeedPoller,
+  generateFeedId,
+  nextPollAt,
+  validateFeedUrl,
+  type FeedSubscription,
+  type FeedSubscriptionPatch
+} from '../../core/feeds/index.js';
+import { ErrorCategory } from '../../core/types/index.js';
+
+const logger = createLogger('routes-feeds');
+
+/** Seen entries returned with a single subscription */
+const RECENT_ENTRY_LIMIT = 20;
+
+function serializeFeed(feed: FeedSubscription): Record<string, unknown> {
+  return {
+    id: feed.id,
+    url: feed.url,
+    title: feed.title,
+    enabled: feed.enabled,
+    options: feed.options,
+    pollInterval: feed.pollInterval,
+    backfill: feed.backfill,
+    lastPolledAt: feed.lastPolledAt?.toISOString(),
+    lastError: feed.lastError,
+    lastErrorAt: feed.lastErrorAt?.toISOString(),
+    nextPollAt: feed.enabled ? nextPollAt(feed).toISOString() : undefined,
+    createdAt: feed.createdAt.toISOString(),
+    updatedAt: feed.updatedAt.toISOString()
+  };
+}
+
+function feedNotFound(): Response {
+  return new Response(
+    JSON.stringify({
+      error: 'Feed subscription not found',
+      code: 'FEED_NOT_FOUND'
+    }),
+    {
+      status: HTTP_STATUS.NOT_FOUND,
+      headers: { 'Content-Type': 'application/json' }
+    }
+  );
+}
+
+/**
+ * Parse and validate a subscription body; `partial` accepts any subset of fields.
+ * Returns the fields, or the 400 response to send.
+ */
+async function readFeedBody(req: Request, partial: boolean): Promise<FeedSubscriptionPatch | Response> {
+  const body = await req.json().catch(() => undefined);
+  const schema = partial ? feedSubscriptionSchema.partial() : feedSubscriptionSchema;
+  const parsed = schema.safeParse(body);
+  if (!parsed.success) {
+    return new Response(
+      JSON.stringify({
+        error: 'Invalid feed subscription',
+        code: 'INVALID_INPUT',
+        issues: parsed.error.issues.map(issue => `${issue.path.join('.') || 'body'}: ${issue.message}`)
+      }),
+      {
+        status: HTTP_STATUS.BAD_REQUEST,
+        headers: { 'Content-Type': 'application/json' }
+      }
+    );
+  }
+
+  const fields = parsed.data;
+  const urlError = fields.url === undefined ? undefined : validateFeedUrl(fields.url, getConfig().feeds.allowLocalFeeds);
+  if (urlError) {
+    return new Response(
+      JSON.stringify({
+        error: urlError,
+        code: 'INVALID_URL'
+      }),
+      {
+        status: HTTP_STATUS.BAD_REQUEST,
+        headers: { 'Content-Type': 'application/json' }
+      }
+    );
+  }
+  return fields;
+}
+
+/** Answer a conflict if another subscription already has `url` */
+async function duplicateFeedResponse(url: string | undefined, id?: string): Promise<Response | null> {
+  const existing = url === undefined ? null : await getFeedStore().getByUrl(url);
+  if (!existing || existing.id === id) {
+    return null;
+  }
+  return new Response(
+    JSON.stringify({
+      error: 'Already subscribed to this feed',
+      code: 'FEED_EXISTS',
+      feedId: existing.id
+    }),
+    {
+      status: HTTP_STATUS.CONFLICT,
+      headers: { 'Content-Type': 'application/json' }
+    }
+  );
+}
+
+function internalError(message: string, error: unknown): Response {
+  logger.error(message, error);
+  return new Response(
+    JSON.stringify({
+      error: getErrorMessage(error),
+      code: getErrorCode(error)
+    }),
+    {
+      status: HTTP_STATUS.INTERNAL_SERVER_ERROR,
+      headers: { 'Content-Type': 'application/json' }
+    }
+  );
+}
+
+// ============================================================================
+// ROUTE HANDLERS
+// ============================================================================
+
+/**
+ * GET /api/feeds
+ * List subscriptions
+ */
+export async function handleFeedsListRequest(_req: Request): Promise<Response> {
+  try {
+    const feeds = await getFeedStore().list();
+    return new Response(
+      JSON.stringify({
+        feeds: feeds.map(serializeFeed),
+        total: feeds.length,
+        scheduler: getFeedPoller().running ? 'running' : 'stopped'
+      }),
+      {
+        status: HTTP_STATUS.OK,
+        headers: { 'Content-Type': 'application/json' }
+      }
+    );
+  } catch (error) {
+    return internalError('Feed list request error', error);
+  }
+}
+
+/**
+ * POST /api/feeds
+ * Subscribe to a feed. Its first poll marks the entries already published
+ * as seen, apart from the newest `backfill`.
+ */
+export async function handleFeedCreateRequest(req: Request): Promise<Response> {
+  try {
+    const fields = await readFeedBody(req, false);
+    if (fields instanceof Response) {
+      return fields;
+    }
+    const duplicate = await duplicateFeedResponse(fields.url);
+    if (duplicate) {
+      return duplicate;
+    }
+
+    const feed = await getFeedStore().create({
+      id: generateFeedId(),
+      url: fields.url!,
+      title: fields.title,
+      enabled: fields.enabled ?? true,
+      options: fields.options ?? {},
+      pollInterval: fields.pollInterval ?? getConfig().feeds.pollInterval,
+      backfill: fields.backfill ?? 0
+    });
+    logger.info(`Subscribed to feed: ${feed.id}`, { url: feed.url });
+
+    return new Response(
+      JSON.stringify(serializeFeed(feed)),
+      {
+        status: HTTP_STATUS.CREATED,
+        headers: { 'Content-Type': 'application/json' }
+      }
+    );
+  } catch (error) {
+    return internalError('Feed create request error', error);
+  }
+}
+
+/**
+ * GET /api/feeds/:id
+ * A subscription with its most recently seen entries
+ */
+export async function handleFeedGetRequest(_req: Request, feedId: string): Promise<Response> {
+  try {
+    const store = getFeedStore();
+    const feed = await store.get(feedId);
+    if (!feed) {
+      return feedNotFound();
+    }
+
+    const entries = await store.listEntries(feedId, RECENT_ENTRY_LIMIT);
+    return new Response(
+      JSON.stringify({
+        ...serializeFeed(feed),
+        seenEntries: await store.countEntries(feedId),
+        recentEntries: entries.map(entry => ({
+          guid: entry.guid,
+          url: entry.url,
+          title: entry.title,
+          publishedAt: entry.publishedAt?.toISOString(),
+          jobId: entry.jobId,
+          seenAt: entry.seenAt.toISOString()
+        }))
+      }),
+      {
+        status: HTTP_STATUS.OK,
+        headers: { 'Content-Type': 'application/json' }
+      }
+    );
+  } catch (error) {
+    return internalError('Feed get request error', error);
+  }
+}
+
+/**
+ * PATCH /api/feeds/:id
+ * Change a subscription; `options` replaces the previous options
+ */
+export async function handleFeedUpdateRequest(req: Request, feedId: string): Promise<Response> {
+  try {
+    const store = getFeedStore();
+    if (!(await store.get(feedId))) {
+      return feedNotFound();
+    }
+
+    const fields = await readFeedBody(req, true);
+    if (fields instanceof Response) {
+      return fields;
+    }
+    const duplicate = await duplicateFeedResponse(fields.url, feedId);
+    if (duplicate) {
+      return duplicate;
+    }
+
+    const feed = await store.update(feedId, fields);
+    return new Response(
+      JSON.stringify(serializeFeed(feed!)),
+      {
+        status: HTTP_STATUS.OK,
+        headers: { 'Content-Type': 'application/json' }
+      }
+    );
+  } catch (error) {
+    return internalError('Feed update request error', error);
+  }
+}
+
+/**
+ * DELETE /api/feeds/:id
+ * Unsubscribe; jobs already queued for the feed still run
+ */
+export async function handleFeedDeleteRequest(_req: Request, feedId: string): Promise<Response> {
+  try {
+    if (!(await getFeedStore().delete(feedId))) {
+      return feedNotFound();
+    }
+    logger.info(`Unsubscribed from feed: ${feedId}`);
+
+    return new Response(
+      JSON.stringify({ id: feedId, deleted: true }),
+      {
+        status: HTTP_STATUS.OK,
+        headers: { 'Content-Type': 'application/json' }
+      }
+    );
+  } catch (error) {
+    return internalError('Feed delete request error', error);
+  }
+}
+
+/**
+ * POST /api/feeds/:id/poll
+ * Poll a feed now and queue its new entries. Uses the server's AI key
+ * unless the body brings an `apiKey`.
+ */
+export async function handleFeedPollRequest(req: Request, feedId: string): Promise<Response> {
+  try {
+    const feed = await getFeedStore().get(feedId);
+    if (!feed) {
+      return feedNotFound();
+    }
+
+    const body = await req.json().catch(() => ({})) as { apiKey?: unknown };
+    if (body.apiKey !== undefined) {
+      const apiKeyValidation = typeof body.apiKey === 'string'
+        ? ApiKeyValidator.validateGeminiKey(body.apiKey)
+        : { valid: false, error: 'Invalid API key' };
+      if (!apiKeyValidation.valid) {
+        return new Response(
+          JSON.stringify({
+            error: apiKeyValidation.error || 'Invalid API key',
+            code: 'INVALID_API_KEY'
+          }),
+          {
+            status: HTTP_STATUS.BAD_REQUEST,
+            headers: { 'Content-Type': 'application/json' }
+          }
+        );
+      }
+    }
+
+    try {
+      const result = await getFeedPoller().poll(feed, { apiKey: body.apiKey as string | undefined });
+      return new Response(
+        JSON.stringify(result),
+        {
+          status: HTTP_STATUS.OK,
+          headers: { 'Content-Type': 'application/json' }
+        }
+      );
+    } catch (error) {
+      if (!isObsidianizeError(error)) {
+        throw error;
+      }
+      // Missing key and concurrent polls are the caller's to fix; the rest is the feed's fault
+      const status = error.category !== ErrorCategory.VALIDATION
+        ? HTTP_STATUS.BAD_GATEWAY
+        : error.code === 'FEED_POLL_IN_PROGRESS' ? HTTP_STATUS.CONFLICT : HTTP_STATUS.BAD_REQUEST;
+      return new Response(
+        JSON.stringify({
+          error: error.message,
+          code: error.code
+        }),
+        {
+          status,
+          headers: { 'Content-Type': 'application/json' }
+        }
+      );
+    }
+  } catch (error) {
+    return internalError('Feed poll request error', error);
+  }
+}
+
+// ============================================================================
+// FEED ROUTE MATCHER
+// ============================================================================
+
+/**
+ * Route /api/feeds requests; returns null for paths it does not serve
+ */
+export async function handleFeedsApiRequest(req: Request): Promise<Response | null> {
+  const path = new URL(req.url).pathname;
+  const method = req.method;
+
+  if (path === '/api/feeds') {
+    if (method === 'GET') {
+      return handleFeedsListRequest(req);
+    }
+    if (method === 'POST') {
+      return handleFeedCreateRequest(req);
+    }
+    return null;
+  }
+
+  // POST /api/feeds/:id/poll
+  const pollMatch = path.match(/^\/api\/feeds\/([a-zA-Z0-9_]+)\/poll$/);
+  if (method === 'POST' && pollMatch) {
+    return handleFeedPollRequest(req, pollMatch[1]);
+  }
+
+  // GET, PATCH, DELETE /api/feeds/:id
+  const feedMatch = path.match(/^\/api\/feeds\/([a-zA-Z0-9_]+)$/);
+  if (feedMatch) {
+    switch (method) {
+      case 'GET':
+        return handleFeedGetRequest(req, feedMatch[1]);
+      case 'PATCH':
+        return handleFeedUpdateRequest(req, feedMatch[1]);
+      case 'DELETE':
+        return handleFeedDeleteRequest(req, feedMatch[1]);
+    }
+  }
+
+  return null;
+}
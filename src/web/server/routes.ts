@@ -28,54 +28,21 @@ import type {
 } from '../../core/types/index.js';
 import { AnalysisMode as AnalysisModeEnum, OutputFormat as OutputFormatEnum } from '../../core/types/index.js';
 import { MarkdownFormatter } from '../../core/formatters/index.js';
+import { getJobStore, generateJobId } from '../../core/jobs/job-store.js';
+import { trackJob, releaseJob, isJobRunning } from '../../core/jobs/cancellation.js';
+import { broadcastProgress, broadcastStageProgress, createPartialOutputRelay } from './websocket.js';
+import { handleBatchRequest } from './routes-enhanced.js';
 
 const logger = createLogger('routes');
 
-// ============================================================================
-// JOB MANAGEMENT
-// ============================================================================
-
-/** Job status tracking */
-interface JobStatus {
-  id: string;
-  status: ProcessingStatus;
-  progress: number;
-  message: string;
-  result?: ProcessingResult;
-  createdAt: Date;
-  updatedAt: Date;
-  error?: string;
-}
-
-/** In-memory job storage (would use Redis/DB in production) */
-const jobs = new Map<string, JobStatus>();
-
-/** Generate unique job ID */
-function generateJobId(): string {
-  return `job_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
-}
-
-/** Clean up old jobs (older than 1 hour) */
-function cleanupOldJobs(): void {
-  const oneHourAgo = Date.now() - 60 * 60 * 1000;
-  for (const [id, job] of jobs.entries()) {
-    if (job.createdAt.getTime() < oneHourAgo) {
-      jobs.delete(id);
-      logger.debug(`Cleaned up old job: ${id}`);
-    }
-  }
-}
-
-// Clean up old jobs every 10 minutes
-setInterval(cleanupOldJobs, 10 * 60 * 1000);
-
 // ============================================================================
 // ROUTE HANDLERS
 // ============================================================================
 
 /**
  * POST /api/process
- * Start content processing
+ * Start content processing. With `options.stream` set, the note is also
+ * sent as 'partial' frames on /ws/progress/:id while the model writes it.
  */
 export async function handleProcessRequest(req: Request): Promise<Response> {
   try {
@@ -125,7 +92,7 @@ export async function handleProcessRequest(req: Request): Promise<Response> {
       );
     }
 
-    // Validate API key format
+    // Validate API key format; the key is used with whichever AI provider is configured
     const apiKeyValidation = ApiKeyValidator.validateGeminiKey(apiKey);
     if (!apiKeyValidation.valid) {
       return new Response(
@@ -140,17 +107,25 @@ export async function handleProcessRequest(req: Request): Promise<Response> {
       );
     }
 
+    // Playlists and channels are processed as a batch of their videos
+    if (URLValidator.extractYouTubeCollection(url)) {
+      return handleBatchRequest(new Request(req.url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ urls: [url], apiKey, options })
+      }));
+    }
+
     // Create job
     const jobId = generateJobId();
-    const job: JobStatus = {
+    await getJobStore().create({
       id: jobId,
+      kind: 'process',
       status: 'pending' as ProcessingStatus,
       progress: 0,
       message: 'Job created, starting processing...',
-      createdAt: new Date(),
-      updatedAt: new Date()
-    };
-    jobs.set(jobId, job);
+      url
+    });
 
     logger.info(`Created processing job: ${jobId}`, {
       url,
@@ -158,14 +133,12 @@ export async function handleProcessRequest(req: Request): Promise<Response> {
     });
 
     // Start processing asynchronously
-    processContent(jobId, url, apiKey, options).catch((error) => {
+    processContent(jobId, url, apiKey, options).catch(async (error) => {
       logger.error(`Background processing failed for job ${jobId}`, error);
-      const job = jobs.get(jobId);
-      if (job) {
-        job.status = 'failed' as ProcessingStatus;
-        job.error = getErrorMessage(error);
-        job.updatedAt = new Date();
-      }
+      await getJobStore().update(jobId, {
+        status: 'failed' as ProcessingStatus,
+        error: getErrorMessage(error)
+      });
     });
 
     // Return job ID immediately
@@ -198,7 +171,7 @@ export async function handleProcessRequest(req: Request): Promise<Response> {
 }
 
 /**
- * Background processing function
+ * Background processing function; stops when the job is cancelled
  */
 async function processContent(
   jobId: string,
@@ -206,21 +179,28 @@ async function processContent(
   apiKey: string,
   userOptions: any
 ): Promise<void> {
-  const job = jobs.get(jobId);
+  const store = getJobStore();
+  const job = await store.get(jobId);
   if (!job) {
     logger.error(`Job not found: ${jobId}`);
     return;
   }
+  if (job.status === 'cancelled') {
+    return;
+  }
 
+  const signal = trackJob(jobId);
   try {
     // Update job status
-    job.status = 'processing' as ProcessingStatus;
-    job.progress = 10;
-    job.message = 'Initializing processor...';
-    job.updatedAt = new Date();
+    await store.update(jobId, {
+      status: 'processing' as ProcessingStatus,
+      progress: 0,
+      message: 'Initializing processor...'
+    });
 
     // Create processor
     const processor = new DataProcessor();
+    const relay = userOptions.stream === true ? createPartialOutputRelay(jobId) : null;
 
     // Build processing options
     const processingOptions: ProcessingOptions = {
@@ -232,7 +212,8 @@ async function processContent(
       tagOverrides: userOptions.tagOverrides || undefined,
       extractEntities: userOptions.extractEntities !== false,
       timeoutMs: userOptions.timeoutMs || 120000,
-      language: userOptions.language || 'en'
+      language: userOptions.language || 'en',
+      respectRobots: userOptions.respectRobots
     };
 
     // Build auth config
@@ -249,26 +230,60 @@ async function processContent(
       auth: authConfig
     };
 
-    // Update progress
-    job.progress = 20;
-    job.message = 'Processing content...';
-    job.updatedAt = new Date();
-
-    // Process the content
-    const result = await processor.processRequest(request);
-
-    // Update progress
-    job.progress = 90;
-    job.message = 'Finalizing...';
-    job.updatedAt = new Date();
+    // Process the content, relaying each stage transition to the store and WebSocket subscribers
+    const result = await processor.processRequest(request, {
+      onProgress: async (event) => {
+        await store.update(jobId, { progress: event.progress, message: event.message });
+        broadcastStageProgress(jobId, event);
+      },
+      onPartialOutput: relay ? markdown => relay.push(markdown) : undefined,
+      signal
+    });
+    relay?.cancel();
+
+    if (signal.aborted) {
+      // Keep the stages it got through; the job was already marked cancelled
+      await store.update(jobId, {
+        result,
+        status: 'cancelled' as ProcessingStatus,
+        message: 'Processing cancelled'
+      });
+      broadcastProgress(jobId, {
+        type: 'cancelled',
+        status: 'cancelled',
+        message: 'Processing cancelled'
+      });
+      logger.info(`Job cancelled: ${jobId}`, { duration: result.metadata.duration });
+      return;
+    }
 
     // Store result
-    job.result = result;
-    job.status = result.success ? ('completed' as ProcessingStatus) : ('failed' as ProcessingStatus);
-    job.progress = 100;
-    job.message = result.success ? 'Processing completed' : 'Processing failed';
-    job.error = result.error ? result.error.message : undefined;
-    job.updatedAt = new Date();
+    await store.update(jobId, {
+      result,
+      status: result.success ? ('completed' as ProcessingStatus) : ('failed' as ProcessingStatus),
+      progress: 100,
+      message: result.success ? 'Processing completed' : 'Processing failed',
+      error: result.error ? result.error.message : undefined
+    });
+
+    if (result.success && result.data) {
+      broadcastProgress(jobId, {
+        type: 'complete',
+        progress: 100,
+        status: 'completed',
+        message: 'Processing completed',
+        result: {
+          markdown: await new MarkdownFormatter().format(result.data),
+          metadata: result.metadata
+        }
+      });
+    } else {
+      broadcastProgress(jobId, {
+        type: 'error',
+        status: 'failed',
+        message: result.error?.message || 'Processing failed'
+      });
+    }
 
     logger.info(`Job completed: ${jobId}`, {
       success: result.success,
@@ -276,12 +291,40 @@ async function processContent(
     });
   } catch (error) {
     logger.error(`Job processing failed: ${jobId}`, error);
-    job.status = 'failed' as ProcessingStatus;
-    job.error = getErrorMessage(error);
-    job.progress = 0;
-    job.message = 'Processing failed';
-    job.updatedAt = new Date();
+    await store.update(jobId, {
+      status: 'failed' as ProcessingStatus,
+      error: getErrorMessage(error),
+      progress: 0,
+      message: 'Processing failed'
+    });
+    broadcastProgress(jobId, {
+      type: 'error',
+      status: 'failed',
+      message: getErrorMessage(error)
+    });
+  } finally {
+    releaseJob(jobId);
+  }
+}
+
+/**
+ * Mark single-URL jobs a previous server process left pending or processing
+ * as failed. They have no checkpoint to resume from and their request key
+ * was never stored. Returns the number of jobs marked.
+ */
+export async function failInterruptedJobs(): Promise<number> {
+  const store = getJobStore();
+  const interrupted = (await store.list({ kind: 'process', status: ['pending', 'processing'] as ProcessingStatus[] }))
+    .filter(job => !isJobRunning(job.id));
+
+  for (const job of interrupted) {
+    await store.update(job.id, {
+      status: 'failed' as ProcessingStatus,
+      error: 'Interrupted by a server restart',
+      message: 'Processing interrupted'
+    });
   }
+  return interrupted.length;
 }
 
 /**
@@ -290,7 +333,7 @@ async function processContent(
  */
 export async function handleStatusRequest(req: Request, jobId: string): Promise<Response> {
   try {
-    const job = jobs.get(jobId);
+    const job = await getJobStore().get(jobId);
 
     if (!job) {
       return new Response(
@@ -352,7 +395,7 @@ export async function handleStatusRequest(req: Request, jobId: string): Promise<
  */
 export async function handleDownloadRequest(req: Request, jobId: string): Promise<Response> {
   try {
-    const job = jobs.get(jobId);
+    const job = await getJobStore().get(jobId);
 
     if (!job) {
       return new Response(
@@ -439,6 +482,7 @@ export async function handleHealthRequest(req: Request): Promise<Response> {
   try {
     const memoryUsage = process.memoryUsage();
     const uptime = process.uptime();
+    const jobCounts = await getJobStore().countByStatus();
 
     const health = {
       status: 'healthy',
@@ -451,11 +495,12 @@ export async function handleHealthRequest(req: Request): Promise<Response> {
         rss: Math.round(memoryUsage.rss / 1024 / 1024)
       },
       jobs: {
-        total: jobs.size,
-        pending: Array.from(jobs.values()).filter((j) => j.status === 'pending').length,
-        processing: Array.from(jobs.values()).filter((j) => j.status === 'processing').length,
-        completed: Array.from(jobs.values()).filter((j) => j.status === 'completed').length,
-        failed: Array.from(jobs.values()).filter((j) => j.status === 'failed').length
+        total: await getJobStore().count(),
+        pending: jobCounts.pending ?? 0,
+        processing: jobCounts.processing ?? 0,
+        completed: jobCounts.completed ?? 0,
+        failed: jobCounts.failed ?? 0,
+        cancelled: jobCounts.cancelled ?? 0
       }
     };
 
@@ -6,6 +6,8 @@
  */
 
 import { createLogger } from '../../core/logging/index.js';
+import { cancelJob } from '../../core/jobs/cancellation.js';
+import type { ProgressEvent } from '../../core/types/index.js';
 import type { ServerWebSocket } from 'bun';
 
 const logger = createLogger('websocket');
@@ -23,12 +25,14 @@ interface WSConnectionData {
 
 /** Progress update message */
 interface ProgressUpdate {
-  type: 'progress' | 'status' | 'error' | 'complete';
+  type: 'progress' | 'status' | 'error' | 'complete' | 'partial' | 'cancelled';
   jobId: string;
   progress?: number;
   status?: string;
   message?: string;
   data?: any;
+  /** Final output (type === 'complete') */
+  result?: any;
   timestamp: string;
 }
 
@@ -130,6 +134,11 @@ export function handleWebSocketMessage(
         }
         break;
 
+      case 'cancel':
+        // Cancel the subscribed job, or the one named in the message
+        handleCancelMessage(ws, data.jobId || ws.data.jobId);
+        break;
+
       default:
         logger.warn('Unknown WebSocket message type', { type: data.type });
     }
@@ -148,6 +157,42 @@ export function handleWebSocketMessage(
   }
 }
 
+/**
+ * Cancel a job for a client and report the outcome to that client; the
+ * job's own 'cancelled' frame follows once its processing has stopped
+ */
+function handleCancelMessage(ws: ServerWebSocket<WSConnectionData>, jobId: string | undefined): void {
+  if (!jobId) {
+    sendProgressUpdate(ws, {
+      type: 'error',
+      jobId: 'unknown',
+      message: 'No job to cancel',
+      timestamp: new Date().toISOString()
+    });
+    return;
+  }
+
+  cancelJob(jobId)
+    .then(({ job, cancelled }) => {
+      sendProgressUpdate(ws, {
+        type: job ? 'status' : 'error',
+        jobId,
+        status: job?.status,
+        message: !job ? 'Job not found' : cancelled ? 'Cancellation requested' : `Job already ${job.status}`,
+        timestamp: new Date().toISOString()
+      });
+    })
+    .catch(error => {
+      logger.error('WebSocket cancel failed', error, { jobId });
+      sendProgressUpdate(ws, {
+        type: 'error',
+        jobId,
+        message: 'Failed to cancel job',
+        timestamp: new Date().toISOString()
+      });
+    });
+}
+
 /**
  * Handle WebSocket connection close
  */
@@ -238,6 +283,68 @@ export function broadcastProgress(jobId: string, update: Omit<ProgressUpdate, 'j
   }
 }
 
+/**
+ * Relay a processor stage transition to all connections for a job
+ */
+export function broadcastStageProgress(jobId: string, event: ProgressEvent): void {
+  broadcastProgress(jobId, {
+    type: 'progress',
+    progress: event.progress,
+    status: event.stageStatus,
+    message: event.message,
+    data: {
+      stage: event.stage,
+      stageStatus: event.stageStatus,
+      stageIndex: event.stageIndex,
+      totalStages: event.totalStages,
+      stageDuration: event.stageDuration,
+      timeElapsed: event.timeElapsed,
+      estimatedTimeRemaining: event.estimatedTimeRemaining,
+      stages: event.stages.map(stage => ({
+        name: stage.name,
+        status: stage.status,
+        duration: stage.duration
+      }))
+    }
+  });
+}
+
+/**
+ * Relay streamed note previews for a job as 'partial' frames, at most one
+ * per `intervalMs`. Each frame carries the whole preview so far, so frames
+ * skipped by the throttle lose nothing.
+ */
+export function createPartialOutputRelay(
+  jobId: string,
+  intervalMs = 100
+): { push(markdown: string): void; cancel(): void } {
+  let pending: string | null = null;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  const send = () => {
+    timer = null;
+    if (pending !== null) {
+      broadcastProgress(jobId, { type: 'partial', data: { markdown: pending } });
+      pending = null;
+    }
+  };
+
+  return {
+    push(markdown: string) {
+      pending = markdown;
+      timer ??= setTimeout(send, intervalMs);
+    },
+    // Call before the final 'complete' frame so no preview arrives after it
+    cancel() {
+      if (timer) {
+        clearTimeout(timer);
+      }
+      timer = null;
+      pending = null;
+    }
+  };
+}
+
 /**
  * Broadcast to all connections (global announcements)
  */
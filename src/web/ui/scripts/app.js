@@ -271,6 +271,8 @@ async function processContent(url, apiKey, contentType) {
         apiKey,
         options: {
           contentType,
+          // Ask for 'partial' frames so the note renders while it is written
+          stream: true,
         },
       }),
     });
@@ -281,6 +283,15 @@ async function processContent(url, apiKey, contentType) {
     }
 
     const result = await response.json();
+
+    // Playlists and channels start a batch; follow it and show its index note
+    if (result.batchId) {
+      state.currentJobId = null;
+      updateProgress(5, `Processing ${result.totalUrls} videos...`);
+      pollBatchStatus(result.batchId);
+      return;
+    }
+
     state.currentJobId = result.jobId;
 
     console.log("Processing started:", result);
@@ -361,15 +372,53 @@ function handleWebSocketMessage(data) {
   console.log("WebSocket message:", data);
 
   if (data.type === "progress") {
-    updateProgress(data.progress || 0, data.message || "Processing...");
+    updateProgress(data.progress || 0, formatStageMessage(data));
+  } else if (data.type === "partial") {
+    displayPartialResult(data.data && data.data.markdown);
   } else if (data.type === "complete") {
     handleProcessingComplete(data.result);
   } else if (data.type === "error") {
     showError(data.message || "Processing failed");
     setProcessingState(false);
+  } else if (data.type === "cancelled") {
+    showError(data.message || "Processing cancelled");
+    setProcessingState(false);
   }
 }
 
+/**
+ * Build a progress line from a stage event, e.g.
+ * "Analyzing content with AI... [3/5 ai processing] · 4s elapsed · ~9s left"
+ */
+function formatStageMessage(data) {
+  const message = data.message || "Processing...";
+  const stage = data.data;
+
+  if (!stage || !stage.stage) {
+    return message;
+  }
+
+  const parts = [
+    `${message} [${Math.min(stage.stageIndex + 1, stage.totalStages)}/${stage.totalStages} ${stage.stage.replace(/_/g, " ")}]`,
+  ];
+
+  if (stage.timeElapsed) {
+    parts.push(`${formatSeconds(stage.timeElapsed)} elapsed`);
+  }
+  if (stage.estimatedTimeRemaining) {
+    parts.push(`~${formatSeconds(stage.estimatedTimeRemaining)} left`);
+  }
+
+  return parts.join(" · ");
+}
+
+function formatSeconds(ms) {
+  const seconds = Math.max(1, Math.round(ms / 1000));
+  return seconds >= 60
+    ? `${Math.floor(seconds / 60)}m ${seconds % 60}s`
+    : `${seconds}s`;
+}
+
 // ============================================================================
 // STATUS POLLING
 // ============================================================================
@@ -408,10 +457,10 @@ function pollJobStatus(jobId, interval = 2000) {
           markdown,
           metadata: status.metadata,
         });
-      } else if (status.status === "failed") {
+      } else if (status.status === "failed" || status.status === "cancelled") {
         clearInterval(state.pollInterval);
         state.pollInterval = null;
-        showError(status.error || "Processing failed");
+        showError(status.error || status.message || "Processing failed");
         setProcessingState(false);
       }
     } catch (error) {
@@ -424,6 +473,47 @@ function pollJobStatus(jobId, interval = 2000) {
   }, interval);
 }
 
+function pollBatchStatus(batchId, interval = 2000) {
+  if (state.pollInterval) {
+    clearInterval(state.pollInterval);
+  }
+
+  state.pollInterval = setInterval(async () => {
+    try {
+      const response = await fetch(`/api/batch/${batchId}/status`);
+
+      if (!response.ok) {
+        throw new Error("Status check failed");
+      }
+
+      const status = await response.json();
+      updateProgress(status.progress || 0, status.message || "Processing...");
+
+      if (status.status === "completed" || status.status === "failed" || status.status === "cancelled") {
+        clearInterval(state.pollInterval);
+        state.pollInterval = null;
+
+        const resultsResponse = await fetch(`/api/batch/${batchId}/results?format=markdown`);
+        const results = await resultsResponse.json();
+        const indexNote = results.indexNotes && results.indexNotes[0];
+
+        if (status.status === "completed" && indexNote) {
+          handleProcessingComplete({ markdown: indexNote.content, filename: indexNote.filename });
+        } else {
+          showError(status.error || status.message || "Processing failed");
+          setProcessingState(false);
+        }
+      }
+    } catch (error) {
+      console.error("Batch polling error:", error);
+      clearInterval(state.pollInterval);
+      state.pollInterval = null;
+      showError("Failed to check processing status");
+      setProcessingState(false);
+    }
+  }, interval);
+}
+
 // ============================================================================
 // RESULT HANDLING
 // ============================================================================
@@ -478,6 +568,20 @@ function displayResult(result) {
   showOutput();
 }
 
+/**
+ * Render the note body streamed so far; the final note, with its
+ * frontmatter, replaces it when processing completes
+ */
+function displayPartialResult(markdown) {
+  if (!markdown) {
+    return;
+  }
+
+  elements.frontmatterSection.style.display = "none";
+  renderMarkdown(markdown);
+  showOutput();
+}
+
 function renderMarkdown(markdown) {
   // Use marked.js if available, otherwise basic rendering
   if (typeof marked !== "undefined") {
@@ -542,6 +646,12 @@ function escapeHtml(text) {
 // ============================================================================
 
 async function handleDownload() {
+  // A batch's index note is generated on the server but downloaded from memory
+  if (!state.currentJobId && state.outputContent && state.outputContent.filename) {
+    saveFile(new Blob([state.outputContent.markdown], { type: "text/markdown" }), state.outputContent.filename);
+    return;
+  }
+
   if (!state.currentJobId) {
     showError("No content available to download");
     return;
@@ -566,23 +676,26 @@ async function handleDownload() {
     }
 
     // Download the file
-    const blob = await response.blob();
-    const url = window.URL.createObjectURL(blob);
-    const a = document.createElement("a");
-    a.href = url;
-    a.download = filename;
-    document.body.appendChild(a);
-    a.click();
-    window.URL.revokeObjectURL(url);
-    document.body.removeChild(a);
-
-    console.log("Download started:", filename);
+    saveFile(await response.blob(), filename);
   } catch (error) {
     console.error("Download error:", error);
     showError("Failed to download: " + error.message);
   }
 }
 
+function saveFile(blob, filename) {
+  const url = window.URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  window.URL.revokeObjectURL(url);
+  document.body.removeChild(a);
+
+  console.log("Download started:", filename);
+}
+
 // ============================================================================
 // UI STATE MANAGEMENT
 // ============================================================================
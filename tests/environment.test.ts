@@ -3,13 +3,20 @@
  * Tests for environment validation and configuration
  */
 
-import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach, afterAll } from 'vitest';
 import { validateEnvironment } from '../scripts/env-validator';
 
 // Test options: skip file check since we're setting env vars directly, quiet to reduce noise
 const testOptions = { skipFileCheck: true, quiet: true };
 
 describe('Environment Configuration', () => {
+  // Later test files build their config from NODE_ENV
+  const originalNodeEnv = process.env.NODE_ENV;
+
+  afterAll(() => {
+    process.env.NODE_ENV = originalNodeEnv;
+  });
+
   beforeEach(() => {
     // Clear environment before each test
     delete process.env.NODE_ENV;
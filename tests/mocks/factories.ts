@@ -15,6 +15,7 @@ import type {
   GeminiError,
   GeminiConfig,
 } from '../../src/core/ai/gemini-client.js';
+import { AnalysisMode, OutputFormat } from '../../src/core/types/index.js';
 import type {
   ContentType,
   ProcessingStatus,
@@ -25,6 +26,7 @@ import type {
   ProcessingMetadata,
   ProcessingError,
   ErrorCategory,
+  ProcessingRequest,
 } from '../../src/core/types/index.js';
 import type { CacheEntry } from '../../src/core/cache/cache.js';
 import type { RateLimitResult } from '../../src/core/rate-limit/rate-limiter.js';
@@ -757,6 +759,111 @@ export class ProcessingMockFactory {
   }
 }
 
+// ============================================================================
+// PDF DOCUMENT MOCK FACTORY
+// ============================================================================
+
+/**
+ * Factory for building minimal, parseable PDF documents
+ */
+export class PdfMockFactory {
+  /**
+   * Build a PDF with one page per entry in `pages` (each page a list of text lines)
+   */
+  static create(pages: string[][], info: Record<string, string> = {}): Uint8Array {
+    const objects: string[] = [];
+    const pageIds: number[] = [];
+
+    // 1: catalog, 2: pages, 3: font, 4: info; page and content objects follow
+    objects[3] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>';
+    objects[4] = `<< ${Object.entries(info).map(([key, value]) => `/${key} (${value})`).join(' ')} >>`;
+
+    let next = 5;
+    for (const lines of pages) {
+      const stream = lines.length > 0
+        ? `BT /F1 12 Tf 72 720 Td 14 TL ${lines.map(line => `(${line}) Tj T*`).join(' ')} ET`
+        : '';
+      const pageId = next++;
+      const contentId = next++;
+      objects[pageId] = `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 612 792] /Resources << /Font << /F1 3 0 R >> >> /Contents ${contentId} 0 R >>`;
+      objects[contentId] = `<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`;
+      pageIds.push(pageId);
+    }
+
+    objects[1] = '<< /Type /Catalog /Pages 2 0 R >>';
+    objects[2] = `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`;
+
+    let pdf = '%PDF-1.4\n';
+    const offsets: number[] = [];
+    for (let id = 1; id < objects.length; id++) {
+      offsets[id] = pdf.length;
+      pdf += `${id} 0 obj\n${objects[id]}\nendobj\n`;
+    }
+
+    const xref = pdf.length;
+    pdf += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+    for (let id = 1; id < objects.length; id++) {
+      pdf += `${String(offsets[id]).padStart(10, '0')} 00000 n \n`;
+    }
+    pdf += `trailer\n<< /Size ${objects.length} /Root 1 0 R /Info 4 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+
+    return new TextEncoder().encode(pdf);
+  }
+}
+
+// ============================================================================
+// ARTICLE PAGE MOCK FACTORY
+// ============================================================================
+
+/**
+ * Factory for web article pages and the requests that process them
+ */
+export class ArticleMockFactory {
+  static readonly URL = 'https://example.com/articles/spacing';
+
+  /**
+   * Build an article long enough to survive extraction
+   */
+  static createHtml(topic: string): string {
+    const paragraph = `<p>${topic} schedules reviews at growing intervals, so each one lands just before you would forget.</p>`;
+    return `<!doctype html><html><head><title>${topic}</title></head><body><article><h1>${topic}</h1>${paragraph.repeat(8)}</article></body></html>`;
+  }
+
+  /**
+   * Build a request for the article at `ArticleMockFactory.URL`
+   */
+  static createRequest(analysisMode: AnalysisMode = AnalysisMode.STANDARD): ProcessingRequest {
+    return {
+      input: ArticleMockFactory.URL,
+      options: {
+        analysisMode,
+        includeTimestamps: false,
+        includeTranscript: false,
+        outputFormat: OutputFormat.MARKDOWN,
+        extractEntities: true
+      },
+      auth: { apiKey: 'AIzaSyA1234567890abcdefghijklmnopqrstu', encrypted: false, source: 'user' }
+    };
+  }
+}
+
+// ============================================================================
+// ASYNC HELPERS
+// ============================================================================
+
+/**
+ * Resolve once `predicate` holds, polling every few milliseconds
+ */
+export async function waitFor(predicate: () => Promise<boolean> | boolean, timeoutMs = 2000): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (!(await predicate())) {
+    if (Date.now() > deadline) {
+      throw new Error('Timed out waiting for condition');
+    }
+    await Bun.sleep(5);
+  }
+}
+
 // ============================================================================
 // EXPORTS
 // ============================================================================
@@ -767,4 +874,6 @@ export const MockFactories = {
   FileSystem: FileSystemMockFactory,
   Database: DatabaseMockFactory,
   Processing: ProcessingMockFactory,
+  Pdf: PdfMockFactory,
+  Article: ArticleMockFactory,
 };
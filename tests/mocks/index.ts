@@ -16,6 +16,7 @@ export {
   FileSystemMockFactory,
   DatabaseMockFactory,
   ProcessingMockFactory,
+  PdfMockFactory,
   MockFactories,
 } from './factories.js';
 
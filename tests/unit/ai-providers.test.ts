@@ -0,0 +1,210 @@
+import { describe, it, expect, spyOn, afterEach } from 'bun:test';
+import {
+  createAIProvider,
+  MockProvider,
+  OpenAICompatibleProvider
+} from '../../src/core/ai/providers';
+import { GeminiClient } from '../../src/core/ai/gemini-client';
+import { buildConfig, validateConfig } from '../../src/core/config';
+import { AIProcessingError, ConfigError } from '../../src/core/errors';
+import { ContentFetcher, DataProcessor } from '../../src/core/processor';
+import { ApiKeyValidator } from '../../src/core/validators';
+import { AnalysisMode, ContentType, OutputFormat, type ProcessingRequest } from '../../src/core/types';
+
+/** Fetch stub that records requests and answers with `respond` */
+function stubFetch(respond: (url: string, init?: RequestInit) => Response) {
+  const calls: Array<{ url: string; init?: RequestInit }> = [];
+  const fetchImpl = (async (input: string | URL | Request, init?: RequestInit) => {
+    calls.push({ url: String(input), init });
+    return respond(String(input), init);
+  }) as typeof fetch;
+  return { calls, fetchImpl };
+}
+
+describe('AI providers', () => {
+  describe('MockProvider', () => {
+    it('should answer from the first matching fixture', async () => {
+      const provider = new MockProvider({
+        fixtures: [
+          { match: /part \d of/, response: 'chunk' },
+          { match: 'CONTENT:', response: 'whole' }
+        ]
+      });
+
+      expect((await provider.generate({ prompt: 'part 1 of 2 ... CONTENT:' })).text).toBe('chunk');
+      expect((await provider.generate({ prompt: 'CONTENT: body' })).text).toBe('whole');
+      expect(provider.requests.map(r => r.prompt)).toEqual(['part 1 of 2 ... CONTENT:', 'CONTENT: body']);
+    });
+
+    it('should return the same default analysis for the same prompt', async () => {
+      const provider = new MockProvider();
+      const first = await provider.generate({ prompt: 'Analyze this' });
+      const second = await provider.generate({ prompt: 'Analyze this' });
+
+      expect(first.text).toBe(second.text);
+      expect(JSON.parse(first.text).keyPoints).toHaveLength(3);
+      expect(first.usage.totalTokens).toBe(first.usage.promptTokens + first.usage.completionTokens);
+    });
+
+    it('should stream fragments that join back to the response', async () => {
+      const provider = new MockProvider({ defaultResponse: 'one two  three' });
+      const fragments: string[] = [];
+      for await (const fragment of provider.stream({ prompt: 'x' })) {
+        fragments.push(fragment);
+      }
+      expect(fragments).toEqual(['one ', 'two  ', 'three']);
+    });
+  });
+
+  describe('OpenAICompatibleProvider', () => {
+    it('should post chat completions and report usage', async () => {
+      const { calls, fetchImpl } = stubFetch(() => Response.json({
+        model: 'llama3:8b',
+        choices: [{ message: { content: 'Hello' } }],
+        usage: { prompt_tokens: 12, completion_tokens: 3, total_tokens: 15 }
+      }));
+      const provider = new OpenAICompatibleProvider({
+        baseUrl: 'http://localhost:8080/v1/',
+        model: 'llama3',
+        apiKey: 'local-key',
+        fetch: fetchImpl
+      });
+
+      const response = await provider.generate({ prompt: 'Hi', systemInstruction: 'Be brief', maxOutputTokens: 64 });
+
+      expect(response.text).toBe('Hello');
+      expect(response.usage).toEqual({ promptTokens: 12, completionTokens: 3, totalTokens: 15 });
+      expect(response.model).toBe('llama3:8b');
+      expect(calls[0].url).toBe('http://localhost:8080/v1/chat/completions');
+      expect((calls[0].init?.headers as Record<string, string>).Authorization).toBe('Bearer local-key');
+      expect(JSON.parse(String(calls[0].init?.body))).toMatchObject({
+        model: 'llama3',
+        max_tokens: 64,
+        stream: false,
+        messages: [{ role: 'system', content: 'Be brief' }, { role: 'user', content: 'Hi' }]
+      });
+    });
+
+    it('should parse streamed server-sent events', async () => {
+      const events = [
+        'data: {"choices":[{"delta":{"content":"Hel"}}]}\n\n',
+        'data: {"choices":[{"delta":{"content":"lo"}}]}\n\ndata: [DONE]\n\n'
+      ];
+      const { fetchImpl } = stubFetch(() => new Response(new ReadableStream({
+        start(controller) {
+          events.forEach(event => controller.enqueue(new TextEncoder().encode(event)));
+          controller.close();
+        }
+      })));
+      const provider = new OpenAICompatibleProvider({ model: 'llama3', fetch: fetchImpl });
+
+      let text = '';
+      for await (const fragment of provider.stream({ prompt: 'Hi' })) {
+        text += fragment;
+      }
+      expect(text).toBe('Hello');
+    });
+
+    it('should raise AI errors for failed requests', async () => {
+      const { fetchImpl } = stubFetch(() => new Response('model not loaded', { status: 503 }));
+      const provider = new OpenAICompatibleProvider({ model: 'llama3', fetch: fetchImpl });
+
+      const error = await provider.generate({ prompt: 'Hi' }).catch(e => e);
+
+      expect(error).toBeInstanceOf(AIProcessingError);
+      expect(error.code).toBe('AI_PROVIDER_ERROR');
+      expect(error.apiErrorCode).toBe('HTTP_503');
+      expect(error.recoverable).toBe(true);
+      expect(await provider.healthCheck()).toBe(false);
+    });
+  });
+
+  describe('createAIProvider', () => {
+    it('should build the configured provider', () => {
+      expect(createAIProvider({ provider: 'gemini', apiKey: 'AIzaSyA1234567890abcdefghijklmnopqrstu' })).toBeInstanceOf(GeminiClient);
+      expect(createAIProvider({ provider: 'openai-compatible', model: 'llama3' })).toBeInstanceOf(OpenAICompatibleProvider);
+      expect(createAIProvider({ provider: 'mock' }).name).toBe('mock');
+    });
+
+    it('should reject incomplete or unknown settings', () => {
+      expect(() => createAIProvider({ provider: 'openai-compatible' })).toThrow(ConfigError);
+      expect(() => createAIProvider({ provider: 'bogus' as any })).toThrow(ConfigError);
+    });
+
+    it('should validate the provider in the application config', () => {
+      const config = buildConfig('test');
+      expect(config.ai.provider).toBe('gemini');
+      expect(validateConfig({ ...config, ai: { ...config.ai, provider: 'bogus' as any } }).errors)
+        .toContain('Invalid AI provider: bogus');
+    });
+  });
+
+  describe('DataProcessor with non-Gemini providers', () => {
+    const spies: Array<{ mockRestore(): void }> = [];
+
+    afterEach(() => {
+      spies.splice(0).forEach(spy => spy.mockRestore());
+    });
+
+    it('should run the whole pipeline offline', async () => {
+      const testKey = spyOn(ApiKeyValidator, 'testGeminiKey');
+      spies.push(
+        testKey,
+        spyOn(ContentFetcher.prototype, 'fetchContent').mockResolvedValue({
+          content: 'Spaced repetition schedules reviews at growing intervals. '.repeat(10),
+          type: ContentType.ARTICLE,
+          metadata: { title: 'Spaced Repetition' }
+        })
+      );
+      const request: ProcessingRequest = {
+        input: 'https://example.com/article/spacing',
+        options: {
+          analysisMode: AnalysisMode.STANDARD,
+          includeTimestamps: false,
+          includeTranscript: false,
+          outputFormat: OutputFormat.MARKDOWN,
+          extractEntities: true
+        },
+        auth: { apiKey: 'AIzaSyA1234567890abcdefghijklmnopqrstu', encrypted: false, source: 'user' }
+      };
+
+      const result = await new DataProcessor({ provider: { provider: 'mock' } }).processRequest(request);
+
+      expect(result.success).toBe(true);
+      expect(result.data?.content.summary).toStartWith('Offline mock analysis');
+      expect(result.metadata.tokensUsed).toBeGreaterThan(0);
+      expect(testKey).not.toHaveBeenCalled();
+    });
+
+    it('should call other providers with the key sent with the request', async () => {
+      const { calls, fetchImpl } = stubFetch(() => Response.json({ choices: [{ message: { content: 'Hello' } }] }));
+      spies.push(
+        spyOn(globalThis, 'fetch').mockImplementation(fetchImpl),
+        spyOn(ContentFetcher.prototype, 'fetchContent').mockResolvedValue({
+          content: 'Spaced repetition schedules reviews at growing intervals. '.repeat(10),
+          type: ContentType.ARTICLE,
+          metadata: { title: 'Spaced Repetition' }
+        })
+      );
+      const processor = new DataProcessor({
+        provider: { provider: 'openai-compatible', model: 'llama3', apiKey: 'server-key' }
+      });
+
+      await processor.processRequest({
+        input: 'https://example.com/article/spacing',
+        options: {
+          analysisMode: AnalysisMode.STANDARD,
+          includeTimestamps: false,
+          includeTranscript: false,
+          outputFormat: OutputFormat.MARKDOWN,
+          extractEntities: false
+        },
+        auth: { apiKey: 'sk-request-key-1234567890', encrypted: false, source: 'user' }
+      });
+
+      expect(calls.length).toBeGreaterThan(0);
+      const authorization = calls.map(call => (call.init?.headers as Record<string, string>).Authorization);
+      expect(new Set(authorization)).toEqual(new Set(['Bearer sk-request-key-1234567890']));
+    });
+  });
+});
@@ -0,0 +1,173 @@
+import { describe, it, expect, spyOn, beforeEach, afterEach } from 'bun:test';
+import { DataProcessor } from '../../src/core/processor';
+import { SqliteJobStore, setJobStore } from '../../src/core/jobs/job-store';
+import { isJobRunning } from '../../src/core/jobs/cancellation';
+import { SafeFetcher, setSafeFetcher } from '../../src/core/network';
+import { handleEnhancedApiRequest, resumeInterruptedBatches } from '../../src/web/server/routes-enhanced';
+import { failInterruptedJobs } from '../../src/web/server/routes';
+import { ProcessingStatus } from '../../src/core/types';
+import { ApiKeyValidator } from '../../src/core/validators';
+import { ProcessingMockFactory, waitFor } from '../mocks/factories';
+
+const API_KEY = 'AIzaSyA1234567890abcdefghijklmnopqrstu';
+
+const urls = ['one', 'two', 'three'].map(slug => `https://example.com/article/${slug}`);
+
+function retry(batchId: string, body: Record<string, unknown> = { apiKey: API_KEY }) {
+  return handleEnhancedApiRequest(new Request(`http://localhost/api/batch/${batchId}/retry`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body)
+  }));
+}
+
+describe('Batch retry and resume', () => {
+  let store: SqliteJobStore;
+  let processRequest: ReturnType<typeof spyOn<DataProcessor, 'processRequest'>>;
+  let testKey: ReturnType<typeof spyOn<typeof ApiKeyValidator, 'testGeminiKey'>>;
+  /** URLs handed to the real pipeline, whose fetches the robots.txt below decides */
+  let fetched: Set<string>;
+  /** URLs whose site is down for now */
+  let down: Set<string>;
+
+  beforeEach(() => {
+    store = new SqliteJobStore({ cleanupInterval: 0 });
+    setJobStore(store);
+    fetched = new Set();
+    down = new Set();
+    setSafeFetcher(new SafeFetcher({ respectRobots: true }, {
+      lookup: async () => ['93.184.216.34'],
+      transport: async url => url.pathname === '/robots.txt'
+        ? new Response('User-agent: *\nDisallow: /article/three\n')
+        : new Response('Not Found', { status: 404 })
+    }));
+    testKey = spyOn(ApiKeyValidator, 'testGeminiKey').mockResolvedValue({ valid: true });
+    const pipeline = DataProcessor.prototype.processRequest;
+    processRequest = spyOn(DataProcessor.prototype, 'processRequest').mockImplementation(async function (this: DataProcessor, request) {
+      const url = request.input as string;
+      if (fetched.has(url)) {
+        return pipeline.call(this, request);
+      }
+      return down.has(url)
+        ? ProcessingMockFactory.createFailure({ recoverable: true, code: 'CONTENT_FETCH_FAILED' })
+        : ProcessingMockFactory.createSuccess();
+    });
+  });
+
+  afterEach(() => {
+    processRequest.mockRestore();
+    testKey.mockRestore();
+    setSafeFetcher(null);
+    setJobStore(null);
+    store.close();
+  });
+
+  const processedUrls = () => processRequest.mock.calls.map(([request]) => request.input);
+
+  async function runBatch(): Promise<string> {
+    const created = await handleEnhancedApiRequest(new Request('http://localhost/api/batch', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ urls, apiKey: API_KEY, options: { maxConcurrent: 2 } })
+    }));
+    const { batchId } = await created!.json() as { batchId: string };
+    await waitFor(async () => (await store.get(batchId))?.status !== 'pending' && !isJobRunning(batchId));
+    return batchId;
+  }
+
+  it('should re-run only failures worth retrying', async () => {
+    down.add(urls[1]);
+    fetched.add(urls[2]);
+    const batchId = await runBatch();
+    expect(await store.get(batchId)).toMatchObject({ status: ProcessingStatus.COMPLETED, completedUrls: 1, failedUrls: 2 });
+
+    const results = await handleEnhancedApiRequest(new Request(`http://localhost/api/batch/${batchId}/results`));
+    const body = await results!.json() as { results: Record<string, { retryable?: boolean }> };
+    expect([body.results[urls[1]].retryable, body.results[urls[2]].retryable]).toEqual([true, false]);
+
+    down.delete(urls[1]);
+    const response = await retry(batchId);
+    expect(response?.status).toBe(200);
+    expect(await response?.json()).toMatchObject({
+      retrying: [urls[1]],
+      skipped: [{ url: urls[2], code: 'ROBOTS_DISALLOWED' }]
+    });
+    await waitFor(() => !isJobRunning(batchId));
+
+    expect(await store.get(batchId)).toMatchObject({ status: ProcessingStatus.COMPLETED, completedUrls: 2, failedUrls: 1, progress: 100 });
+    expect((await store.get(`${batchId}_1`))?.metadata).toEqual({ attempts: 2 });
+    expect(processedUrls()).toEqual([...urls, urls[1]]);
+  });
+
+  it('should refuse retries that cannot run', async () => {
+    const batchId = await runBatch();
+
+    expect((await retry(batchId, {}))?.status).toBe(400);
+    const nothing = await retry(batchId);
+    expect(nothing?.status).toBe(409);
+    expect(await nothing?.json()).toMatchObject({ code: 'NOTHING_TO_RETRY' });
+    expect((await retry('batch_missing'))?.status).toBe(404);
+  });
+
+  describe('after a restart', () => {
+    /** A batch whose first URL finished and whose second was running when the process stopped */
+    async function interruptedBatch(): Promise<string> {
+      const batchId = 'batch_interrupted';
+      await store.create({
+        id: batchId,
+        kind: 'batch',
+        status: ProcessingStatus.PROCESSING,
+        totalUrls: urls.length,
+        completedUrls: 1,
+        failedUrls: 0,
+        progress: 33,
+        message: 'Processed 1/3 URLs',
+        metadata: { urls, options: { maxConcurrent: 1 } }
+      });
+      await store.create({
+        id: `${batchId}_0`, kind: 'batch_item', batchId, url: urls[0],
+        status: ProcessingStatus.COMPLETED, progress: 100, message: 'Completed', result: ProcessingMockFactory.createSuccess()
+      });
+      await store.create({
+        id: `${batchId}_1`, kind: 'batch_item', batchId, url: urls[1],
+        status: ProcessingStatus.PROCESSING, progress: 40, message: 'Analyzing content with AI...'
+      });
+      return batchId;
+    }
+
+    it('should resume from the checkpoint with a configured key', async () => {
+      const batchId = await interruptedBatch();
+
+      expect(await resumeInterruptedBatches(API_KEY)).toBe(1);
+      await waitFor(async () => (await store.get(batchId))?.status === 'completed');
+
+      expect(processedUrls()).toEqual([urls[1], urls[2]]);
+      expect(await store.get(batchId)).toMatchObject({ completedUrls: 3, failedUrls: 0 });
+      expect(await store.count({ batchId })).toBe(3);
+    });
+
+    it('should wait for a retry without a key', async () => {
+      const batchId = await interruptedBatch();
+
+      expect(await resumeInterruptedBatches()).toBe(1);
+      expect(await store.get(batchId)).toMatchObject({ status: ProcessingStatus.FAILED, error: 'Interrupted by a server restart' });
+      expect(processRequest).not.toHaveBeenCalled();
+
+      const response = await retry(batchId);
+      expect(await response?.json()).toMatchObject({ retrying: [urls[1], urls[2]], skipped: [] });
+      await waitFor(async () => (await store.get(batchId))?.status === 'completed');
+
+      expect(processedUrls()).toEqual([urls[1], urls[2]]);
+      expect((await store.get(batchId))?.error).toBeUndefined();
+    });
+
+    it('should fail single-URL jobs left pending or processing', async () => {
+      await store.create({ id: 'job_a', kind: 'process', url: urls[0], status: ProcessingStatus.PROCESSING, progress: 40, message: '' });
+      await store.create({ id: 'job_b', kind: 'process', url: urls[1], status: ProcessingStatus.COMPLETED, progress: 100, message: '' });
+
+      expect(await failInterruptedJobs()).toBe(1);
+      expect(await store.get('job_a')).toMatchObject({ status: ProcessingStatus.FAILED, error: 'Interrupted by a server restart' });
+      expect((await store.get('job_b'))?.status).toBe(ProcessingStatus.COMPLETED);
+    });
+  });
+});
@@ -0,0 +1,242 @@
+import { describe, it, expect, beforeEach, afterEach, spyOn } from 'bun:test';
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { HighPerformanceCache, cacheUtils, setSharedCache } from '../../src/core/cache/cache';
+import { purgeSource } from '../../src/core/cache/source-cache';
+import { buildConfig, resetConfig, setConfig } from '../../src/core/config';
+import { SafeFetcher, setSafeFetcher } from '../../src/core/network';
+import { DataProcessor } from '../../src/core/processor';
+import { AnalysisMode } from '../../src/core/types';
+import { ResponseCache } from '../../src/web/server/cache-middleware';
+import { ArticleMockFactory, waitFor } from '../mocks/factories';
+
+const ARTICLE_URL = ArticleMockFactory.URL;
+const NS = 'test';
+
+const article = ArticleMockFactory.createHtml;
+const requestFor = ArticleMockFactory.createRequest;
+
+describe('HighPerformanceCache', () => {
+  let cache: HighPerformanceCache;
+
+  beforeEach(() => {
+    cache = new HighPerformanceCache({ cleanupInterval: 60_000 });
+  });
+
+  afterEach(() => {
+    cache.close();
+  });
+
+  it('keeps entries in a file across instances', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'obsidianize-cache-'));
+    try {
+      const path = join(dir, 'nested', 'cache.sqlite');
+      const first = new HighPerformanceCache({ path, cleanupInterval: 60_000 });
+      await first.set(NS, 'note', { title: 'Spacing' });
+      first.close();
+
+      const second = new HighPerformanceCache({ path, cleanupInterval: 60_000 });
+      expect(await second.get<{ title: string }>(NS, 'note')).toEqual({ title: 'Spacing' });
+      second.close();
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('serves recent entries from the in-process tier and evicts the least recently used', async () => {
+    cache.close();
+    cache = new HighPerformanceCache({ hotEntries: 2, cleanupInterval: 60_000 });
+    await cache.set(NS, 'a', 1);
+    await cache.set(NS, 'b', 2);
+    await cache.get(NS, 'a');
+    await cache.set(NS, 'c', 3);
+
+    const before = cache.getStats().hotHits;
+    expect(await cache.get<number>(NS, 'a')).toBe(1);
+    expect(await cache.get<number>(NS, 'c')).toBe(3);
+    expect(cache.getStats().hotHits - before).toBe(2);
+
+    // 'b' fell out of the in-process tier but SQLite still has it
+    expect(await cache.get<number>(NS, 'b')).toBe(2);
+    expect(cache.getStats().hotHits - before).toBe(2);
+  });
+
+  it('hands out copies, not the cached object', async () => {
+    await cache.set(NS, 'note', { tags: ['memory'] });
+
+    const first = await cache.get<{ tags: string[] }>(NS, 'note');
+    first!.tags.push('changed');
+
+    expect(await cache.get<{ tags: string[] }>(NS, 'note')).toEqual({ tags: ['memory'] });
+  });
+
+  it('serves a stale entry while refreshing it once in the background', async () => {
+    let loads = 0;
+    const load = async () => `v${++loads}`;
+    const options = { ttl: 20, staleWhileRevalidate: 60_000 };
+
+    expect(await cache.remember(NS, 'page', load, options)).toBe('v1');
+    expect(await cache.remember(NS, 'page', load, options)).toBe('v1');
+    await Bun.sleep(40);
+
+    expect(await cache.get(NS, 'page')).toBeNull();
+    const [a, b] = await Promise.all([
+      cache.remember(NS, 'page', load, options),
+      cache.remember(NS, 'page', load, options)
+    ]);
+    expect([a, b]).toEqual(['v1', 'v1']);
+    await Bun.sleep(10);
+
+    expect(loads).toBe(2);
+    expect(await cache.remember(NS, 'page', load, options)).toBe('v2');
+  });
+
+  it('loads again once an entry is past its stale window', async () => {
+    let loads = 0;
+    const load = async () => `v${++loads}`;
+
+    await cache.remember(NS, 'page', load, { ttl: 10, staleWhileRevalidate: 10 });
+    await Bun.sleep(40);
+
+    expect(await cache.remember(NS, 'page', load, { ttl: 10 })).toBe('v2');
+  });
+
+  it('returns a loaded value even when caching it fails', async () => {
+    spyOn(cache, 'set').mockRejectedValue(new Error('database is locked'));
+
+    expect(await cache.remember(NS, 'page', async () => 'fresh')).toBe('fresh');
+  });
+
+  it('invalidates every entry carrying a tag, across namespaces', async () => {
+    const tag = cacheUtils.sourceTag(ARTICLE_URL);
+    await cache.set(NS, 'result', 'gem', { tags: [tag] });
+    await cache.set('other', 'content', 'page', { tags: [tag, 'other-tag'] });
+    await cache.set(NS, 'unrelated', 'kept');
+
+    expect(await cache.invalidateTag(tag)).toBe(2);
+    expect(await cache.get(NS, 'result')).toBeNull();
+    expect(await cache.get('other', 'content')).toBeNull();
+    expect(await cache.get<string>(NS, 'unrelated')).toBe('kept');
+    expect(await cache.invalidateTag('other-tag')).toBe(0);
+  });
+
+  it('keeps namespaces apart in stats and clearing', async () => {
+    await cache.set(NS, 'a', 'x');
+    await cache.set('other', 'b', 'y');
+
+    await cache.clear(NS);
+
+    expect(cache.namespaceStats(NS).entries).toBe(0);
+    expect(cache.namespaceStats('other').entries).toBe(1);
+    expect(await cache.get<string>('other', 'b')).toBe('y');
+  });
+});
+
+describe('ResponseCache', () => {
+  it('keeps responses in the shared cache with its own hit rate', async () => {
+    const shared = new HighPerformanceCache({ cleanupInterval: 60_000 });
+    const responses = new ResponseCache({ cache: shared });
+    const key = responses.generateKey(ARTICLE_URL);
+
+    expect(await responses.get(key)).toBeNull();
+    await responses.set(key, '{"ok":true}', 200, { 'content-type': 'application/json' });
+
+    expect((await responses.get(key))?.body).toBe('{"ok":true}');
+    expect(responses.getStats()).toMatchObject({ hits: 1, misses: 1, entries: 1 });
+    expect(await shared.get(cacheUtils.NAMESPACES.API_RESPONSE, key)).not.toBeNull();
+    shared.close();
+  });
+});
+
+describe('DataProcessor with the shared cache', () => {
+  let shared: HighPerformanceCache;
+  let downloads: number;
+
+  /** Settled before each download answers; tests replace it to hold downloads back */
+  let released: Promise<void>;
+
+  beforeEach(() => {
+    const config = buildConfig('test');
+    config.cache.enabled = true;
+    setConfig(config);
+    shared = new HighPerformanceCache({ cleanupInterval: 60_000 });
+    setSharedCache(shared);
+    downloads = 0;
+    released = Promise.resolve();
+    setSafeFetcher(new SafeFetcher({ respectRobots: false }, {
+      lookup: async () => ['93.184.216.34'],
+      transport: async () => {
+        downloads++;
+        await released;
+        return new Response(article('Spaced repetition'), { headers: { 'Content-Type': 'text/html' } });
+      }
+    }));
+  });
+
+  afterEach(() => {
+    setSafeFetcher(null);
+    setSharedCache(null);
+    shared.close();
+    resetConfig();
+  });
+
+  it('shares results between processors until the source is purged', async () => {
+    const process = () => new DataProcessor({ provider: { provider: 'mock' } }).processRequest(requestFor());
+
+    const first = await process();
+    const second = await process();
+
+    expect(first.success).toBe(true);
+    expect(first.metadata.cacheHit).toBe(false);
+    expect(second.metadata.cacheHit).toBe(true);
+    expect(second.data?.frontmatter.processed).toBeInstanceOf(Date);
+    expect(downloads).toBe(1);
+
+    expect(await purgeSource(ARTICLE_URL)).toBe(2);
+    const third = await process();
+
+    expect(third.metadata.cacheHit).toBe(false);
+    expect(downloads).toBe(2);
+  });
+
+  it('reuses fetched content for other options', async () => {
+    const processor = new DataProcessor({ provider: { provider: 'mock' } });
+
+    await processor.processRequest(requestFor());
+    const academic = await processor.processRequest({
+      ...requestFor(),
+      options: { ...requestFor().options, analysisMode: AnalysisMode.ACADEMIC }
+    });
+
+    expect(academic.metadata.cacheHit).toBe(false);
+    expect(downloads).toBe(1);
+    expect(processor.getCacheStats().entries).toBe(2);
+  });
+
+  it('keeps a shared download going when one of its callers is cancelled', async () => {
+    let release!: () => void;
+    released = new Promise(resolve => { release = resolve; });
+    const processor = new DataProcessor({ provider: { provider: 'mock' } });
+    const controller = new AbortController();
+
+    const cancelled = processor.processRequest(requestFor(), { signal: controller.signal });
+    const other = processor.processRequest(requestFor());
+    await waitFor(() => downloads === 1);
+    controller.abort();
+    release();
+
+    expect((await cancelled).error?.code).toBe('CANCELLED');
+    expect((await other).success).toBe(true);
+    expect(downloads).toBe(1);
+  });
+
+  it('keeps content fetched without robots checks apart', async () => {
+    const processor = new DataProcessor({ provider: { provider: 'mock' } });
+
+    await processor.processRequest({ ...requestFor(), options: { ...requestFor().options, respectRobots: false } });
+    await processor.processRequest(requestFor());
+
+    expect(downloads).toBe(2);
+  });
+});
@@ -0,0 +1,215 @@
+import { describe, it, expect, spyOn, beforeEach, afterEach } from 'bun:test';
+import { GeminiClient } from '../../src/core/ai/gemini-client';
+import { MockProvider } from '../../src/core/ai/providers';
+import { AIProcessor, ContentFetcher, DataProcessor, DEFAULT_CONFIG } from '../../src/core/processor';
+import { SqliteJobStore, setJobStore } from '../../src/core/jobs/job-store';
+import { cancelJob, isJobRunning, releaseJob, trackJob } from '../../src/core/jobs/cancellation';
+import { handleEnhancedApiRequest } from '../../src/web/server/routes-enhanced';
+import { buildConfig, resetConfig, setConfig } from '../../src/core/config';
+import {
+  AnalysisMode,
+  ContentType,
+  OutputFormat,
+  ProcessingStatus,
+  type ProcessingOptions,
+  type ProcessingRequest,
+  type ProcessingResult
+} from '../../src/core/types';
+import { ProcessingMockFactory, waitFor } from '../mocks/factories';
+
+const options: ProcessingOptions = {
+  analysisMode: AnalysisMode.STANDARD,
+  includeTimestamps: false,
+  includeTranscript: false,
+  outputFormat: OutputFormat.MARKDOWN,
+  extractEntities: true
+};
+
+const API_KEY = 'AIzaSyA1234567890abcdefghijklmnopqrstu';
+
+describe('Cancellation', () => {
+  const spies: Array<{ mockRestore(): void }> = [];
+
+  afterEach(() => {
+    spies.splice(0).forEach(spy => spy.mockRestore());
+  });
+
+  it('should make no model call once the signal has aborted', async () => {
+    const provider = new MockProvider();
+    const controller = new AbortController();
+    controller.abort();
+
+    const error = await new AIProcessor(provider, DEFAULT_CONFIG)
+      .processContent('Body text.', ContentType.ARTICLE, options, {}, {}, controller.signal)
+      .catch(e => e);
+
+    expect(error.code).toBe('CANCELLED');
+    expect(provider.requests).toHaveLength(0);
+  });
+
+  it('should stop Gemini retries while waiting to retry', async () => {
+    const client = new GeminiClient({ apiKey: API_KEY });
+    const generate = spyOn((client as any).model, 'generateContent')
+      .mockRejectedValue({ status: 503, message: 'Service unavailable' });
+    const controller = new AbortController();
+    setTimeout(() => controller.abort(), 20);
+
+    const started = Date.now();
+    const error = await client.generateContent({ prompt: 'Hi', signal: controller.signal }).catch(e => e);
+
+    expect(error.code).toBe('CANCELLED');
+    expect(Date.now() - started).toBeLessThan(900);
+    expect(generate).toHaveBeenCalledTimes(1);
+    expect(generate.mock.calls[0][1]).toEqual({ signal: controller.signal });
+  });
+
+  it('should end a request cancelled mid-pipeline with a cancelled stage', async () => {
+    spies.push(
+      spyOn(ContentFetcher.prototype, 'fetchContent').mockResolvedValue({
+        content: 'Spaced repetition schedules reviews at growing intervals. '.repeat(10),
+        type: ContentType.ARTICLE,
+        metadata: { title: 'Spaced Repetition' }
+      })
+    );
+    const request: ProcessingRequest = {
+      input: 'https://example.com/article/spacing',
+      options,
+      auth: { apiKey: API_KEY, encrypted: false, source: 'user' }
+    };
+    const controller = new AbortController();
+    const messages: string[] = [];
+
+    const result = await new DataProcessor({ provider: { provider: 'mock' } }).processRequest(request, {
+      signal: controller.signal,
+      onProgress: event => {
+        messages.push(event.message);
+        if (event.stage === 'ai_processing') {
+          controller.abort();
+        }
+      }
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.error?.code).toBe('CANCELLED');
+    const stages = result.metadata.stages;
+    expect(stages.map(s => [s.name, s.status])).toEqual([
+      ['validation', ProcessingStatus.COMPLETED],
+      ['content_fetch', ProcessingStatus.COMPLETED],
+      ['ai_processing', ProcessingStatus.CANCELLED],
+      ['ai_generation', ProcessingStatus.CANCELLED]
+    ]);
+    expect(messages).toContain('Cancelled during ai processing');
+  });
+
+  describe('of stored jobs', () => {
+    let store: SqliteJobStore;
+
+    beforeEach(() => {
+      store = new SqliteJobStore({ cleanupInterval: 0 });
+      setJobStore(store);
+    });
+
+    afterEach(() => {
+      setJobStore(null);
+      store.close();
+    });
+
+    it('should abort a running batch with its unfinished items', async () => {
+      await store.create({ id: 'batch_1', kind: 'batch', status: ProcessingStatus.PROCESSING, progress: 0, message: '' });
+      await store.create({ id: 'batch_1_0', kind: 'batch_item', batchId: 'batch_1', status: ProcessingStatus.COMPLETED, progress: 100, message: 'Completed' });
+      await store.create({ id: 'batch_1_1', kind: 'batch_item', batchId: 'batch_1', status: ProcessingStatus.PROCESSING, progress: 30, message: '' });
+      const batchSignal = trackJob('batch_1');
+      const itemSignal = trackJob('batch_1_1', batchSignal);
+
+      const { job, cancelled } = await cancelJob('batch_1');
+
+      expect(cancelled).toBe(true);
+      expect(job?.status).toBe(ProcessingStatus.CANCELLED);
+      expect(itemSignal.aborted).toBe(true);
+      expect((await store.get('batch_1_0'))?.status).toBe(ProcessingStatus.COMPLETED);
+      expect((await store.get('batch_1_1'))?.status).toBe(ProcessingStatus.CANCELLED);
+
+      expect((await cancelJob('batch_1')).cancelled).toBe(false);
+      expect(await cancelJob('missing')).toEqual({ job: null, cancelled: false });
+      releaseJob('batch_1');
+      releaseJob('batch_1_1');
+    });
+
+    it('should answer DELETE /api/jobs/:id by job state', async () => {
+      await store.create({ id: 'job_a', kind: 'process', status: ProcessingStatus.PENDING, progress: 0, message: '' });
+      await store.create({ id: 'job_b', kind: 'process', status: ProcessingStatus.COMPLETED, progress: 100, message: '' });
+      const remove = (id: string) => handleEnhancedApiRequest(new Request(`http://localhost/api/jobs/${id}`, { method: 'DELETE' }));
+
+      const cancelled = await remove('job_a');
+      expect(cancelled?.status).toBe(200);
+      expect(await cancelled?.json()).toMatchObject({ id: 'job_a', status: 'cancelled' });
+
+      const finished = await remove('job_b');
+      expect(finished?.status).toBe(409);
+      expect(await finished?.json()).toMatchObject({ code: 'JOB_NOT_ACTIVE', status: 'completed' });
+
+      expect((await remove('job_missing'))?.status).toBe(404);
+    });
+
+    it('should only list jobs for the admin token', async () => {
+      await store.create({ id: 'job_a', kind: 'process', status: ProcessingStatus.PENDING, progress: 0, message: '' });
+      const list = (headers: Record<string, string> = {}) =>
+        handleEnhancedApiRequest(new Request('http://localhost/api/jobs', { headers }));
+
+      expect((await list())?.status).toBe(403);
+
+      const config = buildConfig('test');
+      config.security.adminToken = 'operator-secret';
+      setConfig(config);
+      try {
+        expect((await list({ Authorization: 'Bearer wrong-secret' }))?.status).toBe(403);
+        const listed = await list({ Authorization: 'Bearer operator-secret' });
+        expect(listed?.status).toBe(200);
+        expect(await listed?.json()).toMatchObject({ total: 1, jobs: [{ id: 'job_a' }] });
+      } finally {
+        resetConfig();
+      }
+    });
+
+    it('should keep finished items when a batch is cancelled', async () => {
+      // The first URL succeeds; the second runs until it is cancelled
+      spies.push(
+        spyOn(DataProcessor.prototype, 'processRequest').mockImplementation(async (request, opts = {}) => {
+          if (request.input === 'https://example.com/article/one') {
+            return ProcessingMockFactory.createSuccess();
+          }
+          await waitFor(() => opts.signal?.aborted === true);
+          return ProcessingMockFactory.createFailure({ code: 'CANCELLED' }) as ProcessingResult;
+        })
+      );
+      const urls = ['one', 'two', 'three'].map(slug => `https://example.com/article/${slug}`);
+
+      const created = await handleEnhancedApiRequest(new Request('http://localhost/api/batch', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ urls, apiKey: API_KEY, options: { maxConcurrent: 1 } })
+      }));
+      const { batchId } = await created!.json() as { batchId: string };
+      await waitFor(() => isJobRunning(`${batchId}_1`));
+
+      const response = await handleEnhancedApiRequest(new Request(`http://localhost/api/batch/${batchId}`, { method: 'DELETE' }));
+      expect(response?.status).toBe(200);
+      await waitFor(() => !isJobRunning(batchId));
+
+      const batch = await store.get(batchId);
+      expect(batch).toMatchObject({ status: ProcessingStatus.CANCELLED, completedUrls: 1, failedUrls: 0 });
+      expect(batch?.message).toBe('Cancelled: 1 successful, 0 failed, 2 not processed');
+      expect((await store.list({ batchId, order: 'asc' })).map(item => [item.url, item.status])).toEqual([
+        [urls[0], ProcessingStatus.COMPLETED],
+        [urls[1], ProcessingStatus.CANCELLED],
+        [urls[2], ProcessingStatus.CANCELLED]
+      ]);
+
+      const results = await handleEnhancedApiRequest(new Request(`http://localhost/api/batch/${batchId}/results`));
+      const body = await results!.json() as { results: Record<string, { status: string }> };
+      expect(body.results[urls[0]].status).toBe('success');
+      expect(body.results[urls[1]].status).toBe('cancelled');
+      expect(body.results[urls[2]].status).toBe('cancelled');
+    });
+  });
+});
@@ -0,0 +1,161 @@
+import { describe, it, expect, spyOn, afterEach } from 'bun:test';
+import { chunkContent, estimateTokens } from '../../src/core/chunking';
+import { AIProcessor, ContentFetcher, DataProcessor, DEFAULT_CONFIG } from '../../src/core/processor';
+import { MockProvider } from '../../src/core/ai/providers';
+import { ApiKeyValidator, GeminiGemValidator } from '../../src/core/validators';
+import { AnalysisMode, ContentType, OutputFormat, type ProcessingOptions, type ProcessingRequest } from '../../src/core/types';
+
+const options: ProcessingOptions = {
+  analysisMode: AnalysisMode.STANDARD,
+  includeTimestamps: false,
+  includeTranscript: false,
+  outputFormat: OutputFormat.MARKDOWN,
+  extractEntities: true
+};
+
+/** A paragraph of roughly `tokens` estimated tokens */
+function paragraph(label: string, tokens: number): string {
+  return `${label} ${'word '.repeat(Math.floor(tokens * 3 / 4))}`.trim() + '.';
+}
+
+/** Model reply for a chunk or merge prompt; valid for both schemas */
+function reply(label: string, entities: Array<{ text: string; type: string; confidence: number }> = []): string {
+  return JSON.stringify({
+    summary: `Summary of ${label}, long enough to pass as a gem summary.`,
+    keyPoints: [`Point from ${label}`],
+    analysis: `Analysis of ${label}. ${'It explains how the parts of the content relate to each other. '.repeat(2)}`,
+    sections: [],
+    entities,
+    insights: [`Insight from ${label}`],
+    tags: []
+  });
+}
+
+describe('Content chunking', () => {
+  it('should return short content as a single chunk', () => {
+    const chunks = chunkContent('A short note.', { maxTokens: 1000 });
+    expect(chunks).toEqual([{ index: 0, text: 'A short note.', tokens: estimateTokens('A short note.') }]);
+  });
+
+  it('should keep sections whole and start chunks at headings', () => {
+    const content = [
+      '## Introduction', paragraph('intro', 150),
+      '## Methods', paragraph('methods', 150),
+      '## Results', paragraph('results', 150)
+    ].join('\n\n');
+
+    const chunks = chunkContent(content, { maxTokens: 400 });
+
+    expect(chunks.map(c => c.heading)).toEqual(['Introduction', 'Results']);
+    expect(chunks[0].text).toStartWith('## Introduction');
+    expect(chunks[0].text).toContain('## Methods');
+    expect(chunks[1].text).toStartWith('## Results');
+  });
+
+  it('should split oversized sections on paragraphs and repeat the heading', () => {
+    const content = ['## Discussion', paragraph('first', 250), paragraph('second', 250)].join('\n\n');
+
+    const chunks = chunkContent(content, { maxTokens: 300 });
+
+    expect(chunks).toHaveLength(2);
+    expect(chunks[1].text).toStartWith('## Discussion\n\nsecond');
+    expect(chunks.every(c => c.tokens <= 300)).toBe(true);
+  });
+
+  it('should split transcript paragraphs and fall back to sentences', () => {
+    const transcript = [0, 1, 2, 3].map(i => `[0${i}:00] ${paragraph(`minute${i}`, 120)}`).join('\n\n');
+    const chunks = chunkContent(transcript, { maxTokens: 300 });
+
+    expect(chunks.length).toBeGreaterThan(1);
+    expect(chunks.every(c => /^\[\d{2}:00\]/.test(c.text))).toBe(true);
+
+    const wall = Array.from({ length: 40 }, (_, i) => `Sentence ${i} has a few words in it.`).join(' ');
+    const pieces = chunkContent(wall, { maxTokens: 100 });
+    expect(pieces.length).toBeGreaterThan(1);
+    expect(pieces.every(c => c.text.endsWith('.') && c.tokens <= 100)).toBe(true);
+    expect(pieces.map(c => c.text).join(' ')).toBe(wall);
+  });
+});
+
+describe('Map-reduce analysis', () => {
+  const spies: Array<{ mockRestore(): void }> = [];
+
+  afterEach(() => {
+    spies.splice(0).forEach(spy => spy.mockRestore());
+  });
+
+  function stubModel(): ReturnType<typeof spyOn> {
+    let call = 0;
+    const generate = spyOn(AIProcessor.prototype as any, 'generate').mockImplementation(async (prompt: unknown) => {
+      call++;
+      const text = String(prompt).includes('consecutive parts')
+        ? reply('merge')
+        : reply(`chunk${call}`, [{ text: 'Hinton', type: 'person', confidence: 0.5 + call / 10 }]);
+      return { text, tokensUsed: 100 * call };
+    });
+    spies.push(generate);
+    return generate;
+  }
+
+  const config = { ...DEFAULT_CONFIG, chunking: { maxChunkTokens: 300, maxChunks: 10 } };
+
+  it('should analyze short content in one call', async () => {
+    const generate = stubModel();
+
+    const result = await new AIProcessor(new MockProvider(), config).processContent('Short article body.', ContentType.ARTICLE, options);
+
+    expect(generate).toHaveBeenCalledTimes(1);
+    expect(result.tokensUsed).toBe(100);
+    expect(result.chunks).toBeUndefined();
+  });
+
+  it('should summarize each chunk and merge the results', async () => {
+    const generate = stubModel();
+    const content = [paragraph('one', 250), paragraph('two', 250), paragraph('three', 250)].join('\n\n');
+
+    const result = await new AIProcessor(new MockProvider(), config).processContent(content, ContentType.ARTICLE, options);
+
+    expect(generate).toHaveBeenCalledTimes(4);
+    expect(String(generate.mock.calls[0][0])).toContain('part 1 of 3');
+    expect(String(generate.mock.calls[3][0])).toContain('Summary of chunk2');
+    expect(result.summary).toStartWith('Summary of merge,');
+    expect(result.entities).toEqual([{ text: 'Hinton', type: 'person', confidence: 0.8 }]);
+    expect(result.chunks?.map(c => `${c.pass}:${c.index}:${c.tokensUsed}`)).toEqual([
+      'map:0:100', 'map:1:200', 'map:2:300', 'reduce:0:400'
+    ]);
+    expect(result.tokensUsed).toBe(1000);
+  });
+
+  it('should refuse content that needs too many chunks', async () => {
+    const generate = stubModel();
+    const content = Array.from({ length: 12 }, (_, i) => paragraph(`p${i}`, 250)).join('\n\n');
+
+    await expect(new AIProcessor(new MockProvider(), config).processContent(content, ContentType.ARTICLE, options))
+      .rejects.toMatchObject({ code: 'CONTENT_TOO_LONG' });
+    expect(generate).not.toHaveBeenCalled();
+  });
+
+  it('should report per-chunk usage in the processing metadata', async () => {
+    stubModel();
+    spies.push(
+      spyOn(ApiKeyValidator, 'testGeminiKey').mockResolvedValue({ valid: true }),
+      spyOn(ContentFetcher.prototype, 'fetchContent').mockResolvedValue({
+        content: [paragraph('one', 250), paragraph('two', 250)].join('\n\n'),
+        type: ContentType.ARTICLE,
+        metadata: { title: 'Long Article' }
+      }),
+      spyOn(GeminiGemValidator.prototype, 'validate').mockResolvedValue({ valid: true, errors: [], warnings: [] })
+    );
+    const request: ProcessingRequest = {
+      input: 'https://example.com/article/long',
+      options,
+      auth: { apiKey: 'AIzaSyA1234567890abcdefghijklmnopqrstu', encrypted: false, source: 'user' }
+    };
+
+    const result = await new DataProcessor({ chunking: { maxChunkTokens: 300, maxChunks: 10 } }).processRequest(request);
+
+    expect(result.success).toBe(true);
+    expect(result.metadata.tokensUsed).toBe(600);
+    expect(result.metadata.chunks).toHaveLength(3);
+  });
+});
@@ -0,0 +1,271 @@
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import { mkdtemp, rm, readdir, stat } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { runCli, type CliOptions } from '../../src/cli/index';
+import { parseCliArgs } from '../../src/cli/args';
+import { parseBatchFile } from '../../src/cli/commands/batch';
+import {
+  DEFAULT_CLI_CONFIG,
+  deleteConfigValue,
+  normalizeConfigKey,
+  setConfigValue
+} from '../../src/cli/config';
+import { EXIT_CODES, exitCodeForError } from '../../src/cli/errors';
+import { loadJobRecord } from '../../src/cli/jobs';
+import { createDefaultProcessor } from '../../src/cli/context';
+import { buildConfig, getConfig, resetConfig, setConfig } from '../../src/core/config';
+import { ErrorCategory, type ProcessingRequest } from '../../src/core/types';
+import { ProcessingMockFactory } from '../mocks/factories';
+
+const API_KEY = 'AIzaSyA1234567890abcdefghijklmnopqrstu';
+
+describe('CLI', () => {
+  let dir: string;
+  let out: string[];
+  let err: string[];
+  let requests: ProcessingRequest[];
+
+  function options(overrides: Partial<CliOptions> = {}): CliOptions {
+    return {
+      io: {
+        out: (text) => out.push(text),
+        err: (text) => err.push(text),
+        prompt: () => null
+      },
+      env: { OBSIDIANIZE_CONFIG_PATH: join(dir, 'config'), OBSIDIANIZE_API_KEY: API_KEY },
+      createProcessor: () => ({
+        processRequest: async (request) => {
+          requests.push(request);
+          return ProcessingMockFactory.createSuccess();
+        }
+      }),
+      verifyApiKey: async () => ({ valid: true }),
+      ...overrides
+    };
+  }
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'obsidianize-cli-'));
+    out = [];
+    err = [];
+    requests = [];
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  describe('argument parsing', () => {
+    it('should split command, positionals and flags', () => {
+      const parsed = parseCliArgs(['process', 'https://example.com', '-o', 'notes', '--format=json', '-v']);
+      expect(parsed.command).toBe('process');
+      expect(parsed.positionals).toEqual(['https://example.com']);
+      expect(parsed.flags.output).toBe('notes');
+      expect(parsed.flags.format).toBe('json');
+      expect(parsed.flags.verbose).toBe(true);
+    });
+
+    it('should accept --summary as an alias for --summarization', () => {
+      expect(parseCliArgs(['process', 'x', '--summary', 'brief']).flags.summarization).toBe('brief');
+    });
+
+    it('should exit with a usage error on unknown flags', async () => {
+      const code = await runCli(['process', 'https://example.com', '--bogus'], options());
+      expect(code).toBe(EXIT_CODES.USAGE_ERROR);
+    });
+  });
+
+  describe('process', () => {
+    it('should write the gem to the output directory and print its path', async () => {
+      const code = await runCli(['process', 'https://example.com/article', '-o', dir, '-q'], options());
+
+      expect(code).toBe(EXIT_CODES.SUCCESS);
+      expect(out).toHaveLength(1);
+      expect(out[0].startsWith(dir)).toBe(true);
+      expect(out[0].endsWith('-mock-content-title.md')).toBe(true);
+      expect(await Bun.file(out[0]).text()).toContain('Mock Content Title');
+    });
+
+    it('should map --summarization onto the analysis mode like the web routes', async () => {
+      await runCli(['process', 'https://example.com/a', '--stdout', '--summarization', 'comprehensive'], options());
+      expect(requests[0].options.analysisMode).toBe('academic' as any);
+    });
+
+    it('should render the requested format to stdout', async () => {
+      const code = await runCli(['process', 'https://example.com/a', '--stdout', '--format', 'json'], options());
+      expect(code).toBe(EXIT_CODES.SUCCESS);
+      expect(JSON.parse(out[0]).frontmatter.title).toBe('Mock Content Title');
+    });
+
+    it('should refuse to overwrite an existing file without --overwrite', async () => {
+      const target = join(dir, 'note.md');
+      await Bun.write(target, 'existing');
+
+      const code = await runCli(['process', 'https://example.com/a', '-o', target], options());
+
+      expect(code).toBe(EXIT_CODES.FILE_ERROR);
+      expect(await Bun.file(target).text()).toBe('existing');
+    });
+
+    it('should save notes into the configured vault', async () => {
+      const vault = join(dir, 'vault');
+      await runCli(['config', 'set', 'vault.path', vault], options());
+
+      const code = await runCli(['process', 'https://example.com/a', '-q'], options());
+
+      expect(code).toBe(EXIT_CODES.SUCCESS);
+      expect(out[out.length - 1].startsWith(join(vault, 'Articles'))).toBe(true);
+      expect(await runCli(['process', 'https://example.com/a', '--vault', vault, '--stdout'], options()))
+        .toBe(EXIT_CODES.USAGE_ERROR);
+    });
+
+    it('should reject invalid URLs with a validation exit code', async () => {
+      const code = await runCli(['process', 'http://example.com/a'], options());
+      expect(code).toBe(EXIT_CODES.VALIDATION_ERROR);
+      expect(requests).toHaveLength(0);
+    });
+
+    it('should exit with a config error when no API key is available', async () => {
+      const code = await runCli(
+        ['process', 'https://example.com/a'],
+        options({ env: { OBSIDIANIZE_CONFIG_PATH: join(dir, 'config') } })
+      );
+      expect(code).toBe(EXIT_CODES.CONFIG_ERROR);
+    });
+
+    it('should map failed results to the error category exit code', async () => {
+      const code = await runCli(['process', 'https://example.com/a', '--stdout'], options({
+        createProcessor: () => ({
+          processRequest: async () => ProcessingMockFactory.createFailure({ category: ErrorCategory.NETWORK })
+        })
+      }));
+      expect(code).toBe(EXIT_CODES.NETWORK_ERROR);
+    });
+  });
+
+  describe('batch', () => {
+    it('should parse text and JSON batch files', () => {
+      expect(parseBatchFile('https://a.com\n\n# comment\nhttps://b.com\n', 'urls.txt').entries)
+        .toEqual([{ url: 'https://a.com' }, { url: 'https://b.com' }]);
+
+      const json = parseBatchFile(JSON.stringify({
+        urls: ['https://a.com', { url: 'https://b.com', summary: 'brief' }],
+        batch: { concurrent: 2 }
+      }), 'urls.json');
+      expect(json.entries[1]).toEqual({ url: 'https://b.com', summarization: 'brief' });
+      expect(json.concurrent).toBe(2);
+    });
+
+    it('should process every URL and record the job for status', async () => {
+      const file = join(dir, 'urls.txt');
+      await Bun.write(file, 'https://example.com/one\nhttps://example.com/two\n');
+
+      let call = 0;
+      const code = await runCli(['batch', file, '--stdout', '-q'], options({
+        createProcessor: () => ({
+          processRequest: async () => (++call === 2
+            ? ProcessingMockFactory.createFailure()
+            : ProcessingMockFactory.createSuccess())
+        })
+      }));
+
+      expect(code).toBe(EXIT_CODES.PROCESSING_ERROR);
+      const batchId = out[out.length - 1];
+      const record = await loadJobRecord(batchId, { OBSIDIANIZE_CONFIG_PATH: join(dir, 'config') });
+      expect(record?.completedUrls).toBe(1);
+      expect(record?.failedUrls).toBe(1);
+      expect(record?.status).toBe('completed' as any);
+
+      out = [];
+      expect(await runCli(['status', batchId], options())).toBe(EXIT_CODES.SUCCESS);
+      expect(out[0]).toContain(`Job ID: ${batchId}`);
+    });
+
+    it('should validate without processing on --dry-run', async () => {
+      const file = join(dir, 'urls.txt');
+      await Bun.write(file, 'https://example.com/one\nftp://example.com/two\n');
+
+      const code = await runCli(['batch', file, '--dry-run'], options());
+
+      expect(code).toBe(EXIT_CODES.VALIDATION_ERROR);
+      expect(requests).toHaveLength(0);
+    });
+  });
+
+  describe('config', () => {
+    it('should normalize kebab-case, camelCase and alias keys', () => {
+      expect(normalizeConfigKey('gemini.api-key')).toBe('gemini.api-key');
+      expect(normalizeConfigKey('gemini.apiKey')).toBe('gemini.api-key');
+      expect(normalizeConfigKey('defaults.summary')).toBe('defaults.summary-level');
+      expect(() => normalizeConfigKey('nope.key')).toThrow();
+    });
+
+    it('should coerce and validate values', () => {
+      const config = setConfigValue(DEFAULT_CLI_CONFIG, 'defaults.concurrent', '5');
+      expect(config.defaults.concurrent).toBe(5);
+      expect(() => setConfigValue(DEFAULT_CLI_CONFIG, 'defaults.concurrent', '50')).toThrow();
+      expect(() => setConfigValue(DEFAULT_CLI_CONFIG, 'defaults.output-format', 'pdf')).toThrow();
+      expect(deleteConfigValue(config, 'defaults.concurrent').defaults.concurrent).toBe(3);
+    });
+
+    it('should persist values with owner-only permissions', async () => {
+      expect(await runCli(['config', 'set', 'defaults.summary', 'brief'], options())).toBe(EXIT_CODES.SUCCESS);
+      expect(await runCli(['config', 'get', 'defaults.summary-level'], options())).toBe(EXIT_CODES.SUCCESS);
+      expect(out).toEqual(['brief']);
+
+      const info = await stat(join(dir, 'config', 'config.json'));
+      expect(info.mode & 0o777).toBe(0o600);
+    });
+
+    it('should keep processor stores in the config directory', () => {
+      const config = buildConfig('test');
+      config.sourceCache.enabled = false;
+      setConfig(config);
+      try {
+        createDefaultProcessor({ OBSIDIANIZE_CONFIG_PATH: join(dir, 'config') });
+        expect(getConfig().sourceCache.storePath).toBe(join(dir, 'config', 'sources.sqlite'));
+        expect(getConfig().cache.path).toBe(join(dir, 'config', 'cache.sqlite'));
+
+        createDefaultProcessor({ OBSIDIANIZE_CONFIG_PATH: join(dir, 'config'), SOURCE_CACHE_PATH: '/srv/sources.sqlite' });
+        expect(getConfig().sourceCache.storePath).toBe('/srv/sources.sqlite');
+      } finally {
+        resetConfig();
+      }
+    });
+  });
+
+  describe('setup', () => {
+    it('should save answers and keep defaults for empty input', async () => {
+      const answers = [API_KEY, 'yaml', '', join(dir, 'notes'), '4'];
+      const code = await runCli(['setup'], options({
+        io: {
+          out: (text) => out.push(text),
+          err: (text) => err.push(text),
+          prompt: () => answers.shift() ?? null
+        }
+      }));
+
+      expect(code).toBe(EXIT_CODES.SUCCESS);
+      const saved = JSON.parse(await Bun.file(join(dir, 'config', 'config.json')).text());
+      expect(saved.gemini.apiKey).toBe(API_KEY);
+      expect(saved.defaults.outputFormat).toBe('yaml');
+      expect(saved.defaults.summaryLevel).toBe('standard');
+      expect(saved.defaults.concurrent).toBe(4);
+    });
+
+    it('should abort when input closes', async () => {
+      const code = await runCli(['setup'], options());
+      expect(code).toBe(EXIT_CODES.CONFIG_ERROR);
+      expect(await readdir(dir)).toEqual([]);
+    });
+  });
+
+  describe('exit codes', () => {
+    it('should map error categories', () => {
+      expect(exitCodeForError({ category: ErrorCategory.AUTH })).toBe(EXIT_CODES.AUTH_ERROR);
+      expect(exitCodeForError({ category: ErrorCategory.AI_API })).toBe(EXIT_CODES.PROCESSING_ERROR);
+      expect(exitCodeForError(new Error('boom'))).toBe(EXIT_CODES.GENERAL_ERROR);
+    });
+  });
+});
@@ -287,6 +287,14 @@ describe('Configuration System', () => {
       const config = buildConfig('development');
       expect(config.cache.enabled).toBe(false);
     });
+
+    it('should read per-domain fetch intervals from environment', () => {
+      process.env.FETCH_DOMAIN_INTERVALS = 'Example.com=2000, api.example.org=0,broken';
+      resetConfig();
+
+      const config = buildConfig('development');
+      expect(config.fetching.domainIntervals).toEqual({ 'example.com': 2000, 'api.example.org': 0 });
+    });
   });
 });
 
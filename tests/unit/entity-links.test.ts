@@ -0,0 +1,123 @@
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import { mkdtemp, rm, readFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { linkEntities, entityNoteName } from '../../src/core/formatters/entity-links';
+import { MarkdownFormatter } from '../../src/core/formatters';
+import { VaultWriter } from '../../src/core/storage/vault-writer';
+import { EntityType, type ExtractedEntity, type GeminiGem } from '../../src/core/types';
+import { GeminiMockFactory } from '../mocks/factories';
+
+function entity(text: string, type: EntityType, confidence = 0.9): ExtractedEntity {
+  return { text, type, confidence, context: 'AI extraction' };
+}
+
+function gem(entities: ExtractedEntity[], content: Partial<GeminiGem['content']> = {}): GeminiGem {
+  return GeminiMockFactory.createMockGem({
+    frontmatter: { title: 'Neural Nets', processed: new Date('2024-05-01T10:00:00Z'), entities } as GeminiGem['frontmatter'],
+    content: {
+      summary: 'Geoffrey Hinton explains backpropagation. Hinton later joined Google.',
+      keyPoints: ['Backpropagation trains deep networks', 'Google funds research with TensorFlow'],
+      sections: [],
+      ...content
+    } as GeminiGem['content']
+  });
+}
+
+describe('Entity linking', () => {
+  it('should link only the first mention of each entity', () => {
+    const { gem: linked, linked: entities } = linkEntities(gem([
+      entity('Google', EntityType.ORGANIZATION),
+      entity('backpropagation', EntityType.CONCEPT)
+    ]));
+
+    expect(linked.content.summary).toBe('Geoffrey Hinton explains [[backpropagation]]. Hinton later joined [[Google]].');
+    expect(linked.content.keyPoints[0]).toBe('Backpropagation trains deep networks');
+    expect(linked.content.keyPoints[1]).toBe('Google funds research with TensorFlow');
+    expect(entities.map(e => e.text)).toEqual(['backpropagation', 'Google']);
+  });
+
+  it('should prefer longer names and alias mentions that differ in case', () => {
+    const { gem: linked } = linkEntities(gem([
+      entity('Hinton', EntityType.PERSON),
+      entity('Geoffrey Hinton', EntityType.PERSON),
+      entity('tensorflow', EntityType.TECHNOLOGY)
+    ]));
+
+    expect(linked.content.summary).toBe('[[Geoffrey Hinton]] explains backpropagation. [[Hinton]] later joined Google.');
+    expect(linked.content.keyPoints[1]).toBe('Google funds research with [[tensorflow|TensorFlow]]');
+  });
+
+  it('should skip unlinkable types, low confidence and partial words', () => {
+    const { linked } = linkEntities(gem([
+      entity('Google', EntityType.LOCATION),
+      entity('Hinton', EntityType.PERSON, 0.2),
+      entity('prop', EntityType.CONCEPT)
+    ]));
+
+    expect(linked).toEqual([]);
+  });
+
+  it('should leave links, code and URLs alone and reach into sections', () => {
+    const { gem: linked } = linkEntities(gem([entity('Rust', EntityType.TECHNOLOGY)], {
+      summary: 'See [Rust docs](https://rust-lang.org) and `Rust` at https://example.com/Rust',
+      keyPoints: ['Nothing here'],
+      sections: [{
+        id: 's1', heading: 'Intro', type: 'introduction' as any, order: 1, content: 'Intro text',
+        subsections: [{ id: 's2', heading: 'Detail', type: 'main' as any, order: 2, content: 'Rust is memory safe' }]
+      }]
+    }));
+
+    expect(linked.content.summary).toBe('See [Rust docs](https://rust-lang.org) and `Rust` at https://example.com/Rust');
+    expect(linked.content.sections[0].subsections?.[0].content).toBe('[[Rust]] is memory safe');
+  });
+
+  it('should strip characters Obsidian rejects from note names', () => {
+    expect(entityNoteName('AC/DC: Live [1991]')).toBe('AC DC Live 1991');
+  });
+
+  it('should link entities in Markdown output by default', async () => {
+    const markdown = await new MarkdownFormatter().format(gem([entity('Google', EntityType.ORGANIZATION)]));
+    expect(markdown).toContain('joined [[Google]].');
+
+    const plain = await new MarkdownFormatter({ linkEntities: false }).format(gem([entity('Google', EntityType.ORGANIZATION)]));
+    expect(plain).not.toContain('[[Google]]');
+  });
+});
+
+describe('VaultWriter entity notes', () => {
+  let root: string;
+
+  beforeEach(async () => {
+    root = await mkdtemp(join(tmpdir(), 'obsidianize-entities-'));
+  });
+
+  afterEach(async () => {
+    await rm(root, { recursive: true, force: true });
+  });
+
+  it('should create stub notes and append backlinks once per source note', async () => {
+    const writer = new VaultWriter({ root, entityNotes: true });
+    const entities = [entity('Geoffrey Hinton', EntityType.PERSON)];
+
+    const first = await writer.write(gem(entities));
+    const again = await writer.write(gem(entities));
+    const other = await writer.write({ ...gem(entities), frontmatter: { ...gem(entities).frontmatter, title: 'Deep Learning', source: 'https://b.com' } });
+
+    expect(first.entityNotes).toEqual(['Entities/Geoffrey Hinton.md']);
+    expect(again.entityNotes).toEqual([]);
+    expect(other.entityNotes).toEqual(['Entities/Geoffrey Hinton.md']);
+
+    const stub = await readFile(join(root, 'Entities', 'Geoffrey Hinton.md'), 'utf8');
+    expect(stub).toContain('type: person');
+    expect(stub).toContain('# Geoffrey Hinton');
+    expect(stub).toContain('- [[Articles/2024-05-01-neural-nets|Neural Nets]]\n- [[Articles/2024-05-01-deep-learning|Deep Learning]]\n');
+    expect(first.content).toContain('[[Geoffrey Hinton]] explains');
+  });
+
+  it('should not create entity notes unless enabled', async () => {
+    const result = await new VaultWriter({ root }).write(gem([entity('Google', EntityType.ORGANIZATION)]));
+    expect(result.entityNotes).toEqual([]);
+    expect(result.content).toContain('[[Google]]');
+  });
+});
@@ -0,0 +1,347 @@
+import { describe, it, expect, spyOn, beforeEach, afterEach } from 'bun:test';
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { pathToFileURL } from 'url';
+import {
+  FeedPoller,
+  SqliteFeedStore,
+  generateFeedId,
+  parseFeed,
+  setFeedPoller,
+  setFeedStore,
+  validateFeedUrl,
+  type FeedSubscription
+} from '../../src/core/feeds';
+import { DataProcessor } from '../../src/core/processor';
+import { SafeFetcher, setSafeFetcher } from '../../src/core/network';
+import { SqliteJobStore, setJobStore } from '../../src/core/jobs/job-store';
+import { handleEnhancedApiRequest } from '../../src/web/server/routes-enhanced';
+import { AnalysisMode, ProcessingStatus } from '../../src/core/types';
+import { ProcessingMockFactory } from '../mocks/factories';
+
+const API_KEY = 'AIzaSyA1234567890abcdefghijklmnopqrstu';
+
+/** An RSS 2.0 document with items newest first, as feeds publish them */
+function rss(items: Array<{ guid: string; day: number }>): string {
+  return `<?xml version="1.0"?>
+<rss version="2.0"><channel><title>Example Blog</title>
+${items.map(item => `<item><title>Post ${item.guid}</title><link>https://example.com/posts/${item.guid}</link>` +
+  `<guid isPermaLink="false">${item.guid}</guid><pubDate>${new Date(Date.UTC(2024, 0, item.day)).toUTCString()}</pubDate></item>`).join('\n')}
+</channel></rss>`;
+}
+
+const ATOM = `<?xml version="1.0" encoding="UTF-8"?>
+<feed xmlns="http://www.w3.org/2005/Atom" xmlns:yt="http://www.youtube.com/xml/schemas/2015">
+  <title>A Channel</title>
+  <link rel="self" href="https://www.youtube.com/feeds/videos.xml?channel_id=UC123"/>
+  <entry>
+    <id>yt:video:abc123</id>
+    <title>Latest video</title>
+    <link rel="alternate" href="https://www.youtube.com/watch?v=abc123"/>
+    <published>2024-03-01T10:00:00+00:00</published>
+  </entry>
+</feed>`;
+
+const RDF = `<?xml version="1.0"?>
+<rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#" xmlns="http://purl.org/rss/1.0/" xmlns:dc="http://purl.org/dc/elements/1.1/">
+  <channel rdf:about="https://example.org/"><title>Old School</title></channel>
+  <item rdf:about="https://example.org/one"><title>One</title><link>https://example.org/one</link><dc:date>2024-02-01</dc:date></item>
+</rdf:RDF>`;
+
+describe('Feed subscriptions', () => {
+  let feeds: SqliteFeedStore;
+  let jobs: SqliteJobStore;
+  let processRequest: ReturnType<typeof spyOn<DataProcessor, 'processRequest'>>;
+
+  beforeEach(() => {
+    feeds = new SqliteFeedStore();
+    jobs = new SqliteJobStore({ cleanupInterval: 0 });
+    setFeedStore(feeds);
+    setJobStore(jobs);
+    processRequest = spyOn(DataProcessor.prototype, 'processRequest')
+      .mockImplementation(async () => ProcessingMockFactory.createSuccess());
+  });
+
+  afterEach(() => {
+    processRequest.mockRestore();
+    setFeedPoller(null);
+    setFeedStore(null);
+    setJobStore(null);
+    feeds.close();
+    jobs.close();
+  });
+
+  const subscribe = (url: string, fields: Partial<FeedSubscription> = {}) => feeds.create({
+    id: generateFeedId(),
+    url,
+    enabled: true,
+    options: {},
+    pollInterval: 60_000,
+    backfill: 0,
+    ...fields
+  });
+
+  it('should parse RSS, RDF and Atom feeds', () => {
+    expect(parseFeed(rss([{ guid: 'b', day: 2 }, { guid: 'a', day: 1 }]))).toMatchObject({
+      format: 'rss',
+      title: 'Example Blog',
+      entries: [{ guid: 'b', url: 'https://example.com/posts/b', title: 'Post b' }, { guid: 'a' }]
+    });
+    expect(parseFeed(ATOM)).toEqual({
+      format: 'atom',
+      title: 'A Channel',
+      entries: [{
+        guid: 'yt:video:abc123',
+        url: 'https://www.youtube.com/watch?v=abc123',
+        title: 'Latest video',
+        publishedAt: new Date('2024-03-01T10:00:00Z')
+      }]
+    });
+    expect(parseFeed(RDF)?.entries).toEqual([
+      { guid: 'https://example.org/one', url: 'https://example.org/one', title: 'One', publishedAt: new Date('2024-02-01') }
+    ]);
+    expect(parseFeed('<html><body>Not a feed</body></html>')).toBeNull();
+  });
+
+  it('should refuse private and non-web feed URLs unless local feeds are allowed', () => {
+    expect(validateFeedUrl('http://127.0.0.1:8080/feed.xml')).toBeString();
+    expect(validateFeedUrl('file:///tmp/feed.xml')).toBeString();
+    expect(validateFeedUrl('http://127.0.0.1:8080/feed.xml', true)).toBeUndefined();
+    expect(validateFeedUrl('file:///tmp/feed.xml', true)).toBeUndefined();
+    expect(validateFeedUrl('ftp://example.com/feed.xml', true)).toBeString();
+  });
+
+  describe('polling a local server', () => {
+    let server: ReturnType<typeof Bun.serve>;
+    let document = '';
+    let requests: Array<string | null> = [];
+
+    beforeEach(() => {
+      requests = [];
+      server = Bun.serve({
+        port: 0,
+        hostname: '127.0.0.1',
+        fetch(req) {
+          const etag = `"${Bun.hash(document)}"`;
+          requests.push(req.headers.get('if-none-match'));
+          if (req.headers.get('if-none-match') === etag) {
+            return new Response(null, { status: 304 });
+          }
+          return new Response(document, { headers: { 'Content-Type': 'application/rss+xml', 'ETag': etag } });
+        }
+      });
+    });
+
+    afterEach(() => {
+      server.stop(true);
+    });
+
+    it('should backfill on the first poll and queue only unseen entries afterwards', async () => {
+      const poller = new FeedPoller({ apiKey: API_KEY, allowLocalFeeds: true });
+      let feed = await subscribe(`http://127.0.0.1:${server.port}/feed.xml`, {
+        backfill: 1,
+        options: { analysisMode: AnalysisMode.ACADEMIC, tags: ['reading/feeds'] }
+      });
+
+      document = rss([{ guid: 'c', day: 3 }, { guid: 'b', day: 2 }, { guid: 'a', day: 1 }]);
+      const first = await poller.poll(feed);
+      expect(first).toMatchObject({ status: 'updated', entries: 3, skipped: 2, deferred: 0, jobIds: [expect.any(String)] });
+
+      feed = (await feeds.get(feed.id))!;
+      expect(feed.title).toBe('Example Blog');
+      expect((await poller.poll(feed)).status).toBe('not_modified');
+      expect(requests[1]).toBe(feed.etag!);
+
+      document = rss([{ guid: 'e', day: 5 }, { guid: 'd', day: 4 }, { guid: 'c', day: 3 }]);
+      const third = await poller.poll((await feeds.get(feed.id))!);
+      expect(third).toMatchObject({ status: 'updated', skipped: 0 });
+      expect(third.jobIds).toHaveLength(2);
+      expect(await feeds.countEntries(feed.id)).toBe(5);
+
+      await poller.whenIdle();
+      const processed = processRequest.mock.calls.map(([request]) => request.input);
+      expect(processed).toEqual(['https://example.com/posts/c', 'https://example.com/posts/d', 'https://example.com/posts/e']);
+      expect(processRequest.mock.calls[0][0].options).toMatchObject({ analysisMode: AnalysisMode.ACADEMIC, tagOverrides: ['reading/feeds'] });
+      expect(await jobs.get(third.jobIds[0])).toMatchObject({ kind: 'feed_item', status: 'completed', metadata: { feedId: feed.id, guid: 'd' } });
+    });
+
+    it('should leave entries over the per-poll cap for the next poll', async () => {
+      const poller = new FeedPoller({ apiKey: API_KEY, allowLocalFeeds: true, maxEntriesPerPoll: 2 });
+      const feed = await subscribe(`http://127.0.0.1:${server.port}/feed.xml`, { backfill: 3 });
+      document = rss([{ guid: 'c', day: 3 }, { guid: 'b', day: 2 }, { guid: 'a', day: 1 }]);
+
+      expect(await poller.poll(feed)).toMatchObject({ jobIds: [expect.any(String), expect.any(String)], deferred: 1 });
+      const next = await poller.poll((await feeds.get(feed.id))!);
+      expect(next).toMatchObject({ status: 'updated', jobIds: [expect.any(String)], deferred: 0 });
+      expect(requests).toEqual([null, null]);
+
+      await poller.whenIdle();
+      expect(processRequest.mock.calls.map(([request]) => request.input)).toEqual([
+        'https://example.com/posts/a', 'https://example.com/posts/b', 'https://example.com/posts/c'
+      ]);
+    });
+
+    it('should poll only feeds that are due and record failures on the feed', async () => {
+      const poller = new FeedPoller({ apiKey: API_KEY, allowLocalFeeds: true });
+      document = rss([{ guid: 'a', day: 1 }]);
+      const due = await subscribe(`http://127.0.0.1:${server.port}/feed.xml`);
+      await subscribe(`http://127.0.0.1:${server.port}/later.xml`, { lastPolledAt: new Date() });
+      const broken = await subscribe(`http://127.0.0.1:${server.port}/broken.xml`);
+      await feeds.update(broken.id, { url: 'http://127.0.0.1:1/broken.xml' });
+
+      const results = await poller.pollDue();
+
+      expect(results.map(result => result.feedId)).toEqual([due.id]);
+      expect((await feeds.get(broken.id))?.lastError).toStartWith('Failed to fetch feed');
+    });
+  });
+
+  it('should read a feed from a local file', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'feeds-'));
+    try {
+      const path = join(dir, 'feed.xml');
+      await writeFile(path, RDF);
+      const feed = await subscribe(pathToFileURL(path).href, { backfill: 5 });
+
+      const poller = new FeedPoller({ apiKey: API_KEY, allowLocalFeeds: true });
+      expect(await poller.poll(feed)).toMatchObject({ status: 'updated', entries: 1, jobIds: [expect.any(String)] });
+      await poller.whenIdle();
+      expect(processRequest.mock.calls[0][0].input).toBe('https://example.org/one');
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('should re-queue entries a restart left pending or processing', async () => {
+    const queued = (id: string, status: ProcessingStatus, url: string) => jobs.create({
+      id, kind: 'feed_item', status, progress: 0, message: 'Queued', url, metadata: {}
+    });
+    await queued('job_a', ProcessingStatus.PROCESSING, 'https://example.com/posts/a');
+    await queued('job_b', ProcessingStatus.PENDING, 'https://example.com/posts/b');
+    await queued('job_c', ProcessingStatus.COMPLETED, 'https://example.com/posts/c');
+
+    const poller = new FeedPoller({ apiKey: API_KEY });
+    expect(await poller.resumeQueued()).toBe(2);
+    await poller.whenIdle();
+
+    expect(processRequest.mock.calls.map(([request]) => request.input)).toEqual([
+      'https://example.com/posts/a', 'https://example.com/posts/b'
+    ]);
+    expect((await jobs.get('job_b'))?.status).toBe(ProcessingStatus.COMPLETED);
+  });
+
+  it('should fail interrupted entries when there is no key to resume them with', async () => {
+    await jobs.create({ id: 'job_a', kind: 'feed_item', status: ProcessingStatus.PENDING, progress: 0, message: 'Queued', url: 'https://example.com/a', metadata: {} });
+
+    expect(await new FeedPoller().resumeQueued()).toBe(1);
+    expect(await jobs.get('job_a')).toMatchObject({ status: ProcessingStatus.FAILED, error: 'Interrupted by a server restart' });
+    expect(processRequest).not.toHaveBeenCalled();
+  });
+
+  it('should keep processing the queue after an entry fails to record its failure', async () => {
+    for (const id of ['job_b', 'job_c']) {
+      await jobs.create({ id, kind: 'feed_item', status: ProcessingStatus.PENDING, progress: 0, message: 'Queued', url: `https://example.com/${id}`, metadata: {} });
+    }
+    const update = jobs.update.bind(jobs);
+    spyOn(jobs, 'update').mockImplementation(async (id, patch) => {
+      if (id === 'job_b' && patch.status !== ProcessingStatus.PENDING) {
+        throw new Error('database is locked');
+      }
+      return update(id, patch);
+    });
+
+    const poller = new FeedPoller({ apiKey: API_KEY });
+    await poller.resumeQueued();
+    await poller.whenIdle();
+
+    expect(processRequest.mock.calls.map(([request]) => request.input)).toEqual(['https://example.com/job_c']);
+    expect((await jobs.get('job_c'))?.status).toBe(ProcessingStatus.COMPLETED);
+  });
+
+  it('should refuse local files over the feed size cap', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'feeds-'));
+    try {
+      const path = join(dir, 'feed.xml');
+      await writeFile(path, RDF.padEnd(5 * 1024 * 1024 + 1));
+      const feed = await subscribe(pathToFileURL(path).href);
+
+      const poller = new FeedPoller({ apiKey: API_KEY, allowLocalFeeds: true });
+      await expect(poller.poll(feed)).rejects.toMatchObject({ code: 'FEED_TOO_LARGE' });
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('should fetch public feeds through the safe fetcher when local feeds are allowed', async () => {
+    const fetched: string[] = [];
+    setSafeFetcher(new SafeFetcher({ respectRobots: false }, {
+      lookup: async () => ['93.184.216.34'],
+      transport: async (url) => {
+        fetched.push(url.toString());
+        return new Response(RDF);
+      }
+    }));
+    try {
+      const feed = await subscribe('https://example.com/feed.xml', { backfill: 0 });
+      const poller = new FeedPoller({ apiKey: API_KEY, allowLocalFeeds: true });
+
+      expect(await poller.poll(feed)).toMatchObject({ status: 'updated', entries: 1 });
+      expect(fetched).toEqual(['https://example.com/feed.xml']);
+    } finally {
+      setSafeFetcher(null);
+    }
+  });
+
+  describe('/api/feeds', () => {
+    const api = (path: string, method = 'GET', body?: unknown) => handleEnhancedApiRequest(new Request(`http://localhost${path}`, {
+      method,
+      headers: { 'Content-Type': 'application/json' },
+      body: body === undefined ? undefined : JSON.stringify(body)
+    }));
+
+    it('should create, read, update and delete subscriptions', async () => {
+      const created = await api('/api/feeds', 'POST', { url: 'https://example.com/feed.xml', options: { tags: ['news'], folder: 'Feeds/News' } });
+      expect(created?.status).toBe(201);
+      const feed = await created?.json() as { id: string };
+      expect(feed).toMatchObject({ enabled: true, backfill: 0, options: { tags: ['news'], folder: 'Feeds/News' }, nextPollAt: expect.any(String) });
+
+      expect((await api('/api/feeds', 'POST', { url: 'https://example.com/feed.xml' }))?.status).toBe(409);
+      expect(await (await api('/api/feeds'))?.json()).toMatchObject({ total: 1, feeds: [{ id: feed.id }] });
+
+      const updated = await api(`/api/feeds/${feed.id}`, 'PATCH', { enabled: false, backfill: 3 });
+      expect(await updated?.json()).toMatchObject({ enabled: false, backfill: 3, options: { tags: ['news'] } });
+      expect(await (await api(`/api/feeds/${feed.id}`))?.json()).toMatchObject({ id: feed.id, seenEntries: 0, recentEntries: [] });
+
+      expect((await api(`/api/feeds/${feed.id}`, 'DELETE'))?.status).toBe(200);
+      expect((await api(`/api/feeds/${feed.id}`))?.status).toBe(404);
+    });
+
+    it('should refuse invalid subscriptions', async () => {
+      const invalid = await api('/api/feeds', 'POST', { url: 'https://example.com/feed.xml', options: { folder: '../outside' } });
+      expect(invalid?.status).toBe(400);
+      expect(await invalid?.json()).toMatchObject({ code: 'INVALID_INPUT' });
+
+      const local = await api('/api/feeds', 'POST', { url: 'http://localhost:8080/feed.xml' });
+      expect(await local?.json()).toMatchObject({ code: 'INVALID_URL' });
+      expect((await api('/api/feeds', 'POST', { url: 'https://example.com/feed.xml', unknown: true }))?.status).toBe(400);
+    });
+
+    it('should poll on demand and report feed failures as a bad gateway', async () => {
+      let body = rss([{ guid: 'a', day: 1 }]);
+      setFeedPoller(new FeedPoller({}, { fetch: async () => new Response(body) }));
+      const created = await api('/api/feeds', 'POST', { url: 'https://example.com/feed.xml', backfill: 1 });
+      const { id } = await created?.json() as { id: string };
+
+      expect(await (await api(`/api/feeds/${id}/poll`, 'POST'))?.json()).toMatchObject({ code: 'INVALID_API_KEY' });
+      const polled = await api(`/api/feeds/${id}/poll`, 'POST', { apiKey: API_KEY });
+      expect(polled?.status).toBe(200);
+      expect(await polled?.json()).toMatchObject({ feedId: id, status: 'updated', jobIds: [expect.any(String)] });
+
+      body = '<html></html>';
+      const failed = await api(`/api/feeds/${id}/poll`, 'POST', { apiKey: API_KEY });
+      expect(failed?.status).toBe(502);
+      expect(await failed?.json()).toMatchObject({ code: 'FEED_INVALID' });
+    });
+  });
+});
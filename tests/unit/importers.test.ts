@@ -0,0 +1,161 @@
+import { describe, it, expect, spyOn, beforeEach, afterEach } from 'bun:test';
+import { detectImportFormat, importReadingList, parseCsvRows } from '../../src/core/importers';
+import { DataProcessor } from '../../src/core/processor';
+import { SqliteJobStore, setJobStore } from '../../src/core/jobs/job-store';
+import { isJobRunning } from '../../src/core/jobs/cancellation';
+import { handleEnhancedApiRequest } from '../../src/web/server/routes-enhanced';
+import { ProcessingMockFactory, waitFor } from '../mocks/factories';
+
+const API_KEY = 'AIzaSyA1234567890abcdefghijklmnopqrstu';
+
+const BOOKMARKS = `<!DOCTYPE NETSCAPE-Bookmark-file-1>
+<META HTTP-EQUIV="Content-Type" CONTENT="text/html; charset=UTF-8">
+<TITLE>Bookmarks</TITLE>
+<H1>Bookmarks</H1>
+<DL><p>
+    <DT><H3 PERSONAL_TOOLBAR_FOLDER="true">Bookmarks bar</H3>
+    <DL><p>
+        <DT><H3>Machine Learning</H3>
+        <DL><p>
+            <DT><A HREF="https://example.com/attention" TAGS="transformers,papers/2017">Attention &amp; Memory</A>
+        </DL><p>
+        <DT><A HREF="https://example.com/loose">Loose</A>
+    </DL><p>
+    <DT><H3>Reading List</H3>
+    <DL><p>
+        <DT><A HREF="https://www.example.com/attention/#comments">Attention again</A>
+        <DT><A HREF="javascript:alert(1)">Bookmarklet</A>
+    </DL><p>
+</DL><p>`;
+
+const OPML = `<?xml version="1.0" encoding="UTF-8"?>
+<opml version="2.0">
+  <head><title>Reading</title></head>
+  <body>
+    <outline text="Essays">
+      <outline text="Spaced repetition" type="link" url="https://example.com/spacing" category="/Learning/Memory,review"/>
+    </outline>
+    <outline text="A blog" type="rss" xmlUrl="https://example.com/feed.xml"/>
+  </body>
+</opml>`;
+
+describe('Reading list importers', () => {
+  it('should carry bookmark folders and tags into nested tags', () => {
+    const result = importReadingList(BOOKMARKS);
+
+    expect(result.format).toBe('bookmarks');
+    expect(result.entries).toEqual([
+      {
+        url: 'https://example.com/attention',
+        title: 'Attention & Memory',
+        tagOverrides: ['machine-learning', 'transformers', 'papers/2017', 'reading-list']
+      },
+      { url: 'https://example.com/loose', title: 'Loose', tagOverrides: [] }
+    ]);
+    expect(result.duplicates).toEqual(['https://www.example.com/attention/#comments']);
+    expect(result.rejected).toEqual([{ url: 'javascript:alert(1)', title: 'Bookmarklet', reason: 'Only HTTPS URLs are supported' }]);
+  });
+
+  it('should read Pocket and Instapaper CSV exports', () => {
+    const pocket = importReadingList(
+      'title,url,time_added,tags,status\n' +
+      '"Deep Work, Summarized",https://example.com/deep-work,1700000000,productivity|Focus Time,unread\n' +
+      'Plain,http://example.com/plain,1700000001,,archive\n'
+    );
+    expect(pocket.format).toBe('csv');
+    expect(pocket.entries).toEqual([
+      { url: 'https://example.com/deep-work', title: 'Deep Work, Summarized', tagOverrides: ['productivity', 'focus-time'] }
+    ]);
+    expect(pocket.rejected.map(entry => entry.url)).toEqual(['http://example.com/plain']);
+
+    const instapaper = importReadingList(
+      'URL,Title,Selection,Folder,Timestamp,Tags\r\n' +
+      'https://example.com/a,A,,Unread,1700000000,"[""history""]"\r\n' +
+      'https://example.com/b,B,,Research/Sleep,1700000001,[]\r\n' +
+      ',No link,,Unread,1700000002,[]\r\n',
+      { filename: 'instapaper-export.csv' }
+    );
+    expect(instapaper.entries.map(entry => entry.tagOverrides)).toEqual([['history'], ['research/sleep']]);
+    expect(instapaper.rejected).toEqual([{ url: '', title: 'No link', reason: 'Missing URL' }]);
+  });
+
+  it('should read link outlines from OPML and reject feed subscriptions', () => {
+    const result = importReadingList(OPML, { filename: 'reading.opml' });
+
+    expect(result.entries).toEqual([
+      { url: 'https://example.com/spacing', title: 'Spaced repetition', tagOverrides: ['essays', 'learning/memory', 'review'] }
+    ]);
+    expect(result.rejected).toEqual([
+      { url: 'https://example.com/feed.xml', title: 'A blog', reason: 'Feed subscription, not an article link' }
+    ]);
+  });
+
+  it('should detect formats and refuse content that is not in its format', () => {
+    expect(detectImportFormat(OPML)).toBe('opml');
+    expect(detectImportFormat(BOOKMARKS)).toBe('bookmarks');
+    expect(detectImportFormat('URL,Title\nhttps://example.com,Example')).toBe('csv');
+    expect(detectImportFormat('# saved\nhttps://example.com/a\n')).toBe('text');
+    expect(detectImportFormat('<opml/>', 'links.txt')).toBe('text');
+    expect(parseCsvRows('a,"b ""c""\nd",e\n\n')).toEqual([['a', 'b "c"\nd', 'e']]);
+
+    expect(() => importReadingList('title,added\nA,1', { format: 'csv' })).toThrow('CSV file has no URL column');
+    expect(() => importReadingList('<rss></rss>', { format: 'opml' })).toThrow('OPML file has no <body>');
+  });
+
+  describe('POST /api/batch/import', () => {
+    let store: SqliteJobStore;
+    let processRequest: ReturnType<typeof spyOn<DataProcessor, 'processRequest'>>;
+
+    beforeEach(() => {
+      store = new SqliteJobStore({ cleanupInterval: 0 });
+      setJobStore(store);
+      processRequest = spyOn(DataProcessor.prototype, 'processRequest')
+        .mockImplementation(async () => ProcessingMockFactory.createSuccess());
+    });
+
+    afterEach(() => {
+      processRequest.mockRestore();
+      setJobStore(null);
+      store.close();
+    });
+
+    const importList = (body: Record<string, unknown>) => handleEnhancedApiRequest(new Request('http://localhost/api/batch/import', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body)
+    }));
+
+    it('should preview a dry run without a key or a batch', async () => {
+      const response = await importList({ content: BOOKMARKS, dryRun: true });
+
+      expect(response?.status).toBe(200);
+      expect(await response?.json()).toMatchObject({ format: 'bookmarks', totalUrls: 2, rejected: [{ url: 'javascript:alert(1)' }] });
+      expect(await store.count({ kind: 'batch' })).toBe(0);
+    });
+
+    it('should start a batch that tags each URL and reports what it left out', async () => {
+      const response = await importList({ content: BOOKMARKS, filename: 'bookmarks.html', apiKey: API_KEY });
+
+      expect(response?.status).toBe(201);
+      const body = await response?.json() as { batchId: string };
+      expect(body).toMatchObject({ totalUrls: 2, duplicates: [expect.any(String)], rejected: [{ reason: 'Only HTTPS URLs are supported' }] });
+      await waitFor(() => processRequest.mock.calls.length === 2 && !isJobRunning(body.batchId));
+
+      const options = processRequest.mock.calls.map(([request]) => [request.input, request.options.tagOverrides]);
+      expect(options).toEqual([
+        ['https://example.com/attention', ['machine-learning', 'transformers', 'papers/2017', 'reading-list']],
+        ['https://example.com/loose', undefined]
+      ]);
+    });
+
+    it('should refuse lists with nothing to process', async () => {
+      const empty = await importList({ content: 'http://example.com/insecure', apiKey: API_KEY });
+      expect(empty?.status).toBe(400);
+      expect(await empty?.json()).toMatchObject({ code: 'NO_VALID_URLS', rejected: [{ url: 'http://example.com/insecure' }] });
+
+      const unreadable = await importList({ content: 'no urls here', format: 'csv', apiKey: API_KEY });
+      expect(await unreadable?.json()).toMatchObject({ code: 'IMPORT_UNREADABLE' });
+      expect((await importList({ content: BOOKMARKS }))?.status).toBe(400);
+    });
+  });
+});
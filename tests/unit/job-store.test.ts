@@ -0,0 +1,152 @@
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { SqliteJobStore, generateJobId } from '../../src/core/jobs/job-store';
+import type { ProcessingStatus } from '../../src/core/types';
+import { ProcessingMockFactory } from '../mocks/factories';
+
+const PENDING = 'pending' as ProcessingStatus;
+const PROCESSING = 'processing' as ProcessingStatus;
+const COMPLETED = 'completed' as ProcessingStatus;
+const FAILED = 'failed' as ProcessingStatus;
+
+describe('SqliteJobStore', () => {
+  let store: SqliteJobStore;
+
+  beforeEach(() => {
+    store = new SqliteJobStore({ cleanupInterval: 0 });
+  });
+
+  afterEach(() => {
+    store.close();
+  });
+
+  describe('create and get', () => {
+    it('should round-trip a job', async () => {
+      await store.create({ id: 'job_1', kind: 'process', status: PENDING, progress: 0, message: 'Queued', url: 'https://a.com' });
+
+      const job = await store.get('job_1');
+      expect(job?.kind).toBe('process');
+      expect(job?.url).toBe('https://a.com');
+      expect(job?.createdAt).toBeInstanceOf(Date);
+      expect(job?.batchId).toBeUndefined();
+    });
+
+    it('should return null for unknown jobs', async () => {
+      expect(await store.get('missing')).toBeNull();
+      expect(await store.update('missing', { progress: 10 })).toBeNull();
+    });
+
+    it('should revive dates inside stored results', async () => {
+      await store.create({ id: 'job_1', kind: 'process', status: COMPLETED, progress: 100, message: 'Done', result: ProcessingMockFactory.createSuccess() });
+
+      const job = await store.get('job_1');
+      expect(job?.result?.data?.frontmatter.processed).toBeInstanceOf(Date);
+      expect(job?.result?.metadata.startTime).toBeInstanceOf(Date);
+    });
+  });
+
+  describe('update', () => {
+    it('should apply partial updates and clear fields set to undefined', async () => {
+      await store.create({ id: 'job_1', kind: 'process', status: PROCESSING, progress: 10, message: 'Working', error: 'old' });
+
+      const job = await store.update('job_1', { status: COMPLETED, progress: 100, error: undefined, metadata: { source: 'test' } });
+      expect(job?.status).toBe(COMPLETED);
+      expect(job?.message).toBe('Working');
+      expect(job?.error).toBeUndefined();
+      expect(job?.metadata).toEqual({ source: 'test' });
+    });
+  });
+
+  describe('queries', () => {
+    beforeEach(async () => {
+      const base = Date.now() - 10_000;
+      await store.create({ id: 'batch_1', kind: 'batch', status: PROCESSING, progress: 0, message: '', totalUrls: 2, createdAt: new Date(base) });
+      await store.create({ id: 'batch_1_0', kind: 'batch_item', batchId: 'batch_1', status: COMPLETED, progress: 100, message: '', createdAt: new Date(base + 1000) });
+      await store.create({ id: 'batch_1_1', kind: 'batch_item', batchId: 'batch_1', status: FAILED, progress: 0, message: '', createdAt: new Date(base + 2000) });
+      await store.create({ id: 'job_1', kind: 'process', status: COMPLETED, progress: 100, message: '', createdAt: new Date(base + 3000) });
+    });
+
+    it('should filter by kind, status and batch', async () => {
+      expect((await store.list({ batchId: 'batch_1', order: 'asc' })).map(job => job.id)).toEqual(['batch_1_0', 'batch_1_1']);
+      expect((await store.list({ status: [COMPLETED, FAILED], kind: 'batch_item' })).map(job => job.id)).toEqual(['batch_1_1', 'batch_1_0']);
+      expect(await store.count({ kind: ['process', 'batch_item'] })).toBe(3);
+    });
+
+    it('should page newest first by default', async () => {
+      expect((await store.list({ limit: 2 })).map(job => job.id)).toEqual(['job_1', 'batch_1_1']);
+      expect((await store.list({ limit: 2, offset: 2 })).map(job => job.id)).toEqual(['batch_1_0', 'batch_1']);
+    });
+
+    it('should count by status', async () => {
+      expect(await store.countByStatus({ kind: 'batch_item' })).toEqual({ completed: 1, failed: 1 });
+    });
+
+    it('should delete a batch together with its items', async () => {
+      expect(await store.delete('batch_1')).toBe(true);
+      expect(await store.count()).toBe(1);
+    });
+  });
+
+  describe('retention', () => {
+    it('should remove jobs not updated within the retention period', async () => {
+      store.close();
+      store = new SqliteJobStore({ retentionMs: 50, cleanupInterval: 0 });
+
+      await store.create({ id: 'old', kind: 'process', status: COMPLETED, progress: 100, message: '' });
+      await Bun.sleep(100);
+      await store.create({ id: 'new', kind: 'process', status: PENDING, progress: 0, message: '' });
+
+      expect(await store.cleanup()).toBe(1);
+      expect(await store.get('old')).toBeNull();
+      expect(await store.get('new')).not.toBeNull();
+    });
+
+    it('should expire batch items with their batch', async () => {
+      store.close();
+      store = new SqliteJobStore({ retentionMs: 50, cleanupInterval: 0 });
+
+      await store.create({ id: 'old_batch', kind: 'batch', status: COMPLETED, progress: 100, message: '' });
+      await store.create({ id: 'old_batch_0', kind: 'batch_item', batchId: 'old_batch', status: PENDING, progress: 0, message: '' });
+      await store.create({ id: 'new_batch_0', kind: 'batch_item', batchId: 'new_batch', status: COMPLETED, progress: 100, message: '' });
+      await Bun.sleep(100);
+      await store.create({ id: 'new_batch', kind: 'batch', status: PROCESSING, progress: 50, message: '' });
+      await store.update('old_batch_0', { status: FAILED });
+
+      expect(await store.cleanup()).toBe(2);
+      expect(await store.get('old_batch_0')).toBeNull();
+      expect(await store.get('new_batch_0')).not.toBeNull();
+    });
+  });
+
+  describe('persistence', () => {
+    let dir: string;
+
+    beforeEach(async () => {
+      dir = await mkdtemp(join(tmpdir(), 'obsidianize-jobs-'));
+    });
+
+    afterEach(async () => {
+      await rm(dir, { recursive: true, force: true });
+    });
+
+    it('should keep jobs across store instances', async () => {
+      const path = join(dir, 'nested', 'jobs.sqlite');
+      const first = new SqliteJobStore({ path, cleanupInterval: 0 });
+      await first.create({ id: 'job_1', kind: 'process', status: COMPLETED, progress: 100, message: 'Done' });
+      first.close();
+
+      const second = new SqliteJobStore({ path, cleanupInterval: 0 });
+      expect((await second.get('job_1'))?.message).toBe('Done');
+      second.close();
+    });
+  });
+
+  describe('generateJobId', () => {
+    it('should prefix IDs and stay route-safe', () => {
+      expect(generateJobId()).toMatch(/^job_\d+_[a-z0-9]+$/);
+      expect(generateJobId('batch')).toMatch(/^batch_\d+_[a-z0-9]+$/);
+    });
+  });
+});
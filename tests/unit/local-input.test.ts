@@ -0,0 +1,173 @@
+import { describe, it, expect, spyOn, beforeAll, afterAll, afterEach } from 'bun:test';
+import { createHash } from 'crypto';
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { DataProcessor, ContentFetcher, AIProcessor } from '../../src/core/processor';
+import { ApiKeyValidator, ProcessingRequestValidator } from '../../src/core/validators';
+import {
+  AnalysisMode,
+  ContentType,
+  OutputFormat,
+  type ContentInput,
+  type ProcessingRequest
+} from '../../src/core/types';
+import { PdfMockFactory } from '../mocks/factories';
+
+const PARAGRAPH = 'Local notes describe how spaced repetition strengthens long-term memory retention over weeks. ';
+
+function requestFor(input: string | ContentInput): ProcessingRequest {
+  return {
+    input,
+    options: {
+      analysisMode: AnalysisMode.STANDARD,
+      includeTimestamps: false,
+      includeTranscript: false,
+      outputFormat: OutputFormat.MARKDOWN,
+      extractEntities: true
+    },
+    auth: { apiKey: 'AIzaSyA1234567890abcdefghijklmnopqrstu', encrypted: false, source: 'user' }
+  };
+}
+
+describe('Local file and text input', () => {
+  const spies: Array<{ mockRestore(): void }> = [];
+  let dir: string;
+
+  beforeAll(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'obsidianize-local-'));
+  });
+
+  afterAll(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  afterEach(() => {
+    spies.splice(0).forEach(spy => spy.mockRestore());
+  });
+
+  function stubAi(): ReturnType<typeof spyOn> {
+    const processContent = spyOn(AIProcessor.prototype, 'processContent').mockResolvedValue({
+      summary: 'Spaced repetition schedules reviews at growing intervals so that memories consolidate over time instead of fading after a single study session.',
+      keyPoints: ['Reviews are spaced out over time', 'Intervals grow after each successful recall'],
+      analysis: 'The notes argue that spacing reviews is more effective than massed practice, because each retrieval at a longer interval strengthens the memory trace.',
+      entities: [],
+      insights: ['Spacing beats cramming'],
+      tokensUsed: 0
+    });
+    spies.push(spyOn(ApiKeyValidator, 'testGeminiKey').mockResolvedValue({ valid: true }), processContent);
+    return processContent;
+  }
+
+  describe('DataProcessor', () => {
+    it('should process pasted text and record a content hash as the source', async () => {
+      const processContent = stubAi();
+      const fetchContent = spyOn(ContentFetcher.prototype, 'fetchContent');
+      spies.push(fetchContent);
+      const text = `# Spaced Repetition\n\n${PARAGRAPH.repeat(5)}`;
+
+      const result = await new DataProcessor().processRequest(requestFor({ text }));
+
+      expect(result.success).toBe(true);
+      expect(fetchContent).not.toHaveBeenCalled();
+      expect(processContent.mock.calls[0][0]).toContain('Local notes describe');
+      expect(result.data?.frontmatter.title).toBe('Spaced Repetition');
+      const source = `sha256:${createHash('sha256').update(text).digest('hex')}`;
+      expect(result.data?.frontmatter.source).toBe(source);
+      expect(result.metadata.sourceUrl).toBe(source);
+    });
+
+    it('should process a Markdown file and record its absolute path', async () => {
+      stubAi();
+      const filePath = join(dir, 'memory-notes.md');
+      await writeFile(filePath, PARAGRAPH.repeat(5));
+
+      const result = await new DataProcessor().processRequest(requestFor({ filePath }));
+
+      expect(result.success).toBe(true);
+      expect(result.data?.frontmatter.source).toBe(filePath);
+      expect(result.data?.frontmatter.title).toBe('memory notes');
+      expect(result.data?.frontmatter.type).toBe(ContentType.ARTICLE);
+    });
+
+    it('should reject missing and unsupported files', async () => {
+      stubAi();
+
+      const missing = await new DataProcessor().processRequest(requestFor({ filePath: join(dir, 'missing.txt') }));
+      expect(missing.success).toBe(false);
+      expect(missing.error?.code).toBe('FILE_NOT_FOUND');
+
+      const unsupported = await new DataProcessor().processRequest(requestFor({ filePath: join(dir, 'slides.pptx') }));
+      expect(unsupported.error?.code).toBe('UNSUPPORTED_FILE_TYPE');
+    });
+
+    it('should not share cache entries between different pasted texts', async () => {
+      const processContent = stubAi();
+      const processor = new DataProcessor();
+
+      await processor.processRequest(requestFor({ text: PARAGRAPH.repeat(3) }));
+      const second = await processor.processRequest(requestFor({ text: `Different. ${PARAGRAPH.repeat(3)}` }));
+
+      expect(second.metadata.cacheHit).toBe(false);
+      expect(processContent).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('ContentFetcher.loadLocalContent', () => {
+    const fetcher = new ContentFetcher();
+
+    it('should extract text from HTML files', async () => {
+      const filePath = join(dir, 'page.html');
+      await writeFile(filePath, `<html><head><title>Saved Page</title><script>ignored()</script></head><body><article>${PARAGRAPH}</article></body></html>`);
+
+      const result = await fetcher.loadLocalContent({ filePath });
+
+      expect(result.metadata.title).toBe('Saved Page');
+      expect(result.metadata.format).toBe('html');
+      expect(result.content).toContain('Local notes describe');
+      expect(result.content).not.toContain('ignored()');
+    });
+
+    it('should extract PDFs from files and from buffers with a MIME type', async () => {
+      const pdf = PdfMockFactory.create([[PARAGRAPH.trim()]], { Title: 'Memory Research' });
+      const filePath = join(dir, 'paper.pdf');
+      await writeFile(filePath, pdf);
+
+      const fromFile = await fetcher.loadLocalContent({ filePath });
+      expect(fromFile.type).toBe(ContentType.PAPER);
+      expect(fromFile.metadata.title).toBe('Memory Research');
+      expect(fromFile.content).toContain('[Page 1]');
+
+      const fromBuffer = await fetcher.loadLocalContent({ buffer: Buffer.from(pdf), mimeType: 'application/pdf' });
+      expect(fromBuffer.content).toBe(fromFile.content);
+      expect(fromBuffer.metadata.source).toMatch(/^sha256:[a-f0-9]{64}$/);
+    });
+
+    it('should detect formats from MIME type or content and honour an explicit type', async () => {
+      const html = await fetcher.loadLocalContent({ text: `<p>${PARAGRAPH}</p>`, mimeType: 'text/html; charset=utf-8' });
+      expect(html.metadata.format).toBe('html');
+      expect(html.content).not.toContain('<p>');
+
+      const sniffed = await fetcher.loadLocalContent({ buffer: Buffer.from(PdfMockFactory.create([[PARAGRAPH.trim()]])) });
+      expect(sniffed.metadata.format).toBe('pdf');
+
+      const typed = await fetcher.loadLocalContent({ text: PARAGRAPH, type: ContentType.PODCAST });
+      expect(typed.type).toBe(ContentType.PODCAST);
+    });
+
+    it('should reject empty input', async () => {
+      const error = await fetcher.loadLocalContent({ text: '   ' }).catch(e => e);
+      expect(error.code).toBe('EMPTY_CONTENT');
+    });
+  });
+
+  describe('request validation', () => {
+    it('should require exactly one content source', async () => {
+      const validator = new ProcessingRequestValidator();
+
+      expect((await validator.validate(requestFor({ text: PARAGRAPH, type: ContentType.ARTICLE }))).valid).toBe(true);
+      expect((await validator.validate(requestFor({ type: ContentType.ARTICLE }))).valid).toBe(false);
+      expect((await validator.validate(requestFor({ text: PARAGRAPH, filePath: '/tmp/a.md' }))).valid).toBe(false);
+    });
+  });
+});
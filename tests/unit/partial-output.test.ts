@@ -0,0 +1,103 @@
+import { describe, it, expect, spyOn, afterEach } from 'bun:test';
+import { parsePartialJson, renderPartialAnalysis } from '../../src/core/ai/partial-output';
+import { MockProvider } from '../../src/core/ai/providers';
+import { AIProcessor, ContentFetcher, DataProcessor, DEFAULT_CONFIG } from '../../src/core/processor';
+import { AnalysisMode, ContentType, OutputFormat, type ProcessingOptions, type ProcessingRequest } from '../../src/core/types';
+
+const options: ProcessingOptions = {
+  analysisMode: AnalysisMode.STANDARD,
+  includeTimestamps: false,
+  includeTranscript: false,
+  outputFormat: OutputFormat.MARKDOWN,
+  extractEntities: true
+};
+
+const ANALYSIS = {
+  title: 'Spaced Repetition',
+  summary: 'Spaced repetition schedules reviews at growing intervals so that each review lands just before the memory fades.',
+  keyPoints: ['Intervals grow after each successful review', 'Failed reviews reset the interval'],
+  sections: [{
+    heading: 'Practical Applications',
+    content: 'Flashcard apps implement the schedule.',
+    subsections: [{ heading: 'Anki', content: 'Anki uses a variant of the SM-2 algorithm.' }]
+  }],
+  analysis: 'The technique trades a small daily review habit for long-term retention. Its main cost is the discipline of reviewing every day.',
+  entities: [],
+  insights: ['Forgetting is what makes reviews effective'],
+  tags: ['learning']
+};
+
+describe('Partial output', () => {
+  it('should parse unfinished JSON up to where it stops', () => {
+    expect(parsePartialJson('Sure! ')).toBeUndefined();
+    expect(parsePartialJson('```json\n{"summary": "Spaced rep')).toEqual({ summary: 'Spaced rep' });
+    expect(parsePartialJson('{"summary": "Done", "keyPoints": ["One", "Tw')).toEqual({ summary: 'Done', keyPoints: ['One', 'Tw'] });
+    expect(parsePartialJson('{"summary": "Done", "keyPoints":')).toEqual({ summary: 'Done' });
+    expect(parsePartialJson('{"summary": "Done", "confidence": 0.')).toEqual({ summary: 'Done' });
+    expect(parsePartialJson('{"summary": "Say \\"hi\\')).toEqual({ summary: 'Say "hi' });
+    expect(parsePartialJson(JSON.stringify(ANALYSIS) + '\ntrailing')).toEqual(ANALYSIS);
+  });
+
+  it('should render the fields written so far in the note layout', () => {
+    expect(renderPartialAnalysis({ title: 'Only a title' })).toBe('');
+    expect(renderPartialAnalysis({ summary: 'So far', keyPoints: ['One'] })).toBe('## Summary\nSo far\n\n## Key Points\n- One');
+
+    const markdown = renderPartialAnalysis(ANALYSIS);
+    expect(markdown).toContain('## Content Sections\n### Practical Applications\nFlashcard apps implement the schedule.\n#### Anki');
+    expect(markdown).toEndWith(`## Analysis\n${ANALYSIS.analysis}`);
+  });
+
+  it('should stream previews of the analysis as it is written', async () => {
+    const provider = new MockProvider({ defaultResponse: JSON.stringify(ANALYSIS, null, 2) });
+    const stream = spyOn(provider, 'stream');
+    const previews: string[] = [];
+
+    const result = await new AIProcessor(provider, DEFAULT_CONFIG)
+      .processContent('Body text.', ContentType.ARTICLE, options, {}, { onPartialOutput: markdown => previews.push(markdown) });
+
+    expect(stream).toHaveBeenCalledTimes(1);
+    expect(previews.length).toBeGreaterThan(10);
+    expect(previews[0]).toStartWith('## Summary\n');
+    expect(previews[0].length).toBeLessThan(previews[previews.length - 1].length);
+    expect(new Set(previews).size).toBe(previews.length);
+    expect(previews[previews.length - 1]).toBe(renderPartialAnalysis(ANALYSIS));
+    expect(result.summary).toBe(ANALYSIS.summary);
+  });
+
+  describe('in the processing pipeline', () => {
+    const spies: Array<{ mockRestore(): void }> = [];
+
+    afterEach(() => {
+      spies.splice(0).forEach(spy => spy.mockRestore());
+    });
+
+    it('should report previews before the validated gem', async () => {
+      spies.push(
+        spyOn(ContentFetcher.prototype, 'fetchContent').mockResolvedValue({
+          content: 'Spaced repetition schedules reviews at growing intervals. '.repeat(10),
+          type: ContentType.ARTICLE,
+          metadata: { title: 'Spaced Repetition' }
+        })
+      );
+      const request: ProcessingRequest = {
+        input: 'https://example.com/article/spacing',
+        options,
+        auth: { apiKey: 'AIzaSyA1234567890abcdefghijklmnopqrstu', encrypted: false, source: 'user' }
+      };
+      const previews: string[] = [];
+
+      const result = await new DataProcessor({
+        provider: { provider: 'mock', mock: { defaultResponse: JSON.stringify(ANALYSIS) } }
+      }).processRequest(request, {
+        onPartialOutput: markdown => {
+          previews.push(markdown);
+          throw new Error('listener failure must not fail the request');
+        }
+      });
+
+      expect(result.success).toBe(true);
+      expect(previews.length).toBeGreaterThan(1);
+      expect(result.data?.content.sections[0].subsections?.[0].heading).toBe('Anki');
+    });
+  });
+});
@@ -0,0 +1,86 @@
+import { describe, it, expect } from 'bun:test';
+import { ContentAnalyzer } from '../../src/core/ai/content-analyzer';
+import { ContentError } from '../../src/core/errors';
+import { PdfMockFactory } from '../mocks/factories';
+
+const PAGE_ONE = [
+  'Attention is a mechanism that lets models weigh the relevance of every input token.',
+  'We describe a transformer architecture built entirely on attention layers.'
+];
+const PAGE_TWO = [
+  'Experiments on translation benchmarks show improved quality and faster training.',
+  'We discuss limitations and directions for future research in the conclusion.'
+];
+
+describe('ContentAnalyzer PDF extraction', () => {
+  it('should extract page-aware text', async () => {
+    const result = await ContentAnalyzer.extractPdfFromBuffer(
+      PdfMockFactory.create([PAGE_ONE, PAGE_TWO]),
+      'https://example.com/papers/attention.pdf'
+    );
+
+    expect(result.type).toBe('paper');
+    expect(result.content).toContain('[Page 1]\nAttention is a mechanism');
+    expect(result.content).toContain('[Page 2]\nExperiments on translation');
+    expect(result.content.indexOf('[Page 1]')).toBeLessThan(result.content.indexOf('[Page 2]'));
+    expect(result.wordCount).toBeGreaterThan(40);
+  });
+
+  it('should map document info into metadata', async () => {
+    const result = await ContentAnalyzer.extractPdfFromBuffer(
+      PdfMockFactory.create([PAGE_ONE, PAGE_TWO], {
+        Title: 'Attention Is All You Need',
+        Author: 'Ashish Vaswani; Noam Shazeer and Niki Parmar',
+        Subject: 'Sequence transduction with attention',
+        Keywords: 'Transformers, Attention',
+        CreationDate: 'D:20170612120000Z'
+      }),
+      'https://example.com/papers/1706.03762.pdf'
+    );
+
+    expect(result.metadata.title).toBe('Attention Is All You Need');
+    expect(result.metadata.authors).toEqual(['Ashish Vaswani', 'Noam Shazeer', 'Niki Parmar']);
+    expect(result.metadata.author).toBe('Ashish Vaswani, Noam Shazeer, Niki Parmar');
+    expect(result.metadata.description).toBe('Sequence transduction with attention');
+    expect(result.metadata.pageCount).toBe(2);
+    expect(result.metadata.tags).toEqual(['transformers', 'attention']);
+    expect(result.metadata.publishDate?.getUTCFullYear()).toBe(2017);
+  });
+
+  it('should fall back to the filename for the title', async () => {
+    const result = await ContentAnalyzer.extractPdfFromBuffer(
+      PdfMockFactory.create([PAGE_ONE]),
+      'https://example.com/papers/deep_learning-survey.pdf'
+    );
+
+    expect(result.metadata.title).toBe('deep learning survey');
+    expect(result.metadata.authors).toBeUndefined();
+  });
+
+  it('should reject scanned or image-only PDFs with a clear error', async () => {
+    const error = await ContentAnalyzer.extractPdfFromBuffer(
+      PdfMockFactory.create([[], []]),
+      'https://example.com/scan.pdf'
+    ).catch(e => e);
+
+    expect(error).toBeInstanceOf(ContentError);
+    expect(error.code).toBe('PDF_NO_TEXT');
+    expect(error.message).toContain('scanned or image-only');
+    expect(error.suggestion).toContain('OCR');
+  });
+
+  it('should reject data that is not a PDF', async () => {
+    const error = await ContentAnalyzer.extractPdfFromBuffer(
+      new TextEncoder().encode('<html>not a pdf</html>'),
+      'https://example.com/fake.pdf'
+    ).catch(e => e);
+
+    expect(error).toBeInstanceOf(ContentError);
+    expect(error.code).toBe('PDF_INVALID');
+  });
+
+  it('should treat arXiv PDF links as papers', () => {
+    expect(ContentAnalyzer.detectContentType('https://arxiv.org/pdf/1706.03762')).toBe('paper');
+    expect(ContentAnalyzer.detectContentType('https://arxiv.org/abs/1706.03762')).toBe('article');
+  });
+});
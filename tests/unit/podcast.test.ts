@@ -0,0 +1,251 @@
+import { describe, it, expect } from 'bun:test';
+import { URLValidator } from '../../src/core/validators';
+import {
+  detectTranscriptFormat,
+  extractPodcastEpisode,
+  parseItunesDuration,
+  parsePodcastFeed,
+  parseTranscript,
+  podcastContent
+} from '../../src/core/podcast';
+import { transcriptToText } from '../../src/core/transcript';
+import { ContentType } from '../../src/core/types';
+import { SafeFetcher, type Fetcher } from '../../src/core/network';
+
+const FEED_URL = 'https://feeds.example.com/show.xml';
+const APPLE_URL = 'https://podcasts.apple.com/us/podcast/the-show/id123456?i=1000654321';
+
+const feedXml = (transcripts: string) => `<?xml version="1.0"?>
+<rss version="2.0" xmlns:itunes="http://www.itunes.com/dtds/podcast-1.0.dtd" xmlns:podcast="https://podcastindex.org/namespace/1.0">
+  <channel>
+    <title>The Show</title>
+    <link>https://show.example.com</link>
+    <language>en-us</language>
+    <itunes:author>Ada Host</itunes:author>
+    <itunes:image href="https://show.example.com/cover.jpg"/>
+    <item>
+      <title>Episode 12: Compilers</title>
+      <link>https://show.example.com/episodes/12</link>
+      <guid isPermaLink="false">ep-12</guid>
+      <pubDate>Tue, 03 Sep 2024 08:00:00 GMT</pubDate>
+      <description><![CDATA[<p>All about <b>compilers</b>.</p>]]></description>
+      <enclosure url="https://cdn.example.com/ep12.mp3?src=rss" type="audio/mpeg" length="1"/>
+      <itunes:duration>1:02:03</itunes:duration>
+      <itunes:episode>12</itunes:episode>
+      <itunes:season>2</itunes:season>
+      ${transcripts}
+    </item>
+    <item>
+      <title>Episode 11: Parsers</title>
+      <guid>ep-11</guid>
+      <itunes:duration>2710</itunes:duration>
+    </item>
+  </channel>
+</rss>`;
+
+const VTT = `WEBVTT
+
+1
+00:00:00.000 --> 00:00:04.500
+<v Ada Host>Welcome to the show.
+
+2
+00:00:04.500 --> 00:00:09.000
+<v Alan Guest>Thanks for having me &amp; my notes.
+
+3
+00:01:05.000 --> 00:01:10.000
+<v Alan Guest>Compilers are translators.`;
+
+/** Serve `routes` by URL; anything else is a 404 */
+function fakeFetch(routes: Record<string, string>, requested: string[] = []): Fetcher {
+  return async input => {
+    const url = String(input);
+    requested.push(url);
+    return url in routes ? new Response(routes[url]) : new Response('Not found', { status: 404 });
+  };
+}
+
+describe('Podcast transcript formats', () => {
+  it('detects formats from the MIME type, then the extension', () => {
+    expect(detectTranscriptFormat('text/vtt')).toBe('vtt');
+    expect(detectTranscriptFormat('application/x-subrip')).toBe('srt');
+    expect(detectTranscriptFormat('application/json; charset=utf-8')).toBe('json');
+    expect(detectTranscriptFormat(undefined, 'https://x.test/ep.srt?v=2')).toBe('srt');
+    expect(detectTranscriptFormat('application/octet-stream', 'https://x.test/ep')).toBeUndefined();
+  });
+
+  it('keeps WebVTT voices and cue timings', () => {
+    const transcript = parseTranscript(VTT, 'vtt', 'en')!;
+
+    expect(transcript.language).toBe('en');
+    expect(transcript.segments).toHaveLength(3);
+    expect(transcript.segments[1]).toEqual({ start: 4.5, duration: 4.5, speaker: 'Alan Guest', text: 'Thanks for having me & my notes.' });
+    expect(transcriptToText(transcript, { timestamps: true })).toBe(
+      '[00:00] Ada Host: Welcome to the show.\n\n[00:04] Alan Guest: Thanks for having me & my notes.\n\n[01:05] Alan Guest: Compilers are translators.'
+    );
+  });
+
+  it('reads speaker labels from SRT text', () => {
+    const srt = '1\r\n00:00:01,000 --> 00:00:02,500\r\nAda Host: Hello there.\r\n\r\n2\r\n00:00:02,500 --> 00:00:04,000\r\nno label here';
+    const transcript = parseTranscript(srt, 'srt')!;
+
+    expect(transcript.segments[0]).toEqual({ start: 1, duration: 1.5, speaker: 'Ada Host', text: 'Hello there.' });
+    expect(transcript.segments[1].speaker).toBeUndefined();
+  });
+
+  it('parses the JSON and HTML transcript formats', () => {
+    const json = JSON.stringify({
+      version: '1.0.0',
+      segments: [
+        { speaker: 'Ada', startTime: 3.2, endTime: 5, body: 'Second.' },
+        { speaker: 'Alan', startTime: 0.5, endTime: 3.2, body: 'First.' },
+        { startTime: 6, body: '  ' }
+      ]
+    });
+    expect(parseTranscript(json, 'json')!.segments.map(segment => [segment.speaker, segment.text])).toEqual([['Alan', 'First.'], ['Ada', 'Second.']]);
+    expect(parseTranscript('not json', 'json')).toBeNull();
+
+    const html = '<cite>Ada:</cite><time>0:00</time><p>Hello.</p><cite>Alan:</cite><time>1:02:03</time><p>Hi.</p>';
+    const fromHtml = parseTranscript(html, 'html')!;
+    expect(fromHtml.untimed).toBeUndefined();
+    expect(fromHtml.segments[1]).toEqual({ start: 3723, duration: 0, speaker: 'Alan', text: 'Hi.' });
+
+    const text = parseTranscript('Ada: Hello.\nAlan: Hi.', 'text')!;
+    expect(text.untimed).toBe(true);
+    expect(transcriptToText(text, { timestamps: true })).toBe('Ada: Hello.\n\nAlan: Hi.');
+  });
+});
+
+describe('Podcast feeds', () => {
+  it('reads show details, episode numbering and transcript links', () => {
+    const feed = parsePodcastFeed(feedXml('<podcast:transcript url="https://show.example.com/12.vtt" type="text/vtt" language="en"/>'))!;
+
+    expect(feed).toMatchObject({ title: 'The Show', author: 'Ada Host', language: 'en-us', image: 'https://show.example.com/cover.jpg' });
+    expect(feed.episodes).toHaveLength(2);
+    expect(feed.episodes[0]).toMatchObject({
+      guid: 'ep-12',
+      title: 'Episode 12: Compilers',
+      description: 'All about compilers.',
+      duration: 3723,
+      episode: 12,
+      season: 2,
+      enclosureUrl: 'https://cdn.example.com/ep12.mp3?src=rss'
+    });
+    expect(feed.episodes[0].publishedAt?.toISOString()).toBe('2024-09-03T08:00:00.000Z');
+    expect(feed.episodes[0].transcripts).toEqual([{ url: 'https://show.example.com/12.vtt', type: 'text/vtt', language: 'en', rel: undefined }]);
+    expect(feed.episodes[1].duration).toBe(2710);
+    expect(parsePodcastFeed('<feed xmlns="http://www.w3.org/2005/Atom"></feed>')).toBeNull();
+  });
+
+  it('parses iTunes durations', () => {
+    expect(parseItunesDuration('45:10')).toBe(2710);
+    expect(parseItunesDuration('3600')).toBe(3600);
+    expect(parseItunesDuration('about an hour')).toBeUndefined();
+  });
+});
+
+describe('Podcast episodes', () => {
+  it('accepts Apple Podcasts and Spotify episode URLs', () => {
+    expect(URLValidator.validateAndClassify(APPLE_URL).type).toBe(ContentType.PODCAST);
+    expect(URLValidator.validateAndClassify('https://open.spotify.com/episode/4rOoJ6Egrf8K2IrywzwOMk').type).toBe(ContentType.PODCAST);
+  });
+
+  it('resolves Apple Podcasts links through the iTunes lookup and prefers the JSON transcript', async () => {
+    const requested: string[] = [];
+    const fetch = fakeFetch({
+      'https://itunes.apple.com/lookup?id=123456&entity=podcastEpisode&limit=200': JSON.stringify({
+        results: [
+          { wrapperType: 'track', kind: 'podcast', feedUrl: FEED_URL },
+          { wrapperType: 'podcastEpisode', trackId: 1000654321, trackName: 'Compilers', episodeGuid: 'ep-12' }
+        ]
+      }),
+      [FEED_URL]: feedXml(`
+        <podcast:transcript url="https://show.example.com/12.vtt" type="text/vtt"/>
+        <podcast:transcript url="/transcripts/12.json" type="application/json"/>`),
+      'https://feeds.example.com/transcripts/12.json': JSON.stringify({
+        segments: [{ speaker: 'Ada Host', startTime: 0, endTime: 4, body: 'Welcome to the show.' }]
+      })
+    }, requested);
+
+    const extraction = await extractPodcastEpisode(APPLE_URL, { fetch });
+
+    expect(extraction.title).toBe('Episode 12: Compilers');
+    expect(extraction.transcript?.segments).toHaveLength(1);
+    expect(extraction.metadata).toMatchObject({
+      show: 'The Show',
+      author: 'Ada Host',
+      episodeNumber: 12,
+      seasonNumber: 2,
+      duration: '1:02:03',
+      durationSeconds: 3723,
+      publishDate: '2024-09-03T08:00:00.000Z',
+      feedUrl: FEED_URL,
+      transcriptAvailable: true,
+      transcriptFormat: 'json',
+      transcriptUrl: 'https://feeds.example.com/transcripts/12.json'
+    });
+    expect(requested).not.toContain('https://show.example.com/12.vtt');
+
+    const content = podcastContent(extraction, { timestamps: true });
+    expect(content).toContain('**Show:** The Show · **Season:** 2 · **Episode:** 12 · **Duration:** 1:02:03');
+    expect(content).toContain('## Transcript\n\n[00:00] Ada Host: Welcome to the show.');
+    expect(content).toContain('## Show Notes\n\nAll about compilers.');
+  });
+
+  it('follows the feed an episode page advertises and falls back to the next transcript', async () => {
+    const pageUrl = 'https://show.example.com/episodes/12/';
+    const fetch = fakeFetch({
+      [pageUrl]: `<html><head>
+        <link rel="alternate" type="application/rss+xml" href="${FEED_URL}">
+        <meta property="og:title" content="Episode 12: Compilers | The Show">
+      </head></html>`,
+      [FEED_URL]: feedXml(`
+        <podcast:transcript url="https://show.example.com/12.json" type="application/json"/>
+        <podcast:transcript url="https://show.example.com/12.vtt" type="text/vtt"/>`),
+      'https://show.example.com/12.vtt': VTT
+    });
+
+    const extraction = await extractPodcastEpisode(pageUrl, { fetch });
+
+    expect(extraction.metadata.transcriptFormat).toBe('vtt');
+    expect(extraction.transcript?.segments.map(segment => segment.speaker)).toEqual(['Ada Host', 'Alan Guest', 'Alan Guest']);
+  });
+
+  it('reads feeds up to the feed size cap through the safe fetcher', async () => {
+    const pageUrl = 'https://show.example.com/episodes/12/';
+    const routes: Record<string, string> = {
+      [pageUrl]: `<html><head><link rel="alternate" type="application/rss+xml" href="${FEED_URL}"></head></html>`,
+      [FEED_URL]: feedXml('')
+    };
+    /** A safe fetcher whose feed declares `feedBytes`; the page stays small */
+    const declaringFeedOf = (feedBytes: number): Fetcher => {
+      const fetcher = new SafeFetcher({ respectRobots: false }, {
+        lookup: async () => ['93.184.216.34'],
+        transport: async url => new Response(routes[url.href], {
+          headers: url.href === FEED_URL ? { 'Content-Length': String(feedBytes) } : {}
+        })
+      });
+      return (input, init) => fetcher.fetch(input, init);
+    };
+
+    const extraction = await extractPodcastEpisode(pageUrl, { fetch: declaringFeedOf(15 * 1024 * 1024) });
+    expect(extraction.metadata.feedUrl).toBe(FEED_URL);
+
+    const error = await extractPodcastEpisode(pageUrl, { fetch: declaringFeedOf(25 * 1024 * 1024) }).catch(e => e);
+    expect(error).toMatchObject({ code: 'PODCAST_TOO_LARGE', recoverable: false });
+  });
+
+  it('falls back to the page description when no feed item matches', async () => {
+    const pageUrl = 'https://open.spotify.com/episode/4rOoJ6Egrf8K2IrywzwOMk';
+    const fetch = fakeFetch({
+      [pageUrl]: '<html><head><meta property="og:title" content="Compilers"><meta property="og:description" content="A talk about compilers."></head></html>'
+    });
+
+    const extraction = await extractPodcastEpisode(pageUrl, { fetch });
+
+    expect(extraction).toMatchObject({ title: 'Compilers', description: 'A talk about compilers.' });
+    expect(extraction.metadata.transcriptAvailable).toBe(false);
+    expect(podcastContent(extraction)).toContain('A talk about compilers.\n\n[Note: The feed publishes no transcript');
+  });
+});
@@ -0,0 +1,244 @@
+import { describe, it, expect } from 'bun:test';
+import {
+  HostScheduler,
+  RobotsCache,
+  SafeFetcher,
+  isPathAllowed,
+  parseRetryAfter,
+  parseRobotsTxt
+} from '../../src/core/network';
+import { SSRFProtection } from '../../src/core/validators/ssrf-protection';
+
+const SCHEDULER_DEFAULTS = {
+  minHostInterval: 0,
+  domainIntervals: {},
+  maxConcurrentPerHost: 2,
+  maxRetries: 2,
+  maxRetryDelay: 1000
+};
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/** A fetcher that checks robots.txt, with DNS and connections served from a table */
+function politeNetwork(routes: Record<string, () => Response>): { fetcher: SafeFetcher; sent: string[] } {
+  const sent: string[] = [];
+  const fetcher = new SafeFetcher({ respectRobots: true }, {
+    ssrf: new SSRFProtection(),
+    lookup: async () => ['93.184.216.34'],
+    transport: async url => {
+      sent.push(url.href);
+      return routes[url.href]?.() ?? new Response('Not found', { status: 404 });
+    },
+    scheduler: new HostScheduler(SCHEDULER_DEFAULTS)
+  });
+  return { fetcher, sent };
+}
+
+describe('robots.txt', () => {
+  const robots = `
+# Everyone
+User-agent: *
+Disallow: /private/
+Crawl-delay: 1
+
+User-agent: Obsidianize/1.0
+User-agent: OtherBot
+Disallow: /drafts/
+Allow: /drafts/public
+Disallow: /*.pdf$
+Crawl-delay: 0.5
+`;
+
+  it('applies the group naming our user agent instead of the * group', () => {
+    const policy = parseRobotsTxt(robots, 'Obsidianize');
+
+    expect(policy.crawlDelay).toBe(500);
+    expect(isPathAllowed(policy, '/private/page')).toBe(true);
+    expect(isPathAllowed(policy, '/drafts/secret')).toBe(false);
+  });
+
+  it('falls back to the * group for other agents', () => {
+    const policy = parseRobotsTxt(robots, 'SomeoneElse');
+
+    expect(policy.crawlDelay).toBe(1000);
+    expect(isPathAllowed(policy, '/private/page')).toBe(false);
+    expect(isPathAllowed(policy, '/drafts/secret')).toBe(true);
+  });
+
+  it('lets the longest rule win, with Allow winning ties, and supports wildcards', () => {
+    const policy = parseRobotsTxt(robots, 'Obsidianize');
+
+    expect(isPathAllowed(policy, '/drafts/public/post')).toBe(true);
+    expect(isPathAllowed(policy, '/papers/report.pdf')).toBe(false);
+    expect(isPathAllowed(policy, '/papers/report.pdf?download=1')).toBe(true);
+    expect(isPathAllowed(parseRobotsTxt('User-agent: *\nDisallow: /page\nAllow: /page'), '/page')).toBe(true);
+  });
+
+  it('always allows robots.txt itself', () => {
+    expect(isPathAllowed(parseRobotsTxt('User-agent: *\nDisallow: /'), '/robots.txt')).toBe(true);
+  });
+
+  it('caches each origin once and allows everything when robots.txt is missing', async () => {
+    let requests = 0;
+    const cache = new RobotsCache(async () => {
+      requests++;
+      return new Response('Not found', { status: 404 });
+    });
+
+    const [first, second] = await Promise.all([
+      cache.isAllowed(new URL('https://example.com/a')),
+      cache.isAllowed(new URL('https://example.com/b'))
+    ]);
+
+    expect(first && second).toBe(true);
+    expect(requests).toBe(1);
+  });
+
+  it('reads only the first 500 KiB of an oversized robots.txt', async () => {
+    const body = 'User-agent: *\nDisallow: /private\n' + '# padding\n'.repeat(60_000) + 'Disallow: /\n';
+    const cache = new RobotsCache(async () => new Response(body));
+
+    expect(await cache.isAllowed(new URL('https://example.com/private/a'))).toBe(false);
+    expect(await cache.isAllowed(new URL('https://example.com/public'))).toBe(true);
+  });
+
+  it('asks again soon when robots.txt could not be read', async () => {
+    let requests = 0;
+    const cache = new RobotsCache(async () => {
+      requests++;
+      throw new Error('connection reset');
+    }, { retryTtl: 0 });
+
+    expect(await cache.isAllowed(new URL('https://example.com/'))).toBe(true);
+    await cache.isAllowed(new URL('https://example.com/'));
+
+    expect(requests).toBe(2);
+  });
+});
+
+describe('HostScheduler', () => {
+  it('reads Retry-After as seconds or a date', () => {
+    const now = Date.parse('2026-01-01T00:00:00Z');
+
+    expect(parseRetryAfter('120', now)).toBe(120_000);
+    expect(parseRetryAfter('Thu, 01 Jan 2026 00:00:30 GMT', now)).toBe(30_000);
+    expect(parseRetryAfter('soon', now)).toBeUndefined();
+    expect(parseRetryAfter(null, now)).toBeUndefined();
+  });
+
+  it('uses the most specific domain interval', () => {
+    const scheduler = new HostScheduler({
+      ...SCHEDULER_DEFAULTS,
+      minHostInterval: 100,
+      domainIntervals: { 'example.com': 1000, 'api.example.com': 0 }
+    });
+
+    expect(scheduler.intervalFor('www.example.com')).toBe(1000);
+    expect(scheduler.intervalFor('api.example.com')).toBe(0);
+    expect(scheduler.intervalFor('other.org')).toBe(100);
+  });
+
+  it('spaces request starts to the same host by the interval or Crawl-delay', async () => {
+    const scheduler = new HostScheduler({ ...SCHEDULER_DEFAULTS, minHostInterval: 20 });
+    const starts: number[] = [];
+    const send = async () => {
+      starts.push(Date.now());
+      return new Response('ok');
+    };
+
+    await Promise.all([1, 2, 3].map(() => scheduler.run(new URL('https://example.com/'), send, { crawlDelay: 40 })));
+
+    expect(starts[1] - starts[0]).toBeGreaterThanOrEqual(35);
+    expect(starts[2] - starts[1]).toBeGreaterThanOrEqual(35);
+  });
+
+  it('caps the requests in flight per host but not across hosts', async () => {
+    const scheduler = new HostScheduler(SCHEDULER_DEFAULTS);
+    const active = new Map<string, number>();
+    let mostPerHost = 0;
+    let mostOverall = 0;
+
+    await Promise.all(['a.example', 'a.example', 'a.example', 'a.example', 'b.example', 'b.example'].map(host =>
+      scheduler.run(new URL(`https://${host}/`), async () => {
+        active.set(host, (active.get(host) ?? 0) + 1);
+        mostPerHost = Math.max(mostPerHost, active.get(host)!);
+        mostOverall = Math.max(mostOverall, [...active.values()].reduce((sum, count) => sum + count, 0));
+        await sleep(10);
+        active.set(host, active.get(host)! - 1);
+        return new Response('ok');
+      })
+    ));
+
+    expect(mostPerHost).toBe(2);
+    expect(mostOverall).toBe(4);
+  });
+
+  it('retries a 429 after the Retry-After wait', async () => {
+    const scheduler = new HostScheduler(SCHEDULER_DEFAULTS);
+    const statuses = [429, 200];
+    let attempts = 0;
+
+    const response = await scheduler.run(new URL('https://example.com/'), async () => {
+      const status = statuses[attempts++];
+      return new Response(null, { status, headers: status === 429 ? { 'Retry-After': '0' } : {} });
+    }, { retry: true });
+
+    expect(response.status).toBe(200);
+    expect(attempts).toBe(2);
+  });
+
+  it('returns a 503 asking for a longer wait and holds the host back', async () => {
+    const scheduler = new HostScheduler(SCHEDULER_DEFAULTS);
+    let attempts = 0;
+    const unavailable = async () => {
+      attempts++;
+      return new Response(null, { status: 503, headers: { 'Retry-After': '60' } });
+    };
+
+    const response = await scheduler.run(new URL('https://example.com/a'), unavailable, { retry: true });
+    expect(response.status).toBe(503);
+    expect(attempts).toBe(1);
+
+    const next = scheduler.run(new URL('https://example.com/b'), unavailable, { signal: AbortSignal.timeout(30) });
+    await expect(next).rejects.toBeDefined();
+    expect(attempts).toBe(1);
+
+    const elsewhere = await scheduler.run(new URL('https://other.example/'), async () => new Response('ok'));
+    expect(elsewhere.status).toBe(200);
+  });
+});
+
+describe('SafeFetcher politeness', () => {
+  const routes = {
+    'https://site.example/robots.txt': () => new Response('User-agent: *\nDisallow: /members/\n'),
+    'https://site.example/members/page': () => new Response('members only'),
+    'https://site.example/public': () => new Response('public')
+  };
+
+  it('refuses paths robots.txt disallows without requesting them', async () => {
+    const { fetcher, sent } = politeNetwork(routes);
+
+    await expect(fetcher.fetch('https://site.example/members/page')).rejects.toMatchObject({ code: 'ROBOTS_DISALLOWED' });
+    expect(await (await fetcher.fetch('https://site.example/public')).text()).toBe('public');
+
+    expect(sent).toEqual(['https://site.example/robots.txt', 'https://site.example/public']);
+  });
+
+  it('fetches a disallowed path when the request opts out', async () => {
+    const { fetcher, sent } = politeNetwork(routes);
+
+    const response = await fetcher.fetch('https://site.example/members/page', { respectRobots: false });
+
+    expect(await response.text()).toBe('members only');
+    expect(sent).toEqual(['https://site.example/members/page']);
+  });
+
+  it('checks robots.txt on the host a redirect leads to', async () => {
+    const { fetcher } = politeNetwork({
+      ...routes,
+      'https://short.example/x': () => new Response(null, { status: 302, headers: { Location: 'https://site.example/members/page' } })
+    });
+
+    await expect(fetcher.fetch('https://short.example/x')).rejects.toMatchObject({ code: 'ROBOTS_DISALLOWED' });
+  });
+});
@@ -0,0 +1,118 @@
+import { describe, it, expect, spyOn, afterEach } from 'bun:test';
+import { DataProcessor, ContentFetcher, AIProcessor, PROCESSING_STAGES } from '../../src/core/processor';
+import { ApiKeyValidator, GeminiGemValidator } from '../../src/core/validators';
+import {
+  AnalysisMode,
+  ContentType,
+  OutputFormat,
+  type ProcessingRequest,
+  type ProgressEvent
+} from '../../src/core/types';
+
+const request: ProcessingRequest = {
+  input: 'https://example.com/article',
+  options: {
+    analysisMode: AnalysisMode.STANDARD,
+    includeTimestamps: false,
+    includeTranscript: false,
+    outputFormat: OutputFormat.MARKDOWN,
+    extractEntities: true
+  },
+  auth: { apiKey: 'AIzaSyA1234567890abcdefghijklmnopqrstu', encrypted: false, source: 'user' }
+};
+
+describe('DataProcessor progress', () => {
+  const spies: Array<{ mockRestore(): void }> = [];
+
+  afterEach(() => {
+    spies.splice(0).forEach(spy => spy.mockRestore());
+  });
+
+  function stubPipeline(): void {
+    spies.push(
+      spyOn(ApiKeyValidator, 'testGeminiKey').mockResolvedValue({ valid: true }),
+      spyOn(ContentFetcher.prototype, 'fetchContent').mockResolvedValue({
+        content: 'Article body '.repeat(20),
+        type: ContentType.ARTICLE,
+        metadata: { title: 'Stubbed Article' }
+      }),
+      spyOn(AIProcessor.prototype, 'processContent').mockResolvedValue({
+        summary: 'A stubbed summary of the article content.',
+        keyPoints: ['First point', 'Second point'],
+        analysis: 'Stubbed analysis.',
+        entities: [],
+        insights: ['insight'],
+        tokensUsed: 0
+      }),
+      spyOn(GeminiGemValidator.prototype, 'validate').mockResolvedValue({ valid: true, errors: [], warnings: [] })
+    );
+  }
+
+  it('should report the start and end of every stage in order', async () => {
+    stubPipeline();
+    const events: ProgressEvent[] = [];
+
+    const result = await new DataProcessor().processRequest(request, {
+      onProgress: (event) => { events.push(event); }
+    });
+
+    expect(result.success).toBe(true);
+    expect(events.map(e => `${e.stage}:${e.stageStatus}`)).toEqual(
+      PROCESSING_STAGES.flatMap(stage => [`${stage.name}:processing`, `${stage.name}:completed`])
+    );
+
+    const progress = events.map(e => e.progress);
+    expect(progress).toEqual([...progress].sort((a, b) => a - b));
+    expect(events[events.length - 1].progress).toBe(100);
+    expect(events[events.length - 1].stages).toHaveLength(PROCESSING_STAGES.length);
+    expect(events.find(e => e.stage === 'ai_processing')?.totalStages).toBe(PROCESSING_STAGES.length);
+  });
+
+  it('should estimate remaining time once progress has been made', async () => {
+    stubPipeline();
+    const events: ProgressEvent[] = [];
+
+    await new DataProcessor().processRequest(request, { onProgress: (event) => { events.push(event); } });
+
+    const fetchDone = events.find(e => e.stage === 'content_fetch' && e.stageStatus === 'completed');
+    expect(fetchDone?.stageDuration).toBeGreaterThanOrEqual(0);
+    expect(events[0].estimatedTimeRemaining).toBeUndefined();
+    expect(events[events.length - 1].estimatedTimeRemaining).toBeUndefined();
+  });
+
+  it('should report the failing stage', async () => {
+    spies.push(spyOn(ApiKeyValidator, 'testGeminiKey').mockResolvedValue({ valid: false, error: 'bad key' }));
+    const events: ProgressEvent[] = [];
+
+    const result = await new DataProcessor().processRequest(request, {
+      onProgress: (event) => { events.push(event); }
+    });
+
+    expect(result.success).toBe(false);
+    expect(events.map(e => `${e.stage}:${e.stageStatus}`)).toEqual(['validation:processing', 'validation:failed']);
+    expect(events[1].progress).toBe(0);
+  });
+
+  it('should not fail the request when the progress callback throws', async () => {
+    stubPipeline();
+
+    const result = await new DataProcessor().processRequest(request, {
+      onProgress: () => { throw new Error('listener broke'); }
+    });
+
+    expect(result.success).toBe(true);
+  });
+
+  it('should expose in-flight progress through getProgress', async () => {
+    stubPipeline();
+    const processor = new DataProcessor();
+    const seen: string[] = [];
+
+    await processor.processRequest(request, {
+      onProgress: () => { seen.push(String(processor.getProgress().stage)); }
+    });
+
+    expect(seen).toContain('ai_processing');
+    expect(processor.getProgress().stage).toBe('idle');
+  });
+});
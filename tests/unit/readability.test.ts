@@ -0,0 +1,139 @@
+import { describe, it, expect, afterEach } from 'bun:test';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import * as cheerio from 'cheerio';
+import { extractArticle, elementsToMarkdown } from '../../src/core/readability';
+import { ContentFetcher } from '../../src/core/processor';
+import { SafeFetcher, setSafeFetcher } from '../../src/core/network';
+
+const FIXTURES = join(import.meta.dir, '../fixtures/articles');
+
+/** A saved page from the corpus */
+const page = (name: string) => readFileSync(join(FIXTURES, `${name}.html`), 'utf8');
+
+const toMarkdown = (html: string, baseUrl?: string) => {
+  const $ = cheerio.load(html);
+  return elementsToMarkdown($, $('body').contents().toArray(), { baseUrl });
+};
+
+describe('Article extraction', () => {
+  it('extracts a blog post without its navigation, sidebar, comments or share buttons', () => {
+    const article = extractArticle(page('blog-post'), { url: 'https://ada.example/posts/tiny-compiler' });
+
+    expect(article).toMatchObject({
+      title: 'Writing a Tiny Compiler in a Weekend',
+      byline: 'Ada Lovelace',
+      siteName: "Ada's Notebook",
+      publishedTime: '2024-09-03T08:00:00+00:00',
+      language: 'en-GB',
+      extractedMain: true
+    });
+    for (const furniture of ['cookies', 'Archive', 'Recent posts', 'Great post', 'Share on', 'All rights reserved']) {
+      expect(article.markdown).not.toContain(furniture);
+    }
+    // The title is left to the caller
+    expect(article.markdown).not.toContain('# Writing a Tiny Compiler');
+    expect(article.markdown.startsWith('Compilers have a reputation for being *hard*. They are, a little, but a **small** one')).toBe(true);
+  });
+
+  it('keeps headings, nested lists, links, quotes, code and tables as Markdown', () => {
+    const { markdown } = extractArticle(page('blog-post'), { url: 'https://ada.example/posts/tiny-compiler' });
+
+    expect(markdown).toContain('\n\n## The pipeline\n\n');
+    expect(markdown).toContain('\n\n### Lexing\n\n');
+    expect(markdown).toContain([
+      '1. The **lexer** turns characters into tokens.',
+      '2. The **parser** turns tokens into a tree:',
+      '   - expressions bind by precedence,',
+      '   - statements are a flat list.',
+      '3. The **code generator** walks the tree and emits stack machine instructions.'
+    ].join('\n'));
+    expect(markdown).toContain('with a `switch` on the current one. Read the [longer post on lexers](https://ada.example/posts/lexers) if');
+    expect(markdown).toContain("```typescript\nfunction lex(source: string): Token[] {\n  const tokens: Token[] = [];\n  for (let i = 0; i < source.length; i++) {\n    if (source[i] === '`') tokens.push({ kind: 'tick' });");
+    expect(markdown).toContain('> Make it work, make it right, make it fast.\n>\n> — Kent Beck');
+    expect(markdown).toContain('| Stage | Time (ms) | Share |\n| --- | --- | --- |\n| Lexer | 12 | 20% |\n| Parser | 30 | 50% |\n| Codegen \\| emit | 18 | 30% |');
+  });
+
+  it('finds a news story in unmarked divs and reads JSON-LD metadata', () => {
+    const article = extractArticle(page('news-story'), { url: 'https://news.example/2024/06/bridge' });
+
+    expect(article).toMatchObject({
+      title: 'City opens its first car-free bridge',
+      byline: 'Grace Hopper, Alan Turing',
+      siteName: 'The Daily Example',
+      publishedTime: '2024-06-12T06:30:00Z'
+    });
+    expect(article.markdown).toContain('![Cyclists crossing the new bridge at sunrise](https://news.example/images/bridge.jpg)\n\n*The bridge carries an expected 8,000 cyclists a day.*');
+    expect(article.markdown).toContain('Work on a second crossing, further downstream');
+    for (const furniture of ['Buy now', 'Sport', 'Bike lanes double', 'Most read', 'Tracking pixel']) {
+      expect(article.markdown).not.toContain(furniture);
+    }
+  });
+
+  it('keeps language hints from highlighter markup and documentation tables', () => {
+    const article = extractArticle(page('docs-page'));
+
+    expect(article.title).toBe('Configuration');
+    expect(article.markdown).toContain('```shell\npip install widget-toolkit && widget init\n```');
+    expect(article.markdown).toContain('```python\nfrom widget import settings\n\nconfig = settings.load("widget.toml")\nprint(config["timeout"])\n```');
+    expect(article.markdown).toContain('| Name | Default | Description |\n| --- | --- | --- |\n| `timeout` | 30 | Seconds to wait for a *response* |');
+    expect(article.markdown).toContain('**Environment overrides**\n\nValues from the environment always win over the file.');
+    expect(article.markdown).toContain('3. Edit the file.\n4. Restart the service.');
+    expect(article.markdown).not.toContain('Install](#install)');
+    expect(article.markdown).not.toContain('Copyright');
+  });
+
+  it('falls back to the whole body for pages without a content block', () => {
+    const article = extractArticle('<html><body>Just one line of text.</body></html>');
+
+    expect(article.extractedMain).toBe(false);
+    expect(article.markdown).toBe('Just one line of text.');
+  });
+});
+
+describe('HTML to Markdown', () => {
+  it('fences code that contains backticks and drops in-page and script links', () => {
+    expect(toMarkdown('<pre><code>a ```fence``` b</code></pre>')).toBe('````\na ```fence``` b\n````');
+    expect(toMarkdown('<p>Use <code>a`b</code>, see <a href="#top">top</a> or <a href="javascript:void(0)">this</a>.</p>')).toBe('Use ``a`b``, see top or this.');
+  });
+
+  it('resolves relative URLs and escapes link text and URLs', () => {
+    expect(toMarkdown('<p><a href="/wiki/Foo_(bar)">The [best] page</a></p>', 'https://wiki.example/a/b'))
+      .toBe('[The \\[best\\] page](https://wiki.example/wiki/Foo_%28bar%29)');
+  });
+
+  it('keeps emphasis spacing and line breaks', () => {
+    expect(toMarkdown('<p>one<strong> two </strong>three<br>four <del>five</del></p>')).toBe('one **two** three\nfour ~~five~~');
+  });
+
+  it('reads single-column layout tables as paragraphs', () => {
+    expect(toMarkdown('<table><tr><td><p>First paragraph.</p></td></tr><tr><td><p>Second.</p></td></tr></table>'))
+      .toBe('First paragraph.\n\nSecond.');
+  });
+});
+
+describe('ContentFetcher web pages', () => {
+  afterEach(() => {
+    setSafeFetcher(null);
+  });
+
+  it('passes the article to the model as Markdown with its title', async () => {
+    setSafeFetcher(new SafeFetcher({}, {
+      lookup: async () => ['93.184.216.34'],
+      transport: async () => new Response(page('blog-post'), {
+        headers: { 'Content-Type': 'text/html; charset=utf-8' }
+      })
+    }));
+
+    const result = await new ContentFetcher().fetchContent('https://ada.example/blog/tiny-compiler');
+
+    expect(result.content.startsWith('# Writing a Tiny Compiler in a Weekend\n\nCompilers have a reputation')).toBe(true);
+    expect(result.content).toContain('## The pipeline');
+    expect(result.metadata).toMatchObject({
+      title: 'Writing a Tiny Compiler in a Weekend',
+      author: 'Ada Lovelace',
+      publishDate: '2024-09-03T08:00:00+00:00',
+      extractedMain: true
+    });
+  });
+});
@@ -0,0 +1,176 @@
+import { describe, it, expect, afterEach } from 'bun:test';
+import { SafeFetcher } from '../../src/core/network';
+import { SSRFProtection } from '../../src/core/validators/ssrf-protection';
+
+const PUBLIC_IP = '93.184.216.34';
+
+interface SentRequest {
+  url: string;
+  address: string;
+  method: string;
+  headers: Headers;
+}
+
+/** A fetcher whose DNS and connections are served from tables */
+function fakeNetwork(
+  routes: Record<string, () => Response>,
+  dns: Record<string, string[]> = {}
+): { fetcher: SafeFetcher; sent: SentRequest[] } {
+  const sent: SentRequest[] = [];
+  const fetcher = new SafeFetcher({ respectRobots: false }, {
+    ssrf: new SSRFProtection(),
+    lookup: async hostname => dns[hostname] ?? [PUBLIC_IP],
+    transport: async (url, address, init) => {
+      sent.push({ url: url.href, address, method: String(init.method), headers: new Headers(init.headers) });
+      return routes[url.href]?.() ?? new Response('Not found', { status: 404 });
+    }
+  });
+  return { fetcher, sent };
+}
+
+const redirect = (location: string, status = 302) => () => new Response(null, { status, headers: { Location: location } });
+
+/** A body that never ends, in 1 KB chunks */
+const endless = () => new Response(new ReadableStream({
+  pull(controller) {
+    controller.enqueue(new Uint8Array(1024));
+  }
+}));
+
+describe('SafeFetcher', () => {
+  describe('redirects', () => {
+    it('refuses a redirect to the metadata service or loopback without requesting it', async () => {
+      for (const target of ['http://169.254.169.254/latest/meta-data/', 'http://127.0.0.1:8080/admin', 'http://[::1]/']) {
+        const { fetcher, sent } = fakeNetwork({ 'https://public.example/go': redirect(target) });
+
+        await expect(fetcher.fetch('https://public.example/go')).rejects.toMatchObject({ code: 'URL_BLOCKED' });
+        expect(sent.map(request => request.url)).toEqual(['https://public.example/go']);
+      }
+    });
+
+    it('follows safe redirects and reports the final URL', async () => {
+      const { fetcher, sent } = fakeNetwork({
+        'https://public.example/old': redirect('/new', 301),
+        'https://public.example/new': redirect('https://www.public.example/article'),
+        'https://www.public.example/article': () => new Response('the article')
+      });
+
+      const response = await fetcher.fetch('https://public.example/old');
+
+      expect(await response.text()).toBe('the article');
+      expect(response.url).toBe('https://www.public.example/article');
+      expect(response.redirected).toBe(true);
+      expect(sent).toHaveLength(3);
+    });
+
+    it('drops credentials on another origin and turns a 303 into a GET', async () => {
+      const { fetcher, sent } = fakeNetwork({
+        'https://public.example/form': redirect('https://other.example/done', 303),
+        'https://other.example/done': () => new Response('ok')
+      });
+
+      await fetcher.fetch('https://public.example/form', {
+        method: 'POST',
+        body: 'a=1',
+        headers: { Authorization: 'Bearer secret', 'Content-Type': 'application/x-www-form-urlencoded' }
+      });
+
+      expect(sent[0]).toMatchObject({ method: 'POST' });
+      expect(sent[0].headers.get('authorization')).toBe('Bearer secret');
+      expect(sent[1]).toMatchObject({ method: 'GET' });
+      expect(sent[1].headers.get('authorization')).toBeNull();
+      expect(sent[1].headers.get('content-type')).toBeNull();
+    });
+
+    it('gives up after too many redirects', async () => {
+      const { fetcher } = fakeNetwork({ 'https://public.example/loop': redirect('/loop') });
+
+      await expect(fetcher.fetch('https://public.example/loop', { maxRedirects: 3 })).rejects.toMatchObject({ code: 'TOO_MANY_REDIRECTS' });
+    });
+  });
+
+  describe('DNS', () => {
+    it('refuses hostnames with any address in a blocked range', async () => {
+      const { fetcher, sent } = fakeNetwork({}, {
+        'rebind.example': ['10.0.0.5'],
+        'mixed.example': [PUBLIC_IP, '169.254.169.254'],
+        'v6.example': ['fd00::1']
+      });
+
+      for (const host of ['rebind.example', 'mixed.example', 'v6.example']) {
+        await expect(fetcher.fetch(`https://${host}/`)).rejects.toMatchObject({ code: 'URL_BLOCKED' });
+      }
+      expect(sent).toHaveLength(0);
+    });
+
+    it('connects to the address it vetted', async () => {
+      const { fetcher, sent } = fakeNetwork({ 'https://public.example/': () => new Response('ok') }, {
+        'public.example': ['2606:4700::6810:84e5', PUBLIC_IP]
+      });
+
+      await fetcher.fetch('https://public.example/');
+
+      expect(sent[0].address).toBe('2606:4700::6810:84e5');
+    });
+
+    it('reports hostnames that do not resolve', async () => {
+      const fetcher = new SafeFetcher({}, {
+        lookup: async () => {
+          throw new Error('getaddrinfo ENOTFOUND');
+        }
+      });
+
+      await expect(fetcher.fetch('https://missing.example/')).rejects.toMatchObject({ code: 'DNS_LOOKUP_FAILED' });
+    });
+  });
+
+  describe('body size', () => {
+    it('stops reading a body once it passes the limit', async () => {
+      const { fetcher } = fakeNetwork({ 'https://public.example/big': endless });
+
+      const response = await fetcher.fetch('https://public.example/big', { maxBytes: 10 * 1024 });
+
+      await expect(response.text()).rejects.toMatchObject({ code: 'RESPONSE_TOO_LARGE' });
+    });
+
+    it('refuses a declared length over the limit before reading', async () => {
+      const { fetcher } = fakeNetwork({
+        'https://public.example/big': () => new Response('x'.repeat(2048), { headers: { 'Content-Length': '2048' } })
+      });
+
+      await expect(fetcher.fetch('https://public.example/big', { maxBytes: 1024 })).rejects.toMatchObject({ code: 'RESPONSE_TOO_LARGE' });
+    });
+  });
+
+  describe('pinned connections', () => {
+    let server: ReturnType<typeof Bun.serve> | undefined;
+
+    afterEach(() => {
+      server?.stop(true);
+    });
+
+    it('sends the request to the vetted address with the original Host header', async () => {
+      server = Bun.serve({
+        port: 0,
+        hostname: '127.0.0.1',
+        fetch: req => new Response(`host=${req.headers.get('host')}`)
+      });
+      const ssrf = new SSRFProtection();
+      ssrf.allowInternalRange('127.0.0.1');
+      let lookups = 0;
+      const fetcher = new SafeFetcher({ respectRobots: false }, {
+        ssrf,
+        lookup: async () => {
+          lookups++;
+          return ['127.0.0.1'];
+        }
+      });
+
+      const response = await fetcher.fetch(`http://pinned.example:${server.port}/page`);
+
+      expect(await response.text()).toBe(`host=pinned.example:${server.port}`);
+      expect(response.url).toBe(`http://pinned.example:${server.port}/page`);
+      expect(lookups).toBe(1);
+    });
+  });
+});
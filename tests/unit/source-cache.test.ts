@@ -0,0 +1,172 @@
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import { SqliteSourceCache, setSourceCache } from '../../src/core/cache/source-cache';
+import { SafeFetcher, setSafeFetcher } from '../../src/core/network';
+import { DataProcessor } from '../../src/core/processor';
+import { AnalysisMode, type ProcessingRequest } from '../../src/core/types';
+import { ArticleMockFactory, GeminiMockFactory } from '../mocks/factories';
+
+const ARTICLE_URL = ArticleMockFactory.URL;
+const article = ArticleMockFactory.createHtml;
+const requestFor = ArticleMockFactory.createRequest;
+
+/** A fresh processor per request, as the web routes use; the shared result cache is off under test */
+const processRequest = (request: ProcessingRequest) =>
+  new DataProcessor({ provider: { provider: 'mock' }, useSourceCache: true }).processRequest(request);
+
+describe('SqliteSourceCache', () => {
+  let cache: SqliteSourceCache;
+
+  beforeEach(() => {
+    cache = new SqliteSourceCache({ cleanupInterval: 0 });
+  });
+
+  afterEach(() => {
+    cache.close();
+  });
+
+  it('keeps a source with its validators and body', async () => {
+    await cache.save({ url: ARTICLE_URL, etag: '"v1"', lastModified: 'Mon, 01 Jan 2024 00:00:00 GMT', body: new Uint8Array([1, 2, 3]), contentHash: 'sha256:a' });
+
+    const source = await cache.get(ARTICLE_URL);
+
+    expect(source).toMatchObject({ url: ARTICLE_URL, etag: '"v1"', lastModified: 'Mon, 01 Jan 2024 00:00:00 GMT', contentHash: 'sha256:a' });
+    expect([...source!.body!]).toEqual([1, 2, 3]);
+    expect(await cache.get('https://example.com/other')).toBeNull();
+  });
+
+  it('only serves a gem while the content hash matches', async () => {
+    const gem = GeminiMockFactory.createMockGem();
+    await cache.save({ url: ARTICLE_URL, contentHash: 'sha256:a' });
+    await cache.saveGem(ARTICLE_URL, 'standard', 'sha256:a', gem);
+
+    const kept = await cache.getGem(ARTICLE_URL, 'standard', 'sha256:a');
+
+    expect(kept?.frontmatter.title).toBe(gem.frontmatter.title);
+    expect(kept?.frontmatter.processed).toBeInstanceOf(Date);
+    expect(await cache.getGem(ARTICLE_URL, 'standard', 'sha256:b')).toBeNull();
+    expect(await cache.getGem(ARTICLE_URL, 'academic', 'sha256:a')).toBeNull();
+  });
+
+  it('removes the least recently checked sources once the bodies pass the size cap', async () => {
+    cache.close();
+    cache = new SqliteSourceCache({ maxBodyBytes: 10, cleanupInterval: 0 });
+    const body = new TextEncoder().encode('12345');
+
+    await cache.save({ url: 'https://a.com', body, contentHash: 'a' });
+    await cache.saveGem('https://a.com', 'standard', 'a', GeminiMockFactory.createMockGem());
+    await Bun.sleep(5);
+    await cache.save({ url: 'https://b.com', body, contentHash: 'b' });
+    await Bun.sleep(5);
+    await cache.touch('https://a.com');
+    await cache.save({ url: 'https://c.com', body, contentHash: 'c' });
+
+    expect(await cache.get('https://b.com')).toBeNull();
+    expect(await cache.get('https://a.com')).not.toBeNull();
+    expect(await cache.getGem('https://a.com', 'standard', 'a')).not.toBeNull();
+    expect(await cache.get('https://c.com')).not.toBeNull();
+  });
+
+  it('removes sources not checked within the retention period, with their gems', async () => {
+    cache.close();
+    cache = new SqliteSourceCache({ retentionMs: 50, cleanupInterval: 0 });
+    await cache.save({ url: ARTICLE_URL, contentHash: 'sha256:a' });
+    await cache.saveGem(ARTICLE_URL, 'standard', 'sha256:a', GeminiMockFactory.createMockGem());
+    await Bun.sleep(80);
+    await cache.save({ url: 'https://example.com/fresh', contentHash: 'sha256:b' });
+
+    expect(await cache.cleanup()).toBe(1);
+    expect(await cache.get(ARTICLE_URL)).toBeNull();
+    expect(await cache.getGem(ARTICLE_URL, 'standard', 'sha256:a')).toBeNull();
+    expect(await cache.get('https://example.com/fresh')).not.toBeNull();
+  });
+});
+
+describe('DataProcessor with the source cache', () => {
+  let cache: SqliteSourceCache;
+  let sent: Headers[];
+  let respond: (headers: Headers) => Response;
+
+  beforeEach(() => {
+    cache = new SqliteSourceCache({ cleanupInterval: 0 });
+    setSourceCache(cache);
+    sent = [];
+    setSafeFetcher(new SafeFetcher({ respectRobots: false }, {
+      lookup: async () => ['93.184.216.34'],
+      transport: async (_url, _address, init) => {
+        const headers = new Headers(init.headers);
+        sent.push(headers);
+        return respond(headers);
+      }
+    }));
+  });
+
+  afterEach(() => {
+    setSafeFetcher(null);
+    setSourceCache(null);
+    cache.close();
+  });
+
+  it('revalidates with the stored ETag and reuses the gem on 304', async () => {
+    respond = headers => headers.get('if-none-match') === '"v1"'
+      ? new Response(null, { status: 304, headers: { ETag: '"v1"' } })
+      : new Response(article('Spaced repetition'), { headers: { 'Content-Type': 'text/html', ETag: '"v1"' } });
+
+    const first = await processRequest(requestFor());
+    const second = await processRequest(requestFor());
+
+    expect(first.success).toBe(true);
+    expect(first.metadata.cacheHit).toBe(false);
+    expect(sent[1].get('if-none-match')).toBe('"v1"');
+    expect(second.success).toBe(true);
+    expect(second.metadata.cacheHit).toBe(true);
+    expect(second.metadata.tokensUsed).toBe(0);
+    expect(second.metadata.stages.map(stage => stage.name)).not.toContain('ai_processing');
+    expect(second.metadata.stages.at(-1)?.name).toBe('source_unchanged');
+    expect(second.data?.content.summary).toBe(first.data!.content.summary);
+  });
+
+  it('keeps gems of other models apart', async () => {
+    respond = headers => headers.get('if-none-match') === '"v1"'
+      ? new Response(null, { status: 304, headers: { ETag: '"v1"' } })
+      : new Response(article('Spaced repetition'), { headers: { 'Content-Type': 'text/html', ETag: '"v1"' } });
+
+    await processRequest(requestFor());
+    const otherModel = await new DataProcessor({ provider: { provider: 'mock', model: 'mock-large' }, useSourceCache: true })
+      .processRequest(requestFor());
+
+    expect(otherModel.success).toBe(true);
+    expect(otherModel.metadata.cacheHit).toBe(false);
+    expect(otherModel.metadata.stages.map(stage => stage.name)).toContain('ai_processing');
+  });
+
+  it('sends If-Modified-Since and rebuilds the content from the stored body for other options', async () => {
+    respond = headers => headers.has('if-modified-since')
+      ? new Response(null, { status: 304 })
+      : new Response(article('Spaced repetition'), {
+        headers: { 'Content-Type': 'text/html', 'Last-Modified': 'Mon, 01 Jan 2024 00:00:00 GMT' }
+      });
+
+    await processRequest(requestFor(AnalysisMode.STANDARD));
+    const academic = await processRequest(requestFor(AnalysisMode.ACADEMIC));
+
+    expect(sent[1].get('if-modified-since')).toBe('Mon, 01 Jan 2024 00:00:00 GMT');
+    expect(academic.success).toBe(true);
+    expect(academic.metadata.cacheHit).toBe(false);
+    expect(academic.data?.frontmatter.title).toContain('Spaced repetition');
+  });
+
+  it('detects a changed body by its hash when the server sends no validators', async () => {
+    let topic = 'Spaced repetition';
+    respond = () => new Response(article(topic), { headers: { 'Content-Type': 'text/html' } });
+
+    await processRequest(requestFor());
+    const unchanged = await processRequest(requestFor());
+    topic = 'Interleaved practice';
+    const changed = await processRequest(requestFor());
+
+    expect(sent.every(headers => !headers.has('if-none-match') && !headers.has('if-modified-since'))).toBe(true);
+    expect(unchanged.metadata.cacheHit).toBe(true);
+    expect(changed.metadata.cacheHit).toBe(false);
+    expect(changed.data?.frontmatter.title).toContain('Interleaved practice');
+  });
+});
@@ -104,6 +104,15 @@ describe('SSRF Protection', () => {
       expect(result.safe).toBe(false);
       expect(result.error).toContain('IPv6 loopback');
     });
+
+    it('should block loopback written as IPv4-mapped or bracketed IPv6', () => {
+      expect(ssrfProtection.validateIP('::ffff:127.0.0.1').safe).toBe(false);
+      expect(ssrfProtection.validateIP('::ffff:7f00:1').safe).toBe(false);
+      expect(ssrfProtection.validateIP('0:0:0:0:0:0:0:1').safe).toBe(false);
+      expect(ssrfProtection.validateURL('http://[::1]:8080/').safe).toBe(false);
+      expect(ssrfProtection.validateURL('http://[::ffff:169.254.169.254]/latest/meta-data').safe).toBe(false);
+      expect(ssrfProtection.validateIP('2606:4700:4700::1111').safe).toBe(true);
+    });
   });
 
   describe('Private Network Blocking', () => {
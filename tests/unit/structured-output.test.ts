@@ -0,0 +1,147 @@
+import { describe, it, expect, spyOn, afterEach } from 'bun:test';
+import { MockProvider, OpenAICompatibleProvider } from '../../src/core/ai/providers';
+import { AIProcessor, ContentFetcher, DataProcessor, DEFAULT_CONFIG } from '../../src/core/processor';
+import { aiAnalysisSchema } from '../../src/core/validators';
+import {
+  AnalysisMode,
+  ContentType,
+  OutputFormat,
+  ProcessingStatus,
+  type ProcessingOptions,
+  type ProcessingRequest
+} from '../../src/core/types';
+
+const options: ProcessingOptions = {
+  analysisMode: AnalysisMode.STANDARD,
+  includeTimestamps: false,
+  includeTranscript: false,
+  outputFormat: OutputFormat.MARKDOWN,
+  extractEntities: true
+};
+
+const VALID = {
+  title: 'Spaced Repetition',
+  summary: 'Spaced repetition schedules reviews at growing intervals so that each review lands just before the memory fades.',
+  keyPoints: ['Intervals grow after each successful review', 'Failed reviews reset the interval'],
+  analysis: 'The technique trades a small daily review habit for long-term retention. Its main cost is the discipline of reviewing every day, which tools reduce by scheduling reviews automatically.',
+  sections: [{ heading: 'Practical Applications', content: 'Flashcard apps such as Anki implement the schedule.' }],
+  entities: [{ text: 'Anki', type: 'technology', confidence: 0.9 }],
+  insights: ['Forgetting is what makes reviews effective'],
+  tags: ['learning', 'memory']
+};
+
+/** The valid analysis with a summary too short for a gem */
+const TOO_SHORT = JSON.stringify({ ...VALID, summary: 'Too short.' });
+
+const REPAIR_MARKER = 'Your previous response was rejected';
+
+describe('Structured AI output', () => {
+  it('should hold model output to the gem limits', () => {
+    expect(aiAnalysisSchema.safeParse(VALID).success).toBe(true);
+
+    const result = aiAnalysisSchema.safeParse({ ...VALID, entities: [{ text: 'Anki', type: 'software', confidence: 2 }] });
+    expect(result.success).toBe(false);
+    expect(result.error?.issues.map(issue => issue.path.join('.'))).toEqual(['entities.0.type', 'entities.0.confidence']);
+  });
+
+  it('should request JSON output and accept a valid reply in one call', async () => {
+    const provider = new MockProvider({ defaultResponse: '```json\n' + JSON.stringify(VALID) + '\n```' });
+
+    const result = await new AIProcessor(provider, DEFAULT_CONFIG).processContent('Body text.', ContentType.ARTICLE, options);
+
+    expect(provider.requests).toHaveLength(1);
+    expect(provider.requests[0].responseFormat).toBe('json');
+    expect(result.summary).toBe(VALID.summary);
+    expect(result.sections?.[0]).toMatchObject({ id: 'practical-applications', order: 0 });
+  });
+
+  it('should re-prompt with the validation errors until the reply is valid', async () => {
+    const provider = new MockProvider({
+      fixtures: [{ match: REPAIR_MARKER, response: JSON.stringify(VALID) }],
+      defaultResponse: TOO_SHORT
+    });
+    const attempts: Array<{ name: string; status: string; data?: Record<string, unknown> }> = [];
+
+    const result = await new AIProcessor(provider, DEFAULT_CONFIG)
+      .processContent('Body text.', ContentType.ARTICLE, options, {}, { onAttempt: stage => attempts.push(stage) });
+
+    expect(result.title).toBe('Spaced Repetition');
+    expect(provider.requests).toHaveLength(2);
+    expect(provider.requests[1].prompt).toContain('- summary: Summary too short');
+    expect(provider.requests[1].prompt).toContain(TOO_SHORT);
+    expect(attempts.map(a => [a.name, a.status, a.data?.attempt])).toEqual([
+      ['ai_generation', ProcessingStatus.FAILED, 1],
+      ['ai_repair', ProcessingStatus.COMPLETED, 2]
+    ]);
+    expect(result.tokensUsed).toBeGreaterThan(0);
+  });
+
+  it('should fail after the last repair attempt', async () => {
+    const provider = new MockProvider({ defaultResponse: 'Sorry, I cannot produce JSON.' });
+    const config = { ...DEFAULT_CONFIG, structuredOutput: { maxRepairAttempts: 1 } };
+
+    const error = await new AIProcessor(provider, config)
+      .processContent('Body text.', ContentType.ARTICLE, options)
+      .catch(e => e);
+
+    expect(error.code).toBe('AI_OUTPUT_INVALID');
+    expect(error.details.attempts).toBe(2);
+    expect(error.details.issues[0]).toStartWith('Response is not valid JSON');
+    expect(provider.requests).toHaveLength(2);
+  });
+
+  it('should ask OpenAI-compatible servers for a JSON object', async () => {
+    const bodies: unknown[] = [];
+    const provider = new OpenAICompatibleProvider({
+      model: 'llama3',
+      fetch: (async (_url: string | URL | Request, init?: RequestInit) => {
+        bodies.push(JSON.parse(String(init?.body)));
+        return Response.json({ choices: [{ message: { content: '{}' } }] });
+      }) as typeof fetch
+    });
+
+    await provider.generate({ prompt: 'Hi', responseFormat: 'json' });
+    await provider.generate({ prompt: 'Hi' });
+
+    expect(bodies[0]).toMatchObject({ response_format: { type: 'json_object' } });
+    expect(bodies[1]).not.toHaveProperty('response_format');
+  });
+
+  describe('in the processing pipeline', () => {
+    const spies: Array<{ mockRestore(): void }> = [];
+
+    afterEach(() => {
+      spies.splice(0).forEach(spy => spy.mockRestore());
+    });
+
+    it('should record every attempt in the processing stages', async () => {
+      spies.push(
+        spyOn(ContentFetcher.prototype, 'fetchContent').mockResolvedValue({
+          content: 'Spaced repetition schedules reviews at growing intervals. '.repeat(10),
+          type: ContentType.ARTICLE,
+          metadata: { title: 'Spaced Repetition' }
+        })
+      );
+      const request: ProcessingRequest = {
+        input: 'https://example.com/article/spacing',
+        options,
+        auth: { apiKey: 'AIzaSyA1234567890abcdefghijklmnopqrstu', encrypted: false, source: 'user' }
+      };
+
+      const result = await new DataProcessor({
+        provider: {
+          provider: 'mock',
+          mock: { fixtures: [{ match: REPAIR_MARKER, response: JSON.stringify(VALID) }], defaultResponse: TOO_SHORT }
+        }
+      }).processRequest(request);
+
+      expect(result.success).toBe(true);
+      const stages = result.metadata.stages;
+      expect(stages.map(s => s.name)).toEqual([
+        'validation', 'content_fetch', 'ai_processing', 'ai_generation', 'ai_repair', 'gem_creation', 'final_validation'
+      ]);
+      expect(stages[3].errors?.[0]).toMatchObject({ code: 'AI_OUTPUT_INVALID', recoverable: true });
+      expect(stages[4].data).toMatchObject({ pass: 'analysis', index: 0, attempt: 2 });
+    });
+  });
+});
@@ -0,0 +1,219 @@
+import { describe, it, expect, spyOn, afterEach } from 'bun:test';
+import {
+  parseMarkdownSections,
+  parseTemplateResponse,
+  sectionTypeForHeading
+} from '../../src/core/ai/template-response';
+import { MockProvider } from '../../src/core/ai/providers';
+import { AIProcessor, ContentFetcher, DataProcessor, DEFAULT_CONFIG } from '../../src/core/processor';
+import {
+  AnalysisMode,
+  ContentType,
+  EntityType,
+  OutputFormat,
+  SectionType,
+  type ProcessingOptions,
+  type ProcessingRequest
+} from '../../src/core/types';
+
+const options: ProcessingOptions = {
+  analysisMode: AnalysisMode.STANDARD,
+  includeTimestamps: false,
+  includeTranscript: false,
+  outputFormat: OutputFormat.MARKDOWN,
+  extractEntities: true
+};
+
+const VIDEO_RESPONSE = `---
+title: Building a Compiler in a Weekend
+source: https://www.youtube.com/watch?v=dQw4w9WgXcQ
+type: youtube
+tags: [compilers, rust, parsing]
+entities: [Ada Lovelace (person), LLVM (technology), the audience]
+insights:
+  - Parsers are easier than they look
+  - Start with an interpreter
+---
+
+# Summary
+The video walks through building a small compiler for an expression language over a weekend, from tokenizing source text to emitting LLVM IR, and explains which shortcuts are safe for a first attempt.
+
+## Key Points
+- Tokenize with a hand-written scanner
+- Use Pratt parsing for operator precedence
+- Emit LLVM IR instead of machine code
+
+## Technical Details
+The compiler is written in Rust and has three stages.
+
+### Parsing
+A Pratt parser handles precedence and associativity in about 200 lines.
+
+### Code Generation
+Each expression node lowers to a handful of LLVM instructions.
+
+## Speaker Insights
+"Most of a compiler is bookkeeping, not cleverness."
+
+## Critical Analysis
+The approach skips type checking entirely, which keeps the project small but would not scale to a real language with user-defined types.
+
+## Key Takeaways
+Build the smallest end-to-end pipeline first, then deepen one stage at a time.
+`;
+
+describe('Template responses', () => {
+  it('should map headings to section types', () => {
+    expect(sectionTypeForHeading('Summary')).toBe(SectionType.INTRODUCTION);
+    expect(sectionTypeForHeading('Key Arguments')).toBe(SectionType.KEY_POINTS);
+    expect(sectionTypeForHeading('Technical Details')).toBe(SectionType.METHODOLOGY);
+    expect(sectionTypeForHeading('Methodology')).toBe(SectionType.METHODOLOGY);
+    expect(sectionTypeForHeading('Results & Findings')).toBe(SectionType.FINDINGS);
+    expect(sectionTypeForHeading('Speaker Insights')).toBe(SectionType.QUOTES);
+    expect(sectionTypeForHeading('Resources Mentioned')).toBe(SectionType.REFERENCES);
+    expect(sectionTypeForHeading('Key Takeaways')).toBe(SectionType.CONCLUSION);
+    expect(sectionTypeForHeading('Broader Context')).toBe(SectionType.ANALYSIS);
+    expect(sectionTypeForHeading('Practical Applications')).toBe(SectionType.CUSTOM);
+  });
+
+  it('should nest deeper headings and keep a lone top heading beside its siblings', () => {
+    const sections = parseMarkdownSections(VIDEO_RESPONSE.split('---\n').slice(2).join('---\n'));
+
+    expect(sections.map(s => s.heading)).toEqual([
+      'Summary', 'Key Points', 'Technical Details', 'Speaker Insights', 'Critical Analysis', 'Key Takeaways'
+    ]);
+    const details = sections[2];
+    expect(details.subsections?.map(s => [s.id, s.type])).toEqual([
+      ['technical-details/parsing', SectionType.CUSTOM],
+      ['technical-details/code-generation', SectionType.CUSTOM]
+    ]);
+    expect(sections.map(s => s.order)).toEqual([0, 1, 2, 5, 6, 7]);
+  });
+
+  it('should ignore headings inside code fences', () => {
+    const sections = parseMarkdownSections('## Example\n```python\n# not a heading\n```\n## Next\nText here.');
+
+    expect(sections.map(s => s.heading)).toEqual(['Example', 'Next']);
+    expect(sections[0].content).toContain('# not a heading');
+  });
+
+  it('should split a response into summary, key points, analysis and sections', () => {
+    const parsed = parseTemplateResponse(VIDEO_RESPONSE);
+
+    expect(parsed.title).toBe('Building a Compiler in a Weekend');
+    expect(parsed.summary).toStartWith('The video walks through');
+    expect(parsed.keyPoints).toEqual([
+      'Tokenize with a hand-written scanner',
+      'Use Pratt parsing for operator precedence',
+      'Emit LLVM IR instead of machine code'
+    ]);
+    expect(parsed.analysis).toStartWith('Critical Analysis\nThe approach skips type checking');
+    expect(parsed.sections.map(s => [s.heading, s.type])).toEqual([
+      ['Technical Details', SectionType.METHODOLOGY],
+      ['Speaker Insights', SectionType.QUOTES],
+      ['Key Takeaways', SectionType.CONCLUSION]
+    ]);
+    expect(parsed.tags).toEqual(['compilers', 'rust', 'parsing']);
+    expect(parsed.insights).toEqual(['Parsers are easier than they look', 'Start with an interpreter']);
+    expect(parsed.entities).toEqual([
+      { text: 'Ada Lovelace', type: EntityType.PERSON, confidence: 0.8 },
+      { text: 'LLVM', type: EntityType.TECHNOLOGY, confidence: 0.8 },
+      { text: 'the audience', type: EntityType.CUSTOM, confidence: 0.5 }
+    ]);
+  });
+
+  it('should hoist subsections of a heading without content', () => {
+    const parsed = parseTemplateResponse('## Summary\nShort summary text.\n\n## Details\n\n### First\nFirst detail text.\n\n### Second\nSecond detail text.');
+
+    expect(parsed.sections.map(s => s.id)).toEqual(['details/first', 'details/second']);
+  });
+});
+
+/** The same analysis as the pipeline's JSON output */
+const VIDEO_ANALYSIS = {
+  title: 'Building a Compiler in a Weekend',
+  summary: 'The video walks through building a small compiler for an expression language over a weekend, from tokenizing source text to emitting LLVM IR.',
+  keyPoints: [
+    'Tokenize with a hand-written scanner',
+    'Use Pratt parsing for operator precedence',
+    'Emit LLVM IR instead of machine code'
+  ],
+  analysis: 'The approach skips type checking entirely, which keeps the project small but would not scale to a real language with user-defined types.',
+  sections: [
+    {
+      heading: 'Technical Details',
+      content: 'The compiler is written in Rust and has three stages.',
+      subsections: [
+        { heading: 'Parsing', content: 'A Pratt parser handles precedence and associativity in about 200 lines.' },
+        { heading: 'Code Generation', content: 'Each expression node lowers to a handful of LLVM instructions.' }
+      ]
+    },
+    { heading: 'Speaker Insights', content: '"Most of a compiler is bookkeeping, not cleverness."' },
+    { heading: 'Key Takeaways', content: 'Build the smallest end-to-end pipeline first, then deepen one stage at a time.' }
+  ],
+  entities: [{ text: 'LLVM', type: 'technology', confidence: 0.9 }],
+  insights: ['Parsers are easier than they look'],
+  tags: ['compilers', 'rust']
+};
+
+describe('Template prompts in the processing pipeline', () => {
+  const spies: Array<{ mockRestore(): void }> = [];
+
+  afterEach(() => {
+    spies.splice(0).forEach(spy => spy.mockRestore());
+  });
+
+  it('should prompt with the content type template without truncating', async () => {
+    const provider = new MockProvider({ defaultResponse: JSON.stringify(VIDEO_ANALYSIS) });
+    const transcript = 'word '.repeat(2500).trim();
+
+    await new AIProcessor(provider, DEFAULT_CONFIG).processContent(transcript, ContentType.YOUTUBE, options, {
+      title: 'Compiler Weekend',
+      channel: 'Lang Dev'
+    });
+    await new AIProcessor(provider, DEFAULT_CONFIG).processContent('A short post.', ContentType.TWITTER, options);
+    await new AIProcessor(provider, DEFAULT_CONFIG).processContent('Some text.', ContentType.UNKNOWN, options);
+
+    const [video, tweet, other] = provider.requests.map(r => r.prompt);
+    expect(video).toContain('YOUTUBE-SPECIFIC ANALYSIS FOCUS');
+    expect(video).toContain('Channel: Lang Dev');
+    expect(video).toContain(transcript);
+    expect(video).not.toContain('content truncated');
+    expect(video).toContain('## Technical Details');
+    expect(video).not.toContain('channel: [Channel name]');
+    expect(tweet).toContain('THREAD-SPECIFIC ANALYSIS FOCUS');
+    expect(other).toContain('ARTICLE-SPECIFIC ANALYSIS FOCUS');
+  });
+
+  it('should fill typed gem sections from the model output', async () => {
+    spies.push(
+      spyOn(ContentFetcher.prototype, 'fetchContent').mockResolvedValue({
+        content: 'Transcript of a talk about writing a compiler over a weekend. '.repeat(10),
+        type: ContentType.YOUTUBE,
+        metadata: { title: 'Compiler Weekend', videoId: 'dQw4w9WgXcQ' }
+      })
+    );
+    const request: ProcessingRequest = {
+      input: 'https://www.youtube.com/watch?v=dQw4w9WgXcQ',
+      options,
+      auth: { apiKey: 'AIzaSyA1234567890abcdefghijklmnopqrstu', encrypted: false, source: 'user' }
+    };
+
+    const result = await new DataProcessor({
+      provider: { provider: 'mock', mock: { fixtures: [{ match: '"sections" entry', response: JSON.stringify(VIDEO_ANALYSIS) }] } }
+    }).processRequest(request);
+
+    expect(result.success).toBe(true);
+    const gem = result.data!;
+    expect(gem.content.sections.map(s => s.type)).toEqual([
+      SectionType.METHODOLOGY, SectionType.QUOTES, SectionType.CONCLUSION
+    ]);
+    expect(gem.content.sections[0].subsections?.map(s => s.id)).toEqual([
+      'technical-details/parsing',
+      'technical-details/code-generation'
+    ]);
+    expect(gem.content.keyPoints).toHaveLength(3);
+    expect(gem.frontmatter.tags).toContain('compilers');
+    expect(gem.frontmatter.entities.map(e => e.text)).toContain('LLVM');
+  });
+});
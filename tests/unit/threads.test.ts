@@ -0,0 +1,180 @@
+import { describe, it, expect } from 'bun:test';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { URLValidator } from '../../src/core/validators';
+import { ContentType } from '../../src/core/types';
+import { PromptFactory } from '../../src/core/ai/prompts/prompt-factory';
+import {
+  detectThreadPlatform,
+  threadContent,
+  threadMetadata,
+  unrollThread
+} from '../../src/core/threads';
+import type { Fetcher } from '../../src/core/network';
+
+const FIXTURES = join(import.meta.dir, '../fixtures/threads');
+
+/** A recorded API response */
+const fixture = (name: string) => readFileSync(join(FIXTURES, name), 'utf8');
+
+const MASTODON_URL = 'https://mastodon.example/@ada/113000000000000003';
+const X_URL = 'https://x.com/ada_dev/status/1831000000000000003';
+
+/** Serve recorded responses by URL prefix; anything else is a 404 */
+function replay(routes: Array<[prefix: string, body: string | null]>, requested: string[] = []): Fetcher {
+  return async input => {
+    const url = String(input);
+    requested.push(url);
+    const route = routes.find(([prefix]) => url.startsWith(prefix));
+    return route && route[1] !== null ? new Response(route[1]) : new Response('Not found', { status: 404 });
+  };
+}
+
+const xRoute = (id: string, name = `x-post-${id.slice(-1)}.json`): [string, string] =>
+  [`https://cdn.syndication.twimg.com/tweet-result?id=${id}&`, fixture(name)];
+
+describe('Thread URLs', () => {
+  it('classifies X and Mastodon post URLs as threads', () => {
+    for (const url of [
+      X_URL,
+      'https://twitter.com/ada_dev/status/1831000000000000003?s=20',
+      MASTODON_URL,
+      'https://hachyderm.io/@ada@mastodon.example/113000000000000003',
+      'https://mastodon.example/users/ada/statuses/113000000000000003'
+    ]) {
+      expect(URLValidator.validateAndClassify(url).type).toBe(ContentType.TWITTER);
+    }
+    expect(URLValidator.validateAndClassify('https://mastodon.example/@ada').type).not.toBe(ContentType.TWITTER);
+    expect(detectThreadPlatform(X_URL)).toBe('x');
+    expect(detectThreadPlatform(MASTODON_URL)).toBe('mastodon');
+    expect(detectThreadPlatform('https://example.com/blog/post')).toBeNull();
+  });
+});
+
+describe('Mastodon threads', () => {
+  it("unrolls the author's self-replies around the linked post", async () => {
+    const requested: string[] = [];
+    const fetch = replay([
+      ['https://mastodon.example/api/v1/statuses/113000000000000003/context', fixture('mastodon-context.json')],
+      ['https://mastodon.example/api/v1/statuses/113000000000000003', fixture('mastodon-status.json')]
+    ], requested);
+
+    const thread = await unrollThread(MASTODON_URL, { fetch });
+
+    expect(requested).toHaveLength(2);
+    expect(thread.platform).toBe('mastodon');
+    expect(thread.author).toEqual({ name: 'Ada Lovelace', handle: '@ada@mastodon.example', url: 'https://mastodon.example/@ada' });
+    expect(thread.posts.map(post => post.id)).toEqual([
+      '113000000000000001',
+      '113000000000000002',
+      '113000000000000003',
+      '113000000000000004'
+    ]);
+
+    const [first, second, third] = thread.posts;
+    expect(first.contentWarning).toBe('Long thread');
+    expect(first.text).toBe('1/ Why our build got slow, a thread.\n\nIt started with one flaky test.\nThen there were ten.');
+    expect(first.media).toEqual([{
+      type: 'image',
+      url: 'https://files.mastodon.example/media/build-times.png',
+      altText: 'Line chart of build times rising from 4 to 19 minutes over six months'
+    }]);
+    expect(second.text).toBe('2/ Grace called it months ago:');
+    expect(second.quoted?.author.handle).toBe('@grace@other.example');
+    expect(second.quoted?.media[0]).toMatchObject({ type: 'gif', altText: 'A cat knocking a glass off a table' });
+    expect(third.text).toBe('3/ The fix: measure first. Our profiler run is at https://blog.example.com/profiling-notes #performance');
+  });
+
+  it('keeps the post when the instance hides its context', async () => {
+    const fetch = replay([
+      ['https://mastodon.example/api/v1/statuses/113000000000000003/context', null],
+      ['https://mastodon.example/api/v1/statuses/113000000000000003', fixture('mastodon-status.json')]
+    ]);
+
+    const thread = await unrollThread(MASTODON_URL, { fetch });
+
+    expect(thread.posts).toHaveLength(1);
+  });
+
+  it('reports deleted posts as not found', async () => {
+    await expect(unrollThread(MASTODON_URL, { fetch: replay([]) })).rejects.toMatchObject({ code: 'THREAD_NOT_FOUND' });
+  });
+});
+
+describe('X threads', () => {
+  it('follows self-replies up to the first post', async () => {
+    const fetch = replay([xRoute('1831000000000000001'), xRoute('1831000000000000002'), xRoute('1831000000000000003')]);
+
+    const thread = await unrollThread(X_URL, { fetch });
+
+    expect(thread.platform).toBe('x');
+    expect(thread.author.handle).toBe('@ada_dev');
+    expect(thread.posts.map(post => post.text)).toEqual([
+      '1/ Why our build got slow & how we fixed it',
+      '2/ Grace was right, measure: https://blog.example.com/profiling',
+      '3/ Builds are back under five minutes 🎉'
+    ]);
+    expect(thread.posts[0].media).toEqual([{
+      type: 'image',
+      url: 'https://pbs.twimg.com/media/BuildTimes.jpg',
+      altText: 'Line chart of build times rising from 4 to 19 minutes'
+    }]);
+    expect(thread.posts[1].quoted).toMatchObject({ text: 'Every cache you add is a cache you must invalidate.', author: { handle: '@grace' } });
+    expect(thread.posts[1].quoted?.media[0].type).toBe('gif');
+  });
+
+  it('starts the thread after a deleted post', async () => {
+    const fetch = replay([
+      ['https://cdn.syndication.twimg.com/tweet-result?id=1831000000000000001&', JSON.stringify({ __typename: 'TweetTombstone' })],
+      xRoute('1831000000000000002'),
+      xRoute('1831000000000000003')
+    ]);
+
+    const thread = await unrollThread(X_URL, { fetch });
+
+    expect(thread.posts.map(post => post.id)).toEqual(['1831000000000000002', '1831000000000000003']);
+  });
+
+  it('stops at the post limit', async () => {
+    const fetch = replay([xRoute('1831000000000000002'), xRoute('1831000000000000003')]);
+
+    const thread = await unrollThread(X_URL, { fetch, maxPosts: 2 });
+
+    expect(thread.posts).toHaveLength(2);
+  });
+});
+
+describe('Thread content', () => {
+  it('renders numbered posts with quotes and media descriptions, and frontmatter fields', async () => {
+    const fetch = replay([xRoute('1831000000000000001'), xRoute('1831000000000000002'), xRoute('1831000000000000003')]);
+    const thread = await unrollThread(X_URL, { fetch });
+
+    const content = threadContent(thread);
+    expect(content.startsWith('# Thread by Ada Lovelace (@ada_dev)\n\n**1/3** · 2024-09-03\n\n1/ Why our build got slow')).toBe(true);
+    expect(content).toContain('[Image: Line chart of build times rising from 4 to 19 minutes]');
+    expect(content).toContain('> Quoting Grace Hopper (@grace):\n> Every cache you add is a cache you must invalidate.\n> [GIF: A cat knocking a glass off a table]');
+
+    expect(threadMetadata(thread)).toMatchObject({
+      platform: 'x',
+      title: '1/ Why our build got slow & how we fixed it',
+      author: 'Ada Lovelace',
+      authorHandle: '@ada_dev',
+      postCount: 3,
+      publishDate: '2024-09-03T08:00:00.000Z',
+      quotedPosts: 1,
+      mediaCount: 1
+    });
+  });
+
+  it('has a thread prompt template', () => {
+    const prompt = PromptFactory.getPrompt('twitter', {
+      contentType: 'twitter',
+      content: '# Thread',
+      metadata: { title: 'Builds', url: X_URL, author: 'Ada Lovelace', authorHandle: '@ada_dev', postCount: 3, platform: 'x' }
+    });
+
+    expect(prompt.userPrompt).toContain('- Author: Ada Lovelace (@ada_dev)\n- Posts: 3\n- Platform: X (Twitter)');
+    expect(prompt.expectedFormat).toContain('authorHandle:');
+    expect(prompt.expectedFormat).toContain('postCount:');
+  });
+});
@@ -0,0 +1,144 @@
+import { describe, it, expect, spyOn, afterEach } from 'bun:test';
+import { YoutubeTranscript } from 'youtube-transcript';
+import {
+  normalizeTranscriptItems,
+  parseChapters,
+  groupTranscript,
+  transcriptToText,
+  linkTimestamps,
+  formatTimestamp
+} from '../../src/core/transcript';
+import { MarkdownFormatter } from '../../src/core/formatters';
+import { ContentFetcher } from '../../src/core/processor';
+import { ContentType, type GeminiGem, type Transcript } from '../../src/core/types';
+import { GeminiMockFactory } from '../mocks/factories';
+
+const transcript: Transcript = {
+  videoId: 'dQw4w9WgXcQ',
+  segments: [
+    { text: 'Welcome to the show.', start: 0, duration: 4 },
+    { text: 'Today we cover caching.', start: 4, duration: 5 },
+    { text: 'First, why caches matter.', start: 65, duration: 6 },
+    { text: 'Now the deep dive.', start: 130, duration: 5 }
+  ]
+};
+
+function youtubeGem(content: Partial<GeminiGem['content']>): GeminiGem {
+  return GeminiMockFactory.createMockGem({
+    frontmatter: { type: ContentType.YOUTUBE, entities: [], metadata: { videoId: 'dQw4w9WgXcQ' } } as Partial<GeminiGem['frontmatter']> as GeminiGem['frontmatter'],
+    content: { sections: [], ...content } as GeminiGem['content']
+  });
+}
+
+describe('Timed transcripts', () => {
+  describe('normalizeTranscriptItems', () => {
+    it('should convert millisecond offsets to seconds', () => {
+      const segments = normalizeTranscriptItems([
+        { text: 'second', offset: 3200, duration: 2400 },
+        { text: ' first  line ', offset: 0, duration: 3200 },
+        { text: '   ', offset: 5600, duration: 1000 }
+      ]);
+
+      expect(segments).toEqual([
+        { text: 'first line', start: 0, duration: 3.2 },
+        { text: 'second', start: 3.2, duration: 2.4 }
+      ]);
+    });
+
+    it('should keep second offsets from classic captions', () => {
+      expect(normalizeTranscriptItems([{ text: 'hi', offset: 12.5, duration: 3.1 }])[0].start).toBe(12.5);
+    });
+  });
+
+  describe('parseChapters', () => {
+    it('should read chapter lines from a description', () => {
+      expect(parseChapters('Links below\n0:00 Intro\n1:05 - Why caches\n1:02:10 Wrap up')).toEqual([
+        { title: 'Intro', start: 0 },
+        { title: 'Why caches', start: 65 },
+        { title: 'Wrap up', start: 3730 }
+      ]);
+    });
+
+    it('should ignore descriptions that are not chapter lists', () => {
+      expect(parseChapters('2:00 Starts late\n3:00 Another\n4:00 Third')).toEqual([]);
+      expect(parseChapters('0:00 Only\n1:00 Two')).toEqual([]);
+      expect(parseChapters(undefined)).toEqual([]);
+    });
+  });
+
+  describe('grouping', () => {
+    it('should split paragraphs roughly every minute', () => {
+      const [group] = groupTranscript(transcript);
+
+      expect(group.paragraphs.map(p => p.start)).toEqual([0, 65, 130]);
+      expect(group.paragraphs[0].text).toBe('Welcome to the show. Today we cover caching.');
+    });
+
+    it('should split at chapters', () => {
+      const groups = groupTranscript({ ...transcript, chapters: [{ title: 'Intro', start: 0 }, { title: 'Deep dive', start: 120 }] });
+
+      expect(groups.map(g => g.chapter?.title)).toEqual(['Intro', 'Deep dive']);
+      expect(groups[1].paragraphs).toEqual([{ start: 130, text: 'Now the deep dive.' }]);
+    });
+
+    it('should mark paragraphs for the model only when asked', () => {
+      expect(transcriptToText(transcript, { timestamps: true })).toStartWith('[00:00] Welcome');
+      expect(transcriptToText(transcript)).toStartWith('Welcome');
+    });
+  });
+
+  it('should format and link timestamps', () => {
+    expect(formatTimestamp(65.9)).toBe('01:05');
+    expect(formatTimestamp(3730)).toBe('1:02:10');
+    expect(linkTimestamps('Cache invalidation [01:05]', 'abc')).toBe('Cache invalidation [01:05](https://youtu.be/abc?t=65)');
+    expect(linkTimestamps('Already [01:05](https://x.y)', 'abc')).toBe('Already [01:05](https://x.y)');
+  });
+
+  describe('MarkdownFormatter', () => {
+    it('should render timed paragraphs with deep links', async () => {
+      const markdown = await new MarkdownFormatter().format(youtubeGem({ transcript }));
+
+      expect(markdown).toContain('[00:00](https://youtu.be/dQw4w9WgXcQ?t=0) Welcome to the show. Today we cover caching.');
+      expect(markdown).toContain('[02:10](https://youtu.be/dQw4w9WgXcQ?t=130) Now the deep dive.');
+      expect(markdown).not.toContain('```transcript');
+    });
+
+    it('should link key point citations to the video', async () => {
+      const markdown = await new MarkdownFormatter().format(youtubeGem({ keyPoints: ['Why caches matter [01:05]'] }));
+      expect(markdown).toContain('- Why caches matter [01:05](https://youtu.be/dQw4w9WgXcQ?t=65)');
+    });
+
+    it('should keep plain transcripts in a code fence', async () => {
+      const markdown = await new MarkdownFormatter().format(youtubeGem({ transcript: 'plain text' }));
+      expect(markdown).toContain('```transcript\nplain text\n```');
+    });
+  });
+
+  describe('ContentFetcher', () => {
+    const spies: Array<{ mockRestore(): void }> = [];
+
+    afterEach(() => {
+      spies.splice(0).forEach(spy => spy.mockRestore());
+    });
+
+    it('should keep segments and chapters for YouTube videos', async () => {
+      spies.push(
+        spyOn(ContentFetcher.prototype as any, 'fetchYouTubePageMetadata').mockResolvedValue({
+          title: 'Caching 101',
+          description: '0:00 Intro\n1:00 Basics\n2:00 Deep dive'
+        }),
+        spyOn(YoutubeTranscript, 'fetchTranscript').mockResolvedValue([
+          { text: 'Welcome to the show.', offset: 0, duration: 4000 },
+          { text: 'Now the deep dive.', offset: 130000, duration: 5000 }
+        ])
+      );
+
+      const result = await new ContentFetcher().fetchContent('https://www.youtube.com/watch?v=dQw4w9WgXcQ', { includeTimestamps: true });
+
+      expect(result.transcript?.segments).toHaveLength(2);
+      expect(result.transcript?.chapters?.map(c => c.title)).toEqual(['Intro', 'Basics', 'Deep dive']);
+      expect(result.content).toContain('[02:10] Now the deep dive.');
+      expect(result.metadata.transcriptDuration).toBe(135);
+    });
+  });
+});
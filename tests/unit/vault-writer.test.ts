@@ -0,0 +1,131 @@
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import { mkdtemp, rm, readdir, readFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { VaultWriter } from '../../src/core/storage/vault-writer';
+import { StorageError } from '../../src/core/errors';
+import { ContentType, type GeminiGem } from '../../src/core/types';
+import { GeminiMockFactory } from '../mocks/factories';
+import type { Fetcher } from '../../src/core/network';
+
+const PROCESSED = new Date('2024-05-01T10:00:00Z');
+const JPEG = new Uint8Array([0xff, 0xd8, 0xff, 0xe0, 1, 2, 3, 4]);
+
+function gem(frontmatter: Partial<GeminiGem['frontmatter']> = {}): GeminiGem {
+  return GeminiMockFactory.createMockGem({
+    frontmatter: { title: 'Deep Work', processed: PROCESSED, ...frontmatter } as GeminiGem['frontmatter']
+  });
+}
+
+describe('VaultWriter', () => {
+  let root: string;
+  let fetched: string[];
+
+  const imageFetch: Fetcher = async input => {
+    fetched.push(String(input));
+    return new Response(JPEG, { headers: { 'content-type': 'image/jpeg' } });
+  };
+
+  beforeEach(async () => {
+    root = await mkdtemp(join(tmpdir(), 'obsidianize-vault-'));
+    fetched = [];
+  });
+
+  afterEach(async () => {
+    await rm(root, { recursive: true, force: true });
+  });
+
+  it('should write notes into the folder for their content type', async () => {
+    const writer = new VaultWriter({ root, folders: { [ContentType.PAPER]: 'Research/Papers' } });
+
+    const article = await writer.write(gem());
+    const paper = await writer.write(gem({ type: ContentType.PAPER, source: 'https://arxiv.org/abs/1' }));
+
+    expect(article.relativePath).toBe('Articles/2024-05-01-deep-work.md');
+    expect(article.status).toBe('created');
+    expect(paper.relativePath).toBe('Research/Papers/2024-05-01-deep-work.md');
+    expect(await readFile(article.path, 'utf8')).toContain('title: Deep Work');
+  });
+
+  it('should suffix notes from other sources and update the note for the same source', async () => {
+    const writer = new VaultWriter({ root });
+
+    const first = await writer.write(gem({ source: 'https://a.com/post' }));
+    const second = await writer.write(gem({ source: 'https://b.com/post' }));
+    const again = await writer.write(gem({ source: 'https://b.com/post' }));
+
+    expect(first.relativePath).toBe('Articles/2024-05-01-deep-work.md');
+    expect(second.relativePath).toBe('Articles/2024-05-01-deep-work-2.md');
+    expect(again.path).toBe(second.path);
+    expect(again.status).toBe('updated');
+    expect(await readdir(join(root, 'Articles', '.backups'))).toHaveLength(1);
+  });
+
+  it('should replace a same-named note when overwrite is set', async () => {
+    await new VaultWriter({ root }).write(gem({ source: 'https://a.com/post' }));
+
+    const result = await new VaultWriter({ root, overwrite: true }).write(gem({ source: 'https://b.com/post' }));
+
+    expect(result.relativePath).toBe('Articles/2024-05-01-deep-work.md');
+    expect(result.status).toBe('updated');
+    expect(await readFile(result.path, 'utf8')).toContain('source: https://b.com/post');
+  });
+
+  it('should save thumbnails as attachments and embed them', async () => {
+    const writer = new VaultWriter({ root, attachmentsFolder: 'Assets' }, { fetch: imageFetch });
+
+    const result = await writer.write(gem({
+      type: ContentType.YOUTUBE,
+      metadata: { thumbnail: 'https://i.ytimg.com/vi/abc123/hqdefault.jpg' }
+    }));
+
+    expect(fetched).toEqual(['https://i.ytimg.com/vi/abc123/hqdefault.jpg']);
+    expect(result.attachments).toEqual(['Assets/Videos/2024-05-01-deep-work.jpg']);
+    expect(new Uint8Array(await readFile(join(root, 'Assets', 'Videos', '2024-05-01-deep-work.jpg')))).toEqual(JPEG);
+    expect(result.content).toMatch(/^---\n[\s\S]*?\n---\n\n!\[\[Assets\/Videos\/2024-05-01-deep-work\.jpg\]\]\n/);
+  });
+
+  it('should keep attachments of same-named notes in different folders apart', async () => {
+    const writer = new VaultWriter({ root }, { fetch: imageFetch });
+
+    const video = await writer.write(gem({ type: ContentType.YOUTUBE, metadata: { thumbnail: 'https://i.ytimg.com/vi/abc123/hqdefault.jpg' } }));
+    const article = await writer.write(gem({ metadata: { image: 'https://example.com/cover.jpg' } }));
+
+    expect(video.attachments).toEqual(['attachments/Videos/2024-05-01-deep-work.jpg']);
+    expect(article.attachments).toEqual(['attachments/Articles/2024-05-01-deep-work.jpg']);
+  });
+
+  it('should skip attachments that are unsafe or not images', async () => {
+    const htmlFetch: Fetcher = async () => new Response('<html></html>', { headers: { 'content-type': 'text/html' } });
+
+    const unsafe = await new VaultWriter({ root }, { fetch: imageFetch })
+      .write(gem({ metadata: { thumbnail: 'http://127.0.0.1/thumb.jpg' } }));
+    const notImage = await new VaultWriter({ root }, { fetch: htmlFetch })
+      .write(gem({ source: 'https://c.com', metadata: { image: 'https://example.com/page' } }));
+
+    expect(fetched).toEqual([]);
+    expect(unsafe.attachments).toEqual([]);
+    expect(notImage.attachments).toEqual([]);
+  });
+
+  it('should keep folders inside the vault', async () => {
+    const writer = new VaultWriter({ root, folders: { [ContentType.ARTICLE]: '../outside' } });
+
+    const error = await writer.write(gem()).catch(e => e);
+
+    expect(error).toBeInstanceOf(StorageError);
+    expect(error.code).toBe('INVALID_VAULT_PATH');
+  });
+
+  it('should build a writer from OutputConfig', async () => {
+    const writer = VaultWriter.fromOutputConfig({
+      directory: root,
+      filenamePattern: '{type}-{title}.md',
+      createDirectories: true,
+      overwrite: false,
+      includeMetadata: true
+    });
+
+    expect((await writer.write(gem())).relativePath).toBe('Articles/article-deep-work.md');
+  });
+});
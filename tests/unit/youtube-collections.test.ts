@@ -0,0 +1,212 @@
+import { describe, it, expect, spyOn, beforeEach, afterEach } from 'bun:test';
+import { URLValidator } from '../../src/core/validators';
+import { buildCollectionIndexNote, expandYouTubeCollection } from '../../src/core/youtube';
+import { DataProcessor } from '../../src/core/processor';
+import { SqliteJobStore, setJobStore } from '../../src/core/jobs/job-store';
+import { isJobRunning } from '../../src/core/jobs/cancellation';
+import { SafeFetcher, setSafeFetcher, type Fetcher } from '../../src/core/network';
+import { handleEnhancedApiRequest } from '../../src/web/server/routes-enhanced';
+import { handleProcessRequest } from '../../src/web/server/routes';
+import { ContentType } from '../../src/core/types';
+import { ProcessingMockFactory, waitFor } from '../mocks/factories';
+
+const API_KEY = 'AIzaSyA1234567890abcdefghijklmnopqrstu';
+const CHANNEL_ID = 'UCabcdefghijklmnopqrstuv';
+
+const renderer = (videoId: string, title: string, isPlayable = true) => ({
+  playlistVideoRenderer: { videoId, title: { runs: [{ text: title }] }, isPlayable }
+});
+
+const continuation = (token: string) => ({
+  continuationItemRenderer: { continuationEndpoint: { continuationCommand: { token } } }
+});
+
+/** A playlist page as YouTube renders it: initial data in a script, client config beside it */
+function playlistPage(title: string, items: unknown[]): string {
+  const data = {
+    metadata: { playlistMetadataRenderer: { title } },
+    contents: { twoColumnBrowseResultsRenderer: { tabs: [{ tabRenderer: { content: { playlistVideoListRenderer: { contents: items } } } }] } }
+  };
+  return `<html><head><meta property="og:title" content="${title}"></head><body>
+<script>ytcfg.set({"INNERTUBE_API_KEY":"test-key","INNERTUBE_CLIENT_VERSION":"2.20240101"});</script>
+<script>var ytInitialData = ${JSON.stringify(data)};</script></body></html>`;
+}
+
+/** Serve canned YouTube responses by URL, recording every request */
+function youtubeFetch(routes: Record<string, string | ((init?: RequestInit) => string)>) {
+  const requests: string[] = [];
+  const fetcher: Fetcher = async (input, init) => {
+    const url = String(input);
+    requests.push(url);
+    const route = Object.entries(routes).find(([prefix]) => url.startsWith(prefix))?.[1];
+    if (route === undefined) {
+      return new Response('Not found', { status: 404 });
+    }
+    return new Response(typeof route === 'function' ? route(init) : route);
+  };
+  return { fetch: fetcher, requests };
+}
+
+describe('YouTube collections', () => {
+  it('should recognize playlist and channel URLs as YouTube rather than articles', () => {
+    expect(URLValidator.extractYouTubeCollection('https://www.youtube.com/playlist?list=PL123abc')).toEqual({ kind: 'playlist', id: 'PL123abc' });
+    expect(URLValidator.extractYouTubeCollection('https://youtube.com/playlist?si=x&list=PL123abc')).toEqual({ kind: 'playlist', id: 'PL123abc' });
+    expect(URLValidator.extractYouTubeCollection('https://www.youtube.com/@SomeCreator/videos')).toEqual({ kind: 'channel', id: '@SomeCreator' });
+    expect(URLValidator.extractYouTubeCollection(`https://www.youtube.com/channel/${CHANNEL_ID}`)).toEqual({ kind: 'channel', id: `channel/${CHANNEL_ID}` });
+    expect(URLValidator.extractYouTubeCollection('https://www.youtube.com/c/SomeName')).toEqual({ kind: 'channel', id: 'c/SomeName' });
+
+    // Videos (even those opened from a playlist) stay single videos
+    expect(URLValidator.extractYouTubeCollection('https://www.youtube.com/watch?v=dQw4w9WgXcQ&list=PL123abc')).toBeNull();
+    expect(URLValidator.extractYouTubeCollection('https://www.youtube.com/@SomeCreator/community')).toBeNull();
+    expect(URLValidator.validateAndClassify('https://www.youtube.com/playlist?list=PL123abc')).toEqual({ valid: true, type: ContentType.YOUTUBE });
+  });
+
+  it('should expand a playlist across continuation pages in playlist order', async () => {
+    const bodies: unknown[] = [];
+    const { fetch, requests } = youtubeFetch({
+      'https://www.youtube.com/playlist?list=PLcourse': playlistPage('The Course', [
+        renderer('aaaaaaaaaaa', 'Lecture 1'),
+        renderer('ppppppppppp', '[Private video]', false),
+        renderer('bbbbbbbbbbb', 'Lecture 2'),
+        continuation('next-page')
+      ]),
+      'https://www.youtube.com/youtubei/v1/browse': init => {
+        bodies.push(JSON.parse(String(init?.body)));
+        return JSON.stringify({
+          onResponseReceivedActions: [{ appendContinuationItemsAction: { continuationItems: [renderer('bbbbbbbbbbb', 'Lecture 2'), renderer('ccccccccccc', 'Lecture 3')] } }]
+        });
+      }
+    });
+
+    const collection = await expandYouTubeCollection('https://www.youtube.com/playlist?list=PLcourse', { fetch });
+
+    expect(collection).toMatchObject({ kind: 'playlist', id: 'PLcourse', playlistId: 'PLcourse', title: 'The Course', truncated: false });
+    expect(collection?.videos).toEqual([
+      { videoId: 'aaaaaaaaaaa', url: 'https://www.youtube.com/watch?v=aaaaaaaaaaa', title: 'Lecture 1' },
+      { videoId: 'bbbbbbbbbbb', url: 'https://www.youtube.com/watch?v=bbbbbbbbbbb', title: 'Lecture 2' },
+      { videoId: 'ccccccccccc', url: 'https://www.youtube.com/watch?v=ccccccccccc', title: 'Lecture 3' }
+    ]);
+    expect(requests[1]).toContain('key=test-key');
+    expect(bodies).toEqual([{ context: { client: { clientName: 'WEB', clientVersion: '2.20240101' } }, continuation: 'next-page' }]);
+
+    const capped = await expandYouTubeCollection('https://www.youtube.com/playlist?list=PLcourse', { fetch, maxVideos: 1 });
+    expect(capped?.videos.map(video => video.videoId)).toEqual(['aaaaaaaaaaa']);
+    expect(capped?.truncated).toBe(true);
+  });
+
+  it('should expand a channel handle through its uploads playlist, falling back to the feed', async () => {
+    const { fetch, requests } = youtubeFetch({
+      'https://www.youtube.com/@SomeCreator': `<html><head><meta property="og:title" content="Some Creator"><meta itemprop="identifier" content="${CHANNEL_ID}"></head></html>`,
+      'https://www.youtube.com/playlist?list=UU': '<html><body>Before you continue to YouTube</body></html>',
+      'https://www.youtube.com/feeds/videos.xml?playlist_id=UU': `<?xml version="1.0"?><feed xmlns="http://www.w3.org/2005/Atom"><title>Uploads</title>
+        <entry><id>yt:video:ddddddddddd</id><title>Newest</title><link rel="alternate" href="https://www.youtube.com/watch?v=ddddddddddd"/></entry>
+      </feed>`
+    });
+
+    const collection = await expandYouTubeCollection('https://www.youtube.com/@SomeCreator', { fetch });
+
+    expect(collection).toMatchObject({ kind: 'channel', id: '@SomeCreator', playlistId: 'UUabcdefghijklmnopqrstuv', title: 'Some Creator' });
+    expect(collection?.videos).toEqual([{ videoId: 'ddddddddddd', url: 'https://www.youtube.com/watch?v=ddddddddddd', title: 'Newest' }]);
+    expect(requests[1]).toBe('https://www.youtube.com/playlist?list=UUabcdefghijklmnopqrstuv');
+
+    expect(await expandYouTubeCollection('https://www.youtube.com/watch?v=ddddddddddd', { fetch })).toBeNull();
+    await expect(expandYouTubeCollection('https://www.youtube.com/@Missing', { fetch })).rejects.toMatchObject({ code: 'YOUTUBE_COLLECTION_NOT_FOUND' });
+  });
+
+  it('should link processed videos in the index note and point to the rest on YouTube', () => {
+    const gem = ProcessingMockFactory.createSuccess().data!;
+    gem.frontmatter.title = 'Lecture 1: Intro';
+    gem.frontmatter.processed = new Date('2024-05-01T12:00:00Z');
+
+    const note = buildCollectionIndexNote(
+      { kind: 'playlist', id: 'PLcourse', title: 'The Course', url: 'https://www.youtube.com/playlist?list=PLcourse', truncated: false },
+      [
+        { video: { videoId: 'aaaaaaaaaaa', url: 'https://www.youtube.com/watch?v=aaaaaaaaaaa' }, gem },
+        { video: { videoId: 'bbbbbbbbbbb', url: 'https://www.youtube.com/watch?v=bbbbbbbbbbb', title: 'Lecture [2]' }, note: 'failed: No transcript' }
+      ],
+      { created: new Date('2024-05-02T00:00:00Z') }
+    );
+
+    expect(note.title).toBe('The Course');
+    expect(note.filename).toBe('the-course.md');
+    expect(note.content).toStartWith('---\ntitle: The Course\nsource: https://www.youtube.com/playlist?list=PLcourse\ntype: youtube-playlist\n');
+    expect(note.content).toContain('1. [[2024-05-01-lecture-1-intro|Lecture 1: Intro]]\n2. [Lecture 2](https://www.youtube.com/watch?v=bbbbbbbbbbb) (failed: No transcript)');
+  });
+
+  describe('POST /api/batch', () => {
+    let store: SqliteJobStore;
+    let processRequest: ReturnType<typeof spyOn<DataProcessor, 'processRequest'>>;
+
+    beforeEach(() => {
+      store = new SqliteJobStore({ cleanupInterval: 0 });
+      setJobStore(store);
+      processRequest = spyOn(DataProcessor.prototype, 'processRequest').mockImplementation(async (request) => {
+        const result = ProcessingMockFactory.createSuccess();
+        result.data!.frontmatter.title = `Video ${String(request.input).slice(-11)}`;
+        result.data!.frontmatter.processed = new Date('2024-05-01T12:00:00Z');
+        return result;
+      });
+      const youtube = youtubeFetch({
+        'https://www.youtube.com/playlist?list=PLcourse': playlistPage('The Course', [
+          renderer('bbbbbbbbbbb', 'Second upload, first in playlist'),
+          renderer('aaaaaaaaaaa', 'First upload')
+        ])
+      });
+      setSafeFetcher(new SafeFetcher({}, {
+        lookup: async () => ['142.250.0.1'],
+        transport: (url, _address, init) => youtube.fetch(url.href, init)
+      }));
+    });
+
+    afterEach(() => {
+      setSafeFetcher(null);
+      processRequest.mockRestore();
+      setJobStore(null);
+      store.close();
+    });
+
+    const api = (path: string, body?: unknown) => handleEnhancedApiRequest(new Request(`http://localhost${path}`, {
+      method: body === undefined ? 'GET' : 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: body === undefined ? undefined : JSON.stringify(body)
+    }));
+
+    it('should run a playlist as a batch and return an index note in playlist order', async () => {
+      const response = await api('/api/batch', { urls: ['https://www.youtube.com/playlist?list=PLcourse'], apiKey: API_KEY });
+
+      expect(response?.status).toBe(201);
+      const { batchId, ...body } = await response?.json() as { batchId: string };
+      expect(body).toMatchObject({ totalUrls: 2, collections: [{ kind: 'playlist', title: 'The Course', videos: 2, truncated: false }] });
+      await waitFor(() => processRequest.mock.calls.length === 2 && !isJobRunning(batchId));
+
+      const results = await (await api(`/api/batch/${batchId}/results`))?.json() as { indexNotes: Array<{ filename: string; content: string }> };
+      expect(results.indexNotes).toHaveLength(1);
+      expect(results.indexNotes[0].filename).toBe('the-course.md');
+      expect(results.indexNotes[0].content).toContain(
+        '1. [[2024-05-01-video-bbbbbbbbbbb|Video bbbbbbbbbbb]]\n2. [[2024-05-01-video-aaaaaaaaaaa|Video aaaaaaaaaaa]]'
+      );
+    });
+
+    it('should start a batch when a playlist is submitted for processing', async () => {
+      const response = await handleProcessRequest(new Request('http://localhost/api/process', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ url: 'https://www.youtube.com/playlist?list=PLcourse', apiKey: API_KEY })
+      }));
+
+      expect(response.status).toBe(201);
+      const { batchId, totalUrls } = await response.json() as { batchId: string; totalUrls: number };
+      expect(batchId).toStartWith('batch_');
+      expect(totalUrls).toBe(2);
+      await waitFor(() => !isJobRunning(batchId));
+    });
+
+    it('should report a collection YouTube cannot list', async () => {
+      const response = await api('/api/batch', { urls: ['https://www.youtube.com/playlist?list=PLgone'], apiKey: API_KEY });
+
+      expect(response?.status).toBe(502);
+      expect(await response?.json()).toMatchObject({ code: 'YOUTUBE_COLLECTION_NOT_FOUND' });
+      expect(await store.count({ kind: 'batch' })).toBe(0);
+    });
+  });
+});